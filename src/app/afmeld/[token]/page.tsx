@@ -0,0 +1,64 @@
+import type { Metadata } from "next";
+import { verifyUnsubscribeToken } from "@/lib/outreach/unsubscribe-token";
+import { isSuppressed } from "@/lib/outreach/suppression-store";
+import { HYDE_ADDRESS_LINE, HYDE_CITY_LINE, HYDE_COMPANY_NAME } from "@/lib/tilbud/branding";
+
+export const dynamic = "force-dynamic";
+
+export const metadata: Metadata = {
+  title: `Afmeld – ${HYDE_COMPANY_NAME}`,
+  robots: { index: false, follow: false },
+};
+
+/**
+ * Public unsubscribe page linked from the footer of outbound mail.
+ * Opening the page does nothing by itself (link scanners open links);
+ * the button posts to the one-click endpoint.
+ */
+export default async function UnsubscribePage({
+  params,
+  searchParams,
+}: {
+  params: Promise<{ token: string }>;
+  searchParams: Promise<{ done?: string }>;
+}) {
+  const { token } = await params;
+  const { done } = await searchParams;
+  const email = await verifyUnsubscribeToken(token);
+  const unsubscribed = !!email && (done === "1" || (await isSuppressed(email)));
+
+  return (
+    <main className="mx-auto max-w-md px-4 py-16 space-y-6">
+      <header>
+        <p className="text-lg font-bold text-slate-900">{HYDE_COMPANY_NAME}</p>
+        <p className="text-xs text-slate-500">{HYDE_ADDRESS_LINE}, {HYDE_CITY_LINE}</p>
+      </header>
+
+      <section className="surface-card p-6 space-y-4 text-sm text-slate-700">
+        {!email ? (
+          <p>Linket er ugyldigt. Svar blot på vores mail med &quot;afmeld&quot;, så fjerner vi dig.</p>
+        ) : unsubscribed ? (
+          <p>
+            <span className="font-semibold text-slate-900">{email}</span> er afmeldt og modtager ikke flere
+            henvendelser fra os.
+          </p>
+        ) : (
+          <>
+            <p>
+              Vil du afmelde <span className="font-semibold text-slate-900">{email}</span> fra fremtidige
+              henvendelser fra {HYDE_COMPANY_NAME}?
+            </p>
+            <form method="post" action={`/api/public/unsubscribe?token=${encodeURIComponent(token)}`}>
+              <button
+                type="submit"
+                className="rounded-lg bg-slate-900 px-4 py-2 text-xs font-semibold text-white hover:bg-slate-700"
+              >
+                Afmeld
+              </button>
+            </form>
+          </>
+        )}
+      </section>
+    </main>
+  );
+}
@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  deleteAdministrator,
+  getAdministrator,
+  updateAdministrator,
+} from "@/lib/research/administrator-directory";
+import { administratorInputSchema } from "@/lib/research/administrator-types";
+import { logger } from "@/lib/logger";
+
+export const runtime = "nodejs";
+
+export async function GET(_: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  const administrator = await getAdministrator(id);
+  if (!administrator) {
+    return NextResponse.json({ error: "Administrator ikke fundet" }, { status: 404 });
+  }
+  return NextResponse.json({ administrator });
+}
+
+/** PUT – replaces the editable fields; contacts keep their learned history by id. */
+export async function PUT(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  const parsed = administratorInputSchema.safeParse(await req.json().catch(() => null));
+  if (!parsed.success) {
+    return NextResponse.json({ error: parsed.error.issues[0]?.message || "Ugyldige data" }, { status: 400 });
+  }
+  try {
+    const administrator = await updateAdministrator(id, parsed.data);
+    if (!administrator) {
+      return NextResponse.json({ error: "Administrator ikke fundet" }, { status: 404 });
+    }
+    return NextResponse.json({ success: true, administrator });
+  } catch (error) {
+    logger.error("Kunne ikke gemme administrator", { service: "administrators" });
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Kunne ikke gemme administrator" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(_: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  if (!(await getAdministrator(id))) {
+    return NextResponse.json({ error: "Administrator ikke fundet" }, { status: 404 });
+  }
+  if (!(await deleteAdministrator(id))) {
+    return NextResponse.json({ error: "Kunne ikke slette administrator" }, { status: 500 });
+  }
+  return NextResponse.json({ success: true });
+}
@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createAdministrator, findAdministrator, listAdministrators } from "@/lib/research/administrator-directory";
+import { administratorInputSchema } from "@/lib/research/administrator-types";
+import { logger } from "@/lib/logger";
+
+export const runtime = "nodejs";
+
+/** GET – the administrator directory (?q= filters on name, alias or CVR). */
+export async function GET(req: NextRequest) {
+  const q = req.nextUrl.searchParams.get("q") || undefined;
+  return NextResponse.json({ items: await listAdministrators(q) });
+}
+
+export async function POST(req: NextRequest) {
+  const parsed = administratorInputSchema.safeParse(await req.json().catch(() => null));
+  if (!parsed.success) {
+    return NextResponse.json({ error: parsed.error.issues[0]?.message || "Ugyldige data" }, { status: 400 });
+  }
+  const duplicate = await findAdministrator({ name: parsed.data.name, cvr: parsed.data.cvr });
+  if (duplicate) {
+    return NextResponse.json({ error: `Findes allerede: ${duplicate.name}`, administrator: duplicate }, { status: 409 });
+  }
+  try {
+    const administrator = await createAdministrator(parsed.data);
+    return NextResponse.json({ success: true, administrator });
+  } catch (error) {
+    logger.error("Kunne ikke oprette administrator", { service: "administrators" });
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Kunne ikke oprette administrator" },
+      { status: 500 }
+    );
+  }
+}
@@ -3,14 +3,15 @@
 // GET /api/auto-research?secret=...
 //
 // Called by cron job to automatically research eligible properties.
-// Fetches HubSpot properties, filters by rules, then calls processProperty()
-// directly so research actually runs — not just marks them as "ready".
+// Fetches HubSpot properties, filters by the rules saved in SettingsTab,
+// checks the autonomy level, then calls processProperty() directly so
+// research actually runs — not just marks them as "ready".
 // ============================================================
 
 import { NextRequest, NextResponse } from "next/server";
 import { verifyCronSecret } from "@/lib/cron-auth";
 import { fetchAllEjendomme } from "@/lib/hubspot";
-import { DEFAULT_AUTO_RULES } from "@/lib/state-machine";
+import { autonomyAllows, getActiveAutoRules } from "@/lib/outreach/autonomy-store";
 import { processProperty } from "@/lib/workflow/engine";
 import { logger } from "@/lib/logger";
 import type { Property } from "@/types";
@@ -32,7 +33,7 @@ export async function GET(req: NextRequest) {
     const allProperties = await fetchAllEjendomme();
 
     // ── Apply rules ──
-    const activeRules = DEFAULT_AUTO_RULES.filter((r) => r.active);
+    const activeRules = await getActiveAutoRules();
     if (activeRules.length === 0) {
       return NextResponse.json({
         message: "No active auto-research rules",
@@ -42,27 +43,41 @@ export async function GET(req: NextRequest) {
     }
 
     const toResearch: Property[] = [];
+    let held = 0;
 
     for (const property of allProperties) {
       if (toResearch.length >= MAX_PER_RUN) break;
 
-      for (const rule of activeRules) {
-        if (!rule.fromStatuses.includes(property.outreachStatus)) continue;
-        if (rule.minScore && (property.outdoorScore || 0) < rule.minScore) continue;
-        if (rule.maxAgeHours && property.createdAt) {
+      const rule = activeRules.find((r) => {
+        if (!r.fromStatuses.includes(property.outreachStatus)) return false;
+        if (r.minScore && (property.outdoorScore || 0) < r.minScore) return false;
+        if (r.maxAgeHours && property.createdAt) {
           const ageHours = (Date.now() - new Date(property.createdAt).getTime()) / 3_600_000;
-          if (ageHours > rule.maxAgeHours) continue;
+          if (ageHours > r.maxAgeHours) return false;
         }
-        toResearch.push(property);
-        break;
-      }
+        return true;
+      });
+      if (!rule) continue;
+
+      const action = property.outreachStatus === "NY_KRAEVER_RESEARCH" ? "start_research" : "retry_research";
+      const allowed = await autonomyAllows(action, {
+        source: "auto-research",
+        targetId: property.id,
+        label: property.name || property.address,
+        detail: { rule: rule.id },
+      });
+      if (allowed) toResearch.push(property);
+      else held++;
     }
 
     if (toResearch.length === 0) {
       return NextResponse.json({
-        message: "No properties eligible for auto-research",
+        message: held > 0
+          ? `${held} properties held back for approval (autonomy level)`
+          : "No properties eligible for auto-research",
         propertiesChecked: allProperties.length,
         activeRules: activeRules.map((r) => r.label),
+        held,
         processed: 0,
       });
     }
@@ -126,6 +141,7 @@ export async function GET(req: NextRequest) {
       durationMs: Date.now() - startTime,
       propertiesChecked: allProperties.length,
       activeRules: activeRules.map((r) => r.label),
+      held,
       processed: results.length,
       succeeded,
       failed,
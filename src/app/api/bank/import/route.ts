@@ -1,14 +1,28 @@
 // ============================================================
 // POST /api/bank/import
-// Upload et Lunar kontoudtog (PDF) → parse transaktioner →
-// gem i bank_transactions → opdatér kassebeholdning i case_settings.
+// Upload et kontoudtog (Lunar-PDF, CAMT.053, bank-CSV) → parse
+// transaktioner → dedup mod bank_transactions → gem nye →
+// opdatér kassebeholdning i case_settings.
+// preview=true: parse + dedup, men gem intet (bruges af import-dialogen).
 // ============================================================
 
 import { NextRequest, NextResponse } from "next/server";
-import { parseStatementText } from "@/lib/bank/statement-parser";
-import { saveBankTransactions } from "@/lib/bank/store";
+import {
+  StatementFormatError,
+  csvMappingProfileSchema,
+  decodeStatementText,
+  parseBankStatement,
+  statementFormatSchema,
+  type CsvMappingProfile,
+  type StatementSource,
+} from "@/lib/bank/formats";
+import { csvHeaders } from "@/lib/bank/formats/csv";
+import { findExistingTransactionIds, saveBankTransactions } from "@/lib/bank/store";
+import { listCategoryRules, recordImportRuleHits } from "@/lib/bank/rules-store";
+import { applyCategoryRules } from "@/lib/bank/rules";
 import { updateCostSettings } from "@/lib/case/settings-store";
 import { autoMatchToPlannedPayments } from "@/lib/case/planned-payments";
+import { reconcileInvoicePayments } from "@/lib/invoice/payments-store";
 import { logger } from "@/lib/logger";
 
 // Defense-in-depth: polyfill DOMMatrix på globalThis FØR pdfjs (via unpdf) loades.
@@ -42,11 +56,50 @@ export const runtime = "nodejs";
 export const maxDuration = 60;
 
 const MAX_BYTES = 15 * 1024 * 1024;
+/** Preview returns at most this many rows to the client. */
+const PREVIEW_ROWS = 300;
+
+async function extractPdfText(buffer: Buffer): Promise<string> {
+  // Udtræk tekst med unpdf — designet til serverless Node.js (Vercel).
+  // pdfjs-dist@5 fjernede Node-polyfills fra sin legacy-build, og pdf-parse@2
+  // brugte den moderne build, så uploaden fejlede med "DOMMatrix is not defined".
+  // unpdf wrapper pdfjs med de nødvendige polyfills indbygget.
+  // unpdf's extractText kollapser alle whitespaces (inkl. linjeskift) til mellemrum
+  // når mergePages: true — så vores statement-parser ikke kan finde rækker.
+  // Vi bruger extractTextItems i stedet og rekonstruerer rækker via Y-koordinat,
+  // så hver transaktionsrække ender som én linje (som parseren forventer).
+  const { extractTextItems } = await import("unpdf");
+  const { items: pageItems } = await extractTextItems(new Uint8Array(buffer));
+  const lines: string[] = [];
+  for (const items of pageItems) {
+    // Gruppér items efter Y (afrundet til 2-pixel buckets så ascendere/descendere falder sammen)
+    const rowsByY = new Map<number, Array<{ x: number; str: string }>>();
+    for (const item of items) {
+      const yKey = Math.round(item.y / 2) * 2;
+      let row = rowsByY.get(yKey);
+      if (!row) {
+        row = [];
+        rowsByY.set(yKey, row);
+      }
+      row.push({ x: item.x, str: item.str });
+    }
+    // PDF-Y vokser opad → sortér descending så vi får øverste række først
+    const ys = [...rowsByY.keys()].sort((a, b) => b - a);
+    for (const y of ys) {
+      const row = rowsByY.get(y)!;
+      row.sort((a, b) => a.x - b.x);
+      const lineText = row.map((r) => r.str).join(" ").replace(/\s+/g, " ").trim();
+      if (lineText) lines.push(lineText);
+    }
+  }
+  return lines.join("\n").trim();
+}
 
 export async function POST(req: NextRequest) {
   try {
     const formData = await req.formData();
     const file = formData.get("file") as File | null;
+    const preview = formData.get("preview") === "true";
     if (!file) {
       return NextResponse.json({ error: "Ingen fil modtaget" }, { status: 400 });
     }
@@ -59,73 +112,107 @@ export async function POST(req: NextRequest) {
 
     const buffer = Buffer.from(await file.arrayBuffer());
 
-    // Udtræk tekst med unpdf — designet til serverless Node.js (Vercel).
-    // pdfjs-dist@5 fjernede Node-polyfills fra sin legacy-build, og pdf-parse@2
-    // brugte den moderne build, så uploaden fejlede med "DOMMatrix is not defined".
-    // unpdf wrapper pdfjs med de nødvendige polyfills indbygget.
-    // unpdf's extractText kollapser alle whitespaces (inkl. linjeskift) til mellemrum
-    // når mergePages: true — så vores statement-parser ikke kan finde rækker.
-    // Vi bruger extractTextItems i stedet og rekonstruerer rækker via Y-koordinat,
-    // så hver transaktionsrække ender som én linje (som parseren forventer).
-    const { extractTextItems } = await import("unpdf");
-    const { items: pageItems } = await extractTextItems(new Uint8Array(buffer));
-    const lines: string[] = [];
-    for (const items of pageItems) {
-      // Gruppér items efter Y (afrundet til 2-pixel buckets så ascendere/descendere falder sammen)
-      const rowsByY = new Map<number, Array<{ x: number; str: string }>>();
-      for (const item of items) {
-        const yKey = Math.round(item.y / 2) * 2;
-        let row = rowsByY.get(yKey);
-        if (!row) {
-          row = [];
-          rowsByY.set(yKey, row);
-        }
-        row.push({ x: item.x, str: item.str });
-      }
-      // PDF-Y vokser opad → sortér descending så vi får øverste række først
-      const ys = [...rowsByY.keys()].sort((a, b) => b - a);
-      for (const y of ys) {
-        const row = rowsByY.get(y)!;
-        row.sort((a, b) => a.x - b.x);
-        const lineText = row.map((r) => r.str).join(" ").replace(/\s+/g, " ").trim();
-        if (lineText) lines.push(lineText);
+    const isPdf = file.type === "application/pdf" || /\.pdf$/i.test(file.name);
+    let source: StatementSource;
+    if (isPdf) {
+      const text = await extractPdfText(buffer);
+      if (text.length < 100) {
+        return NextResponse.json(
+          { error: "Kunne ikke læse kontoudtoget. Upload PDF'en direkte fra banken (ikke et foto)." },
+          { status: 422 }
+        );
       }
+      source = { filename: file.name, kind: "pdf", text };
+    } else {
+      source = { filename: file.name, kind: "text", text: decodeStatementText(buffer) };
     }
-    const text = lines.join("\n").trim();
-    if (text.length < 100) {
-      return NextResponse.json(
-        { error: "Kunne ikke læse kontoudtoget. Upload PDF'en direkte fra Lunar (ikke et foto)." },
-        { status: 422 }
-      );
+
+    // Valgfrit: tving format og/eller kolonne-mapping (generisk CSV)
+    const formatRaw = formData.get("format");
+    const format = formatRaw ? statementFormatSchema.safeParse(formatRaw).data : undefined;
+    const mappingRaw = formData.get("mapping");
+    let mapping: CsvMappingProfile | undefined;
+    if (typeof mappingRaw === "string" && mappingRaw) {
+      let mappingJson: unknown;
+      try {
+        mappingJson = JSON.parse(mappingRaw);
+      } catch {
+        return NextResponse.json({ error: "Ugyldig kolonne-mapping" }, { status: 400 });
+      }
+      const parsedMapping = csvMappingProfileSchema.safeParse(mappingJson);
+      if (!parsedMapping.success) {
+        return NextResponse.json(
+          { error: parsedMapping.error.issues[0]?.message || "Ugyldig kolonne-mapping" },
+          { status: 400 }
+        );
+      }
+      mapping = parsedMapping.data;
     }
 
-    const statement = parseStatementText(text);
-    if (statement.transactions.length === 0) {
+    let statement;
+    try {
+      statement = parseBankStatement(source, { format: mapping ? "csv" : format, mapping });
+    } catch (e) {
+      if (!(e instanceof StatementFormatError)) throw e;
+      // CSV vi ikke kan tolke: send kolonnerne med, så UI'et kan bede om en mapping
+      const headers = source.kind === "text" && !source.text.trimStart().startsWith("<") ? csvHeaders(source.text) : [];
       return NextResponse.json(
-        { error: "Ingen transaktioner fundet i PDF'en. Er det et Lunar kontoudtog?" },
+        { error: e.message, needsMapping: headers.length > 1, headers },
         { status: 422 }
       );
     }
 
-    const saved = await saveBankTransactions(statement.transactions);
+    // Brugerdefinerede kategoriregler går forud for de indbyggede
+    const rules = await listCategoryRules();
+    statement.transactions = applyCategoryRules(statement.transactions, rules).transactions;
 
-    // Opdatér kassebeholdning til kontoudtogets slutsaldo
-    let cashUpdated = false;
-    try {
-      await updateCostSettings({
-        cashBalance: statement.closingBalance,
-        cashBalanceUpdatedAt: new Date().toISOString(),
+    const existing = await findExistingTransactionIds(statement.transactions.map((t) => t.id));
+    const fresh = statement.transactions.filter((t) => !existing.has(t.id));
+
+    if (preview) {
+      return NextResponse.json({
+        success: true,
+        preview: true,
+        format: statement.format,
+        formatLabel: statement.formatLabel,
+        accountHolder: statement.accountHolder,
+        accountNumber: statement.accountNumber,
+        closingBalance: statement.hasClosingBalance ? statement.closingBalance : null,
+        total: statement.transactions.length,
+        newCount: fresh.length,
+        duplicateCount: existing.size,
+        transactions: statement.transactions
+          .slice(0, PREVIEW_ROWS)
+          .map((t) => ({ ...t, duplicate: existing.has(t.id) })),
       });
-      cashUpdated = true;
+    }
+
+    const saved = fresh.length > 0 ? await saveBankTransactions(fresh) : 0;
+    try {
+      await recordImportRuleHits(applyCategoryRules(fresh, rules).hits, rules);
     } catch (e) {
-      logger.warn(`[bank-import] kunne ikke opdatere kassebeholdning: ${e instanceof Error ? e.message : e}`);
+      logger.warn(`[bank-import] kunne ikke opdatere regel-hits: ${e instanceof Error ? e.message : e}`);
+    }
+
+    // Opdatér kassebeholdning til kontoudtogets slutsaldo (kun hvis filen har saldi)
+    let cashUpdated = false;
+    if (statement.hasClosingBalance) {
+      try {
+        await updateCostSettings({
+          cashBalance: statement.closingBalance,
+          cashBalanceUpdatedAt: new Date().toISOString(),
+        });
+        cashUpdated = true;
+      } catch (e) {
+        logger.warn(`[bank-import] kunne ikke opdatere kassebeholdning: ${e instanceof Error ? e.message : e}`);
+      }
     }
 
     // Auto-match: marker planlagte betalinger som modtaget/betalt når en
     // matchende bank-transaktion er kommet ind.
     let autoMatched: Awaited<ReturnType<typeof autoMatchToPlannedPayments>> = [];
     try {
-      autoMatched = await autoMatchToPlannedPayments(statement.transactions);
+      autoMatched = await autoMatchToPlannedPayments(fresh);
       if (autoMatched.length > 0) {
         logger.info(`[bank-import] auto-matched ${autoMatched.length} planlagte betalinger`);
       }
@@ -133,14 +220,29 @@ export async function POST(req: NextRequest) {
       logger.warn(`[bank-import] auto-match fejlede: ${e instanceof Error ? e.message : e}`);
     }
 
+    // Debitorafstemning: indbetalinger → udstedte fakturaer (delvist) betalt.
+    let invoicePayments: Awaited<ReturnType<typeof reconcileInvoicePayments>> = [];
+    try {
+      invoicePayments = await reconcileInvoicePayments(fresh);
+      if (invoicePayments.length > 0) {
+        logger.info(`[bank-import] afstemte ${invoicePayments.length} fakturabetalinger`);
+      }
+    } catch (e) {
+      logger.warn(`[bank-import] fakturaafstemning fejlede: ${e instanceof Error ? e.message : e}`);
+    }
+
     return NextResponse.json({
       success: true,
       imported: saved,
-      closingBalance: statement.closingBalance,
+      skipped: statement.transactions.length - fresh.length,
+      format: statement.format,
+      formatLabel: statement.formatLabel,
+      closingBalance: statement.hasClosingBalance ? statement.closingBalance : null,
       accountHolder: statement.accountHolder,
       accountNumber: statement.accountNumber,
       cashUpdated,
       autoMatched,
+      invoicePayments,
     });
   } catch (error) {
     const message = error instanceof Error ? error.message : String(error);
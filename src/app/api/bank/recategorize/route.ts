@@ -0,0 +1,20 @@
+import { NextResponse } from "next/server";
+import { recategorizeAll } from "@/lib/bank/rules-store";
+import { logger } from "@/lib/logger";
+
+export const runtime = "nodejs";
+export const maxDuration = 60;
+
+/** Kør kategoriregler på alle gemte transaktioner (manuelle valg bevares). */
+export async function POST() {
+  try {
+    const result = await recategorizeAll();
+    return NextResponse.json({ success: true, ...result });
+  } catch (error) {
+    logger.error("Gen-kategorisering fejlede", { service: "bank" });
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Ukendt fejl" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from "next/server";
+import { deleteCategoryRule, updateCategoryRule } from "@/lib/bank/rules-store";
+import { bankCategoryRuleSchema } from "@/lib/bank/types";
+import { logger } from "@/lib/logger";
+
+export const runtime = "nodejs";
+
+const patchSchema = bankCategoryRuleSchema
+  .omit({ id: true, hitCount: true, lastHitAt: true, createdAt: true, updatedAt: true })
+  .partial();
+
+export async function PATCH(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params;
+    const parsed = patchSchema.safeParse(await req.json());
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error.issues[0]?.message || "Ugyldige data" },
+        { status: 400 }
+      );
+    }
+    const rule = await updateCategoryRule(id, parsed.data);
+    return NextResponse.json({ success: true, rule });
+  } catch (error) {
+    logger.error("Kunne ikke opdatere kategoriregel", { service: "bank" });
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Ukendt fejl" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(_: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params;
+    await deleteCategoryRule(id);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Ukendt fejl" },
+      { status: 500 }
+    );
+  }
+}
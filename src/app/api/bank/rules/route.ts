@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createCategoryRule, listCategoryRules } from "@/lib/bank/rules-store";
+import { bankCategoryRuleInputSchema } from "@/lib/bank/types";
+import { logger } from "@/lib/logger";
+
+export const runtime = "nodejs";
+
+export async function GET() {
+  const items = await listCategoryRules();
+  return NextResponse.json({ items });
+}
+
+export async function POST(req: NextRequest) {
+  try {
+    const parsed = bankCategoryRuleInputSchema.safeParse(await req.json());
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error.issues[0]?.message || "Ugyldige data" },
+        { status: 400 }
+      );
+    }
+    const rule = await createCategoryRule(parsed.data);
+    return NextResponse.json({ success: true, rule });
+  } catch (error) {
+    logger.error("Kunne ikke oprette kategoriregel", { service: "bank" });
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Ukendt fejl" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,10 @@
+import { NextResponse } from "next/server";
+import { getRuleSuggestions } from "@/lib/bank/rules-store";
+
+export const runtime = "nodejs";
+
+/** Regelforslag lært af manuelle omkategoriseringer. */
+export async function GET() {
+  const items = await getRuleSuggestions();
+  return NextResponse.json({ items });
+}
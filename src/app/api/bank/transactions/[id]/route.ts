@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { setTransactionCase, setTransactionCategory } from "@/lib/bank/store";
+import { bankCategorySchema } from "@/lib/bank/types";
+import { logger } from "@/lib/logger";
+
+export const runtime = "nodejs";
+
+const patchSchema = z
+  .object({
+    category: bankCategorySchema.optional(),
+    caseId: z.string().min(1).nullable().optional(),
+  })
+  .refine((p) => p.category !== undefined || p.caseId !== undefined, "Intet at opdatere");
+
+/**
+ * Manuel omkategorisering (bevares ved gen-kategorisering og bruges til
+ * regelforslag) og/eller tilknytning til en case.
+ */
+export async function PATCH(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params;
+    const parsed = patchSchema.safeParse(await req.json());
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error.issues[0]?.message || "Ugyldige data" },
+        { status: 400 }
+      );
+    }
+    let transaction = parsed.data.category ? await setTransactionCategory(id, parsed.data.category) : undefined;
+    if (parsed.data.caseId !== undefined) transaction = await setTransactionCase(id, parsed.data.caseId);
+    return NextResponse.json({ success: true, transaction });
+  } catch (error) {
+    logger.error("Kunne ikke opdatere transaktion", { service: "bank" });
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Ukendt fejl" },
+      { status: 500 }
+    );
+  }
+}
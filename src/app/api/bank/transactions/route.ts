@@ -0,0 +1,14 @@
+import { NextRequest, NextResponse } from "next/server";
+import { listBankTransactions } from "@/lib/bank/store";
+import { bankCategorySchema } from "@/lib/bank/types";
+
+export const runtime = "nodejs";
+
+export async function GET(req: NextRequest) {
+  const sp = req.nextUrl.searchParams;
+  const category = sp.get("category") ? bankCategorySchema.safeParse(sp.get("category")).data : undefined;
+  const search = sp.get("q")?.trim() || undefined;
+  const limit = Math.min(Number(sp.get("limit")) || 100, 1000);
+  const items = await listBankTransactions(limit, { category, search });
+  return NextResponse.json({ items });
+}
@@ -0,0 +1,20 @@
+import { NextRequest, NextResponse } from "next/server";
+import { checkAvailability } from "@/lib/booking/service";
+
+export const runtime = "nodejs";
+
+/** GET /api/bookings/availability?placementId=&from=YYYY-MM-DD&to=YYYY-MM-DD */
+export async function GET(req: NextRequest) {
+  const placementId = req.nextUrl.searchParams.get("placementId");
+  const fromDate = req.nextUrl.searchParams.get("from");
+  const toDate = req.nextUrl.searchParams.get("to");
+  if (!placementId || !fromDate || !toDate) {
+    return NextResponse.json({ error: "placementId, from og to er påkrævet" }, { status: 400 });
+  }
+  if (toDate < fromDate) {
+    return NextResponse.json({ error: "Slutdato ligger før startdato" }, { status: 400 });
+  }
+
+  const result = await checkAvailability(placementId, fromDate, toDate);
+  return NextResponse.json(result);
+}
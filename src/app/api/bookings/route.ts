@@ -0,0 +1,18 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getOccupancy } from "@/lib/booking/service";
+
+export const runtime = "nodejs";
+
+/**
+ * GET /api/bookings?placementId=&from=YYYY-MM-DD&weeks=26
+ * Week-by-week occupancy per placement (all placements if placementId is omitted).
+ */
+export async function GET(req: NextRequest) {
+  const placementId = req.nextUrl.searchParams.get("placementId") || undefined;
+  const fromDate = req.nextUrl.searchParams.get("from") || new Date().toISOString().slice(0, 10);
+  const weeksRaw = Number(req.nextUrl.searchParams.get("weeks") || 26);
+  const weeks = Number.isFinite(weeksRaw) ? Math.min(104, Math.max(1, Math.round(weeksRaw))) : 26;
+
+  const items = await getOccupancy({ placementId, fromDate, weeks });
+  return NextResponse.json({ items });
+}
@@ -2,10 +2,13 @@
 // POST /api/case/invoice-scan
 // Receives a PDF/image upload, extracts structured invoice data
 // via OpenAI, and returns a roll-up that maps to case cost fields.
+// The scan is also saved as a supplier invoice for the moms report.
 // ============================================================
 
 import { NextRequest, NextResponse } from "next/server";
 import { scanInvoiceFile, rollupForCase } from "@/lib/case/invoice-scan";
+import { saveScannedSupplierInvoice } from "@/lib/case/supplier-invoice-store";
+import { HAS_SUPABASE } from "@/lib/supabase";
 import { logger } from "@/lib/logger";
 
 export const runtime = "nodejs";
@@ -48,6 +51,18 @@ export async function POST(req: NextRequest) {
     const result = await scanInvoiceFile(buffer, mime, file.name);
     const rollup = rollupForCase(result);
 
+    // Købsmoms til momsrapporten — må ikke vælte selve scanningen
+    if (HAS_SUPABASE) {
+      const caseId = formData.get("caseId");
+      try {
+        await saveScannedSupplierInvoice(result, file.name, typeof caseId === "string" ? caseId : null);
+      } catch (err) {
+        logger.error(`[invoice-scan] could not save supplier invoice: ${err instanceof Error ? err.message : err}`, {
+          service: "case",
+        });
+      }
+    }
+
     return NextResponse.json({
       success: true,
       result,
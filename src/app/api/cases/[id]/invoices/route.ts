@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createInvoiceForCase, listInvoices } from "@/lib/invoice/store";
+import { invoiceCreateInputSchema } from "@/lib/invoice/types";
+import { logger } from "@/lib/logger";
+
+export const runtime = "nodejs";
+
+export async function GET(_: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  const result = await listInvoices({ caseId: id });
+  return NextResponse.json(result);
+}
+
+/** Issue an invoice for the case's not-yet-invoiced sales and services. */
+export async function POST(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params;
+    const body = await req.json().catch(() => ({}));
+    const parsed = invoiceCreateInputSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error.issues[0]?.message || "Ugyldige data" },
+        { status: 400 }
+      );
+    }
+    const invoice = await createInvoiceForCase(id, parsed.data);
+    return NextResponse.json({ success: true, invoice });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Ukendt fejl ved fakturering";
+    logger.error(`Kunne ikke oprette faktura: ${message}`, { service: "invoice" });
+    const status = message === "Case ikke fundet" ? 404 : message.startsWith("Intet at fakturere") ? 400 : 500;
+    return NextResponse.json({ error: message }, { status });
+  }
+}
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from "next/server";
 import { deleteCase, getCase, upsertCase } from "@/lib/case/store";
 import { caseUpsertInputSchema } from "@/lib/case/types";
+import { describeConflict, findCaseBookingConflicts } from "@/lib/booking/service";
 import { logger } from "@/lib/logger";
 
 export const runtime = "nodejs";
@@ -25,6 +26,20 @@ export async function PATCH(req: NextRequest, { params }: { params: Promise<{ id
         { status: 400 }
       );
     }
+
+    if (!body?.allowOverlap) {
+      const conflicts = await findCaseBookingConflicts(parsed.data);
+      if (conflicts.length > 0) {
+        return NextResponse.json(
+          {
+            error: `Placeringen er allerede booket: ${conflicts.map(describeConflict).join("; ")}`,
+            conflicts,
+          },
+          { status: 409 }
+        );
+      }
+    }
+
     const saved = await upsertCase(parsed.data);
     return NextResponse.json({ success: true, case: saved });
   } catch (error) {
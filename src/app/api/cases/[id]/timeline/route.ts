@@ -0,0 +1,13 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getCaseTimeline } from "@/lib/case/timeline-store";
+
+export const runtime = "nodejs";
+
+export async function GET(_: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  const timeline = await getCaseTimeline(id);
+  if (!timeline) {
+    return NextResponse.json({ error: "Case ikke fundet" }, { status: 404 });
+  }
+  return NextResponse.json(timeline);
+}
@@ -4,6 +4,7 @@ import { caseStatusSchema, caseUpsertInputSchema } from "@/lib/case/types";
 import { caseFromTilbud } from "@/lib/case/from-tilbud";
 import { getCostSettings } from "@/lib/case/settings-store";
 import { getTilbud } from "@/lib/tilbud/store";
+import { describeConflict, findCaseBookingConflicts } from "@/lib/booking/service";
 import { logger } from "@/lib/logger";
 
 export const runtime = "nodejs";
@@ -48,6 +49,19 @@ export async function POST(req: NextRequest) {
       );
     }
 
+    if (!body?.allowOverlap) {
+      const conflicts = await findCaseBookingConflicts(parsed.data);
+      if (conflicts.length > 0) {
+        return NextResponse.json(
+          {
+            error: `Placeringen er allerede booket: ${conflicts.map(describeConflict).join("; ")}`,
+            conflicts,
+          },
+          { status: 409 }
+        );
+      }
+    }
+
     const saved = await upsertCase(parsed.data);
     return NextResponse.json({ success: true, case: saved });
   } catch (error) {
@@ -0,0 +1,8 @@
+import { NextResponse } from "next/server";
+import { getSiteProfitability } from "@/lib/case/timeline-store";
+
+export const runtime = "nodejs";
+
+export async function GET() {
+  return NextResponse.json({ items: await getSiteProfitability() });
+}
@@ -1,7 +1,9 @@
 // ============================================================
 // GET /api/cron/auto-discover – Auto-discovery pipeline
 // Runs scaffolding + street scanning from discovery_config,
-// then auto-researches + generates email drafts for new properties.
+// then queues research + email drafts for new properties and works
+// the research job queue for the rest of the run (unfinished jobs
+// continue in /api/cron/research-jobs).
 // Protected by CRON_SECRET. Intended to run daily at 06:00.
 // ============================================================
 
@@ -11,7 +13,7 @@ import { listDiscoveryConfigs, markConfigRun } from "@/lib/discovery/config-stor
 import { discoverScaffolding } from "@/lib/discovery/scaffolding";
 import { discoverStreet } from "@/lib/discovery";
 import { listStagedProperties } from "@/lib/staging/store";
-import { processStagedProperty } from "@/lib/workflow/engine";
+import { enqueueResearchJob, runResearchJobs } from "@/lib/workflow/research-jobs";
 import { logger } from "@/lib/logger";
 
 export const maxDuration = 300;
@@ -81,40 +83,37 @@ export async function GET(req: NextRequest) {
 
   push(`Discovery phase complete: ${totalCreated} new properties staged`);
 
-  // 3. Auto-research + email draft for all newly staged properties
+  // 3. Queue research + email draft for all newly staged properties, then work the queue
   if (totalCreated > 0) {
-    push("Starting auto-research on newly staged properties...");
-
     const newProperties = await listStagedProperties({ stage: "new" });
     push(`Found ${newProperties.length} properties with stage=new`);
 
     for (const prop of newProperties) {
-      try {
-        push(`Researching: ${prop.address}`);
-        const run = await processStagedProperty(
-          prop,
-          () => {},
-          () => false,
-          { skipEmailDraft: false },
-        );
+      const { created } = await enqueueResearchJob({
+        targetType: "staged",
+        targetId: prop.id,
+        label: prop.name || prop.address,
+        options: { skipEmailDraft: false },
+      });
+      if (created) push(`Queued research: ${prop.address}`);
+    }
 
-        if (run.status === "completed") {
-          totalResearched++;
-          const hasDraft = run.steps.some(
-            s => s.stepId === "generate_email_draft" && s.status === "completed",
-          );
-          if (hasDraft) totalEmailDrafts++;
-          push(`  → Research complete: ${prop.address}${hasDraft ? " + email draft" : ""}`);
-        } else {
-          push(`  → Research failed: ${prop.address} – ${run.error || "unknown"}`);
-          totalErrors++;
-        }
-      } catch (e) {
-        const msg = e instanceof Error ? e.message : String(e);
-        push(`  → Research error: ${prop.address} – ${msg}`);
-        totalErrors++;
+    const budgetMs = (maxDuration - 30) * 1000 - (Date.now() - startTime);
+    const result = await runResearchJobs({ budgetMs });
+    for (const run of result.runs) {
+      if (run.status === "completed") {
+        totalResearched++;
+        const hasDraft = run.steps.some(
+          s => s.stepId === "generate_email_draft" && s.status === "completed",
+        );
+        if (hasDraft) totalEmailDrafts++;
+        push(`  → Research complete: ${run.propertyName}${hasDraft ? " + email draft" : ""}`);
+      } else {
+        push(`  → Research failed: ${run.propertyName} – ${run.error || "unknown"}`);
       }
     }
+    totalErrors += result.failed;
+    if (result.remaining > 0) push(`${result.remaining} research jobs left in the queue for the next run`);
   }
 
   const duration = Date.now() - startTime;
@@ -1,31 +1,48 @@
 // ============================================================
-// GET /api/cron/mail-sync – Sync threads + auto-update reply status
+// GET /api/cron/mail-sync – Sync threads + classify new replies
 // Call every 10–15 min from Vercel Cron or cron-job.org.
+//
+// Each inbound message is classified once (reply-intelligence)
+// and the result drives status, suppression, referral contacts,
+// postponed follow-ups and sequences (reply-actions). Threads of
+// OOH sequence steps are watched too (no property attached).
+// Bounce notices are handled first (bounce-actions) and never
+// classified as replies. Afterwards auto-promote A/B experiments
+// are evaluated, now that the replies are attributed.
 // ============================================================
 
 import { NextRequest, NextResponse } from "next/server";
 import { loadThreadPropertiesFromDb, getAllThreadProperties } from "@/lib/mail-threads";
 import { getThreadWithMessages } from "@/lib/email-sender";
-import { updateEjendom } from "@/lib/hubspot";
+import { extractEmail } from "@/lib/leads/scanner";
+import { classifyReply, REPLY_INTENT_LABELS, type ReplyIntent } from "@/lib/outreach/reply-intelligence";
+import { applyReplyClassification } from "@/lib/outreach/reply-actions";
+import { getClassifiedMessageIds, saveReplyClassification } from "@/lib/outreach/reply-store";
+import { listOpenOohSequenceThreads } from "@/lib/outreach/sequence-store";
+import { isBounceMessage } from "@/lib/outreach/bounce-parser";
+import { syncBounces, type BounceSyncResult } from "@/lib/outreach/bounce-actions";
+import { evaluateExperiments } from "@/lib/outreach/experiments";
+import { recordEngagement } from "@/lib/outreach/engagement-store";
 import { verifyCronSecret } from "@/lib/cron-auth";
+import { config } from "@/lib/config";
 import { logger } from "@/lib/logger";
 
 export const maxDuration = 60;
 
-const REPLY_STATUS_MAP: Record<string, string> = {
-  interested: "SVAR_MODTAGET_POSITIV",
-  meeting: "MOEDE_AFTALT",
-  not_interested: "SVAR_MODTAGET_NEGATIV",
-  auto_reply: "FOERSTE_MAIL_SENDT",
-};
+function ourEmails(): string[] {
+  return [
+    process.env.GMAIL_SENDER_EMAIL,
+    config.gmail.fromEmail,
+    ...config.gmailAccounts.map((a) => a.email),
+  ]
+    .filter((e): e is string => !!e)
+    .map((e) => e.toLowerCase());
+}
 
-function classifyReply(text: string): string {
-  const lower = text.toLowerCase();
-  if (/møde|meeting|kalender|tidspu|lad os|ring til mig|kan vi tale/i.test(lower)) return "meeting";
-  if (/interesse|høre mere|lyder godt|fortæl|send.*info|gerne/i.test(lower)) return "interested";
-  if (/ikke interesse|nej tak|afmeld|fjern.*mail|stop|unsubscribe|no.*thank/i.test(lower)) return "not_interested";
-  if (/auto.?svar|out of office|fraværende|automatisk/i.test(lower)) return "auto_reply";
-  return "unknown";
+/** Threads sent from a secondary account are read from that mailbox; otherwise the primary. */
+function mailboxFor(accountEmail?: string | null): string | undefined {
+  if (!accountEmail) return undefined;
+  return config.gmailAccounts.find((a) => a.email.toLowerCase() === accountEmail.toLowerCase())?.email;
 }
 
 export async function GET(request: NextRequest) {
@@ -35,35 +52,78 @@ export async function GET(request: NextRequest) {
   try {
     await loadThreadPropertiesFromDb();
     const mappings = getAllThreadProperties();
+    const own = ourEmails();
+
+    let bounces: BounceSyncResult | { error: string };
+    try {
+      bounces = await syncBounces(own);
+    } catch (e) {
+      bounces = { error: e instanceof Error ? e.message : String(e) };
+      logger.warn(`Bounce-scan fejlede: ${bounces.error}`, { service: "cron-mail-sync" });
+    }
+    const threads: { threadId: string; propertyId: string | null; accountEmail?: string | null }[] = [
+      ...mappings.slice(0, 50),
+      ...(await listOpenOohSequenceThreads(25)).map((t) => ({ ...t, propertyId: null })),
+    ];
 
+    let repliesClassified = 0;
     let statusUpdates = 0;
+    const intents: Partial<Record<ReplyIntent, number>> = {};
     const errors: string[] = [];
 
     // Check threads with property mappings for new replies
-    for (const { threadId, propertyId } of mappings.slice(0, 50)) {
+    for (const { threadId, propertyId, accountEmail } of threads) {
       try {
-        const thread = await getThreadWithMessages(threadId);
+        const thread = await getThreadWithMessages(threadId, mailboxFor(accountEmail));
         if (!thread || thread.messages.length < 2) continue;
 
         // Find replies (messages not sent by us)
-        const ourEmail = process.env.GMAIL_SENDER_EMAIL?.toLowerCase() || "";
-        const replies = thread.messages.filter(
-          m => !m.from.toLowerCase().includes(ourEmail)
-        );
-
+        const replies = thread.messages.filter((m) => !own.includes(extractEmail(m.from)) && !isBounceMessage(m));
         if (replies.length === 0) continue;
 
-        const latestReply = replies[replies.length - 1];
-        const category = classifyReply(latestReply.bodyPlain || latestReply.snippet);
-        const newStatus = REPLY_STATUS_MAP[category];
+        const done = await getClassifiedMessageIds(replies.map((m) => m.id));
+        for (const msg of replies) {
+          if (done.has(msg.id)) continue;
+
+          const fromEmail = extractEmail(msg.from);
+          const parsedDate = new Date(msg.date);
+          const receivedAt = isNaN(parsedDate.getTime()) ? new Date().toISOString() : parsedDate.toISOString();
+          const classification = await classifyReply(msg.bodyPlain || msg.snippet, {
+            receivedAt,
+            fromEmail,
+            ourEmails: own,
+          });
 
-        if (newStatus && newStatus !== "FOERSTE_MAIL_SENDT") {
           try {
-            await updateEjendom(propertyId, { outreach_status: newStatus });
-            statusUpdates++;
-            logger.info(`Mail-sync: ${propertyId} → ${newStatus} (${category})`, { service: "cron-mail-sync" });
+            const actions = await applyReplyClassification({ propertyId, fromEmail, classification });
+            await saveReplyClassification({
+              ...classification,
+              messageId: msg.id,
+              threadId,
+              propertyId,
+              fromEmail,
+              actions,
+              receivedAt,
+            });
+            await recordEngagement({
+              kind: classification.intent === "out_of_office" ? "email_received" : "email_replied",
+              email: fromEmail,
+              propertyId,
+              source: "gmail",
+              refId: msg.id,
+              summary: `${REPLY_INTENT_LABELS[classification.intent]}: ${msg.subject || thread.subject}`,
+              occurredAt: receivedAt,
+              metadata: { threadId, intent: classification.intent, snippet: msg.snippet?.slice(0, 200) },
+            });
+            repliesClassified++;
+            intents[classification.intent] = (intents[classification.intent] || 0) + 1;
+            statusUpdates += actions.filter((a) => a.startsWith("status:")).length;
+            logger.info(
+              `Mail-sync: ${propertyId || threadId} svar fra ${fromEmail} = ${classification.intent} [${actions.join(", ") || "ingen handling"}]`,
+              { service: "cron-mail-sync" }
+            );
           } catch (e) {
-            errors.push(`${propertyId}: ${e instanceof Error ? e.message : e}`);
+            errors.push(`${propertyId || threadId}: ${e instanceof Error ? e.message : e}`);
           }
         }
       } catch {
@@ -71,10 +131,16 @@ export async function GET(request: NextRequest) {
       }
     }
 
+    const experiments = await evaluateExperiments();
+
     return NextResponse.json({
       ok: true,
       threadsMapped: mappings.length,
+      repliesClassified,
       statusUpdates,
+      intents,
+      bounces,
+      experimentsPromoted: experiments.promoted,
       errors: errors.length > 0 ? errors : undefined,
     });
   } catch (error) {
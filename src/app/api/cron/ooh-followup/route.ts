@@ -9,6 +9,9 @@
 //   OOH_MAX_FOLLOW_UPS       – max follow-ups per send (default: 3)
 //   OOH_FOLLOW_UP_DAYS       – days between follow-ups (default: 5)
 //   OOH_FOLLOW_UP_AUTO_SEND  – "true" to auto-send, else stores drafts (default: "true")
+//
+// Auto-send also requires autonomy level 3 (send_followup); below that
+// each follow-up is logged as held back for approval.
 // ============================================================
 
 export const runtime = "nodejs";
@@ -24,8 +27,11 @@ import {
   getCampaign,
 } from "@/lib/ooh/store";
 import { sendEmail } from "@/lib/email-sender";
+import { autonomyAllows } from "@/lib/outreach/autonomy-store";
+import { checkRecipient } from "@/lib/outreach/suppression-store";
 import OpenAI from "openai";
 import { logger } from "@/lib/logger";
+import { recordEngagement } from "@/lib/outreach/engagement-store";
 
 const MAX_FOLLOW_UPS = parseInt(process.env.OOH_MAX_FOLLOW_UPS || "3", 10);
 const FOLLOW_UP_DAYS = parseInt(process.env.OOH_FOLLOW_UP_DAYS || "5", 10);
@@ -53,6 +59,7 @@ export async function GET(req: NextRequest) {
     let skipped = 0;
     let drafted = 0;
     let capped = 0;
+    let suppressed = 0;
 
     for (const send of dueFollowUps) {
       // Skip if max follow-ups reached
@@ -64,6 +71,14 @@ export async function GET(req: NextRequest) {
         continue;
       }
 
+      // Unsubscribed since the first mail – stop the sequence for good
+      if (send.contactEmail && await checkRecipient(send.contactEmail, { source: "ooh-followup", refId: send.id })) {
+        suppressed++;
+        send.nextFollowUpAt = undefined;
+        await upsertSend(send);
+        continue;
+      }
+
       const contact = send.contactId ? await getContact(send.contactId) : null;
       const campaign = send.campaignId ? await getCampaign(send.campaignId) : null;
       const followUpNum = send.followUpCount + 1;
@@ -121,7 +136,14 @@ Svar i valid JSON: {"subject": "...", "body": "..."}`,
         }
       }
 
-      if (AUTO_SEND) {
+      const autoSend = AUTO_SEND && await autonomyAllows("send_followup", {
+        source: "ooh-followup",
+        targetId: send.id,
+        label: `Opfølgning #${followUpNum} til ${contact?.name || send.contactName || send.contactEmail}`,
+        detail: { to: send.contactEmail, subject, body },
+      });
+
+      if (autoSend) {
         // Auto-send the follow-up
         const baseUrl = process.env.NEXT_PUBLIC_APP_URL || "";
         const trackingPixelUrl = baseUrl
@@ -138,6 +160,7 @@ Svar i valid JSON: {"subject": "...", "body": "..."}`,
             trackingPixelUrl,
             sendId: send.id,
             trackingBaseUrl: baseUrl || undefined,
+            source: "ooh-followup",
           });
 
           if (emailResult.success) {
@@ -157,6 +180,14 @@ Svar i valid JSON: {"subject": "...", "body": "..."}`,
                 ? nextFollowUp.toISOString()
                 : undefined;
             await upsertSend(send);
+            await recordEngagement({
+              kind: "email_sent",
+              email: send.contactEmail,
+              source: "ooh-followup",
+              refId: `${send.id}:${followUpNum}`,
+              summary: `OOH-opfølgning #${followUpNum}: ${subject}`,
+              metadata: { campaignId: send.campaignId, messageId: send.gmailMessageId, threadId: send.gmailThreadId },
+            });
             sent++;
           } else {
             logger.error(`Send failed for ${send.id}: ` + emailResult.error, { service: "cron-ooh-followup" });
@@ -180,6 +211,7 @@ Svar i valid JSON: {"subject": "...", "body": "..."}`,
       drafted,
       skipped,
       capped,
+      suppressed,
       maxFollowUps: MAX_FOLLOW_UPS,
       followUpDays: FOLLOW_UP_DAYS,
       autoSend: AUTO_SEND,
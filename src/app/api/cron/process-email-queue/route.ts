@@ -1,10 +1,12 @@
 // ============================================================
 // GET /api/cron/process-email-queue – Process queued emails
-// Runs every 5 minutes via Vercel Cron.
+// Runs every 5 minutes via Vercel Cron. Due sequence steps are
+// queued first, so they go out in the same run.
 // ============================================================
 
 import { NextRequest, NextResponse } from "next/server";
 import { processQueueBatch, getQueueStats } from "@/lib/email-queue";
+import { runDueSequenceSteps } from "@/lib/outreach/sequence-runner";
 import { verifyCronSecret } from "@/lib/cron-auth";
 import { logger } from "@/lib/logger";
 
@@ -15,9 +17,14 @@ export async function GET(request: NextRequest) {
   if (authErr) return authErr;
 
   try {
+    const sequences = await runDueSequenceSteps();
+    if (sequences.errors.length > 0) {
+      logger.warn(`Sequence steps failed: ${sequences.errors.join("; ")}`, { service: "cron" });
+    }
+
     const statsBefore = await getQueueStats();
     if (statsBefore.queued === 0) {
-      return NextResponse.json({ ok: true, message: "No queued emails", ...statsBefore });
+      return NextResponse.json({ ok: true, message: "No queued emails", sequences, ...statsBefore });
     }
 
     logger.info(`Processing email queue: ${statsBefore.queued} queued, ${statsBefore.sentThisHour}/${statsBefore.rateLimitPerHour} sent this hour`, {
@@ -35,6 +42,7 @@ export async function GET(request: NextRequest) {
     return NextResponse.json({
       ok: true,
       processed: result,
+      sequences,
       remaining: statsAfter.queued,
       sentThisHour: statsAfter.sentThisHour,
     });
@@ -0,0 +1,43 @@
+// ============================================================
+// GET /api/cron/research-jobs – Work the research job queue
+// Resumes jobs cut off by an earlier invocation (expired lease)
+// and retries transient failures once their backoff has passed.
+// Call every 15 min from cron-job.org; the daily Vercel Cron entry
+// is only a fallback.
+// Protected by CRON_SECRET.
+// ============================================================
+
+import { NextRequest, NextResponse } from "next/server";
+import { verifyCronSecret } from "@/lib/cron-auth";
+import { runResearchJobs } from "@/lib/workflow/research-jobs";
+import { logger } from "@/lib/logger";
+
+export const maxDuration = 300;
+
+export async function GET(request: NextRequest) {
+  const authErr = verifyCronSecret(request);
+  if (authErr) return authErr;
+
+  try {
+    const result = await runResearchJobs({ budgetMs: (maxDuration - 30) * 1000 });
+
+    logger.info(
+      `Research jobs processed: ${result.completed} completed, ${result.failed} failed, ${result.retrying} retrying, ${result.remaining} remaining`,
+      { service: "cron" }
+    );
+
+    return NextResponse.json({
+      ok: true,
+      completed: result.completed,
+      failed: result.failed,
+      retrying: result.retrying,
+      remaining: result.remaining,
+    });
+  } catch (error) {
+    logger.error(`Research job cron failed: ${error instanceof Error ? error.message : error}`, { service: "cron" });
+    return NextResponse.json(
+      { ok: false, error: error instanceof Error ? error.message : "Unknown error" },
+      { status: 500 }
+    );
+  }
+}
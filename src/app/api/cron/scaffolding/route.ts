@@ -8,8 +8,10 @@ import { NextRequest, NextResponse } from "next/server";
 import { config } from "@/lib/config";
 import { verifyCronSecret } from "@/lib/cron-auth";
 import { discoverScaffolding } from "@/lib/discovery/scaffolding";
-import { createEjendom, ejendomExistsByAddress, fetchEjendommeByStatus } from "@/lib/hubspot";
+import { createEjendom, fetchEjendommeByStatus } from "@/lib/hubspot";
+import { findExistingProperty, indexProperty } from "@/lib/dedupe/clusters";
 import { processProperty } from "@/lib/workflow/engine";
+import { autonomyAllows } from "@/lib/outreach/autonomy-store";
 import { logger } from "@/lib/logger";
 import type { ScoredScaffolding } from "@/types";
 
@@ -108,13 +110,13 @@ export async function GET(req: NextRequest) {
         // Phase 2: Create properties in HubSpot
         for (const permit of qualified) {
           try {
-            const exists = await ejendomExistsByAddress(permit.address);
-            if (exists) {
+            const existing = await findExistingProperty(permit.address, permit.postalCode, permit.city || city);
+            if (existing.exists) {
               runResult.alreadyExisted++;
               continue;
             }
 
-            await createEjendom({
+            const id = await createEjendom({
               name: permit.address,
               address: permit.address,
               postalCode: permit.postalCode || "",
@@ -123,6 +125,7 @@ export async function GET(req: NextRequest) {
               outdoorPotentialNotes: buildPermitNotes(permit),
               outreachStatus: autoResearch ? "NY_KRAEVER_RESEARCH" : "NY_KRAEVER_RESEARCH",
             });
+            await indexProperty(`hubspot:${id}`, permit.address, permit.postalCode, existing.bfe);
 
             runResult.propertiesCreated++;
           } catch (e) {
@@ -156,6 +159,12 @@ export async function GET(req: NextRequest) {
           );
 
           for (const property of toResearch) {
+            const allowed = await autonomyAllows("start_research", {
+              source: "cron-scaffolding",
+              targetId: property.id,
+              label: property.name || property.address,
+            });
+            if (!allowed) continue;
             try {
               const run = await processProperty(property);
               if (run.status === "completed") {
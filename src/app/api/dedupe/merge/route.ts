@@ -0,0 +1,34 @@
+// ============================================================
+// POST /api/dedupe/merge – Merge duplicate properties
+//   Body: { survivor: "hubspot:123", remove: ["staged:abc", …] }
+//   Research, contacts, drafts and thread mappings move to the
+//   survivor; the removed records get a redirect.
+// ============================================================
+
+import { NextRequest, NextResponse } from "next/server";
+import { mergeProperties, PropertyMergeError } from "@/lib/dedupe/merge";
+import { propertyMergeInputSchema } from "@/lib/dedupe/types";
+import { logger } from "@/lib/logger";
+
+export const runtime = "nodejs";
+export const maxDuration = 120;
+
+export async function POST(req: NextRequest) {
+  const parsed = propertyMergeInputSchema.safeParse(await req.json().catch(() => null));
+  if (!parsed.success) {
+    return NextResponse.json({ error: parsed.error.issues[0]?.message || "Ugyldige data" }, { status: 400 });
+  }
+  try {
+    const merge = await mergeProperties(parsed.data);
+    return NextResponse.json({ success: true, merge });
+  } catch (error) {
+    if (error instanceof PropertyMergeError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    logger.error("Kunne ikke flette ejendomme", { service: "dedupe" });
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Kunne ikke flette ejendomme" },
+      { status: 500 }
+    );
+  }
+}
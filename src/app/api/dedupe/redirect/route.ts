@@ -0,0 +1,18 @@
+// ============================================================
+// GET /api/dedupe/redirect?ref=staged:abc – Where a merged-away
+//     property lives now. Unmerged refs come back unchanged.
+// ============================================================
+
+import { NextRequest, NextResponse } from "next/server";
+import { resolvePropertyRef } from "@/lib/dedupe/store";
+
+export const runtime = "nodejs";
+
+export async function GET(req: NextRequest) {
+  const ref = req.nextUrl.searchParams.get("ref");
+  if (!ref) {
+    return NextResponse.json({ error: "Manglende ref" }, { status: 400 });
+  }
+  const resolved = await resolvePropertyRef(ref);
+  return NextResponse.json({ ref, resolved, merged: resolved !== ref });
+}
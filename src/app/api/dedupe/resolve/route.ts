@@ -0,0 +1,36 @@
+// ============================================================
+// POST /api/dedupe/resolve – Look up BFE numbers via DAWA
+//   Body: { force?: boolean, limit?: number }
+//   Resolves records without a (current) BFE, `limit` per call;
+//   `remaining` tells the client to call again.
+// ============================================================
+
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { resolveDedupeBfes } from "@/lib/dedupe/clusters";
+import { logger } from "@/lib/logger";
+
+export const runtime = "nodejs";
+export const maxDuration = 120;
+
+const resolveSchema = z.object({
+  force: z.boolean().optional(),
+  limit: z.number().int().min(1).max(50).optional(),
+});
+
+export async function POST(req: NextRequest) {
+  const parsed = resolveSchema.safeParse(await req.json().catch(() => ({})));
+  if (!parsed.success) {
+    return NextResponse.json({ error: parsed.error.issues[0]?.message || "Ugyldige data" }, { status: 400 });
+  }
+  try {
+    const result = await resolveDedupeBfes(parsed.data);
+    return NextResponse.json({ success: true, ...result });
+  } catch (error) {
+    logger.error("Kunne ikke slå BFE-numre op", { service: "dedupe" });
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Kunne ikke slå BFE op" },
+      { status: 500 }
+    );
+  }
+}
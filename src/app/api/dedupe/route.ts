@@ -0,0 +1,25 @@
+// ============================================================
+// GET /api/dedupe – Duplicate property clusters across HubSpot,
+//     staging and OOH frames (by BFE, else normalized address),
+//     plus the most recent merges.
+// ============================================================
+
+import { NextResponse } from "next/server";
+import { findDuplicateClusters } from "@/lib/dedupe/clusters";
+import { listPropertyMerges } from "@/lib/dedupe/store";
+import { logger } from "@/lib/logger";
+
+export const runtime = "nodejs";
+
+export async function GET() {
+  try {
+    const [result, merges] = await Promise.all([findDuplicateClusters(), listPropertyMerges()]);
+    return NextResponse.json({ ...result, merges });
+  } catch (error) {
+    logger.error("Kunne ikke finde dubletter", { service: "dedupe" });
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Kunne ikke finde dubletter" },
+      { status: 500 }
+    );
+  }
+}
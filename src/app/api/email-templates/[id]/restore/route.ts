@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import {
+  EmailTemplateError,
+  getEmailTemplate,
+  listEmailTemplateVersions,
+  setEmailTemplateArchived,
+  updateEmailTemplate,
+} from "@/lib/email/template-store";
+import { logger } from "@/lib/logger";
+
+export const runtime = "nodejs";
+
+const restoreSchema = z.object({ version: z.number().int().min(1) });
+
+/** POST – save an older version again as the newest one (and unarchive). */
+export async function POST(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  const parsed = restoreSchema.safeParse(await req.json().catch(() => null));
+  if (!parsed.success) {
+    return NextResponse.json({ error: parsed.error.issues[0]?.message || "Ugyldige data" }, { status: 400 });
+  }
+  const existing = await getEmailTemplate(id);
+  if (!existing) {
+    return NextResponse.json({ error: "Skabelon ikke fundet" }, { status: 404 });
+  }
+  const version = (await listEmailTemplateVersions(id)).find((v) => v.version === parsed.data.version);
+  if (!version) {
+    return NextResponse.json({ error: `Version ${parsed.data.version} findes ikke` }, { status: 404 });
+  }
+  try {
+    if (existing.archived) await setEmailTemplateArchived(id, false);
+    const template = await updateEmailTemplate(existing, {
+      name: existing.name,
+      description: existing.description,
+      subject: version.subject,
+      body: version.body,
+      note: `Gendannet fra v${version.version}`,
+    });
+    return NextResponse.json({ success: true, template });
+  } catch (error) {
+    if (error instanceof EmailTemplateError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    logger.error("Kunne ikke gendanne mailskabelon", { service: "email-templates" });
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Kunne ikke gendanne mailskabelon" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  EmailTemplateError,
+  getEmailTemplate,
+  listEmailTemplateVersions,
+  setEmailTemplateArchived,
+  updateEmailTemplate,
+} from "@/lib/email/template-store";
+import { emailTemplateInputSchema, validateTemplate } from "@/lib/email/template-library";
+import { logger } from "@/lib/logger";
+
+export const runtime = "nodejs";
+
+export async function GET(_: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  const template = await getEmailTemplate(id);
+  if (!template) {
+    return NextResponse.json({ error: "Skabelon ikke fundet" }, { status: 404 });
+  }
+  return NextResponse.json({ template, versions: await listEmailTemplateVersions(id) });
+}
+
+/** PUT – saves a new version when subject or body changed. */
+export async function PUT(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  const parsed = emailTemplateInputSchema.safeParse(await req.json().catch(() => null));
+  if (!parsed.success) {
+    return NextResponse.json({ error: parsed.error.issues[0]?.message || "Ugyldige data" }, { status: 400 });
+  }
+  const errors = [...validateTemplate(parsed.data.subject), ...validateTemplate(parsed.data.body)];
+  if (errors.length > 0) {
+    return NextResponse.json({ error: errors[0], errors }, { status: 400 });
+  }
+  const existing = await getEmailTemplate(id);
+  if (!existing) {
+    return NextResponse.json({ error: "Skabelon ikke fundet" }, { status: 404 });
+  }
+  try {
+    const template = await updateEmailTemplate(existing, parsed.data);
+    return NextResponse.json({ success: true, template });
+  } catch (error) {
+    if (error instanceof EmailTemplateError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    logger.error("Kunne ikke gemme mailskabelon", { service: "email-templates" });
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Kunne ikke gemme mailskabelon" },
+      { status: 500 }
+    );
+  }
+}
+
+/** DELETE – archives the template; the version history is kept. */
+export async function DELETE(_: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  const existing = await getEmailTemplate(id);
+  if (!existing) {
+    return NextResponse.json({ error: "Skabelon ikke fundet" }, { status: 404 });
+  }
+  try {
+    await setEmailTemplateArchived(id, true);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    logger.error("Kunne ikke arkivere mailskabelon", { service: "email-templates" });
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Kunne ikke arkivere mailskabelon" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,79 @@
+// ============================================================
+// POST /api/email-templates/preview
+// Render a (possibly unsaved) template against a staged property,
+// a HubSpot property or a lead – or example values when no record
+// is given.
+// Body: { subject, body, source?: { type: "staged"|"property"|"lead", id } }
+// ============================================================
+
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import {
+  exampleValues,
+  leadValues,
+  propertyValues,
+  renderTemplate,
+  stagedPropertyValues,
+  type TemplateValues,
+} from "@/lib/email/template-library";
+import { getStagedProperty } from "@/lib/staging/store";
+import { getLeadById } from "@/lib/lead-sourcing/lead-store";
+import { fetchEjendomById } from "@/lib/hubspot";
+import { getAISettings } from "@/lib/ai-settings";
+import { logger } from "@/lib/logger";
+
+export const runtime = "nodejs";
+
+const previewSchema = z.object({
+  subject: z.string().max(300),
+  body: z.string().max(10000),
+  source: z
+    .object({
+      type: z.enum(["staged", "property", "lead"]),
+      id: z.string().min(1),
+    })
+    .optional(),
+});
+
+async function valuesForSource(source: z.infer<typeof previewSchema>["source"]): Promise<TemplateValues | null> {
+  if (!source) return exampleValues();
+  if (source.type === "staged") {
+    const staged = await getStagedProperty(source.id);
+    return staged ? stagedPropertyValues(staged) : null;
+  }
+  if (source.type === "lead") {
+    const lead = await getLeadById(source.id);
+    return lead ? leadValues(lead) : null;
+  }
+  return propertyValues(await fetchEjendomById(source.id));
+}
+
+export async function POST(req: NextRequest) {
+  const parsed = previewSchema.safeParse(await req.json().catch(() => null));
+  if (!parsed.success) {
+    return NextResponse.json({ error: parsed.error.issues[0]?.message || "Ugyldige data" }, { status: 400 });
+  }
+  try {
+    const values = await valuesForSource(parsed.data.source);
+    if (!values) {
+      return NextResponse.json({ error: "Posten blev ikke fundet" }, { status: 404 });
+    }
+    if (parsed.data.source) values.sender_name = (await getAISettings()).senderName;
+
+    const subject = renderTemplate(parsed.data.subject, values);
+    const body = renderTemplate(parsed.data.body, values);
+    return NextResponse.json({
+      subject: subject.text,
+      body: body.text,
+      missing: [...new Set([...subject.missing, ...body.missing])],
+      errors: [...subject.errors, ...body.errors],
+      values,
+    });
+  } catch (error) {
+    logger.error("Kunne ikke vise eksempel på mailskabelon", { service: "email-templates" });
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Kunne ikke vise eksempel" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createEmailTemplate, listEmailTemplates } from "@/lib/email/template-store";
+import { emailTemplateInputSchema, validateTemplate } from "@/lib/email/template-library";
+import { logger } from "@/lib/logger";
+
+export const runtime = "nodejs";
+
+/** GET – active templates (?archived=1 includes archived ones). */
+export async function GET(req: NextRequest) {
+  const includeArchived = req.nextUrl.searchParams.get("archived") === "1";
+  return NextResponse.json({ items: await listEmailTemplates({ includeArchived }) });
+}
+
+export async function POST(req: NextRequest) {
+  const parsed = emailTemplateInputSchema.safeParse(await req.json().catch(() => null));
+  if (!parsed.success) {
+    return NextResponse.json({ error: parsed.error.issues[0]?.message || "Ugyldige data" }, { status: 400 });
+  }
+  const errors = [...validateTemplate(parsed.data.subject), ...validateTemplate(parsed.data.body)];
+  if (errors.length > 0) {
+    return NextResponse.json({ error: errors[0], errors }, { status: 400 });
+  }
+  try {
+    const template = await createEmailTemplate(parsed.data);
+    return NextResponse.json({ success: true, template });
+  } catch (error) {
+    logger.error("Kunne ikke oprette mailskabelon", { service: "email-templates" });
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Kunne ikke oprette mailskabelon" },
+      { status: 500 }
+    );
+  }
+}
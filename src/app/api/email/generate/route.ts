@@ -5,6 +5,7 @@ import { NextRequest, NextResponse } from "next/server";
 import { composeEmail, type ComposeEmailInput } from "@/lib/email/ai-composer";
 import { buildEmailFromTemplate, type EmailTemplateType } from "@/lib/email/templates";
 import { config } from "@/lib/config";
+import { applyVariant, assignVariant } from "@/lib/outreach/experiments";
 
 export const maxDuration = 60;
 
@@ -33,6 +34,7 @@ export async function POST(req: NextRequest) {
       toneOfVoice,
       previousSubject,
       customContext,
+      recipientEmail,
     } = body;
 
     if (!companyName) {
@@ -66,7 +68,22 @@ export async function POST(req: NextRequest) {
       customContext,
     };
 
+    // Cold mails to a known recipient take part in the lead channel's A/B experiment
+    const ab = type === "cold" && typeof recipientEmail === "string" && recipientEmail.includes("@")
+      ? await assignVariant("lead", recipientEmail)
+      : null;
+    if (ab?.variant.promptHint) input.promptHint = ab.variant.promptHint;
+
     const composed = await composeEmail(input);
+    if (ab) {
+      const text = applyVariant(
+        ab.variant,
+        { subject: composed.subject, body: composed.bodyHtml },
+        { name: recipientName || "", company: companyName, address: address || "" }
+      );
+      composed.subject = text.subject;
+      composed.bodyHtml = text.body;
+    }
 
     const html = buildEmailFromTemplate(type as EmailTemplateType, {
       recipientName: (recipientName || "").split(" ")[0] || "der",
@@ -84,6 +101,8 @@ export async function POST(req: NextRequest) {
       html,
       text: composed.bodyText,
       type,
+      experimentAssignmentId: ab?.assignmentId,
+      experimentVariant: ab?.variant.label,
     });
   } catch (e) {
     const msg = e instanceof Error ? e.message : String(e);
@@ -3,6 +3,11 @@
 
 import { NextRequest, NextResponse } from "next/server";
 import { sendSmtpEmail, isSmtpConfigured } from "@/lib/email/smtp";
+import { wrapLinksWithTracking } from "@/lib/email-sender";
+import { recordVariantSend } from "@/lib/outreach/experiments";
+import { EXPERIMENT_ASSIGNMENT_PREFIX } from "@/lib/outreach/experiment-types";
+import { recordEngagement } from "@/lib/outreach/engagement-store";
+import { checkRecipient, suppressionMessage } from "@/lib/outreach/suppression-store";
 import { logger } from "@/lib/logger";
 
 export const maxDuration = 30;
@@ -23,7 +28,7 @@ export async function POST(req: NextRequest) {
     } catch {
       return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
     }
-    const { to, toName, subject, html, text, replyTo, leadId } = body;
+    const { to, toName, subject, html, text, replyTo, leadId, experimentAssignmentId } = body;
 
     if (!to || !subject || !html) {
       return NextResponse.json({ error: "Mangler: to, subject, html" }, { status: 400 });
@@ -33,12 +38,37 @@ export async function POST(req: NextRequest) {
       return NextResponse.json({ error: `Ugyldig email-adresse: ${to}` }, { status: 400 });
     }
 
-    const result = await sendSmtpEmail({ to, toName, subject, html, text, replyTo });
+    const suppression = await checkRecipient(to, { source: "composer", refId: leadId || undefined });
+    if (suppression) {
+      return NextResponse.json({ error: suppressionMessage(suppression) }, { status: 409 });
+    }
+
+    // A/B experiment mails are tracked per assignment (opens/clicks feed the variant results)
+    const assignmentId =
+      typeof experimentAssignmentId === "string" && experimentAssignmentId.startsWith(EXPERIMENT_ASSIGNMENT_PREFIX)
+        ? experimentAssignmentId
+        : null;
+    const baseUrl = process.env.NEXT_PUBLIC_APP_URL || "";
+    const trackedHtml = assignmentId && baseUrl
+      ? `${wrapLinksWithTracking(html, assignmentId, baseUrl)}<img src="${baseUrl}/api/ooh/track/open?sendId=${assignmentId}" width="1" height="1" style="display:none" alt="" />`
+      : html;
+
+    const result = await sendSmtpEmail({ to, toName, subject, html: trackedHtml, text, replyTo });
+    if (assignmentId) await recordVariantSend(assignmentId, { success: result.success, refId: leadId || undefined });
 
     if (!result.success) {
       return NextResponse.json({ error: result.error || "Sending fejlede" }, { status: 500 });
     }
 
+    await recordEngagement({
+      kind: "email_sent",
+      email: to,
+      source: "composer",
+      refId: result.messageId || null,
+      summary: `Sendt: ${subject}`,
+      metadata: { messageId: result.messageId, ...(leadId ? { leadId } : {}) },
+    });
+
     // Mark lead as contacted if leadId provided
     if (leadId) {
       try {
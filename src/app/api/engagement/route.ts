@@ -0,0 +1,69 @@
+// ============================================================
+// GET  /api/engagement?email=…|company=…|propertyId=…
+//      Engagement timeline (newest first) for a contact, a company
+//      key (cvr:… / domain:…) or a property – any combination.
+// POST /api/engagement
+//      Log a call note or note by hand.
+// ============================================================
+
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { listEngagements, recordEngagement } from "@/lib/outreach/engagement-store";
+import { canonicalCompanyKey } from "@/lib/canonical-id";
+import { logger } from "@/lib/logger";
+
+export const runtime = "nodejs";
+
+const noteSchema = z
+  .object({
+    kind: z.enum(["call_note", "note"]).default("call_note"),
+    email: z.string().trim().email("Ugyldig email").optional(),
+    propertyId: z.string().trim().min(1).optional(),
+    summary: z.string().trim().min(1, "Skriv en note").max(500),
+    occurredAt: z.string().datetime({ offset: true }).optional(),
+  })
+  .refine((v) => v.email || v.propertyId, { message: "Angiv email eller ejendom" });
+
+export async function GET(req: NextRequest) {
+  const params = req.nextUrl.searchParams;
+  const email = params.get("email");
+  const company = params.get("company");
+  const propertyId = params.get("propertyId");
+  if (!email && !company && !propertyId) {
+    return NextResponse.json({ error: "Angiv email, company eller propertyId" }, { status: 400 });
+  }
+  // The contact's company is included unless a company is given explicitly
+  const companyKey = company || (params.get("withCompany") === "1" ? canonicalCompanyKey({ email }) : null);
+  const limit = Number(params.get("limit") || 200);
+  const items = await listEngagements({
+    email,
+    companyKey,
+    propertyId,
+    limit: Number.isFinite(limit) ? Math.min(limit, 500) : 200,
+  });
+  return NextResponse.json({ items });
+}
+
+export async function POST(req: NextRequest) {
+  const parsed = noteSchema.safeParse(await req.json().catch(() => null));
+  if (!parsed.success) {
+    return NextResponse.json({ error: parsed.error.issues[0]?.message || "Ugyldige data" }, { status: 400 });
+  }
+  try {
+    await recordEngagement({
+      kind: parsed.data.kind,
+      email: parsed.data.email,
+      propertyId: parsed.data.propertyId,
+      source: "manual",
+      summary: parsed.data.summary,
+      occurredAt: parsed.data.occurredAt,
+    });
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    logger.error("Kunne ikke gemme note", { service: "engagement" });
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Kunne ikke gemme note" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from "next/server";
+import { deleteExperiment, getExperiment, updateExperiment } from "@/lib/outreach/experiment-store";
+import { getExperimentReport } from "@/lib/outreach/experiments";
+import { experimentInputSchema } from "@/lib/outreach/experiment-types";
+import { logger } from "@/lib/logger";
+
+export const runtime = "nodejs";
+
+export async function GET(_: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  const experiment = await getExperiment(id);
+  if (!experiment) {
+    return NextResponse.json({ error: "Eksperiment ikke fundet" }, { status: 404 });
+  }
+  return NextResponse.json({ experiment, report: await getExperimentReport(experiment) });
+}
+
+/** PUT – only while in draft; variants are fixed once recipients are assigned. */
+export async function PUT(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  const parsed = experimentInputSchema.safeParse(await req.json().catch(() => null));
+  if (!parsed.success) {
+    return NextResponse.json({ error: parsed.error.issues[0]?.message || "Ugyldige data" }, { status: 400 });
+  }
+  const existing = await getExperiment(id);
+  if (!existing) {
+    return NextResponse.json({ error: "Eksperiment ikke fundet" }, { status: 404 });
+  }
+  if (existing.status !== "draft") {
+    return NextResponse.json({ error: "Et startet eksperiment kan ikke ændres – opret et nyt" }, { status: 409 });
+  }
+  try {
+    const experiment = await updateExperiment(id, parsed.data);
+    return NextResponse.json({ success: true, experiment });
+  } catch (error) {
+    logger.error("Kunne ikke opdatere eksperiment", { service: "experiments" });
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Kunne ikke opdatere eksperiment" },
+      { status: 500 }
+    );
+  }
+}
+
+/** DELETE – running experiments must be stopped first (their results are kept). */
+export async function DELETE(_: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  const existing = await getExperiment(id);
+  if (!existing) {
+    return NextResponse.json({ error: "Eksperiment ikke fundet" }, { status: 404 });
+  }
+  if (existing.status === "running" || existing.status === "promoted") {
+    return NextResponse.json({ error: "Stop eksperimentet før det slettes" }, { status: 409 });
+  }
+  try {
+    await deleteExperiment(id);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    logger.error("Kunne ikke slette eksperiment", { service: "experiments" });
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Kunne ikke slette eksperiment" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { ExperimentError, promoteVariant, startExperiment, stopExperiment } from "@/lib/outreach/experiments";
+import { logger } from "@/lib/logger";
+
+export const runtime = "nodejs";
+
+const statusActionSchema = z.discriminatedUnion("action", [
+  z.object({ action: z.literal("start") }),
+  z.object({ action: z.literal("stop") }),
+  z.object({ action: z.literal("promote"), variantId: z.string().min(1, "Vælg en variant") }),
+]);
+
+/** POST – start, stop or promote a variant to winner. */
+export async function POST(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  const parsed = statusActionSchema.safeParse(await req.json().catch(() => null));
+  if (!parsed.success) {
+    return NextResponse.json({ error: parsed.error.issues[0]?.message || "Ugyldige data" }, { status: 400 });
+  }
+  try {
+    const body = parsed.data;
+    const experiment =
+      body.action === "start"
+        ? await startExperiment(id)
+        : body.action === "stop"
+          ? await stopExperiment(id)
+          : await promoteVariant(id, body.variantId);
+    return NextResponse.json({ success: true, experiment });
+  } catch (error) {
+    if (error instanceof ExperimentError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    logger.error("Kunne ikke ændre eksperimentets status", { service: "experiments" });
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Kunne ikke ændre status" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createExperiment, listExperiments } from "@/lib/outreach/experiment-store";
+import { getExperimentReport } from "@/lib/outreach/experiments";
+import { experimentInputSchema } from "@/lib/outreach/experiment-types";
+import { logger } from "@/lib/logger";
+
+export const runtime = "nodejs";
+
+/** GET – all experiments with their per-variant results. */
+export async function GET() {
+  const experiments = await listExperiments();
+  const items = await Promise.all(
+    experiments.map(async (experiment) => ({ ...experiment, report: await getExperimentReport(experiment) }))
+  );
+  return NextResponse.json({ items });
+}
+
+export async function POST(req: NextRequest) {
+  const parsed = experimentInputSchema.safeParse(await req.json().catch(() => null));
+  if (!parsed.success) {
+    return NextResponse.json({ error: parsed.error.issues[0]?.message || "Ugyldige data" }, { status: 400 });
+  }
+  try {
+    const experiment = await createExperiment(parsed.data);
+    return NextResponse.json({ success: true, experiment });
+  } catch (error) {
+    logger.error("Kunne ikke oprette eksperiment", { service: "experiments" });
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Kunne ikke oprette eksperiment" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from "next/server";
+import { listInvoicePayments, registerInvoicePayment } from "@/lib/invoice/payments-store";
+import { invoicePaymentInputSchema } from "@/lib/invoice/types";
+import { logger } from "@/lib/logger";
+
+export const runtime = "nodejs";
+
+export async function GET(_: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  const items = await listInvoicePayments(id);
+  return NextResponse.json({ items });
+}
+
+export async function POST(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params;
+    const parsed = invoicePaymentInputSchema.safeParse(await req.json());
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error.issues[0]?.message || "Ugyldige data" },
+        { status: 400 }
+      );
+    }
+    const result = await registerInvoicePayment(id, parsed.data);
+    return NextResponse.json({ success: true, ...result });
+  } catch (error) {
+    logger.error("Kunne ikke registrere indbetaling", { service: "invoice" });
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Ukendt fejl" },
+      { status: 500 }
+    );
+  }
+}
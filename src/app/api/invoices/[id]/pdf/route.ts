@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getInvoice } from "@/lib/invoice/store";
+import { generateInvoicePdf } from "@/lib/invoice/pdf-generator";
+import { logger } from "@/lib/logger";
+
+export const runtime = "nodejs";
+
+export async function GET(_: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  const invoice = await getInvoice(id);
+  if (!invoice) {
+    return NextResponse.json({ error: "Faktura ikke fundet" }, { status: 404 });
+  }
+  try {
+    const pdf = await generateInvoicePdf(invoice);
+    return new NextResponse(new Uint8Array(pdf), {
+      headers: {
+        "Content-Type": "application/pdf",
+        "Content-Disposition": `attachment; filename="Faktura-${invoice.invoiceNumber}.pdf"`,
+        "Content-Length": String(pdf.length),
+      },
+    });
+  } catch (error) {
+    logger.error("Kunne ikke generere faktura PDF", { service: "invoice" });
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Ukendt fejl ved PDF-generering" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { getInvoice, updateInvoice } from "@/lib/invoice/store";
+import { invoiceStatusSchema } from "@/lib/invoice/types";
+import { logger } from "@/lib/logger";
+
+export const runtime = "nodejs";
+
+const patchSchema = z.object({
+  status: invoiceStatusSchema.optional(),
+  paidAmount: z.number().nonnegative().optional(),
+  notes: z.string().optional(),
+});
+
+export async function GET(_: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  const invoice = await getInvoice(id);
+  if (!invoice) {
+    return NextResponse.json({ error: "Faktura ikke fundet" }, { status: 404 });
+  }
+  return NextResponse.json(invoice);
+}
+
+export async function PATCH(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params;
+    const parsed = patchSchema.safeParse(await req.json());
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error.issues[0]?.message || "Ugyldige data" },
+        { status: 400 }
+      );
+    }
+    const invoice = await updateInvoice(id, parsed.data);
+    return NextResponse.json({ success: true, invoice });
+  } catch (error) {
+    logger.error("Kunne ikke opdatere faktura", { service: "invoice" });
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Ukendt fejl" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,21 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getInvoice, getInvoiceXml } from "@/lib/invoice/store";
+import { buildOioublXml } from "@/lib/invoice/oioubl";
+
+export const runtime = "nodejs";
+
+/** OIOUBL 2.1 XML as issued (rebuilt from the row for invoices without a stored copy). */
+export async function GET(_: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  const invoice = await getInvoice(id);
+  if (!invoice) {
+    return NextResponse.json({ error: "Faktura ikke fundet" }, { status: 404 });
+  }
+  const xml = (await getInvoiceXml(id)) || buildOioublXml(invoice);
+  return new NextResponse(xml, {
+    headers: {
+      "Content-Type": "application/xml; charset=utf-8",
+      "Content-Disposition": `attachment; filename="Faktura-${invoice.invoiceNumber}.xml"`,
+    },
+  });
+}
@@ -0,0 +1,9 @@
+import { NextResponse } from "next/server";
+import { getReceivablesLedger } from "@/lib/invoice/payments-store";
+
+export const runtime = "nodejs";
+
+export async function GET() {
+  const ledger = await getReceivablesLedger();
+  return NextResponse.json(ledger);
+}
@@ -0,0 +1,19 @@
+import { NextResponse } from "next/server";
+import { reconcileFromBankHistory } from "@/lib/invoice/payments-store";
+import { logger } from "@/lib/logger";
+
+export const runtime = "nodejs";
+
+/** Match gemte bank-indbetalinger mod åbne fakturaer. */
+export async function POST() {
+  try {
+    const matched = await reconcileFromBankHistory();
+    return NextResponse.json({ success: true, matched });
+  } catch (error) {
+    logger.error("Kunne ikke afstemme fakturaer", { service: "invoice" });
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Ukendt fejl" },
+      { status: 500 }
+    );
+  }
+}
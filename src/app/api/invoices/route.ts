@@ -0,0 +1,13 @@
+import { NextRequest, NextResponse } from "next/server";
+import { listInvoices } from "@/lib/invoice/store";
+import { invoiceStatusSchema } from "@/lib/invoice/types";
+
+export const runtime = "nodejs";
+
+export async function GET(req: NextRequest) {
+  const statusRaw = req.nextUrl.searchParams.get("status");
+  const status = statusRaw ? invoiceStatusSchema.safeParse(statusRaw).data : undefined;
+  const caseId = req.nextUrl.searchParams.get("caseId") || undefined;
+  const result = await listInvoices({ caseId, status });
+  return NextResponse.json(result);
+}
@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  deleteLiquidityScenario,
+  upsertLiquidityScenario,
+} from "@/lib/case/scenarios-store";
+import { liquidityScenarioUpsertSchema } from "@/lib/case/types";
+import { logger } from "@/lib/logger";
+
+export const runtime = "nodejs";
+
+export async function PATCH(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params;
+    const body = await req.json();
+    const parsed = liquidityScenarioUpsertSchema.safeParse({ ...body, id });
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error.issues[0]?.message || "Ugyldige data" },
+        { status: 400 }
+      );
+    }
+    const saved = await upsertLiquidityScenario(parsed.data);
+    return NextResponse.json({ success: true, scenario: saved });
+  } catch (error) {
+    logger.error("Kunne ikke opdatere scenarie", { service: "case" });
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Ukendt fejl" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(_: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  const ok = await deleteLiquidityScenario(id);
+  if (!ok) {
+    return NextResponse.json({ error: "Scenarie ikke fundet" }, { status: 404 });
+  }
+  return NextResponse.json({ success: true });
+}
@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  listLiquidityScenarios,
+  upsertLiquidityScenario,
+} from "@/lib/case/scenarios-store";
+import { liquidityScenarioUpsertSchema } from "@/lib/case/types";
+import { logger } from "@/lib/logger";
+
+export const runtime = "nodejs";
+
+export async function GET() {
+  return NextResponse.json({ items: await listLiquidityScenarios() });
+}
+
+export async function POST(req: NextRequest) {
+  try {
+    const body = await req.json();
+    const parsed = liquidityScenarioUpsertSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error.issues[0]?.message || "Ugyldige data" },
+        { status: 400 }
+      );
+    }
+    const saved = await upsertLiquidityScenario(parsed.data);
+    return NextResponse.json({ success: true, scenario: saved });
+  } catch (error) {
+    logger.error("Kunne ikke gemme scenarie", { service: "case" });
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Ukendt fejl" },
+      { status: 500 }
+    );
+  }
+}
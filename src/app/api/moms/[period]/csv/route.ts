@@ -0,0 +1,22 @@
+import { NextRequest, NextResponse } from "next/server";
+import { momsReportToCsv, parseMomsPeriod } from "@/lib/moms/calc";
+import { getMomsReport } from "@/lib/moms/report";
+
+export const runtime = "nodejs";
+
+export async function GET(_: NextRequest, { params }: { params: Promise<{ period: string }> }) {
+  const { period: id } = await params;
+  const period = parseMomsPeriod(id);
+  if (!period) {
+    return NextResponse.json({ error: "Ugyldig momsperiode" }, { status: 400 });
+  }
+  const report = await getMomsReport(period);
+  // BOM så Excel åbner filen som UTF-8 (æøå)
+  const csv = `\uFEFF${momsReportToCsv(report)}`;
+  return new NextResponse(csv, {
+    headers: {
+      "Content-Type": "text/csv; charset=utf-8",
+      "Content-Disposition": `attachment; filename="Moms-${period.id}.csv"`,
+    },
+  });
+}
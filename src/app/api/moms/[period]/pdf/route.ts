@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from "next/server";
+import { parseMomsPeriod } from "@/lib/moms/calc";
+import { generateMomsReportPdf } from "@/lib/moms/pdf-generator";
+import { getMomsReport } from "@/lib/moms/report";
+import { logger } from "@/lib/logger";
+
+export const runtime = "nodejs";
+
+export async function GET(_: NextRequest, { params }: { params: Promise<{ period: string }> }) {
+  const { period: id } = await params;
+  const period = parseMomsPeriod(id);
+  if (!period) {
+    return NextResponse.json({ error: "Ugyldig momsperiode" }, { status: 400 });
+  }
+  try {
+    const report = await getMomsReport(period);
+    const pdf = await generateMomsReportPdf(report);
+    return new NextResponse(new Uint8Array(pdf), {
+      headers: {
+        "Content-Type": "application/pdf",
+        "Content-Disposition": `attachment; filename="Moms-${period.id}.pdf"`,
+        "Content-Length": String(pdf.length),
+      },
+    });
+  } catch (error) {
+    logger.error("Kunne ikke generere moms-PDF", { service: "moms" });
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Ukendt fejl ved PDF-generering" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,16 @@
+import { NextRequest, NextResponse } from "next/server";
+import { parseMomsPeriod } from "@/lib/moms/calc";
+import { getMomsReport } from "@/lib/moms/report";
+
+export const runtime = "nodejs";
+
+/** GET /api/moms/2026-Q3 (kvartal) eller /api/moms/2026-H2 (halvår). */
+export async function GET(_: NextRequest, { params }: { params: Promise<{ period: string }> }) {
+  const { period: id } = await params;
+  const period = parseMomsPeriod(id);
+  if (!period) {
+    return NextResponse.json({ error: "Ugyldig momsperiode — brug fx 2026-Q3 eller 2026-H2" }, { status: 400 });
+  }
+  const report = await getMomsReport(period);
+  return NextResponse.json(report);
+}
@@ -10,8 +10,10 @@ export const runtime = "nodejs";
 import { NextRequest, NextResponse } from "next/server";
 import { getSend, upsertSend, getContact, getCampaign } from "@/lib/ooh/store";
 import { sendEmail } from "@/lib/email-sender";
+import { checkRecipient, suppressionMessage } from "@/lib/outreach/suppression-store";
 import { syncToHubSpot } from "@/lib/ooh/hubspot-sync";
 import { logger } from "@/lib/logger";
+import { recordEngagement } from "@/lib/outreach/engagement-store";
 
 const FOLLOW_UP_DAYS = 5;
 
@@ -37,6 +39,11 @@ export async function POST(req: NextRequest) {
       return NextResponse.json({ error: "No email for this contact" }, { status: 400 });
     }
 
+    const suppression = await checkRecipient(send.contactEmail, { source: "ooh-follow-up", refId: sendId });
+    if (suppression) {
+      return NextResponse.json({ error: suppressionMessage(suppression) }, { status: 409 });
+    }
+
     // Get the campaign for the original email context
     const campaign = send.campaignId ? await getCampaign(send.campaignId) : null;
     const contact = send.contactId ? await getContact(send.contactId) : null;
@@ -74,6 +81,7 @@ Hyde Media`;
       trackingPixelUrl,
       sendId,                  // enables click tracking
       trackingBaseUrl: baseUrl, // base URL for click tracking redirect
+      source: "ooh-follow-up",
     });
 
     if (emailResult.success) {
@@ -88,6 +96,14 @@ Hyde Media`;
       send.gmailMessageId = emailResult.messageId;
       send.gmailThreadId = emailResult.threadId || send.gmailThreadId;
       await upsertSend(send);
+      await recordEngagement({
+        kind: "email_sent",
+        email: send.contactEmail,
+        source: "ooh-followup",
+        refId: `${sendId}:${followUpNum}`,
+        summary: `OOH-opfølgning #${followUpNum}: ${subject}`,
+        metadata: { campaignId: send.campaignId, messageId: send.gmailMessageId, threadId: send.gmailThreadId },
+      });
 
       // Sync to HubSpot (non-blocking)
       if (send.contactEmail) {
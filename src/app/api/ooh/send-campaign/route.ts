@@ -19,6 +19,9 @@ import {
   getPresentationTemplate,
 } from "@/lib/ooh/store";
 import { sendEmail } from "@/lib/email-sender";
+import { checkRecipient, suppressionMessage } from "@/lib/outreach/suppression-store";
+import { applyVariant, assignVariant, recordVariantSend } from "@/lib/outreach/experiments";
+import { recordEngagement } from "@/lib/outreach/engagement-store";
 import { PDFDocument } from "pdf-lib";
 import { compositeMultiplePlacements } from "@/lib/ooh/image-processor";
 import { loadImageBuffer } from "@/lib/ooh/load-image";
@@ -147,7 +150,7 @@ export async function POST(req: NextRequest) {
     }
 
     // Send to each contact
-    const results: { contactId: string; success: boolean; error?: string }[] = [];
+    const results: { contactId: string; success: boolean; error?: string; suppressed?: boolean }[] = [];
     const now = new Date();
     const followUpDate = new Date(now.getTime() + FOLLOW_UP_DAYS * 24 * 60 * 60 * 1000);
 
@@ -158,18 +161,35 @@ export async function POST(req: NextRequest) {
         continue;
       }
 
+      // Unsubscribed or blocked domain – no send record, just report it
+      const suppression = await checkRecipient(contact.email, { source: "send-campaign", refId: campaign.id });
+      if (suppression) {
+        results.push({ contactId, success: false, error: suppressionMessage(suppression), suppressed: true });
+        continue;
+      }
+
+      // Create send record
+      const sendId = `send_${Date.now()}_${Math.random().toString(36).substring(2, 6)}`;
+
+      // A/B experiment: the variant replaces the campaign text for this contact
+      const ab = await assignVariant("ooh", contact.email, sendId);
+      const text = ab
+        ? applyVariant(
+            ab.variant,
+            { subject: campaign.emailSubject, body: campaign.emailBody },
+            { name: contact.name, company: contact.company, city: contact.city || "" }
+          )
+        : { subject: campaign.emailSubject, body: campaign.emailBody };
+
       // Personalize email body (simple template vars)
-      const personalizedBody = campaign.emailBody
+      const personalizedBody = text.body
         .replace(/\{name\}/g, contact.name)
         .replace(/\{company\}/g, contact.company)
         .replace(/\{city\}/g, contact.city || "");
 
-      const personalizedSubject = campaign.emailSubject
+      const personalizedSubject = text.subject
         .replace(/\{name\}/g, contact.name)
         .replace(/\{company\}/g, contact.company);
-
-      // Create send record
-      const sendId = `send_${Date.now()}_${Math.random().toString(36).substring(2, 6)}`;
       const send: OOHSend = {
         id: sendId,
         campaignId: campaign.id,
@@ -198,6 +218,7 @@ export async function POST(req: NextRequest) {
           trackingPixelUrl,
           sendId,                   // enables click tracking
           trackingBaseUrl: baseUrl,  // base URL for click tracking redirect
+          source: "send-campaign",
           attachments: pdfBase64
             ? [
                 {
@@ -221,6 +242,15 @@ export async function POST(req: NextRequest) {
           contact.totalProposalsSent += 1;
           await upsertContact(contact);
 
+          await recordEngagement({
+            kind: "email_sent",
+            email: contact.email,
+            source: "ooh-campaign",
+            refId: sendId,
+            summary: `OOH-kampagne "${campaign.name}": ${personalizedSubject}`,
+            metadata: { campaignId: campaign.id, messageId: emailResult.messageId, threadId: emailResult.threadId },
+          });
+
           // Sync to HubSpot (non-blocking)
           syncToHubSpot({
             contactEmail: contact.email,
@@ -243,6 +273,7 @@ export async function POST(req: NextRequest) {
       }
 
       await upsertSend(send);
+      if (ab) await recordVariantSend(ab.assignmentId, { success: send.status === "sent", refId: sendId });
     }
 
     // Update campaign status
@@ -258,6 +289,7 @@ export async function POST(req: NextRequest) {
       totalContacts: campaign.contactIds.length,
       sent: successCount,
       failed: campaign.contactIds.length - successCount,
+      suppressed: results.filter((r) => r.suppressed).length,
       results,
     });
   } catch (error) {
@@ -1,6 +1,9 @@
 import { NextRequest, NextResponse } from "next/server";
 import { getSends, getSend, upsertSend } from "@/lib/ooh/store";
 import { syncToHubSpot } from "@/lib/ooh/hubspot-sync";
+import { stopSequencesFor } from "@/lib/outreach/sequence-progress";
+import { markAssignmentsReplied } from "@/lib/outreach/experiment-store";
+import { recordEngagement } from "@/lib/outreach/engagement-store";
 import { logger } from "@/lib/logger";
 
 export const runtime = "nodejs";
@@ -49,6 +52,21 @@ export async function PUT(req: NextRequest) {
 
     await upsertSend(updated);
 
+    // A manually registered answer ends any running sequence for the contact
+    // and counts as a reply for its A/B variant
+    if (["replied", "meeting", "sold", "rejected"].includes(updates.status) && updated.contactEmail) {
+      await stopSequencesFor({ email: updated.contactEmail }, "reply");
+      await markAssignmentsReplied(updated.contactEmail);
+      await recordEngagement({
+        kind: "email_replied",
+        email: updated.contactEmail,
+        source: "ooh-manual",
+        refId: `${updated.id}:${updates.status}`,
+        summary: `OOH-status sat til "${updates.status}" manuelt`,
+        metadata: { campaignId: updated.campaignId, status: updates.status },
+      });
+    }
+
     // Sync status change to HubSpot (non-blocking)
     if (updates.status && updated.contactEmail) {
       const STATUS_NOTES: Record<string, string> = {
@@ -7,6 +7,11 @@
 
 import { NextRequest, NextResponse } from "next/server";
 import { getSend, upsertSend } from "@/lib/ooh/store";
+import { markStepSendEvent } from "@/lib/outreach/sequence-store";
+import { SEQUENCE_SEND_PREFIX } from "@/lib/outreach/sequence-types";
+import { markAssignmentEvent } from "@/lib/outreach/experiment-store";
+import { EXPERIMENT_ASSIGNMENT_PREFIX } from "@/lib/outreach/experiment-types";
+import { recordTrackingEngagement } from "@/lib/outreach/engagement";
 import { logger } from "@/lib/logger";
 
 export const runtime = "nodejs";
@@ -15,7 +20,13 @@ export async function GET(req: NextRequest) {
   const sendId = req.nextUrl.searchParams.get("sendId");
   const targetUrl = req.nextUrl.searchParams.get("url");
 
-  if (sendId) {
+  if (sendId?.startsWith(SEQUENCE_SEND_PREFIX)) {
+    await markStepSendEvent(sendId, "clicked");
+  } else if (sendId?.startsWith(EXPERIMENT_ASSIGNMENT_PREFIX)) {
+    await markAssignmentEvent({ id: sendId }, "clicked");
+  } else if (sendId) {
+    // OOH campaign sends may belong to an experiment variant
+    await markAssignmentEvent({ refId: sendId }, "clicked");
     try {
       const send = await getSend(sendId);
       if (send) {
@@ -32,6 +43,7 @@ export async function GET(req: NextRequest) {
       logger.error(`Error updating send: ${err}`, { service: "ooh-tracking" });
     }
   }
+  if (sendId) await recordTrackingEngagement(sendId, "clicked", targetUrl);
 
   const redirectTo = targetUrl || "/";
   return NextResponse.redirect(redirectTo, { status: 302 });
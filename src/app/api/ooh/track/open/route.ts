@@ -2,11 +2,17 @@
 // GET /api/ooh/track/open?sendId=xxx
 //
 // Tracking pixel endpoint. Returns a 1x1 transparent GIF and
-// records an "opened" event for the given sendId.
+// records an "opened" event for the given sendId (an OOH send, a
+// sequence step send or an A/B experiment assignment).
 // ============================================================
 
 import { NextRequest, NextResponse } from "next/server";
 import { getSend, upsertSend } from "@/lib/ooh/store";
+import { markStepSendEvent } from "@/lib/outreach/sequence-store";
+import { SEQUENCE_SEND_PREFIX } from "@/lib/outreach/sequence-types";
+import { markAssignmentEvent } from "@/lib/outreach/experiment-store";
+import { EXPERIMENT_ASSIGNMENT_PREFIX } from "@/lib/outreach/experiment-types";
+import { recordTrackingEngagement } from "@/lib/outreach/engagement";
 import { logger } from "@/lib/logger";
 
 export const runtime = "nodejs";
@@ -20,7 +26,13 @@ const TRACKING_PIXEL = Buffer.from(
 export async function GET(req: NextRequest) {
   const sendId = req.nextUrl.searchParams.get("sendId");
 
-  if (sendId) {
+  if (sendId?.startsWith(SEQUENCE_SEND_PREFIX)) {
+    await markStepSendEvent(sendId, "opened");
+  } else if (sendId?.startsWith(EXPERIMENT_ASSIGNMENT_PREFIX)) {
+    await markAssignmentEvent({ id: sendId }, "opened");
+  } else if (sendId) {
+    // OOH campaign sends may belong to an experiment variant
+    await markAssignmentEvent({ refId: sendId }, "opened");
     try {
       const send = await getSend(sendId);
       if (send && send.status === "sent") {
@@ -33,6 +45,7 @@ export async function GET(req: NextRequest) {
       logger.error("Error updating send", { service: "ooh-track-open" });
     }
   }
+  if (sendId) await recordTrackingEngagement(sendId, "opened");
 
   return new NextResponse(TRACKING_PIXEL, {
     status: 200,
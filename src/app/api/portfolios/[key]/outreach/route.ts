@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from "next/server";
+import { generatePortfolioOutreach } from "@/lib/portfolio/portfolios";
+import { portfolioOutreachInputSchema } from "@/lib/portfolio/types";
+import { logger } from "@/lib/logger";
+
+export const runtime = "nodejs";
+export const maxDuration = 60;
+
+/** POST – write one consolidated mail covering every property in the portfolio. */
+export async function POST(req: NextRequest, { params }: { params: Promise<{ key: string }> }) {
+  const { key } = await params;
+  const parsed = portfolioOutreachInputSchema.safeParse(await req.json().catch(() => ({})));
+  if (!parsed.success) {
+    return NextResponse.json({ error: parsed.error.issues[0]?.message || "Ugyldige data" }, { status: 400 });
+  }
+  try {
+    const outreach = await generatePortfolioOutreach(key, parsed.data);
+    if (!outreach) {
+      return NextResponse.json({ error: "Portefølje ikke fundet" }, { status: 404 });
+    }
+    return NextResponse.json({ success: true, outreach });
+  } catch (error) {
+    logger.error("Kunne ikke generere porteføljemail", { service: "portfolio" });
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Kunne ikke generere mail" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,15 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getOwnerPortfolio } from "@/lib/portfolio/portfolios";
+import { listPortfolioOutreach } from "@/lib/portfolio/outreach-store";
+
+export const runtime = "nodejs";
+
+/** GET – one portfolio with its consolidated outreach drafts. */
+export async function GET(_: NextRequest, { params }: { params: Promise<{ key: string }> }) {
+  const { key } = await params;
+  const portfolio = await getOwnerPortfolio(key);
+  if (!portfolio) {
+    return NextResponse.json({ error: "Portefølje ikke fundet" }, { status: 404 });
+  }
+  return NextResponse.json({ portfolio, outreach: await listPortfolioOutreach(key) });
+}
@@ -0,0 +1,36 @@
+// ============================================================
+// POST /api/portfolios/resolve – Look up holding chains in CVR
+//   Body: { force?: boolean, limit?: number }
+//   Resolves owners without a (fresh) chain, `limit` per call;
+//   `remaining` tells the client to call again.
+// ============================================================
+
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { resolvePortfolioOwners } from "@/lib/portfolio/portfolios";
+import { logger } from "@/lib/logger";
+
+export const runtime = "nodejs";
+export const maxDuration = 120;
+
+const resolveSchema = z.object({
+  force: z.boolean().optional(),
+  limit: z.number().int().min(1).max(50).optional(),
+});
+
+export async function POST(req: NextRequest) {
+  const parsed = resolveSchema.safeParse(await req.json().catch(() => ({})));
+  if (!parsed.success) {
+    return NextResponse.json({ error: parsed.error.issues[0]?.message || "Ugyldige data" }, { status: 400 });
+  }
+  try {
+    const result = await resolvePortfolioOwners(parsed.data);
+    return NextResponse.json({ success: true, ...result });
+  } catch (error) {
+    logger.error("Kunne ikke opløse koncernstrukturer", { service: "portfolio" });
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Kunne ikke opløse ejere" },
+      { status: 500 }
+    );
+  }
+}
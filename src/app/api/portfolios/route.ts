@@ -0,0 +1,24 @@
+// ============================================================
+// GET /api/portfolios?min=2 – Owner portfolios: HubSpot + staged
+//     properties grouped by ultimate parent, strongest first.
+// ============================================================
+
+import { NextRequest, NextResponse } from "next/server";
+import { listOwnerPortfolios } from "@/lib/portfolio/portfolios";
+import { logger } from "@/lib/logger";
+
+export const runtime = "nodejs";
+
+export async function GET(req: NextRequest) {
+  const min = Number(req.nextUrl.searchParams.get("min") || 2);
+  try {
+    const result = await listOwnerPortfolios({ minProperties: Number.isFinite(min) && min >= 1 ? min : 2 });
+    return NextResponse.json(result);
+  } catch (error) {
+    logger.error("Kunne ikke hente ejerporteføljer", { service: "portfolio" });
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Kunne ikke hente porteføljer" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,10 +1,14 @@
 // ============================================================
 // PATCH /api/properties/[id] – Update ejendom (contact, mail, phone, name)
+// A status change goes through the transition service (validated + logged).
 // ============================================================
 
 import { NextRequest, NextResponse } from "next/server";
 import { updateEjendom } from "@/lib/hubspot";
 import { logger } from "@/lib/logger";
+import { transitionProperty, TransitionError } from "@/lib/outreach/transition";
+import { STATUS_META } from "@/lib/state-machine";
+import type { OutreachStatus } from "@/types";
 
 export async function PATCH(
   request: NextRequest,
@@ -28,9 +32,16 @@ export async function PATCH(
   if (typeof body.telefonnummer === "string") properties.telefonnummer = body.telefonnummer;
   if (typeof body.hs_name === "string") properties.hs_name = body.hs_name;
   if (typeof body.name === "string") properties.hs_name = body.name;
-  if (typeof body.outreach_status === "string") properties.outreach_status = body.outreach_status;
 
-  if (Object.keys(properties).length === 0) {
+  let status: OutreachStatus | undefined;
+  if (typeof body.outreach_status === "string") {
+    if (!(body.outreach_status in STATUS_META)) {
+      return NextResponse.json({ error: `Ukendt status: ${body.outreach_status}` }, { status: 400 });
+    }
+    status = body.outreach_status as OutreachStatus;
+  }
+
+  if (Object.keys(properties).length === 0 && !status) {
     return NextResponse.json(
       { error: "Ingen gyldige felter at opdatere (kontaktperson, mailadresse, telefonnummer, name, outreach_status)" },
       { status: 400 }
@@ -38,9 +49,16 @@ export async function PATCH(
   }
 
   try {
+    if (status) {
+      const result = await transitionProperty(id, status, { actor: "user", source: "properties-api" }, properties);
+      return NextResponse.json({ success: true, transition: result });
+    }
     await updateEjendom(id, properties);
     return NextResponse.json({ success: true });
   } catch (error) {
+    if (error instanceof TransitionError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
     logger.error("PATCH property failed", { service: "properties-id" });
     return NextResponse.json(
       { error: error instanceof Error ? error.message : "Kunne ikke opdatere ejendom" },
@@ -0,0 +1,17 @@
+// ============================================================
+// GET /api/properties/[id]/transitions – Status history (newest first)
+// ============================================================
+
+import { NextRequest, NextResponse } from "next/server";
+import { listPropertyTransitions } from "@/lib/outreach/transition-store";
+
+export const runtime = "nodejs";
+
+export async function GET(
+  _req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const items = await listPropertyTransitions(id);
+  return NextResponse.json({ items });
+}
@@ -5,7 +5,7 @@
 // ============================================================
 
 import { NextRequest, NextResponse } from "next/server";
-import { updateEjendomResearch } from "@/lib/hubspot";
+import { transitionProperty, TransitionError } from "@/lib/outreach/transition";
 
 export async function POST(req: NextRequest) {
   try {
@@ -19,9 +19,7 @@ export async function POST(req: NextRequest) {
       );
     }
 
-    await updateEjendomResearch(propertyId, {
-      outreachStatus: "KLAR_TIL_UDSENDELSE",
-    });
+    await transitionProperty(propertyId, "KLAR_TIL_UDSENDELSE", { actor: "user", source: "mark-ready" });
 
     return NextResponse.json({
       success: true,
@@ -29,6 +27,9 @@ export async function POST(req: NextRequest) {
       outreachStatus: "KLAR_TIL_UDSENDELSE",
     });
   } catch (err) {
+    if (err instanceof TransitionError) {
+      return NextResponse.json({ error: err.message }, { status: err.status });
+    }
     return NextResponse.json(
       { error: err instanceof Error ? err.message : "Unknown error" },
       { status: 500 }
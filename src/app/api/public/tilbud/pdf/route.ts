@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getTilbud } from "@/lib/tilbud/store";
+import { verifyAcceptanceToken } from "@/lib/tilbud/acceptance-token";
+import { currentTilbudRevision } from "@/lib/tilbud/acceptance";
+import { generateTilbudPdf } from "@/lib/tilbud/pdf-generator";
+import { logger } from "@/lib/logger";
+
+export const runtime = "nodejs";
+
+/** Public: PDF of the tilbud behind a signed accept-link. */
+export async function GET(req: NextRequest) {
+  const verified = await verifyAcceptanceToken(req.nextUrl.searchParams.get("token"));
+  if (!verified.valid) {
+    return NextResponse.json({ error: "Ugyldigt eller udløbet link" }, { status: 403 });
+  }
+  try {
+    const tilbud = await getTilbud(verified.tilbudId);
+    if (!tilbud) return NextResponse.json({ error: "Tilbud ikke fundet" }, { status: 404 });
+    if ((await currentTilbudRevision(tilbud.id)) !== verified.revision) {
+      return NextResponse.json({ error: "Tilbuddet er ændret efter det blev sendt" }, { status: 409 });
+    }
+    const pdf = await generateTilbudPdf(tilbud);
+    const filename = `Tilbud-${(tilbud.offerNumber || "tilbud").replace(/[^\w\-]+/g, "-")}.pdf`;
+    return new NextResponse(new Uint8Array(pdf), {
+      headers: {
+        "Content-Type": "application/pdf",
+        "Content-Disposition": `inline; filename="${filename}"`,
+        "Content-Length": String(pdf.length),
+      },
+    });
+  } catch {
+    logger.error("Kunne ikke generere offentlig tilbud PDF", { service: "tilbud" });
+    return NextResponse.json({ error: "Kunne ikke generere PDF" }, { status: 500 });
+  }
+}
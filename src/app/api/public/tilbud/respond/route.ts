@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from "next/server";
+import { acceptanceResponseInputSchema } from "@/lib/tilbud/acceptance-types";
+import { AcceptanceError, respondToTilbud } from "@/lib/tilbud/acceptance";
+import { logger } from "@/lib/logger";
+
+export const runtime = "nodejs";
+
+/** Public: the customer accepts or rejects a tilbud via the signed link. */
+export async function POST(req: NextRequest) {
+  try {
+    const body = await req.json();
+    const parsed = acceptanceResponseInputSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error.issues[0]?.message || "Ugyldige data" },
+        { status: 400 }
+      );
+    }
+    const acceptance = await respondToTilbud(parsed.data, {
+      ip: req.headers.get("x-forwarded-for")?.split(",")[0]?.trim() || "",
+      userAgent: req.headers.get("user-agent") || "",
+    });
+    return NextResponse.json({
+      success: true,
+      decision: acceptance.decision,
+      createdAt: acceptance.createdAt,
+    });
+  } catch (error) {
+    if (error instanceof AcceptanceError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    logger.error("Kunne ikke registrere svar på tilbud", { service: "tilbud" });
+    return NextResponse.json({ error: "Der opstod en fejl. Prøv igen senere." }, { status: 500 });
+  }
+}
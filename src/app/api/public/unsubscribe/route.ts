@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from "next/server";
+import { verifyUnsubscribeToken } from "@/lib/outreach/unsubscribe-token";
+import { suppressAddress } from "@/lib/outreach/suppression-store";
+import { logger } from "@/lib/logger";
+
+export const runtime = "nodejs";
+
+/**
+ * Public: one-click unsubscribe. Mail clients POST here from the
+ * List-Unsubscribe header (RFC 8058); the /afmeld page posts the
+ * same token from its form and is sent back to the confirmation.
+ */
+export async function POST(req: NextRequest) {
+  const token = req.nextUrl.searchParams.get("token");
+  const email = await verifyUnsubscribeToken(token);
+  if (!email) {
+    return NextResponse.json({ error: "Ugyldigt afmeldingslink" }, { status: 400 });
+  }
+
+  try {
+    await suppressAddress({ value: email, kind: "email", reason: "unsubscribe", source: "unsubscribe-link" });
+  } catch (error) {
+    logger.error(`Kunne ikke registrere afmelding: ${error instanceof Error ? error.message : error}`, {
+      service: "suppression",
+    });
+    return NextResponse.json({ error: "Der opstod en fejl. Prøv igen senere." }, { status: 500 });
+  }
+
+  if (req.headers.get("accept")?.includes("text/html")) {
+    return NextResponse.redirect(new URL(`/afmeld/${token}?done=1`, req.nextUrl.origin), 303);
+  }
+  return NextResponse.json({ success: true });
+}
@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getResearchJob, saveResearchJob } from "@/lib/workflow/research-job-store";
+import { logger } from "@/lib/logger";
+
+export const runtime = "nodejs";
+
+/**
+ * POST – put a failed or cancelled job back in the queue with fresh
+ * attempts. The checkpoint is kept, so it resumes where it stopped.
+ */
+export async function POST(_: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  const job = await getResearchJob(id);
+  if (!job) {
+    return NextResponse.json({ error: "Job ikke fundet" }, { status: 404 });
+  }
+  if (job.status !== "failed" && job.status !== "cancelled") {
+    return NextResponse.json({ error: "Kun fejlede eller annullerede job kan prøves igen" }, { status: 409 });
+  }
+  try {
+    job.status = "queued";
+    job.attempts = 0;
+    job.nextRunAt = new Date().toISOString();
+    job.leaseUntil = null;
+    job.completedAt = null;
+    job.error = null;
+    job.lastMessage = "Sat i kø igen";
+    await saveResearchJob(job);
+    return NextResponse.json({ success: true, job: { ...job, checkpoint: {} } });
+  } catch (error) {
+    logger.error("Kunne ikke genstarte research-job", { service: "research-jobs" });
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Kunne ikke genstarte job" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getResearchJob, saveResearchJob } from "@/lib/workflow/research-job-store";
+import { logger } from "@/lib/logger";
+
+export const runtime = "nodejs";
+
+/** DELETE – cancel a queued job; a running job would be overwritten by its runner. */
+export async function DELETE(_: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  const job = await getResearchJob(id);
+  if (!job) {
+    return NextResponse.json({ error: "Job ikke fundet" }, { status: 404 });
+  }
+  if (job.status !== "queued") {
+    return NextResponse.json({ error: "Kun job i kø kan annulleres" }, { status: 409 });
+  }
+  try {
+    job.status = "cancelled";
+    job.completedAt = new Date().toISOString();
+    job.lastMessage = "Annulleret";
+    await saveResearchJob(job);
+    return NextResponse.json({ success: true, job: { ...job, checkpoint: {} } });
+  } catch (error) {
+    logger.error("Kunne ikke annullere research-job", { service: "research-jobs" });
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Kunne ikke annullere job" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,14 @@
+// ============================================================
+// GET /api/research-jobs – Research queue: latest jobs (newest
+// first, without checkpoints) and the number queued/running.
+// ============================================================
+
+import { NextResponse } from "next/server";
+import { countOpenResearchJobs, listResearchJobs } from "@/lib/workflow/research-job-store";
+
+export const runtime = "nodejs";
+
+export async function GET() {
+  const [items, counts] = await Promise.all([listResearchJobs(50), countOpenResearchJobs()]);
+  return NextResponse.json({ items, counts });
+}
@@ -1,23 +1,24 @@
 // ============================================================
 // Run Research Endpoint – SSE streaming for live progress
-// GET  /api/run-research → runs all pending (HubSpot + staging)
+// GET  /api/run-research → queues all pending (HubSpot + staging)
+//                          and works the research job queue
 // POST /api/run-research → single property with SSE stream
 //   Body: { propertyId: string } for HubSpot properties
 
 export const maxDuration = 300; // 5 min – requires Vercel Pro
 //         { stagedPropertyId: string } for staged properties
+//   Optional: refreshSources: "all" | ["ois", "cvr", …] to bypass the source cache
+// Both run through research jobs: whatever doesn't finish before
+// maxDuration is resumed by /api/cron/research-jobs.
 // ============================================================
 
 import { NextRequest, NextResponse } from "next/server";
-import {
-  runResearchWorkflow,
-  processProperty,
-  processStagedProperty,
-  runStagedResearchBatch,
-} from "@/lib/workflow/engine";
 import type { WorkflowProgress } from "@/lib/workflow/engine";
+import { enqueuePendingResearch, enqueueResearchJob, runResearchJobs } from "@/lib/workflow/research-jobs";
 import { fetchEjendomById } from "@/lib/hubspot";
+import { canTransition, STATUS_META } from "@/lib/state-machine";
 import { getStagedProperty } from "@/lib/staging/store";
+import { parseRefreshSources } from "@/lib/research/source-cache";
 import { verifyCronSecret } from "@/lib/cron-auth";
 import { logger } from "@/lib/logger";
 
@@ -70,6 +71,9 @@ function createSSEStream(
   });
 }
 
+/** Leave room to wrap up before maxDuration cuts the request. */
+const RUN_BUDGET_MS = (maxDuration - 30) * 1000;
+
 /**
  * GET /api/run-research
  * Batch research: all pending HubSpot properties + all "new" staged properties.
@@ -90,31 +94,17 @@ export async function GET(request: NextRequest) {
       progress: 0,
     });
 
-    const hubspotRuns = await runResearchWorkflow(
-      (event) => send({ ...event, progress: event.progress ? Math.round(event.progress * 0.5) : undefined }),
-      isCancelled
-    );
-
+    const queued = await enqueuePendingResearch(send, { automatic: !!hasBearerToken });
     if (isCancelled()) return;
 
-    // Phase 2: Staged properties
-    send({
-      phase: "staged_batch_start",
-      message: "Researcher staged ejendomme...",
-      progress: 50,
-    });
-
-    const stagedRuns = await runStagedResearchBatch(
-      (event) => send({ ...event, progress: event.progress ? 50 + Math.round(event.progress * 0.5) : undefined }),
-      isCancelled
-    );
-
-    const totalRuns = [...hubspotRuns, ...stagedRuns];
-    const completed = totalRuns.filter(r => r.status === "completed").length;
+    const result = await runResearchJobs({ budgetMs: RUN_BUDGET_MS, onProgress: send, isCancelled });
 
     send({
       phase: "complete",
-      message: `Batch research færdig: ${completed}/${totalRuns.length} gennemført (${hubspotRuns.length} HubSpot + ${stagedRuns.length} staging)`,
+      message: `Batch research: ${result.completed} gennemført, ${result.failed} fejlet, ${result.retrying} prøves igen`,
+      detail: result.remaining > 0
+        ? `${result.remaining} job venter i køen og fortsætter ved næste kørsel`
+        : `${queued.enqueued} nye job i denne kørsel`,
       progress: 100,
     });
   });
@@ -130,6 +120,7 @@ export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
     const { propertyId, stagedPropertyId } = body;
+    const refreshSources = parseRefreshSources(body.refreshSources);
 
     if (!propertyId && !stagedPropertyId) {
       return NextResponse.json(
@@ -148,37 +139,38 @@ export async function POST(request: NextRequest) {
         );
       }
 
-      return createSSEStream(async (send, isCancelled) => {
-        const run = await processStagedProperty(staged, send, isCancelled);
-
-        if (!isCancelled()) {
-          send({
-            phase: "complete",
-            message: run.status === "completed"
-              ? `Research fuldført for ${staged.name || staged.address} (staging)`
-              : `Research fejlede: ${run.error}`,
-            progress: 100,
-          });
-        }
+      const { job } = await enqueueResearchJob({
+        targetType: "staged",
+        targetId: staged.id,
+        label: staged.name || staged.address,
+        options: { refreshSources },
+        runNow: true,
       });
+      return createSSEStream((send, isCancelled) =>
+        runSingleJob(job.id, `${staged.name || staged.address} (staging)`, send, isCancelled)
+      );
     }
 
     // ── HubSpot property research ──
     const property = await fetchEjendomById(propertyId);
-
-    return createSSEStream(async (send, isCancelled) => {
-      const run = await processProperty(property, send, isCancelled);
-
-      if (!isCancelled()) {
-        send({
-          phase: "complete",
-          message: run.status === "completed"
-            ? `Research fuldført for ${property.name || property.address}`
-            : `Research fejlede: ${run.error}`,
-          progress: 100,
-        });
-      }
+    const status = property.outreachStatus;
+    if (status !== "RESEARCH_IGANGSAT" && !canTransition(status, "RESEARCH_IGANGSAT")) {
+      return NextResponse.json(
+        { error: `Ejendommen har status "${STATUS_META[status]?.label || status}" og kan ikke researches igen` },
+        { status: 409 }
+      );
+    }
+    const { job } = await enqueueResearchJob({
+      targetType: "hubspot",
+      targetId: property.id,
+      label: property.name || property.address,
+      options: { refreshSources },
+      runNow: true,
     });
+
+    return createSSEStream((send, isCancelled) =>
+      runSingleJob(job.id, property.name || property.address, send, isCancelled)
+    );
   } catch (error) {
     logger.error("Single ejendom research failed", { service: "run-research" });
     return NextResponse.json(
@@ -190,3 +182,26 @@ export async function POST(request: NextRequest) {
     );
   }
 }
+
+/** Run one queued job in this request; a job busy elsewhere is only reported. */
+async function runSingleJob(
+  jobId: string,
+  label: string,
+  send: (event: WorkflowProgress) => void,
+  isCancelled: () => boolean
+): Promise<void> {
+  const result = await runResearchJobs({ budgetMs: RUN_BUDGET_MS, jobId, onProgress: send, isCancelled });
+  if (isCancelled()) return;
+
+  const run = result.runs[0];
+  send({
+    phase: "complete",
+    message: !run
+      ? `Research for ${label} kører allerede eller venter på nyt forsøg – følg den i research-køen`
+      : run.status === "completed"
+        ? `Research fuldført for ${label}`
+        : `Research fejlede: ${run.error}`,
+    detail: result.retrying > 0 ? "Forbigående fejl – jobbet prøves automatisk igen" : undefined,
+    progress: 100,
+  });
+}
@@ -5,7 +5,8 @@
 // ============================================================
 
 import { NextRequest, NextResponse } from "next/server";
-import { createEjendom, ejendomExistsByAddress } from "@/lib/hubspot";
+import { createEjendom } from "@/lib/hubspot";
+import { findExistingProperty, indexProperty } from "@/lib/dedupe/clusters";
 import { logger } from "@/lib/logger";
 
 export async function POST(req: NextRequest) {
@@ -25,9 +26,9 @@ export async function POST(req: NextRequest) {
       return NextResponse.json({ error: "address is required" }, { status: 400 });
     }
 
-    // Check for duplicates
-    const exists = await ejendomExistsByAddress(address);
-    if (exists) {
+    // Check for duplicates (same BFE across pipelines, else address)
+    const existing = await findExistingProperty(address, postalCode, city);
+    if (existing.exists) {
       logger.info(`Scaffold-to-pipeline: ${address} already exists in HubSpot`, { service: "scaffold-pipeline" });
       return NextResponse.json({
         success: false,
@@ -45,6 +46,7 @@ export async function POST(req: NextRequest) {
       outdoorScore: score || 0,
       outdoorPotentialNotes: `Kilde: ${source || "scaffolding"}. Kategori: ${category || "N/A"}. Entrepr: ${applicant || "N/A"}`,
     });
+    await indexProperty(`hubspot:${result}`, address, postalCode, existing.bfe);
 
     logger.info(`Scaffold-to-pipeline: Created ${address} in HubSpot`, {
       service: "scaffold-pipeline",
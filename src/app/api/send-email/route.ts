@@ -101,7 +101,7 @@ export async function DELETE(req: NextRequest) {
 
     if (!queueId) return apiError(400, "queueId is required");
 
-    const cancelled = cancelQueuedEmail(queueId);
+    const cancelled = await cancelQueuedEmail(queueId);
     return NextResponse.json({ success: cancelled });
   } catch (error) {
     return apiError(500, String(error));
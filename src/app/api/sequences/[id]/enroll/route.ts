@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from "next/server";
+import { enrollInSequence, SequenceError } from "@/lib/outreach/sequence-runner";
+import { enrollInputSchema } from "@/lib/outreach/sequence-types";
+import { logger } from "@/lib/logger";
+
+export const runtime = "nodejs";
+
+/** POST { targetIds } – enroll properties or OOH contacts (per the sequence's target). */
+export async function POST(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  const parsed = enrollInputSchema.safeParse(await req.json().catch(() => null));
+  if (!parsed.success) {
+    return NextResponse.json({ error: parsed.error.issues[0]?.message || "Ugyldige data" }, { status: 400 });
+  }
+  try {
+    const results = await enrollInSequence(id, parsed.data.targetIds);
+    return NextResponse.json({
+      success: true,
+      enrolled: results.filter((r) => r.enrollmentId).length,
+      results,
+    });
+  } catch (error) {
+    if (error instanceof SequenceError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    logger.error("Kunne ikke tilmelde til sekvens", { service: "sequence" });
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Kunne ikke tilmelde" },
+      { status: 500 }
+    );
+  }
+}
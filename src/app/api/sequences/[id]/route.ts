@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  buildSequenceReport,
+  deleteSequence,
+  getSequence,
+  listEnrollments,
+  updateSequence,
+} from "@/lib/outreach/sequence-store";
+import { sequenceInputSchema } from "@/lib/outreach/sequence-types";
+import { logger } from "@/lib/logger";
+
+export const runtime = "nodejs";
+
+export async function GET(_: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  const sequence = await getSequence(id);
+  if (!sequence) {
+    return NextResponse.json({ error: "Sekvens ikke fundet" }, { status: 404 });
+  }
+  const [report, enrollments] = await Promise.all([buildSequenceReport(sequence), listEnrollments(id)]);
+  return NextResponse.json({ sequence, report, enrollments });
+}
+
+export async function PUT(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  const parsed = sequenceInputSchema.safeParse(await req.json().catch(() => null));
+  if (!parsed.success) {
+    return NextResponse.json({ error: parsed.error.issues[0]?.message || "Ugyldige data" }, { status: 400 });
+  }
+  const existing = await getSequence(id);
+  if (!existing) {
+    return NextResponse.json({ error: "Sekvens ikke fundet" }, { status: 404 });
+  }
+  if (existing.target !== parsed.data.target && (await listEnrollments(id, 1)).length > 0) {
+    return NextResponse.json({ error: "Målgruppen kan ikke ændres når sekvensen har modtagere" }, { status: 409 });
+  }
+  try {
+    const sequence = await updateSequence(id, parsed.data);
+    return NextResponse.json({ success: true, sequence });
+  } catch (error) {
+    logger.error("Kunne ikke opdatere sekvens", { service: "sequence" });
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Kunne ikke opdatere sekvens" },
+      { status: 500 }
+    );
+  }
+}
+
+/** DELETE – only sequences nobody has been enrolled in; otherwise deactivate it. */
+export async function DELETE(_: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  if ((await listEnrollments(id, 1)).length > 0) {
+    return NextResponse.json(
+      { error: "Sekvensen har modtagere – deaktivér den i stedet for at slette" },
+      { status: 409 }
+    );
+  }
+  try {
+    await deleteSequence(id);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    logger.error("Kunne ikke slette sekvens", { service: "sequence" });
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Kunne ikke slette sekvens" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,16 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getEnrollment } from "@/lib/outreach/sequence-store";
+import { stopEnrollment } from "@/lib/outreach/sequence-runner";
+
+export const runtime = "nodejs";
+
+/** DELETE – stop an enrollment manually (steps already queued still go out). */
+export async function DELETE(_: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  const enrollment = await getEnrollment(id);
+  if (!enrollment) {
+    return NextResponse.json({ error: "Tilmelding ikke fundet" }, { status: 404 });
+  }
+  await stopEnrollment(id);
+  return NextResponse.json({ success: true });
+}
@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from "next/server";
+import { buildSequenceReport, createSequence, listSequences } from "@/lib/outreach/sequence-store";
+import { sequenceInputSchema } from "@/lib/outreach/sequence-types";
+import { logger } from "@/lib/logger";
+
+export const runtime = "nodejs";
+
+/** GET – all sequences with their per-step report. */
+export async function GET() {
+  const sequences = await listSequences();
+  const items = await Promise.all(
+    sequences.map(async (sequence) => ({ ...sequence, report: await buildSequenceReport(sequence) }))
+  );
+  return NextResponse.json({ items });
+}
+
+export async function POST(req: NextRequest) {
+  const parsed = sequenceInputSchema.safeParse(await req.json().catch(() => null));
+  if (!parsed.success) {
+    return NextResponse.json({ error: parsed.error.issues[0]?.message || "Ugyldige data" }, { status: 400 });
+  }
+  try {
+    const sequence = await createSequence(parsed.data);
+    return NextResponse.json({ success: true, sequence });
+  } catch (error) {
+    logger.error("Kunne ikke oprette sekvens", { service: "sequence" });
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Kunne ikke oprette sekvens" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import {
+  dismissHeldAction,
+  getAutonomySettings,
+  listHeldActions,
+  saveAutonomySettings,
+} from "@/lib/outreach/autonomy-store";
+import { logger } from "@/lib/logger";
+
+export const runtime = "nodejs";
+
+const ruleSchema = z.object({
+  id: z.string().min(1),
+  active: z.boolean(),
+  minScore: z.number().min(0).max(10).optional(),
+  minTraffic: z.number().min(0).optional(),
+  maxAgeHours: z.number().min(1).optional(),
+});
+
+const putSchema = z.object({
+  level: z.union([z.literal(0), z.literal(1), z.literal(2), z.literal(3)]).optional(),
+  rules: z.array(ruleSchema).optional(),
+});
+
+export async function GET() {
+  const [settings, held] = await Promise.all([getAutonomySettings(), listHeldActions()]);
+  return NextResponse.json({ settings, held });
+}
+
+export async function PUT(req: NextRequest) {
+  const parsed = putSchema.safeParse(await req.json().catch(() => null));
+  if (!parsed.success) {
+    return NextResponse.json({ error: parsed.error.issues[0]?.message || "Ugyldige data" }, { status: 400 });
+  }
+  try {
+    const settings = await saveAutonomySettings(parsed.data);
+    return NextResponse.json({ settings });
+  } catch (error) {
+    logger.error("Kunne ikke gemme autonomi-indstillinger", { service: "settings-autonomy" });
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Kunne ikke gemme" },
+      { status: 500 }
+    );
+  }
+}
+
+/** DELETE ?heldId=… – dismiss a held-back action from the approval log. */
+export async function DELETE(req: NextRequest) {
+  const id = req.nextUrl.searchParams.get("heldId");
+  if (!id) return NextResponse.json({ error: "Manglende heldId" }, { status: 400 });
+  try {
+    await dismissHeldAction(id);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    logger.error("Kunne ikke fjerne tilbageholdt handling", { service: "settings-autonomy" });
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Kunne ikke fjerne" },
+      { status: 500 }
+    );
+  }
+}
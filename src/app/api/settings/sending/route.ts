@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { loadMailboxStatus, saveSendSettings } from "@/lib/outreach/send-schedule";
+import { logger } from "@/lib/logger";
+
+export const runtime = "nodejs";
+
+const minuteOfDay = z.number().int().min(0).max(24 * 60);
+
+const putSchema = z.object({
+  window: z
+    .object({
+      startMinute: minuteOfDay.optional(),
+      endMinute: minuteOfDay.optional(),
+      minGapMinutes: z.number().min(0.5).max(240).optional(),
+    })
+    .optional(),
+  mailboxes: z
+    .array(
+      z.object({
+        email: z.string().email(),
+        dailyCap: z.number().int().min(1).max(2000).optional(),
+        warmupEnabled: z.boolean().optional(),
+        warmupStartCap: z.number().int().min(1).max(500).optional(),
+        warmupIncrement: z.number().int().min(0).max(200).optional(),
+        paused: z.boolean().optional(),
+        restartWarmup: z.boolean().optional(),
+      })
+    )
+    .optional(),
+});
+
+/** GET – send window and per-mailbox caps with today's usage. */
+export async function GET() {
+  return NextResponse.json(await loadMailboxStatus());
+}
+
+export async function PUT(req: NextRequest) {
+  const parsed = putSchema.safeParse(await req.json().catch(() => null));
+  if (!parsed.success) {
+    return NextResponse.json({ error: parsed.error.issues[0]?.message || "Ugyldige data" }, { status: 400 });
+  }
+  try {
+    await saveSendSettings(parsed.data);
+    return NextResponse.json(await loadMailboxStatus());
+  } catch (error) {
+    logger.error("Kunne ikke gemme afsendelsesplan", { service: "settings-sending" });
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Kunne ikke gemme" },
+      { status: 500 }
+    );
+  }
+}
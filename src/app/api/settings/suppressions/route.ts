@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import {
+  listSuppressionBlocks,
+  listSuppressions,
+  normalizeSuppressionValue,
+  removeSuppression,
+  suppressAddress,
+} from "@/lib/outreach/suppression-store";
+import { listBounces } from "@/lib/outreach/bounce-store";
+import { logger } from "@/lib/logger";
+
+export const runtime = "nodejs";
+
+const postSchema = z.object({
+  value: z
+    .string()
+    .trim()
+    .min(3, "Angiv en email eller et domæne")
+    .refine((v) => /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(v) || /^@?[^\s@]+\.[^\s@]+$/.test(v), "Ugyldig email eller domæne"),
+  reason: z.string().trim().min(1).default("manual"),
+  note: z.string().trim().max(500).optional(),
+});
+
+export async function GET() {
+  const [items, blocks, bounces] = await Promise.all([listSuppressions(), listSuppressionBlocks(), listBounces(20)]);
+  return NextResponse.json({ items, blocks, bounces });
+}
+
+/** POST – add an email (or a whole domain, e.g. "firma.dk") to the list. */
+export async function POST(req: NextRequest) {
+  const parsed = postSchema.safeParse(await req.json().catch(() => null));
+  if (!parsed.success) {
+    return NextResponse.json({ error: parsed.error.issues[0]?.message || "Ugyldige data" }, { status: 400 });
+  }
+  const value = normalizeSuppressionValue(parsed.data.value);
+  try {
+    await suppressAddress({
+      value,
+      kind: value.includes("@") ? "email" : "domain",
+      reason: parsed.data.reason,
+      source: "manual",
+      note: parsed.data.note,
+    });
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    logger.error("Kunne ikke tilføje til blokeringslisten", { service: "settings-suppressions" });
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Kunne ikke gemme" },
+      { status: 500 }
+    );
+  }
+}
+
+/** DELETE ?id=… – take an address or domain off the list again. */
+export async function DELETE(req: NextRequest) {
+  const id = req.nextUrl.searchParams.get("id");
+  if (!id) return NextResponse.json({ error: "Manglende id" }, { status: 400 });
+  try {
+    await removeSuppression(id);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    logger.error("Kunne ikke fjerne fra blokeringslisten", { service: "settings-suppressions" });
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Kunne ikke fjerne" },
+      { status: 500 }
+    );
+  }
+}
@@ -11,12 +11,12 @@ import {
   upsertContact,
   saveEmailDraft,
   updateEjendomResearch,
-  updateEjendom,
   upsertEjendomCompany,
   associateCompanyToEjendom,
   associateContactToCompany,
 } from "@/lib/hubspot";
 import { enqueueEmail } from "@/lib/email-queue";
+import { transitionProperty } from "@/lib/outreach/transition";
 import type { Contact } from "@/types";
 import { logger } from "@/lib/logger";
 
@@ -149,9 +149,6 @@ export async function POST(req: NextRequest) {
               outdoorScore: staged.outdoorScore,
               researchSummary: staged.researchSummary,
               researchLinks: staged.researchLinks,
-              outreachStatus: staged.contactEmail
-                ? "KLAR_TIL_UDSENDELSE"
-                : "RESEARCH_DONE_CONTACT_PENDING",
             });
           } catch {
             logger.warn(`Failed to update research for ${staged.address}`, { service: "approve-send" });
@@ -170,7 +167,12 @@ export async function POST(req: NextRequest) {
         let emailQueued = false;
         if (effectiveEmail && staged.emailDraftSubject && staged.emailDraftBody) {
           try {
-            await updateEjendom(hubspotId, { outreach_status: "KLAR_TIL_UDSENDELSE" });
+            await transitionProperty(
+              hubspotId,
+              "KLAR_TIL_UDSENDELSE",
+              { actor: "user", source: "approve-send" },
+              { mailadresse: effectiveEmail }
+            );
             const queueResult = await enqueueEmail(hubspotId, {
               to: effectiveEmail,
               subject: staged.emailDraftSubject,
@@ -148,9 +148,6 @@ export async function POST(req: NextRequest) {
               outdoorScore: staged.outdoorScore,
               researchSummary: staged.researchSummary,
               researchLinks: staged.researchLinks,
-              outreachStatus: staged.contactEmail
-                ? "KLAR_TIL_UDSENDELSE"
-                : "RESEARCH_DONE_CONTACT_PENDING",
             });
           } catch (e) {
             logger.warn(`Failed to update research for ${staged.address}`, { service: "staged-properties-approve" });
@@ -1,17 +1,23 @@
 // ============================================================
 // POST /api/staged-properties/generate-draft
 // Generate email draft for researched staging entries (internal only, no HubSpot).
-// Body: { ids: string[] }
+// With a templateId the draft is rendered from that template instead of
+// the LLM; entries missing a variable the template needs are skipped.
+// Body: { ids: string[], templateId?: string }
 // ============================================================
 
 import { NextRequest, NextResponse } from "next/server";
 import { getStagedProperty, updateStagedProperty } from "@/lib/staging/store";
 import { generateEmailDraft } from "@/lib/llm";
+import { assignVariant } from "@/lib/outreach/experiments";
+import { getEmailTemplate } from "@/lib/email/template-store";
+import { renderTemplate, stagedPropertyValues, TEMPLATE_VARIABLES } from "@/lib/email/template-library";
+import { getAISettings } from "@/lib/ai-settings";
 import type { Property, Contact, ResearchAnalysis } from "@/types";
 import { logger } from "@/lib/logger";
 
 export async function POST(req: NextRequest) {
-  let body: { ids?: string[] };
+  let body: { ids?: string[]; templateId?: string };
   try {
     body = await req.json();
   } catch {
@@ -35,6 +41,12 @@ export async function POST(req: NextRequest) {
       );
     }
 
+    const template = body.templateId ? await getEmailTemplate(body.templateId) : null;
+    if (body.templateId && (!template || template.archived)) {
+      return NextResponse.json({ error: "Skabelon ikke fundet" }, { status: 404 });
+    }
+    const senderName = template ? (await getAISettings()).senderName : "";
+
     const results: { id: string; success: boolean; error?: string }[] = [];
 
     for (const id of ids) {
@@ -50,6 +62,29 @@ export async function POST(req: NextRequest) {
           continue;
         }
 
+        if (template) {
+          const values = { ...stagedPropertyValues(staged), sender_name: senderName };
+          const subject = renderTemplate(template.subject, values);
+          const rendered = renderTemplate(template.body, values);
+          const missing = [...new Set([...subject.missing, ...rendered.missing])];
+          if (missing.length > 0) {
+            results.push({
+              id,
+              success: false,
+              error: `Mangler ${missing.map((v) => TEMPLATE_VARIABLES[v].label.toLowerCase()).join(", ")}`,
+            });
+            continue;
+          }
+          await updateStagedProperty(id, {
+            emailDraftSubject: subject.text.trim(),
+            emailDraftBody: rendered.text.trim(),
+            emailDraftNote: `Skabelon: ${template.name} v${template.version}`,
+            ...(staged.stage === "researched" ? { stage: "approved" as const } : {}),
+          });
+          results.push({ id, success: true });
+          continue;
+        }
+
         const property: Property = {
           id: staged.id,
           name: staged.name,
@@ -86,7 +121,8 @@ export async function POST(req: NextRequest) {
           dataQualityReason: "Fra staging",
         };
 
-        const draft = await generateEmailDraft(property, contact, analysis);
+        const ab = contact.email ? await assignVariant("property", contact.email) : null;
+        const draft = await generateEmailDraft(property, contact, analysis, { promptHint: ab?.variant.promptHint });
 
         await updateStagedProperty(id, {
           emailDraftSubject: draft.subject,
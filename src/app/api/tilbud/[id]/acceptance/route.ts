@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getTilbud } from "@/lib/tilbud/store";
+import { getTilbudAcceptance } from "@/lib/tilbud/acceptance-store";
+import { AcceptanceError, createAcceptanceLink } from "@/lib/tilbud/acceptance";
+import { logger } from "@/lib/logger";
+
+export const runtime = "nodejs";
+
+/** Latest customer response (accept/reject) for the tilbud, if any. */
+export async function GET(_: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  const acceptance = await getTilbudAcceptance(id);
+  return NextResponse.json({ acceptance: acceptance ?? null });
+}
+
+/** Create the signed public accept-link to send to the customer. */
+export async function POST(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  try {
+    const tilbud = await getTilbud(id);
+    if (!tilbud) return NextResponse.json({ error: "Tilbud ikke fundet" }, { status: 404 });
+    const baseUrl = process.env.NEXT_PUBLIC_APP_URL || req.nextUrl.origin;
+    const link = await createAcceptanceLink(tilbud, baseUrl);
+    return NextResponse.json({ success: true, ...link });
+  } catch (error) {
+    if (error instanceof AcceptanceError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    logger.error("Kunne ikke oprette accept-link", { service: "tilbud" });
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Ukendt fejl" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,16 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getTilbudRevision } from "@/lib/tilbud/revision-store";
+
+export const runtime = "nodejs";
+
+export async function GET(
+  _: NextRequest,
+  { params }: { params: Promise<{ id: string; revision: string }> }
+) {
+  const { id, revision } = await params;
+  const rev = await getTilbudRevision(id, Number(revision));
+  if (!rev) {
+    return NextResponse.json({ error: "Revision ikke fundet" }, { status: 404 });
+  }
+  return NextResponse.json(rev);
+}
@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getTilbudRevision, listTilbudRevisions } from "@/lib/tilbud/revision-store";
+import { diffTilbudRevisions } from "@/lib/tilbud/revision-diff";
+
+export const runtime = "nodejs";
+
+/**
+ * GET /api/tilbud/:id/revisions/diff?from=1&to=3
+ * Defaults: to = seneste revision, from = revisionen før.
+ */
+export async function GET(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  const toParam = Number(req.nextUrl.searchParams.get("to") || 0);
+  const fromParam = Number(req.nextUrl.searchParams.get("from") || 0);
+
+  let to = Number.isFinite(toParam) && toParam > 0 ? toParam : 0;
+  if (!to) {
+    const [latest] = await listTilbudRevisions(id);
+    if (!latest) {
+      return NextResponse.json({ error: "Tilbuddet har ingen revisioner" }, { status: 404 });
+    }
+    to = latest.revision;
+  }
+  const from = Number.isFinite(fromParam) && fromParam > 0 ? fromParam : to - 1;
+  if (from < 1 || from === to) {
+    return NextResponse.json({ error: "Der er ingen tidligere revision at sammenligne med" }, { status: 400 });
+  }
+
+  const [fromRev, toRev] = await Promise.all([getTilbudRevision(id, from), getTilbudRevision(id, to)]);
+  if (!fromRev || !toRev) {
+    return NextResponse.json({ error: "Revision ikke fundet" }, { status: 404 });
+  }
+  return NextResponse.json(diffTilbudRevisions(fromRev, toRev));
+}
@@ -0,0 +1,10 @@
+import { NextRequest, NextResponse } from "next/server";
+import { listTilbudRevisions } from "@/lib/tilbud/revision-store";
+
+export const runtime = "nodejs";
+
+export async function GET(_: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  const items = await listTilbudRevisions(id);
+  return NextResponse.json({ items, total: items.length });
+}
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from "next/server";
 import { getTilbud, upsertTilbud } from "@/lib/tilbud/store";
+import { getTilbudRevision } from "@/lib/tilbud/revision-store";
 import { generateTilbudPdf } from "@/lib/tilbud/pdf-generator";
 import { tilbudUpsertInputSchema } from "@/lib/tilbud/types";
 import { logger } from "@/lib/logger";
@@ -15,7 +16,15 @@ export async function POST(req: NextRequest) {
   try {
     const body = await req.json();
     let tilbud;
-    if (typeof body?.id === "string" && body.id) {
+    const revision = Number(body?.revision || 0);
+    if (typeof body?.id === "string" && body.id && revision > 0) {
+      // Historisk version — genskab PDF'en præcis som den blev sendt
+      const rev = await getTilbudRevision(body.id, revision);
+      if (!rev) {
+        return NextResponse.json({ error: "Revision ikke fundet" }, { status: 404 });
+      }
+      tilbud = rev.snapshot;
+    } else if (typeof body?.id === "string" && body.id) {
       tilbud = await getTilbud(body.id);
       if (!tilbud) {
         return NextResponse.json({ error: "Tilbud ikke fundet" }, { status: 404 });
@@ -33,11 +42,13 @@ export async function POST(req: NextRequest) {
     const pdf = await generateTilbudPdf(tilbud);
     const safeClient = sanitizeFilePart(tilbud.clientName || "kunde");
     const safeNo = sanitizeFilePart(tilbud.offerNumber || "tilbud");
-    const filename = `Tilbud-${safeClient}-${safeNo}.pdf`;
+    const filename = revision > 0
+      ? `Tilbud-${safeClient}-${safeNo}-v${revision}.pdf`
+      : `Tilbud-${safeClient}-${safeNo}.pdf`;
 
     // Log note on HubSpot contact (fire-and-forget, searches by clientName as fallback)
     // Tilbud stores client name, not email – use yourReference as potential email if set
-    const maybeEmail = (tilbud.yourReference || "").includes("@") ? tilbud.yourReference : null;
+    const maybeEmail = !revision && (tilbud.yourReference || "").includes("@") ? tilbud.yourReference : null;
     if (maybeEmail) {
       findContactByEmail(maybeEmail).then((contact) => {
         if (contact?.id) {
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from "next/server";
 import { listTilbud, upsertTilbud } from "@/lib/tilbud/store";
 import { tilbudStatusSchema, tilbudUpsertInputSchema } from "@/lib/tilbud/types";
+import { describeConflict, findTilbudBookingConflicts } from "@/lib/booking/service";
 import { logger } from "@/lib/logger";
 
 export const runtime = "nodejs";
@@ -24,6 +25,19 @@ export async function POST(req: NextRequest) {
       return NextResponse.json({ error: parsed.error.issues[0]?.message || "Ugyldige data" }, { status: 400 });
     }
 
+    if (!body?.allowOverlap) {
+      const conflicts = await findTilbudBookingConflicts(parsed.data);
+      if (conflicts.length > 0) {
+        return NextResponse.json(
+          {
+            error: `Placeringen er allerede booket: ${conflicts.map(describeConflict).join("; ")}`,
+            conflicts,
+          },
+          { status: 409 }
+        );
+      }
+    }
+
     const saved = await upsertTilbud(parsed.data);
     return NextResponse.json({ success: true, tilbud: saved });
   } catch (error) {
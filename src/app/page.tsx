@@ -29,6 +29,7 @@ import type { OOHPanelProps } from "../components/OOHPanel";
 import { AuthProvider, useAuth } from "../contexts/AuthContext";
 import { DashboardProvider, useDashboard } from "../contexts/DashboardContext";
 import type { TabId } from "../contexts/DashboardContext";
+import type { ResearchSource, ResearchSourceProvenance } from "@/types";
 import PinGate from "../components/PinGate";
 import { ScaffoldingTab } from "../components/tabs/ScaffoldingTab";
 import { HomeTab } from "../components/tabs/HomeTab";
@@ -45,6 +46,9 @@ import { OutreachTab } from "../components/tabs/OutreachTab";
 import { SettingsTab } from "../components/tabs/SettingsTab";
 import { LeadSourcingTab } from "../components/tabs/LeadSourcingTab";
 import { LeadScannerTab } from "../components/tabs/LeadScannerTab";
+import { PortfoliosTab } from "../components/tabs/PortfoliosTab";
+import { AdministratorsTab } from "../components/tabs/AdministratorsTab";
+import { DedupeTab } from "../components/tabs/DedupeTab";
 import { ProgressBar, LogPanel, ResultStat, PipelineStat, PropertyCard } from "@/components/dashboard";
 import { BriefingPanel } from "@/components/dashboard/BriefingPanel";
 import { FollowUpPanel } from "@/components/dashboard/FollowUpPanel";
@@ -165,6 +169,7 @@ interface ProgressEvent {
   candidates?: ScoredCandidateData[];
   result?: DiscoveryResultData;
   stats?: Record<string, number>;
+  sources?: ResearchSourceProvenance[];
   timestamp: number;
 }
 
@@ -277,6 +282,9 @@ const NAV_TABS: NavTab[] = [
     children: [
       { id: "properties", label: "Pipeline" },
       { id: "research", label: "Research" },
+      { id: "portfolios", label: "Ejere" },
+      { id: "administrators", label: "Administratorer" },
+      { id: "dedupe", label: "Dubletter" },
     ] },
   { id: "lead_sourcing", label: "Leads", desc: "Lead funnel", icon: "M18 18.72a9.094 9.094 0 003.741-.479 3 3 0 00-4.682-2.72m.94 3.198l.001.031c0 .225-.012.447-.037.666A11.944 11.944 0 0112 21c-2.17 0-4.207-.576-5.963-1.584A6.062 6.062 0 016 18.719m12 0a5.971 5.971 0 00-.941-3.197m0 0A5.995 5.995 0 0012 12.75a5.995 5.995 0 00-5.058 2.772m0 0a3 3 0 00-4.681 2.72 8.986 8.986 0 003.74.477m.94-3.197a5.971 5.971 0 00-.94 3.197M15 6.75a3 3 0 11-6 0 3 3 0 016 0zm6 3a2.25 2.25 0 11-4.5 0 2.25 2.25 0 014.5 0zm-13.5 0a2.25 2.25 0 11-4.5 0 2.25 2.25 0 014.5 0z",
     children: [
@@ -495,6 +503,7 @@ function DashboardContent() {
 
   // Research
   const [researchRunning, setResearchRunning] = useState<string | null>(null);
+  const [lastResearch, setLastResearch] = useState<{ id: string; staged: boolean } | null>(null);
   const [markReadyLoading, setMarkReadyLoading] = useState<string | null>(null);
   const [researchEvents, setResearchEvents] = useState<ProgressEvent[]>([]);
   const [researchPct, setResearchPct] = useState(0);
@@ -708,8 +717,12 @@ function DashboardContent() {
 
   // Discovery, Scaffolding, StreetAgent are now managed by hooks above.
 
-  const triggerResearch = async (propertyId?: string, opts?: { staged?: boolean }) => {
+  const triggerResearch = async (
+    propertyId?: string,
+    opts?: { staged?: boolean; refreshSources?: ResearchSource[] | "all" }
+  ) => {
     const id = propertyId || "all";
+    setLastResearch(propertyId ? { id: propertyId, staged: opts?.staged === true } : null);
     const controller = new AbortController();
     researchAbortRef.current = controller;
     setResearchRunning(id);
@@ -724,7 +737,7 @@ function DashboardContent() {
     );
 
     const postBody = propertyId
-      ? (opts?.staged ? { stagedPropertyId: propertyId } : { propertyId })
+      ? { ...(opts?.staged ? { stagedPropertyId: propertyId } : { propertyId }), refreshSources: opts?.refreshSources }
       : undefined;
 
     await researchConsumeSSE(
@@ -1371,6 +1384,9 @@ function DashboardContent() {
               researchPct={researchPct}
               researchLogRef={researchLogRef}
               triggerResearch={triggerResearch}
+              rerunResearch={lastResearch
+                ? (refreshSources) => triggerResearch(lastResearch.id, { staged: lastResearch.staged, refreshSources })
+                : undefined}
               stopResearch={stopResearch}
               currentResearchProperty={currentResearchProperty}
               researchSummary={researchSummary}
@@ -1437,6 +1453,9 @@ function DashboardContent() {
 
           {activeTab === "lead_sourcing" && <LeadSourcingTab />}
           {activeTab === "lead_scanner" && <LeadScannerTab />}
+          {activeTab === "portfolios" && <PortfoliosTab />}
+          {activeTab === "administrators" && <AdministratorsTab />}
+          {activeTab === "dedupe" && <DedupeTab />}
           {activeTab === "settings" && <SettingsTab />}
         </div>
 
@@ -0,0 +1,110 @@
+import type { Metadata } from "next";
+import { loadAcceptanceView, type AcceptanceViewState } from "@/lib/tilbud/acceptance";
+import { calcLineTotals } from "@/lib/tilbud/calculations";
+import { HYDE_ADDRESS_LINE, HYDE_CITY_LINE, HYDE_COMPANY_NAME } from "@/lib/tilbud/branding";
+import { TilbudAcceptanceForm } from "@/components/TilbudAcceptanceForm";
+
+export const dynamic = "force-dynamic";
+
+export const metadata: Metadata = {
+  title: `Tilbud – ${HYDE_COMPANY_NAME}`,
+  robots: { index: false, follow: false },
+};
+
+const STATE_MESSAGE: Partial<Record<AcceptanceViewState, string>> = {
+  invalid: "Linket er ugyldigt. Kontakt os for at få et nyt.",
+  expired: "Tilbuddets gyldighed er udløbet. Kontakt os for et opdateret tilbud.",
+  not_found: "Tilbuddet findes ikke længere.",
+  not_final: "Tilbuddet er under revision og kan ikke accepteres lige nu.",
+  revised: "Tilbuddet er ændret efter det blev sendt. Kontakt os for at få et nyt link.",
+};
+
+function fmt(value: number, currency = "DKK") {
+  return `${value.toLocaleString("da-DK", { minimumFractionDigits: 2, maximumFractionDigits: 2 })} ${currency}`;
+}
+
+/**
+ * Public, token-gated page where the customer accepts or rejects a
+ * final tilbud. Lives outside /api, so it is not behind the PIN gate.
+ */
+export default async function TilbudAcceptPage({ params }: { params: Promise<{ token: string }> }) {
+  const { token } = await params;
+  const view = await loadAcceptanceView(token);
+  const { tilbud, totals, acceptance } = view;
+
+  return (
+    <main className="mx-auto max-w-3xl px-4 py-10 space-y-6">
+      <header className="flex items-start justify-between gap-4">
+        <div>
+          <p className="text-lg font-bold text-slate-900">{HYDE_COMPANY_NAME}</p>
+          <p className="text-xs text-slate-500">{HYDE_ADDRESS_LINE}, {HYDE_CITY_LINE}</p>
+        </div>
+        {tilbud && (
+          <div className="text-right text-xs text-slate-500">
+            <p className="font-semibold text-slate-800">Tilbud {tilbud.offerNumber}</p>
+            <p>Dato: {tilbud.offerDate}</p>
+            {tilbud.validUntil && <p>Gyldig til: {tilbud.validUntil}</p>}
+          </div>
+        )}
+      </header>
+
+      {STATE_MESSAGE[view.state] && (
+        <div className="surface-card p-6 text-sm text-slate-700">{STATE_MESSAGE[view.state]}</div>
+      )}
+
+      {tilbud && totals && view.state !== "not_final" && view.state !== "revised" && (
+        <section className="surface-card p-6 space-y-4">
+          <div>
+            <h1 className="text-base font-bold text-slate-900">{tilbud.title}</h1>
+            <p className="text-xs text-slate-500">
+              {tilbud.clientName}{tilbud.campaignName ? ` · ${tilbud.campaignName}` : ""}
+            </p>
+          </div>
+          <table className="w-full text-xs">
+            <thead>
+              <tr className="border-b border-slate-200 text-left text-slate-500">
+                <th className="py-1">Linje</th>
+                <th className="py-1">Periode</th>
+                <th className="py-1 text-right">Pris</th>
+              </tr>
+            </thead>
+            <tbody>
+              {tilbud.lines.map((line) => (
+                <tr key={line.id} className="border-b border-slate-100">
+                  <td className="py-1 text-slate-800">{line.name}{line.description ? <span className="block text-slate-400">{line.description}</span> : null}</td>
+                  <td className="py-1 text-slate-500">{line.fromWeek != null && line.toWeek != null ? `Uge ${line.fromWeek} – ${line.toWeek}` : "-"}</td>
+                  <td className="py-1 text-right tabular-nums">{fmt(calcLineTotals(line).lineTotal, tilbud.currency)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <div className="ml-auto w-64 space-y-1 text-xs">
+            <div className="flex justify-between text-slate-500"><span>Total ekskl. moms</span><span className="tabular-nums">{fmt(totals.totalBeforeVat, tilbud.currency)}</span></div>
+            <div className="flex justify-between text-slate-500"><span>Moms</span><span className="tabular-nums">{fmt(totals.vatAmount, tilbud.currency)}</span></div>
+            <div className="flex justify-between border-t border-slate-200 pt-1 font-bold text-slate-900"><span>Total inkl. moms</span><span className="tabular-nums">{fmt(totals.grandTotal, tilbud.currency)}</span></div>
+          </div>
+          {tilbud.terms && <p className="text-[11px] text-slate-500 whitespace-pre-line">{tilbud.terms}</p>}
+          {view.state === "open" && (
+            <a href={`/api/public/tilbud/pdf?token=${encodeURIComponent(token)}`} className="text-xs text-indigo-600 underline" target="_blank" rel="noreferrer">
+              Se tilbuddet som PDF
+            </a>
+          )}
+        </section>
+      )}
+
+      {view.state === "answered" && acceptance && (
+        <div className={`rounded-lg border p-4 text-sm ${acceptance.decision === "accepted" ? "border-emerald-300 bg-emerald-50 text-emerald-800" : "border-slate-300 bg-slate-50 text-slate-700"}`}>
+          Tilbuddet blev {acceptance.decision === "accepted" ? "accepteret" : "afvist"} af {acceptance.signerName}
+          {acceptance.signerTitle ? ` (${acceptance.signerTitle})` : ""} den {new Date(acceptance.createdAt).toLocaleString("da-DK")}.
+        </div>
+      )}
+
+      {view.state === "open" && (
+        <section className="surface-card p-6">
+          <h2 className="mb-3 text-sm font-bold text-slate-900">Dit svar</h2>
+          <TilbudAcceptanceForm token={token} />
+        </section>
+      )}
+    </main>
+  );
+}
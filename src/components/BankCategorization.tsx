@@ -0,0 +1,373 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import {
+  BANK_CATEGORIES,
+  BANK_CATEGORY_COLOR,
+  BANK_CATEGORY_LABEL,
+  type BankCategory,
+  type BankCategoryRule,
+  type BankCategoryRuleInput,
+  type BankRuleSuggestion,
+  type BankTransaction,
+} from "@/lib/bank/types";
+
+interface BankCategorizationProps {
+  /** Called after categories changed so the summary can refetch. */
+  onChanged: () => void;
+  onToast: (message: string, type: "success" | "error" | "info") => void;
+}
+
+const CI = "h-7 w-full rounded-md border border-slate-300 bg-white px-2 text-[11px] text-slate-900 focus:outline-none focus:ring-2 focus:ring-violet-300";
+const LABEL = "text-[10px] font-semibold uppercase tracking-wide text-slate-500";
+
+const SIGN_LABEL: Record<BankCategoryRule["sign"], string> = {
+  any: "Ind og ud",
+  in: "Kun ind",
+  out: "Kun ud",
+};
+
+const EMPTY_RULE: BankCategoryRuleInput = {
+  name: "",
+  pattern: "",
+  matchType: "contains",
+  sign: "any",
+  minAmount: null,
+  maxAmount: null,
+  account: "",
+  category: "leverandoer",
+  priority: 100,
+  enabled: true,
+};
+
+function fmtKr(n: number) {
+  return `${n.toLocaleString("da-DK", { minimumFractionDigits: 2, maximumFractionDigits: 2 })} kr`;
+}
+
+function CategorySelect({ value, onChange }: { value: BankCategory; onChange: (c: BankCategory) => void }) {
+  return (
+    <select className={CI} value={value} onChange={(e) => onChange(e.target.value as BankCategory)}>
+      {BANK_CATEGORIES.map((c) => (
+        <option key={c} value={c}>{BANK_CATEGORY_LABEL[c]}</option>
+      ))}
+    </select>
+  );
+}
+
+/** Transaktioner med manuel kategori + brugerdefinerede kategoriregler. */
+export function BankCategorization({ onChanged, onToast }: BankCategorizationProps) {
+  const [txs, setTxs] = useState<BankTransaction[]>([]);
+  const [search, setSearch] = useState("");
+  const [filter, setFilter] = useState<BankCategory | "">("");
+  const [rules, setRules] = useState<BankCategoryRule[]>([]);
+  const [suggestions, setSuggestions] = useState<BankRuleSuggestion[]>([]);
+  const [draft, setDraft] = useState<BankCategoryRuleInput | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [running, setRunning] = useState(false);
+
+  const fetchTxs = useCallback(async () => {
+    const qs = new URLSearchParams({ limit: "100" });
+    if (search.trim()) qs.set("q", search.trim());
+    if (filter) qs.set("category", filter);
+    try {
+      const r = await fetch(`/api/bank/transactions?${qs}`);
+      const d = (await r.json()) as { items?: BankTransaction[] };
+      setTxs(d.items || []);
+    } catch {
+      setTxs([]);
+    }
+  }, [search, filter]);
+
+  const fetchRules = useCallback(async () => {
+    try {
+      const [r1, r2] = await Promise.all([fetch("/api/bank/rules"), fetch("/api/bank/rules/suggestions")]);
+      const d1 = (await r1.json()) as { items?: BankCategoryRule[] };
+      const d2 = (await r2.json()) as { items?: BankRuleSuggestion[] };
+      setRules(d1.items || []);
+      setSuggestions(d2.items || []);
+    } catch {
+      setRules([]);
+      setSuggestions([]);
+    }
+  }, []);
+
+  useEffect(() => {
+    const t = setTimeout(fetchTxs, 250); // debounce søgning
+    return () => clearTimeout(t);
+  }, [fetchTxs]);
+
+  useEffect(() => {
+    fetchRules();
+  }, [fetchRules]);
+
+  const recategorizeTx = async (tx: BankTransaction, category: BankCategory) => {
+    const r = await fetch(`/api/bank/transactions/${tx.id}`, {
+      method: "PATCH",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ category }),
+    });
+    const d = (await r.json()) as { transaction?: BankTransaction; error?: string };
+    if (!r.ok || !d.transaction) { onToast(d.error || "Kunne ikke ændre kategori", "error"); return; }
+    setTxs((prev) => prev.map((t) => (t.id === tx.id ? d.transaction! : t)));
+    onChanged();
+    fetchRules();
+  };
+
+  const saveRule = async () => {
+    if (!draft?.pattern.trim()) { onToast("Udfyld mønster", "error"); return; }
+    const r = await fetch(editingId ? `/api/bank/rules/${editingId}` : "/api/bank/rules", {
+      method: editingId ? "PATCH" : "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(draft),
+    });
+    const d = (await r.json()) as { rule?: BankCategoryRule; error?: string };
+    if (!r.ok || !d.rule) { onToast(d.error || "Kunne ikke gemme regel", "error"); return; }
+    setDraft(null);
+    setEditingId(null);
+    await fetchRules();
+    onToast("Regel gemt — kør 'Gen-kategorisér' for at anvende den på eksisterende transaktioner", "success");
+  };
+
+  const toggleRule = async (rule: BankCategoryRule) => {
+    await fetch(`/api/bank/rules/${rule.id}`, {
+      method: "PATCH",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ enabled: !rule.enabled }),
+    });
+    await fetchRules();
+  };
+
+  const deleteRule = async (rule: BankCategoryRule) => {
+    if (!confirm(`Slet reglen "${rule.name || rule.pattern}"?`)) return;
+    await fetch(`/api/bank/rules/${rule.id}`, { method: "DELETE" });
+    await fetchRules();
+  };
+
+  const recategorize = async () => {
+    setRunning(true);
+    try {
+      const r = await fetch("/api/bank/recategorize", { method: "POST" });
+      const d = (await r.json()) as { changed?: number; scanned?: number; error?: string };
+      if (!r.ok) { onToast(d.error || "Gen-kategorisering fejlede", "error"); return; }
+      onToast(`${d.changed} af ${d.scanned} transaktioner fik ny kategori`, "success");
+      await Promise.all([fetchTxs(), fetchRules()]);
+      onChanged();
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  const field = <K extends keyof BankCategoryRuleInput>(key: K, value: BankCategoryRuleInput[K]) =>
+    setDraft((d) => (d ? { ...d, [key]: value } : d));
+
+  const numberOrNull = (v: string) => (v.trim() === "" ? null : Math.abs(Number(v)) || 0);
+
+  return (
+    <div className="rounded-lg border border-slate-300 bg-white p-4 space-y-4">
+      {/* Regler */}
+      <div>
+        <div className="flex items-center justify-between gap-2 mb-2">
+          <div>
+            <div className="text-[12px] font-bold text-slate-900">Kategoriregler</div>
+            <div className="text-[10px] text-slate-400">Prøves i prioritetsorden før de indbyggede regler. Manuelle valg røres ikke.</div>
+          </div>
+          <div className="flex gap-1.5">
+            <button
+              onClick={() => { setDraft({ ...EMPTY_RULE }); setEditingId(null); }}
+              className="h-7 rounded-md border border-slate-300 bg-white px-2 text-[11px] font-semibold text-slate-700 hover:bg-slate-50"
+            >
+              + Ny regel
+            </button>
+            <button
+              onClick={recategorize}
+              disabled={running}
+              className="h-7 rounded-md bg-slate-900 px-3 text-[11px] font-semibold text-white hover:bg-slate-700 disabled:opacity-60"
+            >
+              {running ? "Kører..." : "Gen-kategorisér"}
+            </button>
+          </div>
+        </div>
+
+        {draft && (
+          <div className="mb-2 grid grid-cols-2 md:grid-cols-4 gap-2 rounded-md border border-violet-200 bg-violet-50/40 p-2">
+            <label className="block md:col-span-2">
+              <span className={LABEL}>Mønster</span>
+              <input className={CI} value={draft.pattern} onChange={(e) => field("pattern", e.target.value)} placeholder="fx monsterprint" />
+            </label>
+            <label className="block">
+              <span className={LABEL}>Match</span>
+              <select className={CI} value={draft.matchType} onChange={(e) => field("matchType", e.target.value as BankCategoryRuleInput["matchType"])}>
+                <option value="contains">Indeholder</option>
+                <option value="regex">Regulært udtryk</option>
+              </select>
+            </label>
+            <label className="block">
+              <span className={LABEL}>Kategori</span>
+              <CategorySelect value={draft.category} onChange={(c) => field("category", c)} />
+            </label>
+            <label className="block">
+              <span className={LABEL}>Retning</span>
+              <select className={CI} value={draft.sign} onChange={(e) => field("sign", e.target.value as BankCategoryRuleInput["sign"])}>
+                {(Object.keys(SIGN_LABEL) as Array<BankCategoryRule["sign"]>).map((s) => (
+                  <option key={s} value={s}>{SIGN_LABEL[s]}</option>
+                ))}
+              </select>
+            </label>
+            <label className="block">
+              <span className={LABEL}>Min. beløb</span>
+              <input className={CI} type="number" min={0} value={draft.minAmount ?? ""} onChange={(e) => field("minAmount", numberOrNull(e.target.value))} />
+            </label>
+            <label className="block">
+              <span className={LABEL}>Maks. beløb</span>
+              <input className={CI} type="number" min={0} value={draft.maxAmount ?? ""} onChange={(e) => field("maxAmount", numberOrNull(e.target.value))} />
+            </label>
+            <label className="block">
+              <span className={LABEL}>Konto (tom = alle)</span>
+              <input className={CI} value={draft.account} onChange={(e) => field("account", e.target.value)} />
+            </label>
+            <label className="block">
+              <span className={LABEL}>Navn</span>
+              <input className={CI} value={draft.name} onChange={(e) => field("name", e.target.value)} />
+            </label>
+            <label className="block">
+              <span className={LABEL}>Prioritet</span>
+              <input className={CI} type="number" value={draft.priority} onChange={(e) => field("priority", Math.round(Number(e.target.value) || 0))} />
+            </label>
+            <div className="md:col-span-2 flex items-end justify-end gap-2">
+              <button onClick={() => { setDraft(null); setEditingId(null); }} className="h-7 rounded-md px-3 text-[11px] text-slate-600 hover:bg-slate-100">Annullér</button>
+              <button onClick={saveRule} className="h-7 rounded-md bg-slate-900 px-3 text-[11px] font-semibold text-white hover:bg-slate-700">Gem regel</button>
+            </div>
+          </div>
+        )}
+
+        {rules.length === 0 ? (
+          <p className="text-[10px] text-slate-400">Ingen regler endnu.</p>
+        ) : (
+          <div className="rounded-md border border-slate-200 overflow-hidden">
+            <table className="w-full text-[11px]">
+              <thead className="bg-slate-50">
+                <tr className="text-left text-[10px] text-slate-500">
+                  <th className="px-2 py-1.5 font-semibold">Mønster</th>
+                  <th className="px-2 py-1.5 font-semibold">Betingelser</th>
+                  <th className="px-2 py-1.5 font-semibold">Kategori</th>
+                  <th className="px-2 py-1.5 font-semibold text-right">Hits</th>
+                  <th className="px-2 py-1.5" />
+                </tr>
+              </thead>
+              <tbody>
+                {rules.map((rule) => (
+                  <tr key={rule.id} className={`border-t border-slate-100 ${rule.enabled ? "" : "opacity-50"}`}>
+                    <td className="px-2 py-1.5">
+                      <span className="font-mono text-slate-800">{rule.matchType === "regex" ? `/${rule.pattern}/` : rule.pattern}</span>
+                      {rule.name && <span className="ml-1 text-slate-400">{rule.name}</span>}
+                    </td>
+                    <td className="px-2 py-1.5 text-slate-500">
+                      {[
+                        rule.sign !== "any" ? SIGN_LABEL[rule.sign] : "",
+                        rule.minAmount != null ? `≥ ${fmtKr(rule.minAmount)}` : "",
+                        rule.maxAmount != null ? `≤ ${fmtKr(rule.maxAmount)}` : "",
+                        rule.account ? `konto ${rule.account}` : "",
+                        `prio ${rule.priority}`,
+                      ].filter(Boolean).join(" · ")}
+                    </td>
+                    <td className="px-2 py-1.5">
+                      <span className={`rounded border px-1 text-[9px] ${BANK_CATEGORY_COLOR[rule.category]}`}>{BANK_CATEGORY_LABEL[rule.category]}</span>
+                    </td>
+                    <td className="px-2 py-1.5 text-right tabular-nums text-slate-700" title={rule.lastHitAt ? `Senest ${rule.lastHitAt.slice(0, 10)}` : "Aldrig"}>
+                      {rule.hitCount}
+                    </td>
+                    <td className="px-2 py-1.5 text-right whitespace-nowrap">
+                      <button
+                        onClick={() => {
+                          setDraft({
+                            name: rule.name,
+                            pattern: rule.pattern,
+                            matchType: rule.matchType,
+                            sign: rule.sign,
+                            minAmount: rule.minAmount ?? null,
+                            maxAmount: rule.maxAmount ?? null,
+                            account: rule.account,
+                            category: rule.category,
+                            priority: rule.priority,
+                            enabled: rule.enabled,
+                          });
+                          setEditingId(rule.id);
+                        }}
+                        className="rounded px-1.5 py-0.5 text-[10px] text-slate-600 hover:bg-slate-100"
+                      >
+                        Redigér
+                      </button>
+                      <button onClick={() => toggleRule(rule)} className="rounded px-1.5 py-0.5 text-[10px] text-slate-600 hover:bg-slate-100">
+                        {rule.enabled ? "Slå fra" : "Slå til"}
+                      </button>
+                      <button onClick={() => deleteRule(rule)} className="rounded px-1.5 py-0.5 text-[10px] text-rose-600 hover:bg-rose-50">Slet</button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        {suggestions.length > 0 && (
+          <div className="mt-2 rounded-md border border-amber-200 bg-amber-50/60 p-2">
+            <div className={LABEL + " mb-1"}>Forslag fra jeres manuelle rettelser</div>
+            {suggestions.map((s) => (
+              <div key={`${s.pattern}-${s.category}`} className="flex items-center justify-between gap-2 py-0.5 text-[11px]">
+                <div className="min-w-0 truncate">
+                  <span className="font-mono text-slate-800">{s.pattern}</span>
+                  <span className="text-slate-500"> → {BANK_CATEGORY_LABEL[s.category]} · {s.support} transaktion{s.support === 1 ? "" : "er"}</span>
+                  <span className="text-slate-400"> ({s.examples.join(", ")})</span>
+                </div>
+                <button
+                  onClick={() => { setDraft({ ...EMPTY_RULE, pattern: s.pattern, sign: s.sign, category: s.category }); setEditingId(null); }}
+                  className="shrink-0 rounded px-1.5 py-0.5 text-[10px] font-semibold text-amber-800 hover:bg-amber-100"
+                >
+                  Opret regel
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* Transaktioner */}
+      <div>
+        <div className="flex items-center justify-between gap-2 mb-2">
+          <div className="text-[12px] font-bold text-slate-900">Transaktioner</div>
+          <div className="flex gap-1.5">
+            <input className={CI + " w-44"} placeholder="Søg i tekst" value={search} onChange={(e) => setSearch(e.target.value)} />
+            <select className={CI + " w-36"} value={filter} onChange={(e) => setFilter(e.target.value as BankCategory | "")}>
+              <option value="">Alle kategorier</option>
+              {BANK_CATEGORIES.map((c) => (
+                <option key={c} value={c}>{BANK_CATEGORY_LABEL[c]}</option>
+              ))}
+            </select>
+          </div>
+        </div>
+        <div className="max-h-80 overflow-y-auto rounded-md border border-slate-200">
+          <table className="w-full text-[11px]">
+            <tbody>
+              {txs.map((t) => (
+                <tr key={t.id} className="border-t border-slate-100 first:border-t-0">
+                  <td className="px-2 py-1 whitespace-nowrap tabular-nums text-slate-500">{t.postedDate}</td>
+                  <td className="px-2 py-1 max-w-[280px] truncate text-slate-800" title={t.title}>{t.title}</td>
+                  <td className={`px-2 py-1 text-right tabular-nums ${t.amount >= 0 ? "text-emerald-700" : "text-slate-800"}`}>{fmtKr(t.amount)}</td>
+                  <td className="px-2 py-1 w-40">
+                    <CategorySelect value={t.category} onChange={(c) => recategorizeTx(t, c)} />
+                  </td>
+                  <td className="px-2 py-1 w-14 text-[9px] text-slate-400">
+                    {t.categorySource === "manual" ? "manuel" : t.categorySource === "rule" ? "regel" : ""}
+                  </td>
+                </tr>
+              ))}
+              {txs.length === 0 && (
+                <tr><td className="px-2 py-3 text-center text-[10px] text-slate-400">Ingen transaktioner</td></tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,266 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import {
+  STATEMENT_FORMATS,
+  STATEMENT_FORMAT_LABEL,
+  type CsvMappingProfile,
+  type StatementFormat,
+} from "@/lib/bank/formats/types";
+import { BANK_CATEGORY_COLOR, BANK_CATEGORY_LABEL, type BankTransaction } from "@/lib/bank/types";
+
+/** Response from POST /api/bank/import (final import, not preview). */
+export interface BankImportResult {
+  success?: boolean;
+  imported?: number;
+  skipped?: number;
+  formatLabel?: string;
+  closingBalance?: number | null;
+  error?: string;
+  autoMatched?: Array<{
+    id: string;
+    label: string;
+    newStatus: "modtaget" | "betalt";
+    matchedTransactionTitle: string;
+  }>;
+  invoicePayments?: Array<{ invoiceNumber: string; amount: number }>;
+}
+
+interface PreviewResponse {
+  success?: boolean;
+  error?: string;
+  needsMapping?: boolean;
+  headers?: string[];
+  format?: StatementFormat;
+  formatLabel?: string;
+  accountHolder?: string;
+  accountNumber?: string;
+  closingBalance?: number | null;
+  total?: number;
+  newCount?: number;
+  duplicateCount?: number;
+  transactions?: Array<BankTransaction & { duplicate: boolean }>;
+}
+
+interface BankImportDialogProps {
+  file: File;
+  onClose: () => void;
+  onImported: (result: BankImportResult) => void;
+}
+
+const CI = "h-7 w-full rounded-md border border-slate-300 bg-white px-2 text-[11px] text-slate-900 focus:outline-none focus:ring-2 focus:ring-violet-300";
+const LABEL = "text-[10px] font-semibold uppercase tracking-wide text-slate-500";
+
+function fmtKr(n: number) {
+  return `${n.toLocaleString("da-DK", { minimumFractionDigits: 2, maximumFractionDigits: 2 })} kr`;
+}
+
+/** Upload → forhåndsvisning (format, dubletter) → import. */
+export function BankImportDialog({ file, onClose, onImported }: BankImportDialogProps) {
+  const [loading, setLoading] = useState(true);
+  const [importing, setImporting] = useState(false);
+  const [preview, setPreview] = useState<PreviewResponse | null>(null);
+  const [format, setFormat] = useState<StatementFormat | "">("");
+  const [headers, setHeaders] = useState<string[]>([]);
+  const [mapping, setMapping] = useState<Partial<CsvMappingProfile> | null>(null);
+
+  const body = useCallback(
+    (previewOnly: boolean) => {
+      const fd = new FormData();
+      fd.append("file", file);
+      if (previewOnly) fd.append("preview", "true");
+      if (mapping) fd.append("mapping", JSON.stringify(mapping));
+      else if (format) fd.append("format", format);
+      return fd;
+    },
+    [file, format, mapping]
+  );
+
+  const runPreview = useCallback(async () => {
+    setLoading(true);
+    try {
+      const r = await fetch("/api/bank/import", { method: "POST", body: body(true) });
+      const d = (await r.json()) as PreviewResponse;
+      setPreview(d);
+      if (d.needsMapping && d.headers) {
+        setHeaders(d.headers);
+        setMapping((m) => m ?? { textColumns: [] });
+      }
+    } catch {
+      setPreview({ error: "Kunne ikke læse filen" });
+    } finally {
+      setLoading(false);
+    }
+  }, [body]);
+
+  useEffect(() => {
+    runPreview();
+    // Kun ved åbning — format/mapping-ændringer kører via "Opdatér"
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  const confirm = async () => {
+    setImporting(true);
+    try {
+      const r = await fetch("/api/bank/import", { method: "POST", body: body(false) });
+      const d = (await r.json()) as BankImportResult;
+      if (!r.ok || !d.success) {
+        setPreview((p) => ({ ...p, error: d.error || "Import fejlede" }));
+        return;
+      }
+      onImported(d);
+    } catch {
+      setPreview((p) => ({ ...p, error: "Import fejlede" }));
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  const columnSelect = (label: string, value: string | undefined, onChange: (v: string | undefined) => void, optional = false) => (
+    <label className="block">
+      <span className={LABEL}>{label}</span>
+      <select className={CI} value={value || ""} onChange={(e) => onChange(e.target.value || undefined)}>
+        <option value="">{optional ? "— ingen —" : "Vælg kolonne"}</option>
+        {headers.map((h) => (
+          <option key={h} value={h}>{h}</option>
+        ))}
+      </select>
+    </label>
+  );
+
+  const ok = preview?.success && !preview.error;
+  const rows = preview?.transactions || [];
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-slate-900/60 backdrop-blur-sm p-4" onClick={onClose}>
+      <div className="bg-white rounded-xl shadow-2xl w-full max-w-3xl max-h-[90vh] overflow-hidden flex flex-col" onClick={(ev) => ev.stopPropagation()}>
+        <div className="px-5 py-3 border-b border-slate-200 flex items-start justify-between">
+          <div>
+            <div className="text-base font-bold text-slate-900">Importér kontoudtog</div>
+            <div className="text-[11px] text-slate-500 mt-0.5">
+              {file.name}
+              {ok && preview.formatLabel && ` • ${preview.formatLabel}`}
+              {ok && preview.accountNumber && ` • ${preview.accountNumber}`}
+            </div>
+          </div>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600 text-lg leading-none">×</button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto px-5 py-3 space-y-3">
+          <div className="flex items-end gap-2">
+            <label className="block w-60">
+              <span className={LABEL}>Format</span>
+              <select
+                className={CI}
+                value={mapping ? "csv" : format}
+                onChange={(e) => {
+                  const v = e.target.value as StatementFormat | "";
+                  setFormat(v);
+                  if (v !== "csv") setMapping(null);
+                }}
+              >
+                <option value="">Automatisk</option>
+                {STATEMENT_FORMATS.map((f) => (
+                  <option key={f} value={f}>{STATEMENT_FORMAT_LABEL[f]}</option>
+                ))}
+              </select>
+            </label>
+            {headers.length > 0 && !mapping && (
+              <button onClick={() => setMapping({ textColumns: [] })} className="h-7 rounded-md border border-slate-300 px-3 text-[11px] text-slate-700 hover:bg-slate-50">
+                Kolonne-mapping
+              </button>
+            )}
+            <button onClick={runPreview} disabled={loading} className="h-7 rounded-md border border-slate-300 px-3 text-[11px] text-slate-700 hover:bg-slate-50 disabled:opacity-60">
+              Opdatér
+            </button>
+          </div>
+
+          {mapping && headers.length > 0 && (
+            <div className="grid grid-cols-3 gap-2 rounded-md border border-violet-200 bg-violet-50/40 p-2">
+              {columnSelect("Dato", mapping.dateColumn, (v) => setMapping((m) => ({ ...m, dateColumn: v })))}
+              {columnSelect("Tekst", mapping.textColumns?.[0], (v) => setMapping((m) => ({ ...m, textColumns: [v, m?.textColumns?.[1]].filter((c): c is string => !!c) })))}
+              {columnSelect("Ekstra tekst", mapping.textColumns?.[1], (v) => setMapping((m) => ({ ...m, textColumns: [m?.textColumns?.[0], v].filter((c): c is string => !!c) })), true)}
+              {columnSelect("Beløb (±)", mapping.amountColumn, (v) => setMapping((m) => ({ ...m, amountColumn: v })), true)}
+              {columnSelect("Debet (ud)", mapping.debitColumn, (v) => setMapping((m) => ({ ...m, debitColumn: v })), true)}
+              {columnSelect("Kredit (ind)", mapping.creditColumn, (v) => setMapping((m) => ({ ...m, creditColumn: v })), true)}
+              {columnSelect("Saldo", mapping.balanceColumn, (v) => setMapping((m) => ({ ...m, balanceColumn: v })), true)}
+              {columnSelect("Valuta", mapping.currencyColumn, (v) => setMapping((m) => ({ ...m, currencyColumn: v })), true)}
+              <label className="block">
+                <span className={LABEL}>Decimaltegn</span>
+                <select className={CI} value={mapping.decimalSeparator || ""} onChange={(e) => setMapping((m) => ({ ...m, decimalSeparator: (e.target.value || undefined) as "," | "." | undefined }))}>
+                  <option value="">Automatisk</option>
+                  <option value=",">Komma (1.234,56)</option>
+                  <option value=".">Punktum (1,234.56)</option>
+                </select>
+              </label>
+            </div>
+          )}
+
+          {loading ? (
+            <div className="py-8 text-center text-[11px] text-slate-400">Læser fil...</div>
+          ) : preview?.error ? (
+            <div className="rounded-md border border-rose-200 bg-rose-50 px-3 py-2 text-[11px] text-rose-700">{preview.error}</div>
+          ) : ok ? (
+            <>
+              <div className="grid grid-cols-3 gap-2 text-[11px]">
+                <div className="rounded border border-slate-200 p-2">
+                  <div className={LABEL}>Nye</div>
+                  <div className="font-bold text-slate-900 tabular-nums">{preview.newCount}</div>
+                </div>
+                <div className="rounded border border-slate-200 p-2">
+                  <div className={LABEL}>Allerede importeret</div>
+                  <div className="font-bold text-slate-500 tabular-nums">{preview.duplicateCount}</div>
+                </div>
+                <div className="rounded border border-slate-200 p-2">
+                  <div className={LABEL}>Slutsaldo</div>
+                  <div className="font-bold text-slate-900 tabular-nums">
+                    {preview.closingBalance != null ? fmtKr(preview.closingBalance) : "—"}
+                  </div>
+                </div>
+              </div>
+              <table className="w-full text-[11px]">
+                <thead>
+                  <tr className="text-left text-slate-500">
+                    <th className="py-1 font-semibold">Dato</th>
+                    <th className="py-1 font-semibold">Tekst</th>
+                    <th className="py-1 font-semibold">Kategori</th>
+                    <th className="py-1 font-semibold text-right">Beløb</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {rows.map((t) => (
+                    <tr key={t.id} className={`border-t border-slate-100 ${t.duplicate ? "text-slate-400" : "text-slate-800"}`}>
+                      <td className="py-1 pr-2 whitespace-nowrap tabular-nums">{t.postedDate}</td>
+                      <td className="py-1 pr-2 max-w-[320px] truncate">
+                        {t.title}
+                        {t.duplicate && <span className="ml-1 text-[9px] uppercase">dublet</span>}
+                      </td>
+                      <td className="py-1 pr-2">
+                        <span className={`rounded border px-1 text-[9px] ${BANK_CATEGORY_COLOR[t.category]}`}>{BANK_CATEGORY_LABEL[t.category]}</span>
+                      </td>
+                      <td className={`py-1 text-right tabular-nums ${t.amount >= 0 ? "text-emerald-700" : ""}`}>{fmtKr(t.amount)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              {(preview.total ?? 0) > rows.length && (
+                <p className="text-[10px] text-slate-400">Viser {rows.length} af {preview.total} transaktioner.</p>
+              )}
+            </>
+          ) : null}
+        </div>
+
+        <div className="px-5 py-3 border-t border-slate-200 flex justify-end gap-2">
+          <button onClick={onClose} className="h-8 rounded-md px-3 text-[11px] text-slate-600 hover:bg-slate-100">Annullér</button>
+          <button
+            onClick={confirm}
+            disabled={!ok || importing || loading || (preview?.newCount ?? 0) === 0}
+            className="h-8 rounded-md bg-slate-900 px-4 text-[11px] font-semibold text-white hover:bg-slate-700 disabled:opacity-60"
+          >
+            {importing ? "Importerer..." : `Importér ${preview?.newCount ?? 0} nye`}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,203 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import {
+  INVOICE_STATUS_COLOR,
+  INVOICE_STATUS_LABEL,
+  type Invoice,
+  type InvoiceCustomer,
+} from "@/lib/invoice/types";
+
+interface CaseInvoicesProps {
+  caseId: string;
+  /** Prefill for the customer name (bygherre). */
+  defaultCustomerName: string;
+  onToast: (message: string, type: "success" | "error" | "info") => void;
+}
+
+const CI = "h-7 w-full rounded-md border border-slate-300 bg-white px-2 text-[11px] text-slate-900 focus:outline-none focus:ring-2 focus:ring-violet-300";
+const LABEL = "text-[10px] font-semibold uppercase tracking-wide text-slate-500";
+
+function fmtDKK(n: number) {
+  return `${n.toLocaleString("da-DK", { minimumFractionDigits: 2, maximumFractionDigits: 2 })} kr`;
+}
+
+async function download(url: string, filename: string) {
+  const r = await fetch(url);
+  if (!r.ok) {
+    const d = (await r.json().catch(() => ({}))) as { error?: string };
+    throw new Error(d.error || "Download fejlede");
+  }
+  const b = await r.blob();
+  const u = URL.createObjectURL(b);
+  const a = document.createElement("a");
+  a.href = u;
+  a.download = filename;
+  a.click();
+  URL.revokeObjectURL(u);
+}
+
+/** Invoices issued for a case + form to issue the next one. */
+export function CaseInvoices({ caseId, defaultCustomerName, onToast }: CaseInvoicesProps) {
+  const [invoices, setInvoices] = useState<Invoice[]>([]);
+  const [showForm, setShowForm] = useState(false);
+  const [creating, setCreating] = useState(false);
+  const [customer, setCustomer] = useState<Partial<InvoiceCustomer>>({});
+  const [termsDays, setTermsDays] = useState("");
+
+  const fetchInvoices = useCallback(async () => {
+    try {
+      const r = await fetch(`/api/cases/${caseId}/invoices`);
+      const d = (await r.json()) as { items?: Invoice[] };
+      setInvoices(d.items || []);
+    } catch {
+      setInvoices([]);
+    }
+  }, [caseId]);
+
+  useEffect(() => {
+    fetchInvoices();
+    setShowForm(false);
+  }, [fetchInvoices]);
+
+  const openForm = () => {
+    // Genbrug kundedata fra seneste faktura på casen
+    const last = invoices[0]?.customer;
+    setCustomer(last ? { ...last } : { name: defaultCustomerName });
+    setTermsDays("");
+    setShowForm(true);
+  };
+
+  const create = async () => {
+    if (!customer.name?.trim()) { onToast("Udfyld kundenavn", "error"); return; }
+    setCreating(true);
+    try {
+      const r = await fetch(`/api/cases/${caseId}/invoices`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          customer,
+          paymentTermsDays: termsDays.trim() ? Number(termsDays) : undefined,
+        }),
+      });
+      const d = (await r.json()) as { invoice?: Invoice; error?: string };
+      if (!r.ok || !d.invoice) { onToast(d.error || "Kunne ikke oprette faktura", "error"); return; }
+      onToast(`Faktura ${d.invoice.invoiceNumber} oprettet`, "success");
+      setShowForm(false);
+      await fetchInvoices();
+    } catch {
+      onToast("Fejl ved oprettelse af faktura", "error");
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const cancel = async (inv: Invoice) => {
+    if (!confirm(`Annullér faktura ${inv.invoiceNumber}? Linjerne kan derefter faktureres igen.`)) return;
+    const r = await fetch(`/api/invoices/${inv.id}`, {
+      method: "PATCH",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ status: "annulleret" }),
+    });
+    if (!r.ok) { onToast("Kunne ikke annullere", "error"); return; }
+    await fetchInvoices();
+  };
+
+  const registerPayment = async (inv: Invoice) => {
+    const outstanding = Math.round((inv.total - inv.paidAmount) * 100) / 100;
+    const raw = prompt(`Indbetalt beløb på faktura ${inv.invoiceNumber}`, String(outstanding));
+    if (raw == null) return;
+    // Accepter både "1.234,50" og "1234.50"
+    const amount = Number(raw.includes(",") ? raw.replace(/\./g, "").replace(",", ".") : raw);
+    if (!(amount > 0)) { onToast("Ugyldigt beløb", "error"); return; }
+    const r = await fetch(`/api/invoices/${inv.id}/payments`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ amount, postedDate: new Date().toISOString().slice(0, 10) }),
+    });
+    const d = (await r.json()) as { invoice?: Invoice; error?: string };
+    if (!r.ok || !d.invoice) { onToast(d.error || "Kunne ikke registrere betaling", "error"); return; }
+    onToast(`Faktura ${inv.invoiceNumber}: ${INVOICE_STATUS_LABEL[d.invoice.status].toLowerCase()}`, "success");
+    await fetchInvoices();
+  };
+
+  const field = (key: keyof InvoiceCustomer, label: string) => (
+    <label className="block">
+      <span className={LABEL}>{label}</span>
+      <input className={CI} value={customer[key] || ""} onChange={(e) => setCustomer((p) => ({ ...p, [key]: e.target.value }))} />
+    </label>
+  );
+
+  return (
+    <div>
+      <div className="flex items-center justify-between">
+        <div className={LABEL}>Fakturaer</div>
+        {!showForm && (
+          <button onClick={openForm} className="h-6 rounded-md border border-slate-300 bg-white px-2 text-[10px] font-semibold text-slate-700 hover:bg-slate-50">
+            + Opret faktura
+          </button>
+        )}
+      </div>
+
+      {showForm && (
+        <div className="mt-1 space-y-2 rounded-md border border-violet-200 bg-violet-50/40 p-2">
+          <div className="grid grid-cols-2 gap-2">
+            {field("name", "Kunde")}
+            {field("reference", "Att. / reference")}
+            {field("address", "Adresse")}
+            <div className="grid grid-cols-[80px_1fr] gap-2">
+              {field("postalCode", "Postnr.")}
+              {field("city", "By")}
+            </div>
+            {field("cvr", "CVR")}
+            {field("ean", "EAN (offentlig)")}
+            {field("email", "E-mail")}
+            <label className="block">
+              <span className={LABEL}>Betalingsfrist (dage)</span>
+              <input className={CI} type="number" min={0} placeholder="Standard" value={termsDays} onChange={(e) => setTermsDays(e.target.value)} />
+            </label>
+          </div>
+          <p className="text-[10px] text-slate-500">Alle salg og ydelser på casen, som ikke allerede er faktureret, kommer med. Moms fra indstillinger.</p>
+          <div className="flex justify-end gap-2">
+            <button onClick={() => setShowForm(false)} className="h-7 rounded-md px-3 text-[11px] text-slate-600 hover:bg-slate-100">Annullér</button>
+            <button onClick={create} disabled={creating} className="h-7 rounded-md bg-slate-900 px-3 text-[11px] font-semibold text-white hover:bg-slate-700 disabled:opacity-60">
+              {creating ? "Opretter..." : "Udsted faktura"}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {invoices.length === 0 ? (
+        !showForm && <p className="mt-1 text-[10px] text-slate-400">Ingen fakturaer endnu.</p>
+      ) : (
+        <div className="mt-1 space-y-1">
+          {invoices.map((inv) => (
+            <div key={inv.id} className="flex items-center justify-between gap-2 rounded-md border border-slate-200 bg-white px-2 py-1.5 text-[11px]">
+              <div className="min-w-0">
+                <div className="flex items-center gap-1.5">
+                  <span className="font-semibold text-slate-800">#{inv.invoiceNumber}</span>
+                  <span className={`rounded border px-1 text-[9px] ${INVOICE_STATUS_COLOR[inv.status]}`}>{INVOICE_STATUS_LABEL[inv.status]}</span>
+                </div>
+                <div className="text-[10px] text-slate-500">
+                  {inv.issueDate} · forfald {inv.dueDate} · {inv.customer.name}
+                  {inv.status === "delvist_betalt" && ` · betalt ${fmtDKK(inv.paidAmount)}`}
+                </div>
+              </div>
+              <div className="flex shrink-0 items-center gap-1">
+                <span className="font-semibold tabular-nums text-slate-900">{fmtDKK(inv.total)}</span>
+                <button onClick={() => download(`/api/invoices/${inv.id}/pdf`, `Faktura-${inv.invoiceNumber}.pdf`).catch((e) => onToast(e.message, "error"))} className="rounded px-1.5 py-0.5 text-[10px] text-slate-600 hover:bg-slate-100">PDF</button>
+                <button onClick={() => download(`/api/invoices/${inv.id}/xml`, `Faktura-${inv.invoiceNumber}.xml`).catch((e) => onToast(e.message, "error"))} className="rounded px-1.5 py-0.5 text-[10px] text-slate-600 hover:bg-slate-100">OIOUBL</button>
+                {(inv.status === "udstedt" || inv.status === "delvist_betalt") && (
+                  <button onClick={() => registerPayment(inv)} className="rounded px-1.5 py-0.5 text-[10px] text-emerald-700 hover:bg-emerald-50">Betaling</button>
+                )}
+                {inv.status === "udstedt" && inv.paidAmount === 0 && (
+                  <button onClick={() => cancel(inv)} className="rounded px-1.5 py-0.5 text-[10px] text-rose-600 hover:bg-rose-50">Annullér</button>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
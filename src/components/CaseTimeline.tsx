@@ -0,0 +1,194 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import type { BankTransaction } from "@/lib/bank/types";
+import type { CaseTimeline as CaseTimelineData, CaseTimelineEventKind } from "@/lib/case/timeline";
+
+interface CaseTimelineProps {
+  caseId: string;
+  onToast: (message: string, type: "success" | "error" | "info") => void;
+}
+
+const CI = "h-7 w-full rounded-md border border-slate-300 bg-white px-2 text-[11px] text-slate-900 focus:outline-none focus:ring-2 focus:ring-violet-300";
+const LABEL = "text-[10px] font-semibold uppercase tracking-wide text-slate-500";
+
+const KIND_DOT: Record<CaseTimelineEventKind, string> = {
+  tilbud: "bg-slate-400",
+  accept: "bg-emerald-500",
+  status: "bg-violet-500",
+  sale_start: "bg-blue-500",
+  sale_end: "bg-blue-300",
+  invoice: "bg-indigo-500",
+  payment: "bg-emerald-600",
+  supplier_invoice: "bg-amber-500",
+  bank: "bg-rose-400",
+};
+
+function fmtKr(n: number) {
+  return `${Math.round(n).toLocaleString("da-DK")} kr`;
+}
+
+/** Case-tidslinje: budget vs. realiseret, belægning og alle hændelser. */
+export function CaseTimeline({ caseId, onToast }: CaseTimelineProps) {
+  const [timeline, setTimeline] = useState<CaseTimelineData | null>(null);
+  const [open, setOpen] = useState(false);
+  const [search, setSearch] = useState("");
+  const [hits, setHits] = useState<BankTransaction[]>([]);
+
+  const fetchTimeline = useCallback(async () => {
+    try {
+      const r = await fetch(`/api/cases/${caseId}/timeline`);
+      setTimeline(r.ok ? ((await r.json()) as CaseTimelineData) : null);
+    } catch {
+      setTimeline(null);
+    }
+  }, [caseId]);
+
+  useEffect(() => {
+    if (open) fetchTimeline();
+  }, [open, fetchTimeline]);
+
+  const searchTransactions = async () => {
+    if (!search.trim()) return;
+    try {
+      const r = await fetch(`/api/bank/transactions?q=${encodeURIComponent(search.trim())}&limit=20`);
+      const d = (await r.json()) as { items?: BankTransaction[] };
+      setHits(d.items || []);
+    } catch {
+      setHits([]);
+    }
+  };
+
+  const linkTransaction = async (id: string, link: boolean) => {
+    const r = await fetch(`/api/bank/transactions/${id}`, {
+      method: "PATCH",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ caseId: link ? caseId : null }),
+    });
+    if (!r.ok) {
+      onToast("Kunne ikke opdatere transaktionen", "error");
+      return;
+    }
+    onToast(link ? "Transaktion knyttet til case" : "Transaktion frakoblet", "success");
+    setHits((h) => h.filter((t) => t.id !== id));
+    await fetchTimeline();
+  };
+
+  const p = timeline?.profitability;
+  const occ = timeline?.occupancy;
+
+  return (
+    <div className="rounded-lg border border-slate-200 bg-white">
+      <button
+        onClick={() => setOpen((o) => !o)}
+        className="w-full px-3 py-2 flex items-center justify-between text-[11px] font-semibold text-slate-700 hover:bg-slate-50"
+      >
+        <span>Tidslinje &amp; realiseret rentabilitet</span>
+        <span className="text-slate-400">{open ? "▾" : "▸"}</span>
+      </button>
+
+      {open && timeline && p && (
+        <div className="px-3 pb-3 space-y-3">
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-2 text-[11px]">
+            <div className="rounded border border-slate-200 p-2">
+              <div className={LABEL}>Budget-DB</div>
+              <div className="font-bold tabular-nums">{fmtKr(p.budget.margin)}</div>
+              <div className="text-[10px] text-slate-400">{p.budget.marginPct}% af {fmtKr(p.budget.revenue)}</div>
+            </div>
+            <div className="rounded border border-slate-200 p-2">
+              <div className={LABEL}>Realiseret DB</div>
+              <div className="font-bold tabular-nums">{fmtKr(p.realized.margin)}</div>
+              <div className={`text-[10px] ${p.marginVariance < 0 ? "text-rose-600" : "text-emerald-600"}`}>
+                {p.marginVariance >= 0 ? "+" : ""}{fmtKr(p.marginVariance)} mod budget
+              </div>
+            </div>
+            <div className="rounded border border-slate-200 p-2">
+              <div className={LABEL}>Faktureret / indbetalt</div>
+              <div className="font-bold tabular-nums">{fmtKr(p.realized.invoiced)}</div>
+              <div className="text-[10px] text-slate-400">indbetalt {fmtKr(p.realized.collected)} · omk. {fmtKr(p.realized.costs)}</div>
+            </div>
+            <div className="rounded border border-slate-200 p-2">
+              <div className={LABEL}>Medie pr. m² pr. uge</div>
+              <div className="font-bold tabular-nums">
+                {p.revenuePerSqmWeek.realized != null ? `${p.revenuePerSqmWeek.realized.toLocaleString("da-DK")} kr` : "—"}
+              </div>
+              <div className="text-[10px] text-slate-400">
+                budget {p.revenuePerSqmWeek.budget != null ? `${p.revenuePerSqmWeek.budget.toLocaleString("da-DK")} kr` : "—"}
+              </div>
+            </div>
+          </div>
+
+          {occ && (
+            <div>
+              <div className="flex items-center justify-between text-[10px] text-slate-500 mb-1">
+                <span>Belægning {occ.windowFrom} → {occ.windowTo}</span>
+                <span>
+                  {occ.occupancyPct}% · {occ.weeksBooked} af {occ.weeksUp} uger
+                  {occ.idleWeeks > 0 && <span className="text-amber-700"> · {occ.idleWeeks} uger tom</span>}
+                </span>
+              </div>
+              <div className="h-2 rounded bg-emerald-400 overflow-hidden relative">
+                {occ.gaps.map((g) => {
+                  const total = Date.parse(occ.windowTo) - Date.parse(occ.windowFrom) + 86400000;
+                  const left = ((Date.parse(g.from) - Date.parse(occ.windowFrom)) / total) * 100;
+                  const width = ((Date.parse(g.to) - Date.parse(g.from) + 86400000) / total) * 100;
+                  return (
+                    <div
+                      key={g.from}
+                      className="absolute top-0 h-full bg-amber-200"
+                      style={{ left: `${left}%`, width: `${width}%` }}
+                      title={`Tom ${g.from} → ${g.to} (${g.weeks} uger)`}
+                    />
+                  );
+                })}
+              </div>
+            </div>
+          )}
+
+          <div className="max-h-64 overflow-y-auto">
+            {timeline.events.map((ev, i) => (
+              <div key={i} className="flex items-center gap-2 py-0.5 text-[11px]">
+                <span className="w-[72px] shrink-0 tabular-nums text-slate-500">{ev.date}</span>
+                <span className={`w-2 h-2 shrink-0 rounded-full ${KIND_DOT[ev.kind]}`} />
+                <span className="flex-1 truncate">{ev.label}</span>
+                {ev.amount != null && (
+                  <span className={`tabular-nums ${ev.amount >= 0 ? "text-emerald-700" : "text-slate-700"}`}>{fmtKr(ev.amount)}</span>
+                )}
+                {ev.kind === "bank" && ev.ref && (
+                  <button onClick={() => linkTransaction(ev.ref!, false)} className="text-[10px] text-slate-400 hover:text-rose-600" title="Frakobl">×</button>
+                )}
+              </div>
+            ))}
+            {timeline.events.length === 0 && <div className="text-[11px] text-slate-400">Ingen hændelser endnu</div>}
+          </div>
+
+          <div className="rounded-md border border-slate-200 p-2 space-y-1">
+            <span className={LABEL}>Knyt banktransaktion til case</span>
+            <div className="flex gap-2">
+              <input
+                className={CI}
+                placeholder="Søg i kontoudtog (fx Liftservice)"
+                value={search}
+                onChange={(e) => setSearch(e.target.value)}
+                onKeyDown={(e) => e.key === "Enter" && searchTransactions()}
+              />
+              <button onClick={searchTransactions} className="h-7 rounded-md border border-slate-300 px-3 text-[11px] text-slate-700 hover:bg-slate-50">Søg</button>
+            </div>
+            {hits.map((t) => (
+              <div key={t.id} className="flex items-center gap-2 text-[11px]">
+                <span className="w-[72px] shrink-0 tabular-nums text-slate-500">{t.postedDate}</span>
+                <span className="flex-1 truncate">{t.title}</span>
+                <span className="tabular-nums">{fmtKr(t.amount)}</span>
+                {t.caseId === caseId ? (
+                  <span className="text-[10px] text-slate-400">knyttet</span>
+                ) : (
+                  <button onClick={() => linkTransaction(t.id, true)} className="text-[10px] text-violet-700 hover:underline">Knyt</button>
+                )}
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
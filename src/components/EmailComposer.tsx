@@ -34,6 +34,7 @@ export function EmailComposer({ lead, onClose, onSent }: EmailComposerProps) {
   const [subject, setSubject] = useState("");
   const [htmlBody, setHtmlBody] = useState("");
   const [customContext, setCustomContext] = useState("");
+  const [experiment, setExperiment] = useState<{ assignmentId: string; variant: string; recipient: string } | null>(null);
   const [view, setView] = useState<ViewMode>("compose");
   const [generating, setGenerating] = useState(false);
   const [sending, setSending] = useState(false);
@@ -69,19 +70,25 @@ export function EmailComposer({ lead, onClose, onSent }: EmailComposerProps) {
           recipientName: toName || lead.contactName,
           recipientRole: lead.contactRole,
           customContext: customContext.trim() || undefined,
+          recipientEmail: to.includes("@") ? to.trim() : undefined,
         }),
       });
       const data = await res.json();
       if (!res.ok) throw new Error(data.error || "Generering fejlede");
       setSubject(data.subject || "");
       setHtmlBody(data.html || "");
+      setExperiment(
+        data.experimentAssignmentId
+          ? { assignmentId: data.experimentAssignmentId, variant: data.experimentVariant || "", recipient: to.trim().toLowerCase() }
+          : null
+      );
       setView("preview");
     } catch (e) {
       setError(e instanceof Error ? e.message : "Fejl");
     } finally {
       setGenerating(false);
     }
-  }, [type, lead, toName, customContext]);
+  }, [type, lead, to, toName, customContext]);
 
   const sendEmail = useCallback(async () => {
     if (!to.includes("@")) { setError("Ugyldig email-adresse"); return; }
@@ -100,6 +107,8 @@ export function EmailComposer({ lead, onClose, onSent }: EmailComposerProps) {
           subject,
           html: htmlBody,
           leadId: lead.id,
+          // Only counts for the variant if it still goes to the assigned recipient
+          experimentAssignmentId: experiment?.recipient === to.trim().toLowerCase() ? experiment.assignmentId : undefined,
         }),
       });
       const data = await res.json();
@@ -111,7 +120,7 @@ export function EmailComposer({ lead, onClose, onSent }: EmailComposerProps) {
     } finally {
       setSending(false);
     }
-  }, [to, toName, subject, htmlBody, lead.id, onSent, onClose]);
+  }, [to, toName, subject, htmlBody, lead.id, experiment, onSent, onClose]);
 
   const TYPES: { key: EmailTemplateType; label: string; desc: string }[] = [
     { key: "cold",     label: "Kold",       desc: "Første henvendelse" },
@@ -290,6 +299,14 @@ export function EmailComposer({ lead, onClose, onSent }: EmailComposerProps) {
                     className="flex-1 bg-white border border-slate-200 rounded-lg px-2 py-1 text-sm font-medium text-slate-800 focus:outline-none focus:ring-2 focus:ring-blue-500"
                   />
                 </div>
+                {experiment && (
+                  <div className="flex items-center gap-2 text-sm">
+                    <span className="text-slate-500 w-16 shrink-0">A/B:</span>
+                    <span className="text-[11px] font-semibold px-2 py-0.5 rounded-full bg-violet-50 text-violet-700">
+                      Variant: {experiment.variant}
+                    </span>
+                  </div>
+                )}
               </div>
 
               {/* Email preview */}
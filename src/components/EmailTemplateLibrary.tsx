@@ -0,0 +1,417 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import {
+  TEMPLATE_VARIABLES,
+  type EmailTemplate,
+  type EmailTemplateVersion,
+  type TemplateVariable,
+} from "@/lib/email/template-library";
+
+type SourceType = "example" | "staged" | "property" | "lead";
+
+const SOURCE_LABELS: Record<SourceType, string> = {
+  example: "Eksempeldata",
+  staged: "Staging-ejendom",
+  property: "HubSpot-ejendom (ID)",
+  lead: "Lead",
+};
+
+interface Draft {
+  id: string | null;
+  name: string;
+  description: string;
+  subject: string;
+  body: string;
+  note: string;
+}
+
+interface Preview {
+  subject: string;
+  body: string;
+  missing: TemplateVariable[];
+  errors: string[];
+}
+
+const EMPTY_DRAFT: Draft = { id: null, name: "", description: "", subject: "", body: "", note: "" };
+
+function fmtDate(iso: string) {
+  return new Date(iso).toLocaleString("da-DK", { dateStyle: "short", timeStyle: "short" });
+}
+
+/** Mailskabeloner: flettefelter, betingede blokke, live-eksempel og versionshistorik. */
+export function EmailTemplateLibrary() {
+  const [templates, setTemplates] = useState<EmailTemplate[]>([]);
+  const [draft, setDraft] = useState<Draft | null>(null);
+  const [versions, setVersions] = useState<EmailTemplateVersion[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const [sourceType, setSourceType] = useState<SourceType>("example");
+  const [sourceQuery, setSourceQuery] = useState("");
+  const [sourceOptions, setSourceOptions] = useState<{ id: string; label: string }[]>([]);
+  const [sourceId, setSourceId] = useState("");
+  const [preview, setPreview] = useState<Preview | null>(null);
+  const [previewError, setPreviewError] = useState<string | null>(null);
+  const bodyRef = useRef<HTMLTextAreaElement>(null);
+
+  const load = useCallback(async () => {
+    try {
+      const r = await fetch("/api/email-templates");
+      const d = (await r.json()) as { items?: EmailTemplate[] };
+      setTemplates(d.items || []);
+    } catch {
+      setTemplates([]);
+    }
+  }, []);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const open = async (t: EmailTemplate) => {
+    setError(null);
+    setDraft({ id: t.id, name: t.name, description: t.description, subject: t.subject, body: t.body, note: "" });
+    try {
+      const r = await fetch(`/api/email-templates/${t.id}`);
+      const d = (await r.json()) as { versions?: EmailTemplateVersion[] };
+      setVersions(d.versions || []);
+    } catch {
+      setVersions([]);
+    }
+  };
+
+  const startNew = () => {
+    setError(null);
+    setVersions([]);
+    setDraft({ ...EMPTY_DRAFT });
+  };
+
+  const save = async () => {
+    if (!draft) return;
+    setSaving(true);
+    setError(null);
+    try {
+      const r = await fetch(draft.id ? `/api/email-templates/${draft.id}` : "/api/email-templates", {
+        method: draft.id ? "PUT" : "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          name: draft.name,
+          description: draft.description,
+          subject: draft.subject,
+          body: draft.body,
+          note: draft.note || undefined,
+        }),
+      });
+      const d = (await r.json()) as { error?: string; template?: EmailTemplate };
+      if (!r.ok || !d.template) throw new Error(d.error || "Kunne ikke gemme");
+      await load();
+      await open(d.template);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Kunne ikke gemme");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const restore = async (version: number) => {
+    if (!draft?.id) return;
+    setError(null);
+    const r = await fetch(`/api/email-templates/${draft.id}/restore`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ version }),
+    });
+    const d = (await r.json()) as { error?: string; template?: EmailTemplate };
+    if (!r.ok || !d.template) {
+      setError(d.error || "Kunne ikke gendanne");
+      return;
+    }
+    await load();
+    await open(d.template);
+  };
+
+  const archive = async () => {
+    if (!draft?.id) return;
+    const r = await fetch(`/api/email-templates/${draft.id}`, { method: "DELETE" });
+    if (r.ok) {
+      setDraft(null);
+      setVersions([]);
+      await load();
+    }
+  };
+
+  /** Insert a variable at the cursor in the body. */
+  const insertVariable = (name: TemplateVariable) => {
+    if (!draft) return;
+    const tag = `{{${name}}}`;
+    const el = bodyRef.current;
+    const start = el?.selectionStart ?? draft.body.length;
+    const end = el?.selectionEnd ?? draft.body.length;
+    setDraft({ ...draft, body: draft.body.slice(0, start) + tag + draft.body.slice(end) });
+    requestAnimationFrame(() => {
+      el?.focus();
+      el?.setSelectionRange(start + tag.length, start + tag.length);
+    });
+  };
+
+  // Records to preview against (staged properties and leads are searchable)
+  useEffect(() => {
+    setSourceId("");
+    setSourceOptions([]);
+    if (sourceType !== "staged" && sourceType !== "lead") return;
+    const timer = setTimeout(async () => {
+      try {
+        const q = encodeURIComponent(sourceQuery.trim());
+        if (sourceType === "staged") {
+          const r = await fetch(`/api/staged-properties?search=${q}`);
+          const d = (await r.json()) as { properties?: { id: string; name?: string; address: string; city?: string }[] };
+          setSourceOptions(
+            (d.properties || []).slice(0, 20).map((p) => ({ id: p.id, label: [p.name || p.address, p.city].filter(Boolean).join(", ") }))
+          );
+        } else {
+          const r = await fetch(`/api/leads?search=${q}&limit=20`);
+          const d = (await r.json()) as { leads?: { id: string; name: string; address: string | null }[] };
+          setSourceOptions((d.leads || []).map((l) => ({ id: l.id, label: [l.name, l.address].filter(Boolean).join(", ") })));
+        }
+      } catch {
+        setSourceOptions([]);
+      }
+    }, 300);
+    return () => clearTimeout(timer);
+  }, [sourceType, sourceQuery]);
+
+  // Live preview, debounced while typing
+  useEffect(() => {
+    if (!draft) return;
+    if (sourceType !== "example" && !sourceId.trim()) {
+      setPreview(null);
+      return;
+    }
+    const timer = setTimeout(async () => {
+      try {
+        const r = await fetch("/api/email-templates/preview", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            subject: draft.subject,
+            body: draft.body,
+            source: sourceType === "example" ? undefined : { type: sourceType, id: sourceId.trim() },
+          }),
+        });
+        const d = (await r.json()) as Preview & { error?: string };
+        if (!r.ok) throw new Error(d.error || "Kunne ikke vise eksempel");
+        setPreview(d);
+        setPreviewError(null);
+      } catch (e) {
+        setPreview(null);
+        setPreviewError(e instanceof Error ? e.message : "Kunne ikke vise eksempel");
+      }
+    }, 500);
+    return () => clearTimeout(timer);
+  }, [draft, sourceType, sourceId]);
+
+  const current = draft?.id ? templates.find((t) => t.id === draft.id) : null;
+
+  return (
+    <div className="bg-white rounded-2xl border border-slate-200/60 shadow-[var(--card-shadow)] p-5">
+      <div className="flex items-center gap-2 mb-2">
+        <div className="w-7 h-7 rounded-lg bg-indigo-50 flex items-center justify-center">
+          <svg className="w-4 h-4 text-indigo-600" fill="none" viewBox="0 0 24 24" strokeWidth={2} stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" d="M19.5 14.25v-2.625a3.375 3.375 0 00-3.375-3.375h-1.5A1.125 1.125 0 0113.5 7.125v-1.5a3.375 3.375 0 00-3.375-3.375H8.25m0 12.75h7.5m-7.5 3H12M10.5 2.25H5.625c-.621 0-1.125.504-1.125 1.125v17.25c0 .621.504 1.125 1.125 1.125h12.75c.621 0 1.125-.504 1.125-1.125V11.25a9 9 0 00-9-9z" /></svg>
+        </div>
+        <h3 className="text-sm font-bold text-slate-800 uppercase tracking-wide">Mailskabeloner</h3>
+        <button
+          type="button"
+          onClick={startNew}
+          className="ml-auto rounded-lg bg-slate-900 px-3 py-1.5 text-xs font-semibold text-white"
+        >
+          Ny skabelon
+        </button>
+      </div>
+      <p className="text-xs text-slate-500 mb-4">
+        Skabeloner kan vælges i stedet for AI-udkast, når der genereres mail i staging-køen. Brug{" "}
+        <code className="text-[11px]">{"{{variabel}}"}</code>, <code className="text-[11px]">{"{{variabel|reserve}}"}</code> og{" "}
+        <code className="text-[11px]">{"{{#if variabel}}…{{else}}…{{/if}}"}</code>. Hver gemning giver en ny version.
+      </p>
+
+      {templates.length === 0 && !draft ? (
+        <p className="text-[11px] text-slate-400">Ingen skabeloner endnu</p>
+      ) : (
+        <div className="flex flex-wrap gap-1.5 mb-4">
+          {templates.map((t) => (
+            <button
+              key={t.id}
+              type="button"
+              onClick={() => open(t)}
+              title={t.description || undefined}
+              className={`px-2.5 py-1 rounded-lg text-[11px] font-medium border transition-colors ${
+                draft?.id === t.id ? "bg-indigo-50 border-indigo-200 text-indigo-700" : "border-slate-200 text-slate-600 hover:bg-slate-50"
+              }`}
+            >
+              {t.name} <span className="text-slate-400">v{t.version}</span>
+            </button>
+          ))}
+        </div>
+      )}
+
+      {draft && (
+        <div className="grid gap-4 lg:grid-cols-2">
+          <div className="space-y-2">
+            <input
+              value={draft.name}
+              onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+              placeholder="Navn, fx Stillads – første henvendelse"
+              className="w-full rounded-lg border border-slate-200 px-3 py-1.5 text-xs"
+            />
+            <input
+              value={draft.description}
+              onChange={(e) => setDraft({ ...draft, description: e.target.value })}
+              placeholder="Beskrivelse (valgfri)"
+              className="w-full rounded-lg border border-slate-200 px-3 py-1.5 text-xs"
+            />
+            <input
+              value={draft.subject}
+              onChange={(e) => setDraft({ ...draft, subject: e.target.value })}
+              placeholder="Emnelinje, fx Reklameplads på {{address}}"
+              className="w-full rounded-lg border border-slate-200 px-3 py-1.5 text-xs font-medium"
+            />
+            <textarea
+              ref={bodyRef}
+              value={draft.body}
+              onChange={(e) => setDraft({ ...draft, body: e.target.value })}
+              rows={12}
+              placeholder={"Hej {{contact_first_name|der}}\n\n{{#if daily_traffic}}Ca. {{daily_traffic}} passerer {{address}} hver dag.{{/if}}"}
+              className="w-full rounded-lg border border-slate-200 px-3 py-2 text-xs font-mono leading-relaxed"
+            />
+            <div className="flex flex-wrap gap-1">
+              {(Object.keys(TEMPLATE_VARIABLES) as TemplateVariable[]).map((name) => (
+                <button
+                  key={name}
+                  type="button"
+                  onClick={() => insertVariable(name)}
+                  title={`${TEMPLATE_VARIABLES[name].label} – fx ${TEMPLATE_VARIABLES[name].example}`}
+                  className="px-1.5 py-0.5 rounded bg-slate-100 text-slate-600 text-[10px] font-mono hover:bg-indigo-50 hover:text-indigo-700"
+                >
+                  {name}
+                </button>
+              ))}
+            </div>
+            <div className="flex gap-2">
+              <input
+                value={draft.note}
+                onChange={(e) => setDraft({ ...draft, note: e.target.value })}
+                placeholder="Hvad er ændret? (vises i historikken)"
+                className="flex-1 rounded-lg border border-slate-200 px-3 py-1.5 text-xs"
+              />
+              <button
+                type="button"
+                onClick={save}
+                disabled={saving || !draft.name.trim() || !draft.subject.trim() || !draft.body.trim()}
+                className="rounded-lg bg-indigo-600 px-3 py-1.5 text-xs font-semibold text-white disabled:opacity-40"
+              >
+                {saving ? "Gemmer..." : draft.id ? "Gem ny version" : "Opret"}
+              </button>
+              {draft.id && (
+                <button
+                  type="button"
+                  onClick={archive}
+                  className="rounded-lg border border-slate-200 px-3 py-1.5 text-xs text-slate-500 hover:text-red-600"
+                >
+                  Arkivér
+                </button>
+              )}
+            </div>
+            {error && <p className="text-[11px] text-red-600">{error}</p>}
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex gap-2">
+              <select
+                value={sourceType}
+                onChange={(e) => setSourceType(e.target.value as SourceType)}
+                className="rounded-lg border border-slate-200 px-2 py-1.5 text-xs"
+              >
+                {(Object.keys(SOURCE_LABELS) as SourceType[]).map((t) => (
+                  <option key={t} value={t}>{SOURCE_LABELS[t]}</option>
+                ))}
+              </select>
+              {sourceType === "property" && (
+                <input
+                  value={sourceId}
+                  onChange={(e) => setSourceId(e.target.value)}
+                  placeholder="HubSpot ejendoms-ID"
+                  className="flex-1 rounded-lg border border-slate-200 px-3 py-1.5 text-xs"
+                />
+              )}
+              {(sourceType === "staged" || sourceType === "lead") && (
+                <>
+                  <input
+                    value={sourceQuery}
+                    onChange={(e) => setSourceQuery(e.target.value)}
+                    placeholder="Søg…"
+                    className="w-28 rounded-lg border border-slate-200 px-3 py-1.5 text-xs"
+                  />
+                  <select
+                    value={sourceId}
+                    onChange={(e) => setSourceId(e.target.value)}
+                    className="flex-1 min-w-0 rounded-lg border border-slate-200 px-2 py-1.5 text-xs"
+                  >
+                    <option value="">Vælg…</option>
+                    {sourceOptions.map((o) => (
+                      <option key={o.id} value={o.id}>{o.label}</option>
+                    ))}
+                  </select>
+                </>
+              )}
+            </div>
+
+            <div className="rounded-xl border border-slate-200 bg-slate-50/60 p-3 min-h-[12rem]">
+              {previewError ? (
+                <p className="text-[11px] text-red-600">{previewError}</p>
+              ) : !preview ? (
+                <p className="text-[11px] text-slate-400">Vælg en post for at se eksemplet</p>
+              ) : (
+                <>
+                  <div className="text-xs font-semibold text-slate-800 mb-2">{preview.subject || "(ingen emnelinje)"}</div>
+                  <div className="text-xs text-slate-700 whitespace-pre-wrap leading-relaxed">{preview.body}</div>
+                </>
+              )}
+            </div>
+            {preview && preview.errors.length > 0 && (
+              <p className="text-[11px] text-red-600">{preview.errors.join(" · ")}</p>
+            )}
+            {preview && preview.missing.length > 0 && (
+              <p className="text-[11px] text-amber-700">
+                Mangler: {preview.missing.map((v) => TEMPLATE_VARIABLES[v].label.toLowerCase()).join(", ")} – poster uden disse springes over ved generering
+              </p>
+            )}
+
+            {versions.length > 0 && (
+              <div className="border-t border-slate-100 pt-3">
+                <div className="text-[10px] font-semibold text-slate-400 uppercase tracking-wider mb-2">Versioner</div>
+                <ul className="space-y-1 max-h-40 overflow-y-auto">
+                  {versions.map((v) => (
+                    <li key={v.version} className="flex items-center gap-2 text-[11px] text-slate-600">
+                      <span className="px-1.5 py-0.5 rounded bg-slate-100 text-slate-700 text-[10px] font-semibold shrink-0">v{v.version}</span>
+                      <span className="flex-1 truncate" title={v.subject}>{v.note || v.subject}</span>
+                      <span className="text-slate-400 shrink-0">{fmtDate(v.createdAt)}</span>
+                      {current && v.version !== current.version && (
+                        <button
+                          type="button"
+                          onClick={() => restore(v.version)}
+                          className="text-indigo-600 hover:text-indigo-800 shrink-0"
+                        >
+                          Gendan
+                        </button>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,418 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import {
+  EXPERIMENT_CHANNEL_LABELS,
+  type Experiment,
+  type ExperimentChannel,
+  type ExperimentInput,
+  type ExperimentMetric,
+  type ExperimentReport,
+  type ExperimentStatus,
+  type ExperimentVariant,
+} from "@/lib/outreach/experiment-types";
+
+type ExperimentItem = Experiment & { report: ExperimentReport };
+
+const METRIC_LABELS: Record<ExperimentMetric, string> = {
+  open: "Åbningsrate",
+  click: "Klikrate",
+  reply: "Svarrate",
+};
+
+const STATUS_STYLES: Record<ExperimentStatus, { label: string; className: string }> = {
+  draft: { label: "Kladde", className: "bg-slate-100 text-slate-600" },
+  running: { label: "Kører", className: "bg-emerald-50 text-emerald-700" },
+  promoted: { label: "Vinder sendes", className: "bg-violet-50 text-violet-700" },
+  stopped: { label: "Stoppet", className: "bg-slate-100 text-slate-500" },
+};
+
+function newVariant(label: string): ExperimentVariant {
+  return {
+    id: `var-${Date.now()}-${Math.random().toString(36).slice(2, 6)}`,
+    label,
+    subject: "",
+    body: "",
+    promptHint: "",
+  };
+}
+
+function emptyExperiment(): ExperimentInput {
+  return {
+    name: "",
+    description: "",
+    channel: "property",
+    metric: "reply",
+    variants: [newVariant("A"), newVariant("B")],
+    autoPromote: false,
+    minSamplePerVariant: 50,
+  };
+}
+
+function pct(rate: number) {
+  return `${Math.round(rate * 1000) / 10}%`;
+}
+
+/**
+ * A/B-eksperimenter: varianter af emne, brødtekst eller AI-prompt,
+ * tilfældigt fordelt på modtagere, med resultater og signifikans.
+ */
+export function ExperimentsPanel({
+  onToast,
+}: {
+  onToast: (message: string, type: "success" | "error" | "info") => void;
+}) {
+  const [items, setItems] = useState<ExperimentItem[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [editing, setEditing] = useState<{ id: string | null; input: ExperimentInput } | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const load = useCallback(async () => {
+    try {
+      const r = await fetch("/api/experiments");
+      const d = (await r.json()) as { items?: ExperimentItem[] };
+      setItems(d.items || []);
+    } catch {
+      setItems([]);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const save = async () => {
+    if (!editing) return;
+    setSaving(true);
+    try {
+      const r = await fetch(editing.id ? `/api/experiments/${editing.id}` : "/api/experiments", {
+        method: editing.id ? "PUT" : "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(editing.input),
+      });
+      const d = (await r.json()) as { error?: string };
+      if (!r.ok) throw new Error(d.error || "Kunne ikke gemme");
+      onToast("Eksperiment gemt", "success");
+      setEditing(null);
+      await load();
+    } catch (e) {
+      onToast(e instanceof Error ? e.message : "Kunne ikke gemme", "error");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const remove = async (exp: ExperimentItem) => {
+    const r = await fetch(`/api/experiments/${exp.id}`, { method: "DELETE" });
+    const d = (await r.json()) as { error?: string };
+    if (!r.ok) {
+      onToast(d.error || "Kunne ikke slette", "error");
+      return;
+    }
+    await load();
+  };
+
+  const changeStatus = async (exp: ExperimentItem, body: { action: "start" | "stop" } | { action: "promote"; variantId: string }) => {
+    const r = await fetch(`/api/experiments/${exp.id}/status`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(body),
+    });
+    const d = (await r.json()) as { error?: string };
+    if (!r.ok) {
+      onToast(d.error || "Kunne ikke ændre status", "error");
+      return;
+    }
+    onToast(
+      body.action === "start" ? "Eksperiment startet" : body.action === "stop" ? "Eksperiment stoppet" : "Vinder forfremmet",
+      "success"
+    );
+    await load();
+  };
+
+  const setVariant = (index: number, patch: Partial<ExperimentVariant>) => {
+    setEditing((prev) =>
+      prev && {
+        ...prev,
+        input: { ...prev.input, variants: prev.input.variants.map((v, i) => (i === index ? { ...v, ...patch } : v)) },
+      }
+    );
+  };
+
+  return (
+    <div className="bg-white rounded-2xl border border-slate-200/60 shadow-[var(--card-shadow)] overflow-hidden mt-6">
+      <div className="px-6 py-4 border-b border-slate-100 flex items-center justify-between">
+        <div>
+          <span className="font-bold text-sm text-slate-900">A/B-test</span>
+          <span className="text-xs text-slate-400 ml-2">Varianter af emne, tekst eller AI-prompt – fordeles tilfældigt på modtagerne</span>
+        </div>
+        <button
+          onClick={() => setEditing({ id: null, input: emptyExperiment() })}
+          className="px-3 py-1.5 text-xs font-semibold text-white bg-brand-600 rounded-lg hover:bg-brand-700"
+        >
+          Nyt eksperiment
+        </button>
+      </div>
+
+      {editing && (
+        <div className="p-4 border-b border-slate-100 bg-slate-50/60 space-y-3">
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-2">
+            <input
+              value={editing.input.name}
+              onChange={(e) => setEditing({ ...editing, input: { ...editing.input, name: e.target.value } })}
+              placeholder="Navn, fx 'Kort vs. lang emnelinje'"
+              className="rounded-lg border border-slate-200 px-3 py-1.5 text-xs"
+            />
+            <select
+              value={editing.input.channel}
+              onChange={(e) => setEditing({ ...editing, input: { ...editing.input, channel: e.target.value as ExperimentChannel } })}
+              className="rounded-lg border border-slate-200 px-3 py-1.5 text-xs"
+            >
+              {(Object.keys(EXPERIMENT_CHANNEL_LABELS) as ExperimentChannel[]).map((c) => (
+                <option key={c} value={c}>{EXPERIMENT_CHANNEL_LABELS[c]}</option>
+              ))}
+            </select>
+            <select
+              value={editing.input.metric}
+              onChange={(e) => setEditing({ ...editing, input: { ...editing.input, metric: e.target.value as ExperimentMetric } })}
+              className="rounded-lg border border-slate-200 px-3 py-1.5 text-xs"
+            >
+              {(Object.keys(METRIC_LABELS) as ExperimentMetric[]).map((m) => (
+                <option key={m} value={m}>Mål: {METRIC_LABELS[m]}</option>
+              ))}
+            </select>
+          </div>
+          <div className="flex items-center gap-4 text-[11px] text-slate-600">
+            <label className="flex items-center gap-1">
+              Min.
+              <input
+                type="number"
+                min={10}
+                max={10000}
+                value={editing.input.minSamplePerVariant}
+                onChange={(e) =>
+                  setEditing({ ...editing, input: { ...editing.input, minSamplePerVariant: Number(e.target.value) || 10 } })
+                }
+                className="w-16 rounded border border-slate-200 px-1 py-0.5 text-center"
+              />
+              sendt pr. variant før en vinder kan findes
+            </label>
+            <label className="flex items-center gap-1">
+              <input
+                type="checkbox"
+                checked={editing.input.autoPromote}
+                onChange={(e) => setEditing({ ...editing, input: { ...editing.input, autoPromote: e.target.checked } })}
+              />
+              Forfrem vinderen automatisk
+            </label>
+          </div>
+          <p className="text-[10px] text-slate-400">
+            Tomme felter beholder udkastet. Pladsholdere: {"{subject}"}, {"{body}"} (udkastet), {"{name}"}, {"{company}"},{" "}
+            {"{address}"}, {"{city}"}. AI-instruksen bruges når udkastet genereres til modtageren.
+            {editing.input.channel === "lead" && " Lead-svar registreres ikke automatisk – mål på åbning eller klik."}
+          </p>
+
+          {editing.input.variants.map((variant, i) => (
+            <div key={variant.id} className="rounded-xl border border-slate-200 bg-white p-3 space-y-2">
+              <div className="flex items-center gap-3 text-[11px] text-slate-600">
+                <input
+                  value={variant.label}
+                  onChange={(e) => setVariant(i, { label: e.target.value })}
+                  placeholder="Variantnavn"
+                  className="w-40 rounded-lg border border-slate-200 px-2 py-1 text-xs font-bold text-slate-800"
+                />
+                {editing.input.variants.length > 2 && (
+                  <button
+                    onClick={() =>
+                      setEditing({ ...editing, input: { ...editing.input, variants: editing.input.variants.filter((_, j) => j !== i) } })
+                    }
+                    className="ml-auto text-slate-400 hover:text-red-500"
+                    title="Fjern variant"
+                  >
+                    ×
+                  </button>
+                )}
+              </div>
+              <input
+                value={variant.subject}
+                onChange={(e) => setVariant(i, { subject: e.target.value })}
+                placeholder="Emne (tomt = udkastets emne)"
+                className="w-full rounded-lg border border-slate-200 px-3 py-1.5 text-xs"
+              />
+              <textarea
+                value={variant.body}
+                onChange={(e) => setVariant(i, { body: e.target.value })}
+                rows={3}
+                placeholder="Tekst (tom = udkastets tekst)"
+                className="w-full rounded-lg border border-slate-200 px-3 py-1.5 text-xs"
+              />
+              {editing.input.channel !== "ooh" && (
+                <input
+                  value={variant.promptHint}
+                  onChange={(e) => setVariant(i, { promptHint: e.target.value })}
+                  placeholder="Instruks til AI, fx 'uformel tone, max 80 ord'"
+                  className="w-full rounded-lg border border-slate-200 px-3 py-1.5 text-xs"
+                />
+              )}
+            </div>
+          ))}
+
+          <div className="flex items-center gap-2">
+            <button
+              onClick={() =>
+                setEditing({
+                  ...editing,
+                  input: {
+                    ...editing.input,
+                    variants: [...editing.input.variants, newVariant(String.fromCharCode(65 + editing.input.variants.length))],
+                  },
+                })
+              }
+              disabled={editing.input.variants.length >= 5}
+              className="px-3 py-1.5 text-xs font-medium text-slate-600 bg-white border border-slate-200 rounded-lg hover:bg-slate-50 disabled:opacity-40"
+            >
+              + Variant
+            </button>
+            <div className="ml-auto flex gap-2">
+              <button onClick={() => setEditing(null)} className="px-3 py-1.5 text-xs text-slate-500 hover:text-slate-700">
+                Annuller
+              </button>
+              <button
+                onClick={save}
+                disabled={saving}
+                className="px-3 py-1.5 text-xs font-semibold text-white bg-slate-900 rounded-lg disabled:opacity-40"
+              >
+                {saving ? "Gemmer…" : "Gem eksperiment"}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      <div className="divide-y divide-slate-100">
+        {loading ? (
+          <p className="p-4 text-sm text-slate-400">Indlæser…</p>
+        ) : items.length === 0 ? (
+          <p className="p-4 text-sm text-slate-500">Ingen eksperimenter endnu.</p>
+        ) : (
+          items.map((exp) => {
+            const status = STATUS_STYLES[exp.status];
+            const leader = exp.report.variants.find((v) => v.variantId === exp.report.leaderVariantId);
+            return (
+              <div key={exp.id} className="px-6 py-4">
+                <div className="flex items-center gap-3">
+                  <div className="flex-1 min-w-0">
+                    <span className="font-semibold text-sm text-slate-900">{exp.name}</span>
+                    <span className={`ml-2 text-[10px] font-semibold px-2 py-0.5 rounded-full ${status.className}`}>{status.label}</span>
+                    <span className="text-xs text-slate-400 ml-2">
+                      {EXPERIMENT_CHANNEL_LABELS[exp.channel]} · {METRIC_LABELS[exp.metric]}
+                      {exp.autoPromote && exp.status === "running" && " · auto-vinder"}
+                    </span>
+                  </div>
+                  {exp.status === "draft" && (
+                    <>
+                      <button
+                        onClick={() => changeStatus(exp, { action: "start" })}
+                        className="text-xs font-medium text-emerald-600 hover:text-emerald-700 px-3 py-1.5 rounded-lg hover:bg-emerald-50"
+                      >
+                        Start
+                      </button>
+                      <button
+                        onClick={() =>
+                          setEditing({
+                            id: exp.id,
+                            input: {
+                              name: exp.name,
+                              description: exp.description,
+                              channel: exp.channel,
+                              metric: exp.metric,
+                              variants: exp.variants,
+                              autoPromote: exp.autoPromote,
+                              minSamplePerVariant: exp.minSamplePerVariant,
+                            },
+                          })
+                        }
+                        className="text-xs font-medium text-brand-600 hover:text-brand-700 px-3 py-1.5 rounded-lg hover:bg-brand-50"
+                      >
+                        Rediger
+                      </button>
+                    </>
+                  )}
+                  {(exp.status === "running" || exp.status === "promoted") && (
+                    <button
+                      onClick={() => changeStatus(exp, { action: "stop" })}
+                      className="text-xs font-medium text-slate-500 hover:text-slate-700 px-3 py-1.5 rounded-lg hover:bg-slate-50"
+                    >
+                      Stop
+                    </button>
+                  )}
+                  {exp.status !== "running" && exp.status !== "promoted" && (
+                    <button onClick={() => remove(exp)} className="text-slate-400 hover:text-red-500 text-sm" title="Slet eksperiment">×</button>
+                  )}
+                </div>
+
+                <table className="w-full text-[11px] mt-2">
+                  <thead>
+                    <tr className="text-left text-slate-400">
+                      <th className="py-1 font-medium">Variant</th>
+                      <th className="py-1 font-medium text-right">Sendt</th>
+                      <th className="py-1 font-medium text-right">Åbnet</th>
+                      <th className="py-1 font-medium text-right">Klik</th>
+                      <th className="py-1 font-medium text-right">Svar</th>
+                      <th className="py-1 font-medium text-right" title="Sandsynlighed for at forskellen til førende variant er tilfældig">p</th>
+                      <th className="py-1" />
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {exp.report.variants.map((v) => {
+                      const isLeader = v.variantId === exp.report.leaderVariantId;
+                      const isWinner = v.variantId === exp.winnerVariantId;
+                      return (
+                        <tr key={v.variantId} className="border-t border-slate-100 text-slate-600">
+                          <td className="py-1 truncate max-w-[200px]">
+                            <span className={isLeader ? "font-semibold text-slate-800" : ""}>{v.label}</span>
+                            {isWinner && <span className="ml-1 text-violet-600">★</span>}
+                          </td>
+                          <td className="py-1 text-right tabular-nums">{v.sent}</td>
+                          <td className={`py-1 text-right tabular-nums ${exp.metric === "open" ? "font-semibold" : ""}`}>{pct(v.openRate)}</td>
+                          <td className={`py-1 text-right tabular-nums ${exp.metric === "click" ? "font-semibold" : ""}`}>{pct(v.clickRate)}</td>
+                          <td className={`py-1 text-right tabular-nums ${exp.metric === "reply" ? "font-semibold" : ""}`}>{pct(v.replyRate)}</td>
+                          <td className="py-1 text-right tabular-nums text-slate-400">
+                            {v.pValue === null ? (isLeader ? "førende" : "–") : v.pValue < 0.001 ? "<0,001" : v.pValue.toFixed(3).replace(".", ",")}
+                          </td>
+                          <td className="py-1 text-right">
+                            {exp.status === "running" && v.sent > 0 && (
+                              <button
+                                onClick={() => changeStatus(exp, { action: "promote", variantId: v.variantId })}
+                                className="text-[10px] font-medium text-violet-600 hover:text-violet-700"
+                                title="Send denne variant til alle nye modtagere"
+                              >
+                                Vælg som vinder
+                              </button>
+                            )}
+                          </td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+
+                {exp.status === "running" && (
+                  <p className={`mt-2 text-[11px] ${exp.report.significant ? "text-emerald-700 font-semibold" : "text-slate-400"}`}>
+                    {exp.report.significant
+                      ? `"${leader?.label}" er signifikant bedre (95 %)${exp.autoPromote ? " – forfremmes ved næste mail-sync" : ""}`
+                      : !exp.report.enoughData
+                        ? `For lidt data – mindst ${exp.minSamplePerVariant} sendt pr. variant`
+                        : "Ingen signifikant forskel endnu"}
+                  </p>
+                )}
+              </div>
+            );
+          })
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,440 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { calcCaseEconomics } from "@/lib/case/calculations";
+import type { PlannedPayment } from "@/lib/case/planned-payments";
+import { runScenario, type ScenarioResult } from "@/lib/case/scenarios";
+import {
+  CASE_STATUSES,
+  CASE_STATUS_LABEL,
+  type Case,
+  type CaseStatus,
+  type LiquidityScenario,
+  type OperatingExpense,
+} from "@/lib/case/types";
+
+interface LiquidityScenariosProps {
+  cases: Case[];
+  expenses: OperatingExpense[];
+  plannedPayments: PlannedPayment[];
+  startingCash: number;
+  momsPct: number;
+  monthlyBurn: number;
+  onToast: (message: string, type: "success" | "error" | "info") => void;
+}
+
+type Basis = "cases" | "payments";
+type Draft = Omit<LiquidityScenario, "id" | "createdAt" | "updatedAt"> & { id?: string };
+
+const CI = "h-7 w-full rounded-md border border-slate-300 bg-white px-2 text-[11px] text-slate-900 focus:outline-none focus:ring-2 focus:ring-violet-300";
+const LABEL = "text-[10px] font-semibold uppercase tracking-wide text-slate-500";
+
+/** Line colours: baseline first, then one per scenario (cycled). */
+const LINE_COLORS = ["#0f172a", "#7c3aed", "#e11d48", "#0891b2", "#d97706", "#059669", "#db2777"];
+
+function fmtKr(n: number) {
+  return `${Math.round(n).toLocaleString("da-DK")} kr`;
+}
+
+function emptyDraft(): Draft {
+  return {
+    name: "",
+    description: "",
+    caseStatusOverrides: [],
+    loseLargestPending: 0,
+    incomeDelayDays: 0,
+    expenseOverrides: [],
+    extraExpenses: [],
+    oneOffs: [],
+  };
+}
+
+function monthPoints(result: ScenarioResult, basis: Basis) {
+  return basis === "cases"
+    ? result.liquidity.months.map((m) => ({ label: m.monthLabel, cash: m.cashEnd }))
+    : result.cash.months.map((m) => ({ label: m.monthLabel, cash: m.cashEnd }));
+}
+
+/** Simple SVG line chart of month-end cash per scenario. */
+function ScenarioChart({ series }: { series: Array<{ id: string; name: string; color: string; points: Array<{ label: string; cash: number }> }> }) {
+  const W = 720;
+  const H = 220;
+  const padL = 64;
+  const padB = 22;
+  const all = series.flatMap((s) => s.points.map((p) => p.cash));
+  if (all.length === 0) return null;
+  const max = Math.max(0, ...all);
+  const min = Math.min(0, ...all);
+  const span = max - min || 1;
+  const n = series[0]?.points.length || 1;
+  const x = (i: number) => padL + (i * (W - padL - 8)) / Math.max(1, n - 1);
+  const y = (v: number) => 8 + ((max - v) * (H - padB - 16)) / span;
+  const ticks = [max, (max + min) / 2, min];
+
+  return (
+    <svg viewBox={`0 0 ${W} ${H}`} className="w-full h-auto">
+      {ticks.map((t) => (
+        <g key={t}>
+          <line x1={padL} x2={W - 8} y1={y(t)} y2={y(t)} stroke="#f1f5f9" />
+          <text x={padL - 6} y={y(t) + 3} textAnchor="end" fontSize="9" fill="#64748b">
+            {Math.round(t / 1000).toLocaleString("da-DK")}k
+          </text>
+        </g>
+      ))}
+      <line x1={padL} x2={W - 8} y1={y(0)} y2={y(0)} stroke="#fda4af" strokeDasharray="3 3" />
+      {series[0]?.points.map((p, i) => (
+        <text key={p.label} x={x(i)} y={H - 6} textAnchor="middle" fontSize="9" fill="#64748b">
+          {p.label.split(" ")[0].slice(0, 3)}
+        </text>
+      ))}
+      {series.map((s) => (
+        <polyline
+          key={s.id}
+          fill="none"
+          stroke={s.color}
+          strokeWidth={s.id === "baseline" ? 2.5 : 1.75}
+          strokeDasharray={s.id === "baseline" ? undefined : "5 3"}
+          points={s.points.map((p, i) => `${x(i)},${y(p.cash)}`).join(" ")}
+        />
+      ))}
+    </svg>
+  );
+}
+
+/** Navngivne what-if-scenarier sammenlignet med basis-prognosen. */
+export function LiquidityScenarios({
+  cases,
+  expenses,
+  plannedPayments,
+  startingCash,
+  momsPct,
+  monthlyBurn,
+  onToast,
+}: LiquidityScenariosProps) {
+  const [scenarios, setScenarios] = useState<LiquidityScenario[]>([]);
+  const [hidden, setHidden] = useState<Set<string>>(new Set());
+  const [basis, setBasis] = useState<Basis>("cases");
+  const [draft, setDraft] = useState<Draft | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const fetchScenarios = useCallback(async () => {
+    try {
+      const r = await fetch("/api/liquidity-scenarios");
+      const d = (await r.json()) as { items?: LiquidityScenario[] };
+      setScenarios(d.items || []);
+    } catch {
+      setScenarios([]);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchScenarios();
+  }, [fetchScenarios]);
+
+  const results = useMemo(() => {
+    const base = { cases, expenses, plannedPayments, startingCash, momsPct, monthlyBurn };
+    return [runScenario(base, null), ...scenarios.map((s) => runScenario(base, s))];
+  }, [cases, expenses, plannedPayments, startingCash, momsPct, monthlyBurn, scenarios]);
+
+  const colorOf = (i: number) => LINE_COLORS[i % LINE_COLORS.length];
+  const series = results
+    .map((r, i) => ({ id: r.id, name: r.name, color: colorOf(i), points: monthPoints(r, basis) }))
+    .filter((s) => !hidden.has(s.id));
+
+  const pendingCases = useMemo(
+    () => cases.filter((c) => c.status !== "tabt" && c.status !== "afsluttet"),
+    [cases]
+  );
+
+  const toggle = (id: string) =>
+    setHidden((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+
+  const save = async () => {
+    if (!draft) return;
+    if (!draft.name.trim()) {
+      onToast("Scenariet skal have et navn", "error");
+      return;
+    }
+    setSaving(true);
+    try {
+      const r = await fetch(draft.id ? `/api/liquidity-scenarios/${draft.id}` : "/api/liquidity-scenarios", {
+        method: draft.id ? "PATCH" : "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(draft),
+      });
+      const d = (await r.json()) as { error?: string };
+      if (!r.ok) {
+        onToast(d.error || "Kunne ikke gemme scenarie", "error");
+        return;
+      }
+      onToast("Scenarie gemt", "success");
+      setDraft(null);
+      await fetchScenarios();
+    } catch {
+      onToast("Kunne ikke gemme scenarie", "error");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const remove = async (s: LiquidityScenario) => {
+    if (!confirm(`Slet scenariet "${s.name}"?`)) return;
+    const r = await fetch(`/api/liquidity-scenarios/${s.id}`, { method: "DELETE" });
+    if (!r.ok) {
+      onToast("Kunne ikke slette scenarie", "error");
+      return;
+    }
+    await fetchScenarios();
+  };
+
+  const patch = (p: Partial<Draft>) => setDraft((d) => (d ? { ...d, ...p } : d));
+  const baseline = results[0];
+
+  return (
+    <div className="rounded-lg border border-slate-200 bg-white p-3 space-y-3">
+      <div className="flex items-center justify-between gap-2">
+        <div>
+          <div className="text-[12px] font-bold text-slate-900">Scenarier</div>
+          <div className="text-[10px] text-slate-400">Kassebeholdning ved månedsslut — basis mod what-if</div>
+        </div>
+        <div className="flex items-center gap-2">
+          <select className={`${CI} w-48`} value={basis} onChange={(e) => setBasis(e.target.value as Basis)}>
+            <option value="cases">Grundlag: cases (forventet DB)</option>
+            <option value="payments">Grundlag: planlagte betalinger</option>
+          </select>
+          <button
+            onClick={() => setDraft(emptyDraft())}
+            className="h-7 rounded-md bg-slate-900 px-3 text-[11px] font-semibold text-white hover:bg-slate-700 whitespace-nowrap"
+          >
+            + Nyt scenarie
+          </button>
+        </div>
+      </div>
+
+      <ScenarioChart series={series} />
+
+      <table className="w-full text-[11px]">
+        <thead>
+          <tr className="text-left text-slate-500">
+            <th className="py-1 font-semibold">Scenarie</th>
+            <th className="py-1 font-semibold text-right">Laveste kasse</th>
+            <th className="py-1 font-semibold text-right">Kasse om 12 mdr</th>
+            <th className="py-1 font-semibold text-right">Δ mod basis</th>
+            <th className="py-1 font-semibold text-right">Runway</th>
+            <th />
+          </tr>
+        </thead>
+        <tbody>
+          {results.map((r, i) => {
+            const proj = basis === "cases" ? r.liquidity : r.cash;
+            const baseProj = basis === "cases" ? baseline.liquidity : baseline.cash;
+            const end = proj.months[proj.months.length - 1]?.cashEnd ?? proj.startingCash;
+            const baseEnd = baseProj.months[baseProj.months.length - 1]?.cashEnd ?? baseProj.startingCash;
+            const scenario = scenarios.find((s) => s.id === r.id);
+            return (
+              <tr key={r.id} className="border-t border-slate-100">
+                <td className="py-1 pr-2">
+                  <label className="flex items-center gap-1.5 cursor-pointer">
+                    <input type="checkbox" checked={!hidden.has(r.id)} onChange={() => toggle(r.id)} />
+                    <span className="inline-block w-3 h-0.5" style={{ background: colorOf(i) }} />
+                    <span className={r.id === "baseline" ? "font-semibold" : ""}>{r.name}</span>
+                    {r.lostCaseIds.length > 0 && (
+                      <span className="text-[9px] text-rose-600">{r.lostCaseIds.length} case(s) tabt</span>
+                    )}
+                  </label>
+                  {scenario?.description && <div className="pl-8 text-[10px] text-slate-400">{scenario.description}</div>}
+                </td>
+                <td className={`py-1 text-right tabular-nums ${proj.lowestCash < 0 ? "text-rose-700 font-semibold" : ""}`}>{fmtKr(proj.lowestCash)}</td>
+                <td className="py-1 text-right tabular-nums">{fmtKr(end)}</td>
+                <td className={`py-1 text-right tabular-nums ${end - baseEnd < 0 ? "text-rose-700" : "text-emerald-700"}`}>
+                  {r.id === "baseline" ? "—" : fmtKr(end - baseEnd)}
+                </td>
+                <td className="py-1 text-right">{proj.runwayEndLabel ? `nul i ${proj.runwayEndLabel}` : "> 12 mdr"}</td>
+                <td className="py-1 text-right whitespace-nowrap">
+                  {scenario && (
+                    <>
+                      <button onClick={() => setDraft({ ...scenario })} className="text-[10px] text-violet-700 hover:underline mr-2">Redigér</button>
+                      <button onClick={() => remove(scenario)} className="text-[10px] text-rose-600 hover:underline">Slet</button>
+                    </>
+                  )}
+                </td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+      <p className="text-[10px] text-slate-400">
+        Case-ændringer påvirker kun grundlaget &quot;cases&quot;. Forsinkelse, udgifter og engangsposter påvirker begge.
+      </p>
+
+      {/* ═══ Scenarie-editor ═══ */}
+      {draft && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-slate-900/60 backdrop-blur-sm p-4" onClick={() => setDraft(null)}>
+          <div className="bg-white rounded-xl shadow-2xl w-full max-w-2xl max-h-[90vh] overflow-hidden flex flex-col" onClick={(ev) => ev.stopPropagation()}>
+            <div className="px-5 py-3 border-b border-slate-200 flex items-start justify-between">
+              <div className="text-base font-bold text-slate-900">{draft.id ? "Redigér scenarie" : "Nyt scenarie"}</div>
+              <button onClick={() => setDraft(null)} className="text-slate-400 hover:text-slate-600 text-lg leading-none">×</button>
+            </div>
+
+            <div className="flex-1 overflow-y-auto px-5 py-3 space-y-3">
+              <div className="grid grid-cols-2 gap-2">
+                <label className="block">
+                  <span className={LABEL}>Navn</span>
+                  <input className={CI} value={draft.name} onChange={(e) => patch({ name: e.target.value })} placeholder="Fx Ansæt sælger fra marts" />
+                </label>
+                <label className="block">
+                  <span className={LABEL}>Beskrivelse</span>
+                  <input className={CI} value={draft.description} onChange={(e) => patch({ description: e.target.value })} />
+                </label>
+                <label className="block">
+                  <span className={LABEL}>Tab de N største tilbud</span>
+                  <input type="number" min={0} className={CI} value={draft.loseLargestPending} onChange={(e) => patch({ loseLargestPending: Math.max(0, Number(e.target.value) || 0) })} />
+                </label>
+                <label className="block">
+                  <span className={LABEL}>Kunder betaler X dage senere</span>
+                  <input type="number" min={0} max={365} className={CI} value={draft.incomeDelayDays} onChange={(e) => patch({ incomeDelayDays: Math.max(0, Number(e.target.value) || 0) })} />
+                </label>
+              </div>
+
+              {/* Case-statusser */}
+              <div>
+                <div className="flex items-center justify-between">
+                  <span className={LABEL}>Case-statusser</span>
+                  <button
+                    onClick={() => pendingCases[0] && patch({ caseStatusOverrides: [...draft.caseStatusOverrides, { caseId: pendingCases[0].id, status: "tabt" }] })}
+                    className="text-[10px] text-violet-700 hover:underline"
+                  >
+                    + Tilføj
+                  </button>
+                </div>
+                {draft.caseStatusOverrides.map((o, i) => (
+                  <div key={i} className="mt-1 grid grid-cols-[1fr_140px_20px] gap-2">
+                    <select
+                      className={CI}
+                      value={o.caseId}
+                      onChange={(e) => patch({ caseStatusOverrides: draft.caseStatusOverrides.map((x, j) => (j === i ? { ...x, caseId: e.target.value } : x)) })}
+                    >
+                      {pendingCases.map((c) => (
+                        <option key={c.id} value={c.id}>
+                          {c.caseNumber || c.address || c.id} · DB {fmtKr(calcCaseEconomics(c).dækningsbidrag)}
+                        </option>
+                      ))}
+                    </select>
+                    <select
+                      className={CI}
+                      value={o.status}
+                      onChange={(e) => patch({ caseStatusOverrides: draft.caseStatusOverrides.map((x, j) => (j === i ? { ...x, status: e.target.value as CaseStatus } : x)) })}
+                    >
+                      {CASE_STATUSES.map((s) => (
+                        <option key={s} value={s}>{CASE_STATUS_LABEL[s]}</option>
+                      ))}
+                    </select>
+                    <button onClick={() => patch({ caseStatusOverrides: draft.caseStatusOverrides.filter((_, j) => j !== i) })} className="text-slate-400 hover:text-rose-600">×</button>
+                  </div>
+                ))}
+              </div>
+
+              {/* Driftsudgifter */}
+              {expenses.length > 0 && (
+                <div>
+                  <span className={LABEL}>Driftsudgifter</span>
+                  {expenses.map((e) => {
+                    const o = draft.expenseOverrides.find((x) => x.expenseId === e.id);
+                    const setOverride = (next: { amountPerMonth?: number; enabled?: boolean }) =>
+                      patch({
+                        expenseOverrides: [
+                          ...draft.expenseOverrides.filter((x) => x.expenseId !== e.id),
+                          { expenseId: e.id, amountPerMonth: o?.amountPerMonth, enabled: o?.enabled, ...next },
+                        ],
+                      });
+                    return (
+                      <div key={e.id} className="mt-1 grid grid-cols-[20px_1fr_120px] items-center gap-2 text-[11px]">
+                        <input type="checkbox" checked={o?.enabled ?? e.enabled} onChange={(ev) => setOverride({ enabled: ev.target.checked })} />
+                        <span className="truncate">{e.label}</span>
+                        <input
+                          type="number"
+                          className={CI}
+                          value={o?.amountPerMonth ?? e.amountPerMonth}
+                          onChange={(ev) => setOverride({ amountPerMonth: Math.max(0, Number(ev.target.value) || 0) })}
+                        />
+                      </div>
+                    );
+                  })}
+                </div>
+              )}
+
+              {/* Nye udgiftslinjer */}
+              <div>
+                <div className="flex items-center justify-between">
+                  <span className={LABEL}>Nye faste udgifter</span>
+                  <button
+                    onClick={() => patch({ extraExpenses: [...draft.extraExpenses, { label: "", amountPerMonth: 0, fromMonth: "", toMonth: "" }] })}
+                    className="text-[10px] text-violet-700 hover:underline"
+                  >
+                    + Tilføj
+                  </button>
+                </div>
+                {draft.extraExpenses.map((l, i) => {
+                  const set = (p: Partial<typeof l>) => patch({ extraExpenses: draft.extraExpenses.map((x, j) => (j === i ? { ...x, ...p } : x)) });
+                  return (
+                    <div key={i} className="mt-1 grid grid-cols-[1fr_100px_90px_90px_20px] gap-2">
+                      <input className={CI} placeholder="Fx Sælger" value={l.label} onChange={(e) => set({ label: e.target.value })} />
+                      <input type="number" className={CI} placeholder="kr/md" value={l.amountPerMonth} onChange={(e) => set({ amountPerMonth: Number(e.target.value) || 0 })} />
+                      <input type="month" className={CI} value={l.fromMonth} onChange={(e) => set({ fromMonth: e.target.value })} />
+                      <input type="month" className={CI} value={l.toMonth} onChange={(e) => set({ toMonth: e.target.value })} />
+                      <button onClick={() => patch({ extraExpenses: draft.extraExpenses.filter((_, j) => j !== i) })} className="text-slate-400 hover:text-rose-600">×</button>
+                    </div>
+                  );
+                })}
+              </div>
+
+              {/* Engangsposter */}
+              <div>
+                <div className="flex items-center justify-between">
+                  <span className={LABEL}>Engangsposter (fx stillads-investering)</span>
+                  <button
+                    onClick={() => patch({ oneOffs: [...draft.oneOffs, { label: "", direction: "ud", amount: 0, date: new Date().toISOString().slice(0, 10) }] })}
+                    className="text-[10px] text-violet-700 hover:underline"
+                  >
+                    + Tilføj
+                  </button>
+                </div>
+                {draft.oneOffs.map((o, i) => {
+                  const set = (p: Partial<typeof o>) => patch({ oneOffs: draft.oneOffs.map((x, j) => (j === i ? { ...x, ...p } : x)) });
+                  return (
+                    <div key={i} className="mt-1 grid grid-cols-[1fr_70px_100px_110px_20px] gap-2">
+                      <input className={CI} value={o.label} onChange={(e) => set({ label: e.target.value })} />
+                      <select className={CI} value={o.direction} onChange={(e) => set({ direction: e.target.value as "ind" | "ud" })}>
+                        <option value="ud">Ud</option>
+                        <option value="ind">Ind</option>
+                      </select>
+                      <input type="number" min={0} className={CI} value={o.amount} onChange={(e) => set({ amount: Math.max(0, Number(e.target.value) || 0) })} />
+                      <input type="date" className={CI} value={o.date} onChange={(e) => set({ date: e.target.value })} />
+                      <button onClick={() => patch({ oneOffs: draft.oneOffs.filter((_, j) => j !== i) })} className="text-slate-400 hover:text-rose-600">×</button>
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+
+            <div className="px-5 py-3 border-t border-slate-200 flex justify-end gap-2">
+              <button onClick={() => setDraft(null)} className="h-8 rounded-md px-3 text-[11px] text-slate-600 hover:bg-slate-100">Annullér</button>
+              <button
+                onClick={save}
+                disabled={saving}
+                className="h-8 rounded-md bg-slate-900 px-4 text-[11px] font-semibold text-white hover:bg-slate-700 disabled:opacity-60"
+              >
+                {saving ? "Gemmer..." : "Gem scenarie"}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
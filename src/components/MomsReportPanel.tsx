@@ -0,0 +1,210 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { recentMomsPeriods } from "@/lib/moms/calc";
+import {
+  MOMS_PERIOD_KIND_LABEL,
+  MOMS_RECONCILIATION_LABEL,
+  type MomsPeriodKind,
+  type MomsReconciliation,
+  type MomsReport,
+} from "@/lib/moms/types";
+
+interface MomsReportPanelProps {
+  onToast: (message: string, type: "success" | "error" | "info") => void;
+}
+
+const CI = "h-7 w-full rounded-md border border-slate-300 bg-white px-2 text-[11px] text-slate-900 focus:outline-none focus:ring-2 focus:ring-violet-300";
+const LABEL = "text-[10px] font-semibold uppercase tracking-wide text-slate-500";
+
+const RECONCILIATION_TONE: Record<MomsReconciliation, string> = {
+  afstemt: "bg-emerald-50 text-emerald-700 border-emerald-300",
+  afvigelse: "bg-amber-50 text-amber-700 border-amber-300",
+  afventer: "bg-slate-100 text-slate-600 border-slate-300",
+  mangler: "bg-rose-50 text-rose-700 border-rose-300",
+};
+
+function fmtKr(n: number) {
+  return `${n.toLocaleString("da-DK", { minimumFractionDigits: 2, maximumFractionDigits: 2 })} kr`;
+}
+
+/** Momsopgørelse pr. kvartal/halvår med afstemning og eksport til revisor. */
+export function MomsReportPanel({ onToast }: MomsReportPanelProps) {
+  const [kind, setKind] = useState<MomsPeriodKind>("kvartal");
+  const periods = useMemo(() => recentMomsPeriods(kind, new Date().toISOString().slice(0, 10), kind === "kvartal" ? 8 : 4), [kind]);
+  // Seneste afsluttede periode er den, der skal angives
+  const [periodId, setPeriodId] = useState(() => periods[1]?.id || periods[0]?.id || "");
+  const [report, setReport] = useState<MomsReport | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  const fetchReport = useCallback(async (id: string) => {
+    if (!id) return;
+    setLoading(true);
+    try {
+      const r = await fetch(`/api/moms/${id}`);
+      const d = (await r.json()) as MomsReport & { error?: string };
+      if (!r.ok) {
+        onToast(d.error || "Kunne ikke hente momsopgørelse", "error");
+        setReport(null);
+        return;
+      }
+      setReport(d);
+    } catch {
+      onToast("Kunne ikke hente momsopgørelse", "error");
+    } finally {
+      setLoading(false);
+    }
+  }, [onToast]);
+
+  useEffect(() => {
+    fetchReport(periodId);
+  }, [fetchReport, periodId]);
+
+  const changeKind = (next: MomsPeriodKind) => {
+    setKind(next);
+    const list = recentMomsPeriods(next, new Date().toISOString().slice(0, 10), 2);
+    setPeriodId(list[1]?.id || list[0]?.id || "");
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-end gap-2 rounded-lg border border-slate-200 bg-white px-3 py-2">
+        <label className="block w-32">
+          <span className={LABEL}>Afregning</span>
+          <select className={CI} value={kind} onChange={(e) => changeKind(e.target.value as MomsPeriodKind)}>
+            {(Object.keys(MOMS_PERIOD_KIND_LABEL) as MomsPeriodKind[]).map((k) => (
+              <option key={k} value={k}>{MOMS_PERIOD_KIND_LABEL[k]}</option>
+            ))}
+          </select>
+        </label>
+        <label className="block w-48">
+          <span className={LABEL}>Periode</span>
+          <select className={CI} value={periodId} onChange={(e) => setPeriodId(e.target.value)}>
+            {periods.map((p) => (
+              <option key={p.id} value={p.id}>{p.label}</option>
+            ))}
+          </select>
+        </label>
+        <div className="ml-auto flex gap-2">
+          <a
+            href={`/api/moms/${periodId}/csv`}
+            className="flex items-center h-7 rounded-md border border-slate-300 px-3 text-[11px] text-slate-700 hover:bg-slate-50"
+          >
+            CSV
+          </a>
+          <a
+            href={`/api/moms/${periodId}/pdf`}
+            className="flex items-center h-7 rounded-md bg-slate-900 px-3 text-[11px] font-semibold text-white hover:bg-slate-700"
+          >
+            PDF til revisor
+          </a>
+        </div>
+      </div>
+
+      {loading && !report ? (
+        <div className="py-8 text-center text-[11px] text-slate-400">Beregner...</div>
+      ) : report ? (
+        <>
+          <div className="grid grid-cols-2 lg:grid-cols-4 gap-2">
+            <div className="rounded-lg border border-slate-200 bg-white p-3">
+              <div className={LABEL}>Salgsmoms</div>
+              <div className="text-[15px] font-bold text-slate-900 tabular-nums">{fmtKr(report.outputVat)}</div>
+              <div className="text-[10px] text-slate-400">{report.sales.length} fakturaer · salg {fmtKr(report.salesNet)}</div>
+            </div>
+            <div className="rounded-lg border border-slate-200 bg-white p-3">
+              <div className={LABEL}>Købsmoms</div>
+              <div className="text-[15px] font-bold text-slate-900 tabular-nums">{fmtKr(report.inputVat)}</div>
+              <div className="text-[10px] text-slate-400">
+                {report.inputVatEstimated > 0 ? `heraf ${fmtKr(report.inputVatEstimated)} estimeret` : "fra bilag"}
+              </div>
+            </div>
+            <div className="rounded-lg border border-slate-200 bg-white p-3">
+              <div className={LABEL}>{report.settlement >= 0 ? "Momstilsvar" : "Tilgodehavende"}</div>
+              <div className={`text-[15px] font-bold tabular-nums ${report.settlement >= 0 ? "text-rose-700" : "text-emerald-700"}`}>
+                {fmtKr(Math.abs(report.settlement))}
+              </div>
+              <div className="text-[10px] text-slate-400">frist {report.period.deadline}</div>
+            </div>
+            <div className="rounded-lg border border-slate-200 bg-white p-3">
+              <div className={LABEL}>Betalt til SKAT</div>
+              <div className="text-[15px] font-bold text-slate-900 tabular-nums">{fmtKr(report.paid)}</div>
+              <span className={`inline-block mt-0.5 rounded border px-1 text-[9px] ${RECONCILIATION_TONE[report.reconciliation]}`}>
+                {MOMS_RECONCILIATION_LABEL[report.reconciliation]}
+                {report.reconciliation === "afvigelse" && ` · ${fmtKr(report.difference)}`}
+              </span>
+            </div>
+          </div>
+
+          {report.foreignPurchases > 0 && (
+            <div className="rounded-md border border-blue-200 bg-blue-50 px-3 py-2 text-[11px] text-blue-800">
+              Køb af ydelser i udlandet {fmtKr(report.foreignPurchases)} — angives i rubrik A (omvendt betalingspligt, ingen momseffekt).
+            </div>
+          )}
+
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-3">
+            <div className="rounded-lg border border-slate-200 bg-white p-3">
+              <div className="text-[12px] font-bold text-slate-900 mb-1">Salg</div>
+              <table className="w-full text-[11px]">
+                <tbody>
+                  {report.sales.map((s) => (
+                    <tr key={s.invoiceId} className="border-t border-slate-100">
+                      <td className="py-1 pr-2 whitespace-nowrap tabular-nums text-slate-500">{s.issueDate}</td>
+                      <td className="py-1 pr-2 max-w-[220px] truncate">{s.invoiceNumber} · {s.customer}</td>
+                      <td className="py-1 text-right tabular-nums">{fmtKr(s.vat)}</td>
+                    </tr>
+                  ))}
+                  {report.sales.length === 0 && (
+                    <tr><td className="py-2 text-slate-400">Ingen fakturaer i perioden</td></tr>
+                  )}
+                </tbody>
+              </table>
+            </div>
+            <div className="rounded-lg border border-slate-200 bg-white p-3">
+              <div className="text-[12px] font-bold text-slate-900 mb-1">Køb</div>
+              <table className="w-full text-[11px]">
+                <tbody>
+                  {report.purchases.map((p) => (
+                    <tr key={`${p.source}-${p.ref}`} className="border-t border-slate-100">
+                      <td className="py-1 pr-2 whitespace-nowrap tabular-nums text-slate-500">{p.date}</td>
+                      <td className="py-1 pr-2 max-w-[220px] truncate">
+                        {p.vendor}
+                        {p.foreign ? (
+                          <span className="ml-1 text-[9px] uppercase text-blue-600">udland</span>
+                        ) : p.estimated ? (
+                          <span className="ml-1 text-[9px] uppercase text-amber-600">estimeret</span>
+                        ) : (
+                          <span className="ml-1 text-[9px] uppercase text-emerald-600">bilag</span>
+                        )}
+                      </td>
+                      <td className="py-1 text-right tabular-nums">{fmtKr(p.vat)}</td>
+                    </tr>
+                  ))}
+                  {report.purchases.length === 0 && (
+                    <tr><td className="py-2 text-slate-400">Ingen køb i perioden</td></tr>
+                  )}
+                </tbody>
+              </table>
+            </div>
+          </div>
+
+          {report.payments.length > 0 && (
+            <div className="rounded-lg border border-slate-200 bg-white p-3">
+              <div className="text-[12px] font-bold text-slate-900 mb-1">Betalinger til/fra SKAT</div>
+              <table className="w-full text-[11px]">
+                <tbody>
+                  {report.payments.map((p) => (
+                    <tr key={p.transactionId} className="border-t border-slate-100">
+                      <td className="py-1 pr-2 whitespace-nowrap tabular-nums text-slate-500">{p.postedDate}</td>
+                      <td className="py-1 pr-2">{p.title}</td>
+                      <td className={`py-1 text-right tabular-nums ${p.amount >= 0 ? "text-emerald-700" : ""}`}>{fmtKr(p.amount)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </>
+      ) : null}
+    </div>
+  );
+}
@@ -0,0 +1,110 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { mondayOf } from "@/lib/booking/calendar";
+import type { OccupancyWeek, PlacementOccupancy } from "@/lib/booking/types";
+
+interface OccupancyGridProps {
+  placementId: string;
+  /** First week shown (any date in that week). Defaults to today. */
+  fromDate?: string;
+  weeks?: number;
+  /** Period of the tilbud/case being edited — outlined in the grid. */
+  highlightFrom?: string;
+  highlightTo?: string;
+  /** Booking ref (tilbud.id / case.id) of the item being edited — drawn as "own". */
+  ownRefId?: string;
+  /** Bump to refetch after a save. */
+  refreshKey?: number;
+}
+
+const CELL_STYLE: Record<OccupancyWeek["status"], string> = {
+  free: "bg-slate-100 text-slate-400",
+  booked: "bg-blue-500 text-white",
+  double: "bg-rose-500 text-white",
+};
+
+function weekTitle(w: OccupancyWeek): string {
+  const head = `Uge ${w.week} (${w.monday})`;
+  if (w.bookings.length === 0) return `${head} — ledig`;
+  return `${head}\n${w.bookings
+    .map((b) => `${b.advertiser || "Ukendt"} · ${b.source === "tilbud" ? "tilbud" : "case"} ${b.refLabel}`)
+    .join("\n")}`;
+}
+
+export function OccupancyGrid({
+  placementId,
+  fromDate,
+  weeks = 26,
+  highlightFrom,
+  highlightTo,
+  ownRefId,
+  refreshKey = 0,
+}: OccupancyGridProps) {
+  const [data, setData] = useState<PlacementOccupancy | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (!placementId) return;
+    let cancelled = false;
+    setLoading(true);
+    const params = new URLSearchParams({ placementId, weeks: String(weeks) });
+    if (fromDate) params.set("from", fromDate);
+    fetch(`/api/bookings?${params}`)
+      .then((r) => r.json())
+      .then((d: { items?: PlacementOccupancy[] }) => {
+        if (!cancelled) setData(d.items?.[0] ?? null);
+      })
+      .catch(() => {
+        if (!cancelled) setData(null);
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [placementId, fromDate, weeks, refreshKey]);
+
+  if (!placementId) return null;
+  if (loading && !data) return <p className="text-[10px] text-slate-400">Henter belægning...</p>;
+  if (!data) return <p className="text-[10px] text-slate-400">Ingen belægningsdata for placeringen.</p>;
+
+  return (
+    <div className="space-y-1">
+      <div className="flex items-center justify-between text-[10px] text-slate-500">
+        <span className="font-semibold uppercase tracking-wide">Belægning — {data.placementName}</span>
+        <span>
+          {data.bookedWeeks}/{data.weeks.length} uger booket
+          {data.doubleBookedWeeks > 0 && (
+            <span className="ml-1 font-semibold text-rose-600">· {data.doubleBookedWeeks} dobbeltbooket</span>
+          )}
+        </span>
+      </div>
+      <div className="flex gap-px overflow-x-auto scroll-slim">
+        {data.weeks.map((w) => {
+          const inRange =
+            !!highlightFrom && !!highlightTo && w.monday >= mondayOf(highlightFrom) && w.monday <= highlightTo;
+          const ownOnly = !!ownRefId && w.bookings.length > 0 && w.bookings.every((b) => b.refId === ownRefId);
+          return (
+            <div
+              key={w.weekKey}
+              title={weekTitle(w)}
+              className={`flex h-6 min-w-[22px] flex-1 items-center justify-center rounded-sm text-[9px] tabular-nums ${
+                ownOnly ? "bg-violet-500 text-white" : CELL_STYLE[w.status]
+              } ${inRange ? "ring-2 ring-amber-400 ring-inset" : ""}`}
+            >
+              {w.week}
+            </div>
+          );
+        })}
+      </div>
+      <div className="flex items-center gap-3 text-[9px] text-slate-400">
+        <span className="flex items-center gap-1"><span className="inline-block h-2 w-2 rounded-sm bg-slate-200" />Ledig</span>
+        <span className="flex items-center gap-1"><span className="inline-block h-2 w-2 rounded-sm bg-blue-500" />Booket</span>
+        {ownRefId && <span className="flex items-center gap-1"><span className="inline-block h-2 w-2 rounded-sm bg-violet-500" />Denne</span>}
+        <span className="flex items-center gap-1"><span className="inline-block h-2 w-2 rounded-sm bg-rose-500" />Dobbeltbooket</span>
+      </div>
+    </div>
+  );
+}
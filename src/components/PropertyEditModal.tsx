@@ -1,6 +1,7 @@
 "use client";
 
 import type { PropertyItem } from "@/contexts/DashboardContext";
+import { EngagementTimeline } from "./dashboard/EngagementTimeline";
 
 export interface PropertyEditModalProps {
   property: PropertyItem | null;
@@ -126,6 +127,10 @@ export function PropertyEditModal({
             </button>
           </div>
         </form>
+        <EngagementTimeline
+          propertyId={property.id}
+          email={property.primaryContact?.email ?? property.contactEmail ?? null}
+        />
       </div>
     </div>
   );
@@ -0,0 +1,138 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import {
+  AGING_BUCKET_LABEL,
+  type AgingBucket,
+  type ReceivablesLedger,
+} from "@/lib/invoice/types";
+
+interface ReceivablesPanelProps {
+  /** Bump to refetch (e.g. after a bank import). */
+  refreshKey?: number;
+  onToast: (message: string, type: "success" | "error" | "info") => void;
+}
+
+const LABEL = "text-[10px] font-semibold uppercase tracking-wide text-slate-500";
+
+const BUCKET_ORDER: AgingBucket[] = ["ikke_forfalden", "0_30", "31_60", "61_90", "over_90"];
+
+const BUCKET_TONE: Record<AgingBucket, string> = {
+  ikke_forfalden: "text-slate-700",
+  "0_30": "text-amber-700",
+  "31_60": "text-orange-700",
+  "61_90": "text-rose-700",
+  over_90: "text-rose-800",
+};
+
+function fmtKr(n: number) {
+  return `${Math.round(n).toLocaleString("da-DK")} kr`;
+}
+
+/** Debitorer: udestående fakturaer, aldersfordeling og forfaldne. */
+export function ReceivablesPanel({ refreshKey = 0, onToast }: ReceivablesPanelProps) {
+  const [ledger, setLedger] = useState<ReceivablesLedger | null>(null);
+  const [reconciling, setReconciling] = useState(false);
+
+  const fetchLedger = useCallback(async () => {
+    try {
+      const r = await fetch("/api/invoices/receivables");
+      setLedger((await r.json()) as ReceivablesLedger);
+    } catch {
+      setLedger(null);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchLedger();
+  }, [fetchLedger, refreshKey]);
+
+  const reconcile = async () => {
+    setReconciling(true);
+    try {
+      const r = await fetch("/api/invoices/reconcile", { method: "POST" });
+      const d = (await r.json()) as { matched?: unknown[]; error?: string };
+      if (!r.ok) { onToast(d.error || "Afstemning fejlede", "error"); return; }
+      const n = d.matched?.length ?? 0;
+      onToast(n > 0 ? `${n} indbetaling${n === 1 ? "" : "er"} matchet til fakturaer` : "Ingen nye indbetalinger at matche", n > 0 ? "success" : "info");
+      await fetchLedger();
+    } catch {
+      onToast("Afstemning fejlede", "error");
+    } finally {
+      setReconciling(false);
+    }
+  };
+
+  if (!ledger || ledger.customers.length === 0) return null;
+
+  return (
+    <div className="rounded-lg border border-slate-200 bg-white p-3">
+      <div className="flex items-center justify-between gap-2">
+        <div>
+          <div className="text-[12px] font-bold text-slate-900">Debitorer</div>
+          <div className="text-[10px] text-slate-400">
+            Udestående {fmtKr(ledger.totalOutstanding)}
+            {ledger.totalOverdue > 0 && <span className="text-rose-600"> · forfaldent {fmtKr(ledger.totalOverdue)}</span>}
+          </div>
+        </div>
+        <button
+          onClick={reconcile}
+          disabled={reconciling}
+          className="h-7 rounded-md border border-slate-300 bg-white px-3 text-[11px] font-semibold text-slate-700 hover:bg-slate-50 disabled:opacity-60"
+        >
+          {reconciling ? "Afstemmer..." : "Afstem mod bank"}
+        </button>
+      </div>
+
+      <div className="mt-2 grid grid-cols-5 gap-1">
+        {BUCKET_ORDER.map((b) => (
+          <div key={b} className="rounded-md bg-slate-50 px-2 py-1">
+            <div className="text-[9px] text-slate-500">{AGING_BUCKET_LABEL[b]}</div>
+            <div className={`text-[11px] font-semibold tabular-nums ${ledger.aging[b] > 0 ? BUCKET_TONE[b] : "text-slate-300"}`}>
+              {fmtKr(ledger.aging[b])}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {ledger.overdue.length > 0 && (
+        <div className="mt-3">
+          <div className={LABEL}>Forfaldne fakturaer</div>
+          <div className="mt-1 divide-y divide-slate-100">
+            {ledger.overdue.map((o) => (
+              <div key={o.id} className="flex items-center justify-between gap-2 py-1 text-[11px]">
+                <div className="min-w-0 truncate">
+                  <span className="font-semibold text-slate-800">#{o.invoiceNumber}</span>{" "}
+                  <span className="text-slate-600">{o.customerName}</span>
+                  {o.caseNumber && <span className="text-slate-400"> · {o.caseNumber}</span>}
+                </div>
+                <div className="flex shrink-0 items-center gap-2">
+                  <span className={`text-[10px] ${BUCKET_TONE[o.bucket]}`}>{o.daysOverdue} dage</span>
+                  <span className="font-semibold tabular-nums text-slate-900">{fmtKr(o.outstanding)}</span>
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <div className="mt-3">
+        <div className={LABEL}>Pr. kunde</div>
+        <div className="mt-1 divide-y divide-slate-100">
+          {ledger.customers.filter((c) => c.outstanding > 0).map((c) => (
+            <div key={c.key} className="flex items-center justify-between gap-2 py-1 text-[11px]">
+              <div className="min-w-0 truncate text-slate-700">
+                {c.customerName}
+                <span className="text-slate-400"> · {c.openInvoices} åben{c.openInvoices === 1 ? "" : "e"}</span>
+              </div>
+              <div className="flex shrink-0 items-center gap-2 tabular-nums">
+                {c.overdue > 0 && <span className="text-[10px] text-rose-600">{fmtKr(c.overdue)} forfalden</span>}
+                <span className="font-semibold text-slate-900">{fmtKr(c.outstanding)}</span>
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
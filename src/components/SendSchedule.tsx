@@ -0,0 +1,210 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import type { MailboxStatus, SendWindow } from "@/lib/outreach/send-schedule";
+
+type MailboxPatch = Partial<Pick<MailboxStatus, "dailyCap" | "warmupEnabled" | "warmupStartCap" | "warmupIncrement" | "paused">> & {
+  restartWarmup?: boolean;
+};
+
+function toTime(minute: number) {
+  return `${String(Math.floor(minute / 60)).padStart(2, "0")}:${String(minute % 60).padStart(2, "0")}`;
+}
+
+function fromTime(value: string): number | null {
+  const m = value.match(/^(\d{1,2}):(\d{2})$/);
+  return m ? Number(m[1]) * 60 + Number(m[2]) : null;
+}
+
+/** Afsendelsesplan: sendevindue og dagligt loft/opvarmning pr. Gmail-konto. */
+export function SendSchedule() {
+  const [sendWindow, setSendWindow] = useState<SendWindow | null>(null);
+  const [mailboxes, setMailboxes] = useState<MailboxStatus[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  const apply = (d: { window?: SendWindow; mailboxes?: MailboxStatus[]; error?: string }) => {
+    if (d.window) setSendWindow(d.window);
+    if (d.mailboxes) setMailboxes(d.mailboxes);
+  };
+
+  const load = useCallback(async () => {
+    try {
+      const r = await fetch("/api/settings/sending");
+      apply(await r.json());
+    } catch {
+      setMailboxes([]);
+    }
+  }, []);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const save = async (body: { window?: Partial<SendWindow>; mailboxes?: (MailboxPatch & { email: string })[] }) => {
+    setError(null);
+    try {
+      const r = await fetch("/api/settings/sending", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+      });
+      const d = (await r.json()) as { window?: SendWindow; mailboxes?: MailboxStatus[]; error?: string };
+      if (!r.ok) throw new Error(d.error || "Kunne ikke gemme");
+      apply(d);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Kunne ikke gemme");
+    }
+  };
+
+  const saveMailbox = (email: string, patch: MailboxPatch) => save({ mailboxes: [{ email, ...patch }] });
+
+  return (
+    <div className="bg-white rounded-2xl border border-slate-200/60 shadow-[var(--card-shadow)] p-5">
+      <div className="flex items-center gap-2 mb-2">
+        <div className="w-7 h-7 rounded-lg bg-sky-50 flex items-center justify-center">
+          <svg className="w-4 h-4 text-sky-600" fill="none" viewBox="0 0 24 24" strokeWidth={2} stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" d="M12 6v6h4.5m4.5 0a9 9 0 11-18 0 9 9 0 0118 0z" /></svg>
+        </div>
+        <h3 className="text-sm font-bold text-slate-800 uppercase tracking-wide">Afsendelsesplan</h3>
+      </div>
+      <p className="text-xs text-slate-500 mb-4">
+        Mail-køen sender kun på hverdage (ikke helligdage) inden for sendevinduet, fordelt på kontiene efter tur
+        og med tilfældig afstand. Nye konti varmes op: de starter lavt og får flere mails pr. hverdag op til loftet.
+      </p>
+
+      {sendWindow && (
+        <div className="flex flex-wrap items-center gap-3 text-xs text-slate-600 mb-4">
+          <label className="flex items-center gap-1.5">
+            Sendevindue
+            <input
+              type="time"
+              defaultValue={toTime(sendWindow.startMinute)}
+              onBlur={(e) => {
+                const v = fromTime(e.target.value);
+                if (v != null && v !== sendWindow.startMinute) save({ window: { startMinute: v } });
+              }}
+              className="rounded-lg border border-slate-200 px-2 py-1 text-xs"
+            />
+            –
+            <input
+              type="time"
+              defaultValue={toTime(sendWindow.endMinute)}
+              onBlur={(e) => {
+                const v = fromTime(e.target.value);
+                if (v != null && v !== sendWindow.endMinute) save({ window: { endMinute: v } });
+              }}
+              className="rounded-lg border border-slate-200 px-2 py-1 text-xs"
+            />
+          </label>
+          <label className="flex items-center gap-1.5">
+            Mindst
+            <input
+              type="number"
+              min={1}
+              defaultValue={sendWindow.minGapMinutes}
+              onBlur={(e) => {
+                const v = Number(e.target.value);
+                if (v > 0 && v !== sendWindow.minGapMinutes) save({ window: { minGapMinutes: v } });
+              }}
+              className="w-14 rounded-lg border border-slate-200 px-2 py-1 text-xs text-center"
+            />
+            min. mellem mails pr. konto
+          </label>
+        </div>
+      )}
+      {error && <p className="text-[11px] text-red-600 mb-2">{error}</p>}
+
+      {mailboxes.length === 0 ? (
+        <p className="text-[11px] text-slate-400">Ingen Gmail-konti konfigureret</p>
+      ) : (
+        <div className="space-y-2">
+          {mailboxes.map((m) => (
+            <div key={m.email} className="rounded-xl border border-slate-100 px-3 py-2">
+              <div className="flex items-center gap-2 text-xs">
+                <span className="font-semibold text-slate-800 truncate">{m.name || m.email}</span>
+                <span className="text-slate-400 truncate">{m.email}</span>
+                <span className="ml-auto tabular-nums text-slate-600 shrink-0">
+                  {m.sentToday}/{m.capToday} i dag
+                </span>
+                {m.paused && <span className="text-[10px] font-semibold text-amber-600 uppercase">Pauset</span>}
+              </div>
+              <div className="flex flex-wrap items-center gap-3 mt-1.5 text-[11px] text-slate-600">
+                <label className="flex items-center gap-1">
+                  Loft
+                  <input
+                    type="number"
+                    min={1}
+                    defaultValue={m.dailyCap}
+                    onBlur={(e) => {
+                      const v = Number(e.target.value);
+                      if (v > 0 && v !== m.dailyCap) saveMailbox(m.email, { dailyCap: v });
+                    }}
+                    className="w-14 rounded border border-slate-200 px-1 py-0.5 text-center"
+                  />
+                  /dag
+                </label>
+                <label className="flex items-center gap-1">
+                  <input
+                    type="checkbox"
+                    checked={m.warmupEnabled}
+                    onChange={(e) => saveMailbox(m.email, { warmupEnabled: e.target.checked })}
+                  />
+                  Opvarmning
+                </label>
+                {m.warmupEnabled && (
+                  <>
+                    <label className="flex items-center gap-1">
+                      start
+                      <input
+                        type="number"
+                        min={1}
+                        defaultValue={m.warmupStartCap}
+                        onBlur={(e) => {
+                          const v = Number(e.target.value);
+                          if (v > 0 && v !== m.warmupStartCap) saveMailbox(m.email, { warmupStartCap: v });
+                        }}
+                        className="w-12 rounded border border-slate-200 px-1 py-0.5 text-center"
+                      />
+                    </label>
+                    <label className="flex items-center gap-1">
+                      +
+                      <input
+                        type="number"
+                        min={0}
+                        defaultValue={m.warmupIncrement}
+                        onBlur={(e) => {
+                          const v = Number(e.target.value);
+                          if (v >= 0 && v !== m.warmupIncrement) saveMailbox(m.email, { warmupIncrement: v });
+                        }}
+                        className="w-12 rounded border border-slate-200 px-1 py-0.5 text-center"
+                      />
+                      pr. hverdag
+                    </label>
+                    <span className="text-slate-400">
+                      {m.warmupStartedOn ? `startet ${new Date(m.warmupStartedOn).toLocaleDateString("da-DK")}` : "ikke startet"}
+                    </span>
+                    {m.warmupStartedOn && (
+                      <button
+                        type="button"
+                        onClick={() => saveMailbox(m.email, { restartWarmup: true })}
+                        className="text-brand-600 hover:text-brand-700"
+                      >
+                        Genstart
+                      </button>
+                    )}
+                  </>
+                )}
+                <button
+                  type="button"
+                  onClick={() => saveMailbox(m.email, { paused: !m.paused })}
+                  className="ml-auto text-slate-500 hover:text-slate-800"
+                >
+                  {m.paused ? "Genoptag" : "Pause"}
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
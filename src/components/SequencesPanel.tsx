@@ -0,0 +1,452 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import type {
+  OutreachSequence,
+  SequenceEnrollment,
+  SequenceInput,
+  SequenceReport,
+  SequenceStep,
+  SequenceStopCondition,
+} from "@/lib/outreach/sequence-types";
+
+type SequenceItem = OutreachSequence & { report: SequenceReport };
+
+const STOP_LABELS: Record<SequenceStopCondition, string> = {
+  reply: "Svar",
+  bounce: "Bounce",
+  unsubscribe: "Afmelding",
+};
+
+const STOP_REASON_LABELS: Record<string, string> = {
+  reply: "Svar",
+  bounce: "Bounce",
+  unsubscribe: "Afmeldt",
+  manual: "Stoppet manuelt",
+  send_failed: "Fejl",
+  status: "Status ændret",
+};
+
+function newStep(delayBusinessDays: number): SequenceStep {
+  return {
+    id: `step-${Date.now()}-${Math.random().toString(36).slice(2, 6)}`,
+    subject: "",
+    body: "",
+    delayBusinessDays,
+    personalize: false,
+  };
+}
+
+function emptySequence(): SequenceInput {
+  return {
+    name: "",
+    description: "",
+    target: "property",
+    steps: [newStep(0), newStep(4)],
+    stopOn: ["reply", "bounce", "unsubscribe"],
+    active: true,
+  };
+}
+
+function pct(rate: number) {
+  return `${Math.round(rate * 100)}%`;
+}
+
+/**
+ * Outreach-sekvenser: flertrins-forløb for ejendomme og OOH-kontakter,
+ * med rapport pr. trin (åbnet / klik / svar).
+ */
+export function SequencesPanel({
+  selectedPropertyIds,
+  onToast,
+}: {
+  selectedPropertyIds: string[];
+  onToast: (message: string, type: "success" | "error" | "info") => void;
+}) {
+  const [items, setItems] = useState<SequenceItem[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [editing, setEditing] = useState<{ id: string | null; input: SequenceInput } | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const [enrollments, setEnrollments] = useState<SequenceEnrollment[]>([]);
+  const [oohContacts, setOohContacts] = useState<{ id: string; name: string; company: string; email: string }[]>([]);
+  const [selectedContacts, setSelectedContacts] = useState<Set<string>>(new Set());
+
+  const load = useCallback(async () => {
+    try {
+      const r = await fetch("/api/sequences");
+      const d = (await r.json()) as { items?: SequenceItem[] };
+      setItems(d.items || []);
+    } catch {
+      setItems([]);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const expand = async (seq: SequenceItem) => {
+    if (expanded === seq.id) {
+      setExpanded(null);
+      return;
+    }
+    setExpanded(seq.id);
+    setEnrollments([]);
+    setSelectedContacts(new Set());
+    const r = await fetch(`/api/sequences/${seq.id}`);
+    const d = (await r.json()) as { enrollments?: SequenceEnrollment[] };
+    setEnrollments(d.enrollments || []);
+    if (seq.target === "ooh_contact" && oohContacts.length === 0) {
+      const c = await fetch("/api/ooh/contacts").then((res) => res.json()).catch(() => ({}));
+      setOohContacts((c as { contacts?: typeof oohContacts }).contacts || []);
+    }
+  };
+
+  const save = async () => {
+    if (!editing) return;
+    setSaving(true);
+    try {
+      const r = await fetch(editing.id ? `/api/sequences/${editing.id}` : "/api/sequences", {
+        method: editing.id ? "PUT" : "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(editing.input),
+      });
+      const d = (await r.json()) as { error?: string };
+      if (!r.ok) throw new Error(d.error || "Kunne ikke gemme");
+      onToast("Sekvens gemt", "success");
+      setEditing(null);
+      await load();
+    } catch (e) {
+      onToast(e instanceof Error ? e.message : "Kunne ikke gemme", "error");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const remove = async (seq: SequenceItem) => {
+    const r = await fetch(`/api/sequences/${seq.id}`, { method: "DELETE" });
+    const d = (await r.json()) as { error?: string };
+    if (!r.ok) {
+      onToast(d.error || "Kunne ikke slette", "error");
+      return;
+    }
+    await load();
+  };
+
+  const enroll = async (seq: SequenceItem, targetIds: string[]) => {
+    const r = await fetch(`/api/sequences/${seq.id}/enroll`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ targetIds }),
+    });
+    const d = (await r.json()) as { error?: string; enrolled?: number; results?: { targetId: string; error?: string }[] };
+    if (!r.ok) {
+      onToast(d.error || "Kunne ikke tilmelde", "error");
+      return;
+    }
+    const skipped = (d.results || []).filter((x) => x.error);
+    onToast(
+      `${d.enrolled || 0} tilmeldt${skipped.length ? ` · ${skipped.length} sprunget over (${skipped[0].error})` : ""}`,
+      skipped.length && !d.enrolled ? "error" : "success"
+    );
+    setSelectedContacts(new Set());
+    setExpanded(null);
+    await load();
+  };
+
+  const stopEnrollment = async (id: string) => {
+    const r = await fetch(`/api/sequences/enrollments/${id}`, { method: "DELETE" });
+    if (r.ok) {
+      setEnrollments((prev) => prev.map((e) => (e.id === id ? { ...e, status: "stopped", stopReason: "manual" } : e)));
+    }
+  };
+
+  const setStep = (index: number, patch: Partial<SequenceStep>) => {
+    setEditing((prev) =>
+      prev && { ...prev, input: { ...prev.input, steps: prev.input.steps.map((s, i) => (i === index ? { ...s, ...patch } : s)) } }
+    );
+  };
+
+  return (
+    <div className="bg-white rounded-2xl border border-slate-200/60 shadow-[var(--card-shadow)] overflow-hidden mt-6">
+      <div className="px-6 py-4 border-b border-slate-100 flex items-center justify-between">
+        <div>
+          <span className="font-bold text-sm text-slate-900">Sekvenser</span>
+          <span className="text-xs text-slate-400 ml-2">Flertrins-forløb – sendes via mail-køen, stopper ved svar, bounce og afmelding</span>
+        </div>
+        <button
+          onClick={() => setEditing({ id: null, input: emptySequence() })}
+          className="px-3 py-1.5 text-xs font-semibold text-white bg-brand-600 rounded-lg hover:bg-brand-700"
+        >
+          Ny sekvens
+        </button>
+      </div>
+
+      {editing && (
+        <div className="p-4 border-b border-slate-100 bg-slate-50/60 space-y-3">
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-2">
+            <input
+              value={editing.input.name}
+              onChange={(e) => setEditing({ ...editing, input: { ...editing.input, name: e.target.value } })}
+              placeholder="Navn, fx 'Ejer – 3 trin'"
+              className="rounded-lg border border-slate-200 px-3 py-1.5 text-xs"
+            />
+            <select
+              value={editing.input.target}
+              onChange={(e) => setEditing({ ...editing, input: { ...editing.input, target: e.target.value as SequenceInput["target"] } })}
+              className="rounded-lg border border-slate-200 px-3 py-1.5 text-xs"
+            >
+              <option value="property">Ejendomme</option>
+              <option value="ooh_contact">OOH-kontakter</option>
+            </select>
+            <div className="flex items-center gap-3 text-[11px] text-slate-600">
+              <span className="text-slate-400">Stop ved:</span>
+              {(Object.keys(STOP_LABELS) as SequenceStopCondition[]).map((c) => (
+                <label key={c} className="flex items-center gap-1">
+                  <input
+                    type="checkbox"
+                    checked={editing.input.stopOn.includes(c)}
+                    disabled={c === "unsubscribe"}
+                    onChange={(e) =>
+                      setEditing({
+                        ...editing,
+                        input: {
+                          ...editing.input,
+                          stopOn: e.target.checked ? [...editing.input.stopOn, c] : editing.input.stopOn.filter((x) => x !== c),
+                        },
+                      })
+                    }
+                  />
+                  {STOP_LABELS[c]}
+                </label>
+              ))}
+            </div>
+          </div>
+          <p className="text-[10px] text-slate-400">
+            Pladsholdere: {"{name}"}, {"{company}"}, {"{address}"}, {"{city}"}.
+            {editing.input.target === "property" && " Tomt trin 1 = ejendommens eget AI-udkast."}
+          </p>
+
+          {editing.input.steps.map((step, i) => (
+            <div key={step.id} className="rounded-xl border border-slate-200 bg-white p-3 space-y-2">
+              <div className="flex items-center gap-3 text-[11px] text-slate-600">
+                <span className="font-bold text-slate-800">Trin {i + 1}</span>
+                <label className="flex items-center gap-1">
+                  {i === 0 ? "Start efter" : "Efter"}
+                  <input
+                    type="number"
+                    min={0}
+                    max={60}
+                    value={step.delayBusinessDays}
+                    onChange={(e) => setStep(i, { delayBusinessDays: Number(e.target.value) || 0 })}
+                    className="w-12 rounded border border-slate-200 px-1 py-0.5 text-center"
+                  />
+                  hverdage
+                </label>
+                <label className="flex items-center gap-1">
+                  <input type="checkbox" checked={step.personalize} onChange={(e) => setStep(i, { personalize: e.target.checked })} />
+                  AI-personalisering
+                </label>
+                {editing.input.steps.length > 1 && (
+                  <button
+                    onClick={() => setEditing({ ...editing, input: { ...editing.input, steps: editing.input.steps.filter((_, j) => j !== i) } })}
+                    className="ml-auto text-slate-400 hover:text-red-500"
+                    title="Fjern trin"
+                  >
+                    ×
+                  </button>
+                )}
+              </div>
+              <input
+                value={step.subject}
+                onChange={(e) => setStep(i, { subject: e.target.value })}
+                placeholder="Emne"
+                className="w-full rounded-lg border border-slate-200 px-3 py-1.5 text-xs"
+              />
+              <textarea
+                value={step.body}
+                onChange={(e) => setStep(i, { body: e.target.value })}
+                rows={4}
+                placeholder="Tekst"
+                className="w-full rounded-lg border border-slate-200 px-3 py-1.5 text-xs"
+              />
+              {step.personalize && (
+                <input
+                  value={step.aiInstruction || ""}
+                  onChange={(e) => setStep(i, { aiInstruction: e.target.value })}
+                  placeholder="Instruktion til AI, fx 'nævn trafiktal'"
+                  className="w-full rounded-lg border border-slate-200 px-3 py-1.5 text-xs"
+                />
+              )}
+            </div>
+          ))}
+
+          <div className="flex items-center gap-2">
+            <button
+              onClick={() => setEditing({ ...editing, input: { ...editing.input, steps: [...editing.input.steps, newStep(5)] } })}
+              disabled={editing.input.steps.length >= 10}
+              className="px-3 py-1.5 text-xs font-medium text-slate-600 bg-white border border-slate-200 rounded-lg hover:bg-slate-50 disabled:opacity-40"
+            >
+              + Trin
+            </button>
+            <label className="flex items-center gap-1 text-[11px] text-slate-600 ml-2">
+              <input
+                type="checkbox"
+                checked={editing.input.active}
+                onChange={(e) => setEditing({ ...editing, input: { ...editing.input, active: e.target.checked } })}
+              />
+              Aktiv
+            </label>
+            <div className="ml-auto flex gap-2">
+              <button onClick={() => setEditing(null)} className="px-3 py-1.5 text-xs text-slate-500 hover:text-slate-700">
+                Annuller
+              </button>
+              <button
+                onClick={save}
+                disabled={saving}
+                className="px-3 py-1.5 text-xs font-semibold text-white bg-slate-900 rounded-lg disabled:opacity-40"
+              >
+                {saving ? "Gemmer…" : "Gem sekvens"}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      <div className="divide-y divide-slate-100">
+        {loading ? (
+          <p className="p-4 text-sm text-slate-400">Indlæser…</p>
+        ) : items.length === 0 ? (
+          <p className="p-4 text-sm text-slate-500">Ingen sekvenser endnu.</p>
+        ) : (
+          items.map((seq) => (
+            <div key={seq.id} className="px-6 py-4">
+              <div className="flex items-center gap-3">
+                <button onClick={() => expand(seq)} className="text-left flex-1 min-w-0">
+                  <span className="font-semibold text-sm text-slate-900">{seq.name}</span>
+                  <span className="text-xs text-slate-400 ml-2">
+                    {seq.target === "property" ? "Ejendomme" : "OOH-kontakter"} · {seq.steps.length} trin ·{" "}
+                    {seq.report.enrollments.active} aktive · {seq.report.enrollments.completed} gennemført ·{" "}
+                    {seq.report.enrollments.stopped} stoppet
+                  </span>
+                  {!seq.active && <span className="ml-2 text-[10px] font-semibold text-amber-600 uppercase">Deaktiveret</span>}
+                </button>
+                {seq.target === "property" && seq.active && (
+                  <button
+                    onClick={() => enroll(seq, selectedPropertyIds)}
+                    disabled={selectedPropertyIds.length === 0}
+                    className="text-xs font-medium text-emerald-600 hover:text-emerald-700 px-3 py-1.5 rounded-lg hover:bg-emerald-50 disabled:opacity-40"
+                    title="Tilmeld de valgte ejendomme under 'Klar til godkendelse'"
+                  >
+                    Tilmeld {selectedPropertyIds.length} valgte
+                  </button>
+                )}
+                <button
+                  onClick={() => setEditing({ id: seq.id, input: { name: seq.name, description: seq.description, target: seq.target, steps: seq.steps, stopOn: seq.stopOn, active: seq.active } })}
+                  className="text-xs font-medium text-brand-600 hover:text-brand-700 px-3 py-1.5 rounded-lg hover:bg-brand-50"
+                >
+                  Rediger
+                </button>
+                <button onClick={() => remove(seq)} className="text-slate-400 hover:text-red-500 text-sm" title="Slet sekvens">×</button>
+              </div>
+
+              <table className="w-full text-[11px] mt-2">
+                <thead>
+                  <tr className="text-left text-slate-400">
+                    <th className="py-1 font-medium">Trin</th>
+                    <th className="py-1 font-medium text-right">Sendt</th>
+                    <th className="py-1 font-medium text-right">Åbnet</th>
+                    <th className="py-1 font-medium text-right">Klik</th>
+                    <th className="py-1 font-medium text-right">Svar</th>
+                    <th className="py-1 font-medium text-right">Fejl</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {seq.report.steps.map((s) => (
+                    <tr key={s.stepIndex} className="border-t border-slate-100 text-slate-600">
+                      <td className="py-1 truncate max-w-[220px]">
+                        {s.stepIndex + 1}. {seq.steps[s.stepIndex]?.subject || (s.stepIndex === 0 ? "(ejendommens udkast)" : "–")}
+                      </td>
+                      <td className="py-1 text-right tabular-nums">{s.sent}</td>
+                      <td className="py-1 text-right tabular-nums">{pct(s.openRate)}</td>
+                      <td className="py-1 text-right tabular-nums">{pct(s.clickRate)}</td>
+                      <td className="py-1 text-right tabular-nums font-semibold">{pct(s.replyRate)}</td>
+                      <td className="py-1 text-right tabular-nums">{s.failed}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+
+              {expanded === seq.id && (
+                <div className="mt-3 border-t border-slate-100 pt-3 space-y-3">
+                  {seq.target === "ooh_contact" && seq.active && (
+                    <div>
+                      <div className="text-[10px] font-semibold text-slate-400 uppercase tracking-wider mb-1">Tilmeld OOH-kontakter</div>
+                      <div className="max-h-40 overflow-y-auto space-y-0.5">
+                        {oohContacts.map((c) => (
+                          <label key={c.id} className="flex items-center gap-2 text-[11px] text-slate-600">
+                            <input
+                              type="checkbox"
+                              checked={selectedContacts.has(c.id)}
+                              onChange={(e) =>
+                                setSelectedContacts((prev) => {
+                                  const next = new Set(prev);
+                                  e.target.checked ? next.add(c.id) : next.delete(c.id);
+                                  return next;
+                                })
+                              }
+                            />
+                            <span className="truncate">{c.name} · {c.company} · {c.email}</span>
+                          </label>
+                        ))}
+                      </div>
+                      <button
+                        onClick={() => enroll(seq, [...selectedContacts])}
+                        disabled={selectedContacts.size === 0}
+                        className="mt-2 px-3 py-1.5 text-xs font-semibold text-white bg-emerald-600 rounded-lg disabled:opacity-40"
+                      >
+                        Tilmeld {selectedContacts.size}
+                      </button>
+                    </div>
+                  )}
+
+                  <div>
+                    <div className="text-[10px] font-semibold text-slate-400 uppercase tracking-wider mb-1">Modtagere</div>
+                    {enrollments.length === 0 ? (
+                      <p className="text-[11px] text-slate-400">Ingen tilmeldte endnu</p>
+                    ) : (
+                      <ul className="space-y-1 max-h-56 overflow-y-auto">
+                        {enrollments.map((e) => (
+                          <li key={e.id} className="flex items-center gap-2 text-[11px] text-slate-600">
+                            <span className="flex-1 truncate">{e.label || e.email} · {e.email}</span>
+                            <span className="text-slate-400 shrink-0">
+                              {e.status === "active"
+                                ? e.nextRunAt
+                                  ? `Trin ${e.currentStep + 1} ${new Date(e.nextRunAt).toLocaleDateString("da-DK")}`
+                                  : `Trin ${e.currentStep + 1} i kø`
+                                : e.status === "completed"
+                                  ? "Gennemført"
+                                  : STOP_REASON_LABELS[e.stopReason || ""] || "Stoppet"}
+                            </span>
+                            {e.status === "active" && (
+                              <button onClick={() => stopEnrollment(e.id)} className="text-slate-400 hover:text-red-500 shrink-0" title="Stop sekvensen">
+                                ×
+                              </button>
+                            )}
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                  </div>
+                </div>
+              )}
+            </div>
+          ))
+        )}
+      </div>
+    </div>
+  );
+}
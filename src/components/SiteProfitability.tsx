@@ -0,0 +1,83 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import type { SiteProfitability as SiteRow } from "@/lib/case/timeline";
+
+function fmtKr(n: number) {
+  return `${Math.round(n).toLocaleString("da-DK")} kr`;
+}
+
+/** Rentabilitet pr. stillads: budget vs. realiseret DB, belægning og tomme uger. */
+export function SiteProfitability() {
+  const [items, setItems] = useState<SiteRow[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    (async () => {
+      try {
+        const r = await fetch("/api/cases/sites");
+        const d = (await r.json()) as { items?: SiteRow[] };
+        setItems(d.items || []);
+      } catch {
+        setItems([]);
+      } finally {
+        setLoading(false);
+      }
+    })();
+  }, []);
+
+  return (
+    <div className="rounded-lg border border-slate-200 bg-white p-3">
+      <div className="text-[12px] font-bold text-slate-900 mb-1">Rentabilitet pr. stillads</div>
+      <p className="text-[10px] text-slate-500 mb-2">
+        Realiseret DB = faktureret medieindtægt minus bygherreandel og bogførte omkostninger (leverandørfakturaer + knyttede banktransaktioner).
+        Tomme uger er perioder hvor stilladset stod uden aktivt salg.
+      </p>
+      {loading ? (
+        <div className="text-[11px] text-slate-400">Indlæser…</div>
+      ) : items.length === 0 ? (
+        <div className="text-[11px] text-slate-400">Ingen stilladser med cases endnu</div>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-[11px]">
+            <thead>
+              <tr className="text-left text-[10px] uppercase tracking-wide text-slate-500 border-b border-slate-200">
+                <th className="py-1 pr-2">Adresse</th>
+                <th className="py-1 px-2 text-right">m²</th>
+                <th className="py-1 px-2 text-right">Uger oppe</th>
+                <th className="py-1 px-2 text-right">Solgt</th>
+                <th className="py-1 px-2 text-right">Tomme</th>
+                <th className="py-1 px-2 text-right">Belægning</th>
+                <th className="py-1 px-2 text-right">Budget-DB</th>
+                <th className="py-1 px-2 text-right">Realiseret DB</th>
+                <th className="py-1 pl-2 text-right">kr/m²/uge</th>
+              </tr>
+            </thead>
+            <tbody>
+              {items.map((s) => (
+                <tr key={s.address} className="border-b border-slate-100">
+                  <td className="py-1 pr-2">
+                    {s.address}
+                    {s.caseIds.length > 1 && <span className="ml-1 text-[10px] text-slate-400">({s.caseIds.length} cases)</span>}
+                  </td>
+                  <td className="py-1 px-2 text-right tabular-nums">{s.areaSqm.toLocaleString("da-DK")}</td>
+                  <td className="py-1 px-2 text-right tabular-nums">{s.weeksUp}</td>
+                  <td className="py-1 px-2 text-right tabular-nums">{s.weeksBooked}</td>
+                  <td className={`py-1 px-2 text-right tabular-nums ${s.idleWeeks > 0 ? "text-amber-700 font-semibold" : ""}`}>{s.idleWeeks}</td>
+                  <td className="py-1 px-2 text-right tabular-nums">{s.occupancyPct}%</td>
+                  <td className="py-1 px-2 text-right tabular-nums">{fmtKr(s.budgetMargin)}</td>
+                  <td className={`py-1 px-2 text-right tabular-nums ${s.realizedMargin < s.budgetMargin ? "text-rose-600" : "text-emerald-700"}`}>
+                    {fmtKr(s.realizedMargin)}
+                  </td>
+                  <td className="py-1 pl-2 text-right tabular-nums">
+                    {s.revenuePerSqmWeek != null ? s.revenuePerSqmWeek.toLocaleString("da-DK") : "—"}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -117,6 +117,8 @@ export default function StagingQueue() {
   const [selected, setSelected] = useState<Set<string>>(new Set());
   const [approving, setApproving] = useState(false);
   const [generatingDraft, setGeneratingDraft] = useState(false);
+  const [templates, setTemplates] = useState<{ id: string; name: string; version: number }[]>([]);
+  const [draftTemplateId, setDraftTemplateId] = useState("");
   const [rejecting, setRejecting] = useState(false);
   const [expandedId, setExpandedId] = useState<string | null>(null);
   const [toasts, setToasts] = useState<Toast[]>([]);
@@ -165,6 +167,13 @@ export default function StagingQueue() {
 
   useEffect(() => { fetchProperties(); }, [fetchProperties]);
 
+  useEffect(() => {
+    fetch("/api/email-templates")
+      .then(res => res.json())
+      .then(data => setTemplates(data.items || []))
+      .catch(() => {});
+  }, []);
+
   // Stable boolean: is any research in progress? (avoids effect re-runs on every SSE update)
   const hasActiveResearch = Object.keys(researchProgress).length > 0;
 
@@ -323,12 +332,16 @@ export default function StagingQueue() {
       const res = await fetch("/api/staged-properties/generate-draft", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ ids: researchedNoDraft.map(p => p.id) }),
+        body: JSON.stringify({ ids: researchedNoDraft.map(p => p.id), templateId: draftTemplateId || undefined }),
       });
       const data = await res.json();
       if (data.ok) {
         setSelected(prev => new Set([...prev].filter(id => !researchedNoDraft.some(p => p.id === id))));
         addToast(`${data.generated} mail-udkast genereret (stadig internt)`, "success");
+        if (data.failed > 0) {
+          const firstError = (data.results as { success: boolean; error?: string }[]).find(r => !r.success)?.error;
+          addToast(`${data.failed} kunne ikke genereres`, "error", firstError);
+        }
         await fetchProperties();
         fetchDashboard();
       } else {
@@ -339,7 +352,7 @@ export default function StagingQueue() {
     } finally {
       setGeneratingDraft(false);
     }
-  }, [selected, properties, addToast, fetchProperties, fetchDashboard]);
+  }, [selected, properties, draftTemplateId, addToast, fetchProperties, fetchDashboard]);
 
   // ── Push to HubSpot (approved/researched with draft only) ──
   const handleApprove = useCallback(async (ids?: string[]) => {
@@ -527,6 +540,21 @@ export default function StagingQueue() {
 
   const activeCount = counts.new + counts.researching + counts.researched + counts.approved;
 
+  // Draft source for "generer mail": the AI, or one of the saved templates
+  const templatePicker = templates.length > 0 && (
+    <select
+      value={draftTemplateId}
+      onChange={e => setDraftTemplateId(e.target.value)}
+      title="Hvordan mail-udkastet skrives"
+      className="px-2 py-1.5 rounded-lg border border-slate-200 bg-white text-xs text-slate-700 focus:outline-none focus:ring-2 focus:ring-indigo-500/30"
+    >
+      <option value="">AI-udkast</option>
+      {templates.map(t => (
+        <option key={t.id} value={t.id}>Skabelon: {t.name} (v{t.version})</option>
+      ))}
+    </select>
+  );
+
   // ─── RENDER ───────────────────────────────────────────────
 
   return (
@@ -787,6 +815,7 @@ export default function StagingQueue() {
           return (
             <div className="flex items-center gap-2 ml-auto animate-fade-in">
               <span className="text-xs text-slate-500 tabular-nums">{selected.size} valgt</span>
+              {researchedNoDraft.length > 0 && templatePicker}
               {researchedNoDraft.length > 0 && (
                 <button
                   onClick={() => handleGenerateDraft()}
@@ -1409,6 +1438,7 @@ export default function StagingQueue() {
                               Kør research
                             </button>
                           )}
+                          {(prop.stage === "researched" || prop.stage === "approved") && !rp && templatePicker}
                           {prop.stage === "researched" && !rp && (
                             <button
                               onClick={() => handleGenerateDraft([prop.id])}
@@ -0,0 +1,156 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import type { EmailSuppression, SuppressionBlock } from "@/lib/outreach/suppression-store";
+import type { BounceRecord } from "@/lib/outreach/bounce-store";
+
+const REASON_LABELS: Record<string, string> = {
+  unsubscribe: "Afmeldt",
+  manual: "Manuel",
+  bounce: "Bounce",
+};
+
+function fmtDate(iso: string) {
+  return new Date(iso).toLocaleString("da-DK", { dateStyle: "short", timeStyle: "short" });
+}
+
+/** Blokeringsliste: afmeldte adresser/domæner og seneste stoppede afsendelser. */
+export function SuppressionList() {
+  const [items, setItems] = useState<EmailSuppression[]>([]);
+  const [blocks, setBlocks] = useState<SuppressionBlock[]>([]);
+  const [bounces, setBounces] = useState<BounceRecord[]>([]);
+  const [value, setValue] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const load = useCallback(async () => {
+    try {
+      const r = await fetch("/api/settings/suppressions");
+      const d = (await r.json()) as { items?: EmailSuppression[]; blocks?: SuppressionBlock[]; bounces?: BounceRecord[] };
+      setItems(d.items || []);
+      setBlocks(d.blocks || []);
+      setBounces(d.bounces || []);
+    } catch {
+      setItems([]);
+      setBlocks([]);
+      setBounces([]);
+    }
+  }, []);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const add = async () => {
+    setSaving(true);
+    setError(null);
+    try {
+      const r = await fetch("/api/settings/suppressions", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ value }),
+      });
+      const d = (await r.json()) as { error?: string };
+      if (!r.ok) throw new Error(d.error || "Kunne ikke gemme");
+      setValue("");
+      await load();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Kunne ikke gemme");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const remove = async (id: string) => {
+    const r = await fetch(`/api/settings/suppressions?id=${encodeURIComponent(id)}`, { method: "DELETE" });
+    if (r.ok) setItems((prev) => prev.filter((s) => s.id !== id));
+  };
+
+  return (
+    <div className="bg-white rounded-2xl border border-slate-200/60 shadow-[var(--card-shadow)] p-5">
+      <div className="flex items-center gap-2 mb-2">
+        <div className="w-7 h-7 rounded-lg bg-rose-50 flex items-center justify-center">
+          <svg className="w-4 h-4 text-rose-600" fill="none" viewBox="0 0 24 24" strokeWidth={2} stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" d="M18.364 18.364A9 9 0 005.636 5.636m12.728 12.728A9 9 0 015.636 5.636m12.728 12.728L5.636 5.636" /></svg>
+        </div>
+        <h3 className="text-sm font-bold text-slate-800 uppercase tracking-wide">Afmeldinger & blokeringsliste</h3>
+      </div>
+      <p className="text-xs text-slate-500 mb-4">
+        Adresser og domæner her får aldrig mail – hverken fra mail-køen, OOH-kampagner, forslag eller opfølgninger.
+        Afmeldinger via link eller svar og hårde bounces tilføjes automatisk.
+      </p>
+
+      <div className="flex gap-2 mb-3">
+        <input
+          value={value}
+          onChange={(e) => setValue(e.target.value)}
+          onKeyDown={(e) => { if (e.key === "Enter" && value.trim()) add(); }}
+          placeholder="navn@firma.dk eller firma.dk"
+          className="flex-1 rounded-lg border border-slate-200 px-3 py-1.5 text-xs"
+        />
+        <button
+          type="button"
+          onClick={add}
+          disabled={saving || !value.trim()}
+          className="rounded-lg bg-slate-900 px-3 py-1.5 text-xs font-semibold text-white disabled:opacity-40"
+        >
+          Bloker
+        </button>
+      </div>
+      {error && <p className="text-[11px] text-red-600 mb-2">{error}</p>}
+
+      {items.length === 0 ? (
+        <p className="text-[11px] text-slate-400">Ingen blokerede adresser</p>
+      ) : (
+        <ul className="space-y-1 max-h-56 overflow-y-auto">
+          {items.map((s) => (
+            <li key={s.id} className="flex items-center gap-2 text-[11px] text-slate-600">
+              <span className="px-1.5 py-0.5 rounded bg-rose-50 text-rose-700 text-[10px] font-semibold shrink-0">
+                {s.kind === "domain" ? "Domæne" : REASON_LABELS[s.reason] || s.reason}
+              </span>
+              <span className="flex-1 truncate" title={s.note || undefined}>{s.value}</span>
+              <span className="text-slate-400 shrink-0">{s.source} · {fmtDate(s.createdAt)}</span>
+              <button type="button" onClick={() => remove(s.id)} className="text-slate-400 hover:text-red-500 shrink-0" title="Fjern fra listen">×</button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {bounces.length > 0 && (
+        <div className="mt-4 border-t border-slate-100 pt-3">
+          <div className="text-[10px] font-semibold text-slate-400 uppercase tracking-wider mb-2">
+            Seneste bounces
+          </div>
+          <ul className="space-y-1 max-h-40 overflow-y-auto">
+            {bounces.map((b) => (
+              <li key={b.messageId} className="flex items-center gap-2 text-[11px] text-slate-600">
+                <span className={`px-1.5 py-0.5 rounded text-[10px] font-semibold shrink-0 ${b.kind === "hard" ? "bg-red-50 text-red-700" : "bg-amber-50 text-amber-700"}`}>
+                  {b.kind === "hard" ? "Hård" : "Blød"}
+                </span>
+                <span className="flex-1 truncate" title={b.diagnostic || undefined}>
+                  {b.recipient || "Ukendt modtager"}{b.statusCode ? ` · ${b.statusCode}` : ""}
+                </span>
+                <span className="text-slate-400 shrink-0">{fmtDate(b.receivedAt || b.createdAt)}</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {blocks.length > 0 && (
+        <div className="mt-4 border-t border-slate-100 pt-3">
+          <div className="text-[10px] font-semibold text-slate-400 uppercase tracking-wider mb-2">
+            Stoppede afsendelser
+          </div>
+          <ul className="space-y-1 max-h-40 overflow-y-auto">
+            {blocks.map((b) => (
+              <li key={b.id} className="flex items-center gap-2 text-[11px] text-slate-600">
+                <span className="flex-1 truncate">{b.email}</span>
+                <span className="text-slate-400 shrink-0">{b.source} · {fmtDate(b.createdAt)}</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
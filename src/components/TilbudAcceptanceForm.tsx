@@ -0,0 +1,79 @@
+"use client";
+
+import { useState } from "react";
+import type { AcceptanceDecision } from "@/lib/tilbud/acceptance-types";
+
+interface TilbudAcceptanceFormProps {
+  token: string;
+}
+
+export function TilbudAcceptanceForm({ token }: TilbudAcceptanceFormProps) {
+  const [signerName, setSignerName] = useState("");
+  const [signerTitle, setSignerTitle] = useState("");
+  const [comment, setComment] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState("");
+  const [done, setDone] = useState<{ decision: AcceptanceDecision; createdAt: string } | null>(null);
+
+  const submit = async (decision: AcceptanceDecision) => {
+    setError("");
+    if (!signerName.trim()) { setError("Udfyld dit navn"); return; }
+    const verb = decision === "accepted" ? "acceptere" : "afvise";
+    if (!confirm(`Er du sikker på, at du vil ${verb} tilbuddet?`)) return;
+    setSubmitting(true);
+    try {
+      const r = await fetch("/api/public/tilbud/respond", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ token, decision, signerName, signerTitle, comment }),
+      });
+      const d = (await r.json()) as { success?: boolean; decision?: AcceptanceDecision; createdAt?: string; error?: string };
+      if (!r.ok || !d.success) { setError(d.error || "Kunne ikke registrere dit svar"); return; }
+      setDone({ decision: d.decision || decision, createdAt: d.createdAt || new Date().toISOString() });
+    } catch {
+      setError("Netværksfejl — prøv igen");
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  if (done) {
+    return (
+      <div className={`rounded-lg border p-4 text-sm ${done.decision === "accepted" ? "border-emerald-300 bg-emerald-50 text-emerald-800" : "border-slate-300 bg-slate-50 text-slate-700"}`}>
+        {done.decision === "accepted" ? "Tak! Tilbuddet er accepteret" : "Tilbuddet er afvist"} — registreret {new Date(done.createdAt).toLocaleString("da-DK")}.
+        {done.decision === "accepted" && " Vi kontakter dig snarest om det videre forløb."}
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="grid gap-3 sm:grid-cols-2">
+        <label className="text-xs text-slate-600">
+          Navn *
+          <input className="input-field mt-1" value={signerName} onChange={(e) => setSignerName(e.target.value)} autoComplete="name" />
+        </label>
+        <label className="text-xs text-slate-600">
+          Titel
+          <input className="input-field mt-1" value={signerTitle} onChange={(e) => setSignerTitle(e.target.value)} autoComplete="organization-title" />
+        </label>
+      </div>
+      <label className="block text-xs text-slate-600">
+        Kommentar (valgfri)
+        <textarea className="input-field mt-1" rows={3} value={comment} onChange={(e) => setComment(e.target.value)} />
+      </label>
+      {error && <p className="text-xs text-rose-600">{error}</p>}
+      <div className="flex flex-wrap gap-2">
+        <button onClick={() => submit("accepted")} disabled={submitting} className="btn-success">
+          {submitting ? "Sender..." : "Accepter tilbud"}
+        </button>
+        <button onClick={() => submit("rejected")} disabled={submitting} className="btn-secondary">
+          Afvis tilbud
+        </button>
+      </div>
+      <p className="text-[11px] text-slate-400">
+        Ved accept bekræfter du at have bemyndigelse til at indgå aftalen. Tidspunkt og navn registreres.
+      </p>
+    </div>
+  );
+}
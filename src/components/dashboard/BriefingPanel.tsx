@@ -128,6 +128,9 @@ export function BriefingPanel() {
               {briefing.data.ooh && briefing.data.ooh.activeCampaigns > 0 && (
                 <StatCard label="Aktive kampagner" value={briefing.data.ooh.activeCampaigns} accent="emerald" />
               )}
+              {briefing.data.receivables && briefing.data.receivables.overdueCount > 0 && (
+                <StatCard label="Forfaldne fakturaer" value={briefing.data.receivables.overdueCount} accent="red" />
+              )}
             </div>
           )}
         </div>
@@ -0,0 +1,129 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import {
+  ENGAGEMENT_KIND_LABELS,
+  type EngagementEvent,
+  type EngagementKind,
+} from "@/lib/outreach/engagement-types";
+
+const KIND_DOT: Record<EngagementKind, string> = {
+  email_sent: "bg-slate-400",
+  email_received: "bg-slate-300",
+  email_opened: "bg-sky-400",
+  email_clicked: "bg-sky-600",
+  email_replied: "bg-emerald-500",
+  proposal_generated: "bg-violet-400",
+  tilbud_sent: "bg-indigo-500",
+  tilbud_accepted: "bg-emerald-600",
+  case_created: "bg-amber-500",
+  call_note: "bg-rose-400",
+  note: "bg-slate-300",
+};
+
+interface EngagementTimelineProps {
+  /** Contact to show; the company behind its domain is included. */
+  email?: string | null;
+  propertyId?: string | null;
+}
+
+/** Engagement-tidslinje for en kontakt og/eller ejendom, med mulighed for at logge et opkald. */
+export function EngagementTimeline({ email, propertyId }: EngagementTimelineProps) {
+  const [items, setItems] = useState<EngagementEvent[] | null>(null);
+  const [note, setNote] = useState("");
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    if (!email && !propertyId) {
+      setItems([]);
+      return;
+    }
+    const params = new URLSearchParams();
+    if (email) {
+      params.set("email", email);
+      params.set("withCompany", "1");
+    }
+    if (propertyId) params.set("propertyId", propertyId);
+    try {
+      const r = await fetch(`/api/engagement?${params}`);
+      const d = (await r.json()) as { items?: EngagementEvent[] };
+      setItems(d.items || []);
+    } catch {
+      setItems([]);
+    }
+  }, [email, propertyId]);
+
+  useEffect(() => {
+    setItems(null);
+    load();
+  }, [load]);
+
+  const logCall = async () => {
+    setSaving(true);
+    setError(null);
+    try {
+      const r = await fetch("/api/engagement", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          kind: "call_note",
+          email: email || undefined,
+          propertyId: propertyId || undefined,
+          summary: note,
+        }),
+      });
+      const d = (await r.json()) as { error?: string };
+      if (!r.ok) throw new Error(d.error || "Kunne ikke gemme");
+      setNote("");
+      await load();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Kunne ikke gemme");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="border-t border-slate-100 px-5 py-3">
+      <span className="text-[10px] font-semibold text-slate-400 uppercase tracking-wider">Aktivitet</span>
+      <div className="flex gap-1.5 mt-1.5">
+        <input
+          value={note}
+          onChange={(e) => setNote(e.target.value)}
+          onKeyDown={(e) => { if (e.key === "Enter" && note.trim()) logCall(); }}
+          placeholder="Log opkald, fx Ringede – vil have tilbud i maj"
+          className="flex-1 rounded-lg border border-slate-200 px-2.5 py-1 text-[11px]"
+        />
+        <button
+          type="button"
+          onClick={logCall}
+          disabled={saving || !note.trim()}
+          className="rounded-lg bg-slate-900 px-2.5 py-1 text-[11px] font-semibold text-white disabled:opacity-40"
+        >
+          Log
+        </button>
+      </div>
+      {error && <p className="text-[11px] text-red-600 mt-1">{error}</p>}
+
+      {items === null ? (
+        <p className="text-[11px] text-slate-400 mt-2">Indlæser…</p>
+      ) : items.length === 0 ? (
+        <p className="text-[11px] text-slate-400 mt-2">Ingen registreret aktivitet</p>
+      ) : (
+        <ul className="mt-2 space-y-1 max-h-64 overflow-y-auto">
+          {items.map((e) => (
+            <li key={e.id} className="flex items-start gap-2 text-[11px] text-slate-600">
+              <span className={`mt-1 w-1.5 h-1.5 rounded-full shrink-0 ${KIND_DOT[e.kind] || "bg-slate-300"}`} />
+              <span className="w-[92px] shrink-0 tabular-nums text-slate-400">
+                {new Date(e.occurredAt).toLocaleString("da-DK", { dateStyle: "short", timeStyle: "short" })}
+              </span>
+              <span className="shrink-0 font-semibold text-slate-700">{ENGAGEMENT_KIND_LABELS[e.kind] || e.kind}</span>
+              <span className="truncate text-slate-500" title={e.summary}>{e.summary}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
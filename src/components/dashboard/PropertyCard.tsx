@@ -4,6 +4,7 @@ import type { PropertyItem } from "@/contexts/DashboardContext";
 import { getStatusConfig } from "@/lib/statusConfig";
 import { formatAddressLine, formatPropertyTitle } from "@/lib/format-address";
 import { ScoreRing } from "./ScoreRing";
+import { StatusHistory } from "./StatusHistory";
 
 export function PropertyCard({
   property: p,
@@ -189,6 +190,8 @@ export function PropertyCard({
                 </div>
               </div>
 
+              <StatusHistory propertyId={p.id} />
+
               {onFeedback && (
                 <div className="border-t border-slate-100 px-5 py-3 flex items-center justify-between bg-slate-50/50">
                   <span className="text-[10px] font-semibold text-slate-400 uppercase tracking-wider">Feedback</span>
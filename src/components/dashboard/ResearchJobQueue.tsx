@@ -0,0 +1,135 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import type { ResearchJob, ResearchJobStatus } from "@/lib/workflow/research-job-store";
+
+const POLL_MS = 5_000;
+
+const STATUS_LABELS: Record<ResearchJobStatus, string> = {
+  queued: "I kø",
+  running: "Kører",
+  completed: "Fuldført",
+  failed: "Fejlet",
+  cancelled: "Annulleret",
+};
+
+const STATUS_BADGE: Record<ResearchJobStatus, string> = {
+  queued: "bg-slate-100 text-slate-600",
+  running: "bg-indigo-50 text-indigo-700",
+  completed: "bg-emerald-50 text-emerald-700",
+  failed: "bg-red-50 text-red-700",
+  cancelled: "bg-slate-100 text-slate-400",
+};
+
+/** Research-køen: live status for hvert job med annullér/prøv igen. */
+export function ResearchJobQueue() {
+  const [items, setItems] = useState<ResearchJob[] | null>(null);
+  const [counts, setCounts] = useState({ queued: 0, running: 0 });
+  const [busy, setBusy] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    try {
+      const r = await fetch("/api/research-jobs");
+      const d = (await r.json()) as { items?: ResearchJob[]; counts?: { queued: number; running: number } };
+      setItems(d.items || []);
+      if (d.counts) setCounts(d.counts);
+    } catch {
+      setItems((prev) => prev ?? []);
+    }
+  }, []);
+
+  useEffect(() => {
+    load();
+    const timer = setInterval(load, POLL_MS);
+    return () => clearInterval(timer);
+  }, [load]);
+
+  const act = async (job: ResearchJob, action: "cancel" | "retry") => {
+    setBusy(job.id);
+    setError(null);
+    try {
+      const r = await fetch(
+        action === "cancel" ? `/api/research-jobs/${job.id}` : `/api/research-jobs/${job.id}/retry`,
+        { method: action === "cancel" ? "DELETE" : "POST" }
+      );
+      const d = (await r.json()) as { error?: string };
+      if (!r.ok) throw new Error(d.error || "Handlingen fejlede");
+      await load();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Handlingen fejlede");
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  if (!items || items.length === 0) return null;
+
+  const now = new Date().toISOString();
+
+  return (
+    <div className="mb-6 bg-white rounded-2xl border border-slate-200/60 shadow-[var(--card-shadow)] overflow-hidden">
+      <div className="px-4 py-3 border-b border-slate-100 flex items-center justify-between gap-3">
+        <h3 className="text-xs font-bold text-slate-700 uppercase tracking-wide">Research-kø</h3>
+        <span className="text-[11px] text-slate-500 tabular-nums">
+          {counts.running} kører · {counts.queued} i kø
+        </span>
+      </div>
+      {error && <p className="px-4 pt-2 text-[11px] text-red-600">{error}</p>}
+      <ul className="divide-y divide-slate-100 max-h-80 overflow-y-auto">
+        {items.map((job) => {
+          // A running job whose lease has expired was cut off and waits for the cron
+          const interrupted = job.status === "running" && !!job.leaseUntil && job.leaseUntil < now;
+          const waiting = job.status === "queued" && job.nextRunAt > now;
+          const doneSteps = job.steps.filter((s) => s.status === "completed").length;
+          return (
+            <li key={job.id} className="px-4 py-3">
+              <div className="flex items-center justify-between gap-3">
+                <div className="min-w-0 flex-1">
+                  <div className="flex items-center gap-2">
+                    <span className="font-semibold text-sm text-slate-900 truncate">{job.label}</span>
+                    <span className={`shrink-0 px-1.5 py-0.5 rounded text-[10px] font-semibold ${STATUS_BADGE[job.status]}`}>
+                      {interrupted ? "Afbrudt – genoptages" : STATUS_LABELS[job.status]}
+                    </span>
+                    {job.attempts > 1 && (
+                      <span className="shrink-0 text-[10px] text-slate-400">forsøg {job.attempts}</span>
+                    )}
+                  </div>
+                  <div className="text-[11px] text-slate-500 truncate" title={job.error || job.lastMessage || undefined}>
+                    {job.status === "failed" && job.error
+                      ? job.error
+                      : waiting
+                        ? `Næste forsøg ${new Date(job.nextRunAt).toLocaleTimeString("da-DK", { timeStyle: "short" })}${job.error ? ` – ${job.error}` : ""}`
+                        : job.lastMessage || (job.targetType === "staged" ? "Staging" : "HubSpot")}
+                  </div>
+                </div>
+                {job.status === "queued" && (
+                  <button onClick={() => act(job, "cancel")} disabled={busy === job.id}
+                    className="shrink-0 text-xs font-semibold text-slate-500 hover:text-red-600 px-2.5 py-1.5 rounded-lg hover:bg-red-50 disabled:opacity-40">
+                    Annullér
+                  </button>
+                )}
+                {(job.status === "failed" || job.status === "cancelled") && (
+                  <button onClick={() => act(job, "retry")} disabled={busy === job.id}
+                    className="shrink-0 text-xs font-semibold text-indigo-600 hover:text-indigo-700 px-2.5 py-1.5 rounded-lg hover:bg-indigo-50 disabled:opacity-40">
+                    Prøv igen
+                  </button>
+                )}
+              </div>
+              {(job.status === "running" || (job.status === "queued" && doneSteps > 0)) && (
+                <div className="mt-2 flex items-center gap-2">
+                  <div className="flex-1 h-1.5 rounded-full bg-slate-100 overflow-hidden">
+                    <div className="h-full bg-indigo-500 transition-all" style={{ width: `${Math.min(100, job.progress)}%` }} />
+                  </div>
+                  <span className="text-[10px] text-slate-400 tabular-nums">
+                    {doneSteps}/{job.steps.length || "?"} trin
+                  </span>
+                </div>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
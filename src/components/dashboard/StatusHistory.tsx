@@ -0,0 +1,57 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import type { PropertyTransitionRecord } from "@/lib/outreach/transition-store";
+import { getStatusConfig } from "@/lib/statusConfig";
+
+const SOURCE_LABELS: Record<string, string> = {
+  "properties-api": "Manuelt",
+  "mark-ready": "Push til pipeline",
+  "approve-send": "Godkend & send",
+  workflow: "Research-workflow",
+  "email-queue": "Mail-kø",
+  "mail-sync": "Mail-sync",
+  sequence: "Sekvens",
+};
+
+/** Status history for a property, loaded when the card is expanded. */
+export function StatusHistory({ propertyId }: { propertyId: string }) {
+  const [items, setItems] = useState<PropertyTransitionRecord[] | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetch(`/api/properties/${propertyId}/transitions`)
+      .then((r) => r.json())
+      .then((d: { items?: PropertyTransitionRecord[] }) => { if (!cancelled) setItems(d.items || []); })
+      .catch(() => { if (!cancelled) setItems([]); });
+    return () => { cancelled = true; };
+  }, [propertyId]);
+
+  return (
+    <div className="border-t border-slate-100 px-5 py-3">
+      <span className="text-[10px] font-semibold text-slate-400 uppercase tracking-wider">Statushistorik</span>
+      {items === null ? (
+        <p className="text-[11px] text-slate-400 mt-1">Indlæser…</p>
+      ) : items.length === 0 ? (
+        <p className="text-[11px] text-slate-400 mt-1">Ingen registrerede statusskift</p>
+      ) : (
+        <ul className="mt-1.5 space-y-1">
+          {items.map((t) => (
+            <li key={t.id} className="flex items-center gap-2 text-[11px] text-slate-600">
+              <span className="w-[110px] shrink-0 tabular-nums text-slate-400">
+                {new Date(t.createdAt).toLocaleString("da-DK", { dateStyle: "short", timeStyle: "short" })}
+              </span>
+              <span className="text-slate-500">{getStatusConfig(t.fromStatus).label}</span>
+              <span className="text-slate-300">→</span>
+              <span className="font-semibold text-slate-700">{getStatusConfig(t.toStatus).label}</span>
+              <span className="text-slate-400">
+                · {t.actor === "user" ? "Bruger" : "System"} ({SOURCE_LABELS[t.source] || t.source})
+              </span>
+              {t.note && <span className="truncate text-slate-400" title={t.note}>– {t.note}</span>}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
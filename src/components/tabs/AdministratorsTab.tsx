@@ -0,0 +1,335 @@
+"use client";
+
+// ============================================================
+// Administrators Tab – property administrator directory
+// ============================================================
+
+import { useCallback, useEffect, useState } from "react";
+import type {
+  AdministratorContact,
+  PropertyAdministrator,
+} from "@/lib/research/administrator-types";
+
+type ContactDraft = Pick<AdministratorContact, "name" | "role" | "email" | "phone" | "verified"> & {
+  id?: string;
+  rejected?: boolean;
+  bouncedAt?: string;
+  source?: string;
+};
+
+interface AdministratorDraft {
+  name: string;
+  aliases: string;
+  cvr: string;
+  domain: string;
+  website: string;
+  phone: string;
+  notes: string;
+  contacts: ContactDraft[];
+}
+
+function toDraft(a: PropertyAdministrator | null): AdministratorDraft {
+  return {
+    name: a?.name || "",
+    aliases: a?.aliases.join(", ") || "",
+    cvr: a?.cvr || "",
+    domain: a?.domain || "",
+    website: a?.website || "",
+    phone: a?.phone || "",
+    notes: a?.notes || "",
+    contacts: a?.contacts.map((c) => ({ ...c })) || [],
+  };
+}
+
+function toInput(d: AdministratorDraft) {
+  return {
+    name: d.name,
+    aliases: d.aliases.split(",").map((s) => s.trim()).filter(Boolean),
+    cvr: d.cvr,
+    domain: d.domain,
+    website: d.website,
+    phone: d.phone,
+    notes: d.notes,
+    contacts: d.contacts.map((c) => ({
+      id: c.id,
+      name: c.name,
+      role: c.role,
+      email: c.email || "",
+      phone: c.phone,
+      verified: c.verified,
+      rejected: c.rejected,
+    })),
+  };
+}
+
+export function AdministratorsTab() {
+  const [items, setItems] = useState<PropertyAdministrator[] | null>(null);
+  const [query, setQuery] = useState("");
+  const [open, setOpen] = useState<string | null>(null);
+  const [creating, setCreating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    try {
+      const r = await fetch(`/api/administrators${query.trim() ? `?q=${encodeURIComponent(query.trim())}` : ""}`);
+      const d = (await r.json()) as { items?: PropertyAdministrator[]; error?: string };
+      if (!r.ok) throw new Error(d.error || "Kunne ikke hente administratorer");
+      setItems(d.items || []);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Kunne ikke hente administratorer");
+      setItems((prev) => prev ?? []);
+    }
+  }, [query]);
+
+  useEffect(() => {
+    const t = setTimeout(load, 250);
+    return () => clearTimeout(t);
+  }, [load]);
+
+  return (
+    <div className="animate-fade-in">
+      <div className="mb-5 flex items-center justify-between gap-3 flex-wrap">
+        <p className="text-xs text-slate-500">
+          Administratorer lært fra research. Kendte kontakter bruges før der søges på ny.
+        </p>
+        <div className="flex items-center gap-2">
+          <input
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="Søg navn eller CVR"
+            className="rounded-lg border border-slate-200 px-2.5 py-1.5 text-xs"
+          />
+          <button
+            onClick={() => setCreating(true)}
+            className="text-xs font-semibold text-indigo-600 hover:text-indigo-700 px-2.5 py-1.5 rounded-lg hover:bg-indigo-50"
+          >
+            + Ny administrator
+          </button>
+        </div>
+      </div>
+
+      {error && <p className="mb-3 text-xs text-red-600">{error}</p>}
+
+      {creating && (
+        <div className="mb-3 bg-white rounded-2xl border border-slate-200/60 shadow-[var(--card-shadow)]">
+          <AdministratorEditor
+            administrator={null}
+            onSaved={() => {
+              setCreating(false);
+              load();
+            }}
+            onCancel={() => setCreating(false)}
+          />
+        </div>
+      )}
+
+      {items === null ? (
+        <p className="text-xs text-slate-400">Indlæser…</p>
+      ) : items.length === 0 ? (
+        <p className="text-xs text-slate-400">Ingen administratorer endnu – de tilføjes automatisk når research finder en OIS-administrator.</p>
+      ) : (
+        <div className="space-y-3">
+          {items.map((a) => (
+            <AdministratorCard
+              key={a.id}
+              administrator={a}
+              expanded={open === a.id}
+              onToggle={() => setOpen(open === a.id ? null : a.id)}
+              onChanged={load}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function AdministratorCard({
+  administrator: a,
+  expanded,
+  onToggle,
+  onChanged,
+}: {
+  administrator: PropertyAdministrator;
+  expanded: boolean;
+  onToggle: () => void;
+  onChanged: () => void;
+}) {
+  const usable = a.contacts.filter((c) => !c.rejected && !c.bouncedAt);
+  const verified = usable.filter((c) => c.verified).length;
+  return (
+    <div className="bg-white rounded-2xl border border-slate-200/60 shadow-[var(--card-shadow)] overflow-hidden">
+      <button onClick={onToggle} className="w-full px-4 py-3 flex items-center gap-3 text-left hover:bg-slate-50/50">
+        <span className="shrink-0 w-11 text-center px-1.5 py-1 rounded-lg border border-slate-200 bg-slate-50 text-sm font-extrabold tabular-nums text-slate-700">
+          {a.properties.length}
+        </span>
+        <div className="min-w-0 flex-1">
+          <div className="flex items-center gap-2">
+            <span className="font-semibold text-sm text-slate-900 truncate">{a.name}</span>
+            {a.cvr && <span className="shrink-0 text-[10px] text-slate-400 tabular-nums">CVR {a.cvr}</span>}
+          </div>
+          <div className="text-[11px] text-slate-500 truncate">
+            {usable.length} kontakter
+            {verified > 0 && ` · ${verified} verificeret`}
+            {a.domain && ` · ${a.domain}`}
+            {a.lastSeenAt && ` · sidst set ${new Date(a.lastSeenAt).toLocaleDateString("da-DK")}`}
+          </div>
+        </div>
+        <svg className={`w-4 h-4 text-slate-400 transition-transform ${expanded ? "rotate-180" : ""}`} fill="none" viewBox="0 0 24 24" strokeWidth={2} stroke="currentColor">
+          <path strokeLinecap="round" strokeLinejoin="round" d="M19.5 8.25l-7.5 7.5-7.5-7.5" />
+        </svg>
+      </button>
+      {expanded && (
+        <div className="border-t border-slate-100">
+          <AdministratorEditor key={a.updatedAt} administrator={a} onSaved={onChanged} onDeleted={onChanged} />
+          {a.properties.length > 0 && (
+            <div className="px-4 pb-3">
+              <span className="text-[10px] font-semibold text-slate-400 uppercase tracking-wider">Administrerede ejendomme</span>
+              <ul className="mt-1 divide-y divide-slate-100">
+                {a.properties.map((p) => (
+                  <li key={p.ref} className="py-1.5 flex items-center gap-3 text-[11px]">
+                    <span className="min-w-0 flex-1 truncate text-slate-700">
+                      {p.address}{p.city ? `, ${p.city}` : ""}
+                    </span>
+                    <span className="shrink-0 text-slate-400">
+                      {p.ref.startsWith("staged:") ? "Staging" : "HubSpot"} · {new Date(p.seenAt).toLocaleDateString("da-DK")}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function AdministratorEditor({
+  administrator,
+  onSaved,
+  onCancel,
+  onDeleted,
+}: {
+  administrator: PropertyAdministrator | null;
+  onSaved: () => void;
+  onCancel?: () => void;
+  onDeleted?: () => void;
+}) {
+  const [draft, setDraft] = useState<AdministratorDraft>(() => toDraft(administrator));
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const set = (patch: Partial<AdministratorDraft>) => setDraft((d) => ({ ...d, ...patch }));
+  const setContact = (i: number, patch: Partial<ContactDraft>) =>
+    setDraft((d) => ({ ...d, contacts: d.contacts.map((c, j) => (j === i ? { ...c, ...patch } : c)) }));
+
+  const save = async () => {
+    setSaving(true);
+    setError(null);
+    try {
+      const r = await fetch(administrator ? `/api/administrators/${administrator.id}` : "/api/administrators", {
+        method: administrator ? "PUT" : "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(toInput(draft)),
+      });
+      const d = (await r.json()) as { error?: string };
+      if (!r.ok) throw new Error(d.error || "Kunne ikke gemme");
+      onSaved();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Kunne ikke gemme");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const remove = async () => {
+    if (!administrator || !confirm(`Slet ${administrator.name} fra kataloget?`)) return;
+    const r = await fetch(`/api/administrators/${administrator.id}`, { method: "DELETE" });
+    if (r.ok) onDeleted?.();
+    else setError("Kunne ikke slette");
+  };
+
+  const field = "rounded-lg border border-slate-200 px-2.5 py-1 text-[11px]";
+
+  return (
+    <div className="px-4 py-3 space-y-3">
+      <div className="grid grid-cols-2 gap-2">
+        <input value={draft.name} onChange={(e) => set({ name: e.target.value })} placeholder="Navn" className={field} />
+        <input value={draft.cvr} onChange={(e) => set({ cvr: e.target.value })} placeholder="CVR" className={field} />
+        <input value={draft.aliases} onChange={(e) => set({ aliases: e.target.value })} placeholder="Andre navne (kommasepareret)" className={`${field} col-span-2`} />
+        <input value={draft.domain} onChange={(e) => set({ domain: e.target.value })} placeholder="Domæne" className={field} />
+        <input value={draft.website} onChange={(e) => set({ website: e.target.value })} placeholder="Website" className={field} />
+        <input value={draft.phone} onChange={(e) => set({ phone: e.target.value })} placeholder="Telefon" className={field} />
+        <input value={draft.notes} onChange={(e) => set({ notes: e.target.value })} placeholder="Noter" className={field} />
+      </div>
+
+      <div>
+        <span className="text-[10px] font-semibold text-slate-400 uppercase tracking-wider">Kontakter</span>
+        <div className="mt-1.5 space-y-1.5">
+          {draft.contacts.map((c, i) => (
+            <div key={c.id || `new-${i}`} className={`flex items-center gap-1.5 ${c.rejected ? "opacity-40" : ""}`}>
+              <input value={c.name} onChange={(e) => setContact(i, { name: e.target.value })} placeholder="Navn" className={`${field} w-36`} />
+              <input value={c.role || ""} onChange={(e) => setContact(i, { role: e.target.value || null })} placeholder="Rolle" className={`${field} w-28`} />
+              <input value={c.email || ""} onChange={(e) => setContact(i, { email: e.target.value || null })} placeholder="Email" className={`${field} flex-1`} />
+              <input value={c.phone || ""} onChange={(e) => setContact(i, { phone: e.target.value || null })} placeholder="Tlf" className={`${field} w-24`} />
+              {c.bouncedAt && (
+                <span className="shrink-0 px-1.5 py-0.5 rounded text-[10px] font-semibold bg-red-50 text-red-600">Bounced</span>
+              )}
+              <button
+                onClick={() => setContact(i, { verified: !c.verified, rejected: false })}
+                className={`shrink-0 text-[11px] font-semibold px-1.5 ${c.verified ? "text-emerald-600" : "text-slate-400 hover:text-emerald-600"}`}
+                title={c.source ? `Kilde: ${c.source}` : undefined}
+              >
+                {c.verified ? "✓ Verificeret" : "Verificér"}
+              </button>
+              <button
+                onClick={() =>
+                  c.id
+                    ? setContact(i, { rejected: !c.rejected, verified: false })
+                    : setDraft((d) => ({ ...d, contacts: d.contacts.filter((_, j) => j !== i) }))
+                }
+                className="shrink-0 text-[11px] font-semibold text-slate-400 hover:text-red-600 px-1.5"
+              >
+                {c.rejected ? "Fortryd" : "Afvis"}
+              </button>
+            </div>
+          ))}
+          <button
+            onClick={() =>
+              setDraft((d) => ({
+                ...d,
+                contacts: [...d.contacts, { name: "", role: null, email: null, phone: null, verified: true }],
+              }))
+            }
+            className="text-[11px] font-semibold text-indigo-600 hover:text-indigo-700"
+          >
+            + Tilføj kontakt
+          </button>
+        </div>
+      </div>
+
+      {error && <p className="text-[11px] text-red-600">{error}</p>}
+
+      <div className="flex items-center gap-2">
+        <button
+          onClick={save}
+          disabled={saving || draft.name.trim().length < 2}
+          className="rounded-lg bg-slate-900 px-2.5 py-1 text-[11px] font-semibold text-white disabled:opacity-40"
+        >
+          {saving ? "Gemmer…" : "Gem"}
+        </button>
+        {onCancel && (
+          <button onClick={onCancel} className="text-[11px] font-semibold text-slate-500 hover:text-slate-700">
+            Annullér
+          </button>
+        )}
+        {administrator && (
+          <button onClick={remove} className="ml-auto text-[11px] font-semibold text-slate-400 hover:text-red-600">
+            Slet
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,270 @@
+"use client";
+
+// ============================================================
+// Dedupe Tab – duplicate properties across pipelines, side by
+// side, with a merge into one surviving record
+// ============================================================
+
+import { useCallback, useEffect, useState } from "react";
+import {
+  DEDUPE_KIND_LABELS,
+  isMergeableKind,
+  type DedupeRecord,
+  type DuplicateCluster,
+  type PropertyMerge,
+} from "@/lib/dedupe/types";
+
+export function DedupeTab() {
+  const [clusters, setClusters] = useState<DuplicateCluster[] | null>(null);
+  const [merges, setMerges] = useState<PropertyMerge[]>([]);
+  const [unresolved, setUnresolved] = useState(0);
+  const [resolving, setResolving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    try {
+      const r = await fetch("/api/dedupe");
+      const d = (await r.json()) as {
+        clusters?: DuplicateCluster[];
+        unresolved?: number;
+        merges?: PropertyMerge[];
+        error?: string;
+      };
+      if (!r.ok) throw new Error(d.error || "Kunne ikke hente dubletter");
+      setClusters(d.clusters || []);
+      setUnresolved(d.unresolved || 0);
+      setMerges(d.merges || []);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Kunne ikke hente dubletter");
+      setClusters((prev) => prev ?? []);
+    }
+  }, []);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  /** Look up BFE numbers in rounds until the server reports none left. */
+  const resolveBfes = async (force = false) => {
+    setResolving(true);
+    setError(null);
+    try {
+      for (let round = 0; round < 10; round++) {
+        const r = await fetch("/api/dedupe/resolve", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ force: force && round === 0 ? true : undefined }),
+        });
+        const d = (await r.json()) as { remaining?: number; error?: string };
+        if (!r.ok) throw new Error(d.error || "Opslag fejlede");
+        if (!d.remaining) break;
+      }
+      await load();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Opslag fejlede");
+    } finally {
+      setResolving(false);
+    }
+  };
+
+  return (
+    <div className="animate-fade-in">
+      <div className="mb-5 flex items-center justify-between gap-3 flex-wrap">
+        <p className="text-xs text-slate-500">
+          Samme ejendom i HubSpot, staging og OOH-rammer – matchet på BFE-nummer (via DAWA), ellers adresse.
+        </p>
+        <button
+          onClick={() => resolveBfes(unresolved === 0)}
+          disabled={resolving}
+          className="text-xs font-semibold text-indigo-600 hover:text-indigo-700 px-2.5 py-1.5 rounded-lg hover:bg-indigo-50 disabled:opacity-40"
+        >
+          {resolving ? "Slår op i DAWA…" : unresolved > 0 ? `Slå BFE op (${unresolved})` : "Opdatér BFE"}
+        </button>
+      </div>
+
+      {error && <p className="mb-3 text-xs text-red-600">{error}</p>}
+
+      {clusters === null ? (
+        <p className="text-xs text-slate-400">Indlæser…</p>
+      ) : clusters.length === 0 ? (
+        <p className="text-xs text-slate-400">Ingen dubletter fundet.</p>
+      ) : (
+        <div className="space-y-3">
+          {clusters.map((c) => (
+            <ClusterCard key={c.key} cluster={c} onMerged={load} />
+          ))}
+        </div>
+      )}
+
+      {merges.length > 0 && (
+        <div className="mt-6">
+          <span className="text-[10px] font-semibold text-slate-400 uppercase tracking-wider">Seneste fletninger</span>
+          <ul className="mt-1.5 divide-y divide-slate-100">
+            {merges.map((m) => (
+              <li key={m.id} className="py-1.5 text-[11px] text-slate-600">
+                <span className="text-slate-400">
+                  {new Date(m.createdAt).toLocaleString("da-DK", { dateStyle: "short", timeStyle: "short" })}
+                </span>
+                {` · ${m.removedRefs.join(", ")} → ${m.survivorRef}`}
+                {m.actions.length > 0 && <span className="text-slate-400">{` · ${m.actions.join(", ")}`}</span>}
+                {m.status === "pending" && (
+                  <span className="text-amber-600">{" · afbrudt – flet de samme poster igen for at fuldføre"}</span>
+                )}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
+
+function ClusterCard({ cluster: c, onMerged }: { cluster: DuplicateCluster; onMerged: () => Promise<void> }) {
+  const [survivor, setSurvivor] = useState(c.suggestedSurvivor);
+  const [remove, setRemove] = useState<string[]>(() =>
+    c.records.filter((r) => isMergeableKind(r.kind) && r.ref !== c.suggestedSurvivor).map((r) => r.ref)
+  );
+  const [merging, setMerging] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const chooseSurvivor = (ref: string) => {
+    setSurvivor(ref);
+    setRemove((prev) => {
+      const next = prev.filter((r) => r !== ref);
+      return survivor !== ref && !next.includes(survivor) ? [...next, survivor] : next;
+    });
+  };
+
+  const toggleRemove = (ref: string) =>
+    setRemove((prev) => (prev.includes(ref) ? prev.filter((r) => r !== ref) : [...prev, ref]));
+
+  const merge = async () => {
+    if (!confirm(`Flet ${remove.length} ejendom(me) ind i den valgte? De fjernede arkiveres.`)) return;
+    setMerging(true);
+    setError(null);
+    try {
+      const r = await fetch("/api/dedupe/merge", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ survivor, remove }),
+      });
+      const d = (await r.json()) as { error?: string };
+      if (!r.ok) throw new Error(d.error || "Fletning fejlede");
+      await onMerged();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Fletning fejlede");
+    } finally {
+      setMerging(false);
+    }
+  };
+
+  const first = c.records[0];
+  return (
+    <div className="bg-white rounded-2xl border border-slate-200/60 shadow-[var(--card-shadow)] overflow-hidden">
+      <div className="px-4 py-3 flex items-center gap-2">
+        <span className="shrink-0 px-1.5 py-0.5 rounded text-[10px] font-semibold bg-slate-100 text-slate-600 tabular-nums">
+          {c.bfe != null ? `BFE ${c.bfe}` : "Adresse"}
+        </span>
+        <span className="font-semibold text-sm text-slate-900 truncate">
+          {first.address}{first.city ? `, ${first.city}` : ""}
+        </span>
+        <span className="shrink-0 text-[11px] text-slate-400">{c.records.length} poster</span>
+      </div>
+
+      <div className="border-t border-slate-100 px-4 py-3 flex gap-3 overflow-x-auto">
+        {c.records.map((r) => (
+          <RecordColumn
+            key={r.ref}
+            record={r}
+            isSurvivor={survivor === r.ref}
+            removed={remove.includes(r.ref)}
+            onSurvivor={() => chooseSurvivor(r.ref)}
+            onToggleRemove={() => toggleRemove(r.ref)}
+          />
+        ))}
+      </div>
+
+      <div className="border-t border-slate-100 px-4 py-2 flex items-center justify-end gap-3">
+        {error && <span className="text-[11px] text-red-600">{error}</span>}
+        <button
+          onClick={merge}
+          disabled={merging || remove.length === 0}
+          className="rounded-lg bg-slate-900 px-2.5 py-1 text-[11px] font-semibold text-white disabled:opacity-40"
+        >
+          {merging ? "Fletter…" : `Flet ${remove.length}`}
+        </button>
+      </div>
+    </div>
+  );
+}
+
+function RecordColumn({
+  record: r,
+  isSurvivor,
+  removed,
+  onSurvivor,
+  onToggleRemove,
+}: {
+  record: DedupeRecord;
+  isSurvivor: boolean;
+  removed: boolean;
+  onSurvivor: () => void;
+  onToggleRemove: () => void;
+}) {
+  const mergeable = isMergeableKind(r.kind);
+  const rows: [string, string | null][] = [
+    ["Status", r.status],
+    ["Score", r.outdoorScore != null ? String(r.outdoorScore) : null],
+    ["Ejer", r.ownerName ? `${r.ownerName}${r.ownerCvr ? ` (${r.ownerCvr})` : ""}` : null],
+    ["Kontakt", [r.contactPerson, r.contactEmail].filter(Boolean).join(" · ") || null],
+    ["Kontakter", r.contactCount ? String(r.contactCount) : null],
+    ["Oprettet", r.createdAt ? new Date(r.createdAt).toLocaleDateString("da-DK") : null],
+  ];
+
+  return (
+    <div
+      className={`w-56 shrink-0 rounded-xl border p-3 text-[11px] ${
+        isSurvivor ? "border-emerald-300 bg-emerald-50/40" : removed ? "border-red-200 bg-red-50/30" : "border-slate-200"
+      }`}
+    >
+      <div className="flex items-center justify-between gap-2">
+        <span className="font-semibold text-slate-700">{DEDUPE_KIND_LABELS[r.kind]}</span>
+        {r.bfe != null && <span className="text-[10px] text-slate-400 tabular-nums">BFE {r.bfe}</span>}
+      </div>
+      <div className="mt-1 text-slate-900 font-medium truncate" title={r.name}>{r.name}</div>
+      <div className="text-slate-500 truncate">
+        {r.address}{r.postalCode ? `, ${r.postalCode}` : ""}{r.city ? ` ${r.city}` : ""}
+      </div>
+
+      <dl className="mt-2 space-y-0.5">
+        {rows.map(([label, value]) => (
+          <div key={label} className="flex gap-2">
+            <dt className="w-16 shrink-0 text-slate-400">{label}</dt>
+            <dd className="min-w-0 truncate text-slate-700">{value || "–"}</dd>
+          </div>
+        ))}
+      </dl>
+      <div className="mt-2 flex gap-1.5">
+        {r.hasResearch && <span className="px-1.5 py-0.5 rounded bg-indigo-50 text-indigo-600 text-[10px] font-semibold">Research</span>}
+        {r.hasDraft && <span className="px-1.5 py-0.5 rounded bg-amber-50 text-amber-700 text-[10px] font-semibold">Udkast</span>}
+      </div>
+
+      {mergeable ? (
+        <div className="mt-3 flex items-center justify-between">
+          <label className="flex items-center gap-1.5 text-slate-600">
+            <input type="radio" checked={isSurvivor} onChange={onSurvivor} />
+            Behold
+          </label>
+          {!isSurvivor && (
+            <label className="flex items-center gap-1.5 text-slate-600">
+              <input type="checkbox" checked={removed} onChange={onToggleRemove} />
+              Flet ind
+            </label>
+          )}
+        </div>
+      ) : (
+        <p className="mt-3 text-[10px] text-slate-400">Vises kun – rammer flettes ikke</p>
+      )}
+    </div>
+  );
+}
@@ -36,12 +36,22 @@ import {
 } from "@/lib/case/calculations";
 import type { PlannedPayment } from "@/lib/case/planned-payments";
 import type { Tilbud } from "@/lib/tilbud/types";
+import type { Placement } from "@/lib/tilbud/placement-types";
+import { OccupancyGrid } from "../OccupancyGrid";
+import { CaseInvoices } from "../CaseInvoices";
+import { ReceivablesPanel } from "../ReceivablesPanel";
+import { BankImportDialog, type BankImportResult } from "../BankImportDialog";
+import { BankCategorization } from "../BankCategorization";
+import { MomsReportPanel } from "../MomsReportPanel";
+import { LiquidityScenarios } from "../LiquidityScenarios";
+import { CaseTimeline } from "../CaseTimeline";
+import { SiteProfitability } from "../SiteProfitability";
 
 export interface EconomyTabProps {
   onToast: (message: string, type: "success" | "error" | "info") => void;
 }
 
-type SubTab = "cases" | "forecast" | "settings";
+type SubTab = "cases" | "sites" | "forecast" | "moms" | "settings";
 
 const PLANNED_CAT_LABEL: Record<string, string> = {
   faktura: "Faktura",
@@ -143,7 +153,9 @@ function boxCategory(cases: Case[]): CaseCategory {
 
 const SUB_TABS = [
   { id: "cases" as SubTab, label: "Cases", icon: "M3 6.75A2.25 2.25 0 015.25 4.5h13.5A2.25 2.25 0 0121 6.75v10.5A2.25 2.25 0 0118.75 19.5H5.25A2.25 2.25 0 013 17.25V6.75z" },
+  { id: "sites" as SubTab, label: "Stilladser", icon: "M3.75 21h16.5M4.5 3h15M5.25 3v18m13.5-18v18M9 6.75h1.5m-1.5 3h1.5m-1.5 3h1.5m3-6H15m-1.5 3H15m-1.5 3H15M9 21v-3.375c0-.621.504-1.125 1.125-1.125h3.75c.621 0 1.125.504 1.125 1.125V21" },
   { id: "forecast" as SubTab, label: "Likviditet", icon: "M2.25 18L9 11.25l4.306 4.307a11.95 11.95 0 015.814-5.519l2.74-1.22m0 0l-5.94-2.28m5.94 2.28l-2.28 5.941" },
+  { id: "moms" as SubTab, label: "Moms", icon: "M9 14.25l6-6m4.5-3.493V21.75l-3.75-1.5-3.75 1.5-3.75-1.5-3.75 1.5V4.757c0-1.108.806-2.057 1.907-2.185a48.507 48.507 0 0111.186 0c1.1.128 1.907 1.077 1.907 2.185zM9.75 9h.008v.008H9.75V9zm.375 0a.375.375 0 11-.75 0 .375.375 0 01.75 0zm4.125 4.5h.008v.008h-.008V13.5zm.375 0a.375.375 0 11-.75 0 .375.375 0 01.75 0z" },
   { id: "settings" as SubTab, label: "Indstillinger", icon: "M10.343 3.94c.09-.542.56-.94 1.11-.94h1.094c.55 0 1.02.398 1.11.94l.149.894c.07.424.384.764.78.93.398.164.855.142 1.205-.108l.737-.527a1.125 1.125 0 011.45.12l.773.774c.39.389.44 1.002.12 1.45l-.527.737c-.25.35-.272.806-.107 1.204.165.397.505.71.93.78l.893.15c.543.09.94.56.94 1.109v1.094c0 .55-.397 1.02-.94 1.11l-.893.149c-.425.07-.765.383-.93.78-.165.398-.143.854.107 1.204l.527.738c.32.447.269 1.06-.12 1.45l-.774.773a1.125 1.125 0 01-1.449.12l-.738-.527c-.35-.25-.806-.272-1.203-.107-.398.165-.71.505-.781.929l-.149.894c-.09.542-.56.94-1.11.94h-1.094c-.55 0-1.019-.398-1.11-.94l-.148-.894c-.071-.424-.384-.764-.781-.93-.398-.164-.854-.142-1.204.108l-.738.527c-.447.32-1.06.269-1.45-.12l-.773-.774a1.125 1.125 0 01-.12-1.45l.527-.737c.25-.35.273-.806.108-1.204-.165-.397-.505-.71-.93-.78l-.894-.15c-.542-.09-.94-.56-.94-1.109v-1.094c0-.55.398-1.02.94-1.11l.894-.149c.424-.07.765-.383.93-.78.165-.398.143-.854-.108-1.204l-.526-.738a1.125 1.125 0 01.12-1.45l.773-.773a1.125 1.125 0 011.45-.12l.737.527c.35.25.807.272 1.204.107.397-.165.71-.505.78-.93l.15-.893z" },
 ];
 
@@ -213,6 +225,8 @@ export function EconomyTab({ onToast }: EconomyTabProps) {
   // Cases state
   const [cases, setCases] = useState<Case[]>([]);
   const [tilbud, setTilbud] = useState<Tilbud[]>([]);
+  const [placements, setPlacements] = useState<Placement[]>([]);
+  const [bookingRefresh, setBookingRefresh] = useState(0);
   const [loading, setLoading] = useState(false);
   const [saving, setSaving] = useState(false);
   const [selectedId, setSelectedId] = useState<string | null>(null);
@@ -263,6 +277,16 @@ export function EconomyTab({ onToast }: EconomyTabProps) {
     }
   }, []);
 
+  const fetchPlacements = useCallback(async () => {
+    try {
+      const r = await fetch("/api/tilbud/placements");
+      const d = (await r.json()) as { items: Placement[] };
+      setPlacements(d.items || []);
+    } catch {
+      // silent
+    }
+  }, []);
+
   const fetchSettings = useCallback(async () => {
     try {
       const r = await fetch("/api/case-settings");
@@ -306,6 +330,7 @@ export function EconomyTab({ onToast }: EconomyTabProps) {
   useEffect(() => {
     fetchCases();
     fetchTilbud();
+    fetchPlacements();
     fetchSettings();
     fetchExpenses();
     fetchBankSummary();
@@ -313,6 +338,7 @@ export function EconomyTab({ onToast }: EconomyTabProps) {
   }, [
     fetchCases,
     fetchTilbud,
+    fetchPlacements,
     fetchSettings,
     fetchExpenses,
     fetchBankSummary,
@@ -432,22 +458,31 @@ export function EconomyTab({ onToast }: EconomyTabProps) {
     [fetchCases, openCase, onToast]
   );
 
-  const save = useCallback(async () => {
+  const save = useCallback(async (allowOverlap = false): Promise<void> => {
     setSaving(true);
     try {
       const body = selectedId ? { ...form, id: selectedId } : { ...form, id: undefined };
       const r = await fetch("/api/cases", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify(body),
+        body: JSON.stringify({ ...body, allowOverlap }),
       });
       const d = (await r.json()) as { success?: boolean; case?: Case; error?: string };
+      if (r.status === 409) {
+        // Dobbeltbooking — lad brugeren bevidst gemme alligevel
+        if (confirm(`${d.error || "Placeringen er allerede booket i perioden."}\n\nGem alligevel?`)) {
+          setSaving(false);
+          return save(true);
+        }
+        return;
+      }
       if (!r.ok || !d.case) {
         onToast(d.error || "Kunne ikke gemme", "error");
         return;
       }
       setForm(d.case);
       setSelectedId(d.case.id);
+      setBookingRefresh((n) => n + 1);
       await fetchCases();
       onToast("Case gemt", "success");
     } catch {
@@ -557,55 +592,38 @@ export function EconomyTab({ onToast }: EconomyTabProps) {
 
   // Bank statement import
   const bankFileRef = useRef<HTMLInputElement>(null);
-  const [bankImportLoading, setBankImportLoading] = useState(false);
+  const [bankImportFile, setBankImportFile] = useState<File | null>(null);
+  const [receivablesRefresh, setReceivablesRefresh] = useState(0);
 
   const openBankPicker = () => bankFileRef.current?.click();
 
-  const handleBankImport = useCallback(
-    async (file: File) => {
-      setBankImportLoading(true);
-      try {
-        const fd = new FormData();
-        fd.append("file", file);
-        const r = await fetch("/api/bank/import", { method: "POST", body: fd });
-        const d = (await r.json()) as {
-          success?: boolean;
-          imported?: number;
-          closingBalance?: number;
-          error?: string;
-          autoMatched?: Array<{
-            id: string;
-            label: string;
-            newStatus: "modtaget" | "betalt";
-            matchedTransactionTitle: string;
-          }>;
-        };
-        if (!r.ok || !d.success) {
-          onToast(d.error || "Kunne ikke importere kontoudtog", "error");
-          return;
-        }
-        // Refresh også planlagte så auto-matchede rækker viser ny status
-        await Promise.all([fetchBankSummary(), fetchSettings(), fetchPlannedPayments()]);
-        const matchedCount = d.autoMatched?.length ?? 0;
-        const matchSuffix = matchedCount > 0
-          ? ` · ${matchedCount} planlagt${matchedCount === 1 ? "" : "e"} markeret som ${
-              d.autoMatched!.some((m) => m.newStatus === "modtaget") &&
-              d.autoMatched!.some((m) => m.newStatus === "betalt")
-                ? "modtaget/betalt"
-                : d.autoMatched![0].newStatus
-            }`
-          : "";
-        onToast(
-          `Kontoudtog importeret — ${d.imported} transaktioner, saldo ${Math.round(
-            d.closingBalance || 0
-          ).toLocaleString("da-DK")} kr${matchSuffix}`,
-          "success"
-        );
-      } catch (err) {
-        onToast(err instanceof Error ? err.message : "Fejl ved import", "error");
-      } finally {
-        setBankImportLoading(false);
-      }
+  const handleBankImported = useCallback(
+    async (d: BankImportResult) => {
+      setBankImportFile(null);
+      // Refresh også planlagte så auto-matchede rækker viser ny status
+      await Promise.all([fetchBankSummary(), fetchSettings(), fetchPlannedPayments()]);
+      const matchedCount = d.autoMatched?.length ?? 0;
+      const matchSuffix = matchedCount > 0
+        ? ` · ${matchedCount} planlagt${matchedCount === 1 ? "" : "e"} markeret som ${
+            d.autoMatched!.some((m) => m.newStatus === "modtaget") &&
+            d.autoMatched!.some((m) => m.newStatus === "betalt")
+              ? "modtaget/betalt"
+              : d.autoMatched![0].newStatus
+          }`
+        : "";
+      const paidCount = d.invoicePayments?.length ?? 0;
+      const paidSuffix = paidCount > 0
+        ? ` · ${paidCount} fakturabetaling${paidCount === 1 ? "" : "er"} afstemt`
+        : "";
+      const balanceSuffix = d.closingBalance != null
+        ? `, saldo ${Math.round(d.closingBalance).toLocaleString("da-DK")} kr`
+        : "";
+      const skippedSuffix = d.skipped ? ` (${d.skipped} dubletter sprunget over)` : "";
+      setReceivablesRefresh((n) => n + 1);
+      onToast(
+        `Kontoudtog importeret — ${d.imported} transaktioner${skippedSuffix}${balanceSuffix}${matchSuffix}${paidSuffix}`,
+        "success"
+      );
     },
     [fetchBankSummary, fetchSettings, fetchPlannedPayments, onToast]
   );
@@ -656,6 +674,7 @@ export function EconomyTab({ onToast }: EconomyTabProps) {
       try {
         const fd = new FormData();
         fd.append("file", file);
+        if (selectedId) fd.append("caseId", selectedId);
         const r = await fetch("/api/case/invoice-scan", { method: "POST", body: fd });
         const d = (await r.json()) as { result?: InvoiceScanResult; error?: string };
         if (!r.ok || !d.result) {
@@ -678,7 +697,7 @@ export function EconomyTab({ onToast }: EconomyTabProps) {
         setScanLoading(false);
       }
     },
-    [onToast]
+    [onToast, selectedId]
   );
 
   const closeScanModal = () => {
@@ -1288,7 +1307,7 @@ export function EconomyTab({ onToast }: EconomyTabProps) {
                   </button>
                 )}
                 <button
-                  onClick={save}
+                  onClick={() => save()}
                   disabled={saving}
                   className="h-7 px-3 rounded-md bg-violet-600 text-[11px] font-semibold text-white hover:bg-violet-700 disabled:opacity-50"
                 >
@@ -1321,6 +1340,21 @@ export function EconomyTab({ onToast }: EconomyTabProps) {
                   onChange={(e) => updateField("address", e.target.value)}
                 />
               </div>
+              <div>
+                <div className={LABEL}>Placering</div>
+                <select
+                  className={CI}
+                  value={form.placementId || ""}
+                  onChange={(e) => updateField("placementId", e.target.value)}
+                >
+                  <option value="">Ingen placering</option>
+                  {placements.map((p) => (
+                    <option key={p.id} value={p.id}>
+                      {p.name} — {p.areaSqm} m²
+                    </option>
+                  ))}
+                </select>
+              </div>
               <div>
                 <div className={LABEL}>
                   Kommune
@@ -1566,6 +1600,25 @@ export function EconomyTab({ onToast }: EconomyTabProps) {
                 </table>
               </div>
             </div>
+
+            {/* Belægning for casens placering */}
+            {form.placementId ? (
+              <div className="rounded-md border border-slate-200 bg-white p-2">
+                <OccupancyGrid
+                  placementId={form.placementId}
+                  fromDate={form.startDate || (form.sales || []).map((s) => s.fromDate).filter(Boolean).sort()[0]}
+                  weeks={26}
+                  highlightFrom={form.startDate}
+                  highlightTo={form.endDate}
+                  ownRefId={selectedId ?? undefined}
+                  refreshKey={bookingRefresh}
+                />
+              </div>
+            ) : (
+              <p className="text-[10px] text-slate-400">
+                Vælg en placering under Case-info for at se belægning og undgå dobbeltbooking.
+              </p>
+            )}
             </div>
 
             {/* ─── Omkostninger ─── */}
@@ -1842,6 +1895,14 @@ export function EconomyTab({ onToast }: EconomyTabProps) {
               </div>
             </div>
 
+            {/* Invoices */}
+            {selectedId && (
+              <CaseInvoices caseId={selectedId} defaultCustomerName={form.bygherreNavn} onToast={onToast} />
+            )}
+
+            {/* Timeline & realized profitability */}
+            {selectedId && <CaseTimeline key={selectedId} caseId={selectedId} onToast={onToast} />}
+
             {/* Notes */}
             <div>
               <div className={LABEL}>Noter</div>
@@ -1865,41 +1926,33 @@ export function EconomyTab({ onToast }: EconomyTabProps) {
               <span className="font-semibold text-slate-800">Kontoudtog</span>{" "}
               {bankSummary
                 ? `· ${bankSummary.transactionCount} transaktioner · saldo pr. ${bankSummary.closingBalanceDate}`
-                : "· importér jeres Lunar-kontoudtog (PDF) for faktiske tal"}
+                : "· importér kontoudtog (Lunar-PDF, CAMT.053 eller bank-CSV) for faktiske tal"}
             </div>
             <button
               onClick={openBankPicker}
-              disabled={bankImportLoading}
               className="flex items-center gap-1.5 h-7 rounded-md bg-slate-900 px-3 text-[11px] font-semibold text-white hover:bg-slate-700 disabled:opacity-60"
             >
-              {bankImportLoading ? (
-                <>
-                  <span className="inline-block w-3 h-3 border-2 border-white/40 border-t-white rounded-full animate-spin" />
-                  Importerer...
-                </>
-              ) : (
-                <>
-                  <Ic
-                    d="M3 16.5v2.25A2.25 2.25 0 005.25 21h13.5A2.25 2.25 0 0021 18.75V16.5M16.5 12L12 16.5m0 0L7.5 12m4.5 4.5V3"
-                    className="w-3.5 h-3.5"
-                  />
-                  {bankSummary ? "Opdatér kontoudtog" : "Importér kontoudtog"}
-                </>
-              )}
+              <Ic
+                d="M3 16.5v2.25A2.25 2.25 0 005.25 21h13.5A2.25 2.25 0 0021 18.75V16.5M16.5 12L12 16.5m0 0L7.5 12m4.5 4.5V3"
+                className="w-3.5 h-3.5"
+              />
+              {bankSummary ? "Opdatér kontoudtog" : "Importér kontoudtog"}
             </button>
             <input
               ref={bankFileRef}
               type="file"
-              accept="application/pdf"
+              accept="application/pdf,.pdf,.csv,.txt,.xml,text/csv,application/xml,text/xml"
               className="hidden"
               onChange={(e) => {
                 const f = e.target.files?.[0];
-                if (f) handleBankImport(f);
+                if (f) setBankImportFile(f);
                 e.target.value = "";
               }}
             />
           </div>
 
+          <ReceivablesPanel refreshKey={receivablesRefresh} onToast={onToast} />
+
           {/* Top: kassebeholdning + runway KPIs */}
           <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
             <div className="rounded-lg border border-violet-300 bg-violet-50 p-3">
@@ -2200,6 +2253,17 @@ export function EconomyTab({ onToast }: EconomyTabProps) {
             </div>
           </div>
 
+          {/* What-if scenarier mod basis-prognosen */}
+          <LiquidityScenarios
+            cases={cases}
+            expenses={expenses}
+            plannedPayments={plannedPayments}
+            startingCash={settings?.cashBalance ?? 0}
+            momsPct={settings?.momsPct ?? 25}
+            monthlyBurn={monthlyBurn}
+            onToast={onToast}
+          />
+
           {/* Faktisk likviditet fra kontoudtog */}
           {bankSummary && (
             <div className="rounded-lg border border-slate-300 bg-white p-4">
@@ -2315,6 +2379,10 @@ export function EconomyTab({ onToast }: EconomyTabProps) {
             </div>
           )}
 
+          {bankSummary && bankSummary.transactionCount > 0 && (
+            <BankCategorization onChanged={fetchBankSummary} onToast={onToast} />
+          )}
+
           {/* Forecast bars — DB pr. måned */}
           <div className="rounded-lg border border-slate-200 bg-white p-4">
             <div className="text-[11px] font-semibold text-slate-700 mb-2">
@@ -2356,6 +2424,12 @@ export function EconomyTab({ onToast }: EconomyTabProps) {
         </div>
       )}
 
+      {/* ═══ SITES SUB-TAB ═══ */}
+      {subTab === "sites" && <SiteProfitability />}
+
+      {/* ═══ MOMS SUB-TAB ═══ */}
+      {subTab === "moms" && <MomsReportPanel onToast={onToast} />}
+
       {/* ═══ SETTINGS SUB-TAB ═══ */}
       {subTab === "settings" && (
         <div className="grid grid-cols-1 lg:grid-cols-2 gap-3">
@@ -2636,6 +2710,14 @@ export function EconomyTab({ onToast }: EconomyTabProps) {
         </div>
       )}
 
+      {bankImportFile && (
+        <BankImportDialog
+          file={bankImportFile}
+          onClose={() => setBankImportFile(null)}
+          onImported={handleBankImported}
+        />
+      )}
+
       {/* ═══ INVOICE SCAN MODAL ═══ */}
       {scanResult && (
         <div
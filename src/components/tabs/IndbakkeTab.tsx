@@ -3,6 +3,7 @@
 import { useState, useEffect, useCallback, useRef, useMemo } from "react";
 import type { EnrichedThread } from "@/app/api/mail/unified-inbox/route";
 import { useDashboard } from "@/contexts/DashboardContext";
+import { EngagementTimeline } from "@/components/dashboard/EngagementTimeline";
 
 const ACC_COLORS = [
   { border: "#6366f1", bg: "#eef2ff", text: "#4338ca" }, // indigo
@@ -456,6 +457,11 @@ export function IndbakkeTab() {
                 ))
               )}
               {!loadingThread && !full && <div className="bg-gray-50 rounded-lg p-4 text-sm text-gray-800 whitespace-pre-line">{sanitize(sel.snippet)}</div>}
+              {folder === "inbox" && sel.fromEmail && (
+                <div className="rounded-lg border border-gray-200 bg-white">
+                  <EngagementTimeline email={sel.fromEmail} />
+                </div>
+              )}
               <div ref={messagesEndRef} />
             </div>
 
@@ -3,11 +3,13 @@
 import { useState, useEffect } from "react";
 import type { PropertyItem } from "@/contexts/DashboardContext";
 import { EmailComposeModal, type EmailDraft } from "@/components/EmailComposeModal";
+import { SequencesPanel } from "@/components/SequencesPanel";
+import { ExperimentsPanel } from "@/components/ExperimentsPanel";
 
 export type ReplyCategory = "positive_interest" | "rejection" | "question" | "meeting_request" | "unclear";
 
 export interface OutreachData {
-  stats: { queued: number; sending: number; sent: number; failed: number; totalProcessed?: number; rateLimitPerHour?: number; isProcessing?: boolean; sentThisHour: number };
+  stats: { queued: number; sending: number; sent: number; failed: number; totalProcessed?: number; rateLimitPerHour?: number; isProcessing?: boolean; sentThisHour: number; inSendWindow?: boolean; mailboxes?: { email: string; sentToday: number; capToday: number; paused: boolean }[] };
   items: { id: string; propertyId: string; to: string; subject: string; body: string; contactName?: string; status: string; queuedAt: string; sentAt?: string; error?: string }[];
   gmail: { configured: boolean; working: boolean; email?: string; error?: string };
 }
@@ -272,6 +274,16 @@ export function OutreachTab({
               </span>
             )}
           </div>
+          {outreachData.gmail.working && outreachData.stats?.mailboxes && outreachData.stats.mailboxes.length > 0 && (
+            <div className="flex flex-wrap items-center gap-x-4 gap-y-1 mt-2 text-[11px] text-green-700">
+              <span className="font-semibold">{outreachData.stats.inSendWindow ? "Sendevindue åbent" : "Uden for sendevindue – køen venter"}</span>
+              {outreachData.stats.mailboxes.map((m) => (
+                <span key={m.email} className="tabular-nums">
+                  {m.email}: {m.sentToday}/{m.capToday} i dag{m.paused ? " (pauset)" : ""}
+                </span>
+              ))}
+            </div>
+          )}
         </div>
       )}
 
@@ -305,7 +317,7 @@ export function OutreachTab({
                       <span className={`px-1.5 py-0.5 rounded text-[10px] font-semibold ${
                         item.status === "sent" ? "bg-green-100 text-green-700" :
                         item.status === "sending" ? "bg-blue-100 text-blue-700" :
-                        item.status === "failed" ? "bg-red-100 text-red-700" :
+                        item.status === "failed" || item.status === "bounced" ? "bg-red-100 text-red-700" :
                         "bg-slate-100 text-slate-600"
                       }`}>{item.status}</span>
                     </td>
@@ -496,6 +508,9 @@ export function OutreachTab({
         </div>
       )}
 
+      <SequencesPanel selectedPropertyIds={[...selectedForSend]} onToast={addToast} />
+      <ExperimentsPanel onToast={addToast} />
+
       {/* Opfølgning – ejendomme uden svar 7+ dage */}
       <div className="bg-white rounded-2xl border border-slate-200/60 shadow-[var(--card-shadow)] overflow-hidden mt-6">
         <div className="px-6 py-4 border-b border-slate-100 flex items-center justify-between">
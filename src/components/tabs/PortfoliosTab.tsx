@@ -0,0 +1,278 @@
+"use client";
+
+// ============================================================
+// Portfolios Tab – properties grouped by owner and group
+// ============================================================
+
+import { useCallback, useEffect, useState } from "react";
+import {
+  OWNER_STOP_LABELS,
+  type OwnerPortfolio,
+  type PortfolioOutreach,
+} from "@/lib/portfolio/types";
+
+const MIN_OPTIONS = [2, 3, 5, 10];
+
+function scoreClass(score: number) {
+  if (score >= 70) return "text-emerald-700 bg-emerald-50 border-emerald-200";
+  if (score >= 40) return "text-amber-700 bg-amber-50 border-amber-200";
+  return "text-slate-500 bg-slate-50 border-slate-200";
+}
+
+export function PortfoliosTab() {
+  const [portfolios, setPortfolios] = useState<OwnerPortfolio[] | null>(null);
+  const [unresolved, setUnresolved] = useState(0);
+  const [min, setMin] = useState(2);
+  const [resolving, setResolving] = useState(false);
+  const [open, setOpen] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    try {
+      const r = await fetch(`/api/portfolios?min=${min}`);
+      const d = (await r.json()) as { portfolios?: OwnerPortfolio[]; unresolvedOwners?: number; error?: string };
+      if (!r.ok) throw new Error(d.error || "Kunne ikke hente porteføljer");
+      setPortfolios(d.portfolios || []);
+      setUnresolved(d.unresolvedOwners || 0);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Kunne ikke hente porteføljer");
+      setPortfolios((prev) => prev ?? []);
+    }
+  }, [min]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  /** Resolve holding chains in rounds until the server reports none left. */
+  const resolveOwners = async (force = false) => {
+    setResolving(true);
+    setError(null);
+    try {
+      for (let round = 0; round < 10; round++) {
+        const r = await fetch("/api/portfolios/resolve", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ force: force && round === 0 ? true : undefined }),
+        });
+        const d = (await r.json()) as { remaining?: number; error?: string };
+        if (!r.ok) throw new Error(d.error || "Opslag fejlede");
+        if (!d.remaining) break;
+      }
+      await load();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Opslag fejlede");
+    } finally {
+      setResolving(false);
+    }
+  };
+
+  return (
+    <div className="animate-fade-in">
+      <div className="mb-5 flex items-center justify-between gap-3 flex-wrap">
+        <p className="text-xs text-slate-500">
+          Ejendomme samlet pr. ejer og koncern (via CVR-ejerdata). Kontakt hele porteføljen i én mail.
+        </p>
+        <div className="flex items-center gap-2">
+          <select
+            value={min}
+            onChange={(e) => setMin(Number(e.target.value))}
+            className="rounded-lg border border-slate-200 px-2 py-1.5 text-xs"
+          >
+            {MIN_OPTIONS.map((n) => (
+              <option key={n} value={n}>{n}+ ejendomme</option>
+            ))}
+          </select>
+          <button
+            onClick={() => resolveOwners(unresolved === 0)}
+            disabled={resolving}
+            className="text-xs font-semibold text-indigo-600 hover:text-indigo-700 px-2.5 py-1.5 rounded-lg hover:bg-indigo-50 disabled:opacity-40"
+          >
+            {resolving ? "Slår op i CVR…" : unresolved > 0 ? `Opløs koncerner (${unresolved})` : "Opdatér koncerner"}
+          </button>
+        </div>
+      </div>
+
+      {error && <p className="mb-3 text-xs text-red-600">{error}</p>}
+
+      {portfolios === null ? (
+        <p className="text-xs text-slate-400">Indlæser…</p>
+      ) : portfolios.length === 0 ? (
+        <p className="text-xs text-slate-400">Ingen ejere med {min} eller flere ejendomme endnu.</p>
+      ) : (
+        <div className="space-y-3">
+          {portfolios.map((p) => (
+            <PortfolioCard
+              key={p.key}
+              portfolio={p}
+              expanded={open === p.key}
+              onToggle={() => setOpen(open === p.key ? null : p.key)}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function PortfolioCard({
+  portfolio: p,
+  expanded,
+  onToggle,
+}: {
+  portfolio: OwnerPortfolio;
+  expanded: boolean;
+  onToggle: () => void;
+}) {
+  const topContact = p.contacts[0];
+  return (
+    <div className="bg-white rounded-2xl border border-slate-200/60 shadow-[var(--card-shadow)] overflow-hidden">
+      <button onClick={onToggle} className="w-full px-4 py-3 flex items-center gap-3 text-left hover:bg-slate-50/50">
+        <span className={`shrink-0 w-11 text-center px-1.5 py-1 rounded-lg border text-sm font-extrabold tabular-nums ${scoreClass(p.score)}`}>
+          {p.score}
+        </span>
+        <div className="min-w-0 flex-1">
+          <div className="flex items-center gap-2">
+            <span className="font-semibold text-sm text-slate-900 truncate">{p.parent.name}</span>
+            <span className="shrink-0 text-[10px] text-slate-400 tabular-nums">CVR {p.parent.cvr}</span>
+            {!p.resolved && (
+              <span className="shrink-0 px-1.5 py-0.5 rounded text-[10px] font-semibold bg-slate-100 text-slate-500">Ikke opløst</span>
+            )}
+          </div>
+          <div className="text-[11px] text-slate-500 truncate">
+            {p.properties.length} ejendomme
+            {p.strongProperties > 0 && ` · ${p.strongProperties} stærke`}
+            {p.owners.length > 1 && ` · ${p.owners.length} selskaber`}
+            {p.totalDailyTraffic > 0 && ` · ${p.totalDailyTraffic.toLocaleString("da-DK")} biler/døgn`}
+            {topContact && ` · ${topContact.name || topContact.email}`}
+          </div>
+        </div>
+        <svg className={`w-4 h-4 text-slate-400 transition-transform ${expanded ? "rotate-180" : ""}`} fill="none" viewBox="0 0 24 24" strokeWidth={2} stroke="currentColor">
+          <path strokeLinecap="round" strokeLinejoin="round" d="M19.5 8.25l-7.5 7.5-7.5-7.5" />
+        </svg>
+      </button>
+      {expanded && <PortfolioDetail portfolio={p} />}
+    </div>
+  );
+}
+
+function PortfolioDetail({ portfolio: p }: { portfolio: OwnerPortfolio }) {
+  const [outreach, setOutreach] = useState<PortfolioOutreach[] | null>(null);
+  const [to, setTo] = useState(p.contacts[0]?.email || "");
+  const [generating, setGenerating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    try {
+      const r = await fetch(`/api/portfolios/${p.key}`);
+      const d = (await r.json()) as { outreach?: PortfolioOutreach[] };
+      setOutreach(d.outreach || []);
+    } catch {
+      setOutreach([]);
+    }
+  }, [p.key]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const generate = async () => {
+    setGenerating(true);
+    setError(null);
+    const contact = p.contacts.find((c) => c.email === to);
+    try {
+      const r = await fetch(`/api/portfolios/${p.key}/outreach`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          to: to.trim() || undefined,
+          toName: contact?.name || undefined,
+          toRole: contact?.role || undefined,
+        }),
+      });
+      const d = (await r.json()) as { error?: string };
+      if (!r.ok) throw new Error(d.error || "Kunne ikke generere mail");
+      await load();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Kunne ikke generere mail");
+    } finally {
+      setGenerating(false);
+    }
+  };
+
+  return (
+    <div className="border-t border-slate-100 px-4 py-3 space-y-4">
+      {p.stopReason && (
+        <p className="text-[11px] text-slate-500">
+          Koncernkæde: {OWNER_STOP_LABELS[p.stopReason]}
+          {p.owners.length > 1 && ` – ejes via ${p.owners.map((o) => `${o.name} (${o.propertyCount})`).join(", ")}`}
+        </p>
+      )}
+
+      <ul className="divide-y divide-slate-100">
+        {p.properties.map((prop) => (
+          <li key={`${prop.kind}:${prop.id}`} className="py-1.5 flex items-center gap-3 text-[11px]">
+            <span className="w-6 shrink-0 text-right font-bold tabular-nums text-slate-700">{prop.outdoorScore ?? "–"}</span>
+            <span className="min-w-0 flex-1 truncate text-slate-700">
+              {prop.address}{prop.city ? `, ${prop.city}` : ""}
+            </span>
+            <span className="shrink-0 text-slate-400">{prop.kind === "staged" ? "Staging" : "HubSpot"} · {prop.status}</span>
+          </li>
+        ))}
+      </ul>
+
+      <div>
+        <span className="text-[10px] font-semibold text-slate-400 uppercase tracking-wider">Samlet outreach</span>
+        <div className="flex gap-1.5 mt-1.5">
+          <input
+            list={`portfolio-contacts-${p.key}`}
+            value={to}
+            onChange={(e) => setTo(e.target.value)}
+            placeholder="Modtager (email)"
+            className="flex-1 rounded-lg border border-slate-200 px-2.5 py-1 text-[11px]"
+          />
+          <datalist id={`portfolio-contacts-${p.key}`}>
+            {p.contacts.map((c) => (
+              <option key={c.email} value={c.email}>
+                {[c.name, c.role, `${c.propertyCount} ejendomme`].filter(Boolean).join(" · ")}
+              </option>
+            ))}
+          </datalist>
+          <button
+            onClick={generate}
+            disabled={generating}
+            className="rounded-lg bg-slate-900 px-2.5 py-1 text-[11px] font-semibold text-white disabled:opacity-40"
+          >
+            {generating ? "Skriver…" : "Skriv samlet mail"}
+          </button>
+        </div>
+        {error && <p className="text-[11px] text-red-600 mt-1">{error}</p>}
+
+        {outreach && outreach.length > 0 && (
+          <div className="mt-3 space-y-3">
+            {outreach.map((o) => (
+              <div key={o.id} className="rounded-xl border border-slate-200 p-3">
+                <div className="flex items-center justify-between gap-2">
+                  <span className="text-xs font-semibold text-slate-900 truncate">{o.subject}</span>
+                  <button
+                    onClick={() => navigator.clipboard?.writeText(`${o.subject}\n\n${o.body}`)}
+                    className="shrink-0 text-[11px] font-semibold text-indigo-600 hover:text-indigo-700"
+                  >
+                    Kopiér
+                  </button>
+                </div>
+                <div className="text-[10px] text-slate-400 mt-0.5">
+                  {new Date(o.createdAt).toLocaleString("da-DK", { dateStyle: "short", timeStyle: "short" })}
+                  {o.toEmail && ` · til ${o.toName ? `${o.toName} <${o.toEmail}>` : o.toEmail}`}
+                  {` · ${o.propertyRefs.length} ejendomme`}
+                </div>
+                <p className="mt-2 text-[11px] text-slate-600 whitespace-pre-wrap">{o.body}</p>
+                {o.note && <p className="mt-1 text-[10px] text-slate-400 italic">{o.note}</p>}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -2,22 +2,35 @@
 
 import type { RefObject } from "react";
 import EmptyState from "../ui/EmptyState";
+import { ResearchJobQueue } from "@/components/dashboard/ResearchJobQueue";
 import type { PropertyItem } from "@/contexts/DashboardContext";
+import type { ResearchSource, ResearchSourceProvenance } from "@/types";
 
 export interface ProgressEvent {
   phase: string;
   message: string;
   detail?: string;
   progress?: number;
+  sources?: ResearchSourceProvenance[];
   timestamp: number;
 }
 
+const SOURCE_LABELS: Record<ResearchSource, string> = {
+  dawa: "DAWA",
+  ois: "OIS",
+  bbr: "BBR",
+  cvr: "CVR",
+  web_search: "Websøgning",
+};
+
 export interface ResearchTabProps {
   researchRunning: string | null;
   researchEvents: ProgressEvent[];
   researchPct: number;
   researchLogRef: RefObject<HTMLDivElement | null>;
   triggerResearch: (propertyId?: string) => void;
+  /** Re-run the last single-property research, bypassing the cache for the given sources */
+  rerunResearch?: (refreshSources: ResearchSource[] | "all") => void;
   stopResearch: () => void;
   currentResearchProperty: { name?: string; address?: string; postalCode?: string; city?: string } | null | undefined;
   researchSummary: { oisOwner?: string | null; totalSearches: number; contactsFound: number; emailsFound: number };
@@ -37,6 +50,7 @@ export function ResearchTab({
   researchPct,
   researchLogRef,
   triggerResearch,
+  rerunResearch,
   stopResearch,
   currentResearchProperty,
   researchSummary,
@@ -44,6 +58,9 @@ export function ResearchTab({
   ProgressBar,
   LogPanel,
 }: ResearchTabProps) {
+  const sources = [...researchEvents].reverse().find(e => e.sources)?.sources ?? [];
+  const sourceKinds = [...new Set(sources.map(p => p.source))];
+
   return (
     <div className="animate-fade-in">
       <div className="mb-5 flex items-center justify-between">
@@ -57,6 +74,8 @@ export function ResearchTab({
         )}
       </div>
 
+      <ResearchJobQueue />
+
       {pendingResearchProperties.length > 0 && !researchRunning && (
         <div className="mb-6 bg-white rounded-2xl border border-slate-200/60 shadow-[var(--card-shadow)] overflow-hidden">
           <div className="px-4 py-3 border-b border-slate-100 flex items-center justify-between gap-3">
@@ -133,6 +152,47 @@ export function ResearchTab({
             </div>
           )}
 
+          {sources.length > 0 && (
+            <div className="bg-white rounded-2xl border border-slate-200/60 shadow-[var(--card-shadow)] overflow-hidden animate-fade-in">
+              <div className="px-4 py-3 border-b border-slate-100 flex items-center justify-between gap-3">
+                <h3 className="text-xs font-bold text-slate-700 uppercase tracking-wide">
+                  Kilder ({sources.filter(p => p.fromCache).length} fra cache)
+                </h3>
+                {rerunResearch && !researchRunning && (
+                  <div className="flex items-center gap-1">
+                    {sourceKinds.map(kind => (
+                      <button key={kind} onClick={() => rerunResearch([kind])}
+                        className="text-[11px] font-semibold text-slate-500 hover:text-indigo-700 px-2 py-1 rounded-lg hover:bg-indigo-50">
+                        Genhent {SOURCE_LABELS[kind]}
+                      </button>
+                    ))}
+                    <button onClick={() => rerunResearch("all")}
+                      className="text-[11px] font-semibold text-indigo-600 hover:text-indigo-700 px-2 py-1 rounded-lg hover:bg-indigo-50">
+                      Genhent alt
+                    </button>
+                  </div>
+                )}
+              </div>
+              <ul className="divide-y divide-slate-100 max-h-56 overflow-y-auto">
+                {sources.map(p => (
+                  <li key={`${p.source}:${p.key}`} className="px-4 py-2 flex items-center gap-3 text-[11px]">
+                    <span className="w-20 shrink-0 font-semibold text-slate-700">{SOURCE_LABELS[p.source]}</span>
+                    <span className="flex-1 min-w-0 truncate text-slate-500" title={p.key}>
+                      {p.sourceUrl
+                        ? <a href={p.sourceUrl} target="_blank" rel="noopener noreferrer" className="hover:underline">{p.key}</a>
+                        : p.key}
+                    </span>
+                    <span className={`shrink-0 px-1.5 py-0.5 rounded font-semibold ${p.fromCache ? "bg-amber-50 text-amber-700" : "bg-emerald-50 text-emerald-700"}`}>
+                      {p.fromCache
+                        ? `Cache · ${new Date(p.fetchedAt).toLocaleDateString("da-DK")}`
+                        : "Hentet nu"}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
           <ProgressBar pct={researchPct} running={!!researchRunning} phase="" />
           <LogPanel logRef={researchLogRef} events={researchEvents} running={!!researchRunning} maxHeight="max-h-[550px]" />
         </div>
@@ -2,6 +2,11 @@
 
 import { useState, useEffect, useCallback, useRef } from "react";
 import { useDashboard } from "@/contexts/DashboardContext";
+import type { AutoResearchRule } from "@/lib/state-machine";
+import type { AutonomySettings, HeldAction } from "@/lib/outreach/autonomy-store";
+import { SuppressionList } from "@/components/SuppressionList";
+import { SendSchedule } from "@/components/SendSchedule";
+import { EmailTemplateLibrary } from "@/components/EmailTemplateLibrary";
 
 interface DiscoveryConfig {
   id: string;
@@ -16,39 +21,18 @@ interface DiscoveryConfig {
   updatedAt: string;
 }
 
-const AUTONOMY_KEY = "ejendom_ai_autonomy";
-const RULES_KEY = "ejendom_ai_auto_rules";
-
-const RULE_IDS = ["new-high-score", "retry-contact-pending", "retry-errors"] as const;
-type RuleId = (typeof RULE_IDS)[number];
-
-function loadAutonomy(): number {
-  if (typeof window === "undefined") return 0;
-  try {
-    const v = localStorage.getItem(AUTONOMY_KEY);
-    if (v === null) return 0;
-    const n = parseInt(v, 10);
-    return n >= 0 && n <= 3 ? n : 0;
-  } catch {
-    return 0;
-  }
-}
+const RULE_DETAILS: Record<string, string> = {
+  "new-high-score": "Koerer automatisk research paa nye ejendomme der scorer hoejt",
+  "retry-contact-pending": "Proever igen for ejendomme hvor kontakt mangler",
+  "retry-errors": "Automatisk retry paa ejendomme med fejl-status",
+};
 
-function loadRules(): Record<RuleId, boolean> {
-  if (typeof window === "undefined") return { "new-high-score": false, "retry-contact-pending": false, "retry-errors": false };
-  try {
-    const raw = localStorage.getItem(RULES_KEY);
-    if (!raw) return { "new-high-score": false, "retry-contact-pending": false, "retry-errors": false };
-    const o = JSON.parse(raw) as Record<string, boolean>;
-    return {
-      "new-high-score": !!o["new-high-score"],
-      "retry-contact-pending": !!o["retry-contact-pending"],
-      "retry-errors": !!o["retry-errors"],
-    };
-  } catch {
-    return { "new-high-score": false, "retry-contact-pending": false, "retry-errors": false };
-  }
-}
+const HELD_ACTION_LABELS: Record<string, string> = {
+  start_research: "Research",
+  retry_research: "Genforsøg research",
+  send_first_email: "Første mail",
+  send_followup: "Opfølgning",
+};
 
 // ─── Research Log types ──────────────────────────────────────
 
@@ -192,7 +176,8 @@ Mads`;
 export function SettingsTab() {
   const { systemHealth, addToast } = useDashboard();
   const [autonomyLevel, setAutonomyLevel] = useState(0);
-  const [rules, setRules] = useState<Record<RuleId, boolean>>(loadRules);
+  const [rules, setRules] = useState<AutoResearchRule[]>([]);
+  const [heldActions, setHeldActions] = useState<HeldAction[]>([]);
 
   // AI Settings state
   const [aiSettings, setAiSettings] = useState<AISettings>({ toneOfVoice: DEFAULT_TONE, exampleEmails: DEFAULT_EXAMPLES, senderName: "Mads" });
@@ -335,9 +320,34 @@ export function SettingsTab() {
   const [newConfigMinTraffic, setNewConfigMinTraffic] = useState(10000);
   const [savingConfig, setSavingConfig] = useState(false);
 
+  const fetchAutonomy = useCallback(async () => {
+    try {
+      const res = await fetch("/api/settings/autonomy");
+      const data = (await res.json()) as { settings?: AutonomySettings; held?: HeldAction[] };
+      if (data.settings) {
+        setAutonomyLevel(data.settings.level);
+        setRules(data.settings.rules);
+      }
+      setHeldActions(data.held || []);
+    } catch {
+      // keep defaults
+    }
+  }, []);
+
   useEffect(() => {
-    setAutonomyLevel(loadAutonomy());
-    setRules(loadRules());
+    fetchAutonomy();
+  }, [fetchAutonomy]);
+
+  const saveAutonomy = useCallback(async (patch: { level?: number; rules?: AutoResearchRule[] }) => {
+    const res = await fetch("/api/settings/autonomy", {
+      method: "PUT",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(patch),
+    });
+    const data = (await res.json().catch(() => ({}))) as { settings?: AutonomySettings; error?: string };
+    if (!res.ok || !data.settings) throw new Error(data.error || "Kunne ikke gemme");
+    setAutonomyLevel(data.settings.level);
+    setRules(data.settings.rules);
   }, []);
 
   const fetchDiscoveryConfigs = useCallback(async () => {
@@ -421,23 +431,30 @@ export function SettingsTab() {
     }
   }, [addToast, fetchDiscoveryConfigs]);
 
-  const setAutonomy = useCallback((level: number) => {
-    setAutonomyLevel(level);
+  const setAutonomy = useCallback(async (level: number) => {
     try {
-      localStorage.setItem(AUTONOMY_KEY, String(level));
-    } catch {}
-    addToast(`Autonomi sat til niveau ${level}`, "success");
-  }, [addToast]);
+      await saveAutonomy({ level });
+      addToast(`Autonomi sat til niveau ${level}`, "success");
+    } catch (e) {
+      addToast(e instanceof Error ? e.message : "Kunne ikke gemme autonomi-niveau", "error");
+    }
+  }, [addToast, saveAutonomy]);
 
-  const toggleRule = useCallback((id: RuleId) => {
-    setRules((prev) => {
-      const next = { ...prev, [id]: !prev[id] };
-      try {
-        localStorage.setItem(RULES_KEY, JSON.stringify(next));
-      } catch {}
-      addToast(next[id] ? `Regel "${id}" aktiveret` : `Regel "${id}" deaktiveret`, "info");
-      return next;
-    });
+  const toggleRule = useCallback(async (id: string) => {
+    const next = rules.map((r) => (r.id === id ? { ...r, active: !r.active } : r));
+    const active = next.find((r) => r.id === id)?.active;
+    try {
+      await saveAutonomy({ rules: next });
+      addToast(active ? `Regel "${id}" aktiveret` : `Regel "${id}" deaktiveret`, "info");
+    } catch (e) {
+      addToast(e instanceof Error ? e.message : "Kunne ikke gemme regel", "error");
+    }
+  }, [rules, addToast, saveAutonomy]);
+
+  const dismissHeld = useCallback(async (id: string) => {
+    const res = await fetch(`/api/settings/autonomy?heldId=${encodeURIComponent(id)}`, { method: "DELETE" });
+    if (res.ok) setHeldActions((prev) => prev.filter((h) => h.id !== id));
+    else addToast("Kunne ikke fjerne", "error");
   }, [addToast]);
 
   return (
@@ -605,9 +622,37 @@ Endnu et eksempel..."
             </button>
           ))}
         </div>
-        <p className="text-[10px] text-slate-400 mt-3">Valgt niveau: {autonomyLevel}. Ændringen er gemt lokalt.</p>
+        <p className="text-[10px] text-slate-400 mt-3">Valgt niveau: {autonomyLevel}. Gemt centralt – research-cron, mail-kø og opfølgnings-cron følger niveauet.</p>
+
+        {heldActions.length > 0 && (
+          <div className="mt-4 border-t border-slate-100 pt-3">
+            <div className="text-[10px] font-semibold text-slate-400 uppercase tracking-wider mb-2">
+              Holdt tilbage til godkendelse ({heldActions.length})
+            </div>
+            <ul className="space-y-1 max-h-48 overflow-y-auto">
+              {heldActions.map((h) => (
+                <li key={h.id} className="flex items-center gap-2 text-[11px] text-slate-600">
+                  <span className="px-1.5 py-0.5 rounded bg-violet-50 text-violet-700 text-[10px] font-semibold shrink-0">
+                    {HELD_ACTION_LABELS[h.action] || h.action}
+                  </span>
+                  <span className="flex-1 truncate">{h.label || h.targetId}</span>
+                  <span className="text-slate-400 shrink-0">
+                    {h.source} · {h.holdCount}× · {new Date(h.lastHeldAt).toLocaleString("da-DK", { dateStyle: "short", timeStyle: "short" })}
+                  </span>
+                  <button type="button" onClick={() => dismissHeld(h.id)} className="text-slate-400 hover:text-red-500 shrink-0" title="Fjern fra listen">×</button>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
       </div>
 
+      <SendSchedule />
+
+      <SuppressionList />
+
+      <EmailTemplateLibrary />
+
       {/* Auto-Discovery Config */}
       <div className="bg-white rounded-2xl border border-slate-200/60 shadow-[var(--card-shadow)] p-6">
         <div className="flex items-center gap-2 mb-4">
@@ -787,19 +832,15 @@ Endnu et eksempel..."
           </div>
           <h3 className="text-sm font-bold text-slate-800 uppercase tracking-wide">Auto-Research Regler</h3>
         </div>
-        <p className="text-xs text-slate-500 mb-4">Definer regler for automatisk research af nye ejendomme. Reglerne koeres som cron-job. Valg gemmes lokalt.</p>
+        <p className="text-xs text-slate-500 mb-4">Definer regler for automatisk research af nye ejendomme. Reglerne koeres som cron-job og kræver autonomi-niveau 1 eller højere.</p>
         <div className="space-y-3">
-          {[
-            { id: "new-high-score" as RuleId, label: "Nye ejendomme med score >= 7 og trafik >= 15K", detail: "Koerer automatisk research paa nye ejendomme der scorer hoejt" },
-            { id: "retry-contact-pending" as RuleId, label: "Genforsog research for ejendomme uden kontakt (max 72t)", detail: "Proever igen for ejendomme hvor kontakt mangler" },
-            { id: "retry-errors" as RuleId, label: "Genforsog fejlede research-jobs", detail: "Automatisk retry paa ejendomme med fejl-status" },
-          ].map((rule) => {
-            const active = rules[rule.id];
+          {rules.map((rule) => {
+            const active = rule.active;
             return (
               <div key={rule.id} className="flex items-center justify-between p-4 rounded-xl border border-slate-200 bg-slate-50/50">
                 <div className="flex-1 min-w-0">
                   <div className="text-sm font-semibold text-slate-800">{rule.label}</div>
-                  <div className="text-[11px] text-slate-500 mt-0.5">{rule.detail}</div>
+                  <div className="text-[11px] text-slate-500 mt-0.5">{RULE_DETAILS[rule.id]}</div>
                 </div>
                 <div className="flex items-center gap-3 ml-4 shrink-0">
                   <span className={`px-2.5 py-1 text-[11px] font-bold rounded-lg ${active ? "bg-emerald-100 text-emerald-700" : "bg-slate-200 text-slate-500"}`}>
@@ -25,6 +25,10 @@ import {
   MONTERING_PER_SQM,
   PRODUKTION_PER_SQM,
 } from "@/lib/tilbud/placement-types";
+import { tilbudLinePeriod } from "@/lib/booking/calendar";
+import type { TilbudRevisionDiff, TilbudRevisionSummary } from "@/lib/tilbud/revision-types";
+import type { TilbudAcceptance } from "@/lib/tilbud/acceptance-types";
+import { OccupancyGrid } from "../OccupancyGrid";
 
 interface TilbudListResponse { items: Tilbud[]; total: number; }
 interface PlacementListResponse { items: Placement[]; total: number; }
@@ -68,6 +72,12 @@ export function TilbudTab({ onToast }: TilbudTabProps) {
   const [aftalPris, setAftalPris] = useState("");
   const [globalFromWeek, setGlobalFromWeek] = useState<number | undefined>(undefined);
   const [globalToWeek, setGlobalToWeek] = useState<number | undefined>(undefined);
+  const [saveCount, setSaveCount] = useState(0);
+
+  const [revisions, setRevisions] = useState<TilbudRevisionSummary[]>([]);
+  const [revisionDiff, setRevisionDiff] = useState<TilbudRevisionDiff | null>(null);
+  const [acceptance, setAcceptance] = useState<TilbudAcceptance | null>(null);
+  const [acceptLink, setAcceptLink] = useState<{ url: string; expiresAt: string } | null>(null);
 
   const setGlobalWeeks = (from: number | undefined, to: number | undefined) => {
     setGlobalFromWeek(from);
@@ -91,6 +101,52 @@ export function TilbudTab({ onToast }: TilbudTabProps) {
 
   useEffect(() => { fetchItems(); fetchPlacements(); }, [fetchItems, fetchPlacements]);
 
+  const fetchRevisions = useCallback(async (id: string | null) => {
+    setRevisionDiff(null);
+    if (!id) { setRevisions([]); return; }
+    try { const r = await fetch(`/api/tilbud/${id}/revisions`); const d = (await r.json()) as { items?: TilbudRevisionSummary[] }; setRevisions(d.items || []); }
+    catch { setRevisions([]); }
+  }, []);
+
+  useEffect(() => { fetchRevisions(selectedId); }, [selectedId, saveCount, fetchRevisions]);
+
+  const fetchAcceptance = useCallback(async (id: string | null) => {
+    setAcceptLink(null);
+    if (!id) { setAcceptance(null); return; }
+    try { const r = await fetch(`/api/tilbud/${id}/acceptance`); const d = (await r.json()) as { acceptance?: TilbudAcceptance | null }; setAcceptance(d.acceptance ?? null); }
+    catch { setAcceptance(null); }
+  }, []);
+
+  useEffect(() => { fetchAcceptance(selectedId); }, [selectedId, fetchAcceptance]);
+
+  const createAcceptLink = async () => {
+    try {
+      const r = await fetch(`/api/tilbud/${selectedId}/acceptance`, { method: "POST" });
+      const d = (await r.json()) as { url?: string; expiresAt?: string; error?: string };
+      if (!r.ok || !d.url) { onToast(d.error || "Kunne ikke oprette link", "error"); return; }
+      setAcceptLink({ url: d.url, expiresAt: d.expiresAt || "" });
+      await navigator.clipboard?.writeText(d.url).catch(() => {});
+      onToast("Accept-link kopieret", "success");
+    } catch { onToast("Fejl ved oprettelse af link", "error"); }
+  };
+
+  const showRevisionDiff = async (revision: number) => {
+    try {
+      const r = await fetch(`/api/tilbud/${selectedId}/revisions/diff?to=${revision}`);
+      const d = (await r.json()) as TilbudRevisionDiff & { error?: string };
+      if (!r.ok) { onToast(d.error || "Kunne ikke sammenligne", "error"); return; }
+      setRevisionDiff(d);
+    } catch { onToast("Fejl ved sammenligning", "error"); }
+  };
+
+  const downloadRevisionPdf = async (revision: number) => {
+    try {
+      const r = await fetch("/api/tilbud/generate-pdf", { method: "POST", headers: { "Content-Type": "application/json" }, body: JSON.stringify({ id: selectedId, revision }) });
+      if (!r.ok) { const d = (await r.json().catch(() => ({}))) as { error?: string }; throw new Error(d.error || "Kunne ikke generere PDF"); }
+      const b = await r.blob(); const u = URL.createObjectURL(b); const a = document.createElement("a"); a.href = u; a.download = `${form.offerNumber || "Tilbud"}-v${revision}.pdf`; a.click(); URL.revokeObjectURL(u);
+    } catch (e) { onToast(e instanceof Error ? e.message : "Fejl ved PDF", "error"); }
+  };
+
   const openFromList = useCallback((t: Tilbud) => {
     setForm({ ...t, fixedCosts: normalizeFixedCosts(t.fixedCosts) });
     setSelectedId(t.id);
@@ -148,7 +204,7 @@ export function TilbudTab({ onToast }: TilbudTabProps) {
     if (!p) return;
     const weeks = form.lines.find((l) => isMediaLine(l))?.weeks || 2;
     const newLines = placementToLines(p, weeks);
-    setForm((prev) => ({ ...prev, lines: newLines, title: `Tilbud — ${p.name}` }));
+    setForm((prev) => ({ ...prev, lines: newLines, title: `Tilbud — ${p.name}`, placementId: p.id }));
     setActiveCalcLineId(newLines[0]?.id ?? null);
     setAftalPris("");
     onToast(`Placering "${p.name}" indsat`, "info");
@@ -163,15 +219,19 @@ export function TilbudTab({ onToast }: TilbudTabProps) {
     if (m) updateLine(m.id, { discountPct: pct });
   };
 
-  const save = async (status?: "draft" | "final"): Promise<string | null> => {
+  const save = async (status?: "draft" | "final", allowOverlap = false): Promise<string | null> => {
     setSaving(true);
     try {
       if (!form.clientName.trim()) { onToast("Udfyld kundenavn", "error"); return null; }
       if (!form.offerDate) { onToast("Udfyld dato", "error"); return null; }
-      const r = await fetch("/api/tilbud", { method: "POST", headers: { "Content-Type": "application/json" }, body: JSON.stringify({ ...form, fixedCosts: normalizeFixedCosts(form.fixedCosts), status: status || form.status }) });
+      const r = await fetch("/api/tilbud", { method: "POST", headers: { "Content-Type": "application/json" }, body: JSON.stringify({ ...form, fixedCosts: normalizeFixedCosts(form.fixedCosts), status: status || form.status, allowOverlap }) });
       const d = (await r.json()) as { success?: boolean; tilbud?: Tilbud; error?: string };
+      if (r.status === 409) {
+        if (confirm(`${d.error || "Placeringen er allerede booket i perioden."}\n\nGem alligevel?`)) { setSaving(false); return save(status, true); }
+        return null;
+      }
       if (!r.ok || !d.tilbud) { onToast(d.error || "Kunne ikke gemme", "error"); return null; }
-      setForm({ ...d.tilbud, fixedCosts: normalizeFixedCosts(d.tilbud.fixedCosts) }); setSelectedId(d.tilbud.id); await fetchItems(); onToast("Tilbud gemt", "success"); return d.tilbud.id;
+      setForm({ ...d.tilbud, fixedCosts: normalizeFixedCosts(d.tilbud.fixedCosts) }); setSelectedId(d.tilbud.id); setSaveCount((n) => n + 1); await fetchItems(); onToast("Tilbud gemt", "success"); return d.tilbud.id;
     } catch { onToast("Fejl ved gem", "error"); return null; } finally { setSaving(false); }
   };
 
@@ -189,6 +249,7 @@ export function TilbudTab({ onToast }: TilbudTabProps) {
   useEffect(() => { if (!activeCalcLineId && form.lines.length > 0) setActiveCalcLineId(form.lines[0].id); }, [activeCalcLineId, form.lines]);
   const activeLine = useMemo(() => form.lines.find((l) => l.id === activeCalcLineId) ?? form.lines[0] ?? null, [form.lines, activeCalcLineId]);
   const activeLineTotals = useMemo(() => activeLine ? calcLineTotals(activeLine) : null, [activeLine]);
+  const bookedPeriod = useMemo(() => { const m = form.lines.find((l) => isMediaLine(l)); return m ? tilbudLinePeriod(m, form.offerDate) : null; }, [form.lines, form.offerDate]);
   const computedDiscountPct = useMemo(() => { const t = Number(aftalPris); if (!aftalPris.trim() || isNaN(t) || t <= 0) return null; return calcMediaDiscountPct(form.lines, t); }, [aftalPris, form.lines]);
 
   return (
@@ -287,6 +348,21 @@ export function TilbudTab({ onToast }: TilbudTabProps) {
             <span className="text-[10px] text-slate-400">{form.lines.length} linjer</span>
           </div>
 
+          {/* ── Belægning for valgt placering ── */}
+          {form.placementId && (
+            <div className="mt-3 rounded-md border border-slate-200 p-2.5">
+              <OccupancyGrid
+                placementId={form.placementId}
+                fromDate={bookedPeriod?.fromDate}
+                weeks={26}
+                highlightFrom={bookedPeriod?.fromDate}
+                highlightTo={bookedPeriod?.toDate}
+                ownRefId={selectedId ?? undefined}
+                refreshKey={saveCount}
+              />
+            </div>
+          )}
+
           {/* ── Bottom row: Aftalt pris + Summering side by side ── */}
           <div className="mt-4 grid grid-cols-1 md:grid-cols-2 gap-4">
             {/* Left: Aftalt pris + comments */}
@@ -370,6 +446,65 @@ export function TilbudTab({ onToast }: TilbudTabProps) {
             )}
           </div>
 
+          {/* Customer acceptance */}
+          {selectedId && form.status === "final" && (
+            <div className="surface-card p-3">
+              <h3 className="text-xs font-bold text-slate-900 mb-2">Kundens accept</h3>
+              {acceptance ? (
+                <div className={`rounded border px-2 py-1.5 text-[10px] ${acceptance.decision === "accepted" ? "border-emerald-200 bg-emerald-50 text-emerald-800" : "border-rose-200 bg-rose-50 text-rose-700"}`}>
+                  <p className="font-semibold">{acceptance.decision === "accepted" ? "Accepteret" : "Afvist"} af {acceptance.signerName}{acceptance.signerTitle ? ` (${acceptance.signerTitle})` : ""}</p>
+                  <p>{new Date(acceptance.createdAt).toLocaleString("da-DK")} · v{acceptance.revision || "-"}</p>
+                  {acceptance.comment && <p className="mt-0.5 italic">&quot;{acceptance.comment}&quot;</p>}
+                  {acceptance.caseId && <p className="mt-0.5">Case oprettet som godkendt.</p>}
+                </div>
+              ) : (
+                <div className="space-y-1.5">
+                  <button onClick={createAcceptLink} className="btn-secondary w-full text-[10px]">Opret accept-link</button>
+                  {acceptLink && (
+                    <div className="space-y-0.5">
+                      <input readOnly className="input-field !py-0.5 !text-[9px]" value={acceptLink.url} onFocus={(e) => e.target.select()} />
+                      {acceptLink.expiresAt && <p className="text-[9px] text-slate-400">Udløber {new Date(acceptLink.expiresAt).toLocaleDateString("da-DK")}</p>}
+                    </div>
+                  )}
+                </div>
+              )}
+            </div>
+          )}
+
+          {/* Revisions */}
+          {selectedId && revisions.length > 0 && (
+            <div className="surface-card p-3">
+              <h3 className="text-xs font-bold text-slate-900 mb-2">Versioner</h3>
+              <div className="space-y-1 max-h-[220px] overflow-auto scroll-slim">
+                {revisions.map((rev) => (
+                  <div key={rev.id} className="flex items-center justify-between gap-1 rounded border border-slate-200 px-2 py-1">
+                    <div className="min-w-0">
+                      <p className="text-[10px] font-semibold text-slate-800">v{rev.revision} <span className="font-normal text-slate-400">· {new Date(rev.createdAt).toLocaleDateString("da-DK")} · {rev.status}</span></p>
+                      <p className="text-[9px] text-slate-500 tabular-nums">{fmt(rev.totals.grandTotal || 0, form.currency)}</p>
+                    </div>
+                    <div className="flex gap-1 shrink-0">
+                      {rev.revision > 1 && <button onClick={() => showRevisionDiff(rev.revision)} className="btn-ghost !px-1.5 !py-0.5 text-[10px]">Ændringer</button>}
+                      <button onClick={() => downloadRevisionPdf(rev.revision)} className="btn-ghost !px-1.5 !py-0.5 text-[10px]">PDF</button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+              {revisionDiff && (
+                <div className="mt-2 rounded border border-indigo-200 bg-indigo-50/50 p-2">
+                  <div className="flex items-center justify-between mb-1">
+                    <p className="text-[10px] font-semibold text-indigo-700">v{revisionDiff.fromRevision} → v{revisionDiff.toRevision}</p>
+                    <button onClick={() => setRevisionDiff(null)} className="text-slate-400 hover:text-slate-600 text-[10px]">✕</button>
+                  </div>
+                  {revisionDiff.changelog.length === 0 ? <p className="text-[10px] text-slate-400">Ingen ændringer.</p> : (
+                    <ul className="space-y-0.5 text-[10px] text-slate-700 list-disc pl-3">
+                      {revisionDiff.changelog.map((entry, i) => <li key={i}>{entry}</li>)}
+                    </ul>
+                  )}
+                </div>
+              )}
+            </div>
+          )}
+
           {/* Saved tilbud */}
           <div className="surface-card p-3">
             <h3 className="text-xs font-bold text-slate-900 mb-2">Gemte tilbud</h3>
@@ -19,6 +19,9 @@ export type TabId =
   | "staging"
   | "properties"
   | "research"
+  | "portfolios"
+  | "administrators"
+  | "dedupe"
   | "lead_sourcing"
   | "lead_scanner"
   | "ooh"
@@ -246,7 +249,7 @@ export function DashboardProvider({ children }: { children: ReactNode }) {
       const hash = window.location.hash.replace("#", "") as TabId;
       const valid: TabId[] = [
         "home", "discover", "street_agent", "scaffolding", "staging",
-        "properties", "research", "lead_sourcing", "lead_scanner", "ooh", "tilbud", "economy", "outreach", "indbakke", "settings",
+        "properties", "research", "portfolios", "administrators", "dedupe", "lead_sourcing", "lead_scanner", "ooh", "tilbud", "economy", "outreach", "indbakke", "settings",
       ];
       if (valid.includes(hash)) return hash;
     }
@@ -62,6 +62,13 @@ function buildPrompt(data: BriefingData): string {
     lines.push("");
   }
 
+  if (data.receivables && data.receivables.outstanding > 0) {
+    lines.push(`## Debitorer`);
+    lines.push(`Udestående: ${Math.round(data.receivables.outstanding)} kr | Forfaldne fakturaer: ${data.receivables.overdueCount} (${Math.round(data.receivables.overdueAmount)} kr)`);
+    for (const o of data.receivables.overdue) lines.push(`- ${o}`);
+    lines.push("");
+  }
+
   lines.push("Lav nu briefingen.");
   return lines.join("\n");
 }
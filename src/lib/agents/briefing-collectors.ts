@@ -72,14 +72,33 @@ async function collectOoh(): Promise<BriefingData["ooh"]> {
   }
 }
 
+async function collectReceivables(): Promise<BriefingData["receivables"]> {
+  try {
+    const { getReceivablesLedger } = await import("@/lib/invoice/payments-store");
+    const ledger = await getReceivablesLedger();
+    return {
+      outstanding: ledger.totalOutstanding,
+      overdueCount: ledger.overdue.length,
+      overdueAmount: ledger.totalOverdue,
+      overdue: ledger.overdue
+        .slice(0, 10)
+        .map((o) => `#${o.invoiceNumber} ${o.customerName} (${Math.round(o.outstanding)} kr, ${o.daysOverdue} dage)`),
+    };
+  } catch (e) {
+    logger.warn(`[briefing] receivables collect failed: ${e instanceof Error ? e.message : String(e)}`);
+    return undefined;
+  }
+}
+
 export async function collectAllBriefingData(): Promise<BriefingData> {
-  const [pipeline, staged, tilbud, mail, followUps, ooh] = await Promise.allSettled([
+  const [pipeline, staged, tilbud, mail, followUps, ooh, receivables] = await Promise.allSettled([
     collectPipeline(),
     collectStaged(),
     collectTilbud(),
     collectMail(),
     collectFollowUps(),
     collectOoh(),
+    collectReceivables(),
   ]);
 
   return {
@@ -89,5 +108,6 @@ export async function collectAllBriefingData(): Promise<BriefingData> {
     mail: mail.status === "fulfilled" ? mail.value : undefined,
     followUps: followUps.status === "fulfilled" ? followUps.value : undefined,
     ooh: ooh.status === "fulfilled" ? ooh.value : undefined,
+    receivables: receivables.status === "fulfilled" ? receivables.value : undefined,
   };
 }
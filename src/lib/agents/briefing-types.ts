@@ -29,6 +29,12 @@ export const briefingDataSchema = z.object({
     activeCampaigns: z.number(),
     pendingSends: z.number(),
   }).optional(),
+  receivables: z.object({
+    outstanding: z.number(),
+    overdueCount: z.number(),
+    overdueAmount: z.number(),
+    overdue: z.array(z.string()),
+  }).optional(),
 });
 
 export type BriefingData = z.infer<typeof briefingDataSchema>;
@@ -3,6 +3,8 @@ import type { Property } from "@/types";
 import type { MailThread } from "@/lib/email-sender";
 import type { OOHSend } from "@/lib/ooh/types";
 import type { Tilbud } from "@/lib/tilbud/types";
+import { listEngagements, recordEngagements } from "@/lib/outreach/engagement-store";
+import type { EngagementEvent, EngagementInput, EngagementKind } from "@/lib/outreach/engagement-types";
 
 export interface ContactProfile {
   email: string;
@@ -15,17 +17,16 @@ export interface ContactProfile {
 
 export interface TimelineEvent {
   date: string;
-  type: "email_sent" | "email_received" | "ooh_sent" | "ooh_opened" | "ooh_clicked" | "ooh_replied" | "note" | "task" | "tilbud_draft" | "tilbud_final";
+  type: EngagementKind;
   summary: string;
 }
 
 export interface ContactContext {
   contact: ContactProfile;
   properties: Property[];
-  threads: MailThread[];
-  oohSends: OOHSend[];
   tilbud: Tilbud[];
-  engagements: { type: string; timestamp: number; body?: string; subject?: string }[];
+  /** The persisted engagement stream (newest first). */
+  events: EngagementEvent[];
   timeline: TimelineEvent[];
   stats: {
     totalEmails: number;
@@ -38,114 +39,166 @@ export interface ContactContext {
   };
 }
 
-function buildTimeline(ctx: Omit<ContactContext, "timeline" | "stats">): TimelineEvent[] {
-  const events: TimelineEvent[] = [];
+/** Marks that a contact's history before the stream existed has been imported. */
+const BACKFILL_SOURCE = "backfill";
 
-  for (const thread of ctx.threads) {
-    for (const msg of thread.messages) {
-      const isInbound = msg.from.toLowerCase().includes(ctx.contact.email.toLowerCase());
-      events.push({
-        date: msg.date,
-        type: isInbound ? "email_received" : "email_sent",
-        summary: `${isInbound ? "Modtaget" : "Sendt"}: ${msg.subject} — ${msg.snippet?.slice(0, 80) || ""}`,
-      });
-    }
-  }
-
-  for (const send of ctx.oohSends) {
-    events.push({
-      date: send.sentAt || send.createdAt,
-      type: "ooh_sent",
-      summary: `OOH kampagne sendt til ${send.contactName || send.contactEmail || "kontakt"}`,
-    });
-    if (send.openedAt) events.push({ date: send.openedAt, type: "ooh_opened", summary: "OOH email åbnet" });
-    if (send.clickedAt) events.push({ date: send.clickedAt, type: "ooh_clicked", summary: "OOH email klikket" });
-    if (send.repliedAt) events.push({ date: send.repliedAt, type: "ooh_replied", summary: "OOH email besvaret" });
-  }
-
-  for (const eng of ctx.engagements) {
-    if (eng.timestamp > 0) {
-      events.push({
-        date: new Date(eng.timestamp).toISOString(),
-        type: eng.type === "NOTE" ? "note" : "task",
-        summary: eng.subject || eng.body?.slice(0, 80) || eng.type,
-      });
-    }
-  }
+type TimelineSource = Pick<EngagementInput, "kind" | "summary" | "occurredAt">;
 
-  for (const t of ctx.tilbud) {
-    events.push({
-      date: t.offerDate || t.createdAt || "",
-      type: t.status === "final" ? "tilbud_final" : "tilbud_draft",
-      summary: `Tilbud ${t.offerNumber}: ${t.title || t.clientName} — ${t.status}`,
-    });
-  }
-
-  events.sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
-  return events;
+function buildTimeline(events: TimelineSource[]): TimelineEvent[] {
+  return events
+    .filter((e) => e.occurredAt)
+    .map((e) => ({ date: e.occurredAt!, type: e.kind, summary: e.summary }))
+    .sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
 }
 
-function buildStats(ctx: Omit<ContactContext, "stats">): ContactContext["stats"] {
-  const allDates: Date[] = [];
-  let hasReplied = false;
-
-  for (const thread of ctx.threads) {
-    for (const msg of thread.messages) {
-      allDates.push(new Date(msg.date));
-      if (msg.from.toLowerCase().includes(ctx.contact.email.toLowerCase())) {
-        hasReplied = true;
-      }
-    }
-  }
-
-  for (const send of ctx.oohSends) {
-    if (send.sentAt) allDates.push(new Date(send.sentAt));
-    if (send.repliedAt) hasReplied = true;
-  }
-
-  const totalEmails = ctx.threads.reduce((sum, t) => sum + t.messages.length, 0);
-  const sorted = allDates.sort((a, b) => b.getTime() - a.getTime());
-  const lastContactedAt = sorted[0]?.toISOString() || null;
+function buildStats(timeline: TimelineEvent[], tilbud: Tilbud[]): ContactContext["stats"] {
+  const count = (...kinds: EngagementKind[]) => timeline.filter((e) => kinds.includes(e.type)).length;
+  const lastContactedAt =
+    timeline.find((e) => e.type === "email_sent" || e.type === "email_replied" || e.type === "call_note")?.date || null;
   const daysSinceLastContact = lastContactedAt
     ? Math.floor((Date.now() - new Date(lastContactedAt).getTime()) / (1000 * 60 * 60 * 24))
     : 999;
 
   return {
-    totalEmails,
+    totalEmails: count("email_sent", "email_received", "email_replied"),
     lastContactedAt,
     daysSinceLastContact,
-    hasReplied,
-    oohOpens: ctx.oohSends.filter((s) => s.openedAt).length,
-    oohClicks: ctx.oohSends.filter((s) => s.clickedAt).length,
-    tilbudCount: ctx.tilbud.length,
+    hasReplied: count("email_replied") > 0,
+    oohOpens: count("email_opened"),
+    oohClicks: count("email_clicked"),
+    tilbudCount: Math.max(tilbud.length, count("tilbud_sent")),
   };
 }
 
+/**
+ * Contact context from the engagement stream. Gmail, OOH sends and
+ * HubSpot engagements are only read once per contact, to import the
+ * history from before the stream existed; after that every subsystem
+ * writes its events as they happen.
+ */
 export async function getContactContext(email: string): Promise<ContactContext> {
   const contact: ContactProfile = { email };
 
-  const [hubspot, threads, oohData, tilbudData, engagements, properties] = await Promise.allSettled([
+  const [stored, , tilbudData, properties] = await Promise.all([
+    listEngagements({ email }),
     collectHubSpot(email, contact),
+    collectTilbud(email),
+    collectProperties(email),
+  ]);
+
+  let events = stored;
+  let stream: TimelineSource[] = stored;
+  if (!stored.some((e) => e.source === BACKFILL_SOURCE)) {
+    const imported = await backfillHistory(contact, tilbudData, stored);
+    events = await listEngagements({ email });
+    // Without a database the imported events only live for this call
+    stream = events.length > 0 ? events : imported;
+  }
+
+  const timeline = buildTimeline(stream);
+  return { contact, properties, tilbud: tilbudData, events, timeline, stats: buildStats(timeline, tilbudData) };
+}
+
+/**
+ * Ids of mails already in the stream. Send paths store the Gmail id
+ * (or the SMTP Message-ID) as `metadata.messageId`; mail-sync uses the
+ * Gmail id as refId.
+ */
+function knownMessageIds(events: EngagementEvent[], oohSends: OOHSend[]): Set<string> {
+  const ids = new Set<string>();
+  for (const e of events) {
+    if (typeof e.metadata?.messageId === "string") ids.add(e.metadata.messageId);
+    if (e.source === "gmail" && e.refId) ids.add(e.refId);
+  }
+  for (const send of oohSends) if (send.gmailMessageId) ids.add(send.gmailMessageId);
+  return ids;
+}
+
+/**
+ * Import Gmail threads, OOH sends, HubSpot engagements and final tilbud
+ * as events. Gmail messages already recorded by a send path are skipped.
+ */
+async function backfillHistory(
+  contact: ContactProfile,
+  tilbud: Tilbud[],
+  stored: EngagementEvent[]
+): Promise<EngagementInput[]> {
+  const email = contact.email.toLowerCase();
+  const [threads, oohSends, engagements] = await Promise.all([
     collectThreads(email),
     collectOOH(email),
-    collectTilbud(email),
     collectEngagements(contact),
-    collectProperties(email),
   ]);
+  const inputs: EngagementInput[] = [];
+  const known = knownMessageIds(stored, oohSends);
 
-  const ctx: Omit<ContactContext, "timeline" | "stats"> = {
-    contact,
-    properties: properties.status === "fulfilled" ? properties.value : [],
-    threads: threads.status === "fulfilled" ? threads.value : [],
-    oohSends: oohData.status === "fulfilled" ? oohData.value : [],
-    tilbud: tilbudData.status === "fulfilled" ? tilbudData.value : [],
-    engagements: engagements.status === "fulfilled" ? engagements.value : [],
-  };
+  for (const thread of threads) {
+    for (const msg of thread.messages) {
+      if (known.has(msg.id) || (msg.messageId && known.has(msg.messageId))) continue;
+      const date = new Date(msg.date);
+      if (isNaN(date.getTime())) continue;
+      const isInbound = msg.from.toLowerCase().includes(email);
+      inputs.push({
+        kind: isInbound ? "email_replied" : "email_sent",
+        email,
+        source: "gmail",
+        refId: msg.id,
+        summary: `${isInbound ? "Modtaget" : "Sendt"}: ${msg.subject} — ${msg.snippet?.slice(0, 80) || ""}`,
+        occurredAt: date.toISOString(),
+        metadata: { threadId: thread.id },
+      });
+    }
+  }
+
+  for (const send of oohSends) {
+    inputs.push({
+      kind: "email_sent",
+      email,
+      source: "ooh-campaign",
+      refId: send.id,
+      summary: `OOH kampagne sendt til ${send.contactName || send.contactEmail || "kontakt"}`,
+      occurredAt: send.sentAt || send.createdAt,
+      metadata: { campaignId: send.campaignId },
+    });
+    if (send.openedAt) inputs.push({ kind: "email_opened", email, source: "tracking", refId: send.id, summary: "OOH email åbnet", occurredAt: send.openedAt });
+    if (send.clickedAt) inputs.push({ kind: "email_clicked", email, source: "tracking", refId: send.id, summary: "OOH email klikket", occurredAt: send.clickedAt });
+    if (send.repliedAt) inputs.push({ kind: "email_replied", email, source: "ooh-manual", refId: `${send.id}:replied`, summary: "OOH email besvaret", occurredAt: send.repliedAt });
+  }
+
+  for (const eng of engagements) {
+    if (eng.timestamp <= 0) continue;
+    inputs.push({
+      kind: eng.type === "CALL" ? "call_note" : "note",
+      email,
+      source: "hubspot",
+      refId: `${contact.hubspotContactId}:${eng.type}:${eng.timestamp}`,
+      summary: eng.subject || eng.body?.slice(0, 80) || eng.type,
+      occurredAt: new Date(eng.timestamp).toISOString(),
+    });
+  }
 
-  const timeline = buildTimeline(ctx);
-  const stats = buildStats({ ...ctx, timeline });
+  for (const t of tilbud) {
+    if (t.status !== "final") continue;
+    inputs.push({
+      kind: "tilbud_sent",
+      email,
+      source: "tilbud",
+      refId: t.id,
+      summary: `Tilbud ${t.offerNumber}: ${t.title || t.clientName}`,
+      occurredAt: t.offerDate || t.createdAt,
+    });
+  }
 
-  return { ...ctx, timeline, stats };
+  inputs.push({
+    kind: "note",
+    email,
+    source: BACKFILL_SOURCE,
+    refId: email,
+    summary: `Historik importeret (${inputs.length} hændelser fra Gmail, OOH og HubSpot)`,
+    occurredAt: new Date().toISOString(),
+  });
+  await recordEngagements(inputs);
+  return inputs;
 }
 
 export function contextToPrompt(ctx: ContactContext): string {
@@ -235,7 +288,9 @@ async function collectTilbud(email: string): Promise<Tilbud[]> {
   }
 }
 
-async function collectEngagements(contact: ContactProfile): Promise<ContactContext["engagements"]> {
+async function collectEngagements(
+  contact: ContactProfile
+): Promise<{ type: string; timestamp: number; body?: string; subject?: string }[]> {
   if (!contact.hubspotContactId) return [];
   try {
     const { getContactEngagements } = await import("@/lib/hubspot");
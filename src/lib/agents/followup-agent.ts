@@ -3,6 +3,7 @@ import { config } from "@/lib/config";
 import { logger } from "@/lib/logger";
 import { getContactContext, contextToPrompt, type ContactContext } from "./contact-context";
 import { scoreContact, prioritizeFollowUps, type FollowUpScore } from "./followup-scoring";
+import { listSnoozedEmails } from "@/lib/outreach/reply-store";
 
 let _ai: OpenAI | null = null;
 function ai(): OpenAI {
@@ -77,8 +78,11 @@ export async function getFollowUpSuggestions(emails: string[], maxResults = 10):
   logger.info(`[followup-agent] Generating suggestions for ${emails.length} contacts`);
 
   const contexts: { ctx: ContactContext; score: FollowUpScore }[] = [];
+  // Out-of-office contacts are skipped until their return date
+  const snoozed = await listSnoozedEmails();
 
   for (const email of emails) {
+    if (snoozed.has(email.toLowerCase())) continue;
     try {
       const ctx = await getContactContext(email);
       const score = scoreContact(ctx);
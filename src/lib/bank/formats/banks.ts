@@ -0,0 +1,115 @@
+import { csvHeaders, findColumn, guessCsvProfile, parseCsvWithProfile } from "./csv";
+import {
+  StatementFormatError,
+  type CsvMappingProfile,
+  type StatementFormat,
+  type StatementParser,
+  type StatementSource,
+} from "./types";
+
+/**
+ * CSV exports from the Danish netbanks. Each bank is a fixed column
+ * mapping on top of the generic CSV parser; the column aliases cover the
+ * private and business netbank variants we've seen.
+ */
+interface BankCsvLayout {
+  format: StatementFormat;
+  date: string[];
+  text: string[][];            // én eller flere tekstkolonner, hver med aliaser
+  amount: string[];
+  balance: string[];
+  currency?: string[];
+  /** Columns only this bank's export has — used to tell the layouts apart. */
+  signature: string[];
+}
+
+const LAYOUTS: BankCsvLayout[] = [
+  {
+    // "Dato";"Tekst";"Beløb";"Saldo";"Status";"Afstemt"
+    format: "danske_bank",
+    date: ["Dato"],
+    text: [["Tekst"]],
+    amount: ["Beløb"],
+    balance: ["Saldo"],
+    signature: ["Status", "Afstemt"],
+  },
+  {
+    // Bogføringsdato;Beløb;Afsender;Modtager;Navn;Beskrivelse;Saldo;Valuta;Afstemt
+    format: "nordea",
+    date: ["Bogføringsdato"],
+    text: [["Navn"], ["Beskrivelse"]],
+    amount: ["Beløb"],
+    balance: ["Saldo"],
+    currency: ["Valuta"],
+    signature: ["Bogføringsdato", "Beskrivelse"],
+  },
+  {
+    // "Dato";"Rentedato";"Tekst";"Beløb";"Saldo"
+    format: "jyske_bank",
+    date: ["Dato", "Bogført"],
+    text: [["Tekst"]],
+    amount: ["Beløb"],
+    balance: ["Saldo"],
+    signature: ["Rentedato"],
+  },
+];
+
+function looksLikeCsv(source: StatementSource): boolean {
+  return source.kind === "text" && !source.text.trimStart().startsWith("<");
+}
+
+function layoutProfile(layout: BankCsvLayout, headers: string[]): CsvMappingProfile | null {
+  const name = (aliases: string[]) => {
+    const i = findColumn(headers, aliases);
+    return i >= 0 ? headers[i] : undefined;
+  };
+  const dateColumn = name(layout.date);
+  const amountColumn = name(layout.amount);
+  const textColumns = layout.text.map(name).filter((c): c is string => !!c);
+  if (!dateColumn || !amountColumn || textColumns.length === 0) return null;
+  return {
+    dateColumn,
+    textColumns,
+    amountColumn,
+    balanceColumn: name(layout.balance),
+    currencyColumn: layout.currency ? name(layout.currency) : undefined,
+    decimalSeparator: ",",
+  };
+}
+
+function bankParser(layout: BankCsvLayout): StatementParser {
+  return {
+    format: layout.format,
+    detect(source) {
+      if (!looksLikeCsv(source)) return 0;
+      const headers = csvHeaders(source.text);
+      if (!layoutProfile(layout, headers)) return 0;
+      return layout.signature.every((s) => findColumn(headers, [s]) >= 0) ? 0.9 : 0;
+    },
+    parse(source) {
+      const profile = layoutProfile(layout, csvHeaders(source.text));
+      if (!profile) throw new StatementFormatError("Filens kolonner passer ikke til bankens eksportformat");
+      return parseCsvWithProfile(source.text, profile, layout.format);
+    },
+  };
+}
+
+export const danskeBankParser = bankParser(LAYOUTS[0]);
+export const nordeaParser = bankParser(LAYOUTS[1]);
+export const jyskeBankParser = bankParser(LAYOUTS[2]);
+
+/** Any other CSV: explicit mapping from the UI, else guessed from the header names. */
+export const genericCsvParser: StatementParser = {
+  format: "csv",
+  detect(source) {
+    if (!looksLikeCsv(source)) return 0;
+    return guessCsvProfile(csvHeaders(source.text)) ? 0.3 : 0.1;
+  },
+  parse(source, mapping) {
+    const profile = mapping ?? guessCsvProfile(csvHeaders(source.text));
+    if (!profile) {
+      throw new StatementFormatError("Kunne ikke genkende kolonnerne i CSV-filen — angiv kolonne-mapping");
+    }
+    return parseCsvWithProfile(source.text, profile, "csv");
+  },
+};
@@ -0,0 +1,125 @@
+import { createHash } from "crypto";
+import * as cheerio from "cheerio";
+import { categorizeTransaction } from "../categorize";
+import type { BankTransaction } from "../types";
+import { StatementFormatError, type StatementParser } from "./types";
+
+/**
+ * ISO 20022 bank-to-customer statement (camt.053.001.02 and later).
+ * Only booked entries (Sts BOOK) are imported. Entries carry no running
+ * balance, so it is rebuilt from the opening balance (OPBD/PRCD).
+ */
+
+function round2(n: number): number {
+  return Math.round((n + Number.EPSILON) * 100) / 100;
+}
+
+type Node = ReturnType<cheerio.CheerioAPI>;
+
+function text(el: Node, selector: string): string {
+  return el.find(selector).first().text().trim();
+}
+
+function signedAmount(el: Node, amountSelector: string): number {
+  const amt = Number(text(el, amountSelector));
+  return text(el, "> CdtDbtInd") === "DBIT" ? -amt : amt;
+}
+
+export const camt053Parser: StatementParser = {
+  format: "camt053",
+  detect(source) {
+    if (source.kind !== "text") return 0;
+    const head = source.text.slice(0, 2000);
+    if (/urn:iso:std:iso:20022:tech:xsd:camt\.053/.test(head)) return 1;
+    return /<BkToCstmrStmt[\s>]/.test(source.text) ? 0.9 : 0;
+  },
+  parse(source) {
+    const $ = cheerio.load(source.text, { xml: true });
+    const statements = $("BkToCstmrStmt > Stmt");
+    if (statements.length === 0) throw new StatementFormatError("Ingen <Stmt> i CAMT.053-filen");
+
+    const transactions: BankTransaction[] = [];
+    let accountHolder = "";
+    let accountNumber = "";
+    let openingBalance = 0;
+    let hasOpeningBalance = false;
+    let closingBalance = 0;
+    let hasClosingBalance = false;
+
+    statements.each((si, stmtEl) => {
+      const stmt = $(stmtEl);
+      const acct = stmt.children("Acct");
+      const account = text(acct, "Id IBAN") || text(acct, "Id Othr Id");
+      if (si === 0) {
+        accountNumber = account;
+        accountHolder = text(acct, "Ownr Nm");
+      }
+
+      let running: number | null = null;
+      stmt.children("Bal").each((_, balEl) => {
+        const bal = $(balEl);
+        const code = text(bal, "Tp CdOrPrtry Cd");
+        const amount = signedAmount(bal, "> Amt");
+        if ((code === "OPBD" || code === "PRCD") && running == null) {
+          running = amount;
+          if (si === 0) {
+            openingBalance = amount;
+            hasOpeningBalance = true;
+          }
+        }
+        if (code === "CLBD") {
+          closingBalance = amount;
+          hasClosingBalance = true;
+        }
+      });
+
+      stmt.children("Ntry").each((ei, entryEl) => {
+        const entry = $(entryEl);
+        const status = text(entry, "> Sts");
+        if (status && status !== "BOOK") return; // PDNG/INFO
+
+        const amount = signedAmount(entry, "> Amt");
+        const postedDate = (text(entry, "> BookgDt Dt") || text(entry, "> BookgDt DtTm") || text(entry, "> ValDt Dt")).slice(0, 10);
+        const postedTime = text(entry, "> BookgDt DtTm").slice(11, 16).replace(":", ".");
+        if (!postedDate || !Number.isFinite(amount)) return;
+
+        // Modpart: afsender ved indbetaling, modtager ved udbetaling
+        const tx = entry.find("NtryDtls TxDtls").first();
+        const party = amount >= 0 ? text(tx, "RltdPties Dbtr Nm") || text(tx, "RltdPties Dbtr Pty Nm") : text(tx, "RltdPties Cdtr Nm") || text(tx, "RltdPties Cdtr Pty Nm");
+        const remittance = tx.find("RmtInf Ustrd").map((_, u) => $(u).text().trim()).get().join(" ")
+          || text(tx, "RmtInf Strd CdtrRefInf Ref")
+          || text(entry, "> AddtlNtryInf");
+        const title = [party, remittance].filter(Boolean).join(" · ") || text(tx, "AddtlTxInf") || "Postering";
+
+        const instd = tx.find("AmtDtls InstdAmt Amt").first();
+        const instdCcy = instd.attr("Ccy") || "DKK";
+        const isFx = instdCcy !== "DKK";
+
+        if (running != null) running = round2(running + amount);
+
+        const ref = text(entry, "> AcctSvcrRef") || text(entry, "> NtryRef") || `${postedDate}|${title}|${amount}|${ei}`;
+        const hash = createHash("sha1").update(`camt053|${account}|${ref}`).digest("hex").slice(0, 24);
+
+        transactions.push({
+          id: `tx-${hash}`,
+          postedDate,
+          postedTime,
+          title,
+          amount,
+          balance: running ?? 0,
+          fxAmount: isFx ? Math.sign(amount) * Number(instd.text()) : null,
+          fxCurrency: isFx ? instdCcy : null,
+          category: categorizeTransaction(title, amount),
+          account,
+        });
+      });
+    });
+
+    if (!hasClosingBalance && hasOpeningBalance && transactions.length > 0) {
+      closingBalance = transactions[transactions.length - 1].balance;
+      hasClosingBalance = true;
+    }
+
+    return { accountHolder, accountNumber, openingBalance, closingBalance, transactions, hasClosingBalance };
+  },
+};
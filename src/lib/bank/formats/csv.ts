@@ -0,0 +1,245 @@
+import { createHash } from "crypto";
+import { categorizeTransaction } from "../categorize";
+import type { ParsedStatement } from "../statement-parser";
+import type { BankTransaction } from "../types";
+import { StatementFormatError, type CsvMappingProfile, type StatementFormat } from "./types";
+
+// ─── Tokenizing ─────────────────────────────────────────────
+
+/** Pick the delimiter that occurs most often (outside quotes) in the header line. */
+export function detectDelimiter(firstLine: string): ";" | "," | "\t" {
+  const counts: Record<string, number> = { ";": 0, ",": 0, "\t": 0 };
+  let inQuotes = false;
+  for (const ch of firstLine) {
+    if (ch === '"') inQuotes = !inQuotes;
+    else if (!inQuotes && ch in counts) counts[ch]++;
+  }
+  if (counts["\t"] > counts[";"] && counts["\t"] > counts[","]) return "\t";
+  return counts[","] > counts[";"] ? "," : ";";
+}
+
+/** RFC 4180-ish: quoted fields, "" escapes, newlines inside quotes. Blank rows dropped. */
+export function parseCsv(text: string, delimiter?: string): string[][] {
+  const src = text.replace(/^\uFEFF/, "");
+  const delim = delimiter || detectDelimiter(src.split(/\r?\n/, 1)[0] || "");
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+
+  for (let i = 0; i < src.length; i++) {
+    const ch = src[i];
+    if (inQuotes) {
+      if (ch === '"' && src[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (ch === '"') {
+        inQuotes = false;
+      } else {
+        field += ch;
+      }
+      continue;
+    }
+    if (ch === '"') inQuotes = true;
+    else if (ch === delim) {
+      row.push(field);
+      field = "";
+    } else if (ch === "\n" || ch === "\r") {
+      if (ch === "\r" && src[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += ch;
+    }
+  }
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows
+    .map((r) => r.map((c) => c.trim()))
+    .filter((r) => r.some((c) => c !== ""));
+}
+
+// ─── Values ─────────────────────────────────────────────────
+
+/**
+ * "1.234,56" / "-1234,56" / "1,234.56" / "1234.56" → number. With no
+ * explicit separator, the last "," or "." followed by 1–2 digits is the
+ * decimal point.
+ */
+export function parseAmount(raw: string, decimal?: "," | "."): number {
+  let s = raw.replace(/\s|kr\.?|DKK/gi, "").replace(/^\+/, "");
+  if (!s) return NaN;
+  // Trailing minus ("1.234,56-") forekommer i ældre bankeksporter
+  if (s.endsWith("-")) s = `-${s.slice(0, -1)}`;
+  const dec = decimal ?? (/,\d{1,2}$/.test(s) ? "," : /\.\d{1,2}$/.test(s) ? "." : ",");
+  const thousands = dec === "," ? /\./g : /,/g;
+  return Number(s.replace(thousands, "").replace(dec, "."));
+}
+
+/** D-M-Y with . - or / separators, or ISO Y-M-D / Y/M/D → YYYY-MM-DD. */
+export function parseDate(raw: string): string | null {
+  const s = raw.trim();
+  const iso = s.match(/^(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})/);
+  if (iso) return `${iso[1]}-${iso[2].padStart(2, "0")}-${iso[3].padStart(2, "0")}`;
+  const dmy = s.match(/^(\d{1,2})[-/.](\d{1,2})[-/.](\d{2}|\d{4})\b/);
+  if (dmy) {
+    const y = dmy[3].length === 2 ? `20${dmy[3]}` : dmy[3];
+    return `${y}-${dmy[2].padStart(2, "0")}-${dmy[1].padStart(2, "0")}`;
+  }
+  return null;
+}
+
+function normHeader(h: string): string {
+  return h.toLowerCase().replace(/^\uFEFF/, "").replace(/\s+/g, " ").trim();
+}
+
+/** Index of the first header matching one of the aliases (case-insensitive). */
+export function findColumn(headers: string[], aliases: string[]): number {
+  const norm = headers.map(normHeader);
+  for (const alias of aliases) {
+    const i = norm.indexOf(normHeader(alias));
+    if (i >= 0) return i;
+  }
+  return -1;
+}
+
+/** Header row of a CSV file, for detection. */
+export function csvHeaders(text: string): string[] {
+  return parseCsv(text.split(/\r?\n/).slice(0, 3).join("\n"))[0] || [];
+}
+
+// ─── Generic profile parsing ────────────────────────────────
+
+/** Column aliases used when guessing a mapping for an unknown CSV export. */
+const GUESS_ALIASES = {
+  date: ["dato", "date", "bogført", "bogført dato", "bogføringsdato", "posteringsdato", "booking date", "transaktionsdato"],
+  text: ["tekst", "text", "beskrivelse", "description", "posteringstekst", "meddelelse", "navn"],
+  amount: ["beløb", "amount", "beløb i dkk", "beløb (dkk)", "beløb dkk"],
+  debit: ["debet", "debit", "udbetaling", "hævet"],
+  credit: ["kredit", "credit", "indbetaling", "indsat"],
+  balance: ["saldo", "balance", "saldo (dkk)", "bogført saldo"],
+  currency: ["valuta", "currency"],
+};
+
+/** Best-effort mapping from common Danish/English header names. */
+export function guessCsvProfile(headers: string[]): CsvMappingProfile | null {
+  const pick = (aliases: string[]) => {
+    const i = findColumn(headers, aliases);
+    return i >= 0 ? headers[i] : undefined;
+  };
+  const dateColumn = pick(GUESS_ALIASES.date);
+  const textColumn = pick(GUESS_ALIASES.text);
+  const amountColumn = pick(GUESS_ALIASES.amount);
+  const debitColumn = pick(GUESS_ALIASES.debit);
+  const creditColumn = pick(GUESS_ALIASES.credit);
+  if (!dateColumn || !textColumn || !(amountColumn || debitColumn || creditColumn)) return null;
+  return {
+    dateColumn,
+    textColumns: [textColumn],
+    amountColumn,
+    debitColumn: amountColumn ? undefined : debitColumn,
+    creditColumn: amountColumn ? undefined : creditColumn,
+    balanceColumn: pick(GUESS_ALIASES.balance),
+    currencyColumn: pick(GUESS_ALIASES.currency),
+  };
+}
+
+function txId(format: StatementFormat, key: string): string {
+  const hash = createHash("sha1").update(`${format}|${key}`).digest("hex").slice(0, 24);
+  return `tx-${hash}`;
+}
+
+/**
+ * Parse CSV rows with a column mapping. Identical rows in the same file
+ * (two equal card fees on one day) get an occurrence suffix in the id so
+ * they don't collapse into one — re-importing the file still yields the
+ * same ids.
+ */
+export function parseCsvWithProfile(
+  text: string,
+  profile: CsvMappingProfile,
+  format: StatementFormat,
+  account = ""
+): ParsedStatement & { hasClosingBalance: boolean } {
+  const rows = parseCsv(text, profile.delimiter);
+  if (rows.length < 2) throw new StatementFormatError("CSV-filen indeholder ingen rækker");
+  const headers = rows[0];
+
+  const col = (name?: string): number => {
+    if (!name) return -1;
+    const i = findColumn(headers, [name]);
+    if (i < 0) throw new StatementFormatError(`Kolonnen "${name}" findes ikke i filen`);
+    return i;
+  };
+  const dateIdx = col(profile.dateColumn);
+  const textIdx = profile.textColumns.map((c) => col(c));
+  const amountIdx = col(profile.amountColumn);
+  const debitIdx = col(profile.debitColumn);
+  const creditIdx = col(profile.creditColumn);
+  const balanceIdx = col(profile.balanceColumn);
+  const currencyIdx = col(profile.currencyColumn);
+
+  const transactions: BankTransaction[] = [];
+  const seen = new Map<string, number>();
+
+  for (const r of rows.slice(1)) {
+    const postedDate = parseDate(r[dateIdx] || "");
+    if (!postedDate) continue; // subtotal-/fodnote-rækker
+
+    let amount: number;
+    if (amountIdx >= 0) {
+      amount = parseAmount(r[amountIdx] || "", profile.decimalSeparator);
+    } else {
+      const debit = debitIdx >= 0 ? Math.abs(parseAmount(r[debitIdx] || "", profile.decimalSeparator) || 0) : 0;
+      const credit = creditIdx >= 0 ? Math.abs(parseAmount(r[creditIdx] || "", profile.decimalSeparator) || 0) : 0;
+      amount = credit - debit;
+    }
+    if (!Number.isFinite(amount)) continue;
+
+    const title = [...new Set(textIdx.map((i) => r[i] || "").filter(Boolean))].join(" · ");
+    const balanceRaw = balanceIdx >= 0 ? parseAmount(r[balanceIdx] || "", profile.decimalSeparator) : NaN;
+    const balance = Number.isFinite(balanceRaw) ? balanceRaw : 0;
+    const currency = currencyIdx >= 0 ? (r[currencyIdx] || "").toUpperCase() : "";
+
+    const key = `${account}|${postedDate}|${title}|${amount}|${balanceIdx >= 0 ? balance : ""}`;
+    const n = (seen.get(key) || 0) + 1;
+    seen.set(key, n);
+
+    transactions.push({
+      id: txId(format, n > 1 ? `${key}|${n}` : key),
+      postedDate,
+      postedTime: "",
+      title,
+      amount,
+      balance,
+      // Konti i fremmed valuta: beløbet er i kontoens valuta, ikke DKK
+      fxAmount: currency && currency !== "DKK" ? amount : null,
+      fxCurrency: currency && currency !== "DKK" ? currency : null,
+      category: categorizeTransaction(title, amount),
+      account,
+    });
+  }
+
+  if (transactions.length === 0) {
+    throw new StatementFormatError("Ingen transaktioner fundet — tjek kolonne-mapping og datoformat");
+  }
+
+  // Banker eksporterer enten ældste→nyeste eller omvendt; slutsaldo er den nyeste række
+  const hasClosingBalance = balanceIdx >= 0;
+  const descending = transactions[0].postedDate > transactions[transactions.length - 1].postedDate;
+  const newest = descending ? transactions[0] : transactions[transactions.length - 1];
+  const oldest = descending ? transactions[transactions.length - 1] : transactions[0];
+
+  return {
+    accountHolder: "",
+    accountNumber: account,
+    openingBalance: hasClosingBalance ? Math.round((oldest.balance - oldest.amount) * 100) / 100 : 0,
+    closingBalance: hasClosingBalance ? newest.balance : 0,
+    transactions,
+    hasClosingBalance,
+  };
+}
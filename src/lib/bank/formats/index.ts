@@ -0,0 +1,76 @@
+import { parseStatementText } from "../statement-parser";
+import { camt053Parser } from "./camt053";
+import { danskeBankParser, genericCsvParser, jyskeBankParser, nordeaParser } from "./banks";
+import {
+  STATEMENT_FORMAT_LABEL,
+  StatementFormatError,
+  type CsvMappingProfile,
+  type ImportedStatement,
+  type StatementFormat,
+  type StatementParser,
+  type StatementSource,
+} from "./types";
+
+export * from "./types";
+
+const lunarPdfParser: StatementParser = {
+  format: "lunar_pdf",
+  detect(source) {
+    if (source.kind !== "pdf") return 0;
+    return /^\d{2}\.\d{2}\.\d{4}\s+\d{2}\.\d{2}\s+/m.test(source.text) ? 0.9 : 0.2;
+  },
+  parse(source) {
+    return parseStatementText(source.text);
+  },
+};
+
+/** All known formats. Add a parser here to support a new bank. */
+const PARSERS: StatementParser[] = [
+  lunarPdfParser,
+  camt053Parser,
+  danskeBankParser,
+  nordeaParser,
+  jyskeBankParser,
+  genericCsvParser,
+];
+
+/** Highest-scoring parser for the file, or null when nothing fits. */
+export function detectStatementFormat(source: StatementSource): StatementFormat | null {
+  let best: { format: StatementFormat; score: number } | null = null;
+  for (const p of PARSERS) {
+    const score = p.detect(source);
+    if (score > 0 && (!best || score > best.score)) best = { format: p.format, score };
+  }
+  return best?.format ?? null;
+}
+
+/**
+ * Parse an uploaded statement. `format` overrides auto-detection;
+ * `mapping` is only used by the generic CSV parser.
+ */
+export function parseBankStatement(
+  source: StatementSource,
+  opts?: { format?: StatementFormat; mapping?: CsvMappingProfile }
+): ImportedStatement {
+  const format = opts?.format ?? detectStatementFormat(source);
+  if (!format) {
+    throw new StatementFormatError("Ukendt filformat. Understøttet: Lunar-PDF, CAMT.053 (XML) og CSV fra Danske Bank, Nordea, Jyske Bank eller med kolonne-mapping.");
+  }
+  const parser = PARSERS.find((p) => p.format === format)!;
+  const { hasClosingBalance, ...parsed } = parser.parse(source, opts?.mapping);
+  if (parsed.transactions.length === 0) {
+    throw new StatementFormatError(`Ingen transaktioner fundet i filen (${STATEMENT_FORMAT_LABEL[format]})`);
+  }
+  return {
+    ...parsed,
+    format,
+    formatLabel: STATEMENT_FORMAT_LABEL[format],
+    hasClosingBalance: hasClosingBalance ?? parsed.closingBalance !== 0,
+  };
+}
+
+/** Decode an uploaded text file — UTF-8, falling back to Latin-1 (older netbank exports). */
+export function decodeStatementText(buffer: Buffer): string {
+  const utf8 = buffer.toString("utf8");
+  return utf8.includes("\uFFFD") ? buffer.toString("latin1") : utf8;
+}
@@ -0,0 +1,75 @@
+import { z } from "zod";
+import type { ParsedStatement } from "../statement-parser";
+
+export const STATEMENT_FORMATS = [
+  "lunar_pdf",
+  "camt053",
+  "danske_bank",
+  "nordea",
+  "jyske_bank",
+  "csv",
+] as const;
+
+export const statementFormatSchema = z.enum(STATEMENT_FORMATS);
+export type StatementFormat = z.infer<typeof statementFormatSchema>;
+
+export const STATEMENT_FORMAT_LABEL: Record<StatementFormat, string> = {
+  lunar_pdf: "Lunar (PDF)",
+  camt053: "ISO 20022 CAMT.053 (XML)",
+  danske_bank: "Danske Bank (CSV)",
+  nordea: "Nordea (CSV)",
+  jyske_bank: "Jyske Bank (CSV)",
+  csv: "CSV (kolonne-mapping)",
+};
+
+/**
+ * Column mapping for a generic CSV export. Column names are matched
+ * case-insensitively against the header row. Amount is either one signed
+ * column or a debit/credit pair. Dates may be D-M-Y (any of . - /) or ISO.
+ */
+export const csvMappingProfileSchema = z
+  .object({
+    delimiter: z.enum([";", ",", "\t"]).optional(),
+    dateColumn: z.string().min(1, "Angiv datokolonne"),
+    textColumns: z.array(z.string().min(1)).min(1, "Angiv mindst én tekstkolonne"),
+    amountColumn: z.string().optional(),
+    debitColumn: z.string().optional(),   // udbetalinger (positive tal → negativt beløb)
+    creditColumn: z.string().optional(),  // indbetalinger
+    balanceColumn: z.string().optional(),
+    currencyColumn: z.string().optional(),
+    decimalSeparator: z.enum([",", "."]).optional(),   // udeladt = gæt pr. værdi
+  })
+  .refine((p) => p.amountColumn || p.debitColumn || p.creditColumn, {
+    message: "Angiv beløbskolonne (eller debet/kredit)",
+  });
+
+export type CsvMappingProfile = z.infer<typeof csvMappingProfileSchema>;
+
+/** Raw upload handed to the parsers. PDFs arrive as extracted text. */
+export interface StatementSource {
+  filename: string;
+  kind: "pdf" | "text";
+  text: string;
+}
+
+export interface StatementParser {
+  format: StatementFormat;
+  /** 0 = not this format, 1 = certain. Highest score wins. */
+  detect(source: StatementSource): number;
+  parse(source: StatementSource, mapping?: CsvMappingProfile): ParsedStatement & { hasClosingBalance?: boolean };
+}
+
+export interface ImportedStatement extends ParsedStatement {
+  format: StatementFormat;
+  formatLabel: string;
+  /** False when the file carries no balances (CSV without saldo column). */
+  hasClosingBalance: boolean;
+}
+
+/** Thrown when a file can't be recognised or parsed — message is shown to the user. */
+export class StatementFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "StatementFormatError";
+  }
+}
@@ -0,0 +1,165 @@
+import { supabase, HAS_SUPABASE } from "@/lib/supabase";
+import { logger } from "@/lib/logger";
+import {
+  bankCategoryRuleInputSchema,
+  type BankCategory,
+  type BankCategoryRule,
+  type BankCategoryRuleInput,
+  type BankRuleSuggestion,
+} from "./types";
+import { listBankTransactions, updateTransactionCategories } from "./store";
+import { applyCategoryRules, suggestRules } from "./rules";
+
+function rowToRule(row: Record<string, unknown>): BankCategoryRule {
+  return {
+    id: String(row.id),
+    name: String(row.name || ""),
+    pattern: String(row.pattern || ""),
+    matchType: (row.match_type as BankCategoryRule["matchType"]) || "contains",
+    sign: (row.sign as BankCategoryRule["sign"]) || "any",
+    minAmount: row.min_amount != null ? Number(row.min_amount) : null,
+    maxAmount: row.max_amount != null ? Number(row.max_amount) : null,
+    account: String(row.account || ""),
+    category: (row.category as BankCategory) || "andet",
+    priority: Number(row.priority ?? 100),
+    enabled: row.enabled !== false,
+    hitCount: Number(row.hit_count || 0),
+    lastHitAt: row.last_hit_at ? String(row.last_hit_at) : null,
+    createdAt: String(row.created_at || new Date().toISOString()),
+    updatedAt: String(row.updated_at || new Date().toISOString()),
+  };
+}
+
+function ruleInputToRow(input: BankCategoryRuleInput): Record<string, unknown> {
+  return {
+    name: input.name || "",
+    pattern: input.pattern,
+    match_type: input.matchType,
+    sign: input.sign,
+    min_amount: input.minAmount ?? null,
+    max_amount: input.maxAmount ?? null,
+    account: input.account || "",
+    category: input.category,
+    priority: input.priority,
+    enabled: input.enabled,
+  };
+}
+
+/** Reject regexes that don't compile before they reach the table. */
+function assertValidPattern(input: BankCategoryRuleInput) {
+  if (input.matchType !== "regex") return;
+  try {
+    new RegExp(input.pattern, "i");
+  } catch {
+    throw new Error(`Ugyldigt regulært udtryk: ${input.pattern}`);
+  }
+}
+
+export async function listCategoryRules(): Promise<BankCategoryRule[]> {
+  if (!HAS_SUPABASE || !supabase) return [];
+  try {
+    const { data, error } = await supabase
+      .from("bank_category_rules")
+      .select("*")
+      .order("priority", { ascending: true })
+      .order("created_at", { ascending: true });
+    if (error) throw error;
+    return (data || []).map(rowToRule);
+  } catch (err) {
+    logger.error(`[bank-rules] list error: ${err instanceof Error ? err.message : err}`);
+    return [];
+  }
+}
+
+export async function createCategoryRule(input: BankCategoryRuleInput): Promise<BankCategoryRule> {
+  if (!HAS_SUPABASE || !supabase) throw new Error("Supabase is not configured");
+  assertValidPattern(input);
+  const { data, error } = await supabase
+    .from("bank_category_rules")
+    .insert({ id: `rule-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`, ...ruleInputToRow(input) })
+    .select("*")
+    .single();
+  if (error) throw error;
+  if (!data) throw new Error("Insert returned no data");
+  return rowToRule(data);
+}
+
+export async function updateCategoryRule(
+  id: string,
+  patch: Partial<BankCategoryRuleInput>
+): Promise<BankCategoryRule> {
+  if (!HAS_SUPABASE || !supabase) throw new Error("Supabase is not configured");
+  const { data: current, error: getErr } = await supabase
+    .from("bank_category_rules")
+    .select("*")
+    .eq("id", id)
+    .maybeSingle();
+  if (getErr) throw getErr;
+  if (!current) throw new Error("Regel ikke fundet");
+
+  const merged = bankCategoryRuleInputSchema.parse({ ...rowToRule(current), ...patch });
+  assertValidPattern(merged);
+  const { data, error } = await supabase
+    .from("bank_category_rules")
+    .update({ ...ruleInputToRow(merged), updated_at: new Date().toISOString() })
+    .eq("id", id)
+    .select("*")
+    .single();
+  if (error) throw error;
+  if (!data) throw new Error("Update returned no data");
+  return rowToRule(data);
+}
+
+export async function deleteCategoryRule(id: string): Promise<void> {
+  if (!HAS_SUPABASE || !supabase) throw new Error("Supabase is not configured");
+  const { error } = await supabase.from("bank_category_rules").delete().eq("id", id);
+  if (error) throw error;
+}
+
+/**
+ * Bump hit counts after an import. `absolute` replaces the counts instead
+ * (used by recategorize, which sees the whole history).
+ */
+async function recordRuleHits(hits: Map<string, number>, rules: BankCategoryRule[], absolute = false) {
+  if (!supabase) return;
+  const now = new Date().toISOString();
+  for (const rule of rules) {
+    const n = hits.get(rule.id) || 0;
+    if (!absolute && n === 0) continue;
+    const { error } = await supabase
+      .from("bank_category_rules")
+      .update({
+        hit_count: absolute ? n : rule.hitCount + n,
+        ...(n > 0 ? { last_hit_at: now } : {}),
+      })
+      .eq("id", rule.id);
+    if (error) {
+      logger.warn(`[bank-rules] hit count update failed for ${rule.id}: ${error.message}`);
+    }
+  }
+}
+
+/** Record hits for rules that fired on freshly imported transactions. */
+export async function recordImportRuleHits(hits: Map<string, number>, rules: BankCategoryRule[]): Promise<void> {
+  if (!HAS_SUPABASE || hits.size === 0) return;
+  await recordRuleHits(hits, rules);
+}
+
+/**
+ * Apply the current rules to all stored transactions (except manual
+ * choices) and write back the ones that changed. Hit counts are reset to
+ * the number of transactions each rule now categorizes.
+ */
+export async function recategorizeAll(): Promise<{ scanned: number; changed: number }> {
+  if (!HAS_SUPABASE || !supabase) throw new Error("Supabase is not configured");
+  const [rules, txs] = await Promise.all([listCategoryRules(), listBankTransactions(10000)]);
+  const { changed, hits } = applyCategoryRules(txs, rules);
+  await updateTransactionCategories(changed);
+  await recordRuleHits(hits, rules, true);
+  return { scanned: txs.length, changed: changed.length };
+}
+
+export async function getRuleSuggestions(): Promise<BankRuleSuggestion[]> {
+  const [rules, txs] = await Promise.all([listCategoryRules(), listBankTransactions(10000)]);
+  return suggestRules(txs, rules);
+}
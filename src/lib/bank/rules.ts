@@ -0,0 +1,123 @@
+import { categorizeTransaction } from "./categorize";
+import type { BankCategory, BankCategoryRule, BankRuleSuggestion, BankTransaction } from "./types";
+
+type RuleTarget = Pick<BankTransaction, "title" | "amount"> & { account?: string };
+
+/** Words that say nothing about the counterparty (card/transfer noise, company forms). */
+const NOISE_WORDS = new Set([
+  "visa", "dankort", "mastercard", "mc", "køb", "kob", "nota", "betaling", "overførsel",
+  "overforsel", "fra", "til", "aps", "a/s", "as", "ivs", "dk", "denmark", "danmark",
+  "the", "inc", "ltd", "llc", "gmbh", "www", "com",
+]);
+
+export function ruleMatches(rule: BankCategoryRule, tx: RuleTarget): boolean {
+  if (!rule.enabled) return false;
+  if (rule.sign === "in" && tx.amount <= 0) return false;
+  if (rule.sign === "out" && tx.amount >= 0) return false;
+  const abs = Math.abs(tx.amount);
+  if (rule.minAmount != null && abs < rule.minAmount) return false;
+  if (rule.maxAmount != null && abs > rule.maxAmount) return false;
+  if (rule.account && rule.account !== (tx.account || "")) return false;
+
+  if (rule.matchType === "regex") {
+    try {
+      return new RegExp(rule.pattern, "i").test(tx.title);
+    } catch {
+      return false; // ugyldigt regex fanges i UI'et; her matcher det bare ikke
+    }
+  }
+  return tx.title.toLowerCase().includes(rule.pattern.toLowerCase());
+}
+
+/** User rules first (priority order), then the built-in regex list. */
+export function categorizeWithRules(
+  tx: RuleTarget,
+  rules: BankCategoryRule[]
+): { category: BankCategory; source: "rule" | "auto"; ruleId: string | null } {
+  for (const rule of sortRules(rules)) {
+    if (ruleMatches(rule, tx)) return { category: rule.category, source: "rule", ruleId: rule.id };
+  }
+  return { category: categorizeTransaction(tx.title, tx.amount), source: "auto", ruleId: null };
+}
+
+export function sortRules(rules: BankCategoryRule[]): BankCategoryRule[] {
+  return [...rules].sort((a, b) => a.priority - b.priority || a.createdAt.localeCompare(b.createdAt));
+}
+
+/**
+ * Re-categorize transactions with the current rules. Manually categorized
+ * transactions are left alone. Returns the updated list, the ones whose
+ * category changed, and hits per rule id.
+ */
+export function applyCategoryRules<T extends BankTransaction>(
+  txs: T[],
+  rules: BankCategoryRule[]
+): { transactions: T[]; changed: T[]; hits: Map<string, number> } {
+  const sorted = sortRules(rules);
+  const hits = new Map<string, number>();
+  const changed: T[] = [];
+  const transactions = txs.map((tx) => {
+    if (tx.categorySource === "manual") return tx;
+    const result = categorizeWithRules(tx, sorted);
+    if (result.ruleId) hits.set(result.ruleId, (hits.get(result.ruleId) || 0) + 1);
+    const next: T = { ...tx, category: result.category, categorySource: result.source, categoryRuleId: result.ruleId };
+    if (next.category !== tx.category || (tx.categoryRuleId ?? null) !== result.ruleId) changed.push(next);
+    return next;
+  });
+  return { transactions, changed, hits };
+}
+
+/**
+ * Counterparty key from a transaction title: "Visa køb MONSTERPRINT ApS
+ * 4711" → "monsterprint". For "party · remittance" titles (CAMT, Nordea)
+ * only the party is used.
+ */
+export function merchantKey(title: string): string {
+  const party = title.split(" · ")[0].toLowerCase().replace(/\s+/g, " ").trim();
+  const tokens = party.split(" ");
+  const meaningful = (w: string) => /^[a-zæøåäöü&]{3,}$/.test(w) && !NOISE_WORDS.has(w);
+  const start = tokens.findIndex(meaningful);
+  if (start < 0) return "";
+  // Op til to sammenhængende ord, så nøglen stadig findes ordret i titlen
+  const key = meaningful(tokens[start + 1] || "") ? `${tokens[start]} ${tokens[start + 1]}` : tokens[start];
+  return party.includes(key) ? key : tokens[start];
+}
+
+/**
+ * Suggest rules from manual recategorizations: group manual choices by
+ * counterparty key and propose a "contains" rule for each group that no
+ * existing rule already covers. Keys the user has put in more than one
+ * category are skipped as ambiguous.
+ */
+export function suggestRules(txs: BankTransaction[], rules: BankCategoryRule[]): BankRuleSuggestion[] {
+  const groups = new Map<string, BankTransaction[]>();
+  for (const tx of txs) {
+    if (tx.categorySource !== "manual") continue;
+    const key = merchantKey(tx.title);
+    if (key.length < 3) continue;
+    const list = groups.get(key) || [];
+    list.push(tx);
+    groups.set(key, list);
+  }
+
+  const enabled = sortRules(rules.filter((r) => r.enabled));
+  const suggestions: BankRuleSuggestion[] = [];
+  for (const [key, list] of groups) {
+    const categories = new Set(list.map((t) => t.category));
+    if (categories.size !== 1) continue;
+    const category = list[0].category;
+    // Allerede dækket: en eksisterende regel giver samme kategori for alle
+    const covered = list.every((t) => enabled.find((r) => ruleMatches(r, t))?.category === category);
+    if (covered) continue;
+    const allIn = list.every((t) => t.amount > 0);
+    const allOut = list.every((t) => t.amount < 0);
+    suggestions.push({
+      pattern: key,
+      sign: allIn ? "in" : allOut ? "out" : "any",
+      category,
+      support: list.length,
+      examples: [...new Set(list.map((t) => t.title))].slice(0, 3),
+    });
+  }
+  return suggestions.sort((a, b) => b.support - a.support);
+}
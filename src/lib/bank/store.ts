@@ -29,6 +29,8 @@ function txToRow(t: BankTransaction): Record<string, unknown> {
     fx_currency: t.fxCurrency ?? null,
     category: t.category,
     account: t.account || "",
+    category_source: t.categorySource || "auto",
+    category_rule_id: t.categoryRuleId ?? null,
   };
 }
 
@@ -44,6 +46,9 @@ function rowToTx(row: Record<string, unknown>): BankTransaction {
     fxCurrency: row.fx_currency != null ? String(row.fx_currency) : null,
     category: (row.category as BankCategory) || "andet",
     account: String(row.account || ""),
+    categorySource: (row.category_source as BankTransaction["categorySource"]) || "auto",
+    categoryRuleId: row.category_rule_id != null ? String(row.category_rule_id) : null,
+    caseId: row.case_id != null ? String(row.case_id) : null,
   };
 }
 
@@ -66,14 +71,36 @@ export async function saveBankTransactions(txs: BankTransaction[]): Promise<numb
   return saved;
 }
 
-export async function listBankTransactions(limit = 1000): Promise<BankTransaction[]> {
+/** Which of the given ids are already stored — used to dedup statement imports. */
+export async function findExistingTransactionIds(ids: string[]): Promise<Set<string>> {
+  if (!HAS_SUPABASE || !supabase || ids.length === 0) return new Set();
+  const found = new Set<string>();
+  const BATCH = 200;
+  for (let i = 0; i < ids.length; i += BATCH) {
+    const { data, error } = await supabase
+      .from("bank_transactions")
+      .select("id")
+      .in("id", ids.slice(i, i + BATCH));
+    if (error) throw error;
+    for (const r of data || []) found.add(String(r.id));
+  }
+  return found;
+}
+
+export async function listBankTransactions(
+  limit = 1000,
+  opts?: { category?: BankCategory; search?: string }
+): Promise<BankTransaction[]> {
   if (!HAS_SUPABASE || !supabase) return [];
   try {
-    const { data, error } = await supabase
+    let query = supabase
       .from("bank_transactions")
       .select("*")
       .order("posted_date", { ascending: false })
       .limit(limit);
+    if (opts?.category) query = query.eq("category", opts.category);
+    if (opts?.search) query = query.ilike("title", `%${opts.search.replace(/[%_]/g, "")}%`);
+    const { data, error } = await query;
     if (error) throw error;
     return (data || []).map(rowToTx);
   } catch (err) {
@@ -82,6 +109,72 @@ export async function listBankTransactions(limit = 1000): Promise<BankTransactio
   }
 }
 
+/** Manual recategorization from the UI — kept on later recategorize runs. */
+export async function setTransactionCategory(id: string, category: BankCategory): Promise<BankTransaction> {
+  if (!HAS_SUPABASE || !supabase) throw new Error("Supabase is not configured");
+  const { data, error } = await supabase
+    .from("bank_transactions")
+    .update({ category, category_source: "manual", category_rule_id: null })
+    .eq("id", id)
+    .select("*")
+    .single();
+  if (error) throw error;
+  if (!data) throw new Error("Transaktion ikke fundet");
+  return rowToTx(data);
+}
+
+/** Book a transaction against a case (null = unlink). */
+export async function setTransactionCase(id: string, caseId: string | null): Promise<BankTransaction> {
+  if (!HAS_SUPABASE || !supabase) throw new Error("Supabase is not configured");
+  const { data, error } = await supabase
+    .from("bank_transactions")
+    .update({ case_id: caseId })
+    .eq("id", id)
+    .select("*")
+    .single();
+  if (error) throw error;
+  if (!data) throw new Error("Transaktion ikke fundet");
+  return rowToTx(data);
+}
+
+/** Transactions booked against cases — all of them, or one case's. */
+export async function listCaseTransactions(caseId?: string): Promise<BankTransaction[]> {
+  if (!HAS_SUPABASE || !supabase) return [];
+  try {
+    let query = supabase
+      .from("bank_transactions")
+      .select("*")
+      .not("case_id", "is", null)
+      .order("posted_date", { ascending: true });
+    if (caseId) query = query.eq("case_id", caseId);
+    const { data, error } = await query;
+    if (error) throw error;
+    return (data || []).map(rowToTx);
+  } catch (err) {
+    logger.error(`[bank-store] listCaseTransactions error: ${err instanceof Error ? err.message : err}`);
+    return [];
+  }
+}
+
+/** Write back categories after a rules run (only the changed rows). */
+export async function updateTransactionCategories(txs: BankTransaction[]): Promise<number> {
+  if (!HAS_SUPABASE || !supabase) throw new Error("Supabase is not configured");
+  let updated = 0;
+  for (const t of txs) {
+    const { error } = await supabase
+      .from("bank_transactions")
+      .update({
+        category: t.category,
+        category_source: t.categorySource || "auto",
+        category_rule_id: t.categoryRuleId ?? null,
+      })
+      .eq("id", t.id);
+    if (error) throw error;
+    updated++;
+  }
+  return updated;
+}
+
 export async function getBankSummary(): Promise<BankSummary> {
   const empty: BankSummary = {
     transactionCount: 0,
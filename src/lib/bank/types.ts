@@ -44,10 +44,59 @@ export const bankTransactionSchema = z.object({
   fxCurrency: z.string().nullable().optional(),
   category: bankCategorySchema.default("andet"),
   account: z.string().optional().default(""),
+  /** How the category was set — manual choices survive recategorization. */
+  categorySource: z.enum(["auto", "rule", "manual"]).optional(),
+  categoryRuleId: z.string().nullable().optional(),
+  /** Case the transaction is booked against (set manually, see case timeline). */
+  caseId: z.string().nullable().optional(),
 });
 
 export type BankTransaction = z.infer<typeof bankTransactionSchema>;
 
+/**
+ * User-defined categorization rule. Rules are tried in priority order
+ * (lowest first) before the built-in regex list in categorize.ts.
+ */
+export const bankCategoryRuleSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().optional().default(""),
+  pattern: z.string().min(1, "Mønster mangler"),
+  /** contains = case-insensitive substring, regex = JS regex (case-insensitive). */
+  matchType: z.enum(["contains", "regex"]).default("contains"),
+  sign: z.enum(["any", "in", "out"]).default("any"),
+  minAmount: z.number().nonnegative().nullable().optional(),   // på absolut beløb
+  maxAmount: z.number().nonnegative().nullable().optional(),
+  account: z.string().optional().default(""),                  // tom = alle konti
+  category: bankCategorySchema,
+  priority: z.number().int().default(100),
+  enabled: z.boolean().default(true),
+  hitCount: z.number().int().nonnegative().default(0),
+  lastHitAt: z.string().nullable().optional(),
+  createdAt: z.string().min(1),
+  updatedAt: z.string().min(1),
+});
+
+export type BankCategoryRule = z.infer<typeof bankCategoryRuleSchema>;
+
+export const bankCategoryRuleInputSchema = bankCategoryRuleSchema
+  .omit({ id: true, hitCount: true, lastHitAt: true, createdAt: true, updatedAt: true })
+  .refine(
+    (r) => r.minAmount == null || r.maxAmount == null || r.minAmount <= r.maxAmount,
+    { message: "Min. beløb skal være mindre end maks." }
+  );
+
+export type BankCategoryRuleInput = z.infer<typeof bankCategoryRuleInputSchema>;
+
+/** A rule proposed from manual recategorizations that no rule covers yet. */
+export interface BankRuleSuggestion {
+  pattern: string;
+  sign: "any" | "in" | "out";
+  category: BankCategory;
+  /** Manually recategorized transactions backing the suggestion. */
+  support: number;
+  examples: string[];
+}
+
 export interface BankMonthAgg {
   month: string;        // YYYY-MM
   monthLabel: string;
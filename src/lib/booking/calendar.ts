@@ -0,0 +1,212 @@
+import type { Tilbud, TilbudLine } from "@/lib/tilbud/types";
+import type { Case } from "@/lib/case/types";
+import type {
+  Booking,
+  BookingConflict,
+  OccupancyWeek,
+  PlacementOccupancy,
+} from "./types";
+
+// ─── ISO-uger ───────────────────────────────────────────────
+
+const DAY_MS = 86_400_000;
+
+function isoDate(d: Date): string {
+  return d.toISOString().slice(0, 10);
+}
+
+function parseIsoDate(value?: string): Date | null {
+  if (!value) return null;
+  const d = new Date(`${value.slice(0, 10)}T00:00:00Z`);
+  return Number.isNaN(d.getTime()) ? null : d;
+}
+
+/** Monday of an ISO-8601 week. Week 1 contains the year's first Thursday. */
+export function isoWeekMonday(year: number, week: number): Date {
+  const jan4 = new Date(Date.UTC(year, 0, 4));
+  const jan4Day = jan4.getUTCDay() || 7; // Mon=1 .. Sun=7
+  const monday = new Date(jan4);
+  monday.setUTCDate(jan4.getUTCDate() - jan4Day + 1 + (week - 1) * 7);
+  return monday;
+}
+
+/** ISO year + week number for a date. */
+export function isoWeekOf(date: Date): { isoYear: number; week: number } {
+  const d = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+  const day = d.getUTCDay() || 7;
+  d.setUTCDate(d.getUTCDate() + 4 - day); // torsdag i samme uge afgør året
+  const isoYear = d.getUTCFullYear();
+  const yearStart = new Date(Date.UTC(isoYear, 0, 1));
+  const week = Math.ceil(((d.getTime() - yearStart.getTime()) / DAY_MS + 1) / 7);
+  return { isoYear, week };
+}
+
+export function weekKey(isoYear: number, week: number): string {
+  return `${isoYear}-W${String(week).padStart(2, "0")}`;
+}
+
+/** Monday of the week containing the given date (YYYY-MM-DD). */
+export function mondayOf(value: string): string {
+  const d = parseIsoDate(value);
+  if (!d) return "";
+  const day = d.getUTCDay() || 7;
+  d.setUTCDate(d.getUTCDate() - day + 1);
+  return isoDate(d);
+}
+
+function sundayOf(value: string): string {
+  const monday = parseIsoDate(mondayOf(value));
+  if (!monday) return "";
+  monday.setUTCDate(monday.getUTCDate() + 6);
+  return isoDate(monday);
+}
+
+// ─── Perioder fra tilbud og cases ───────────────────────────
+
+function isMediaLine(line: TilbudLine): boolean {
+  return line.name.trim().toLowerCase() === "medievisning";
+}
+
+/**
+ * Resolve a tilbud line's week range to dates. Tilbud only stores week
+ * numbers, so the year is inferred from the offer date: weeks far behind
+ * the offer week belong to next year, and a range where toWeek < fromWeek
+ * wraps over new year.
+ */
+export function tilbudLinePeriod(
+  line: TilbudLine,
+  offerDate: string
+): { fromDate: string; toDate: string } | null {
+  if (line.fromWeek == null || line.toWeek == null || line.fromWeek < 1) return null;
+  const anchor = parseIsoDate(offerDate) || new Date();
+  const { isoYear, week } = isoWeekOf(anchor);
+  const fromYear = line.fromWeek < week - 26 ? isoYear + 1 : isoYear;
+  const toYear = line.toWeek >= line.fromWeek ? fromYear : fromYear + 1;
+  const start = isoWeekMonday(fromYear, line.fromWeek);
+  const end = isoWeekMonday(toYear, line.toWeek);
+  end.setUTCDate(end.getUTCDate() + 6);
+  return { fromDate: isoDate(start), toDate: isoDate(end) };
+}
+
+/** The booked period of a tilbud = its Medievisning line's week range. */
+export function bookingsFromTilbud(t: Tilbud): Booking[] {
+  if (!t.placementId) return [];
+  const line = t.lines.find(isMediaLine) ?? t.lines.find((l) => l.fromWeek != null && l.toWeek != null);
+  if (!line) return [];
+  const period = tilbudLinePeriod(line, t.offerDate || t.createdAt);
+  if (!period) return [];
+  return [
+    {
+      id: `tilbud:${t.id}:${line.id}`,
+      placementId: t.placementId,
+      source: "tilbud",
+      refId: t.id,
+      refLabel: t.offerNumber,
+      lineId: line.id,
+      advertiser: t.clientName,
+      ...period,
+    },
+  ];
+}
+
+/**
+ * One booking per sale. Sales without dates fall back to the case window
+ * (same rule as calcMonthlyForecast); sales with no resolvable period are
+ * skipped. Lost cases never occupy a placement.
+ */
+export function bookingsFromCase(c: Case): Booking[] {
+  if (!c.placementId || c.status === "tabt") return [];
+  const bookings: Booking[] = [];
+  for (const sale of c.sales || []) {
+    const from = sale.fromDate || c.startDate;
+    const to = sale.toDate || c.endDate;
+    if (!parseIsoDate(from) || !parseIsoDate(to) || to < from) continue;
+    bookings.push({
+      id: `case:${c.id}:${sale.id}`,
+      placementId: c.placementId,
+      source: "case",
+      refId: c.id,
+      refLabel: c.caseNumber,
+      lineId: sale.id,
+      advertiser: sale.annoncør || c.bygherreNavn,
+      fromDate: mondayOf(from),
+      toDate: sundayOf(to),
+    });
+  }
+  return bookings;
+}
+
+/**
+ * All bookings across finalized tilbud and cases. A tilbud that has been
+ * turned into a case is represented by the case's sales only, so the same
+ * campaign is not counted twice.
+ */
+export function collectBookings(tilbud: Tilbud[], cases: Case[]): Booking[] {
+  const convertedTilbud = new Set(cases.map((c) => c.tilbudId).filter(Boolean));
+  const fromTilbud = tilbud
+    .filter((t) => t.status === "final" && !convertedTilbud.has(t.id))
+    .flatMap(bookingsFromTilbud);
+  return [...fromTilbud, ...cases.flatMap(bookingsFromCase)];
+}
+
+// ─── Konflikter og belægning ────────────────────────────────
+
+function overlap(a: Booking, b: Booking): { from: string; to: string } | null {
+  if (a.placementId !== b.placementId) return null;
+  const from = a.fromDate > b.fromDate ? a.fromDate : b.fromDate;
+  const to = a.toDate < b.toDate ? a.toDate : b.toDate;
+  return from <= to ? { from, to } : null;
+}
+
+/** Every candidate booking that overlaps another booking on the same placement. */
+export function findConflicts(candidates: Booking[], existing: Booking[]): BookingConflict[] {
+  const conflicts: BookingConflict[] = [];
+  const seen = new Set<string>();
+  for (const booking of candidates) {
+    for (const other of existing) {
+      if (other.id === booking.id) continue;
+      const pairKey = [booking.id, other.id].sort().join("|");
+      if (seen.has(pairKey)) continue;
+      const o = overlap(booking, other);
+      if (!o) continue;
+      seen.add(pairKey);
+      conflicts.push({ booking, conflictsWith: other, overlapFrom: o.from, overlapTo: o.to });
+    }
+  }
+  return conflicts;
+}
+
+/** Week-by-week occupancy for one placement, starting at the week of `fromDate`. */
+export function buildOccupancy(
+  bookings: Booking[],
+  placementId: string,
+  placementName: string,
+  fromDate: string,
+  weekCount: number
+): PlacementOccupancy {
+  const own = bookings.filter((b) => b.placementId === placementId);
+  const start = parseIsoDate(mondayOf(fromDate)) || parseIsoDate(mondayOf(isoDate(new Date())))!;
+  const weeks: OccupancyWeek[] = [];
+  for (let i = 0; i < weekCount; i++) {
+    const monday = new Date(start.getTime() + i * 7 * DAY_MS);
+    const mondayIso = isoDate(monday);
+    const sunday = isoDate(new Date(monday.getTime() + 6 * DAY_MS));
+    const { isoYear, week } = isoWeekOf(monday);
+    const inWeek = own.filter((b) => b.fromDate <= sunday && b.toDate >= mondayIso);
+    weeks.push({
+      weekKey: weekKey(isoYear, week),
+      isoYear,
+      week,
+      monday: mondayIso,
+      status: inWeek.length === 0 ? "free" : inWeek.length === 1 ? "booked" : "double",
+      bookings: inWeek,
+    });
+  }
+  return {
+    placementId,
+    placementName,
+    weeks,
+    bookedWeeks: weeks.filter((w) => w.status !== "free").length,
+    doubleBookedWeeks: weeks.filter((w) => w.status === "double").length,
+  };
+}
@@ -0,0 +1,136 @@
+import { listTilbud, getTilbud } from "@/lib/tilbud/store";
+import { listAllCases, getCase } from "@/lib/case/store";
+import { listPlacements } from "@/lib/tilbud/placement-store";
+import type { Tilbud, TilbudUpsertInput } from "@/lib/tilbud/types";
+import type { Case, CaseUpsertInput } from "@/lib/case/types";
+import {
+  buildOccupancy,
+  bookingsFromCase,
+  bookingsFromTilbud,
+  collectBookings,
+  findConflicts,
+  mondayOf,
+} from "./calendar";
+import type {
+  AvailabilityResult,
+  Booking,
+  BookingConflict,
+  PlacementOccupancy,
+} from "./types";
+
+/** All current bookings derived from final tilbud + cases. */
+export async function loadBookings(): Promise<Booking[]> {
+  const [{ items: tilbud }, cases] = await Promise.all([
+    listTilbud({ status: "final", limit: 1000 }),
+    listAllCases(),
+  ]);
+  return collectBookings(tilbud, cases);
+}
+
+function withoutRef(bookings: Booking[], refId: string): Booking[] {
+  return bookings.filter((b) => b.refId !== refId);
+}
+
+function samePeriods(a: Booking[], b: Booking[]): boolean {
+  const key = (list: Booking[]) =>
+    list.map((x) => `${x.placementId}:${x.fromDate}:${x.toDate}`).sort().join(",");
+  return key(a) === key(b);
+}
+
+/**
+ * Conflicts a tilbud save would introduce. Only checked when the tilbud
+ * ends up `final` and either just became final or changed its period or
+ * placement — re-saving an unchanged final tilbud never re-triggers.
+ */
+export async function findTilbudBookingConflicts(input: TilbudUpsertInput): Promise<BookingConflict[]> {
+  const existing = input.id ? await getTilbud(input.id) : undefined;
+  const status = input.status ?? existing?.status ?? "draft";
+  if (status !== "final") return [];
+
+  const next = {
+    ...(existing ?? {}),
+    ...input,
+    id: input.id ?? existing?.id ?? "new-tilbud",
+    lines: input.lines ?? existing?.lines ?? [],
+    offerDate: input.offerDate ?? existing?.offerDate ?? new Date().toISOString().slice(0, 10),
+    placementId: input.placementId ?? existing?.placementId ?? "",
+  } as Tilbud;
+  const candidates = bookingsFromTilbud(next);
+  if (candidates.length === 0) return [];
+  if (existing?.status === "final" && samePeriods(candidates, bookingsFromTilbud(existing))) return [];
+
+  const all = await loadBookings();
+  return findConflicts(candidates, withoutRef(all, next.id));
+}
+
+/**
+ * Conflicts a case save would introduce: sales that are new or whose
+ * period moved are checked against every other booking, including the
+ * case's own remaining sales.
+ */
+export async function findCaseBookingConflicts(input: CaseUpsertInput): Promise<BookingConflict[]> {
+  const existing = input.id ? await getCase(input.id) : undefined;
+  const next = {
+    ...(existing ?? {}),
+    ...input,
+    id: input.id ?? existing?.id ?? "new-case",
+    sales: input.sales ?? existing?.sales ?? [],
+    placementId: input.placementId ?? existing?.placementId ?? "",
+    status: input.status ?? existing?.status ?? "tilbud_sendt",
+  } as Case;
+  const nextBookings = bookingsFromCase(next);
+  if (nextBookings.length === 0) return [];
+
+  const before = new Map((existing ? bookingsFromCase(existing) : []).map((b) => [b.id, b]));
+  const candidates = nextBookings.filter((b) => {
+    const prev = before.get(b.id);
+    return !prev || prev.fromDate !== b.fromDate || prev.toDate !== b.toDate || prev.placementId !== b.placementId;
+  });
+  if (candidates.length === 0) return [];
+
+  // A case seeded from a tilbud replaces that tilbud's booking.
+  const all = withoutRef(await loadBookings(), next.tilbudId || "");
+  return findConflicts(candidates, [...withoutRef(all, next.id), ...nextBookings]);
+}
+
+/** Is the placement free for the whole period? */
+export async function checkAvailability(
+  placementId: string,
+  fromDate: string,
+  toDate: string
+): Promise<AvailabilityResult> {
+  const all = await loadBookings();
+  const probe: Booking = {
+    id: "probe",
+    placementId,
+    source: "tilbud",
+    refId: "probe",
+    refLabel: "",
+    lineId: "",
+    advertiser: "",
+    fromDate: mondayOf(fromDate),
+    toDate,
+  };
+  const conflicts = findConflicts([probe], all).map((c) => c.conflictsWith);
+  return { placementId, fromDate, toDate, available: conflicts.length === 0, conflicts };
+}
+
+/** Occupancy grids for one or all placements. */
+export async function getOccupancy(opts: {
+  placementId?: string;
+  fromDate: string;
+  weeks: number;
+}): Promise<PlacementOccupancy[]> {
+  const [bookings, { items: placements }] = await Promise.all([loadBookings(), listPlacements()]);
+  const targets = opts.placementId
+    ? placements.filter((p) => p.id === opts.placementId)
+    : placements;
+  return targets.map((p) => buildOccupancy(bookings, p.id, p.name, opts.fromDate, opts.weeks));
+}
+
+/** Short Danish description of a conflict, for toasts and error messages. */
+export function describeConflict(c: BookingConflict): string {
+  const other = c.conflictsWith;
+  const label = other.source === "tilbud" ? `tilbud ${other.refLabel}` : `case ${other.refLabel}`;
+  return `${other.advertiser || "Ukendt"} (${label}) ${c.overlapFrom} – ${c.overlapTo}`;
+}
@@ -0,0 +1,54 @@
+// ============================================================
+// Booking — belægning pr. placering, afledt af finale tilbud
+// og case-salg. Der er ingen separat booking-tabel: kalenderen
+// beregnes altid fra kilderne, så den aldrig kan drive fra dem.
+// ============================================================
+
+export type BookingSource = "tilbud" | "case";
+
+/** One advertiser occupying a placement for a continuous period (whole ISO weeks). */
+export interface Booking {
+  id: string;              // `${source}:${refId}:${lineId}`
+  placementId: string;
+  source: BookingSource;
+  refId: string;           // tilbud.id eller case.id
+  refLabel: string;        // tilbudsnr. eller casenr.
+  lineId: string;          // tilbudslinje-id eller sale-id
+  advertiser: string;
+  fromDate: string;        // mandag i første uge (YYYY-MM-DD)
+  toDate: string;          // søndag i sidste uge (YYYY-MM-DD)
+}
+
+export interface BookingConflict {
+  booking: Booking;
+  conflictsWith: Booking;
+  overlapFrom: string;
+  overlapTo: string;
+}
+
+export type OccupancyStatus = "free" | "booked" | "double";
+
+export interface OccupancyWeek {
+  weekKey: string;         // "2026-W14"
+  isoYear: number;
+  week: number;
+  monday: string;
+  status: OccupancyStatus;
+  bookings: Booking[];
+}
+
+export interface PlacementOccupancy {
+  placementId: string;
+  placementName: string;
+  weeks: OccupancyWeek[];
+  bookedWeeks: number;
+  doubleBookedWeeks: number;
+}
+
+export interface AvailabilityResult {
+  placementId: string;
+  fromDate: string;
+  toDate: string;
+  available: boolean;
+  conflicts: Booking[];
+}
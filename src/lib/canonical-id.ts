@@ -3,6 +3,7 @@
 // Defines a unique, stable identity for a property across all
 // pipelines: address + BFE + HubSpot custom object ID
 // Ensures cross-pipeline deduplication
+// Contacts are keyed by email, companies by CVR or domain
 // ============================================================
 
 export interface CanonicalProperty {
@@ -85,3 +86,39 @@ export function deduplicateByAddress<T extends { address: string; bfeNumber?: st
     return true;
   });
 }
+
+// ── Contacts & companies ────────────────────────────────────
+
+const FREE_EMAIL_DOMAINS = new Set([
+  "gmail.com", "yahoo.com", "hotmail.com", "outlook.com", "live.com",
+  "icloud.com", "me.com", "mail.com", "protonmail.com", "proton.me",
+  "hotmail.dk", "outlook.dk", "yahoo.dk", "jubii.dk",
+]);
+
+/** Webmail domains say nothing about the company behind an address. */
+export function isFreeEmailDomain(domain: string): boolean {
+  return FREE_EMAIL_DOMAINS.has(domain.trim().toLowerCase());
+}
+
+/** Canonical contact key: the lowercased email address. */
+export function canonicalContactEmail(email: string | null | undefined): string | null {
+  const e = email?.trim().toLowerCase();
+  return e && e.includes("@") ? e : null;
+}
+
+/**
+ * Canonical company key. Priority: CVR > website/email domain
+ * (webmail domains are ignored).
+ */
+export function canonicalCompanyKey(opts: { cvr?: string | null; domain?: string | null; email?: string | null }): string | null {
+  const cvr = opts.cvr?.replace(/\D/g, "");
+  if (cvr && cvr.length === 8) return `cvr:${cvr}`;
+  const domain = (opts.domain || opts.email?.split("@")[1] || "")
+    .trim()
+    .toLowerCase()
+    .replace(/^https?:\/\//, "")
+    .replace(/^www\./, "")
+    .replace(/\/.*$/, "");
+  if (!domain || !domain.includes(".") || isFreeEmailDomain(domain)) return null;
+  return `domain:${domain}`;
+}
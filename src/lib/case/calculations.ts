@@ -314,7 +314,8 @@ export interface LiquidityMonth {
   dbIn: number;         // forventet DB fra cases
   opexOut: number;      // faste driftsudgifter
   momsOut: number;      // moms-afregning (kun ved kvartalsslut)
-  net: number;          // dbIn − opexOut − momsOut
+  adjustment: number;   // scenarie-justering (ekstra udgifter/engangsposter), 0 i basis
+  net: number;          // dbIn − opexOut − momsOut − adjustment
   cashEnd: number;      // kassebeholdning ved månedens udgang
   negative: boolean;
 }
@@ -330,6 +331,14 @@ export interface LiquidityForecast {
   totalMomsHorizon: number;
 }
 
+/** Scenario overrides on top of a forecast (see scenarios.ts). */
+export interface ForecastAdjustments {
+  /** Extra net outflow for a month ("YYYY-MM"); negative = extra inflow. */
+  extraOut?: (month: string) => number;
+  /** Case DB arrives this many months later (late-paying customers). */
+  incomeShiftMonths?: number;
+}
+
 /**
  * Projektér kassebeholdning måned for måned:
  *   kasse += DB fra cases − faste driftsudgifter − moms-afregning
@@ -341,9 +350,13 @@ export function calcLiquidityForecast(
   monthlyOpEx: number,
   startingCash: number,
   momsPct: number,
-  horizonMonths = 12
+  horizonMonths = 12,
+  adjust?: ForecastAdjustments
 ): LiquidityForecast {
   const forecast = calcMonthlyForecast(cases, horizonMonths);
+  // Forsinket betaling: DB rykkes frem i tid; det der skubbes ud over horisonten falder bort
+  const shift = Math.max(0, adjust?.incomeShiftMonths ?? 0);
+  const dbByMonth = forecast.map((_, i) => (i - shift >= 0 ? forecast[i - shift].expectedDB : 0));
   const months: LiquidityMonth[] = [];
   let cash = startingCash;
   let momsAccrued = 0;
@@ -354,8 +367,9 @@ export function calcLiquidityForecast(
   let totalMoms = 0;
 
   forecast.forEach((f, i) => {
-    const dbIn = f.expectedDB;
+    const dbIn = dbByMonth[i];
     const opexOut = monthlyOpEx;
+    const adjustment = round2(adjust?.extraOut?.(f.month) ?? 0);
     momsAccrued += dbIn * (Math.max(0, momsPct) / 100);
 
     // Kalenderkvartal-slut: marts(2), juni(5), sep(8), dec(11)
@@ -367,7 +381,7 @@ export function calcLiquidityForecast(
     }
     totalMoms += momsOut;
 
-    const net = round2(dbIn - opexOut - momsOut);
+    const net = round2(dbIn - opexOut - momsOut - adjustment);
     netSum += net;
     cash = round2(cash + net);
     if (cash < lowestCash) lowestCash = cash;
@@ -382,6 +396,7 @@ export function calcLiquidityForecast(
       dbIn: round2(dbIn),
       opexOut: round2(opexOut),
       momsOut,
+      adjustment,
       net,
       cashEnd: cash,
       negative: cash < 0,
@@ -407,7 +422,8 @@ export interface CashProjectionMonth {
   ind: number;          // planlagte indbetalinger
   ud: number;           // planlagte udbetalinger
   burn: number;         // fast månedligt burn
-  net: number;          // ind − ud − burn
+  adjustment: number;   // scenarie-justering, 0 i basis
+  net: number;          // ind − ud − burn − adjustment
   cashEnd: number;
   negative: boolean;
 }
@@ -433,7 +449,8 @@ export function calcCashProjection(
   startingCash: number,
   plannedPayments: PlannedPayment[],
   monthlyBurn: number,
-  horizonMonths = 12
+  horizonMonths = 12,
+  adjust?: Pick<ForecastAdjustments, "extraOut">
 ): CashProjection {
   const now = new Date();
   const startOfMonth = new Date(now.getFullYear(), now.getMonth(), 1);
@@ -448,6 +465,7 @@ export function calcCashProjection(
       ind: 0,
       ud: 0,
       burn: Math.max(0, monthlyBurn),
+      adjustment: 0,
       net: 0,
       cashEnd: 0,
       negative: false,
@@ -477,12 +495,13 @@ export function calcCashProjection(
   months.forEach((m, i) => {
     m.ind = round2(m.ind);
     m.ud = round2(m.ud);
-    m.net = round2(m.ind - m.ud - m.burn);
+    m.adjustment = round2(adjust?.extraOut?.(m.month) ?? 0);
+    m.net = round2(m.ind - m.ud - m.burn - m.adjustment);
     cash = round2(cash + m.net);
     m.cashEnd = cash;
     m.negative = cash < 0;
     totalIn += m.ind;
-    totalOut += m.ud + m.burn;
+    totalOut += m.ud + m.burn + m.adjustment;
     if (cash < lowest) lowest = cash;
     if (runwayMonths === null && cash < 0) {
       runwayMonths = i;
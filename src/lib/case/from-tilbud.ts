@@ -1,5 +1,6 @@
 import type { Tilbud, TilbudLine } from "@/lib/tilbud/types";
 import { calcLineTotals } from "@/lib/tilbud/calculations";
+import { tilbudLinePeriod } from "@/lib/booking/calendar";
 import { MONTERING_PER_SQM, PRODUKTION_PER_SQM } from "@/lib/tilbud/placement-types";
 import type { CaseSale, CaseUpsertInput, CostSettings } from "./types";
 import { createDefaultCase, lookupKommuneRate } from "./types";
@@ -70,11 +71,13 @@ export function caseFromTilbud(tilbud: Tilbud, settings: CostSettings): CaseUpse
   // Seed a single sale from the tilbud's medie-line. Tilbuddet allerede har
   // medieSalg som "netto efter rabat", så vi sætter listpris=medieSalg og rabat=0.
   // Brugeren kan opdele i listpris + rabatPct senere hvis ønsket.
+  // Perioden følger medie-linjens uger, så bookingen bevares i kalenderen.
+  const period = medieLine ? tilbudLinePeriod(medieLine, tilbud.offerDate) : null;
   const initialSale: CaseSale = {
     id: `sale-${Date.now()}-1`,
     annoncør: tilbud.clientName || "",
-    fromDate: "",
-    toDate: "",
+    fromDate: period?.fromDate || "",
+    toDate: period?.toDate || "",
     listpris: medieSalg,
     rabatPct: 0,
     salgspris: 0,
@@ -86,6 +89,7 @@ export function caseFromTilbud(tilbud: Tilbud, settings: CostSettings): CaseUpse
     id: undefined,
     title: tilbud.title || tilbud.offerNumber || "Case",
     tilbudId: tilbud.id,
+    placementId: tilbud.placementId || "",
     address: tilbud.campaignName || "",
     bygherreNavn: tilbud.clientName || "",
     varighedMaaneder: months,
@@ -0,0 +1,132 @@
+import { supabase, HAS_SUPABASE } from "@/lib/supabase";
+import { logger } from "@/lib/logger";
+import {
+  liquidityScenarioSchema,
+  type LiquidityScenario,
+  type LiquidityScenarioUpsertInput,
+} from "./types";
+
+function jsonArray<T>(value: unknown): T[] {
+  return Array.isArray(value) ? (value as T[]) : [];
+}
+
+function rowToScenario(row: Record<string, unknown>): LiquidityScenario {
+  return {
+    id: String(row.id),
+    name: String(row.name || ""),
+    description: String(row.description || ""),
+    caseStatusOverrides: jsonArray(row.case_status_overrides),
+    loseLargestPending: Number(row.lose_largest_pending || 0),
+    incomeDelayDays: Number(row.income_delay_days || 0),
+    expenseOverrides: jsonArray(row.expense_overrides),
+    extraExpenses: jsonArray(row.extra_expenses),
+    oneOffs: jsonArray(row.one_offs),
+    createdAt: String(row.created_at || new Date().toISOString()),
+    updatedAt: String(row.updated_at || new Date().toISOString()),
+  };
+}
+
+function scenarioToRow(s: LiquidityScenario) {
+  return {
+    id: s.id,
+    name: s.name,
+    description: s.description || "",
+    case_status_overrides: s.caseStatusOverrides,
+    lose_largest_pending: s.loseLargestPending,
+    income_delay_days: s.incomeDelayDays,
+    expense_overrides: s.expenseOverrides,
+    extra_expenses: s.extraExpenses,
+    one_offs: s.oneOffs,
+    updated_at: s.updatedAt,
+  };
+}
+
+export async function listLiquidityScenarios(): Promise<LiquidityScenario[]> {
+  if (!HAS_SUPABASE || !supabase) return [];
+  try {
+    const { data, error } = await supabase
+      .from("liquidity_scenarios")
+      .select("*")
+      .order("created_at", { ascending: true });
+    if (error) throw error;
+    return (data || []).map(rowToScenario);
+  } catch (err) {
+    logger.error(`[scenario-store] list error: ${err instanceof Error ? err.message : err}`);
+    return [];
+  }
+}
+
+export async function getLiquidityScenario(id: string): Promise<LiquidityScenario | undefined> {
+  if (!HAS_SUPABASE || !supabase) return undefined;
+  try {
+    const { data, error } = await supabase
+      .from("liquidity_scenarios")
+      .select("*")
+      .eq("id", id)
+      .maybeSingle();
+    if (error) throw error;
+    return data ? rowToScenario(data) : undefined;
+  } catch (err) {
+    logger.error(`[scenario-store] get error: ${err instanceof Error ? err.message : err}`);
+    return undefined;
+  }
+}
+
+export async function upsertLiquidityScenario(
+  input: LiquidityScenarioUpsertInput
+): Promise<LiquidityScenario> {
+  if (!HAS_SUPABASE || !supabase) {
+    throw new Error("Supabase is not configured");
+  }
+
+  const existing = input.id ? await getLiquidityScenario(input.id) : undefined;
+  const now = new Date().toISOString();
+  const base: LiquidityScenario = existing ?? {
+    id: input.id || `scn-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+    name: "",
+    description: "",
+    caseStatusOverrides: [],
+    loseLargestPending: 0,
+    incomeDelayDays: 0,
+    expenseOverrides: [],
+    extraExpenses: [],
+    oneOffs: [],
+    createdAt: now,
+    updatedAt: now,
+  };
+
+  const merged: LiquidityScenario = {
+    ...base,
+    ...input,
+    id: base.id,
+    name: input.name || base.name,
+    createdAt: existing?.createdAt ?? base.createdAt,
+    updatedAt: now,
+  };
+
+  const parsed = liquidityScenarioSchema.safeParse(merged);
+  if (!parsed.success) {
+    throw new Error(parsed.error.issues.map((x) => x.message).join(", "));
+  }
+
+  const { data, error } = await supabase
+    .from("liquidity_scenarios")
+    .upsert(scenarioToRow(parsed.data), { onConflict: "id" })
+    .select("*")
+    .single();
+  if (error) throw error;
+  if (!data) throw new Error("Upsert returned no data");
+  return rowToScenario(data);
+}
+
+export async function deleteLiquidityScenario(id: string): Promise<boolean> {
+  if (!HAS_SUPABASE || !supabase) return false;
+  try {
+    const { error } = await supabase.from("liquidity_scenarios").delete().eq("id", id);
+    if (error) throw error;
+    return true;
+  } catch (err) {
+    logger.error(`[scenario-store] delete error: ${err instanceof Error ? err.message : err}`);
+    return false;
+  }
+}
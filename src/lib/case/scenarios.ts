@@ -0,0 +1,133 @@
+import {
+  calcCaseEconomics,
+  calcCashProjection,
+  calcLiquidityForecast,
+  totalMonthlyOperatingCost,
+  type CashProjection,
+  type LiquidityForecast,
+} from "./calculations";
+import type { PlannedPayment } from "./planned-payments";
+import type { Case, LiquidityScenario, OperatingExpense } from "./types";
+
+/** Everything the baseline forecast is computed from. */
+export interface ScenarioBase {
+  cases: Case[];
+  expenses: OperatingExpense[];
+  plannedPayments: PlannedPayment[];
+  startingCash: number;
+  momsPct: number;
+  monthlyBurn: number;
+  horizonMonths?: number;
+}
+
+export interface ScenarioResult {
+  id: string;             // "baseline" for basis-prognosen
+  name: string;
+  /** Case-driven forecast (forventet DB − drift − moms). */
+  liquidity: LiquidityForecast;
+  /** Planned-payments projection (ind − ud − burn). */
+  cash: CashProjection;
+  /** Cases whose status the scenario changed to "tabt". */
+  lostCaseIds: string[];
+}
+
+export const BASELINE_SCENARIO_ID = "baseline";
+
+function addDays(iso: string, days: number): string {
+  const d = new Date(`${iso.slice(0, 10)}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().slice(0, 10);
+}
+
+/**
+ * Cases with the scenario's status overrides applied, then the
+ * `loseLargestPending` tilbud_sendt cases with the highest DB set to tabt.
+ */
+export function applyCaseOverrides(cases: Case[], scenario: LiquidityScenario): { cases: Case[]; lostCaseIds: string[] } {
+  const overrides = new Map(scenario.caseStatusOverrides.map((o) => [o.caseId, o.status]));
+  let next = cases.map((c) => (overrides.has(c.id) ? { ...c, status: overrides.get(c.id)! } : c));
+
+  const lostCaseIds = next.filter((c, i) => c.status === "tabt" && cases[i].status !== "tabt").map((c) => c.id);
+  if (scenario.loseLargestPending > 0) {
+    const largest = next
+      .filter((c) => c.status === "tilbud_sendt")
+      .sort((a, b) => calcCaseEconomics(b).dækningsbidrag - calcCaseEconomics(a).dækningsbidrag)
+      .slice(0, scenario.loseLargestPending)
+      .map((c) => c.id);
+    const lose = new Set(largest);
+    next = next.map((c) => (lose.has(c.id) ? { ...c, status: "tabt" as const } : c));
+    lostCaseIds.push(...largest);
+  }
+  return { cases: next, lostCaseIds };
+}
+
+/** Incoming planned payments moved `days` later; outgoing are left alone. */
+export function delayIncomingPayments(payments: PlannedPayment[], days: number): PlannedPayment[] {
+  if (days <= 0) return payments;
+  return payments.map((p) =>
+    p.direction === "ind" && p.status === "forventet" ? { ...p, expectedDate: addDays(p.expectedDate, days) } : p
+  );
+}
+
+/**
+ * Extra net outflow per month ("YYYY-MM") from the scenario: the change
+ * in enabled operating expenses, added expense lines within their month
+ * window, and one-off payments (inflows negative).
+ */
+export function scenarioExtraOut(expenses: OperatingExpense[], scenario: LiquidityScenario): (month: string) => number {
+  const overrides = new Map(scenario.expenseOverrides.map((o) => [o.expenseId, o]));
+  const modified = expenses.map((e) => {
+    const o = overrides.get(e.id);
+    return o ? { ...e, amountPerMonth: o.amountPerMonth ?? e.amountPerMonth, enabled: o.enabled ?? e.enabled } : e;
+  });
+  const expenseDelta = totalMonthlyOperatingCost(modified) - totalMonthlyOperatingCost(expenses);
+
+  return (month) => {
+    let out = expenseDelta;
+    for (const line of scenario.extraExpenses) {
+      if (line.fromMonth && month < line.fromMonth) continue;
+      if (line.toMonth && month > line.toMonth) continue;
+      out += line.amountPerMonth;
+    }
+    for (const o of scenario.oneOffs) {
+      if (o.date.slice(0, 7) !== month) continue;
+      out += o.direction === "ud" ? o.amount : -o.amount;
+    }
+    return out;
+  };
+}
+
+/** Baseline (scenario = null) or one scenario, on both forecast bases. */
+export function runScenario(base: ScenarioBase, scenario: LiquidityScenario | null): ScenarioResult {
+  const horizon = base.horizonMonths ?? 12;
+  const monthlyOpEx = totalMonthlyOperatingCost(base.expenses);
+
+  if (!scenario) {
+    return {
+      id: BASELINE_SCENARIO_ID,
+      name: "Basis",
+      liquidity: calcLiquidityForecast(base.cases, monthlyOpEx, base.startingCash, base.momsPct, horizon),
+      cash: calcCashProjection(base.startingCash, base.plannedPayments, base.monthlyBurn, horizon),
+      lostCaseIds: [],
+    };
+  }
+
+  const { cases, lostCaseIds } = applyCaseOverrides(base.cases, scenario);
+  const extraOut = scenarioExtraOut(base.expenses, scenario);
+  return {
+    id: scenario.id,
+    name: scenario.name,
+    liquidity: calcLiquidityForecast(cases, monthlyOpEx, base.startingCash, base.momsPct, horizon, {
+      extraOut,
+      incomeShiftMonths: Math.round(scenario.incomeDelayDays / 30),
+    }),
+    cash: calcCashProjection(
+      base.startingCash,
+      delayIncomingPayments(base.plannedPayments, scenario.incomeDelayDays),
+      base.monthlyBurn,
+      horizon,
+      { extraOut }
+    ),
+    lostCaseIds,
+  };
+}
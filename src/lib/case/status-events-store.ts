@@ -0,0 +1,59 @@
+import { supabase, HAS_SUPABASE } from "@/lib/supabase";
+import { logger } from "@/lib/logger";
+import type { CaseStatus } from "./types";
+
+export interface CaseStatusEvent {
+  id: string;
+  caseId: string;
+  fromStatus: CaseStatus | null;   // null = oprettet
+  toStatus: CaseStatus;
+  changedAt: string;
+}
+
+function rowToEvent(row: Record<string, unknown>): CaseStatusEvent {
+  return {
+    id: String(row.id),
+    caseId: String(row.case_id || ""),
+    fromStatus: row.from_status ? (row.from_status as CaseStatus) : null,
+    toStatus: row.to_status as CaseStatus,
+    changedAt: String(row.changed_at || new Date().toISOString()),
+  };
+}
+
+/** Log a status change. Best-effort: a failed log never blocks saving the case. */
+export async function recordCaseStatusEvent(
+  caseId: string,
+  fromStatus: CaseStatus | null,
+  toStatus: CaseStatus
+): Promise<void> {
+  if (!HAS_SUPABASE || !supabase) return;
+  try {
+    const { error } = await supabase.from("case_status_events").insert({
+      id: `cse-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+      case_id: caseId,
+      from_status: fromStatus,
+      to_status: toStatus,
+    });
+    if (error) throw error;
+  } catch (err) {
+    logger.error(`[case-status-events] insert error: ${err instanceof Error ? err.message : err}`);
+  }
+}
+
+/** Status history, oldest first — for one case or all cases. */
+export async function listCaseStatusEvents(caseId?: string): Promise<CaseStatusEvent[]> {
+  if (!HAS_SUPABASE || !supabase) return [];
+  try {
+    let query = supabase
+      .from("case_status_events")
+      .select("*")
+      .order("changed_at", { ascending: true });
+    if (caseId) query = query.eq("case_id", caseId);
+    const { data, error } = await query;
+    if (error) throw error;
+    return (data || []).map(rowToEvent);
+  } catch (err) {
+    logger.error(`[case-status-events] list error: ${err instanceof Error ? err.message : err}`);
+    return [];
+  }
+}
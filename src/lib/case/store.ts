@@ -9,6 +9,10 @@ import {
   type CaseStatus,
   type CaseUpsertInput,
 } from "./types";
+import { recordCaseStatusEvent } from "./status-events-store";
+import { getTilbud } from "@/lib/tilbud/store";
+import { tilbudContactEmail } from "@/lib/tilbud/types";
+import { recordEngagement } from "@/lib/outreach/engagement-store";
 
 // ─── Row mapping ────────────────────────────────────────────
 
@@ -181,7 +185,25 @@ export async function upsertCase(input: CaseUpsertInput): Promise<Case> {
 
   if (error) throw error;
   if (!data) throw new Error("Upsert returned no data");
-  return rowToCase(data);
+  const saved = rowToCase(data);
+  if (!existing || existing.status !== saved.status) {
+    await recordCaseStatusEvent(saved.id, existing?.status ?? null, saved.status);
+  }
+  if (!existing) await recordCaseCreated(saved);
+  return saved;
+}
+
+/** Engagement event for a new case, keyed by the contact on its tilbud. */
+async function recordCaseCreated(saved: Case): Promise<void> {
+  const tilbud = saved.tilbudId ? await getTilbud(saved.tilbudId) : undefined;
+  await recordEngagement({
+    kind: "case_created",
+    email: tilbud ? tilbudContactEmail(tilbud) : null,
+    source: "case",
+    refId: saved.id,
+    summary: `Case ${saved.caseNumber} oprettet: ${saved.title}${saved.address ? ` (${saved.address})` : ""}`,
+    metadata: { tilbudId: saved.tilbudId || undefined, status: saved.status },
+  });
 }
 
 export async function deleteCase(id: string): Promise<boolean> {
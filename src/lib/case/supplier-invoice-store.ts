@@ -0,0 +1,93 @@
+import { createHash } from "crypto";
+import { supabase, HAS_SUPABASE } from "@/lib/supabase";
+import { logger } from "@/lib/logger";
+import type { InvoiceScanResult } from "./invoice-scan";
+import type { SupplierInvoice } from "./types";
+
+function rowToSupplierInvoice(row: Record<string, unknown>): SupplierInvoice {
+  return {
+    id: String(row.id),
+    vendor: String(row.vendor || ""),
+    invoiceNumber: String(row.invoice_number || ""),
+    invoiceDate: String(row.invoice_date || "").slice(0, 10),
+    currency: String(row.currency || "DKK"),
+    totalNet: Number(row.total_net || 0),
+    totalVat: Number(row.total_vat || 0),
+    totalGross: Number(row.total_gross || 0),
+    caseId: row.case_id ? String(row.case_id) : null,
+    fileName: String(row.file_name || ""),
+    createdAt: String(row.created_at || new Date().toISOString()),
+  };
+}
+
+/** Same vendor + number + date + amount → same id, so rescans overwrite. */
+function supplierInvoiceId(result: InvoiceScanResult, fileName: string): string {
+  const key = result.vendor || result.invoiceNumber
+    ? [result.vendor.trim().toLowerCase(), result.invoiceNumber.trim(), result.invoiceDate, result.totalGross].join("|")
+    : `${fileName}|${result.totalGross}`;
+  return `sinv-${createHash("sha1").update(key).digest("hex").slice(0, 16)}`;
+}
+
+export async function saveScannedSupplierInvoice(
+  result: InvoiceScanResult,
+  fileName: string,
+  caseId?: string | null
+): Promise<SupplierInvoice> {
+  if (!HAS_SUPABASE || !supabase) throw new Error("Supabase is not configured");
+  const row = {
+    id: supplierInvoiceId(result, fileName),
+    vendor: result.vendor,
+    invoice_number: result.invoiceNumber,
+    invoice_date: /^\d{4}-\d{2}-\d{2}$/.test(result.invoiceDate) ? result.invoiceDate : null,
+    currency: result.currency || "DKK",
+    total_net: result.totalNet,
+    total_vat: result.totalVat,
+    total_gross: result.totalGross,
+    case_id: caseId || null,
+    file_name: fileName,
+  };
+  const { data, error } = await supabase
+    .from("supplier_invoices")
+    .upsert(row, { onConflict: "id" })
+    .select("*")
+    .single();
+  if (error) throw error;
+  return rowToSupplierInvoice(data);
+}
+
+/** Supplier invoices dated within [from, to] (inclusive, YYYY-MM-DD). */
+export async function listSupplierInvoices(from: string, to: string): Promise<SupplierInvoice[]> {
+  if (!HAS_SUPABASE || !supabase) return [];
+  try {
+    const { data, error } = await supabase
+      .from("supplier_invoices")
+      .select("*")
+      .gte("invoice_date", from)
+      .lte("invoice_date", to)
+      .order("invoice_date", { ascending: true });
+    if (error) throw error;
+    return (data || []).map(rowToSupplierInvoice);
+  } catch (err) {
+    logger.error(`[supplier-invoices] list error: ${err instanceof Error ? err.message : err}`);
+    return [];
+  }
+}
+
+/** Supplier invoices booked on a case — one case, or every case. */
+export async function listCaseSupplierInvoices(caseId?: string): Promise<SupplierInvoice[]> {
+  if (!HAS_SUPABASE || !supabase) return [];
+  try {
+    let query = supabase
+      .from("supplier_invoices")
+      .select("*")
+      .not("case_id", "is", null)
+      .order("invoice_date", { ascending: true });
+    if (caseId) query = query.eq("case_id", caseId);
+    const { data, error } = await query;
+    if (error) throw error;
+    return (data || []).map(rowToSupplierInvoice);
+  } catch (err) {
+    logger.error(`[supplier-invoices] listCaseSupplierInvoices error: ${err instanceof Error ? err.message : err}`);
+    return [];
+  }
+}
@@ -0,0 +1,57 @@
+import { listCaseTransactions } from "@/lib/bank/store";
+import { listInvoicePayments } from "@/lib/invoice/payments-store";
+import { listInvoices } from "@/lib/invoice/store";
+import { getTilbudAcceptance } from "@/lib/tilbud/acceptance-store";
+import { getTilbud } from "@/lib/tilbud/store";
+import { getCostSettings } from "./settings-store";
+import { listCaseStatusEvents } from "./status-events-store";
+import { getCase, listAllCases } from "./store";
+import { listCaseSupplierInvoices } from "./supplier-invoice-store";
+import {
+  buildCaseTimeline,
+  buildSiteProfitability,
+  type CaseTimeline,
+  type SiteProfitability,
+} from "./timeline";
+
+/** Everything that happened on one case, from tilbud to afsluttet. */
+export async function getCaseTimeline(caseId: string): Promise<CaseTimeline | undefined> {
+  const caseData = await getCase(caseId);
+  if (!caseData) return undefined;
+
+  const [tilbud, acceptance, statusEvents, { items: invoices }, supplierInvoices, bankTransactions, settings] =
+    await Promise.all([
+      caseData.tilbudId ? getTilbud(caseData.tilbudId) : Promise.resolve(undefined),
+      caseData.tilbudId ? getTilbudAcceptance(caseData.tilbudId) : Promise.resolve(undefined),
+      listCaseStatusEvents(caseId),
+      listInvoices({ caseId }),
+      listCaseSupplierInvoices(caseId),
+      listCaseTransactions(caseId),
+      getCostSettings(),
+    ]);
+  const payments = (await Promise.all(invoices.map((inv) => listInvoicePayments(inv.id)))).flat();
+
+  return buildCaseTimeline({
+    caseData,
+    tilbud,
+    acceptance,
+    statusEvents,
+    invoices,
+    payments,
+    supplierInvoices,
+    bankTransactions,
+    momsPct: settings.momsPct,
+  });
+}
+
+/** Budget vs. realized margin, occupancy and idle weeks per site. */
+export async function getSiteProfitability(): Promise<SiteProfitability[]> {
+  const [cases, { items: invoices }, supplierInvoices, bankTransactions, settings] = await Promise.all([
+    listAllCases(),
+    listInvoices({ limit: 2000 }),
+    listCaseSupplierInvoices(),
+    listCaseTransactions(),
+    getCostSettings(),
+  ]);
+  return buildSiteProfitability(cases, invoices, supplierInvoices, bankTransactions, settings.momsPct);
+}
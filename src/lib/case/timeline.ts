@@ -0,0 +1,389 @@
+import type { BankTransaction } from "@/lib/bank/types";
+import type { Invoice, InvoicePayment } from "@/lib/invoice/types";
+import type { TilbudAcceptance } from "@/lib/tilbud/acceptance-types";
+import type { Tilbud } from "@/lib/tilbud/types";
+import { calcCaseEconomics } from "./calculations";
+import type { CaseStatusEvent } from "./status-events-store";
+import { CASE_STATUS_LABEL, type Case, type SupplierInvoice } from "./types";
+
+// ─── Typer ──────────────────────────────────────────────────
+
+export type CaseTimelineEventKind =
+  | "tilbud"
+  | "accept"
+  | "status"
+  | "sale_start"
+  | "sale_end"
+  | "invoice"
+  | "payment"
+  | "supplier_invoice"
+  | "bank";
+
+export interface CaseTimelineEvent {
+  date: string;              // YYYY-MM-DD
+  kind: CaseTimelineEventKind;
+  label: string;
+  amount?: number;           // + ind, − ud (ekskl. moms hvor kendt)
+  ref?: string;              // bank_transactions.id for bank-events (så de kan frakobles)
+}
+
+export interface OccupancyGap {
+  from: string;
+  to: string;
+  weeks: number;
+}
+
+/** How much of the time the scaffolding was up it carried an advertiser. */
+export interface CaseOccupancy {
+  windowFrom: string;
+  windowTo: string;
+  weeksUp: number;
+  weeksBooked: number;
+  idleWeeks: number;
+  occupancyPct: number;
+  gaps: OccupancyGap[];
+}
+
+export interface CaseProfitability {
+  budget: { revenue: number; costs: number; margin: number; marginPct: number };
+  realized: {
+    invoiced: number;        // udstedte fakturaer ekskl. moms
+    collected: number;       // heraf indbetalt
+    bygherreShare: number;   // bygherrens andel af faktureret medie
+    costs: number;           // leverandørfakturaer + bogførte bankudgifter, ekskl. moms
+    margin: number;
+    marginPct: number;
+  };
+  /** realized.margin − budget.margin */
+  marginVariance: number;
+  /** Net media revenue per m² per week the scaffolding was up. */
+  revenuePerSqmWeek: { budget: number | null; realized: number | null };
+}
+
+export interface CaseTimeline {
+  caseId: string;
+  caseNumber: string;
+  address: string;
+  status: Case["status"];
+  events: CaseTimelineEvent[];
+  occupancy: CaseOccupancy | null;
+  profitability: CaseProfitability;
+}
+
+export interface SiteProfitability {
+  address: string;
+  caseIds: string[];
+  areaSqm: number;
+  weeksUp: number;
+  weeksBooked: number;
+  idleWeeks: number;
+  occupancyPct: number;
+  budgetMargin: number;
+  realizedMargin: number;
+  revenuePerSqmWeek: number | null;
+}
+
+export interface CaseTimelineInput {
+  caseData: Case;
+  tilbud?: Tilbud | null;
+  acceptance?: TilbudAcceptance | null;
+  statusEvents?: CaseStatusEvent[];
+  invoices: Invoice[];
+  payments?: InvoicePayment[];
+  supplierInvoices: SupplierInvoice[];
+  bankTransactions: BankTransaction[];
+  momsPct: number;
+}
+
+// ─── Hjælpere ───────────────────────────────────────────────
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function round2(n: number): number {
+  return Math.round((n + Number.EPSILON) * 100) / 100;
+}
+
+function round1(n: number): number {
+  return Math.round(n * 10) / 10;
+}
+
+function isIsoDate(s: string | undefined): s is string {
+  return !!s && /^\d{4}-\d{2}-\d{2}/.test(s);
+}
+
+function dayNumber(iso: string): number {
+  return Math.floor(Date.parse(`${iso.slice(0, 10)}T00:00:00Z`) / DAY_MS);
+}
+
+function isoFromDay(day: number): string {
+  return new Date(day * DAY_MS).toISOString().slice(0, 10);
+}
+
+function addMonths(iso: string, months: number): string {
+  const d = new Date(`${iso.slice(0, 10)}T00:00:00Z`);
+  d.setUTCMonth(d.getUTCMonth() + months);
+  d.setUTCDate(d.getUTCDate() - 1);
+  return d.toISOString().slice(0, 10);
+}
+
+/** Bank outflow ex. VAT — kommune fees and foreign purchases carry no Danish VAT. */
+function bankNet(t: BankTransaction, momsPct: number): number {
+  const gross = Math.abs(t.amount);
+  if (t.category === "skat_moms" || (t.fxCurrency && t.fxCurrency !== "DKK")) return gross;
+  return round2(gross / (1 + momsPct / 100));
+}
+
+function isMediaLine(source: string): boolean {
+  return source.startsWith("sale:");
+}
+
+// ─── Belægning ──────────────────────────────────────────────
+
+/**
+ * Occupancy over the scaffolding window (startDate → endDate, else
+ * start + varighedMaaneder). Sales without dates are assumed to cover
+ * the whole window, as in the forecast.
+ */
+export function calcCaseOccupancy(c: Case): CaseOccupancy | null {
+  if (!isIsoDate(c.startDate)) return null;
+  const windowFrom = c.startDate.slice(0, 10);
+  const windowTo = isIsoDate(c.endDate) ? c.endDate.slice(0, 10) : addMonths(windowFrom, Math.max(1, c.varighedMaaneder || 1));
+  const start = dayNumber(windowFrom);
+  const end = dayNumber(windowTo);
+  if (end < start) return null;
+  const totalDays = end - start + 1;
+
+  const intervals: Array<[number, number]> = [];
+  for (const sale of c.sales || []) {
+    const from = isIsoDate(sale.fromDate) ? dayNumber(sale.fromDate) : start;
+    const to = isIsoDate(sale.toDate) ? dayNumber(sale.toDate) : end;
+    const a = Math.max(start, from);
+    const b = Math.min(end, to);
+    if (b >= a) intervals.push([a, b]);
+  }
+  intervals.sort((x, y) => x[0] - y[0]);
+
+  const gaps: OccupancyGap[] = [];
+  let cursor = start;
+  let booked = 0;
+  for (const [a, b] of intervals) {
+    if (b < cursor) continue;
+    if (a > cursor) gaps.push({ from: isoFromDay(cursor), to: isoFromDay(a - 1), weeks: round1((a - cursor) / 7) });
+    booked += b - Math.max(a, cursor) + 1;
+    cursor = b + 1;
+  }
+  if (cursor <= end) gaps.push({ from: isoFromDay(cursor), to: isoFromDay(end), weeks: round1((end - cursor + 1) / 7) });
+
+  return {
+    windowFrom,
+    windowTo,
+    weeksUp: round1(totalDays / 7),
+    weeksBooked: round1(booked / 7),
+    idleWeeks: round1((totalDays - booked) / 7),
+    occupancyPct: round1((booked / totalDays) * 100),
+    gaps,
+  };
+}
+
+// ─── Rentabilitet ───────────────────────────────────────────
+
+/**
+ * Budget (from the case's prices) vs. realized (from invoices, scanned
+ * supplier invoices and bank transactions booked on the case). Bank
+ * payments matching a supplier invoice's gross amount are not counted
+ * twice.
+ */
+export function calcCaseProfitability(
+  c: Case,
+  invoices: Invoice[],
+  supplierInvoices: SupplierInvoice[],
+  bankTransactions: BankTransaction[],
+  momsPct: number,
+  occupancy = calcCaseOccupancy(c)
+): CaseProfitability {
+  const e = calcCaseEconomics(c);
+  const budgetCosts = e.totalKost + e.bygherreMediaShare;
+
+  const active = invoices.filter((inv) => inv.status !== "annulleret");
+  const invoiced = active.reduce((s, inv) => s + inv.subtotal, 0);
+  const collected = active.reduce((s, inv) => s + Math.min(inv.paidAmount, inv.total) * (inv.total > 0 ? inv.subtotal / inv.total : 0), 0);
+  const mediaInvoiced = active.reduce(
+    (s, inv) => s + inv.lines.filter((l) => isMediaLine(l.source)).reduce((a, l) => a + l.amount, 0),
+    0
+  );
+  const bygherreShare = mediaInvoiced * (Math.max(0, Math.min(100, c.bygherreSharePct || 0)) / 100);
+
+  const outflows = bankTransactions.filter((t) => t.amount < 0);
+  const covered = new Set<string>();
+  for (const inv of supplierInvoices) {
+    const hit = outflows.find((t) => !covered.has(t.id) && Math.abs(Math.abs(t.amount) - inv.totalGross) <= 1);
+    if (hit) covered.add(hit.id);
+  }
+  const supplierCosts = supplierInvoices.reduce((s, inv) => s + inv.totalNet, 0);
+  const bankCosts = outflows.filter((t) => !covered.has(t.id)).reduce((s, t) => s + bankNet(t, momsPct), 0);
+  const realizedCosts = supplierCosts + bankCosts;
+
+  const realizedMargin = invoiced - bygherreShare - realizedCosts;
+  const perSqmWeek = (revenue: number) =>
+    c.areaSqm > 0 && occupancy && occupancy.weeksUp > 0 ? round2(revenue / c.areaSqm / occupancy.weeksUp) : null;
+
+  return {
+    budget: {
+      revenue: e.fakturaTotal,
+      costs: round2(budgetCosts),
+      margin: e.dækningsbidrag,
+      marginPct: round1(e.dækningsbidragPct),
+    },
+    realized: {
+      invoiced: round2(invoiced),
+      collected: round2(collected),
+      bygherreShare: round2(bygherreShare),
+      costs: round2(realizedCosts),
+      margin: round2(realizedMargin),
+      marginPct: invoiced > 0 ? round1((realizedMargin / invoiced) * 100) : 0,
+    },
+    marginVariance: round2(realizedMargin - e.dækningsbidrag),
+    revenuePerSqmWeek: {
+      budget: perSqmWeek(e.netMedieRevenue),
+      realized: mediaInvoiced > 0 ? perSqmWeek(mediaInvoiced) : null,
+    },
+  };
+}
+
+// ─── Tidslinje ──────────────────────────────────────────────
+
+export function buildCaseTimeline(input: CaseTimelineInput): CaseTimeline {
+  const c = input.caseData;
+  const events: CaseTimelineEvent[] = [];
+
+  if (input.tilbud) {
+    events.push({ date: input.tilbud.offerDate.slice(0, 10), kind: "tilbud", label: `Tilbud ${input.tilbud.offerNumber} — ${input.tilbud.clientName}` });
+  }
+  if (input.acceptance) {
+    events.push({
+      date: input.acceptance.createdAt.slice(0, 10),
+      kind: "accept",
+      label: `Tilbud ${input.acceptance.decision === "accepted" ? "accepteret" : "afvist"} af ${input.acceptance.signerName}`,
+    });
+  }
+  for (const ev of input.statusEvents || []) {
+    events.push({
+      date: ev.changedAt.slice(0, 10),
+      kind: "status",
+      label: ev.fromStatus
+        ? `Status: ${CASE_STATUS_LABEL[ev.fromStatus]} → ${CASE_STATUS_LABEL[ev.toStatus]}`
+        : `Case oprettet (${CASE_STATUS_LABEL[ev.toStatus]})`,
+    });
+  }
+  for (const sale of c.sales || []) {
+    const who = sale.annoncør || "Annoncør";
+    if (isIsoDate(sale.fromDate)) events.push({ date: sale.fromDate.slice(0, 10), kind: "sale_start", label: `${who} starter` });
+    if (isIsoDate(sale.toDate)) events.push({ date: sale.toDate.slice(0, 10), kind: "sale_end", label: `${who} slutter` });
+  }
+  const invoiceNumber = new Map(input.invoices.map((inv) => [inv.id, inv.invoiceNumber]));
+  for (const inv of input.invoices) {
+    if (inv.status === "annulleret") continue;
+    events.push({ date: inv.issueDate, kind: "invoice", label: `Faktura ${inv.invoiceNumber}`, amount: inv.subtotal });
+  }
+  for (const p of input.payments || []) {
+    events.push({ date: p.postedDate, kind: "payment", label: `Indbetaling faktura ${invoiceNumber.get(p.invoiceId) || ""}`.trim(), amount: p.amount });
+  }
+  for (const inv of input.supplierInvoices) {
+    events.push({
+      date: inv.invoiceDate || inv.createdAt.slice(0, 10),
+      kind: "supplier_invoice",
+      label: `Leverandørfaktura ${inv.vendor}${inv.invoiceNumber ? ` ${inv.invoiceNumber}` : ""}`,
+      amount: -inv.totalNet,
+    });
+  }
+  for (const t of input.bankTransactions) {
+    events.push({ date: t.postedDate, kind: "bank", label: t.title, amount: t.amount, ref: t.id });
+  }
+  events.sort((a, b) => a.date.localeCompare(b.date));
+
+  const occupancy = calcCaseOccupancy(c);
+  return {
+    caseId: c.id,
+    caseNumber: c.caseNumber,
+    address: c.address,
+    status: c.status,
+    events,
+    occupancy,
+    profitability: calcCaseProfitability(c, input.invoices, input.supplierInvoices, input.bankTransactions, input.momsPct, occupancy),
+  };
+}
+
+/**
+ * Roll cases up per site (address). Lost cases never had scaffolding up
+ * and are left out.
+ */
+export function buildSiteProfitability(
+  cases: Case[],
+  invoices: Invoice[],
+  supplierInvoices: SupplierInvoice[],
+  bankTransactions: BankTransaction[],
+  momsPct: number
+): SiteProfitability[] {
+  const sites = new Map<string, { address: string; cases: Case[] }>();
+  for (const c of cases) {
+    if (c.status === "tabt") continue;
+    const address = (c.address || "").trim() || "(Uden adresse)";
+    const key = address.toLowerCase();
+    const site = sites.get(key) || { address, cases: [] };
+    site.cases.push(c);
+    sites.set(key, site);
+  }
+
+  const byCase = <T>(items: T[], caseIdOf: (x: T) => string | null | undefined) => {
+    const map = new Map<string, T[]>();
+    for (const item of items) {
+      const id = caseIdOf(item);
+      if (!id) continue;
+      map.set(id, [...(map.get(id) || []), item]);
+    }
+    return map;
+  };
+  const invoicesByCase = byCase(invoices, (i) => i.caseId);
+  const supplierByCase = byCase(supplierInvoices, (i) => i.caseId);
+  const bankByCase = byCase(bankTransactions, (t) => t.caseId);
+
+  const result: SiteProfitability[] = [];
+  for (const { address, cases: siteCases } of sites.values()) {
+    let weeksUp = 0;
+    let weeksBooked = 0;
+    let budgetMargin = 0;
+    let realizedMargin = 0;
+    let mediaRevenue = 0;
+    let sqmWeeks = 0;
+    for (const c of siteCases) {
+      const occ = calcCaseOccupancy(c);
+      const p = calcCaseProfitability(
+        c,
+        invoicesByCase.get(c.id) || [],
+        supplierByCase.get(c.id) || [],
+        bankByCase.get(c.id) || [],
+        momsPct,
+        occ
+      );
+      weeksUp += occ?.weeksUp ?? 0;
+      weeksBooked += occ?.weeksBooked ?? 0;
+      budgetMargin += p.budget.margin;
+      realizedMargin += p.realized.margin;
+      mediaRevenue += calcCaseEconomics(c).netMedieRevenue;
+      sqmWeeks += (c.areaSqm || 0) * (occ?.weeksUp ?? 0);
+    }
+    result.push({
+      address,
+      caseIds: siteCases.map((c) => c.id),
+      areaSqm: Math.max(0, ...siteCases.map((c) => c.areaSqm || 0)),
+      weeksUp: round1(weeksUp),
+      weeksBooked: round1(weeksBooked),
+      idleWeeks: round1(weeksUp - weeksBooked),
+      occupancyPct: weeksUp > 0 ? round1((weeksBooked / weeksUp) * 100) : 0,
+      budgetMargin: round2(budgetMargin),
+      realizedMargin: round2(realizedMargin),
+      revenuePerSqmWeek: sqmWeeks > 0 ? round2(mediaRevenue / sqmWeeks) : null,
+    });
+  }
+  return result.sort((a, b) => b.budgetMargin - a.budgetMargin);
+}
@@ -328,3 +328,77 @@ export const operatingExpenseUpsertSchema = operatingExpenseSchema.partial().ext
 
 export type OperatingExpense = z.infer<typeof operatingExpenseSchema>;
 export type OperatingExpenseUpsertInput = z.infer<typeof operatingExpenseUpsertSchema>;
+
+// ─── Leverandørfakturaer ───────────────────────────────────
+
+/**
+ * A scanned supplier invoice, kept so the moms report can use its VAT
+ * figures. Saved on every scan; rescanning the same invoice updates the row.
+ */
+export const supplierInvoiceSchema = z.object({
+  id: z.string().min(1),
+  vendor: z.string().default(""),
+  invoiceNumber: z.string().default(""),
+  invoiceDate: z.string().default(""),        // YYYY-MM-DD eller "" hvis ukendt
+  currency: z.string().default("DKK"),
+  totalNet: z.number().default(0),
+  totalVat: z.number().default(0),
+  totalGross: z.number().default(0),
+  caseId: z.string().nullable().default(null),
+  fileName: z.string().default(""),
+  createdAt: z.string().min(1),
+});
+
+export type SupplierInvoice = z.infer<typeof supplierInvoiceSchema>;
+
+// ─── Likviditets-scenarier ─────────────────────────────────
+
+/** Recurring cost line a scenario adds, e.g. a new hire from March. */
+export const scenarioExpenseLineSchema = z.object({
+  label: z.string().min(1, "Navn mangler"),
+  amountPerMonth: z.number().default(0),                   // negativ = besparelse
+  fromMonth: z.string().regex(/^(\d{4}-\d{2})?$/, "Brug ÅÅÅÅ-MM").default(""), // "" = fra første måned
+  toMonth: z.string().regex(/^(\d{4}-\d{2})?$/, "Brug ÅÅÅÅ-MM").default(""),   // "" = resten af horisonten
+});
+
+/** One-off payment, e.g. buying scaffolding or a loan payout. */
+export const scenarioOneOffSchema = z.object({
+  label: z.string().min(1, "Navn mangler"),
+  direction: z.enum(["ind", "ud"]).default("ud"),
+  amount: z.number().nonnegative().default(0),
+  date: z.string().min(1, "Dato mangler"),                 // YYYY-MM-DD
+});
+
+/**
+ * Named what-if on top of the liquidity forecast. Overrides are applied
+ * to copies of the inputs; the baseline data is never changed.
+ */
+export const liquidityScenarioSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().min(1, "Navn mangler"),
+  description: z.string().optional().default(""),
+  caseStatusOverrides: z.array(z.object({ caseId: z.string().min(1), status: caseStatusSchema })).default([]),
+  /** Treat the N pending tilbud with the highest DB as lost. */
+  loseLargestPending: z.number().int().min(0).default(0),
+  /** Customers pay this many days later than planned. */
+  incomeDelayDays: z.number().int().min(0).max(365).default(0),
+  expenseOverrides: z.array(z.object({
+    expenseId: z.string().min(1),
+    amountPerMonth: z.number().nonnegative().optional(),
+    enabled: z.boolean().optional(),
+  })).default([]),
+  extraExpenses: z.array(scenarioExpenseLineSchema).default([]),
+  oneOffs: z.array(scenarioOneOffSchema).default([]),
+  createdAt: z.string().min(1),
+  updatedAt: z.string().min(1),
+});
+
+export const liquidityScenarioUpsertSchema = liquidityScenarioSchema.partial().extend({
+  id: z.string().optional(),
+  name: z.string().min(1, "Navn mangler"),
+});
+
+export type ScenarioExpenseLine = z.infer<typeof scenarioExpenseLineSchema>;
+export type ScenarioOneOff = z.infer<typeof scenarioOneOffSchema>;
+export type LiquidityScenario = z.infer<typeof liquidityScenarioSchema>;
+export type LiquidityScenarioUpsertInput = z.infer<typeof liquidityScenarioUpsertSchema>;
@@ -98,6 +98,25 @@ Korte sætninger, konkret værdi, ingen buzzwords.`
     fromEmail: () => optionalEnv("SMTP_USER", optionalEnv("GMAIL_FROM_EMAIL", "")),
   },
 
+  // Tilbud: public acceptance links + who gets notified when a customer answers
+  tilbud: {
+    notifyEmail: optionalEnv("TILBUD_NOTIFY_EMAIL", optionalEnv("GMAIL_FROM_EMAIL", "")),
+  },
+
+  // Outgoing invoices (sælger-data til PDF + OIOUBL)
+  invoice: {
+    sellerCvr: optionalEnv("INVOICE_SELLER_CVR", ""),
+    bankRegNo: optionalEnv("INVOICE_BANK_REG_NO", ""),
+    bankAccountNo: optionalEnv("INVOICE_BANK_ACCOUNT_NO", ""),
+    iban: optionalEnv("INVOICE_IBAN", ""),
+    fiCreditorNo: optionalEnv("INVOICE_FI_CREDITOR_NO", ""),   // FI-kreditornr. (+71) — tom = bankoverførsel
+    contactEmail: optionalEnv("INVOICE_CONTACT_EMAIL", optionalEnv("GMAIL_FROM_EMAIL", "")),
+    paymentTermsDays: (() => {
+      const v = parseInt(optionalEnv("INVOICE_PAYMENT_TERMS_DAYS", "14"), 10);
+      return Number.isNaN(v) || v < 0 ? 14 : v;
+    })(),
+  },
+
   // Email rate limiting
   emailRateLimitPerHour: (() => {
     const val = parseInt(optionalEnv("EMAIL_RATE_LIMIT_PER_HOUR", "200"), 10);
@@ -0,0 +1,254 @@
+// ============================================================
+// Property Dedupe – duplicate clusters across pipelines
+//
+// HubSpot ejendomme, staged properties and OOH frames each keep
+// their own copy of an address. Every record is resolved to its
+// BFE number via DAWA (stored in property_bfe_index, re-resolved
+// when the address changes), and records sharing a BFE – or,
+// until resolved, the same normalized address – form a cluster.
+// The same lookup guards intake (scaffolding permits) against
+// creating a new ejendom for a property we already have.
+// ============================================================
+
+import { fetchAllEjendommePaged, ejendomExistsByAddress } from "../hubspot";
+import { listStagedProperties } from "../staging/store";
+import { getFrames } from "../ooh/store";
+import { lookupBfeViaDawa } from "../research/ois";
+import { createResearchSourceCache } from "../research/source-cache";
+import { canonicalKey, normalizeAddress } from "../canonical-id";
+import { logger } from "../logger";
+import { findRefsByBfe, listBfeIndex, saveBfeIndexEntry } from "./store";
+import { isMergeableKind, parsePropertyRef, type DedupeRecord, type DuplicateCluster } from "./types";
+
+/**
+ * Street + postal code, normalized. Addresses that carry the postal
+ * code after a comma ("Vej 1, 8000 Aarhus C") give the same key as
+ * ones with a separate postal code.
+ */
+export function dedupeAddressKey(address: string, postalCode?: string | null): string {
+  const [street, ...rest] = address.split(",");
+  const postal = postalCode?.trim() || rest.join(",").match(/\b\d{4}\b/)?.[0] || "";
+  return `${normalizeAddress(street)}${postal ? ` ${postal}` : ""}`;
+}
+
+/** Every property record from HubSpot, staging and the OOH frame library. */
+async function collectRecords(): Promise<DedupeRecord[]> {
+  const out: DedupeRecord[] = [];
+  const base = { bfe: null, ownerName: null, ownerCvr: null, contactPerson: null, contactEmail: null };
+
+  let hubspot: Awaited<ReturnType<typeof fetchAllEjendommePaged>> = [];
+  try {
+    hubspot = await fetchAllEjendommePaged();
+  } catch (e) {
+    logger.warn(`[dedupe] HubSpot fetch failed, skipping ejendomme: ${e instanceof Error ? e.message : e}`, {
+      service: "dedupe",
+    });
+  }
+  const hubspotIds = new Set(hubspot.map((p) => p.id));
+  for (const p of hubspot) {
+    if (!p.address) continue;
+    out.push({
+      ...base,
+      ref: `hubspot:${p.id}`,
+      kind: "hubspot",
+      id: p.id,
+      name: p.name,
+      address: p.address,
+      postalCode: p.postalCode || null,
+      city: p.city || null,
+      addressKey: dedupeAddressKey(p.address, p.postalCode),
+      status: p.outreachStatus,
+      outdoorScore: p.outdoorScore ?? null,
+      ownerName: p.ownerCompanyName || null,
+      ownerCvr: p.ownerCompanyCvr || null,
+      contactPerson: p.contactPerson || null,
+      contactEmail: p.contactEmail || null,
+      contactCount: p.contactEmail ? 1 : 0,
+      hasResearch: !!p.researchSummary,
+      hasDraft: !!(p.emailDraftSubject && p.emailDraftBody),
+      createdAt: p.createdAt || null,
+      updatedAt: p.updatedAt || null,
+    });
+  }
+
+  for (const sp of await listStagedProperties()) {
+    // Rejected rows are dead ends; pushed rows are the same record as their ejendom
+    if (!sp.address || sp.stage === "rejected") continue;
+    if (sp.hubspotId && hubspotIds.has(sp.hubspotId)) continue;
+    out.push({
+      ...base,
+      ref: `staged:${sp.id}`,
+      kind: "staged",
+      id: sp.id,
+      name: sp.name,
+      address: sp.address,
+      postalCode: sp.postalCode || null,
+      city: sp.city || null,
+      addressKey: dedupeAddressKey(sp.address, sp.postalCode),
+      status: sp.stage,
+      outdoorScore: sp.outdoorScore ?? null,
+      ownerName: sp.ownerCompany || null,
+      ownerCvr: sp.ownerCvr || null,
+      contactPerson: sp.contactPerson || null,
+      contactEmail: sp.contactEmail || null,
+      contactCount: sp.contacts?.length || (sp.contactEmail ? 1 : 0),
+      hasResearch: !!sp.researchSummary,
+      hasDraft: !!(sp.emailDraftSubject && sp.emailDraftBody),
+      createdAt: sp.createdAt,
+      updatedAt: sp.updatedAt,
+    });
+  }
+
+  for (const f of await getFrames()) {
+    if (!f.locationAddress) continue;
+    out.push({
+      ...base,
+      ref: `frame:${f.id}`,
+      kind: "frame",
+      id: f.id,
+      name: f.name,
+      address: f.locationAddress,
+      postalCode: null,
+      city: f.locationCity || null,
+      addressKey: dedupeAddressKey(f.locationAddress),
+      status: f.isActive ? "aktiv" : "inaktiv",
+      outdoorScore: null,
+      contactCount: 0,
+      hasResearch: false,
+      hasDraft: false,
+      createdAt: f.createdAt,
+      updatedAt: f.updatedAt,
+    });
+  }
+
+  return out;
+}
+
+/** Survivor preference: HubSpot over staging, then the record furthest along, then the oldest. */
+function survivorRank(r: DedupeRecord): number[] {
+  const progress = Number(r.hasDraft) + Number(!!r.contactEmail) + Number(r.hasResearch);
+  const age = -(r.createdAt ? Date.parse(r.createdAt) || 0 : Number.MAX_SAFE_INTEGER);
+  return [r.kind === "hubspot" ? 1 : 0, progress, age];
+}
+
+function compareRank(a: number[], b: number[]): number {
+  for (let i = 0; i < a.length; i++) if (a[i] !== b[i]) return b[i] - a[i];
+  return 0;
+}
+
+/**
+ * Duplicate clusters: at least two mergeable (HubSpot or staged)
+ * records on the same BFE or normalized address. Frames on the same
+ * property are included for context. `unresolved` counts records
+ * whose BFE hasn't been looked up (see resolveDedupeBfes).
+ */
+export async function findDuplicateClusters(): Promise<{ clusters: DuplicateCluster[]; unresolved: number }> {
+  const [records, index] = await Promise.all([collectRecords(), listBfeIndex()]);
+
+  let unresolved = 0;
+  for (const r of records) {
+    const entry = index.get(r.ref);
+    if (entry && entry.addressKey === r.addressKey) r.bfe = entry.bfe;
+    else unresolved++;
+  }
+
+  // Records without a BFE join the BFE of a resolved record on the same address
+  const bfeByAddress = new Map<string, number>();
+  for (const r of records) if (r.bfe != null) bfeByAddress.set(r.addressKey, r.bfe);
+
+  const groups = new Map<string, DedupeRecord[]>();
+  for (const r of records) {
+    const bfe = r.bfe ?? bfeByAddress.get(r.addressKey);
+    const key = canonicalKey(r.addressKey, bfe != null ? String(bfe) : undefined);
+    groups.set(key, [...(groups.get(key) || []), r]);
+  }
+
+  const clusters: DuplicateCluster[] = [];
+  for (const [key, group] of groups) {
+    const mergeable = group.filter((r) => isMergeableKind(r.kind));
+    if (mergeable.length < 2) continue;
+    const ranked = [...mergeable].sort((a, b) => compareRank(survivorRank(a), survivorRank(b)));
+    const records = [...ranked, ...group.filter((r) => !isMergeableKind(r.kind))];
+    clusters.push({
+      key,
+      matchedBy: key.startsWith("bfe:") ? "bfe" : "address",
+      bfe: key.startsWith("bfe:") ? Number(key.slice(4)) : null,
+      records,
+      suggestedSurvivor: ranked[0].ref,
+    });
+  }
+
+  clusters.sort((a, b) => b.records.length - a.records.length || a.key.localeCompare(b.key));
+  return { clusters, unresolved };
+}
+
+/**
+ * Look up BFE numbers for records without one (or whose address
+ * changed since), at most `limit` per call so a request stays
+ * within its time budget. `force` re-resolves everything.
+ */
+export async function resolveDedupeBfes(opts: { force?: boolean; limit?: number } = {}): Promise<{
+  resolved: number;
+  remaining: number;
+}> {
+  const limit = opts.limit ?? 25;
+  const [records, index] = await Promise.all([collectRecords(), listBfeIndex()]);
+  const due = records.filter((r) => {
+    const entry = index.get(r.ref);
+    return opts.force || !entry || entry.addressKey !== r.addressKey;
+  });
+
+  const cache = createResearchSourceCache(opts.force ? ["dawa"] : []);
+  let resolved = 0;
+  for (const r of due.slice(0, limit)) {
+    try {
+      const dawa = await lookupBfeViaDawa(r.address, r.postalCode || "", r.city || undefined, cache);
+      await saveBfeIndexEntry({
+        ref: r.ref,
+        addressKey: r.addressKey,
+        bfe: dawa.bfe,
+        kommune: dawa.kommuneNavn,
+        resolvedAt: new Date().toISOString(),
+      });
+      resolved++;
+    } catch (e) {
+      logger.warn(`[dedupe] BFE lookup for ${r.ref} failed: ${e instanceof Error ? e.message : e}`, {
+        service: "dedupe",
+      });
+    }
+  }
+  return { resolved, remaining: Math.max(0, due.length - limit) };
+}
+
+/**
+ * Intake check before creating an ejendom: a HubSpot or staged
+ * record on the same BFE, else HubSpot's exact address search.
+ * The BFE is returned so the new record can be indexed right away.
+ */
+export async function findExistingProperty(
+  address: string,
+  postalCode?: string,
+  city?: string
+): Promise<{ exists: boolean; ref: string | null; bfe: number | null }> {
+  const { bfe } = await lookupBfeViaDawa(address, postalCode || "", city, createResearchSourceCache());
+  if (bfe != null) {
+    const ref = (await findRefsByBfe(bfe)).find((r) => {
+      const parsed = parsePropertyRef(r);
+      return parsed && isMergeableKind(parsed.kind);
+    });
+    if (ref) return { exists: true, ref, bfe };
+  }
+  const exists = await ejendomExistsByAddress(address);
+  return { exists, ref: null, bfe };
+}
+
+/** Index a newly created record so the next intake check finds it by BFE. */
+export async function indexProperty(ref: string, address: string, postalCode: string | null | undefined, bfe: number | null): Promise<void> {
+  await saveBfeIndexEntry({
+    ref,
+    addressKey: dedupeAddressKey(address, postalCode),
+    bfe,
+    kommune: null,
+    resolvedAt: new Date().toISOString(),
+  });
+}
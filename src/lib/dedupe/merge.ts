@@ -0,0 +1,340 @@
+// ============================================================
+// Property Dedupe – merge duplicates into one surviving record
+//
+// Empty fields on the survivor (owner, research, contact, email
+// draft) are filled from the removed records, contacts are moved
+// over, and everything keyed by the removed ids – mail threads,
+// queued mails, sequence enrollments, research logs, engagement
+// events, administrator directory refs – is pointed at the
+// survivor. The merge log and a redirect for each removed ref are
+// saved first; the removed records are deleted (staging) or archived
+// (HubSpot) last, one at a time with progress recorded, so a merge
+// that fails halfway can simply be run again.
+// ============================================================
+
+import {
+  archiveEjendom,
+  associateContactToEjendom,
+  fetchEjendomById,
+  fetchEjendomContactIds,
+  updateEjendom,
+  upsertContact,
+} from "../hubspot";
+import {
+  deleteStagedProperty,
+  getStagedProperty,
+  listStagedProperties,
+  updateStagedProperty,
+  type StagedContactEntry,
+  type StagedProperty,
+} from "../staging/store";
+import { reassignThreadProperties } from "../mail-threads";
+import { reassignQueuedEmails } from "../email-queue";
+import { reassignResearchLogs } from "../research-log-store";
+import { reassignEngagementProperty } from "../outreach/engagement-store";
+import { reassignPropertyEnrollments } from "../outreach/sequence-store";
+import { reassignAdministratorProperty } from "../research/administrator-directory";
+import { logger } from "../logger";
+import {
+  deleteBfeIndexEntries,
+  findPendingMerge,
+  listBfeIndex,
+  savePropertyMerge,
+  updatePropertyMerge,
+} from "./store";
+import { parsePropertyRef, type PropertyMerge, type PropertyMergeInput } from "./types";
+import type { Contact, Property } from "@/types";
+
+export class PropertyMergeError extends Error {
+  constructor(
+    message: string,
+    public status: number
+  ) {
+    super(message);
+    this.name = "PropertyMergeError";
+  }
+}
+
+/** A HubSpot or staged record in the shape the merge works on. */
+interface MergeRecord {
+  ref: string;
+  kind: "hubspot" | "staged";
+  id: string;
+  fields: Partial<Record<MergeField, string>>;
+  outdoorScore: number | undefined;
+  contacts: StagedContactEntry[];
+  raw: Property | StagedProperty;
+}
+
+type MergeField =
+  | "ownerName"
+  | "ownerCvr"
+  | "researchSummary"
+  | "researchLinks"
+  | "outdoorNotes"
+  | "contactPerson"
+  | "contactEmail"
+  | "contactPhone"
+  | "draftSubject"
+  | "draftBody"
+  | "draftNote";
+
+type StagedUpdate = NonNullable<Parameters<typeof updateStagedProperty>[1]>;
+
+/** Field names per store. Outdoor notes only live on HubSpot ejendomme. */
+const FIELD_NAMES: Record<MergeField, { hubspot: string; staged: keyof StagedUpdate | null }> = {
+  ownerName: { hubspot: "owner_company_name", staged: "ownerCompany" },
+  ownerCvr: { hubspot: "owner_company_cvr", staged: "ownerCvr" },
+  researchSummary: { hubspot: "research_summary", staged: "researchSummary" },
+  researchLinks: { hubspot: "research_links", staged: "researchLinks" },
+  outdoorNotes: { hubspot: "outdoor_potential_notes", staged: null },
+  contactPerson: { hubspot: "kontaktperson", staged: "contactPerson" },
+  contactEmail: { hubspot: "mailadresse", staged: "contactEmail" },
+  contactPhone: { hubspot: "telefonnummer", staged: "contactPhone" },
+  draftSubject: { hubspot: "email_draft_subject", staged: "emailDraftSubject" },
+  draftBody: { hubspot: "email_draft_body", staged: "emailDraftBody" },
+  draftNote: { hubspot: "email_draft_note", staged: "emailDraftNote" },
+};
+
+/** Fields that are only taken together, from one record. */
+const FIELD_GROUPS: MergeField[][] = [
+  ["ownerName", "ownerCvr"],
+  ["researchSummary", "researchLinks"],
+  ["outdoorNotes"],
+  ["contactEmail", "contactPerson", "contactPhone"],
+  ["draftSubject", "draftBody", "draftNote"],
+];
+
+async function loadRecord(ref: string): Promise<MergeRecord> {
+  const parsed = parsePropertyRef(ref);
+  if (parsed?.kind === "hubspot") {
+    const p = await fetchEjendomById(parsed.id).catch(() => null);
+    if (!p) throw new PropertyMergeError(`Ejendom ${ref} ikke fundet i HubSpot`, 404);
+    return {
+      ref,
+      kind: "hubspot",
+      id: p.id,
+      fields: {
+        ownerName: p.ownerCompanyName,
+        ownerCvr: p.ownerCompanyCvr,
+        researchSummary: p.researchSummary,
+        researchLinks: p.researchLinks,
+        outdoorNotes: p.outdoorPotentialNotes,
+        contactPerson: p.contactPerson,
+        contactEmail: p.contactEmail,
+        contactPhone: p.contactPhone,
+        draftSubject: p.emailDraftSubject,
+        draftBody: p.emailDraftBody,
+        draftNote: p.emailDraftNote,
+      },
+      outdoorScore: p.outdoorScore,
+      contacts: [],
+      raw: p,
+    };
+  }
+  if (parsed?.kind === "staged") {
+    const sp = await getStagedProperty(parsed.id);
+    if (!sp) throw new PropertyMergeError(`Ejendom ${ref} ikke fundet i staging`, 404);
+    return {
+      ref,
+      kind: "staged",
+      id: sp.id,
+      fields: {
+        ownerName: sp.ownerCompany,
+        ownerCvr: sp.ownerCvr,
+        researchSummary: sp.researchSummary,
+        researchLinks: sp.researchLinks,
+        contactPerson: sp.contactPerson,
+        contactEmail: sp.contactEmail,
+        contactPhone: sp.contactPhone,
+        draftSubject: sp.emailDraftSubject,
+        draftBody: sp.emailDraftBody,
+        draftNote: sp.emailDraftNote,
+      },
+      outdoorScore: sp.outdoorScore,
+      contacts: sp.contacts || [],
+      raw: sp,
+    };
+  }
+  throw new PropertyMergeError(`Ukendt ejendom: ${ref}`, 400);
+}
+
+/**
+ * Fields the survivor is missing, taken group-wise from the first
+ * removed record that has the group's lead field.
+ */
+function missingFields(survivor: MergeRecord, removed: MergeRecord[]): Partial<Record<MergeField, string>> {
+  const fill: Partial<Record<MergeField, string>> = {};
+  for (const group of FIELD_GROUPS) {
+    const lead = group[0];
+    if (survivor.fields[lead]) continue;
+    if (survivor.kind === "staged" && !FIELD_NAMES[lead].staged) continue;
+    const source = removed.find((r) => r.fields[lead]);
+    if (!source) continue;
+    for (const field of group) {
+      const value = source.fields[field];
+      if (value && !survivor.fields[field]) fill[field] = value;
+    }
+  }
+  return fill;
+}
+
+function contactKey(c: { name?: string | null; email?: string | null }): string {
+  return c.email?.trim().toLowerCase() || `name:${(c.name || "").trim().toLowerCase()}`;
+}
+
+/** HubSpot survivor: re-associate the removed ejendomme's contacts, push staged ones. */
+async function moveContactsToHubspot(survivor: MergeRecord, removed: MergeRecord[]): Promise<number> {
+  let moved = 0;
+  const seen = new Set<string>();
+  for (const r of removed) {
+    if (r.kind === "hubspot") {
+      for (const contactId of await fetchEjendomContactIds(r.id)) {
+        if (seen.has(contactId)) continue;
+        seen.add(contactId);
+        await associateContactToEjendom(contactId, survivor.id);
+        moved++;
+      }
+      continue;
+    }
+    for (const c of r.contacts) {
+      if (!c.email || c.bouncedAt || seen.has(contactKey(c))) continue;
+      seen.add(contactKey(c));
+      const contact = {
+        fullName: c.name || null,
+        email: c.email,
+        phone: c.phone || null,
+        role: c.role || "ejer",
+        source: c.source,
+        confidence: c.confidence,
+      } as Contact;
+      try {
+        // "skip": the survivor's own contact fields are only filled when empty (above)
+        const contactId = await upsertContact(contact, "skip");
+        await associateContactToEjendom(contactId, survivor.id);
+        moved++;
+      } catch (e) {
+        logger.warn(`[dedupe] could not move contact ${c.email}: ${e instanceof Error ? e.message : e}`, {
+          service: "dedupe",
+        });
+      }
+    }
+  }
+  return moved;
+}
+
+/**
+ * Merge `input.remove` into `input.survivor`. HubSpot records can
+ * only be merged into another HubSpot record – their history
+ * (associations, status log) has nowhere to go in staging. Retrying
+ * an interrupted merge of the same refs resumes it: every step up to
+ * the removal is idempotent, and records already removed are skipped.
+ */
+export async function mergeProperties(input: PropertyMergeInput): Promise<PropertyMerge> {
+  const refs = [...new Set(input.remove)];
+  const pending = await findPendingMerge(input.survivor, refs);
+  const survivor = await loadRecord(input.survivor);
+  const removed: MergeRecord[] = [];
+  for (const ref of refs) {
+    if (!pending?.doneRefs.includes(ref)) removed.push(await loadRecord(ref));
+  }
+  if (survivor.kind === "staged" && removed.some((r) => r.kind === "hubspot")) {
+    throw new PropertyMergeError("En HubSpot-ejendom kan kun flettes ind i en anden HubSpot-ejendom", 400);
+  }
+
+  let merge = pending;
+  if (!merge) {
+    const index = await listBfeIndex();
+    merge = {
+      id: `merge-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+      survivorRef: survivor.ref,
+      removedRefs: refs,
+      bfe: [survivor, ...removed].map((r) => index.get(r.ref)?.bfe).find((b) => b != null) ?? null,
+      actions: [],
+      status: "pending",
+      doneRefs: [],
+      createdAt: new Date().toISOString(),
+    };
+    await savePropertyMerge(merge, removed.map((r) => ({ ref: r.ref, record: r.raw })));
+  }
+
+  const actions: string[] = [...merge.actions];
+  const fill = missingFields(survivor, removed);
+  const scores = removed.map((r) => r.outdoorScore).filter((s): s is number => s != null);
+  const bestScore = scores.length > 0 ? Math.max(...scores) : undefined;
+  const raiseScore = bestScore != null && (survivor.outdoorScore == null || bestScore > survivor.outdoorScore);
+
+  // ── Fields + contacts onto the survivor ──
+  if (survivor.kind === "hubspot") {
+    const patch: Record<string, string> = {};
+    for (const [field, value] of Object.entries(fill)) patch[FIELD_NAMES[field as MergeField].hubspot] = value;
+    if (raiseScore) patch.outdoor_score = String(bestScore);
+    if (Object.keys(patch).length > 0) await updateEjendom(survivor.id, patch);
+    actions.push(...Object.keys(patch).map((k) => `filled:${k}`));
+
+    const contacts = await moveContactsToHubspot(survivor, removed);
+    if (contacts > 0) actions.push(`contacts:${contacts}`);
+  } else {
+    const patch: StagedUpdate = {};
+    for (const [field, value] of Object.entries(fill)) {
+      const name = FIELD_NAMES[field as MergeField].staged;
+      if (name) (patch as Record<string, unknown>)[name] = value;
+    }
+    if (raiseScore) patch.outdoorScore = bestScore;
+
+    const contacts = [...survivor.contacts];
+    const known = new Set(contacts.map(contactKey));
+    for (const c of removed.flatMap((r) => r.contacts)) {
+      if (known.has(contactKey(c))) continue;
+      known.add(contactKey(c));
+      contacts.push(c);
+    }
+    if (contacts.length > survivor.contacts.length) {
+      patch.contacts = JSON.stringify(contacts);
+      actions.push(`contacts:${contacts.length - survivor.contacts.length}`);
+    }
+    if (Object.keys(patch).length > 0) await updateStagedProperty(survivor.id, patch);
+    actions.push(...Object.keys(patch).filter((k) => k !== "contacts").map((k) => `filled:${k}`));
+  }
+
+  // ── Everything keyed by the removed ids ──
+  for (const r of removed) {
+    const counts: [string, number][] = [
+      ["threads", await reassignThreadProperties(r.id, survivor.id)],
+      ["queued_emails", await reassignQueuedEmails(r.id, survivor.id)],
+      ["sequence_enrollments", await reassignPropertyEnrollments(r.id, survivor.id)],
+      ["research_logs", await reassignResearchLogs(r.id, survivor.id)],
+      ["engagement", await reassignEngagementProperty(r.id, survivor.id)],
+      ["administrators", await reassignAdministratorProperty(r.ref, survivor.ref)],
+    ];
+    for (const [what, n] of counts) if (n > 0) actions.push(`${what}:${n}`);
+  }
+
+  // Staged rows that were pushed to a removed ejendom now point at the survivor
+  const removedHubspotIds = new Set(removed.filter((r) => r.kind === "hubspot").map((r) => r.id));
+  if (survivor.kind === "hubspot" && removedHubspotIds.size > 0) {
+    const linked = (await listStagedProperties()).filter((sp) => sp.hubspotId && removedHubspotIds.has(sp.hubspotId));
+    for (const sp of linked) await updateStagedProperty(sp.id, { hubspotId: survivor.id });
+    if (linked.length > 0) actions.push(`staged_links:${linked.length}`);
+  }
+
+  merge = { ...merge, actions: [...new Set(actions)] };
+  await updatePropertyMerge(merge);
+
+  // ── Remove the duplicates (last – nothing after this can lose data) ──
+  for (const r of removed) {
+    if (r.kind === "hubspot") await archiveEjendom(r.id);
+    else await deleteStagedProperty(r.id);
+    merge = { ...merge, doneRefs: [...merge.doneRefs, r.ref] };
+    await updatePropertyMerge(merge);
+  }
+
+  merge = { ...merge, status: "completed" };
+  await updatePropertyMerge(merge);
+  await deleteBfeIndexEntries(merge.removedRefs);
+
+  logger.info(`[dedupe] merged ${merge.removedRefs.join(", ")} into ${merge.survivorRef} (${merge.actions.join(", ") || "no changes"})`, {
+    service: "dedupe",
+  });
+  return merge;
+}
@@ -0,0 +1,219 @@
+// ============================================================
+// Property Dedupe – persistence
+//
+// property_bfe_index: BFE per record ref (from DAWA)
+// property_merges:    one row per merge, with a snapshot of the
+//                     removed records
+// property_redirects: removed ref → surviving ref
+// In-memory fallback for local dev.
+// ============================================================
+
+import { supabase, HAS_SUPABASE } from "../supabase";
+import { logger } from "../logger";
+import type { PropertyMerge, PropertyRedirect } from "./types";
+
+export interface BfeIndexEntry {
+  ref: string;
+  addressKey: string;
+  bfe: number | null;
+  kommune: string | null;
+  resolvedAt: string;
+}
+
+/** Redirect chains longer than this are treated as broken. */
+const MAX_REDIRECT_HOPS = 10;
+
+// ── In-memory fallback (used when Supabase is unavailable) ──
+
+const memIndex = new Map<string, BfeIndexEntry>();
+const memMerges: (PropertyMerge & { snapshot: unknown[] })[] = [];
+const memRedirects = new Map<string, PropertyRedirect>();
+
+// ── BFE index ───────────────────────────────────────────────
+
+export async function listBfeIndex(): Promise<Map<string, BfeIndexEntry>> {
+  if (!HAS_SUPABASE || !supabase) return new Map(memIndex);
+  const out = new Map<string, BfeIndexEntry>();
+  const { data, error } = await supabase.from("property_bfe_index").select("*").limit(10000);
+  if (error) {
+    logger.error(`[dedupe] index list error: ${error.message}`);
+    return out;
+  }
+  for (const row of data || []) {
+    out.set(String(row.record_ref), {
+      ref: String(row.record_ref),
+      addressKey: String(row.address_key),
+      bfe: row.bfe != null ? Number(row.bfe) : null,
+      kommune: row.kommune ? String(row.kommune) : null,
+      resolvedAt: String(row.resolved_at),
+    });
+  }
+  return out;
+}
+
+export async function saveBfeIndexEntry(entry: BfeIndexEntry): Promise<void> {
+  if (!HAS_SUPABASE || !supabase) {
+    memIndex.set(entry.ref, entry);
+    return;
+  }
+  const { error } = await supabase.from("property_bfe_index").upsert(
+    {
+      record_ref: entry.ref,
+      address_key: entry.addressKey,
+      bfe: entry.bfe,
+      kommune: entry.kommune,
+      resolved_at: entry.resolvedAt,
+    },
+    { onConflict: "record_ref" }
+  );
+  if (error) logger.warn(`[dedupe] index save ${entry.ref} error: ${error.message}`, { service: "dedupe" });
+}
+
+/** Refs indexed under the given BFE. */
+export async function findRefsByBfe(bfe: number): Promise<string[]> {
+  if (!HAS_SUPABASE || !supabase) {
+    return [...memIndex.values()].filter((e) => e.bfe === bfe).map((e) => e.ref);
+  }
+  const { data, error } = await supabase.from("property_bfe_index").select("record_ref").eq("bfe", bfe);
+  if (error) {
+    logger.warn(`[dedupe] index lookup error: ${error.message}`, { service: "dedupe" });
+    return [];
+  }
+  return (data || []).map((r) => String(r.record_ref));
+}
+
+export async function deleteBfeIndexEntries(refs: string[]): Promise<void> {
+  if (refs.length === 0) return;
+  if (!HAS_SUPABASE || !supabase) {
+    for (const ref of refs) memIndex.delete(ref);
+    return;
+  }
+  const { error } = await supabase.from("property_bfe_index").delete().in("record_ref", refs);
+  if (error) logger.warn(`[dedupe] index delete error: ${error.message}`, { service: "dedupe" });
+}
+
+// ── Merges & redirects ──────────────────────────────────────
+
+function rowToMerge(row: Record<string, unknown>): PropertyMerge {
+  return {
+    id: String(row.id),
+    survivorRef: String(row.survivor_ref),
+    removedRefs: Array.isArray(row.removed_refs) ? (row.removed_refs as string[]) : [],
+    bfe: row.bfe != null ? Number(row.bfe) : null,
+    actions: Array.isArray(row.actions) ? (row.actions as string[]) : [],
+    status: row.status === "completed" ? "completed" : "pending",
+    doneRefs: Array.isArray(row.done_refs) ? (row.done_refs as string[]) : [],
+    createdAt: String(row.created_at || new Date().toISOString()),
+  };
+}
+
+/**
+ * Store a merge and point every removed ref at the survivor. Called
+ * before anything is removed, so a failed merge still has its log,
+ * snapshot and redirects.
+ */
+export async function savePropertyMerge(merge: PropertyMerge, snapshot: unknown[]): Promise<void> {
+  const redirects: PropertyRedirect[] = merge.removedRefs.map((fromRef) => ({
+    fromRef,
+    toRef: merge.survivorRef,
+    mergeId: merge.id,
+    createdAt: merge.createdAt,
+  }));
+
+  if (!HAS_SUPABASE || !supabase) {
+    memMerges.unshift({ ...merge, snapshot });
+    for (const r of redirects) memRedirects.set(r.fromRef, r);
+    return;
+  }
+
+  const { error } = await supabase.from("property_merges").insert({
+    id: merge.id,
+    survivor_ref: merge.survivorRef,
+    removed_refs: merge.removedRefs,
+    bfe: merge.bfe,
+    actions: merge.actions,
+    status: merge.status,
+    done_refs: merge.doneRefs,
+    snapshot,
+    created_at: merge.createdAt,
+  });
+  if (error) throw new Error(`Kunne ikke gemme fletning: ${error.message}`);
+
+  const { error: redirectError } = await supabase.from("property_redirects").upsert(
+    redirects.map((r) => ({ from_ref: r.fromRef, to_ref: r.toRef, merge_id: r.mergeId, created_at: r.createdAt })),
+    { onConflict: "from_ref" }
+  );
+  if (redirectError) throw new Error(`Kunne ikke gemme henvisninger: ${redirectError.message}`);
+}
+
+/** Record progress (actions, removed refs, status) of a stored merge. */
+export async function updatePropertyMerge(merge: PropertyMerge): Promise<void> {
+  if (!HAS_SUPABASE || !supabase) {
+    const i = memMerges.findIndex((m) => m.id === merge.id);
+    if (i >= 0) memMerges[i] = { ...memMerges[i], ...merge };
+    return;
+  }
+  const { error } = await supabase
+    .from("property_merges")
+    .update({ actions: merge.actions, status: merge.status, done_refs: merge.doneRefs })
+    .eq("id", merge.id);
+  if (error) throw new Error(`Kunne ikke gemme fletningens fremdrift: ${error.message}`);
+}
+
+/** An unfinished merge of exactly these refs, to resume instead of starting over. */
+export async function findPendingMerge(survivorRef: string, removedRefs: string[]): Promise<PropertyMerge | null> {
+  const sameRefs = (m: PropertyMerge) =>
+    m.removedRefs.length === removedRefs.length && removedRefs.every((r) => m.removedRefs.includes(r));
+  if (!HAS_SUPABASE || !supabase) {
+    return memMerges.find((m) => m.status === "pending" && m.survivorRef === survivorRef && sameRefs(m)) || null;
+  }
+  const { data, error } = await supabase
+    .from("property_merges")
+    .select("id, survivor_ref, removed_refs, bfe, actions, status, done_refs, created_at")
+    .eq("survivor_ref", survivorRef)
+    .eq("status", "pending")
+    .order("created_at", { ascending: false });
+  if (error) throw new Error(`Kunne ikke slå afbrudte fletninger op: ${error.message}`);
+  return (data || []).map((r) => rowToMerge(r as Record<string, unknown>)).find(sameRefs) || null;
+}
+
+export async function listPropertyMerges(limit = 20): Promise<PropertyMerge[]> {
+  if (!HAS_SUPABASE || !supabase) return memMerges.slice(0, limit);
+  const { data, error } = await supabase
+    .from("property_merges")
+    .select("id, survivor_ref, removed_refs, bfe, actions, status, done_refs, created_at")
+    .order("created_at", { ascending: false })
+    .limit(limit);
+  if (error) {
+    logger.error(`[dedupe] merges list error: ${error.message}`);
+    return [];
+  }
+  return (data || []).map((r) => rowToMerge(r as Record<string, unknown>));
+}
+
+async function getRedirect(fromRef: string): Promise<PropertyRedirect | null> {
+  if (!HAS_SUPABASE || !supabase) return memRedirects.get(fromRef) || null;
+  const { data, error } = await supabase.from("property_redirects").select("*").eq("from_ref", fromRef).maybeSingle();
+  if (error) {
+    logger.warn(`[dedupe] redirect lookup error: ${error.message}`, { service: "dedupe" });
+    return null;
+  }
+  return data
+    ? { fromRef: data.from_ref, toRef: data.to_ref, mergeId: data.merge_id, createdAt: data.created_at }
+    : null;
+}
+
+/**
+ * Follow redirects from a (possibly merged-away) ref to the record
+ * that holds it now. Unmerged refs come back unchanged.
+ */
+export async function resolvePropertyRef(ref: string): Promise<string> {
+  let current = ref;
+  for (let hop = 0; hop < MAX_REDIRECT_HOPS; hop++) {
+    const redirect = await getRedirect(current);
+    if (!redirect) return current;
+    current = redirect.toRef;
+  }
+  logger.warn(`[dedupe] redirect chain from ${ref} too long`, { service: "dedupe" });
+  return current;
+}
@@ -0,0 +1,91 @@
+// ============================================================
+// Property Dedupe – shared types (client-safe)
+// ============================================================
+
+import { z } from "zod";
+
+/** Where a property record lives. Frames are shown in clusters but never merged. */
+export type DedupeRecordKind = "hubspot" | "staged" | "frame";
+
+export const DEDUPE_KIND_LABELS: Record<DedupeRecordKind, string> = {
+  hubspot: "HubSpot",
+  staged: "Staging",
+  frame: "OOH-ramme",
+};
+
+export function isMergeableKind(kind: DedupeRecordKind): kind is "hubspot" | "staged" {
+  return kind === "hubspot" || kind === "staged";
+}
+
+/** "hubspot:123" → { kind, id }, or null for an unknown prefix. */
+export function parsePropertyRef(ref: string): { kind: DedupeRecordKind; id: string } | null {
+  const i = ref.indexOf(":");
+  const kind = ref.slice(0, i) as DedupeRecordKind;
+  const id = ref.slice(i + 1);
+  return i > 0 && id && kind in DEDUPE_KIND_LABELS ? { kind, id } : null;
+}
+
+/** One record from any store, flattened for side-by-side comparison. */
+export interface DedupeRecord {
+  ref: string;
+  kind: DedupeRecordKind;
+  id: string;
+  name: string;
+  address: string;
+  postalCode: string | null;
+  city: string | null;
+  addressKey: string;
+  bfe: number | null;
+  status: string | null;
+  outdoorScore: number | null;
+  ownerName: string | null;
+  ownerCvr: string | null;
+  contactPerson: string | null;
+  contactEmail: string | null;
+  contactCount: number;
+  hasResearch: boolean;
+  hasDraft: boolean;
+  createdAt: string | null;
+  updatedAt: string | null;
+}
+
+export interface DuplicateCluster {
+  /** bfe:123 or addr:… */
+  key: string;
+  matchedBy: "bfe" | "address";
+  bfe: number | null;
+  records: DedupeRecord[];
+  /** Ref of the record suggested to survive (HubSpot first, then most progressed). */
+  suggestedSurvivor: string;
+}
+
+export interface PropertyMerge {
+  id: string;
+  survivorRef: string;
+  removedRefs: string[];
+  bfe: number | null;
+  /** What was moved or filled in, e.g. "threads:2", "filled:research_summary". */
+  actions: string[];
+  /** "pending" until every removed record is gone; a pending merge is resumed on retry. */
+  status: "pending" | "completed";
+  /** Removed refs already archived/deleted. */
+  doneRefs: string[];
+  createdAt: string;
+}
+
+export interface PropertyRedirect {
+  fromRef: string;
+  toRef: string;
+  mergeId: string;
+  createdAt: string;
+}
+
+const mergeableRef = z.string().regex(/^(hubspot|staged):.+/, "Kun HubSpot- og staging-ejendomme kan flettes");
+
+export const propertyMergeInputSchema = z
+  .object({
+    survivor: mergeableRef,
+    remove: z.array(mergeableRef).min(1, "Vælg mindst én ejendom at fjerne").max(20),
+  })
+  .refine((d) => !d.remove.includes(d.survivor), "Den overlevende ejendom kan ikke også fjernes");
+export type PropertyMergeInput = z.infer<typeof propertyMergeInputSchema>;
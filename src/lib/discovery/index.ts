@@ -11,7 +11,7 @@ import { scanArea } from "./area-scanner";
 import { scoreForOutdoorPotential } from "./scoring";
 import { estimateStreetTraffic, formatTraffic } from "./traffic";
 import { insertStagedProperty, stagedExistsByAddress } from "../staging/store";
-import { ejendomExistsByAddress } from "../hubspot";
+import { findExistingProperty, indexProperty } from "../dedupe/clusters";
 import { logger } from "../logger";
 import type { DiscoveryResult, ScoredCandidate } from "@/types";
 
@@ -19,6 +19,9 @@ import type { DiscoveryResult, ScoredCandidate } from "@/types";
 const recentDiscoveries: DiscoveryResult[] = [];
 const MAX_STORED = 20;
 
+/** Duplicate check result when the BFE lookup fails – fall back to the staging check alone. */
+const NOT_FOUND = { exists: false, ref: null, bfe: null };
+
 /** Progress event sent during discovery */
 export interface DiscoveryProgress {
   phase: string;
@@ -232,12 +235,13 @@ export async function discoverStreet(
 
         const candidate = qualified[i];
         try {
-          // Check both staging and HubSpot for duplicates
-          const [existsInStaging, existsInHubSpot] = await Promise.all([
+          // Check both staging and HubSpot for duplicates (by BFE, else address)
+          const [existsInStaging, existing] = await Promise.all([
             stagedExistsByAddress(candidate.address),
-            ejendomExistsByAddress(candidate.address).catch(() => false),
+            findExistingProperty(candidate.address, candidate.postalCode, candidate.city).catch(() => NOT_FOUND),
           ]);
-          if (existsInStaging || existsInHubSpot) {
+          const existsInHubSpot = existing.exists && !existing.ref?.startsWith("staged:");
+          if (existsInStaging || existing.exists) {
             result.alreadyExists++;
             emit({
               phase: "dedup_skip",
@@ -247,7 +251,7 @@ export async function discoverStreet(
             continue;
           }
 
-          await insertStagedProperty({
+          const staged = await insertStagedProperty({
             name: candidate.address,
             address: candidate.address,
             postalCode: candidate.postalCode,
@@ -257,6 +261,7 @@ export async function discoverStreet(
             dailyTraffic: trafficEstimate.estimatedDailyTraffic,
             source: "discovery",
           });
+          await indexProperty(`staged:${staged.id}`, staged.address, staged.postalCode, existing.bfe);
 
           result.created++;
           emit({
@@ -470,11 +475,11 @@ export async function discoverArea(
 
         const candidate = qualified[i];
         try {
-          const [existsInStaging, existsInHubSpot] = await Promise.all([
+          const [existsInStaging, existing] = await Promise.all([
             stagedExistsByAddress(candidate.address),
-            ejendomExistsByAddress(candidate.address).catch(() => false),
+            findExistingProperty(candidate.address, candidate.postalCode, candidate.city).catch(() => NOT_FOUND),
           ]);
-          if (existsInStaging || existsInHubSpot) {
+          if (existsInStaging || existing.exists) {
             result.alreadyExists++;
             emit({
               phase: "dedup_skip",
@@ -485,7 +490,7 @@ export async function discoverArea(
           }
 
           const trafficVal = candidate.estimatedDailyTraffic ?? 0;
-          await insertStagedProperty({
+          const staged = await insertStagedProperty({
             name: candidate.address,
             address: candidate.address,
             postalCode: candidate.postalCode,
@@ -495,6 +500,7 @@ export async function discoverArea(
             dailyTraffic: trafficVal,
             source: "discovery",
           });
+          await indexProperty(`staged:${staged.id}`, staged.address, staged.postalCode, existing.bfe);
 
           result.created++;
           emit({
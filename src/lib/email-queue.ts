@@ -1,16 +1,34 @@
 // ============================================================
-// Email Queue – Rate-limited email sending (200/hour default)
+// Email Queue – Rate-limited email sending (200/hour ceiling)
 // Persisted in Supabase (with in-memory fallback if unconfigured)
+// Sends only inside the send window, spread over the Gmail
+// accounts within their daily (warmup) caps – see send-schedule.
 // ============================================================
 
-import { sendEmail, type SendEmailResult } from "./email-sender";
-import { fetchEjendomById, updateEjendom } from "./hubspot";
+import { sendEmail, type SendEmailOptions, type SendEmailResult } from "./email-sender";
+import { fetchEjendomById } from "./hubspot";
+import { transitionProperty, type TransitionTrigger } from "./outreach/transition";
+import { checkRecipient, suppressionMessage } from "./outreach/suppression-store";
+import { handleSequenceSendCancelled, handleSequenceSendResult } from "./outreach/sequence-progress";
+import { applyVariant, assignVariant, recordVariantSend } from "./outreach/experiments";
+import { recordEngagement } from "./outreach/engagement-store";
+import {
+  loadMailboxStatus,
+  pickMailbox,
+  recordMailboxSend,
+  isInSendWindow,
+  type MailboxStatus,
+  type SendSlot,
+  type SendWindow,
+} from "./outreach/send-schedule";
 import { recordThreadProperty } from "./mail-threads";
 import { config } from "./config";
 import { logger } from "./logger";
 import { supabase, HAS_SUPABASE } from "./supabase";
 import { isValidEmail } from "./validation";
 
+const QUEUE_TRIGGER: TransitionTrigger = { actor: "system", source: "email-queue" };
+
 // ── Queue types ──────────────────────────────────────────
 
 export interface QueuedEmail {
@@ -21,12 +39,18 @@ export interface QueuedEmail {
   body: string;
   contactName?: string;
   attachments?: { filename: string; mimeType: string; content: string }[];
-  status: "queued" | "sending" | "sent" | "failed";
+  status: "queued" | "sending" | "sent" | "failed" | "bounced";
   queuedAt: string;
   sentAt?: string;
   error?: string;
   messageId?: string;
   retries: number;
+  /** Set for sequence steps: the step-send record that owns this mail. */
+  sequenceSendId?: string;
+  /** Mailbox it went out from – or is pinned to while queued (sequence follow-ups). */
+  fromAccount?: string;
+  /** A/B experiment assignment the mail was written for (first mails only). */
+  experimentAssignmentId?: string;
 }
 
 export interface QueueStats {
@@ -39,6 +63,8 @@ export interface QueueStats {
   isProcessing: boolean;
   lastSentAt?: string;
   sentThisHour: number;
+  inSendWindow: boolean;
+  mailboxes: MailboxStatus[];
 }
 
 // ── In-memory fallback (used when Supabase is unavailable) ──
@@ -65,6 +91,9 @@ async function dbUpsert(email: QueuedEmail): Promise<void> {
     error: email.error || null,
     message_id: email.messageId || null,
     retries: email.retries,
+    sequence_send_id: email.sequenceSendId || null,
+    from_account: email.fromAccount || null,
+    experiment_assignment_id: email.experimentAssignmentId || null,
   };
   const { error } = await supabase.from("email_queue").upsert(row, { onConflict: "id" });
   if (error) logger.warn(`email_queue upsert failed: ${error.message}`, { service: "email-queue" });
@@ -90,7 +119,7 @@ async function dbFetchRecent(limit = 50): Promise<QueuedEmail[]> {
   const { data, error } = await supabase
     .from("email_queue")
     .select("*")
-    .in("status", ["sent", "failed"])
+    .in("status", ["sent", "failed", "bounced"])
     .order("queued_at", { ascending: false })
     .limit(limit);
   if (error) return [];
@@ -132,6 +161,9 @@ function mapRow(row: Record<string, unknown>): QueuedEmail {
     error: row.error ? String(row.error) : undefined,
     messageId: row.message_id ? String(row.message_id) : undefined,
     retries: Number(row.retries) || 0,
+    sequenceSendId: row.sequence_send_id ? String(row.sequence_send_id) : undefined,
+    fromAccount: row.from_account ? String(row.from_account) : undefined,
+    experimentAssignmentId: row.experiment_assignment_id ? String(row.experiment_assignment_id) : undefined,
   };
 }
 
@@ -169,6 +201,11 @@ async function ensureBooted(): Promise<void> {
 
 // ── Public API ───────────────────────────────────────────
 
+/**
+ * Queue the first email for a property. Only called on a user's send
+ * or approve click, which counts as approval – automatic sends go
+ * through the sequence runner, which checks the autonomy level.
+ */
 export async function enqueueEmail(
   propertyId: string,
   options?: {
@@ -182,6 +219,7 @@ export async function enqueueEmail(
   position?: number;
   error?: string;
   queueId?: string;
+  suppressed?: boolean;
 }> {
   await ensureBooted();
   try {
@@ -197,6 +235,10 @@ export async function enqueueEmail(
     if (!property.emailDraftSubject || !property.emailDraftBody) {
       return { success: false, error: "Intet email-udkast på ejendommen" };
     }
+    const suppression = await checkRecipient(recipientEmail, { source: "email-queue", refId: propertyId });
+    if (suppression) {
+      return { success: false, suppressed: true, error: suppressionMessage(suppression) };
+    }
     if (property.outreachStatus !== "KLAR_TIL_UDSENDELSE") {
       return { success: false, error: `Forkert status: ${property.outreachStatus} (skal være KLAR_TIL_UDSENDELSE)` };
     }
@@ -217,12 +259,23 @@ export async function enqueueEmail(
       return { success: true, position: 1, queueId: String(existing.id) };
     }
 
-    const subject = (options?.subject?.trim() || property.emailDraftSubject) ?? "";
-    const body = (options?.body != null ? options.body : property.emailDraftBody) ?? "";
+    const queueId = `eq_${Date.now()}_${Math.random().toString(36).substring(2, 8)}`;
+    let subject = (options?.subject?.trim() || property.emailDraftSubject) ?? "";
+    let body = (options?.body != null ? options.body : property.emailDraftBody) ?? "";
     const to = (options?.to?.trim() || property.contactEmail) ?? "";
 
+    const ab = await assignVariant("property", to, queueId);
+    if (ab) {
+      ({ subject, body } = applyVariant(ab.variant, { subject, body }, {
+        name: property.contactPerson || "",
+        company: property.ownerCompanyName || property.companyName || "",
+        address: property.address,
+        city: property.city,
+      }));
+    }
+
     const queuedEmail: QueuedEmail = {
-      id: `eq_${Date.now()}_${Math.random().toString(36).substring(2, 8)}`,
+      id: queueId,
       propertyId,
       to,
       subject,
@@ -232,6 +285,7 @@ export async function enqueueEmail(
       status: "queued",
       queuedAt: new Date().toISOString(),
       retries: 0,
+      experimentAssignmentId: ab?.assignmentId,
     };
 
     if (HAS_SUPABASE) {
@@ -254,6 +308,57 @@ export async function enqueueEmail(
   }
 }
 
+/**
+ * Queue a sequence step. The sequence runner has already rendered the
+ * mail and checked the recipient and the autonomy level; status changes
+ * and scheduling of the next step happen in handleSequenceSendResult
+ * once it is sent.
+ */
+export async function enqueueSequenceEmail(email: {
+  refId: string;
+  to: string;
+  subject: string;
+  body: string;
+  contactName?: string;
+  sequenceSendId: string;
+  fromAccount?: string;
+}): Promise<string> {
+  await ensureBooted();
+  // One queue item per step send – a retried cron run must not queue the step twice
+  const existing = HAS_SUPABASE
+    ? await (async () => {
+        const { data } = await supabase!
+          .from("email_queue")
+          .select("id")
+          .eq("sequence_send_id", email.sequenceSendId)
+          .limit(1);
+        return data?.[0];
+      })()
+    : [...memQueue, ...memHistory].find((q) => q.sequenceSendId === email.sequenceSendId);
+  if (existing) return String(existing.id);
+
+  const queuedEmail: QueuedEmail = {
+    id: `eq_${Date.now()}_${Math.random().toString(36).substring(2, 8)}`,
+    propertyId: email.refId,
+    to: email.to,
+    subject: email.subject,
+    body: email.body,
+    contactName: email.contactName,
+    status: "queued",
+    queuedAt: new Date().toISOString(),
+    retries: 0,
+    sequenceSendId: email.sequenceSendId,
+    fromAccount: email.fromAccount,
+  };
+  if (HAS_SUPABASE) {
+    await dbUpsert(queuedEmail);
+  } else {
+    memQueue.push(queuedEmail);
+  }
+  startProcessing();
+  return queuedEmail.id;
+}
+
 export async function enqueueBatch(propertyIds: string[]): Promise<{
   enqueued: number;
   failed: number;
@@ -280,6 +385,7 @@ export async function getQueueStats(): Promise<QueueStats> {
   resetHourlyCounterIfNeeded();
 
   const counts = await dbCountByStatus();
+  const { window, mailboxes } = await loadMailboxStatus();
   const lastSent = HAS_SUPABASE
     ? await (async () => {
         const { data } = await supabase!
@@ -299,6 +405,8 @@ export async function getQueueStats(): Promise<QueueStats> {
     isProcessing,
     lastSentAt: lastSent,
     sentThisHour: hourlyCounter,
+    inSendWindow: isInSendWindow(new Date(), window),
+    mailboxes,
   };
 }
 
@@ -316,24 +424,94 @@ export async function getQueueItems(): Promise<QueuedEmail[]> {
   );
 }
 
-export function cancelQueuedEmail(queueId: string): boolean {
+/** Remove a queued mail. A cancelled sequence step also stops its enrollment. */
+export async function cancelQueuedEmail(queueId: string): Promise<boolean> {
+  let sequenceSendId: string | undefined;
   if (HAS_SUPABASE) {
-    supabase!
+    const { data, error } = await supabase!
       .from("email_queue")
       .delete()
       .eq("id", queueId)
       .eq("status", "queued")
-      .then(({ error }) => {
-        if (error) logger.warn(`email_queue cancel failed: ${error.message}`, { service: "email-queue" });
-      });
-    return true;
+      .select("sequence_send_id");
+    if (error) {
+      logger.warn(`email_queue cancel failed: ${error.message}`, { service: "email-queue" });
+      return false;
+    }
+    if (!data?.length) return false;
+    sequenceSendId = data[0].sequence_send_id ? String(data[0].sequence_send_id) : undefined;
+  } else {
+    const idx = memQueue.findIndex((q) => q.id === queueId && q.status === "queued");
+    if (idx < 0) return false;
+    sequenceSendId = memQueue.splice(idx, 1)[0].sequenceSendId;
   }
-  const idx = memQueue.findIndex((q) => q.id === queueId && q.status === "queued");
-  if (idx >= 0) {
-    memQueue.splice(idx, 1);
-    return true;
+  if (sequenceSendId) {
+    await handleSequenceSendCancelled(sequenceSendId).catch((e) =>
+      logger.warn(`Sekvens-trin ${sequenceSendId} kunne ikke stoppes efter annullering: ${e instanceof Error ? e.message : e}`, {
+        service: "email-queue",
+      })
+    );
   }
-  return false;
+  return true;
+}
+
+/** Move every queue item of a property to another (property merge). Returns the number moved. */
+export async function reassignQueuedEmails(fromPropertyId: string, toPropertyId: string): Promise<number> {
+  if (!HAS_SUPABASE || !supabase) {
+    const items = [...memQueue, ...memHistory].filter((q) => q.propertyId === fromPropertyId);
+    for (const q of items) q.propertyId = toPropertyId;
+    return items.length;
+  }
+  const { data, error } = await supabase
+    .from("email_queue")
+    .update({ property_id: toPropertyId })
+    .eq("property_id", fromPropertyId)
+    .select("id");
+  if (error) {
+    logger.warn(`email_queue reassign failed: ${error.message}`, { service: "email-queue" });
+    return 0;
+  }
+  return data?.length || 0;
+}
+
+/**
+ * The sent mail a bounce refers to: by Gmail message id (the notice
+ * is threaded with the original), else the latest mail to `recipient`.
+ */
+export async function findSentQueueItem(match: { messageIds: string[]; recipient?: string | null }): Promise<QueuedEmail | null> {
+  await ensureBooted();
+  const recipient = match.recipient?.toLowerCase();
+  if (!HAS_SUPABASE) {
+    const sent = memHistory.filter((q) => q.status === "sent");
+    return (
+      sent.find((q) => q.messageId && match.messageIds.includes(q.messageId)) ||
+      (recipient ? [...sent].reverse().find((q) => q.to.toLowerCase() === recipient) : undefined) ||
+      null
+    );
+  }
+  if (match.messageIds.length > 0) {
+    const { data } = await supabase!
+      .from("email_queue")
+      .select("*")
+      .in("message_id", match.messageIds)
+      .limit(1);
+    if (data?.[0]) return mapRow(data[0]);
+  }
+  if (!recipient) return null;
+  const { data } = await supabase!
+    .from("email_queue")
+    .select("*")
+    .ilike("recipient", recipient)
+    .eq("status", "sent")
+    .order("sent_at", { ascending: false })
+    .limit(1);
+  return data?.[0] ? mapRow(data[0]) : null;
+}
+
+export async function markQueueItemBounced(item: QueuedEmail, error: string): Promise<void> {
+  item.status = "bounced";
+  item.error = error;
+  if (HAS_SUPABASE) await dbUpsert(item);
 }
 
 // ── Background processing ────────────────────────────────
@@ -357,94 +535,201 @@ function scheduleNext() {
     logger.info(`Rate limit reached (${hourlyCounter}/${rateLimit}). Waiting ${Math.round(waitMs / 1000)}s.`, {
       service: "email-queue",
     });
-    processTimeout = setTimeout(() => processNext(), waitMs);
+    processTimeout = setTimeout(runNext, waitMs);
     return;
   }
 
-  processTimeout = setTimeout(() => processNext(), delayMs);
+  processTimeout = setTimeout(runNext, delayMs);
 }
 
-async function getNextPending(): Promise<QueuedEmail | undefined> {
+async function getPendingItems(limit: number): Promise<QueuedEmail[]> {
   if (HAS_SUPABASE) {
     const { data } = await supabase!
       .from("email_queue")
       .select("*")
       .eq("status", "queued")
       .order("queued_at", { ascending: true })
-      .limit(1);
-    return data?.[0] ? mapRow(data[0]) : undefined;
+      .limit(limit);
+    return (data || []).map(mapRow);
   }
-  return memQueue.find((q) => q.status === "queued");
+  return memQueue.filter((q) => q.status === "queued").slice(0, limit);
+}
+
+/**
+ * Oldest item that can go out now, with its mailbox – or when to try
+ * again. Items pinned to a busy mailbox are passed over.
+ */
+function pickSendable(
+  pending: QueuedEmail[],
+  window: SendWindow,
+  mailboxes: MailboxStatus[],
+  now: Date
+): { item: QueuedEmail; slot: Extract<SendSlot, { ok: true }> } | Extract<SendSlot, { ok: false }> | null {
+  let wait: Extract<SendSlot, { ok: false }> | null = null;
+  for (const item of pending) {
+    const slot = pickMailbox(window, mailboxes, now, item.fromAccount);
+    if (slot.ok) return { item, slot };
+    if (!wait || slot.waitUntil < wait.waitUntil) wait = slot;
+  }
+  return wait;
 }
 
 const MAX_RETRIES = 3;
 const BACKOFF_MINUTES = [1, 5, 15];
 
-async function processNext() {
-  const item = await getNextPending();
-  if (!item) {
-    isProcessing = false;
-    return;
+function sendOptions(item: QueuedEmail, fromAccount?: string): SendEmailOptions {
+  const opts: SendEmailOptions = {
+    fromAccount,
+    to: item.to,
+    subject: item.subject,
+    body: item.body,
+    contactName: item.contactName,
+    propertyId: item.propertyId,
+    attachments: item.attachments,
+    source: "email-queue",
+  };
+  // Sequence steps are tracked per step, experiment mails per assignment
+  // (opens/clicks feed the step report or the variant results)
+  const baseUrl = process.env.NEXT_PUBLIC_APP_URL || "";
+  const trackingId = item.sequenceSendId || item.experimentAssignmentId;
+  if (trackingId && baseUrl) {
+    opts.trackingPixelUrl = `${baseUrl}/api/ooh/track/open?sendId=${trackingId}`;
+    opts.sendId = trackingId;
+    opts.trackingBaseUrl = baseUrl;
   }
+  return opts;
+}
 
-  item.status = "sending";
-  await persist(item);
+/**
+ * Bookkeeping once Gmail has delivered the mail (variant, engagement,
+ * sequence, thread mapping, status). The item is already persisted as
+ * sent; an error here is logged and never sends it down the failure path.
+ */
+async function afterSent(item: QueuedEmail, result: SendEmailResult): Promise<void> {
+  try {
+    if (item.experimentAssignmentId) await recordVariantSend(item.experimentAssignmentId, { success: true, refId: item.id });
+    await recordEngagement({
+      kind: "email_sent",
+      email: item.to,
+      propertyId: item.propertyId.startsWith("ooh-contact-") ? null : item.propertyId,
+      source: item.sequenceSendId ? "sequence" : "email-queue",
+      refId: item.id,
+      summary: `Sendt: ${item.subject}`,
+      metadata: { messageId: result.messageId, threadId: result.threadId, fromAccount: item.fromAccount },
+    });
+    if (item.sequenceSendId) {
+      await handleSequenceSendResult(item.sequenceSendId, { ...result, fromAccount: item.fromAccount });
+      return;
+    }
+    if (result.threadId) recordThreadProperty(result.threadId, item.propertyId, item.fromAccount);
+    await transitionProperty(item.propertyId, "FOERSTE_MAIL_SENDT", QUEUE_TRIGGER);
+  } catch (e) {
+    logger.error(`Post-send bookkeeping failed for ${item.id} (mail was sent): ${e instanceof Error ? e.message : e}`, {
+      service: "email-queue",
+      metadata: { propertyId: item.propertyId, sequenceSendId: item.sequenceSendId },
+    });
+  }
+}
 
+/** Final failure (retries used up or recipient suppressed). Logs instead of throwing. */
+async function afterFailed(item: QueuedEmail, error: string, suppressed?: boolean): Promise<void> {
   try {
-    const result: SendEmailResult = await sendEmail({
-      to: item.to,
-      subject: item.subject,
-      body: item.body,
-      contactName: item.contactName,
-      propertyId: item.propertyId,
-      attachments: item.attachments,
+    if (item.experimentAssignmentId) await recordVariantSend(item.experimentAssignmentId, { success: false, refId: item.id });
+    if (item.sequenceSendId) {
+      await handleSequenceSendResult(item.sequenceSendId, { success: false, error, suppressed });
+      return;
+    }
+    await transitionProperty(
+      item.propertyId,
+      "FEJL",
+      { ...QUEUE_TRIGGER, note: error },
+      { research_summary: `Email-afsendelse fejlede: ${error}` }
+    );
+  } catch (e) {
+    logger.warn(`Failure bookkeeping failed for ${item.id}: ${e instanceof Error ? e.message : e}`, {
+      service: "email-queue",
     });
+  }
+}
 
-    if (result.success) {
-      item.status = "sent";
-      item.sentAt = new Date().toISOString();
-      item.messageId = result.messageId;
-      hourlyCounter++;
+/** Send one item; a thrown error (not a failed result) is a final failure. */
+async function trySend(item: QueuedEmail, fromAccount?: string): Promise<SendEmailResult | null> {
+  try {
+    return await sendEmail(sendOptions(item, fromAccount));
+  } catch (error) {
+    item.status = "failed";
+    item.error = error instanceof Error ? error.message : String(error);
+    await persist(item);
+    if (item.sequenceSendId) await afterFailed(item, item.error);
+    return null;
+  }
+}
 
-      if (result.threadId) {
-        recordThreadProperty(result.threadId, item.propertyId);
-      }
+/** Timer entry point: a queue error must not become an unhandled rejection. */
+function runNext() {
+  processNext().catch((e) => {
+    isProcessing = false;
+    logger.error(`Email queue processing stopped: ${e instanceof Error ? e.message : e}`, { service: "email-queue" });
+  });
+}
 
-      try {
-        await updateEjendom(item.propertyId, { outreach_status: "FOERSTE_MAIL_SENDT" });
-      } catch (e) {
-        logger.warn(`Failed to update HubSpot status for ${item.propertyId}: ${e}`, { service: "email-queue" });
-      }
+async function processNext() {
+  const pending = await getPendingItems(50);
+  if (pending.length === 0) {
+    isProcessing = false;
+    return;
+  }
 
-      await persist(item);
-    } else {
-      if (item.retries < MAX_RETRIES) {
-        item.retries++;
-        item.status = "queued";
-        item.error = result.error;
-        logger.warn(`Email send failed (attempt ${item.retries}/${MAX_RETRIES}), retrying in ${BACKOFF_MINUTES[item.retries - 1]}m: ${result.error}`, {
-          service: "email-queue",
-        });
-        await persist(item);
-        const backoffMs = BACKOFF_MINUTES[item.retries - 1] * 60_000;
-        processTimeout = setTimeout(() => processNext(), backoffMs);
-        return;
-      }
-      item.status = "failed";
+  const { window, mailboxes } = await loadMailboxStatus();
+  const pick = pickSendable(pending, window, mailboxes, new Date());
+  if (!pick || !("item" in pick)) {
+    const waitUntil = pick?.waitUntil.getTime() ?? Date.now() + 60_000;
+    // Re-check at least every 30 minutes (settings or caps may change meanwhile)
+    const waitMs = Math.min(Math.max(waitUntil - Date.now(), 30_000), 30 * 60_000);
+    logger.info(`${pick?.reason || "Ingen ledig postkasse"}. Venter ${Math.round(waitMs / 1000)}s.`, {
+      service: "email-queue",
+    });
+    processTimeout = setTimeout(runNext, waitMs);
+    return;
+  }
+  const { item, slot } = pick;
+
+  const pinnedAccount = item.fromAccount;
+  item.status = "sending";
+  item.fromAccount = slot.mailbox.email;
+  await persist(item);
+
+  const result = await trySend(item, slot.fromAccount);
+  if (result?.success) {
+    item.status = "sent";
+    item.sentAt = new Date().toISOString();
+    item.messageId = result.messageId;
+    hourlyCounter++;
+    await persist(item);
+
+    await recordMailboxSend(window, slot.mailbox).catch((e) =>
+      logger.warn(`Mailbox counter update failed: ${e instanceof Error ? e.message : e}`, { service: "email-queue" })
+    );
+    await afterSent(item, result);
+  } else if (result) {
+    // A suppressed recipient will not change on retry
+    if (item.retries < MAX_RETRIES && !result.suppressed) {
+      item.retries++;
+      item.status = "queued";
       item.error = result.error;
+      item.fromAccount = pinnedAccount;
+      logger.warn(`Email send failed (attempt ${item.retries}/${MAX_RETRIES}), retrying in ${BACKOFF_MINUTES[item.retries - 1]}m: ${result.error}`, {
+        service: "email-queue",
+      });
       await persist(item);
-
-      try {
-        await updateEjendom(item.propertyId, {
-          outreach_status: "FEJL",
-          research_summary: `Email-afsendelse fejlede: ${result.error}`,
-        });
-      } catch { /* ignore */ }
+      const backoffMs = BACKOFF_MINUTES[item.retries - 1] * 60_000;
+      processTimeout = setTimeout(runNext, backoffMs);
+      return;
     }
-  } catch (error) {
     item.status = "failed";
-    item.error = error instanceof Error ? error.message : String(error);
+    item.error = result.error;
     await persist(item);
+    await afterFailed(item, result.error || "Ukendt fejl", result.suppressed);
   }
 
   scheduleNext();
@@ -452,9 +737,17 @@ async function processNext() {
 
 /**
  * Process a batch of queued emails (for cron/serverless).
- * Sends up to `batchSize` emails respecting rate limits.
+ * Sends up to `batchSize` emails within the hourly ceiling, the send
+ * window and the mailboxes' daily caps and spacing; the rest waits
+ * for a later run.
  */
-export async function processQueueBatch(batchSize = 20): Promise<{ sent: number; failed: number; skipped: number }> {
+export async function processQueueBatch(batchSize = 20): Promise<{
+  sent: number;
+  failed: number;
+  skipped: number;
+  waitingUntil?: string;
+  waitReason?: string;
+}> {
   await ensureBooted();
   resetHourlyCounterIfNeeded();
 
@@ -466,71 +759,71 @@ export async function processQueueBatch(batchSize = 20): Promise<{ sent: number;
     return { sent: 0, failed: 0, skipped: 0 };
   }
 
-  const pending = HAS_SUPABASE
-    ? await (async () => {
-        const { data } = await supabase!
-          .from("email_queue")
-          .select("*")
-          .eq("status", "queued")
-          .order("queued_at", { ascending: true })
-          .limit(limit);
-        return (data || []).map(mapRow);
-      })()
-    : memQueue.filter(q => q.status === "queued").slice(0, limit);
+  const pending = await getPendingItems(Math.max(limit, 50));
+  const { window, mailboxes } = await loadMailboxStatus();
 
-  let sent = 0, failed = 0;
+  let sent = 0, failed = 0, attempts = 0;
+  let waiting: { waitUntil: Date; reason: string } | null = null;
 
-  for (const item of pending) {
+  while (attempts < limit) {
     resetHourlyCounterIfNeeded();
     if (hourlyCounter >= rateLimit) break;
 
+    const pick = pickSendable(pending, window, mailboxes, new Date());
+    if (!pick || !("item" in pick)) {
+      waiting = pick;
+      break;
+    }
+    const { item, slot } = pick;
+    pending.splice(pending.indexOf(item), 1);
+    attempts++;
+
+    const pinnedAccount = item.fromAccount;
     item.status = "sending";
+    item.fromAccount = slot.mailbox.email;
     await persist(item);
 
-    try {
-      const result = await sendEmail({
-        to: item.to,
-        subject: item.subject,
-        body: item.body,
-        contactName: item.contactName,
-        propertyId: item.propertyId,
-        attachments: item.attachments,
-      });
+    const result = await trySend(item, slot.fromAccount);
+    if (!result) {
+      failed++;
+    } else if (result.success) {
+      item.status = "sent";
+      item.sentAt = new Date().toISOString();
+      item.messageId = result.messageId;
+      hourlyCounter++;
+      sent++;
+      await persist(item);
 
-      if (result.success) {
-        item.status = "sent";
-        item.sentAt = new Date().toISOString();
-        item.messageId = result.messageId;
-        hourlyCounter++;
-        sent++;
-
-        if (result.threadId) recordThreadProperty(result.threadId, item.propertyId);
-        try { await updateEjendom(item.propertyId, { outreach_status: "FOERSTE_MAIL_SENDT" }); } catch { /* ignore */ }
-      } else {
-        if (item.retries < MAX_RETRIES) {
-          item.retries++;
-          item.status = "queued";
-          item.error = result.error;
-        } else {
-          item.status = "failed";
-          item.error = result.error;
-          failed++;
-          try { await updateEjendom(item.propertyId, { outreach_status: "FEJL" }); } catch { /* ignore */ }
-        }
-      }
+      await recordMailboxSend(window, slot.mailbox).catch((e) =>
+        logger.warn(`Mailbox counter update failed: ${e instanceof Error ? e.message : e}`, { service: "email-queue" })
+      );
+      await afterSent(item, result);
+    } else if (item.retries < MAX_RETRIES && !result.suppressed) {
+      item.retries++;
+      item.status = "queued";
+      item.error = result.error;
+      item.fromAccount = pinnedAccount;
       await persist(item);
-    } catch (error) {
+    } else {
       item.status = "failed";
-      item.error = error instanceof Error ? error.message : String(error);
-      await persist(item);
+      item.error = result.error;
       failed++;
+      await persist(item);
+      await afterFailed(item, result.error || "Ukendt fejl", result.suppressed);
     }
 
     // Small delay between sends
     await new Promise(r => setTimeout(r, 500));
   }
 
-  return { sent, failed, skipped: pending.length - sent - failed };
+  // Only what this batch would have sent but the send window or the
+  // mailbox caps held back – not the rest of the look-ahead fetch
+  return {
+    sent,
+    failed,
+    skipped: waiting ? Math.min(pending.length, limit - attempts) : 0,
+    ...(waiting ? { waitingUntil: waiting.waitUntil.toISOString(), waitReason: waiting.reason } : {}),
+  };
 }
 
 async function persist(item: QueuedEmail): Promise<void> {
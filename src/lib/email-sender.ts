@@ -1,12 +1,15 @@
 // ============================================================
 // Email Sender – Gmail API with OAuth2 (multi-account)
 // Supports multiple Gmail accounts via shared OAuth app
-// Includes: click tracking link wrapping, rate limiting, retries
+// Includes: click tracking link wrapping, rate limiting, retries,
+// suppression check, List-Unsubscribe headers and bounce scanning
 // ============================================================
 
 import { google } from "googleapis";
 import { config } from "./config";
 import { logger } from "./logger";
+import { checkRecipient, suppressionMessage } from "./outreach/suppression-store";
+import { buildUnsubscribeUrls, UNSUBSCRIBE_FOOTER_TEXT } from "./outreach/unsubscribe-token";
 
 // ── Rate Limiter (token bucket, in-memory) ──────────────────
 let _rateBucketTokens = 0;
@@ -144,6 +147,10 @@ export interface SendEmailOptions {
   trackingBaseUrl?: string;
   /** Send from a specific account (email address). Uses primary if omitted. */
   fromAccount?: string;
+  /** Send path, recorded when the recipient is suppressed (e.g. "email-queue"). */
+  source?: string;
+  /** Internal notices: no suppression check and no unsubscribe link. */
+  transactional?: boolean;
 }
 
 export interface SendEmailResult {
@@ -151,13 +158,22 @@ export interface SendEmailResult {
   messageId?: string;
   threadId?: string;
   error?: string;
+  /** Refused because the recipient (or its domain) is on the suppression list. */
+  suppressed?: boolean;
 }
 
 /**
  * Send an email via Gmail API.
- * Includes: rate limiting, click tracking link wrapping, and retries.
+ * Includes: suppression check, rate limiting, click tracking link
+ * wrapping, and retries.
  */
 export async function sendEmail(opts: SendEmailOptions): Promise<SendEmailResult> {
+  // ── Suppression check (hard stop, logged) ─────────────
+  if (!opts.transactional) {
+    const match = await checkRecipient(opts.to, { source: opts.source || "email-sender", refId: opts.propertyId });
+    if (match) return { success: false, suppressed: true, error: suppressionMessage(match) };
+  }
+
   // ── Rate limit check ──────────────────────────────────
   if (!checkRateLimit()) {
     const msg = `Rate limit exceeded (${config.emailRateLimitPerHour}/hour). Try again later.`;
@@ -219,7 +235,17 @@ async function _sendEmailOnce(opts: SendEmailOptions): Promise<SendEmailResult>
   const fromEmail = account?.email || config.gmail.fromEmail;
 
   // Ensure body is always a string (plain text and HTML both need it)
-  const bodyText = typeof opts.body === "string" && opts.body.trim() ? opts.body : opts.body || "";
+  let bodyText = typeof opts.body === "string" && opts.body.trim() ? opts.body : opts.body || "";
+
+  // One-click unsubscribe (RFC 8058) – needs a public base URL for the link
+  const publicBaseUrl = opts.trackingBaseUrl || process.env.NEXT_PUBLIC_APP_URL || "";
+  const unsubscribe = !opts.transactional && publicBaseUrl
+    ? await buildUnsubscribeUrls(opts.to, publicBaseUrl)
+    : null;
+  const unsubscribeText = UNSUBSCRIBE_FOOTER_TEXT;
+  if (unsubscribe) {
+    bodyText += `\n\n--\n${unsubscribeText}: ${unsubscribe.pageUrl}`;
+  }
 
   // Build HTML body (simple: preserve line breaks)
   let htmlBody = bodyText
@@ -233,6 +259,14 @@ async function _sendEmailOnce(opts: SendEmailOptions): Promise<SendEmailResult>
     htmlBody = wrapLinksWithTracking(htmlBody, opts.sendId, opts.trackingBaseUrl);
   }
 
+  // Unsubscribe link is added after link wrapping so it is never click-tracked
+  if (unsubscribe) {
+    htmlBody = htmlBody.replace(
+      `${unsubscribeText}: ${unsubscribe.pageUrl}`,
+      `<span style="font-size: 11px; color: #999;">${unsubscribeText}: <a href="${unsubscribe.pageUrl}" style="color: #999;">afmeld</a></span>`
+    );
+  }
+
   // Add tracking pixel if specified
   if (opts.trackingPixelUrl) {
     htmlBody += `<img src="${opts.trackingPixelUrl}" width="1" height="1" style="display:none" alt="" />`;
@@ -248,11 +282,19 @@ async function _sendEmailOnce(opts: SendEmailOptions): Promise<SendEmailResult>
     `From: ${fromName} <${fromEmail}>`,
     `To: ${opts.contactName ? `${opts.contactName} <${opts.to}>` : opts.to}`,
     `Subject: =?UTF-8?B?${Buffer.from(opts.subject, "utf-8").toString("base64")}?=`,
-    opts.replyTo ? `Reply-To: ${opts.replyTo}` : "",
+    // An empty line would end the header block early
+    ...(opts.replyTo ? [`Reply-To: ${opts.replyTo}`] : []),
     `MIME-Version: 1.0`,
     `X-EjendomAI-PropertyId: ${opts.propertyId}`,
   ];
 
+  if (unsubscribe) {
+    messageParts.push(
+      `List-Unsubscribe: <${unsubscribe.oneClickUrl}>`,
+      `List-Unsubscribe-Post: List-Unsubscribe=One-Click`,
+    );
+  }
+
   if (hasAttachments) {
     messageParts.push(
       `Content-Type: multipart/mixed; boundary="${mixedBoundary}"`,
@@ -689,6 +731,94 @@ async function _getThreadFromClient(gmail: GmailApi, threadId: string): Promise<
   return { id: threadId, subject: firstSubject, messages };
 }
 
+export interface BounceNotice {
+  id: string;
+  threadId: string;
+  /** Mailbox it arrived in ("" = primary sender). */
+  account: string;
+  from: string;
+  subject: string;
+  date: string;
+  /** The notice's own headers, lowercased. */
+  headers: Record<string, string>;
+  /** Text, delivery-status and returned-header parts joined. */
+  text: string;
+}
+
+// Parts of a DSN worth reading; the returned original is only needed for its headers
+const BOUNCE_TEXT_PARTS = new Set(["text/plain", "message/delivery-status", "text/rfc822-headers", "message/rfc822-headers"]);
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+function _collectBounceText(parts: any[]): string[] {
+  const out: string[] = [];
+  for (const part of parts) {
+    const mime: string = part.mimeType || "";
+    if (BOUNCE_TEXT_PARTS.has(mime) && part.body?.data) {
+      out.push(Buffer.from(part.body.data, "base64").toString("utf-8"));
+    }
+    if (mime === "message/rfc822") {
+      // Gmail exposes the returned message's headers on its first nested part
+      const headers = (part.parts?.[0]?.headers || part.headers || []) as { name?: string; value?: string }[];
+      const messageId = headers.find((h) => h.name?.toLowerCase() === "message-id")?.value;
+      if (messageId) out.push(`Message-ID: ${messageId}`);
+    }
+    if (part.parts?.length) out.push(..._collectBounceText(part.parts));
+  }
+  return out;
+}
+
+async function _listBouncesForClient(gmail: GmailApi, account: string, newerThanDays: number, max: number): Promise<BounceNotice[]> {
+  const res = await gmail.users.messages.list({
+    userId: "me",
+    q: `from:(mailer-daemon OR postmaster) newer_than:${newerThanDays}d`,
+    maxResults: max,
+  });
+  const notices: BounceNotice[] = [];
+  for (const ref of res.data.messages || []) {
+    if (!ref.id) continue;
+    const msg = (await gmail.users.messages.get({ userId: "me", id: ref.id, format: "full" })).data;
+    const payload = msg.payload;
+    if (!payload) continue;
+    const headers = (payload.headers || []).reduce((acc: Record<string, string>, h) => {
+      if (h.name && h.value) acc[h.name.toLowerCase()] = h.value;
+      return acc;
+    }, {});
+    const texts = payload.body?.data ? [Buffer.from(payload.body.data, "base64").toString("utf-8")] : [];
+    if (payload.parts?.length) texts.push(..._collectBounceText(payload.parts));
+    notices.push({
+      id: ref.id,
+      threadId: msg.threadId || "",
+      account,
+      from: headers.from || "",
+      subject: headers.subject || "",
+      date: headers.date || "",
+      headers,
+      text: texts.join("\n"),
+    });
+  }
+  return notices;
+}
+
+/** Recent mailer-daemon / postmaster notices from all configured accounts (bounce detection). */
+export async function listBounceNotices(newerThanDays = 7, maxPerAccount = 50): Promise<BounceNotice[]> {
+  const accounts = getConfiguredAccounts();
+  if (accounts.length === 0) {
+    return _listBouncesForClient(getGmailClient(), "", newerThanDays, maxPerAccount);
+  }
+
+  const all: BounceNotice[] = [];
+  await Promise.allSettled(
+    accounts.map(async (acc) => {
+      try {
+        all.push(...(await _listBouncesForClient(acc.client, acc.email, newerThanDays, maxPerAccount)));
+      } catch (e) {
+        logger.warn(`[gmail] Bounce scan failed for ${acc.email}: ${e instanceof Error ? e.message : String(e)}`);
+      }
+    })
+  );
+  return all;
+}
+
 /** Fetch raw attachment data (returns base64 string). */
 export async function getAttachmentData(
   messageId: string,
@@ -42,6 +42,7 @@ export interface ComposeEmailInput {
   toneOfVoice?: string;
   previousSubject?: string;        // for follow-ups
   customContext?: string;          // extra notes from user
+  promptHint?: string;             // extra instruction from an A/B prompt variant
 }
 
 export interface ComposedEmail {
@@ -116,7 +117,7 @@ ${contextBlocks.join("\n")}
 
 Instruktioner:
 ${typeInstructions[input.type]}
-
+${input.promptHint ? `\nSærlig instruks for denne mail:\n${input.promptHint}\n` : ""}
 Format:
 - Skriv KUN email-brødteksten (ikke emnelinjen, ikke hilsen, ikke signatur – de tilføjes automatisk)
 - Brug HTML-formatering: <p> tags for afsnit, <strong> for nøgleord
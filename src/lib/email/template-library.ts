@@ -0,0 +1,254 @@
+// ============================================================
+// Email Template Library – user-managed templates with typed
+// merge variables and conditional blocks.
+//
+//   {{address}}                     variable
+//   {{contact_first_name|der}}      variable with fallback
+//   {{#if daily_traffic}}…{{else}}…{{/if}}   conditional block
+//
+// Values are formatted by type (numbers and dates the Danish
+// way). Templates are rendered against a staged property, a
+// HubSpot property or a lead (see the *Values builders).
+// ============================================================
+
+import { z } from "zod";
+import type { Property } from "@/types";
+import type { StagedProperty } from "@/lib/staging/store";
+import type { LeadRow } from "@/lib/lead-sourcing/lead-store";
+
+export type TemplateVariableType = "text" | "number" | "date";
+
+export interface TemplateVariableDef {
+  label: string;
+  type: TemplateVariableType;
+  example: string;
+}
+
+export type TemplateVariable =
+  | "property_name"
+  | "address"
+  | "postal_code"
+  | "city"
+  | "owner_company"
+  | "daily_traffic"
+  | "traffic_source"
+  | "permit_start"
+  | "permit_end"
+  | "contact_name"
+  | "contact_first_name"
+  | "company_name"
+  | "industry"
+  | "sender_name";
+
+export const TEMPLATE_VARIABLES: Record<TemplateVariable, TemplateVariableDef> = {
+  property_name: { label: "Ejendommens navn", type: "text", example: "Vesterbrogade 12" },
+  address: { label: "Adresse", type: "text", example: "Vesterbrogade 12" },
+  postal_code: { label: "Postnummer", type: "text", example: "1620" },
+  city: { label: "By", type: "text", example: "København V" },
+  owner_company: { label: "Ejerselskab", type: "text", example: "Ejendomsselskabet Vester ApS" },
+  daily_traffic: { label: "Trafik pr. dag", type: "number", example: "24.000" },
+  traffic_source: { label: "Trafikkilde", type: "text", example: "Vejdirektoratet" },
+  permit_start: { label: "Stilladstilladelse start", type: "date", example: "1. april 2026" },
+  permit_end: { label: "Stilladstilladelse slut", type: "date", example: "30. juni 2026" },
+  contact_name: { label: "Kontaktperson", type: "text", example: "Lars Hansen" },
+  contact_first_name: { label: "Kontaktens fornavn", type: "text", example: "Lars" },
+  company_name: { label: "Virksomhed (lead)", type: "text", example: "Café Noir" },
+  industry: { label: "Branche (lead)", type: "text", example: "Restauration" },
+  sender_name: { label: "Afsender", type: "text", example: "Mads" },
+};
+
+export type TemplateValues = Partial<Record<TemplateVariable, string>>;
+
+export const emailTemplateInputSchema = z.object({
+  name: z.string().trim().min(1, "Giv skabelonen et navn").max(120),
+  description: z.string().trim().max(500).optional().default(""),
+  subject: z.string().trim().min(1, "Emnelinje mangler").max(300),
+  body: z.string().min(1, "Tekst mangler").max(10000),
+  /** Shown in the version history, e.g. "kortere indledning". */
+  note: z.string().trim().max(200).optional(),
+});
+export type EmailTemplateInput = z.infer<typeof emailTemplateInputSchema>;
+
+export interface EmailTemplate {
+  id: string;
+  name: string;
+  description: string;
+  subject: string;
+  body: string;
+  version: number;
+  archived: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface EmailTemplateVersion {
+  templateId: string;
+  version: number;
+  subject: string;
+  body: string;
+  note: string | null;
+  createdAt: string;
+}
+
+// ── Parsing ─────────────────────────────────────────────────
+
+type Node =
+  | { kind: "text"; value: string }
+  | { kind: "var"; name: string; fallback: string | null }
+  | { kind: "if"; name: string; then: Node[]; otherwise: Node[] };
+
+const TAG_RE = /\{\{\s*(#if\s+([a-z_]+)|else|\/if|([a-z_]+)(?:\|([^}]*))?)\s*\}\}/g;
+
+function isVariable(name: string): name is TemplateVariable {
+  return Object.prototype.hasOwnProperty.call(TEMPLATE_VARIABLES, name);
+}
+
+/** Parse a template; `errors` lists unknown variables and unbalanced blocks. */
+function parse(text: string): { nodes: Node[]; errors: string[] } {
+  const errors: string[] = [];
+  const root: Node[] = [];
+  const stack: { node: Extract<Node, { kind: "if" }>; inElse: boolean }[] = [];
+  const current = () => {
+    const top = stack[stack.length - 1];
+    return top ? (top.inElse ? top.node.otherwise : top.node.then) : root;
+  };
+
+  let last = 0;
+  for (const m of text.matchAll(TAG_RE)) {
+    if (m.index! > last) current().push({ kind: "text", value: text.slice(last, m.index) });
+    last = m.index! + m[0].length;
+
+    if (m[2]) {
+      if (!isVariable(m[2])) errors.push(`Ukendt variabel i #if: ${m[2]}`);
+      const node: Extract<Node, { kind: "if" }> = { kind: "if", name: m[2], then: [], otherwise: [] };
+      current().push(node);
+      stack.push({ node, inElse: false });
+    } else if (m[1] === "else") {
+      const top = stack[stack.length - 1];
+      if (!top || top.inElse) errors.push("{{else}} uden {{#if}}");
+      else top.inElse = true;
+    } else if (m[1] === "/if") {
+      if (!stack.pop()) errors.push("{{/if}} uden {{#if}}");
+    } else if (m[3]) {
+      if (!isVariable(m[3])) errors.push(`Ukendt variabel: ${m[3]}`);
+      current().push({ kind: "var", name: m[3], fallback: m[4] !== undefined ? m[4].trim() : null });
+    }
+  }
+  if (last < text.length) current().push({ kind: "text", value: text.slice(last) });
+  if (stack.length > 0) errors.push(`${stack.length} {{#if}} mangler {{/if}}`);
+  return { nodes: root, errors };
+}
+
+export function validateTemplate(text: string): string[] {
+  return parse(text).errors;
+}
+
+/**
+ * Render against `values`. `missing` lists variables that were needed
+ * (outside skipped blocks, without fallback) but empty.
+ */
+export function renderTemplate(
+  text: string,
+  values: TemplateValues
+): { text: string; missing: TemplateVariable[]; errors: string[] } {
+  const { nodes, errors } = parse(text);
+  const missing = new Set<TemplateVariable>();
+
+  const walk = (list: Node[]): string =>
+    list
+      .map((node) => {
+        if (node.kind === "text") return node.value;
+        const value = isVariable(node.name) ? values[node.name]?.trim() || "" : "";
+        if (node.kind === "if") return walk(value ? node.then : node.otherwise);
+        if (value) return value;
+        if (node.fallback !== null) return node.fallback;
+        if (isVariable(node.name)) missing.add(node.name);
+        return "";
+      })
+      .join("");
+
+  return { text: walk(nodes), missing: [...missing], errors };
+}
+
+/** Example values for every variable – for previews without a record. */
+export function exampleValues(): TemplateValues {
+  return Object.fromEntries(
+    Object.entries(TEMPLATE_VARIABLES).map(([k, def]) => [k, def.example])
+  ) as TemplateValues;
+}
+
+// ── Value builders ──────────────────────────────────────────
+
+function formatNumber(n: number | null | undefined): string | undefined {
+  return n != null && Number.isFinite(n) && n > 0 ? Math.round(n).toLocaleString("da-DK") : undefined;
+}
+
+function formatDate(raw: string | undefined): string | undefined {
+  if (!raw) return undefined;
+  const d = new Date(raw);
+  if (isNaN(d.getTime())) return undefined;
+  return d.toLocaleDateString("da-DK", { day: "numeric", month: "long", year: "numeric", timeZone: "Europe/Copenhagen" });
+}
+
+function firstName(fullName: string | null | undefined): string | undefined {
+  return fullName?.trim().split(/\s+/)[0] || undefined;
+}
+
+/**
+ * Permit period from the notes scaffolding discovery writes
+ * ("Dato: 2026-04-01 → 2026-06-30", "Periode: … → …" or
+ * "Start: …" / "Slut: …" lines).
+ */
+export function parsePermitDates(notes: string | null | undefined): { start?: string; end?: string } {
+  if (!notes) return {};
+  const range = notes.match(/(?:Dato|Periode):\s*(\S+)\s*→\s*([^\s.]+)/);
+  const start = range?.[1] || notes.match(/^\s*Start:\s*(\S+)/m)?.[1];
+  const end = range?.[2] || notes.match(/^\s*Slut:\s*(\S+)/m)?.[1];
+  return { start: formatDate(start), end: formatDate(end) };
+}
+
+export function stagedPropertyValues(p: StagedProperty): TemplateValues {
+  const contactName = p.contactPerson || p.contacts?.[0]?.name || undefined;
+  const permit = parsePermitDates(p.outdoorNotes);
+  return {
+    property_name: p.name || p.address,
+    address: p.address,
+    postal_code: p.postalCode,
+    city: p.city,
+    owner_company: p.ownerCompany,
+    daily_traffic: formatNumber(p.dailyTraffic),
+    traffic_source: p.trafficSource,
+    permit_start: permit.start,
+    permit_end: permit.end,
+    contact_name: contactName,
+    contact_first_name: firstName(contactName),
+  };
+}
+
+/** HubSpot properties carry no traffic figure; permit dates come from the notes. */
+export function propertyValues(p: Property): TemplateValues {
+  const permit = parsePermitDates(p.outdoorPotentialNotes);
+  return {
+    property_name: p.name || p.address,
+    address: p.address,
+    postal_code: p.postalCode,
+    city: p.city,
+    owner_company: p.ownerCompanyName || p.companyName,
+    permit_start: permit.start,
+    permit_end: permit.end,
+    contact_name: p.contactPerson,
+    contact_first_name: firstName(p.contactPerson),
+  };
+}
+
+export function leadValues(lead: LeadRow): TemplateValues {
+  const contact = lead.contacts?.find((c) => c.email && !c.bouncedAt) || lead.contacts?.[0];
+  return {
+    address: lead.address || undefined,
+    company_name: lead.name,
+    owner_company: lead.name,
+    industry: lead.industry || undefined,
+    contact_name: contact?.name,
+    contact_first_name: firstName(contact?.name),
+  };
+}
@@ -0,0 +1,176 @@
+// ============================================================
+// Email Template Store – templates and their version history.
+//
+// Every save bumps the version and keeps a copy of the subject
+// and body, so an older version can be viewed or restored
+// (restoring saves it again as the newest version).
+// ============================================================
+
+import { supabase, HAS_SUPABASE } from "@/lib/supabase";
+import { logger } from "@/lib/logger";
+import type { EmailTemplate, EmailTemplateInput, EmailTemplateVersion } from "./template-library";
+
+export class EmailTemplateError extends Error {
+  constructor(
+    message: string,
+    public status: number
+  ) {
+    super(message);
+    this.name = "EmailTemplateError";
+  }
+}
+
+const CONCURRENT_EDIT = "Skabelonen er ændret af en anden i mellemtiden – genindlæs og prøv igen";
+
+function newId(prefix: string): string {
+  return `${prefix}${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+function rowToTemplate(row: Record<string, unknown>): EmailTemplate {
+  return {
+    id: String(row.id),
+    name: String(row.name || ""),
+    description: String(row.description || ""),
+    subject: String(row.subject || ""),
+    body: String(row.body || ""),
+    version: Number(row.version || 1),
+    archived: row.archived === true,
+    createdAt: String(row.created_at || new Date().toISOString()),
+    updatedAt: String(row.updated_at || new Date().toISOString()),
+  };
+}
+
+function rowToVersion(row: Record<string, unknown>): EmailTemplateVersion {
+  return {
+    templateId: String(row.template_id),
+    version: Number(row.version || 1),
+    subject: String(row.subject || ""),
+    body: String(row.body || ""),
+    note: row.note ? String(row.note) : null,
+    createdAt: String(row.created_at || new Date().toISOString()),
+  };
+}
+
+function logError(what: string, err: unknown) {
+  logger.error(`[template-store] ${what} error: ${err instanceof Error ? err.message : err}`);
+}
+
+export async function listEmailTemplates(opts: { includeArchived?: boolean } = {}): Promise<EmailTemplate[]> {
+  if (!HAS_SUPABASE || !supabase) return [];
+  try {
+    let q = supabase.from("email_templates").select("*");
+    if (!opts.includeArchived) q = q.eq("archived", false);
+    const { data, error } = await q.order("name", { ascending: true });
+    if (error) throw error;
+    return (data || []).map(rowToTemplate);
+  } catch (err) {
+    logError("list", err);
+    return [];
+  }
+}
+
+export async function getEmailTemplate(id: string): Promise<EmailTemplate | null> {
+  if (!HAS_SUPABASE || !supabase) return null;
+  try {
+    const { data, error } = await supabase.from("email_templates").select("*").eq("id", id).maybeSingle();
+    if (error) throw error;
+    return data ? rowToTemplate(data) : null;
+  } catch (err) {
+    logError("get", err);
+    return null;
+  }
+}
+
+async function insertVersion(templateId: string, version: number, input: Pick<EmailTemplateInput, "subject" | "body" | "note">) {
+  const { error } = await supabase!.from("email_template_versions").insert({
+    template_id: templateId,
+    version,
+    subject: input.subject,
+    body: input.body,
+    note: input.note || null,
+  });
+  if (error?.code === "23505") throw new EmailTemplateError(CONCURRENT_EDIT, 409);
+  if (error) throw error;
+}
+
+export async function createEmailTemplate(input: EmailTemplateInput): Promise<EmailTemplate> {
+  if (!HAS_SUPABASE || !supabase) throw new Error("Supabase is not configured");
+  const { data, error } = await supabase
+    .from("email_templates")
+    .insert({
+      id: newId("tpl-"),
+      name: input.name,
+      description: input.description || null,
+      subject: input.subject,
+      body: input.body,
+      version: 1,
+    })
+    .select("*")
+    .single();
+  if (error) throw error;
+  await insertVersion(String(data.id), 1, { ...input, note: input.note || "Oprettet" });
+  return rowToTemplate(data);
+}
+
+/**
+ * Save a new version. Name/description changes alone do not bump it.
+ * The history row is written first and the template is only updated
+ * while it is still at `existing.version`, so of two concurrent saves
+ * the second gets a 409 instead of overwriting the first.
+ */
+export async function updateEmailTemplate(existing: EmailTemplate, input: EmailTemplateInput): Promise<EmailTemplate> {
+  if (!HAS_SUPABASE || !supabase) throw new Error("Supabase is not configured");
+  const contentChanged = existing.subject !== input.subject || existing.body !== input.body;
+  const version = contentChanged ? existing.version + 1 : existing.version;
+  if (contentChanged) await insertVersion(existing.id, version, input);
+
+  const { data, error } = await supabase
+    .from("email_templates")
+    .update({
+      name: input.name,
+      description: input.description || null,
+      subject: input.subject,
+      body: input.body,
+      version,
+      updated_at: new Date().toISOString(),
+    })
+    .eq("id", existing.id)
+    .eq("version", existing.version)
+    .select("*")
+    .maybeSingle();
+  if (error || !data) {
+    if (contentChanged) {
+      await supabase.from("email_template_versions").delete().eq("template_id", existing.id).eq("version", version);
+    }
+    if (error) throw error;
+    throw new EmailTemplateError(CONCURRENT_EDIT, 409);
+  }
+  return rowToTemplate(data);
+}
+
+/** Archived templates disappear from pickers; their history stays. */
+export async function setEmailTemplateArchived(id: string, archived: boolean): Promise<void> {
+  if (!HAS_SUPABASE || !supabase) throw new Error("Supabase is not configured");
+  const { error } = await supabase
+    .from("email_templates")
+    .update({ archived, updated_at: new Date().toISOString() })
+    .eq("id", id);
+  if (error) throw error;
+}
+
+export async function listEmailTemplateVersions(templateId: string): Promise<EmailTemplateVersion[]> {
+  if (!HAS_SUPABASE || !supabase) return [];
+  try {
+    const { data, error } = await supabase
+      .from("email_template_versions")
+      .select("*")
+      .eq("template_id", templateId)
+      .order("version", { ascending: false })
+      .limit(100);
+    if (error) throw error;
+    return (data || []).map(rowToVersion);
+  } catch (err) {
+    logError("list versions", err);
+    return [];
+  }
+}
@@ -162,6 +162,45 @@ export async function fetchAllEjendomme(limit = 100): Promise<Property[]> {
   return ((data.results as HubSpotRecord[]) || []).map(mapRecordToProperty);
 }
 
+/**
+ * Fetch every ejendom with an owner CVR (paged, up to `max`) – for owner portfolios
+ */
+export async function fetchEjendommeWithOwnerCvr(max = 1000): Promise<Property[]> {
+  const out: Property[] = [];
+  let after: string | undefined;
+  do {
+    const data = await hubspotPost(
+      `/crm/v3/objects/${EJENDOMME_OBJECT_TYPE}/search`,
+      {
+        filterGroups: [{ filters: [{ propertyName: "owner_company_cvr", operator: "HAS_PROPERTY" }] }],
+        properties: EJENDOM_PROPERTIES,
+        limit: 100,
+        ...(after ? { after } : {}),
+      }
+    );
+    out.push(...((data.results as HubSpotRecord[]) || []).map(mapRecordToProperty));
+    after = (data.paging as { next?: { after: string } } | undefined)?.next?.after;
+  } while (after && out.length < max);
+  return out.slice(0, max);
+}
+
+/**
+ * Fetch every ejendom (paged, up to `max`) – for cross-pipeline dedupe
+ */
+export async function fetchAllEjendommePaged(max = 2000): Promise<Property[]> {
+  const props = EJENDOM_PROPERTIES.join(",");
+  const out: Property[] = [];
+  let after: string | undefined;
+  do {
+    const data = await hubspotGet(
+      `/crm/v3/objects/${EJENDOMME_OBJECT_TYPE}?limit=100&properties=${props}${after ? `&after=${after}` : ""}`
+    );
+    out.push(...((data.results as HubSpotRecord[]) || []).map(mapRecordToProperty));
+    after = (data.paging as { next?: { after: string } } | undefined)?.next?.after;
+  } while (after && out.length < max);
+  return out.slice(0, max);
+}
+
 /**
  * Fetch a single ejendom by ID
  */
@@ -174,7 +213,8 @@ export async function fetchEjendomById(id: string): Promise<Property> {
 }
 
 /**
- * Update an ejendom's properties
+ * Update an ejendom's properties.
+ * Never pass outreach_status – status changes go through transitionProperty().
  */
 export async function updateEjendom(
   id: string,
@@ -186,7 +226,8 @@ export async function updateEjendom(
 }
 
 /**
- * Update ejendom after research is done
+ * Update ejendom after research is done.
+ * outreach_status is not written here – use transitionProperty().
  */
 export async function updateEjendomResearch(
   id: string,
@@ -196,18 +237,16 @@ export async function updateEjendomResearch(
     outdoorScore?: number;
     researchSummary?: string;
     researchLinks?: string;
-    outreachStatus: OutreachStatus;
   }
 ): Promise<void> {
-  const properties: Record<string, string> = {
-    outreach_status: data.outreachStatus,
-  };
+  const properties: Record<string, string> = {};
 
   if (data.ownerCompanyName) properties.owner_company_name = data.ownerCompanyName;
   if (data.ownerCompanyCvr) properties.owner_company_cvr = data.ownerCompanyCvr;
   if (data.outdoorScore !== undefined) properties.outdoor_score = String(data.outdoorScore);
   if (data.researchSummary) properties.research_summary = data.researchSummary;
   if (data.researchLinks) properties.research_links = data.researchLinks;
+  if (Object.keys(properties).length === 0) return;
 
   await updateEjendom(id, properties);
 }
@@ -228,6 +267,20 @@ export async function saveEmailDraft(
   });
 }
 
+/**
+ * Archive an ejendom (HubSpot keeps archived records restorable for 90 days).
+ * An already archived or unknown ID is not an error.
+ */
+export async function archiveEjendom(id: string): Promise<void> {
+  const res = await fetch(`${BASE_URL}/crm/v3/objects/${EJENDOMME_OBJECT_TYPE}/${id}`, {
+    method: "DELETE",
+    headers: authHeaders(),
+  });
+  if (!res.ok && res.status !== 404) {
+    throw new Error(`HubSpot DELETE ejendom ${id} failed (${res.status}): ${await res.text().catch(() => "")}`);
+  }
+}
+
 // ─── Create New Ejendom ─────────────────────────────────────
 
 /**
@@ -537,6 +590,14 @@ export async function associateContactToEjendom(
   }
 }
 
+/**
+ * IDs of the contacts associated with an Ejendom.
+ */
+export async function fetchEjendomContactIds(ejendomId: string): Promise<string[]> {
+  const data = await hubspotGet(`/crm/v4/objects/${EJENDOMME_OBJECT_TYPE}/${ejendomId}/associations/contacts?limit=100`);
+  return ((data.results as { toObjectId: number | string }[]) || []).map((r) => String(r.toObjectId));
+}
+
 /**
  * Upsert a Company by name/CVR. Returns the HubSpot company ID.
  * Searches by name first to avoid duplicates.
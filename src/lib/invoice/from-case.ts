@@ -0,0 +1,160 @@
+import { netMedieForSale, type Case, type CostSettings } from "@/lib/case/types";
+import type { Invoice, InvoiceCreateInput, InvoiceCustomer, InvoiceLine } from "./types";
+
+function round2(n: number): number {
+  return Math.round((n + Number.EPSILON) * 100) / 100;
+}
+
+/** YYYY-MM-DD + n days (UTC, so DST never shifts the date). */
+export function addDays(isoDate: string, days: number): string {
+  const d = new Date(`${isoDate}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().slice(0, 10);
+}
+
+/**
+ * Modulus-10 (Luhn) check digit — the scheme Danish FI-kort 71 and
+ * bank transfers use for the payment id. Reference = invoice number
+ * left-padded to 14 digits + check digit (15 digits, FIK type 71).
+ */
+export function paymentReferenceFor(invoiceNumber: string): string {
+  const digits = invoiceNumber.replace(/\D/g, "").padStart(14, "0").slice(-14);
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let d = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 0) {
+      d *= 2;
+      if (d > 9) d -= 9;
+    }
+    sum += d;
+  }
+  return `${digits}${(10 - (sum % 10)) % 10}`;
+}
+
+/** Next sequential invoice number for the year: 2026 + 0001 → "20260001". */
+export function nextInvoiceNumber(existingNumbers: string[], year: number): string {
+  const prefix = String(year);
+  const max = existingNumbers
+    .filter((n) => n.startsWith(prefix) && /^\d+$/.test(n))
+    .reduce((m, n) => Math.max(m, Number(n.slice(prefix.length)) || 0), 0);
+  return `${prefix}${String(max + 1).padStart(4, "0")}`;
+}
+
+/** Sources (sale ids / service lines) already on a non-cancelled invoice. */
+export function invoicedSources(invoices: Invoice[]): Set<string> {
+  const sources = new Set<string>();
+  for (const inv of invoices) {
+    if (inv.status === "annulleret") continue;
+    for (const line of inv.lines) if (line.source) sources.add(line.source);
+  }
+  return sources;
+}
+
+function salePeriod(fromDate?: string, toDate?: string): string {
+  if (fromDate && toDate) return `${fromDate} – ${toDate}`;
+  return fromDate || toDate || "";
+}
+
+/** Candidate lines for a case: one per sale + the service lines. */
+export function invoiceLinesFromCase(c: Case): InvoiceLine[] {
+  const lines: InvoiceLine[] = [];
+  for (const sale of c.sales || []) {
+    const net = round2(netMedieForSale(sale));
+    if (net <= 0) continue;
+    lines.push({
+      id: `line-sale-${sale.id}`,
+      source: `sale:${sale.id}`,
+      description: `Medievisning${sale.annoncør ? ` — ${sale.annoncør}` : ""}${c.address ? `, ${c.address}` : ""}`,
+      period: salePeriod(sale.fromDate, sale.toDate),
+      quantity: 1,
+      unitPrice: net,
+      amount: net,
+    });
+  }
+  const costs = c.costs;
+  const services: Array<[string, string, number]> = [
+    ["produktion", "Produktion af banner", costs.produktionSalg || 0],
+    ["montering", "Montering og nedtagning", costs.monteringSalg || 0],
+    ["kommunale", "Kommunale gebyrer", costs.kommunaleSalg || costs.kommunaleGebyr || 0],
+  ];
+  for (const [source, description, amount] of services) {
+    const value = round2(amount);
+    if (value <= 0) continue;
+    lines.push({
+      id: `line-${source}`,
+      source,
+      description,
+      period: salePeriod(c.startDate, c.endDate),
+      quantity: 1,
+      unitPrice: value,
+      amount: value,
+    });
+  }
+  return lines;
+}
+
+export function calcInvoiceTotals(lines: InvoiceLine[], momsPct: number) {
+  const subtotal = round2(lines.reduce((sum, l) => sum + l.amount, 0));
+  const vatAmount = round2(subtotal * (momsPct / 100));
+  return { subtotal, vatAmount, total: round2(subtotal + vatAmount) };
+}
+
+/**
+ * Build (but don't save) an invoice for a case. Lines already on an
+ * earlier, non-cancelled invoice for the case are skipped, so a case
+ * can be invoiced sale by sale.
+ */
+export function buildInvoiceFromCase(
+  c: Case,
+  settings: CostSettings,
+  input: InvoiceCreateInput,
+  ctx: { invoiceNumber: string; existing: Invoice[]; defaultTermsDays: number }
+): Invoice {
+  const already = invoicedSources(ctx.existing);
+  const wantSales = input.saleIds ? new Set(input.saleIds.map((id) => `sale:${id}`)) : null;
+  const lines = invoiceLinesFromCase(c).filter((line) => {
+    if (already.has(line.source)) return false;
+    if (line.source.startsWith("sale:")) return wantSales ? wantSales.has(line.source) : true;
+    return input.includeServices !== false;
+  });
+  if (lines.length === 0) {
+    throw new Error("Intet at fakturere — alle salg og ydelser på casen er allerede faktureret");
+  }
+
+  const now = new Date().toISOString();
+  const issueDate = input.issueDate || now.slice(0, 10);
+  const paymentTermsDays = input.paymentTermsDays ?? ctx.defaultTermsDays;
+  const customer: InvoiceCustomer = {
+    name: c.bygherreNavn || c.title,
+    address: "",
+    postalCode: "",
+    city: "",
+    cvr: "",
+    ean: "",
+    email: "",
+    reference: "",
+    ...Object.fromEntries(Object.entries(input.customer || {}).filter(([, v]) => v !== undefined)),
+  };
+  const momsPct = settings.momsPct ?? 25;
+
+  return {
+    id: `inv-${Date.now()}`,
+    invoiceNumber: ctx.invoiceNumber,
+    caseId: c.id,
+    caseNumber: c.caseNumber,
+    customer,
+    issueDate,
+    dueDate: addDays(issueDate, paymentTermsDays),
+    paymentTermsDays,
+    paymentReference: paymentReferenceFor(ctx.invoiceNumber),
+    currency: "DKK",
+    momsPct,
+    lines,
+    ...calcInvoiceTotals(lines, momsPct),
+    paidAmount: 0,
+    status: "udstedt",
+    notes: input.notes || "",
+    createdAt: now,
+    updatedAt: now,
+  };
+}
@@ -0,0 +1,278 @@
+import { config } from "@/lib/config";
+import {
+  HYDE_BUILDING_NUMBER,
+  HYDE_CITY,
+  HYDE_COMPANY_NAME,
+  HYDE_POSTAL_CODE,
+  HYDE_STREET,
+} from "@/lib/tilbud/branding";
+import type { Invoice, InvoiceCustomer } from "./types";
+
+/**
+ * OIOUBL 2.1 invoice (UBL 2.0 Invoice with the Danish OIOUBL
+ * customization) — the format NemHandel and Danish bookkeeping systems
+ * accept for e-invoicing. Built as a plain string; the document is small
+ * and fixed in shape, so no XML library is needed.
+ */
+
+const NS = {
+  invoice: "urn:oasis:names:specification:ubl:schema:xsd:Invoice-2",
+  cac: "urn:oasis:names:specification:ubl:schema:xsd:CommonAggregateComponents-2",
+  cbc: "urn:oasis:names:specification:ubl:schema:xsd:CommonBasicComponents-2",
+};
+
+function esc(value: string | number): string {
+  return String(value)
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
+
+function amt(n: number): string {
+  return (Math.round((n + Number.EPSILON) * 100) / 100).toFixed(2);
+}
+
+function el(tag: string, value: string | number, attrs: Record<string, string> = {}): string {
+  const a = Object.entries(attrs).map(([k, v]) => ` ${k}="${esc(v)}"`).join("");
+  return `<${tag}${a}>${esc(value)}</${tag}>`;
+}
+
+function money(tag: string, n: number, currency: string): string {
+  return el(tag, amt(n), { currencyID: currency });
+}
+
+function cvrDigits(cvr: string): string {
+  return cvr.replace(/\D/g, "");
+}
+
+const TAX_SCHEME = [
+  "<cac:TaxScheme>",
+  el("cbc:ID", "63", { schemeAgencyID: "320", schemeID: "urn:oioubl:id:taxschemeid-1.1" }),
+  el("cbc:Name", "Moms"),
+  "</cac:TaxScheme>",
+].join("");
+
+function taxCategory(pct: number): string {
+  return [
+    "<cac:TaxCategory>",
+    el("cbc:ID", pct > 0 ? "StandardRated" : "ZeroRated", {
+      schemeAgencyID: "320",
+      schemeID: "urn:oioubl:id:taxcategoryid-1.1",
+    }),
+    el("cbc:Percent", amt(pct)),
+    TAX_SCHEME,
+    "</cac:TaxCategory>",
+  ].join("");
+}
+
+function address(street: string, building: string, city: string, postalCode: string): string {
+  return [
+    "<cac:PostalAddress>",
+    el("cbc:AddressFormatCode", "StructuredDK", {
+      listAgencyID: "320",
+      listID: "urn:oioubl:codelist:addressformatcode-1.1",
+    }),
+    el("cbc:StreetName", street || "-"),
+    building ? el("cbc:BuildingNumber", building) : "",
+    el("cbc:CityName", city || "-"),
+    el("cbc:PostalZone", postalCode || "-"),
+    "<cac:Country>",
+    el("cbc:IdentificationCode", "DK"),
+    "</cac:Country>",
+    "</cac:PostalAddress>",
+  ].join("");
+}
+
+/** Split "Vestergade 12A, 2. th" into street + building number ("12A") for StructuredDK. */
+function splitStreet(line: string): { street: string; building: string } {
+  const match = line.trim().match(/^(.*?)\s+(\d+[A-Za-z]?)\b/);
+  if (!match) return { street: line.trim(), building: "" };
+  return { street: match[1].trim(), building: match[2] };
+}
+
+function supplierParty(): string {
+  const cvr = cvrDigits(config.invoice.sellerCvr);
+  return [
+    "<cac:AccountingSupplierParty>",
+    "<cac:Party>",
+    cvr ? el("cbc:EndpointID", `DK${cvr}`, { schemeAgencyID: "320", schemeID: "DK:CVR" }) : "",
+    cvr
+      ? `<cac:PartyIdentification>${el("cbc:ID", `DK${cvr}`, { schemeAgencyID: "320", schemeID: "DK:CVR" })}</cac:PartyIdentification>`
+      : "",
+    `<cac:PartyName>${el("cbc:Name", HYDE_COMPANY_NAME)}</cac:PartyName>`,
+    address(HYDE_STREET, HYDE_BUILDING_NUMBER, HYDE_CITY, HYDE_POSTAL_CODE),
+    cvr
+      ? `<cac:PartyTaxScheme>${el("cbc:CompanyID", `DK${cvr}`, { schemeAgencyID: "320", schemeID: "DK:SE" })}${TAX_SCHEME}</cac:PartyTaxScheme>`
+      : "",
+    "<cac:PartyLegalEntity>",
+    el("cbc:RegistrationName", HYDE_COMPANY_NAME),
+    cvr ? el("cbc:CompanyID", `DK${cvr}`, { schemeAgencyID: "320", schemeID: "DK:CVR" }) : "",
+    "</cac:PartyLegalEntity>",
+    config.invoice.contactEmail
+      ? `<cac:Contact>${el("cbc:ID", "1")}${el("cbc:ElectronicMail", config.invoice.contactEmail)}</cac:Contact>`
+      : "",
+    "</cac:Party>",
+    "</cac:AccountingSupplierParty>",
+  ].join("");
+}
+
+function customerParty(customer: InvoiceCustomer): string {
+  const cvr = cvrDigits(customer.cvr);
+  const ean = customer.ean.replace(/\D/g, "");
+  const { street, building } = splitStreet(customer.address);
+  // Offentlige kunder modtager på EAN (GLN); ellers CVR som endpoint
+  const endpoint = ean
+    ? el("cbc:EndpointID", ean, { schemeAgencyID: "9", schemeID: "GLN" })
+    : cvr
+      ? el("cbc:EndpointID", `DK${cvr}`, { schemeAgencyID: "320", schemeID: "DK:CVR" })
+      : "";
+  return [
+    "<cac:AccountingCustomerParty>",
+    "<cac:Party>",
+    endpoint,
+    cvr
+      ? `<cac:PartyIdentification>${el("cbc:ID", `DK${cvr}`, { schemeAgencyID: "320", schemeID: "DK:CVR" })}</cac:PartyIdentification>`
+      : "",
+    `<cac:PartyName>${el("cbc:Name", customer.name)}</cac:PartyName>`,
+    address(street, building, customer.city, customer.postalCode),
+    "<cac:PartyLegalEntity>",
+    el("cbc:RegistrationName", customer.name),
+    cvr ? el("cbc:CompanyID", `DK${cvr}`, { schemeAgencyID: "320", schemeID: "DK:CVR" }) : "",
+    "</cac:PartyLegalEntity>",
+    customer.reference || customer.email
+      ? [
+          "<cac:Contact>",
+          el("cbc:ID", customer.reference || "n/a"),
+          customer.email ? el("cbc:ElectronicMail", customer.email) : "",
+          "</cac:Contact>",
+        ].join("")
+      : "",
+    "</cac:Party>",
+    "</cac:AccountingCustomerParty>",
+  ].join("");
+}
+
+function paymentMeans(invoice: Invoice): string {
+  const fik = config.invoice.fiCreditorNo.replace(/\D/g, "");
+  if (fik) {
+    // FI-kort 71: betalings-id + kreditornummer
+    return [
+      "<cac:PaymentMeans>",
+      el("cbc:ID", "1"),
+      el("cbc:PaymentMeansCode", "93"),
+      el("cbc:PaymentDueDate", invoice.dueDate),
+      el("cbc:PaymentChannelCode", "DK:FIK", {
+        listAgencyID: "320",
+        listID: "urn:oioubl:codelist:paymentchannelcode-1.1",
+      }),
+      el("cbc:InstructionID", invoice.paymentReference),
+      el("cbc:PaymentID", "71", { schemeAgencyID: "320", schemeID: "urn:oioubl:id:paymentid-1.1" }),
+      `<cac:CreditAccount>${el("cbc:AccountID", fik)}</cac:CreditAccount>`,
+      "</cac:PaymentMeans>",
+    ].join("");
+  }
+  const iban = config.invoice.iban.replace(/\s/g, "");
+  const reg = config.invoice.bankRegNo.replace(/\D/g, "");
+  const account = config.invoice.bankAccountNo.replace(/\D/g, "");
+  return [
+    "<cac:PaymentMeans>",
+    el("cbc:ID", "1"),
+    el("cbc:PaymentMeansCode", "42"),
+    el("cbc:PaymentDueDate", invoice.dueDate),
+    el("cbc:PaymentChannelCode", iban && !account ? "IBAN" : "DK:BANK", {
+      listAgencyID: "320",
+      listID: "urn:oioubl:codelist:paymentchannelcode-1.1",
+    }),
+    el("cbc:InstructionNote", `Faktura ${invoice.invoiceNumber}`),
+    el("cbc:PaymentID", invoice.paymentReference),
+    "<cac:PayeeFinancialAccount>",
+    el("cbc:ID", iban && !account ? iban : account || "-"),
+    reg ? `<cac:FinancialInstitutionBranch>${el("cbc:ID", reg)}</cac:FinancialInstitutionBranch>` : "",
+    "</cac:PayeeFinancialAccount>",
+    "</cac:PaymentMeans>",
+  ].join("");
+}
+
+function invoiceLine(invoice: Invoice, line: Invoice["lines"][number], index: number): string {
+  const tax = line.amount * (invoice.momsPct / 100);
+  return [
+    "<cac:InvoiceLine>",
+    el("cbc:ID", index + 1),
+    el("cbc:InvoicedQuantity", amt(line.quantity), { unitCode: "EA" }),
+    money("cbc:LineExtensionAmount", line.amount, invoice.currency),
+    "<cac:TaxTotal>",
+    money("cbc:TaxAmount", tax, invoice.currency),
+    "<cac:TaxSubtotal>",
+    money("cbc:TaxableAmount", line.amount, invoice.currency),
+    money("cbc:TaxAmount", tax, invoice.currency),
+    taxCategory(invoice.momsPct),
+    "</cac:TaxSubtotal>",
+    "</cac:TaxTotal>",
+    "<cac:Item>",
+    line.period ? el("cbc:Description", line.period) : "",
+    el("cbc:Name", line.description.slice(0, 40)),
+    `<cac:SellersItemIdentification>${el("cbc:ID", line.source || line.id)}</cac:SellersItemIdentification>`,
+    "</cac:Item>",
+    "<cac:Price>",
+    money("cbc:PriceAmount", line.unitPrice, invoice.currency),
+    el("cbc:BaseQuantity", "1", { unitCode: "EA" }),
+    "</cac:Price>",
+    "</cac:InvoiceLine>",
+  ].join("");
+}
+
+export function buildOioublXml(invoice: Invoice): string {
+  const cur = invoice.currency;
+  const body = [
+    el("cbc:UBLVersionID", "2.0"),
+    el("cbc:CustomizationID", "OIOUBL-2.1"),
+    el("cbc:ProfileID", "Procurement-BilSim-1.0", {
+      schemeAgencyID: "320",
+      schemeID: "urn:oioubl:id:profileid-1.2",
+    }),
+    el("cbc:ID", invoice.invoiceNumber),
+    el("cbc:CopyIndicator", "false"),
+    el("cbc:IssueDate", invoice.issueDate),
+    el("cbc:InvoiceTypeCode", "380", {
+      listAgencyID: "320",
+      listID: "urn:oioubl:codelist:invoicetypecode-1.1",
+    }),
+    invoice.notes ? el("cbc:Note", invoice.notes) : "",
+    el("cbc:DocumentCurrencyCode", cur),
+    invoice.customer.reference ? el("cbc:AccountingCost", invoice.customer.reference) : "",
+    invoice.caseNumber
+      ? `<cac:OrderReference>${el("cbc:ID", invoice.caseNumber)}</cac:OrderReference>`
+      : "",
+    supplierParty(),
+    customerParty(invoice.customer),
+    `<cac:Delivery>${el("cbc:ActualDeliveryDate", invoice.issueDate)}</cac:Delivery>`,
+    paymentMeans(invoice),
+    `<cac:PaymentTerms>${el("cbc:Note", `Netto ${invoice.paymentTermsDays} dage`)}</cac:PaymentTerms>`,
+    "<cac:TaxTotal>",
+    money("cbc:TaxAmount", invoice.vatAmount, cur),
+    "<cac:TaxSubtotal>",
+    money("cbc:TaxableAmount", invoice.subtotal, cur),
+    money("cbc:TaxAmount", invoice.vatAmount, cur),
+    taxCategory(invoice.momsPct),
+    "</cac:TaxSubtotal>",
+    "</cac:TaxTotal>",
+    "<cac:LegalMonetaryTotal>",
+    money("cbc:LineExtensionAmount", invoice.subtotal, cur),
+    // OIOUBL-særhed: TaxExclusiveAmount er selve momsbeløbet, ikke beløb ekskl. moms
+    money("cbc:TaxExclusiveAmount", invoice.vatAmount, cur),
+    money("cbc:TaxInclusiveAmount", invoice.total, cur),
+    money("cbc:PayableAmount", invoice.total, cur),
+    "</cac:LegalMonetaryTotal>",
+    ...invoice.lines.map((line, i) => invoiceLine(invoice, line, i)),
+  ].filter(Boolean);
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<Invoice xmlns="${NS.invoice}" xmlns:cac="${NS.cac}" xmlns:cbc="${NS.cbc}">`,
+    ...body.map((part) => `  ${part}`),
+    "</Invoice>",
+    "",
+  ].join("\n");
+}
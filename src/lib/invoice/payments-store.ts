@@ -0,0 +1,147 @@
+import { supabase, HAS_SUPABASE } from "@/lib/supabase";
+import { logger } from "@/lib/logger";
+import { listBankTransactions } from "@/lib/bank/store";
+import type { Invoice, InvoicePayment, InvoicePaymentInput, ReceivablesLedger } from "./types";
+import { getInvoice, listInvoices, updateInvoice } from "./store";
+import {
+  buildReceivablesLedger,
+  matchPaymentsToInvoices,
+  statusForPaid,
+  type PaymentAllocation,
+  type ReconcileTransaction,
+} from "./reconcile";
+
+function rowToPayment(row: Record<string, unknown>): InvoicePayment {
+  return {
+    id: String(row.id),
+    invoiceId: String(row.invoice_id || ""),
+    transactionId: String(row.transaction_id || ""),
+    postedDate: String(row.posted_date || "").slice(0, 10),
+    amount: Number(row.amount || 0),
+    matchedBy: (row.matched_by as InvoicePayment["matchedBy"]) || "manual",
+    note: String(row.note || ""),
+    createdAt: String(row.created_at || new Date().toISOString()),
+  };
+}
+
+function newPaymentId(): string {
+  return `pay-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+function round2(n: number): number {
+  return Math.round((n + Number.EPSILON) * 100) / 100;
+}
+
+export async function listInvoicePayments(invoiceId: string): Promise<InvoicePayment[]> {
+  if (!HAS_SUPABASE || !supabase) return [];
+  try {
+    const { data, error } = await supabase
+      .from("invoice_payments")
+      .select("*")
+      .eq("invoice_id", invoiceId)
+      .order("posted_date", { ascending: true });
+    if (error) throw error;
+    return (data || []).map(rowToPayment);
+  } catch (err) {
+    logger.error(`[invoice-payments] listInvoicePayments error: ${err instanceof Error ? err.message : err}`);
+    return [];
+  }
+}
+
+async function matchedTransactionIds(): Promise<Set<string>> {
+  if (!supabase) return new Set();
+  const { data, error } = await supabase
+    .from("invoice_payments")
+    .select("transaction_id")
+    .not("transaction_id", "is", null);
+  if (error) throw error;
+  return new Set((data || []).map((r) => String(r.transaction_id)));
+}
+
+/** Re-sum payments onto the invoice and derive delvist_betalt/betalt. */
+async function refreshPaidAmount(invoice: Invoice): Promise<Invoice> {
+  const payments = await listInvoicePayments(invoice.id);
+  const paid = round2(payments.reduce((s, p) => s + p.amount, 0));
+  return updateInvoice(invoice.id, { paidAmount: paid, status: statusForPaid(invoice, paid) });
+}
+
+/** Manual registration (check, kontant, betaling uden reference …). */
+export async function registerInvoicePayment(
+  invoiceId: string,
+  input: InvoicePaymentInput
+): Promise<{ payment: InvoicePayment; invoice: Invoice }> {
+  if (!HAS_SUPABASE || !supabase) {
+    throw new Error("Supabase is not configured");
+  }
+  const invoice = await getInvoice(invoiceId);
+  if (!invoice) throw new Error("Faktura ikke fundet");
+  if (invoice.status === "annulleret") throw new Error("Fakturaen er annulleret");
+
+  const { data, error } = await supabase
+    .from("invoice_payments")
+    .insert({
+      id: newPaymentId(),
+      invoice_id: invoiceId,
+      transaction_id: input.transactionId || null,
+      posted_date: input.postedDate,
+      amount: round2(input.amount),
+      matched_by: "manual",
+      note: input.note || "",
+    })
+    .select("*")
+    .single();
+  if (error) throw error;
+  if (!data) throw new Error("Insert returned no data");
+  return { payment: rowToPayment(data), invoice: await refreshPaidAmount(invoice) };
+}
+
+/**
+ * Match incoming bank transactions against open invoices and register the
+ * payments. Transactions already allocated to an invoice are skipped, so
+ * it is safe to run again on overlapping statements.
+ */
+export async function reconcileInvoicePayments(txs: ReconcileTransaction[]): Promise<PaymentAllocation[]> {
+  if (!HAS_SUPABASE || !supabase) return [];
+  const { items: invoices } = await listInvoices({ limit: 2000 });
+  if (!invoices.some((inv) => inv.status === "udstedt" || inv.status === "delvist_betalt")) return [];
+
+  const allocations = matchPaymentsToInvoices(txs, invoices, await matchedTransactionIds());
+  if (allocations.length === 0) return [];
+
+  const { error } = await supabase.from("invoice_payments").upsert(
+    allocations.map((a) => ({
+      id: newPaymentId(),
+      invoice_id: a.invoiceId,
+      transaction_id: a.transactionId,
+      posted_date: a.postedDate,
+      amount: a.amount,
+      matched_by: a.matchedBy,
+      note: a.transactionTitle,
+    })),
+    { onConflict: "transaction_id,invoice_id", ignoreDuplicates: true }
+  );
+  if (error) throw error;
+
+  const byId = new Map(invoices.map((inv) => [inv.id, inv]));
+  for (const invoiceId of new Set(allocations.map((a) => a.invoiceId))) {
+    const inv = byId.get(invoiceId);
+    if (!inv) continue;
+    try {
+      await refreshPaidAmount(inv);
+    } catch (err) {
+      logger.warn(`[invoice-payments] kunne ikke opdatere faktura ${inv.invoiceNumber}: ${err instanceof Error ? err.message : err}`);
+    }
+  }
+  return allocations;
+}
+
+/** Re-run matching over the stored bank history (manual "Afstem" button). */
+export async function reconcileFromBankHistory(): Promise<PaymentAllocation[]> {
+  const txs = await listBankTransactions(5000);
+  return reconcileInvoicePayments(txs);
+}
+
+export async function getReceivablesLedger(asOf = new Date().toISOString().slice(0, 10)): Promise<ReceivablesLedger> {
+  const { items } = await listInvoices({ limit: 2000 });
+  return buildReceivablesLedger(items, asOf);
+}
@@ -0,0 +1,195 @@
+import PDFDocument from "pdfkit";
+import { config } from "@/lib/config";
+import { getHydeLogoBuffer } from "@/lib/tilbud/branding.server";
+import {
+  HYDE_ADDRESS_LINE,
+  HYDE_CITY_LINE,
+  HYDE_COMPANY_NAME,
+} from "@/lib/tilbud/branding";
+import type { Invoice } from "./types";
+
+const SLATE_900 = "#0f172a";
+const SLATE_700 = "#334155";
+const SLATE_500 = "#64748b";
+const SLATE_200 = "#e2e8f0";
+const INDIGO = "#4f46e5";
+
+function formatMoney(value: number, currency = "DKK"): string {
+  return `${value.toLocaleString("da-DK", { minimumFractionDigits: 2, maximumFractionDigits: 2 })} ${currency}`;
+}
+
+function formatAmount(value: number): string {
+  return value.toLocaleString("da-DK", { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+}
+
+function safeDate(input?: string): string {
+  if (!input) return "";
+  if (/^\d{4}-\d{2}-\d{2}$/.test(input)) {
+    const [y, m, d] = input.split("-");
+    return `${d}-${m}-${y}`;
+  }
+  return input;
+}
+
+function paymentLines(invoice: Invoice): string[] {
+  const inv = config.invoice;
+  const lines: string[] = [];
+  if (inv.fiCreditorNo) {
+    lines.push(`Indbetalingskort: +71<${invoice.paymentReference}+${inv.fiCreditorNo}<`);
+  }
+  if (inv.bankRegNo && inv.bankAccountNo) lines.push(`Reg.nr. ${inv.bankRegNo}  Konto ${inv.bankAccountNo}`);
+  if (inv.iban) lines.push(`IBAN ${inv.iban}`);
+  lines.push(`Betalings-id: ${invoice.paymentReference}`);
+  lines.push(`Angiv fakturanr. ${invoice.invoiceNumber} ved betaling.`);
+  return lines;
+}
+
+/** Branded invoice PDF — same header/footer look as the tilbud PDF. */
+export async function generateInvoicePdf(invoice: Invoice): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    const doc = new PDFDocument({
+      size: "A4",
+      margin: 0,
+      info: {
+        Title: `Faktura ${invoice.invoiceNumber}`,
+        Author: "Ejendom AI",
+        Subject: "Faktura",
+        Creator: "Ejendom AI",
+      },
+    });
+    doc.on("data", (chunk: Buffer) => chunks.push(chunk));
+    doc.on("end", () => resolve(Buffer.concat(chunks)));
+    doc.on("error", reject);
+
+    const W = 595.28;
+    const H = 841.89;
+    const marginX = 42;
+    const tableEndX = W - marginX;
+    const hydeLogo = getHydeLogoBuffer();
+    const cur = invoice.currency;
+
+    const drawHeader = () => {
+      doc.rect(0, 0, W, 74).fill(SLATE_900);
+      doc.rect(0, 0, W, 5).fill(INDIGO);
+      doc.fillColor("white").font("Helvetica-Bold").fontSize(18).text("FAKTURA", marginX, 24);
+      if (hydeLogo) {
+        try {
+          doc.image(hydeLogo, 210, 10, { fit: [58, 58], align: "center", valign: "center" });
+        } catch {
+          // Logo render should never block PDF generation
+        }
+      }
+      doc.fillColor(SLATE_200).font("Helvetica").fontSize(10).text(`Fakturanr.: ${invoice.invoiceNumber}`, W - 200, 28, { width: 160, align: "right" });
+      doc.fillColor(SLATE_200).font("Helvetica").fontSize(10).text(`Dato: ${safeDate(invoice.issueDate)}`, W - 200, 44, { width: 160, align: "right" });
+    };
+
+    const drawFooter = (pageNo: number) => {
+      doc.font("Helvetica").fontSize(8).fillColor(SLATE_500);
+      const cvr = config.invoice.sellerCvr ? ` · CVR ${config.invoice.sellerCvr}` : "";
+      doc.text(`${HYDE_COMPANY_NAME} · ${HYDE_ADDRESS_LINE} · ${HYDE_CITY_LINE}${cvr}`, marginX, H - 30);
+      doc.text(`Side ${pageNo}`, W - 90, H - 30, { width: 48, align: "right" });
+    };
+
+    const drawTopMeta = () => {
+      const y = 92;
+      const c = invoice.customer;
+      doc.font("Helvetica-Bold").fontSize(10).fillColor(SLATE_700).text("Faktureres til", marginX, y);
+      const customerLines = [
+        c.name,
+        c.address,
+        [c.postalCode, c.city].filter(Boolean).join(" "),
+        c.cvr ? `CVR ${c.cvr}` : "",
+        c.ean ? `EAN ${c.ean}` : "",
+        c.reference ? `Att.: ${c.reference}` : "",
+      ].filter(Boolean);
+      doc.font("Helvetica").fontSize(10).fillColor(SLATE_900).text(customerLines.join("\n"), marginX, y + 14, { width: 220 });
+
+      const metaX = W - 220;
+      const meta: Array<[string, string]> = [
+        ["Fakturadato", safeDate(invoice.issueDate)],
+        ["Forfaldsdato", safeDate(invoice.dueDate)],
+        ["Betalingsbetingelser", `Netto ${invoice.paymentTermsDays} dage`],
+        ["Case", invoice.caseNumber || "-"],
+      ];
+      meta.forEach(([label, value], i) => {
+        doc.font("Helvetica-Bold").fontSize(9).fillColor(SLATE_700).text(label, metaX, y + i * 16);
+        doc.font("Helvetica").fontSize(9).fillColor(SLATE_900).text(value, metaX + 90, y + i * 16, { width: 88, align: "right" });
+      });
+
+      const bottom = Math.max(doc.y, y + meta.length * 16) + 16;
+      doc.moveTo(marginX, bottom).lineTo(tableEndX, bottom).strokeColor(SLATE_200).lineWidth(1).stroke();
+      return bottom + 14;
+    };
+
+    const col = { desc: marginX, period: marginX + 230, qty: marginX + 340, unit: marginX + 375, amount: marginX + 445 };
+
+    const drawTableHead = (y: number) => {
+      doc.rect(marginX, y - 4, tableEndX - marginX, 20).fill("#000000");
+      doc.fillColor("#ffffff").font("Helvetica-Bold").fontSize(9);
+      doc.text("Beskrivelse", col.desc + 4, y);
+      doc.text("Periode", col.period + 4, y);
+      doc.text("Antal", col.qty + 4, y, { width: 30, align: "right" });
+      doc.text("Stk.pris", col.unit + 4, y, { width: 62, align: "right" });
+      doc.text("Beløb", col.amount + 4, y, { width: 60, align: "right" });
+      return y + 24;
+    };
+
+    drawHeader();
+    let pageNo = 1;
+    let y = drawTableHead(drawTopMeta());
+
+    for (const line of invoice.lines) {
+      if (y > H - 220) {
+        drawFooter(pageNo);
+        doc.addPage();
+        pageNo += 1;
+        drawHeader();
+        y = drawTableHead(102);
+      }
+      doc.fillColor(SLATE_900).font("Helvetica").fontSize(9);
+      doc.text(line.description, col.desc + 4, y + 2, { width: 222, ellipsis: true });
+      doc.text(line.period || "-", col.period + 4, y + 2, { width: 104, ellipsis: true });
+      doc.text(String(line.quantity), col.qty + 4, y + 2, { width: 30, align: "right" });
+      doc.text(formatAmount(line.unitPrice), col.unit + 4, y + 2, { width: 62, align: "right" });
+      doc.text(formatAmount(line.amount), col.amount + 4, y + 2, { width: 60, align: "right" });
+      doc.moveTo(marginX, y + 22).lineTo(tableEndX, y + 22).strokeColor("#f1f5f9").lineWidth(1).stroke();
+      y += 22;
+    }
+
+    // Totals
+    y += 16;
+    const boxX = W - marginX - 240;
+    const boxW = 240;
+    doc.rect(boxX, y, boxW, 16).fill("#000000");
+    doc.fillColor("#ffffff").font("Helvetica-Bold").fontSize(8).text("TOTAL", boxX + 8, y + 4);
+    doc.rect(boxX, y + 16, boxW, 70).fill("#f8fafc");
+    doc.fillColor(SLATE_700).font("Helvetica").fontSize(9);
+    doc.text("Subtotal ekskl. moms", boxX + 10, y + 24);
+    doc.text(formatMoney(invoice.subtotal, cur), boxX + 120, y + 24, { width: 108, align: "right" });
+    doc.text(`Moms (${invoice.momsPct}%)`, boxX + 10, y + 42);
+    doc.text(formatMoney(invoice.vatAmount, cur), boxX + 120, y + 42, { width: 108, align: "right" });
+    doc.rect(boxX + 8, y + 58, boxW - 16, 1).fill(SLATE_200);
+    doc.font("Helvetica-Bold").fillColor(SLATE_900);
+    doc.text("At betale", boxX + 10, y + 66);
+    doc.text(formatMoney(invoice.total, cur), boxX + 120, y + 66, { width: 108, align: "right" });
+    y += 104;
+
+    // Payment info
+    doc.font("Helvetica-Bold").fontSize(10).fillColor(SLATE_700).text("Betaling", marginX, y);
+    doc.font("Helvetica").fontSize(9).fillColor(SLATE_900).text(
+      [`Betales senest ${safeDate(invoice.dueDate)}.`, ...paymentLines(invoice)].join("\n"),
+      marginX,
+      y + 14,
+      { width: W - marginX * 2 }
+    );
+    if (invoice.notes) {
+      y = doc.y + 12;
+      doc.font("Helvetica-Bold").fontSize(10).fillColor(SLATE_700).text("Bemærkninger", marginX, y);
+      doc.font("Helvetica").fontSize(9).fillColor(SLATE_900).text(invoice.notes, marginX, y + 14, { width: W - marginX * 2 });
+    }
+
+    drawFooter(pageNo);
+    doc.end();
+  });
+}
@@ -0,0 +1,228 @@
+import type {
+  AgingBucket,
+  Invoice,
+  InvoicePayment,
+  InvoiceStatus,
+  ReceivableCustomer,
+  ReceivablesLedger,
+  OverdueInvoice,
+} from "./types";
+
+/**
+ * Matching of incoming bank transactions (category `indtaegt`) to open
+ * invoices. Pure — the store applies the result.
+ *
+ * A transaction is matched when:
+ *  1. its title contains the invoice number or payment reference
+ *     (pays the full outstanding amount or part of it), or
+ *  2. its amount equals exactly one open invoice's outstanding amount
+ *     and the date lies within the invoice's window.
+ * Ambiguous amount-only matches are left for manual handling.
+ */
+
+const AMOUNT_TOLERANCE = 0.5;
+/** Customers sometimes pay a few days before the invoice date (pro forma, early transfer). */
+const DAYS_BEFORE_ISSUE = 7;
+/** Amount-only matches are only trusted this long after the due date. */
+const DAYS_AFTER_DUE = 90;
+
+const dayMs = 24 * 60 * 60 * 1000;
+
+export interface ReconcileTransaction {
+  id: string;
+  postedDate: string;
+  title: string;
+  amount: number;
+  category?: string;
+}
+
+export interface PaymentAllocation {
+  invoiceId: string;
+  invoiceNumber: string;
+  transactionId: string;
+  postedDate: string;
+  amount: number;
+  matchedBy: InvoicePayment["matchedBy"];
+  transactionTitle: string;
+}
+
+function round2(n: number): number {
+  return Math.round((n + Number.EPSILON) * 100) / 100;
+}
+
+function daysBetween(a: string, b: string): number {
+  return (new Date(a).getTime() - new Date(b).getTime()) / dayMs;
+}
+
+export function isOpenInvoice(inv: Invoice): boolean {
+  return inv.status === "udstedt" || inv.status === "delvist_betalt";
+}
+
+export function outstandingAmount(inv: Invoice): number {
+  return Math.max(0, round2(inv.total - (inv.paidAmount || 0)));
+}
+
+/** Status after `paidAmount` has been registered against the invoice. */
+export function statusForPaid(inv: Invoice, paidAmount: number): InvoiceStatus {
+  if (inv.status === "annulleret") return inv.status;
+  if (paidAmount >= inv.total - AMOUNT_TOLERANCE) return "betalt";
+  if (paidAmount > 0) return "delvist_betalt";
+  return "udstedt";
+}
+
+/** Does the title mention the invoice number (or its payment reference)? */
+export function titleReferencesInvoice(title: string, inv: Invoice): boolean {
+  const digitsRuns = title.match(/\d{4,}/g) || [];
+  const ref = inv.paymentReference.replace(/^0+/, "");
+  return digitsRuns.some((run) => {
+    const trimmed = run.replace(/^0+/, "");
+    return run === inv.invoiceNumber || (ref.length > 0 && trimmed === ref);
+  });
+}
+
+function inDateWindow(tx: ReconcileTransaction, inv: Invoice): boolean {
+  if (daysBetween(tx.postedDate, inv.issueDate) < -DAYS_BEFORE_ISSUE) return false;
+  return daysBetween(tx.postedDate, inv.dueDate) <= DAYS_AFTER_DUE;
+}
+
+export function matchPaymentsToInvoices(
+  txs: ReconcileTransaction[],
+  invoices: Invoice[],
+  alreadyMatchedTxIds: Set<string>
+): PaymentAllocation[] {
+  const outstanding = new Map(invoices.filter(isOpenInvoice).map((inv) => [inv.id, outstandingAmount(inv)]));
+  const open = invoices.filter((inv) => outstanding.has(inv.id));
+  const allocations: PaymentAllocation[] = [];
+
+  const incoming = txs
+    .filter((tx) => tx.amount > 0 && (!tx.category || tx.category === "indtaegt"))
+    .filter((tx) => !alreadyMatchedTxIds.has(tx.id))
+    .sort((a, b) => a.postedDate.localeCompare(b.postedDate));
+
+  for (const tx of incoming) {
+    const remaining = () => open.filter((inv) => (outstanding.get(inv.id) || 0) > AMOUNT_TOLERANCE);
+
+    // 1) Fakturanummer/betalings-id i posteringsteksten
+    const byNumber = remaining().filter(
+      (inv) => titleReferencesInvoice(tx.title, inv) && daysBetween(tx.postedDate, inv.issueDate) >= -DAYS_BEFORE_ISSUE
+    );
+    if (byNumber.length > 0) {
+      // Én betaling kan dække flere fakturaer nævnt i samme tekst — ældste først
+      let left = tx.amount;
+      for (const inv of byNumber.sort((a, b) => a.issueDate.localeCompare(b.issueDate))) {
+        if (left <= AMOUNT_TOLERANCE) break;
+        const owed = outstanding.get(inv.id) || 0;
+        const amount = round2(Math.min(left, owed));
+        outstanding.set(inv.id, round2(owed - amount));
+        left = round2(left - amount);
+        allocations.push({
+          invoiceId: inv.id,
+          invoiceNumber: inv.invoiceNumber,
+          transactionId: tx.id,
+          postedDate: tx.postedDate,
+          amount,
+          matchedBy: "auto_number",
+          transactionTitle: tx.title,
+        });
+      }
+      continue;
+    }
+
+    // 2) Præcist beløb mod én (og kun én) åben faktura i datovinduet
+    const byAmount = remaining().filter(
+      (inv) => Math.abs((outstanding.get(inv.id) || 0) - tx.amount) <= AMOUNT_TOLERANCE && inDateWindow(tx, inv)
+    );
+    if (byAmount.length !== 1) continue; // 0 = intet match, >1 = tvetydigt
+    const inv = byAmount[0];
+    const amount = round2(Math.min(tx.amount, outstanding.get(inv.id) || 0));
+    outstanding.set(inv.id, 0);
+    allocations.push({
+      invoiceId: inv.id,
+      invoiceNumber: inv.invoiceNumber,
+      transactionId: tx.id,
+      postedDate: tx.postedDate,
+      amount,
+      matchedBy: "auto_amount",
+      transactionTitle: tx.title,
+    });
+  }
+
+  return allocations;
+}
+
+function agingBucket(daysOverdue: number): AgingBucket {
+  if (daysOverdue <= 0) return "ikke_forfalden";
+  if (daysOverdue <= 30) return "0_30";
+  if (daysOverdue <= 60) return "31_60";
+  if (daysOverdue <= 90) return "61_90";
+  return "over_90";
+}
+
+/** Debitor-oversigt: outstanding per customer, aging and overdue list. */
+export function buildReceivablesLedger(invoices: Invoice[], asOf: string): ReceivablesLedger {
+  const aging: Record<AgingBucket, number> = {
+    ikke_forfalden: 0,
+    "0_30": 0,
+    "31_60": 0,
+    "61_90": 0,
+    over_90: 0,
+  };
+  const customers = new Map<string, ReceivableCustomer>();
+  const overdue: OverdueInvoice[] = [];
+
+  for (const inv of invoices) {
+    if (inv.status === "annulleret") continue;
+    const key = inv.customer.cvr?.replace(/\D/g, "") || inv.customer.name.trim().toLowerCase();
+    let cust = customers.get(key);
+    if (!cust) {
+      cust = {
+        key,
+        customerName: inv.customer.name,
+        caseIds: [],
+        invoiced: 0,
+        paid: 0,
+        outstanding: 0,
+        overdue: 0,
+        openInvoices: 0,
+        oldestOverdueDays: 0,
+      };
+      customers.set(key, cust);
+    }
+    if (!cust.caseIds.includes(inv.caseId)) cust.caseIds.push(inv.caseId);
+    cust.invoiced = round2(cust.invoiced + inv.total);
+    cust.paid = round2(cust.paid + (inv.paidAmount || 0));
+
+    const owed = isOpenInvoice(inv) ? outstandingAmount(inv) : 0;
+    if (owed <= 0) continue;
+    const daysOverdue = Math.floor(daysBetween(asOf, inv.dueDate));
+    const bucket = agingBucket(daysOverdue);
+    aging[bucket] = round2(aging[bucket] + owed);
+    cust.outstanding = round2(cust.outstanding + owed);
+    cust.openInvoices++;
+    if (daysOverdue > 0) {
+      cust.overdue = round2(cust.overdue + owed);
+      cust.oldestOverdueDays = Math.max(cust.oldestOverdueDays, daysOverdue);
+      overdue.push({
+        id: inv.id,
+        invoiceNumber: inv.invoiceNumber,
+        caseId: inv.caseId,
+        caseNumber: inv.caseNumber,
+        customerName: inv.customer.name,
+        dueDate: inv.dueDate,
+        daysOverdue,
+        outstanding: owed,
+        bucket,
+      });
+    }
+  }
+
+  const list = [...customers.values()].sort((a, b) => b.outstanding - a.outstanding);
+  return {
+    asOf,
+    totalOutstanding: round2(list.reduce((s, c) => s + c.outstanding, 0)),
+    totalOverdue: round2(list.reduce((s, c) => s + c.overdue, 0)),
+    aging,
+    customers: list,
+    overdue: overdue.sort((a, b) => b.daysOverdue - a.daysOverdue),
+  };
+}
@@ -0,0 +1,188 @@
+import { supabase, HAS_SUPABASE } from "@/lib/supabase";
+import { logger } from "@/lib/logger";
+import { config } from "@/lib/config";
+import { getCase } from "@/lib/case/store";
+import { getCostSettings } from "@/lib/case/settings-store";
+import {
+  invoiceSchema,
+  type Invoice,
+  type InvoiceCreateInput,
+  type InvoiceCustomer,
+  type InvoiceLine,
+  type InvoiceListResult,
+  type InvoiceStatus,
+} from "./types";
+import { buildInvoiceFromCase, nextInvoiceNumber } from "./from-case";
+import { buildOioublXml } from "./oioubl";
+
+// ─── Row mapping ────────────────────────────────────────────
+
+function rowToInvoice(row: Record<string, unknown>): Invoice {
+  return {
+    id: String(row.id),
+    invoiceNumber: String(row.invoice_number || ""),
+    caseId: String(row.case_id || ""),
+    caseNumber: String(row.case_number || ""),
+    customer: (row.customer || { name: "" }) as InvoiceCustomer,
+    issueDate: String(row.issue_date || "").slice(0, 10),
+    dueDate: String(row.due_date || "").slice(0, 10),
+    paymentTermsDays: Number(row.payment_terms_days ?? 14),
+    paymentReference: String(row.payment_reference || ""),
+    currency: String(row.currency || "DKK"),
+    momsPct: Number(row.moms_pct ?? 25),
+    lines: (Array.isArray(row.lines) ? row.lines : []) as InvoiceLine[],
+    subtotal: Number(row.subtotal || 0),
+    vatAmount: Number(row.vat_amount || 0),
+    total: Number(row.total || 0),
+    paidAmount: Number(row.paid_amount || 0),
+    status: (row.status as InvoiceStatus) || "udstedt",
+    notes: String(row.notes || ""),
+    createdAt: String(row.created_at || new Date().toISOString()),
+    updatedAt: String(row.updated_at || new Date().toISOString()),
+  };
+}
+
+function invoiceToRow(inv: Invoice): Record<string, unknown> {
+  return {
+    id: inv.id,
+    invoice_number: inv.invoiceNumber,
+    case_id: inv.caseId,
+    case_number: inv.caseNumber || "",
+    customer: inv.customer,
+    issue_date: inv.issueDate,
+    due_date: inv.dueDate,
+    payment_terms_days: inv.paymentTermsDays,
+    payment_reference: inv.paymentReference,
+    currency: inv.currency,
+    moms_pct: inv.momsPct,
+    lines: inv.lines,
+    subtotal: inv.subtotal,
+    vat_amount: inv.vatAmount,
+    total: inv.total,
+    paid_amount: inv.paidAmount,
+    status: inv.status,
+    notes: inv.notes || "",
+    updated_at: inv.updatedAt,
+  };
+}
+
+// ─── Public API (async) ─────────────────────────────────────
+
+export async function listInvoices(opts?: {
+  caseId?: string;
+  status?: InvoiceStatus;
+  limit?: number;
+}): Promise<InvoiceListResult> {
+  if (!HAS_SUPABASE || !supabase) return { items: [], total: 0 };
+  try {
+    let query = supabase
+      .from("invoices")
+      .select("*", { count: "exact" })
+      .order("invoice_number", { ascending: false })
+      .limit(opts?.limit ?? 500);
+    if (opts?.caseId) query = query.eq("case_id", opts.caseId);
+    if (opts?.status) query = query.eq("status", opts.status);
+    const { data, error, count } = await query;
+    if (error) throw error;
+    const items = (data || []).map(rowToInvoice);
+    return { items, total: count ?? items.length };
+  } catch (err) {
+    logger.error(`[invoice-store] listInvoices error: ${err instanceof Error ? err.message : err}`);
+    return { items: [], total: 0 };
+  }
+}
+
+export async function getInvoice(id: string): Promise<Invoice | undefined> {
+  if (!HAS_SUPABASE || !supabase) return undefined;
+  try {
+    const { data, error } = await supabase.from("invoices").select("*").eq("id", id).maybeSingle();
+    if (error) throw error;
+    return data ? rowToInvoice(data) : undefined;
+  } catch (err) {
+    logger.error(`[invoice-store] getInvoice error: ${err instanceof Error ? err.message : err}`);
+    return undefined;
+  }
+}
+
+/** The OIOUBL document frozen at issue time. */
+export async function getInvoiceXml(id: string): Promise<string | undefined> {
+  if (!HAS_SUPABASE || !supabase) return undefined;
+  try {
+    const { data, error } = await supabase.from("invoices").select("oioubl_xml").eq("id", id).maybeSingle();
+    if (error) throw error;
+    return data?.oioubl_xml ? String(data.oioubl_xml) : undefined;
+  } catch (err) {
+    logger.error(`[invoice-store] getInvoiceXml error: ${err instanceof Error ? err.message : err}`);
+    return undefined;
+  }
+}
+
+async function invoiceNumbersForYear(year: number): Promise<string[]> {
+  if (!supabase) return [];
+  const { data, error } = await supabase
+    .from("invoices")
+    .select("invoice_number")
+    .like("invoice_number", `${year}%`);
+  if (error) throw error;
+  return (data || []).map((r) => String(r.invoice_number));
+}
+
+/**
+ * Issue a new invoice for a case. The number is the next in the year's
+ * sequence; the unique index on invoice_number guards against two
+ * invoices racing for the same number (we retry once).
+ */
+export async function createInvoiceForCase(caseId: string, input: InvoiceCreateInput): Promise<Invoice> {
+  if (!HAS_SUPABASE || !supabase) {
+    throw new Error("Supabase is not configured");
+  }
+  const c = await getCase(caseId);
+  if (!c) throw new Error("Case ikke fundet");
+  const [settings, { items: existing }] = await Promise.all([
+    getCostSettings(),
+    listInvoices({ caseId }),
+  ]);
+
+  const year = Number((input.issueDate || new Date().toISOString()).slice(0, 4));
+  for (let attempt = 1; attempt <= 2; attempt++) {
+    const invoiceNumber = nextInvoiceNumber(await invoiceNumbersForYear(year), year);
+    const built = buildInvoiceFromCase(c, settings, input, {
+      invoiceNumber,
+      existing,
+      defaultTermsDays: config.invoice.paymentTermsDays,
+    });
+    const parsed = invoiceSchema.safeParse(built);
+    if (!parsed.success) {
+      throw new Error(parsed.error.issues.map((x) => x.message).join(", "));
+    }
+
+    const { data, error } = await supabase
+      .from("invoices")
+      .insert({ ...invoiceToRow(parsed.data), oioubl_xml: buildOioublXml(parsed.data) })
+      .select("*")
+      .single();
+    if (error?.code === "23505" && attempt === 1) continue; // nummer taget — prøv næste
+    if (error) throw error;
+    if (!data) throw new Error("Insert returned no data");
+    return rowToInvoice(data);
+  }
+  throw new Error("Kunne ikke tildele fakturanummer");
+}
+
+/** Status/payment updates. Amounts and lines are immutable once issued. */
+export async function updateInvoice(
+  id: string,
+  patch: { status?: InvoiceStatus; paidAmount?: number; notes?: string }
+): Promise<Invoice> {
+  if (!HAS_SUPABASE || !supabase) {
+    throw new Error("Supabase is not configured");
+  }
+  const update: Record<string, unknown> = { updated_at: new Date().toISOString() };
+  if (patch.status) update.status = patch.status;
+  if (patch.paidAmount != null) update.paid_amount = patch.paidAmount;
+  if (patch.notes != null) update.notes = patch.notes;
+  const { data, error } = await supabase.from("invoices").update(update).eq("id", id).select("*").single();
+  if (error) throw error;
+  if (!data) throw new Error("Update returned no data");
+  return rowToInvoice(data);
+}
@@ -0,0 +1,169 @@
+import { z } from "zod";
+
+export const INVOICE_STATUSES = [
+  "udstedt",
+  "delvist_betalt",
+  "betalt",
+  "annulleret",
+] as const;
+
+export const invoiceStatusSchema = z.enum(INVOICE_STATUSES);
+export type InvoiceStatus = z.infer<typeof invoiceStatusSchema>;
+
+export const INVOICE_STATUS_LABEL: Record<InvoiceStatus, string> = {
+  udstedt: "Udstedt",
+  delvist_betalt: "Delvist betalt",
+  betalt: "Betalt",
+  annulleret: "Annulleret",
+};
+
+export const INVOICE_STATUS_COLOR: Record<InvoiceStatus, string> = {
+  udstedt: "bg-blue-50 text-blue-700 border-blue-300",
+  delvist_betalt: "bg-amber-50 text-amber-700 border-amber-300",
+  betalt: "bg-emerald-50 text-emerald-700 border-emerald-300",
+  annulleret: "bg-slate-100 text-slate-500 border-slate-300",
+};
+
+/**
+ * Where an invoice line came from on the case. Used to avoid invoicing
+ * the same sale or service twice: "sale:<saleId>", "produktion",
+ * "montering", "kommunale".
+ */
+export const invoiceLineSchema = z.object({
+  id: z.string().min(1),
+  source: z.string().default(""),
+  description: z.string().min(1),
+  period: z.string().optional().default(""),
+  quantity: z.number().positive().default(1),
+  unitPrice: z.number().nonnegative().default(0),
+  amount: z.number().nonnegative().default(0),   // quantity × unitPrice, ekskl. moms
+});
+
+export type InvoiceLine = z.infer<typeof invoiceLineSchema>;
+
+export const invoiceCustomerSchema = z.object({
+  name: z.string().min(1, "Kundenavn mangler"),
+  address: z.string().optional().default(""),
+  postalCode: z.string().optional().default(""),
+  city: z.string().optional().default(""),
+  cvr: z.string().optional().default(""),
+  ean: z.string().optional().default(""),      // GLN til offentlige kunder (NemHandel)
+  email: z.string().optional().default(""),
+  reference: z.string().optional().default(""),
+});
+
+export type InvoiceCustomer = z.infer<typeof invoiceCustomerSchema>;
+
+export const invoiceSchema = z.object({
+  id: z.string().min(1),
+  invoiceNumber: z.string().min(1),             // fortløbende, kun cifre (fx 20260001)
+  caseId: z.string().min(1),
+  caseNumber: z.string().optional().default(""),
+  customer: invoiceCustomerSchema,
+  issueDate: z.string().min(1),                 // YYYY-MM-DD
+  dueDate: z.string().min(1),
+  paymentTermsDays: z.number().int().nonnegative().default(14),
+  paymentReference: z.string().default(""),     // betalings-id (modulus 10) til FIK/overførsel
+  currency: z.string().default("DKK"),
+  momsPct: z.number().min(0).max(100).default(25),
+  lines: z.array(invoiceLineSchema).min(1, "Fakturaen har ingen linjer"),
+  subtotal: z.number().default(0),
+  vatAmount: z.number().default(0),
+  total: z.number().default(0),
+  paidAmount: z.number().nonnegative().default(0),
+  status: invoiceStatusSchema.default("udstedt"),
+  notes: z.string().optional().default(""),
+  createdAt: z.string().min(1),
+  updatedAt: z.string().min(1),
+});
+
+export type Invoice = z.infer<typeof invoiceSchema>;
+
+/** Options when generating an invoice from a case. */
+export const invoiceCreateInputSchema = z.object({
+  issueDate: z.string().optional(),
+  paymentTermsDays: z.number().int().min(0).max(365).optional(),
+  /** Sales to include. Omitted = all sales not already invoiced. */
+  saleIds: z.array(z.string()).optional(),
+  /** Include produktion/montering/kommunale gebyrer (if not already invoiced). */
+  includeServices: z.boolean().optional().default(true),
+  customer: invoiceCustomerSchema.partial().optional(),
+  notes: z.string().optional(),
+});
+
+export type InvoiceCreateInput = z.infer<typeof invoiceCreateInputSchema>;
+
+/**
+ * A payment registered against an invoice — auto-matched from a bank
+ * transaction or entered by hand. invoice.paidAmount is the sum of these.
+ */
+export const invoicePaymentSchema = z.object({
+  id: z.string().min(1),
+  invoiceId: z.string().min(1),
+  transactionId: z.string().optional().default(""),   // bank_transactions.id ("" for manuel)
+  postedDate: z.string().min(1),
+  amount: z.number().positive(),
+  matchedBy: z.enum(["auto_number", "auto_amount", "manual"]).default("manual"),
+  note: z.string().optional().default(""),
+  createdAt: z.string().min(1),
+});
+
+export type InvoicePayment = z.infer<typeof invoicePaymentSchema>;
+
+export const invoicePaymentInputSchema = z.object({
+  amount: z.number().positive("Beløb skal være positivt"),
+  postedDate: z.string().min(1, "Dato mangler"),
+  transactionId: z.string().optional(),
+  note: z.string().optional(),
+});
+
+export type InvoicePaymentInput = z.infer<typeof invoicePaymentInputSchema>;
+
+export type AgingBucket = "ikke_forfalden" | "0_30" | "31_60" | "61_90" | "over_90";
+
+export const AGING_BUCKET_LABEL: Record<AgingBucket, string> = {
+  ikke_forfalden: "Ikke forfalden",
+  "0_30": "1–30 dage",
+  "31_60": "31–60 dage",
+  "61_90": "61–90 dage",
+  over_90: "Over 90 dage",
+};
+
+/** Outstanding amount for one customer (grouped by CVR, else name). */
+export interface ReceivableCustomer {
+  key: string;
+  customerName: string;
+  caseIds: string[];
+  invoiced: number;
+  paid: number;
+  outstanding: number;
+  overdue: number;
+  openInvoices: number;
+  oldestOverdueDays: number;
+}
+
+export interface OverdueInvoice {
+  id: string;
+  invoiceNumber: string;
+  caseId: string;
+  caseNumber: string;
+  customerName: string;
+  dueDate: string;
+  daysOverdue: number;
+  outstanding: number;
+  bucket: AgingBucket;
+}
+
+export interface ReceivablesLedger {
+  asOf: string;
+  totalOutstanding: number;
+  totalOverdue: number;
+  aging: Record<AgingBucket, number>;
+  customers: ReceivableCustomer[];
+  overdue: OverdueInvoice[];
+}
+
+export interface InvoiceListResult {
+  items: Invoice[];
+  total: number;
+}
@@ -52,6 +52,8 @@ export interface LeadContactEntry {
   phone: string | null;
   source: string;
   confidence?: number;
+  /** Set when a mail to `email` bounced; confidence is dropped to 0. */
+  bouncedAt?: string;
 }
 
 export interface LeadFilters {
@@ -313,3 +315,32 @@ export async function deleteLead(id: string): Promise<boolean> {
   }
   return true;
 }
+
+/**
+ * A contact email bounced: drop its confidence to 0 in the leads'
+ * contact lists and clear it where it is the lead's contact email.
+ */
+export async function markLeadContactEmailBounced(email: string): Promise<number> {
+  if (!HAS_SUPABASE || !supabase) return 0;
+  const target = email.trim().toLowerCase();
+
+  const [byContacts, byPrimary] = await Promise.all([
+    supabase.from("leads").select("*").contains("contacts", [{ email: target }]).limit(200),
+    supabase.from("leads").select("*").ilike("contact_email", target).limit(200),
+  ]);
+  if (byContacts.error || byPrimary.error) {
+    logger.warn(`[lead-store] bounce lookup failed: ${(byContacts.error || byPrimary.error)!.message}`, { service: "lead-sourcing" });
+  }
+
+  const leads = new Map<string, LeadRow>();
+  for (const row of [...(byContacts.data || []), ...(byPrimary.data || [])]) leads.set(String(row.id), rowToLead(row));
+
+  const bouncedAt = new Date().toISOString();
+  for (const lead of leads.values()) {
+    await updateLead(lead.id, {
+      contacts: lead.contacts.map((c) => (c.email?.toLowerCase() === target ? { ...c, confidence: 0, bouncedAt } : c)),
+      ...(lead.contact_email?.toLowerCase() === target ? { contact_email: null } : {}),
+    });
+  }
+  return leads.size;
+}
@@ -437,6 +437,21 @@ export async function summarizeResearch(
     }
   }
 
+  // From the administrator directory (contacts learned or curated earlier)
+  if (research.administrator) {
+    for (const person of research.administrator.contacts) {
+      if (rawContacts.some(c => c.name?.toLowerCase() === person.name.toLowerCase())) continue;
+      rawContacts.push({
+        index: idx++,
+        name: person.name,
+        email: person.email,
+        phone: person.phone,
+        source: `Administrator-katalog (${research.administrator.name})${person.verified ? " – verificeret" : ""}`,
+        role_hint: (person.role || "administrator").toLowerCase(),
+      });
+    }
+  }
+
   // From website people (structured extraction)
   if (research.websiteContent?.people) {
     for (const person of research.websiteContent.people) {
@@ -561,12 +576,14 @@ export async function summarizeResearch(
 // â”€â”€â”€ Email Draft Generation â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€
 
 /**
- * Generate an outreach email draft.
+ * Generate an outreach email draft. `promptHint` is an extra
+ * instruction from an A/B prompt variant.
  */
 export async function generateEmailDraft(
   property: Property,
   contact: Contact,
-  analysis: ResearchAnalysis
+  analysis: ResearchAnalysis,
+  options: { promptHint?: string } = {}
 ): Promise<EmailDraft> {
   const client = getClient();
 
@@ -576,7 +593,7 @@ export async function generateEmailDraft(
   const examples = aiSettings.exampleEmails || config.exampleEmails;
   const senderName = aiSettings.senderName || "Mads";
 
-  const prompt = buildEmailPrompt(property, contact, analysis);
+  const prompt = buildEmailPrompt(property, contact, analysis, options.promptHint);
 
   const response = await client.chat.completions.create({
     model: config.openai.model,
@@ -640,7 +657,8 @@ Du svarer ALTID i valid JSON med felterne: subject, body_text, short_internal_no
 function buildEmailPrompt(
   property: Property,
   contact: Contact,
-  analysis: ResearchAnalysis
+  analysis: ResearchAnalysis,
+  promptHint?: string
 ): string {
   const lines = [
     "## Kontekst",
@@ -664,6 +682,7 @@ function buildEmailPrompt(
     "- outdoor score, score, OOH score, potentiale-score eller nogen intern vurdering",
     "- Tal som 8/10 eller scorede hojt – det er interne metrikker der IKKE maer relevante for modtageren",
     "",
+    ...(promptHint ? ["## Saerlig instruks for denne mail", promptHint, ""] : []),
     "Svar i JSON:",
     "{",
     '  "subject": "Konkret emnelinje – ingen buzzwords",',
@@ -674,6 +693,105 @@ function buildEmailPrompt(
   return lines.join("\n");
 }
 
+// ─── Portfolio Email (one mail for all of an owner's properties) ─
+
+export interface PortfolioEmailInput {
+  /** Ultimate parent – the group the mail is addressed to. */
+  groupName: string;
+  /** Group companies that own the properties, when they differ from the group. */
+  ownerCompanies: string[];
+  contact: { name: string | null; role: string | null };
+  /** Strongest properties first; only the first ones are named in the mail. */
+  properties: { address: string; city?: string; notes?: string }[];
+}
+
+/**
+ * Generate one consolidated outreach mail covering a whole owner
+ * portfolio instead of one mail per facade.
+ */
+export async function generatePortfolioEmailDraft(input: PortfolioEmailInput): Promise<EmailDraft> {
+  const client = getClient();
+
+  const aiSettings = await getAISettings();
+  const tone = aiSettings.toneOfVoice || config.toneOfVoice;
+  const senderName = aiSettings.senderName || "Mads";
+
+  const named = input.properties.slice(0, 6);
+  const prompt = [
+    "## Kontekst",
+    `Koncernen ${input.groupName} ejer ${input.properties.length} ejendomme, hvor vi ser muligheder for outdoor reklame.`,
+    "Vi vil kontakte dem EN gang samlet i stedet for pr. ejendom.",
+    ...(input.ownerCompanies.length > 0 ? [`Ejes via: ${input.ownerCompanies.join(", ")}`] : []),
+    "",
+    "## Ejendomme (staerkeste foerst)",
+    ...named.map(p => `- ${p.address}${p.city ? `, ${p.city}` : ""}${p.notes ? ` – ${p.notes.slice(0, 160)}` : ""}`),
+    ...(input.properties.length > named.length ? [`- … og ${input.properties.length - named.length} ejendomme mere`] : []),
+    "",
+    "## Kontaktperson",
+    `- Navn: ${input.contact.name || "Ukendt"}`,
+    `- Rolle: ${input.contact.role || "Ukendt"}`,
+    `- Virksomhed: ${input.groupName}`,
+    "",
+    "## Opgave",
+    "Skriv en kort, personlig mail der foreslaar et samlet samarbejde om facaderne paa tvaers af portefoeljen.",
+    "Naevn 2-3 konkrete adresser og antallet af ejendomme i alt.",
+    "",
+    "DU MAA ALDRIG NAEVNE scores, potentiale-vurderinger eller andre interne metrikker.",
+    "",
+    "Svar i JSON:",
+    "{",
+    '  "subject": "Konkret emnelinje – ingen buzzwords",',
+    '  "body_text": "Brodtekst med \\n for linjeskift. Max 200 ord.",',
+    '  "short_internal_note": "Kort intern note"',
+    "}",
+  ].join("\n");
+
+  const response = await client.chat.completions.create({
+    model: config.openai.model,
+    messages: [
+      {
+        role: "system",
+        content: `Du er en dansk copywriter der skriver outreach-mails til ejendomsselskaber om outdoor reklame-muligheder pa vegne af ${senderName} fra Hyde Media.
+
+TONE OF VOICE:
+${tone}
+
+REGLER:
+- Max 200 ord i brodteksten
+- Start med noget SPECIFIKT om deres ejendomme der viser vi har gjort research
+- Afslut med et lavt-forpligtende spoergsmaal som CTA
+- Underskriv ALTID: Mvh\n${senderName}
+
+Du svarer ALTID i valid JSON med felterne: subject, body_text, short_internal_note.`,
+      },
+      { role: "user", content: prompt },
+    ],
+    response_format: { type: "json_object" },
+    temperature: 0.7,
+    max_tokens: 1500,
+  });
+
+  const content = response.choices[0]?.message?.content;
+  if (!content) {
+    throw new Error("LLM returned empty response for portfolio email");
+  }
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  let parsed: any;
+  try {
+    parsed = JSON.parse(content);
+  } catch {
+    logger.error("LLM returned invalid JSON for portfolio email", { service: "llm", metadata: { content: content.slice(0, 500) } });
+    throw new Error("LLM returnerede ugyldigt JSON for porteføljemail");
+  }
+
+  return {
+    subject: parsed.subject || `Jeres facader – ${input.groupName}`,
+    bodyText: parsed.body_text || parsed.bodyText || "",
+    shortInternalNote: parsed.short_internal_note || parsed.shortInternalNote || "",
+  };
+}
+
 // ─── OOH Pitch Generator for Leads ──────────────────────────
 
 export interface LeadPitchInput {
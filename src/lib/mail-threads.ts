@@ -1,21 +1,24 @@
 // ============================================================
 // Mail thread → property mapping
 // In-memory + optional Supabase persistence (table: mail_thread_property)
+// Thread ids are per mailbox, so the sending account is kept too.
 // ============================================================
 
 import { supabase, HAS_SUPABASE } from "./supabase";
 import { logger } from "./logger";
 
 const threadToProperty = new Map<string, string>();
+const threadToAccount = new Map<string, string>();
 
-export function recordThreadProperty(threadId: string, propertyId: string): void {
+export function recordThreadProperty(threadId: string, propertyId: string, accountEmail?: string): void {
   if (!threadId || !propertyId) return;
   threadToProperty.set(threadId, propertyId);
+  if (accountEmail) threadToAccount.set(threadId, accountEmail);
   if (HAS_SUPABASE && supabase) {
     supabase
       .from("mail_thread_property")
       .upsert(
-        { thread_id: threadId, property_id: propertyId },
+        { thread_id: threadId, property_id: propertyId, ...(accountEmail ? { account_email: accountEmail } : {}) },
         { onConflict: "thread_id" }
       )
       .then(({ error }) => {
@@ -33,7 +36,7 @@ export async function loadThreadPropertiesFromDb(): Promise<void> {
   if (!HAS_SUPABASE || !supabase) return;
   const { data, error } = await supabase
     .from("mail_thread_property")
-    .select("thread_id, property_id");
+    .select("thread_id, property_id, account_email");
   if (error) {
     logger.warn(`[mail-threads] Supabase load failed: ${error.message}`);
     return;
@@ -41,13 +44,34 @@ export async function loadThreadPropertiesFromDb(): Promise<void> {
   for (const row of data || []) {
     if (row.thread_id && row.property_id) {
       threadToProperty.set(row.thread_id, row.property_id);
+      if (row.account_email) threadToAccount.set(row.thread_id, row.account_email);
     }
   }
 }
 
-export function getAllThreadProperties(): Array<{ threadId: string; propertyId: string }> {
+export function getAllThreadProperties(): Array<{ threadId: string; propertyId: string; accountEmail?: string }> {
   return Array.from(threadToProperty.entries()).map(([threadId, propertyId]) => ({
     threadId,
     propertyId,
+    accountEmail: threadToAccount.get(threadId),
   }));
 }
+
+/** Point every thread of a property at another property (property merge). Returns threads moved. */
+export async function reassignThreadProperties(fromPropertyId: string, toPropertyId: string): Promise<number> {
+  await loadThreadPropertiesFromDb();
+  let moved = 0;
+  for (const [threadId, propertyId] of threadToProperty) {
+    if (propertyId !== fromPropertyId) continue;
+    threadToProperty.set(threadId, toPropertyId);
+    moved++;
+  }
+  if (HAS_SUPABASE && supabase) {
+    const { error } = await supabase
+      .from("mail_thread_property")
+      .update({ property_id: toPropertyId })
+      .eq("property_id", fromPropertyId);
+    if (error) logger.warn(`[mail-threads] Supabase reassign failed: ${error.message}`);
+  }
+  return moved;
+}
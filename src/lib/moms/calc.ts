@@ -0,0 +1,305 @@
+import type { BankTransaction } from "@/lib/bank/types";
+import type { SupplierInvoice } from "@/lib/case/types";
+import type { Invoice } from "@/lib/invoice/types";
+import type {
+  MomsPayment,
+  MomsPeriod,
+  MomsPeriodKind,
+  MomsPurchaseLine,
+  MomsReconciliation,
+  MomsReport,
+  MomsSalesLine,
+} from "./types";
+
+/** Bank categories whose payments are purchases with (normally) Danish VAT. */
+const PURCHASE_CATEGORIES = new Set(["leverandoer", "software"]);
+
+/** Bank amount within this of a scanned invoice's gross counts as its payment. */
+const MATCH_TOLERANCE = 1;
+
+/** Payments to SKAT are looked for up to this many days after the deadline. */
+const PAYMENT_GRACE_DAYS = 14;
+
+function round2(n: number): number {
+  return Math.round((n + Number.EPSILON) * 100) / 100;
+}
+
+function addDays(iso: string, days: number): string {
+  const d = new Date(`${iso}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().slice(0, 10);
+}
+
+function pad2(n: number): string {
+  return String(n).padStart(2, "0");
+}
+
+function lastDayOfMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month, 0)).getUTCDate();
+}
+
+function inRange(date: string, from: string, to: string): boolean {
+  return !!date && date >= from && date <= to;
+}
+
+function isForeign(currency: string | null | undefined): boolean {
+  return !!currency && currency.toUpperCase() !== "DKK";
+}
+
+// ─── Perioder ───────────────────────────────────────────────
+
+/**
+ * "2026-Q3" → 1/7–30/9 2026, frist 1/12. "2026-H2" → 1/7–31/12 2026,
+ * frist 1/3 2027. The deadline is the 1st of the third month after the
+ * period ends for both quarterly and half-yearly filers.
+ */
+export function parseMomsPeriod(id: string): MomsPeriod | null {
+  const m = /^(\d{4})-(Q[1-4]|H[12])$/.exec(id.trim().toUpperCase());
+  if (!m) return null;
+  const year = Number(m[1]);
+  const n = Number(m[2].slice(1));
+  const kind: MomsPeriodKind = m[2][0] === "Q" ? "kvartal" : "halvaar";
+  const months = kind === "kvartal" ? 3 : 6;
+  const startMonth = (n - 1) * months + 1;
+  const endMonth = startMonth + months - 1;
+  const deadlineMonth = endMonth + 3;
+  const deadlineYear = deadlineMonth > 12 ? year + 1 : year;
+  return {
+    id: `${year}-${m[2]}`,
+    kind,
+    label: kind === "kvartal" ? `${n}. kvartal ${year}` : `${n}. halvår ${year}`,
+    from: `${year}-${pad2(startMonth)}-01`,
+    to: `${year}-${pad2(endMonth)}-${pad2(lastDayOfMonth(year, endMonth))}`,
+    deadline: `${deadlineYear}-${pad2(((deadlineMonth - 1) % 12) + 1)}-01`,
+  };
+}
+
+/** The period containing `date`, followed by the `count − 1` before it (newest first). */
+export function recentMomsPeriods(kind: MomsPeriodKind, date: string, count: number): MomsPeriod[] {
+  const year = Number(date.slice(0, 4));
+  const month = Number(date.slice(5, 7));
+  const perYear = kind === "kvartal" ? 4 : 2;
+  let index = year * perYear + Math.floor((month - 1) / (12 / perYear));
+  const periods: MomsPeriod[] = [];
+  for (let i = 0; i < count; i++, index--) {
+    const y = Math.floor(index / perYear);
+    const n = (index % perYear) + 1;
+    const period = parseMomsPeriod(`${y}-${kind === "kvartal" ? "Q" : "H"}${n}`);
+    if (period) periods.push(period);
+  }
+  return periods;
+}
+
+// ─── Opgørelse ──────────────────────────────────────────────
+
+/**
+ * Pair scanned supplier invoices with the bank payment that settled them,
+ * so the same purchase isn't deducted twice. Returns the matched bank ids.
+ */
+export function matchSupplierPayments(
+  supplierInvoices: SupplierInvoice[],
+  txs: BankTransaction[]
+): Set<string> {
+  const candidates = txs
+    .filter((t) => t.amount < 0 && PURCHASE_CATEGORIES.has(t.category))
+    .sort((a, b) => a.postedDate.localeCompare(b.postedDate));
+  const used = new Set<string>();
+  for (const inv of supplierInvoices) {
+    if (!inv.invoiceDate || inv.totalGross <= 0) continue;
+    const from = addDays(inv.invoiceDate, -7);
+    const to = addDays(inv.invoiceDate, 60);
+    const hit = candidates.find(
+      (t) => !used.has(t.id)
+        && inRange(t.postedDate, from, to)
+        && Math.abs(Math.abs(t.amount) - inv.totalGross) <= MATCH_TOLERANCE
+    );
+    if (hit) used.add(hit.id);
+  }
+  return used;
+}
+
+/**
+ * Payments to/from SKAT for the period: skat_moms transactions between
+ * the period end and the deadline (plus grace). Titles mentioning "moms"
+ * are preferred; otherwise anything but kommune fees counts.
+ */
+export function findMomsPayments(period: MomsPeriod, txs: BankTransaction[]): MomsPayment[] {
+  const windowEnd = addDays(period.deadline, PAYMENT_GRACE_DAYS);
+  const inWindow = txs.filter(
+    (t) => t.category === "skat_moms" && t.postedDate > period.to && t.postedDate <= windowEnd
+  );
+  const moms = inWindow.filter((t) => /moms/i.test(t.title));
+  const chosen = moms.length > 0 ? moms : inWindow.filter((t) => !/kommun|gebyr/i.test(t.title));
+  return chosen
+    .sort((a, b) => a.postedDate.localeCompare(b.postedDate))
+    .map((t) => ({ transactionId: t.id, postedDate: t.postedDate, title: t.title, amount: t.amount }));
+}
+
+function reconciliationStatus(
+  settlement: number,
+  payments: MomsPayment[],
+  difference: number,
+  period: MomsPeriod,
+  asOf: string
+): MomsReconciliation {
+  if (payments.length === 0) {
+    if (asOf <= period.deadline) return "afventer";
+    return Math.abs(settlement) < MATCH_TOLERANCE ? "afstemt" : "mangler";
+  }
+  return Math.abs(difference) < MATCH_TOLERANCE ? "afstemt" : "afvigelse";
+}
+
+/**
+ * Build the moms report for one period.
+ *
+ * - Salgsmoms: non-cancelled invoices issued in the period.
+ * - Købsmoms: scanned supplier invoices dated in the period (actual VAT),
+ *   plus leverandør/software payments in the period that no scanned
+ *   invoice covers, at momsPct of the gross amount (estimated).
+ * - Foreign purchases carry no deductible VAT (reverse charge) and are
+ *   only totalled for rubrik A.
+ *
+ * `supplierInvoices` and `txs` may extend beyond the period — they are
+ * matched first so a payment made the quarter after the invoice is still
+ * recognised as covered.
+ */
+export function buildMomsReport(input: {
+  period: MomsPeriod;
+  momsPct: number;
+  invoices: Invoice[];
+  supplierInvoices: SupplierInvoice[];
+  txs: BankTransaction[];
+  asOf?: string;
+}): MomsReport {
+  const { period, momsPct, invoices, supplierInvoices, txs } = input;
+  const asOf = input.asOf ?? new Date().toISOString().slice(0, 10);
+
+  const sales: MomsSalesLine[] = invoices
+    .filter((inv) => inv.status !== "annulleret" && inRange(inv.issueDate, period.from, period.to))
+    .sort((a, b) => a.issueDate.localeCompare(b.issueDate) || a.invoiceNumber.localeCompare(b.invoiceNumber))
+    .map((inv) => ({
+      invoiceId: inv.id,
+      invoiceNumber: inv.invoiceNumber,
+      issueDate: inv.issueDate,
+      customer: inv.customer.name,
+      net: inv.subtotal,
+      vat: inv.vatAmount,
+    }));
+
+  const covered = matchSupplierPayments(supplierInvoices, txs);
+  const purchases: MomsPurchaseLine[] = [];
+
+  for (const inv of supplierInvoices) {
+    if (!inRange(inv.invoiceDate, period.from, period.to)) continue;
+    const foreign = isForeign(inv.currency);
+    purchases.push({
+      source: "scannet",
+      ref: inv.id,
+      date: inv.invoiceDate,
+      vendor: [inv.vendor, inv.invoiceNumber && `fakt. ${inv.invoiceNumber}`].filter(Boolean).join(" · "),
+      gross: inv.totalGross,
+      net: inv.totalNet,
+      vat: foreign ? 0 : inv.totalVat,
+      estimated: false,
+      foreign,
+    });
+  }
+
+  const vatShare = momsPct / (100 + momsPct);
+  for (const t of txs) {
+    if (t.amount >= 0 || !PURCHASE_CATEGORIES.has(t.category)) continue;
+    if (!inRange(t.postedDate, period.from, period.to) || covered.has(t.id)) continue;
+    const gross = Math.abs(t.amount);
+    const foreign = isForeign(t.fxCurrency);
+    const vat = foreign ? 0 : round2(gross * vatShare);
+    purchases.push({
+      source: "bank",
+      ref: t.id,
+      date: t.postedDate,
+      vendor: t.title,
+      gross,
+      net: round2(gross - vat),
+      vat,
+      estimated: !foreign,
+      foreign,
+    });
+  }
+  purchases.sort((a, b) => a.date.localeCompare(b.date));
+
+  const sum = (xs: number[]) => round2(xs.reduce((s, x) => s + x, 0));
+  const outputVat = sum(sales.map((s) => s.vat));
+  const inputVat = sum(purchases.map((p) => p.vat));
+  const settlement = round2(outputVat - inputVat);
+
+  const payments = findMomsPayments(period, txs);
+  const paid = round2(-payments.reduce((s, p) => s + p.amount, 0));
+  const difference = round2(settlement - paid);
+
+  return {
+    period,
+    momsPct,
+    generatedAt: new Date().toISOString(),
+    sales,
+    purchases,
+    salesNet: sum(sales.map((s) => s.net)),
+    outputVat,
+    purchasesNet: sum(purchases.filter((p) => !p.foreign).map((p) => p.net)),
+    inputVat,
+    inputVatEstimated: sum(purchases.filter((p) => p.estimated).map((p) => p.vat)),
+    foreignPurchases: sum(purchases.filter((p) => p.foreign).map((p) => p.net)),
+    settlement,
+    payments,
+    paid,
+    difference,
+    reconciliation: reconciliationStatus(settlement, payments, difference, period, asOf),
+  };
+}
+
+// ─── Eksport ────────────────────────────────────────────────
+
+function csvCell(value: string | number): string {
+  const s = typeof value === "number" ? value.toFixed(2).replace(".", ",") : value;
+  return /[;"\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+}
+
+/**
+ * Semicolon-separated with decimal comma, as Danish Excel and most
+ * bookkeeping systems expect. One section per block, blank line between.
+ */
+export function momsReportToCsv(report: MomsReport): string {
+  const rows: Array<Array<string | number>> = [
+    ["Momsopgørelse", report.period.label],
+    ["Periode", `${report.period.from} - ${report.period.to}`],
+    ["Frist", report.period.deadline],
+    [],
+    ["Post", "Beløb"],
+    ["Salg ekskl. moms", report.salesNet],
+    ["Salgsmoms", report.outputVat],
+    ["Køb ekskl. moms", report.purchasesNet],
+    ["Købsmoms", report.inputVat],
+    ["Heraf estimeret fra kontoudtog", report.inputVatEstimated],
+    ["Køb af ydelser i udlandet (rubrik A)", report.foreignPurchases],
+    ["Momstilsvar", report.settlement],
+    ["Betalt til SKAT", report.paid],
+    ["Difference", report.difference],
+    [],
+    ["Salg", "Dato", "Fakturanr.", "Kunde", "Netto", "Moms"],
+    ...report.sales.map((s) => ["", s.issueDate, s.invoiceNumber, s.customer, s.net, s.vat]),
+    [],
+    ["Køb", "Dato", "Kilde", "Leverandør", "Brutto", "Netto", "Moms", "Note"],
+    ...report.purchases.map((p) => [
+      "",
+      p.date,
+      p.source === "scannet" ? "Scannet faktura" : "Kontoudtog",
+      p.vendor,
+      p.gross,
+      p.net,
+      p.vat,
+      p.foreign ? "Udland (omvendt betalingspligt)" : p.estimated ? "Estimeret" : "",
+    ]),
+    [],
+    ["Betalinger", "Dato", "Tekst", "Beløb"],
+    ...report.payments.map((p) => ["", p.postedDate, p.title, p.amount]),
+  ];
+  return rows.map((r) => r.map(csvCell).join(";")).join("\r\n") + "\r\n";
+}
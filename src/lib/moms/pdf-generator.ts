@@ -0,0 +1,182 @@
+import PDFDocument from "pdfkit";
+import { config } from "@/lib/config";
+import { getHydeLogoBuffer } from "@/lib/tilbud/branding.server";
+import {
+  HYDE_ADDRESS_LINE,
+  HYDE_CITY_LINE,
+  HYDE_COMPANY_NAME,
+} from "@/lib/tilbud/branding";
+import { MOMS_RECONCILIATION_LABEL, type MomsReport } from "./types";
+
+const SLATE_900 = "#0f172a";
+const SLATE_700 = "#334155";
+const SLATE_500 = "#64748b";
+const SLATE_200 = "#e2e8f0";
+const INDIGO = "#4f46e5";
+
+function formatAmount(value: number): string {
+  return value.toLocaleString("da-DK", { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+}
+
+function safeDate(input?: string): string {
+  if (!input) return "";
+  if (/^\d{4}-\d{2}-\d{2}$/.test(input)) {
+    const [y, m, d] = input.split("-");
+    return `${d}-${m}-${y}`;
+  }
+  return input;
+}
+
+/** Momsopgørelse til revisor — same header/footer look as the invoice PDF. */
+export async function generateMomsReportPdf(report: MomsReport): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    const doc = new PDFDocument({
+      size: "A4",
+      margin: 0,
+      info: {
+        Title: `Momsopgørelse ${report.period.label}`,
+        Author: "Ejendom AI",
+        Subject: "Momsopgørelse",
+        Creator: "Ejendom AI",
+      },
+    });
+    doc.on("data", (chunk: Buffer) => chunks.push(chunk));
+    doc.on("end", () => resolve(Buffer.concat(chunks)));
+    doc.on("error", reject);
+
+    const W = 595.28;
+    const H = 841.89;
+    const marginX = 42;
+    const tableEndX = W - marginX;
+    const hydeLogo = getHydeLogoBuffer();
+    const { period } = report;
+
+    const drawHeader = () => {
+      doc.rect(0, 0, W, 74).fill(SLATE_900);
+      doc.rect(0, 0, W, 5).fill(INDIGO);
+      doc.fillColor("white").font("Helvetica-Bold").fontSize(18).text("MOMSOPGØRELSE", marginX, 24);
+      if (hydeLogo) {
+        try {
+          doc.image(hydeLogo, 250, 10, { fit: [58, 58], align: "center", valign: "center" });
+        } catch {
+          // Logo render should never block PDF generation
+        }
+      }
+      doc.fillColor(SLATE_200).font("Helvetica").fontSize(10).text(period.label, W - 200, 28, { width: 160, align: "right" });
+      doc.fillColor(SLATE_200).font("Helvetica").fontSize(10).text(`${safeDate(period.from)} – ${safeDate(period.to)}`, W - 200, 44, { width: 160, align: "right" });
+    };
+
+    let pageNo = 1;
+    const drawFooter = () => {
+      doc.font("Helvetica").fontSize(8).fillColor(SLATE_500);
+      const cvr = config.invoice.sellerCvr ? ` · CVR ${config.invoice.sellerCvr}` : "";
+      doc.text(`${HYDE_COMPANY_NAME} · ${HYDE_ADDRESS_LINE} · ${HYDE_CITY_LINE}${cvr}`, marginX, H - 30);
+      doc.text(`Side ${pageNo}`, W - 90, H - 30, { width: 48, align: "right" });
+    };
+
+    const ensureSpace = (y: number, needed: number): number => {
+      if (y + needed <= H - 60) return y;
+      drawFooter();
+      doc.addPage();
+      pageNo += 1;
+      drawHeader();
+      return 96;
+    };
+
+    drawHeader();
+    let y = 96;
+
+    // Opgørelse
+    const summary: Array<[string, number, boolean?]> = [
+      ["Salg ekskl. moms", report.salesNet],
+      ["Salgsmoms", report.outputVat],
+      ["Køb ekskl. moms", report.purchasesNet],
+      ["Købsmoms (fradrag)", report.inputVat],
+      ["Køb af ydelser i udlandet (rubrik A)", report.foreignPurchases],
+      [report.settlement >= 0 ? "Momstilsvar — til betaling" : "Momstilsvar — tilgodehavende", Math.abs(report.settlement), true],
+    ];
+    doc.font("Helvetica-Bold").fontSize(10).fillColor(SLATE_700).text("Opgørelse", marginX, y);
+    y += 18;
+    for (const [label, value, bold] of summary) {
+      doc.font(bold ? "Helvetica-Bold" : "Helvetica").fontSize(9).fillColor(SLATE_900);
+      doc.text(label, marginX, y);
+      doc.text(`${formatAmount(value)} DKK`, tableEndX - 160, y, { width: 160, align: "right" });
+      y += 16;
+    }
+    if (report.inputVatEstimated > 0) {
+      doc.font("Helvetica").fontSize(8).fillColor(SLATE_500).text(
+        `Heraf ${formatAmount(report.inputVatEstimated)} DKK købsmoms estimeret fra kontoudtog (${report.momsPct}% af bruttobeløb) — bilag bør kontrolleres.`,
+        marginX,
+        y,
+        { width: tableEndX - marginX }
+      );
+      y = doc.y + 6;
+    }
+
+    // Afstemning
+    y += 8;
+    doc.font("Helvetica-Bold").fontSize(10).fillColor(SLATE_700).text("Afstemning mod betalinger til SKAT", marginX, y);
+    y += 18;
+    doc.font("Helvetica").fontSize(9).fillColor(SLATE_900);
+    doc.text(`Frist: ${safeDate(period.deadline)} · Status: ${MOMS_RECONCILIATION_LABEL[report.reconciliation]}`, marginX, y);
+    y += 16;
+    for (const p of report.payments) {
+      doc.text(`${safeDate(p.postedDate)}  ${p.title}`, marginX, y, { width: 360, ellipsis: true });
+      doc.text(formatAmount(p.amount), tableEndX - 120, y, { width: 120, align: "right" });
+      y += 14;
+    }
+    doc.text("Betalt netto", marginX, y);
+    doc.text(`${formatAmount(report.paid)} DKK`, tableEndX - 160, y, { width: 160, align: "right" });
+    y += 14;
+    doc.font("Helvetica-Bold").text("Difference", marginX, y);
+    doc.text(`${formatAmount(report.difference)} DKK`, tableEndX - 160, y, { width: 160, align: "right" });
+    y += 26;
+
+    const col = { date: marginX, text: marginX + 62, gross: marginX + 300, net: marginX + 370, vat: marginX + 440 };
+
+    const drawTableHead = (yy: number, title: string, headers: [string, string, string, string, string]) => {
+      doc.font("Helvetica-Bold").fontSize(10).fillColor(SLATE_700).text(title, marginX, yy);
+      yy += 16;
+      doc.rect(marginX, yy - 4, tableEndX - marginX, 20).fill("#000000");
+      doc.fillColor("#ffffff").font("Helvetica-Bold").fontSize(9);
+      doc.text(headers[0], col.date + 4, yy);
+      doc.text(headers[1], col.text + 4, yy);
+      doc.text(headers[2], col.gross + 4, yy, { width: 62, align: "right" });
+      doc.text(headers[3], col.net + 4, yy, { width: 62, align: "right" });
+      doc.text(headers[4], col.vat + 4, yy, { width: 62, align: "right" });
+      return yy + 24;
+    };
+
+    const drawRow = (yy: number, cells: [string, string, string, string, string]) => {
+      doc.fillColor(SLATE_900).font("Helvetica").fontSize(8);
+      doc.text(cells[0], col.date + 4, yy + 2, { width: 56 });
+      doc.text(cells[1], col.text + 4, yy + 2, { width: 232, ellipsis: true, lineBreak: false });
+      doc.text(cells[2], col.gross + 4, yy + 2, { width: 62, align: "right" });
+      doc.text(cells[3], col.net + 4, yy + 2, { width: 62, align: "right" });
+      doc.text(cells[4], col.vat + 4, yy + 2, { width: 62, align: "right" });
+      doc.moveTo(marginX, yy + 18).lineTo(tableEndX, yy + 18).strokeColor("#f1f5f9").lineWidth(1).stroke();
+      return yy + 18;
+    };
+
+    // Salg
+    y = drawTableHead(ensureSpace(y, 80), "Salg (udstedte fakturaer)", ["Dato", "Faktura / kunde", "Brutto", "Netto", "Moms"]);
+    for (const s of report.sales) {
+      y = ensureSpace(y, 18);
+      y = drawRow(y, [safeDate(s.issueDate), `${s.invoiceNumber} · ${s.customer}`, formatAmount(s.net + s.vat), formatAmount(s.net), formatAmount(s.vat)]);
+    }
+    if (report.sales.length === 0) y = drawRow(y, ["", "Ingen fakturaer i perioden", "", "", ""]);
+
+    // Køb
+    y = drawTableHead(ensureSpace(y + 16, 80), "Køb", ["Dato", "Leverandør", "Brutto", "Netto", "Moms"]);
+    for (const p of report.purchases) {
+      y = ensureSpace(y, 18);
+      const note = p.foreign ? " (udland)" : p.estimated ? " (estimeret)" : " (bilag)";
+      y = drawRow(y, [safeDate(p.date), `${p.vendor}${note}`, formatAmount(p.gross), formatAmount(p.net), formatAmount(p.vat)]);
+    }
+    if (report.purchases.length === 0) y = drawRow(y, ["", "Ingen køb i perioden", "", "", ""]);
+
+    drawFooter();
+    doc.end();
+  });
+}
@@ -0,0 +1,28 @@
+import { listBankTransactions } from "@/lib/bank/store";
+import { getCostSettings } from "@/lib/case/settings-store";
+import { listSupplierInvoices } from "@/lib/case/supplier-invoice-store";
+import { listInvoices } from "@/lib/invoice/store";
+import { buildMomsReport } from "./calc";
+import type { MomsPeriod, MomsReport } from "./types";
+
+function addDays(iso: string, days: number): string {
+  const d = new Date(`${iso}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().slice(0, 10);
+}
+
+/**
+ * Load invoices, scanned supplier invoices and bank transactions around
+ * the period and build its moms report. Supplier invoices are fetched
+ * from 60 days before the period so payments in the period for invoices
+ * dated in the previous one are recognised as already deducted.
+ */
+export async function getMomsReport(period: MomsPeriod): Promise<MomsReport> {
+  const [settings, { items: invoices }, supplierInvoices, txs] = await Promise.all([
+    getCostSettings(),
+    listInvoices({ limit: 2000 }),
+    listSupplierInvoices(addDays(period.from, -60), period.to),
+    listBankTransactions(10000),
+  ]);
+  return buildMomsReport({ period, momsPct: settings.momsPct, invoices, supplierInvoices, txs });
+}
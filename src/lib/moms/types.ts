@@ -0,0 +1,83 @@
+/**
+ * Momsopgørelse pr. periode (kvartal eller halvår). Salgsmoms kommer fra
+ * udstedte fakturaer, købsmoms fra scannede leverandørfakturaer og — for
+ * leverandørbetalinger uden scannet faktura — et estimat fra kontoudtoget.
+ */
+
+export type MomsPeriodKind = "kvartal" | "halvaar";
+
+export const MOMS_PERIOD_KIND_LABEL: Record<MomsPeriodKind, string> = {
+  kvartal: "Kvartal",
+  halvaar: "Halvår",
+};
+
+export interface MomsPeriod {
+  id: string;            // "2026-Q3" | "2026-H2"
+  kind: MomsPeriodKind;
+  label: string;         // "3. kvartal 2026"
+  from: string;          // YYYY-MM-DD
+  to: string;            // YYYY-MM-DD (inkl.)
+  deadline: string;      // angivelses- og betalingsfrist hos SKAT
+}
+
+export interface MomsSalesLine {
+  invoiceId: string;
+  invoiceNumber: string;
+  issueDate: string;
+  customer: string;
+  net: number;
+  vat: number;
+}
+
+export type MomsPurchaseSource = "scannet" | "bank";
+
+export interface MomsPurchaseLine {
+  source: MomsPurchaseSource;
+  ref: string;           // supplier_invoices.id eller bank_transactions.id
+  date: string;
+  vendor: string;
+  gross: number;
+  net: number;
+  vat: number;
+  /** VAT derived from the bank amount and momsPct, not read off an invoice. */
+  estimated: boolean;
+  /** Foreign purchase — reverse charge, so no deductible Danish VAT. */
+  foreign: boolean;
+}
+
+export interface MomsPayment {
+  transactionId: string;
+  postedDate: string;
+  title: string;
+  amount: number;        // som på kontoudtoget: negativ = betalt, positiv = udbetalt
+}
+
+export type MomsReconciliation = "afstemt" | "afvigelse" | "afventer" | "mangler";
+
+export const MOMS_RECONCILIATION_LABEL: Record<MomsReconciliation, string> = {
+  afstemt: "Afstemt",
+  afvigelse: "Afvigelse",
+  afventer: "Afventer frist",
+  mangler: "Ingen betaling fundet",
+};
+
+export interface MomsReport {
+  period: MomsPeriod;
+  momsPct: number;
+  generatedAt: string;
+  sales: MomsSalesLine[];
+  purchases: MomsPurchaseLine[];
+  salesNet: number;
+  outputVat: number;          // salgsmoms
+  purchasesNet: number;
+  inputVat: number;           // købsmoms (fradrag)
+  inputVatEstimated: number;  // heraf estimeret fra kontoudtog
+  foreignPurchases: number;   // køb af ydelser i udlandet (rubrik A), ekskl. moms
+  /** Momstilsvar: positiv = skal betales, negativ = tilgodehavende. */
+  settlement: number;
+  payments: MomsPayment[];
+  /** Net paid to SKAT for the period (refunds subtract). */
+  paid: number;
+  difference: number;         // settlement − paid
+  reconciliation: MomsReconciliation;
+}
@@ -7,6 +7,8 @@ import { compositeMultiplePlacements } from "./image-processor";
 import { uploadFile, downloadFile, ensureOohFolders, copySlides, exportSlidesPdf, getDirectUrl } from "./google-drive";
 import { replaceTextPlaceholders, applyMockupPlacements, getSlidesUrl } from "./google-slides";
 import { sendEmail } from "../email-sender";
+import { checkRecipient, suppressionMessage } from "../outreach/suppression-store";
+import { recordEngagement } from "../outreach/engagement-store";
 import { getFrame, getCreative, getProposal, upsertProposal, getDefaultTemplate, getTemplate } from "./store";
 import { loadImageBuffer } from "./load-image";
 import type { GenerateProposalInput, Proposal, ProposalStatus } from "./types";
@@ -227,6 +229,15 @@ export async function generateProposal(
 
     emit(endStatus, `Proposal klar! (${(proposal.processingDurationMs / 1000).toFixed(1)}s)`, 100);
 
+    await recordEngagement({
+      kind: "proposal_generated",
+      email: proposal.clientEmail,
+      source: "ooh-proposal",
+      refId: proposal.id,
+      summary: `Forslag genereret: ${frame.name} til ${input.clientCompany}`,
+      metadata: { frameId: frame.id, slidesUrl: proposal.slidesUrl, pdfUrl: proposal.pdfUrl },
+    });
+
     logger.info(`Proposal generated for ${input.clientCompany}: ${endStatus}`, {
       service: "ooh-proposal",
       metadata: { proposalId: proposal.id, duration: proposal.processingDurationMs },
@@ -258,6 +269,9 @@ export async function sendProposalEmail(
   const proposal = getProposal(proposalId);
   if (!proposal) return { success: false, error: "Proposal not found" };
 
+  const suppression = await checkRecipient(proposal.clientEmail, { source: "ooh-proposal", refId: proposalId });
+  if (suppression) return { success: false, error: suppressionMessage(suppression) };
+
   const frame = await getFrame(proposal.frameId);
   const frameName = frame?.name || "N/A";
 
@@ -289,12 +303,21 @@ export async function sendProposalEmail(
     body,
     contactName: proposal.clientContactName,
     propertyId: proposalId,
+    source: "ooh-proposal",
   });
 
   if (result.success) {
     proposal.status = "sent";
     proposal.sentAt = new Date().toISOString();
     upsertProposal(proposal);
+    await recordEngagement({
+      kind: "email_sent",
+      email: proposal.clientEmail,
+      source: "ooh-proposal",
+      refId: proposal.id,
+      summary: `Sendt: ${subject}`,
+      metadata: { threadId: result.threadId },
+    });
   }
 
   return result;
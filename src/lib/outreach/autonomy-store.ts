@@ -0,0 +1,220 @@
+// ============================================================
+// Autonomy Store – autonomy level, auto-research rules and the
+// log of automatic actions held back for approval.
+//
+// Settings live in a single "default" row (like ai_settings) with
+// a 1-minute cache. Without Supabase everything falls back to
+// level 0 and the (inactive) default rules.
+// ============================================================
+
+import { supabase, HAS_SUPABASE } from "@/lib/supabase";
+import { logger } from "@/lib/logger";
+import {
+  DEFAULT_AUTO_RULES,
+  isActionAllowed,
+  type AutoResearchRule,
+  type AutonomyLevel,
+} from "@/lib/state-machine";
+
+export interface AutonomySettings {
+  level: AutonomyLevel;
+  rules: AutoResearchRule[];
+  updatedAt: string | null;
+}
+
+export interface HeldAction {
+  id: string;
+  action: string;
+  source: string;
+  targetId: string;
+  label: string | null;
+  level: AutonomyLevel;
+  detail: Record<string, unknown> | null;
+  holdCount: number;
+  firstHeldAt: string;
+  lastHeldAt: string;
+}
+
+const DEFAULT_SETTINGS: AutonomySettings = {
+  level: 0,
+  rules: DEFAULT_AUTO_RULES,
+  updatedAt: null,
+};
+
+let _cache: AutonomySettings | null = null;
+let _cacheTs = 0;
+const CACHE_TTL_MS = 60_000;
+
+function toLevel(v: unknown): AutonomyLevel {
+  const n = Number(v);
+  return n === 1 || n === 2 || n === 3 ? n : 0;
+}
+
+/** Stored rules override the defaults by id; unknown ids are ignored. */
+function mergeRules(stored: unknown): AutoResearchRule[] {
+  const byId = new Map<string, Partial<AutoResearchRule>>();
+  if (Array.isArray(stored)) {
+    for (const r of stored as Partial<AutoResearchRule>[]) if (r?.id) byId.set(r.id, r);
+  }
+  return DEFAULT_AUTO_RULES.map((rule) => {
+    const o = byId.get(rule.id);
+    if (!o) return rule;
+    return {
+      ...rule,
+      active: o.active === true,
+      minScore: typeof o.minScore === "number" ? o.minScore : rule.minScore,
+      minTraffic: typeof o.minTraffic === "number" ? o.minTraffic : rule.minTraffic,
+      maxAgeHours: typeof o.maxAgeHours === "number" ? o.maxAgeHours : rule.maxAgeHours,
+    };
+  });
+}
+
+function rowToHeld(row: Record<string, unknown>): HeldAction {
+  return {
+    id: String(row.id),
+    action: String(row.action || ""),
+    source: String(row.source || ""),
+    targetId: String(row.target_id || ""),
+    label: row.label ? String(row.label) : null,
+    level: toLevel(row.level),
+    detail: (row.detail as Record<string, unknown>) || null,
+    holdCount: Number(row.hold_count || 1),
+    firstHeldAt: String(row.first_held_at || new Date().toISOString()),
+    lastHeldAt: String(row.last_held_at || new Date().toISOString()),
+  };
+}
+
+export function invalidateAutonomyCache() {
+  _cache = null;
+  _cacheTs = 0;
+}
+
+export async function getAutonomySettings(): Promise<AutonomySettings> {
+  if (_cache && Date.now() - _cacheTs < CACHE_TTL_MS) return _cache;
+  if (!HAS_SUPABASE || !supabase) return DEFAULT_SETTINGS;
+
+  try {
+    const { data, error } = await supabase
+      .from("autonomy_settings")
+      .select("*")
+      .eq("id", "default")
+      .maybeSingle();
+    if (error) throw error;
+    _cache = data
+      ? { level: toLevel(data.level), rules: mergeRules(data.auto_rules), updatedAt: String(data.updated_at || "") || null }
+      : DEFAULT_SETTINGS;
+    _cacheTs = Date.now();
+    return _cache;
+  } catch (err) {
+    logger.error(`[autonomy-store] load error: ${err instanceof Error ? err.message : err}`);
+    return DEFAULT_SETTINGS;
+  }
+}
+
+export async function saveAutonomySettings(patch: {
+  level?: AutonomyLevel;
+  rules?: Partial<AutoResearchRule>[];
+}): Promise<AutonomySettings> {
+  if (!HAS_SUPABASE || !supabase) throw new Error("Supabase is not configured");
+  invalidateAutonomyCache();
+  const current = await getAutonomySettings();
+  const rules = patch.rules ? mergeRules(patch.rules) : current.rules;
+
+  const { error } = await supabase.from("autonomy_settings").upsert(
+    {
+      id: "default",
+      level: patch.level ?? current.level,
+      auto_rules: rules.map(({ id, active, minScore, minTraffic, maxAgeHours }) => ({
+        id, active, minScore, minTraffic, maxAgeHours,
+      })),
+      updated_at: new Date().toISOString(),
+    },
+    { onConflict: "id" }
+  );
+  if (error) throw error;
+
+  invalidateAutonomyCache();
+  return getAutonomySettings();
+}
+
+/** Active auto-research rules, as configured in SettingsTab. */
+export async function getActiveAutoRules(): Promise<AutoResearchRule[]> {
+  const { rules } = await getAutonomySettings();
+  return rules.filter((r) => r.active);
+}
+
+/**
+ * Check an automatic action against the current autonomy level.
+ * If it is not allowed, the hold is logged (one row per action+target,
+ * repeated holds count up) and false is returned.
+ */
+export async function autonomyAllows(
+  action: string,
+  hold: { source: string; targetId: string; label?: string; detail?: Record<string, unknown> }
+): Promise<boolean> {
+  const { level } = await getAutonomySettings();
+  if (isActionAllowed(action, level)) return true;
+
+  logger.info(`Holdt tilbage (niveau ${level}): ${action} for ${hold.targetId} (${hold.source})`, {
+    service: "autonomy",
+  });
+  await recordHeldAction(action, level, hold);
+  return false;
+}
+
+async function recordHeldAction(
+  action: string,
+  level: AutonomyLevel,
+  hold: { source: string; targetId: string; label?: string; detail?: Record<string, unknown> }
+): Promise<void> {
+  if (!HAS_SUPABASE || !supabase) return;
+  const id = `held-${action}-${hold.targetId}`;
+  try {
+    const { data: existing } = await supabase
+      .from("autonomy_held_actions")
+      .select("hold_count")
+      .eq("id", id)
+      .maybeSingle();
+    const now = new Date().toISOString();
+    const { error } = await supabase.from("autonomy_held_actions").upsert(
+      {
+        id,
+        action,
+        source: hold.source,
+        target_id: hold.targetId,
+        label: hold.label || null,
+        level,
+        detail: hold.detail || null,
+        hold_count: Number(existing?.hold_count || 0) + 1,
+        last_held_at: now,
+        ...(existing ? {} : { first_held_at: now }),
+      },
+      { onConflict: "id" }
+    );
+    if (error) throw error;
+  } catch (err) {
+    logger.error(`[autonomy-store] hold error: ${err instanceof Error ? err.message : err}`);
+  }
+}
+
+export async function listHeldActions(limit = 50): Promise<HeldAction[]> {
+  if (!HAS_SUPABASE || !supabase) return [];
+  try {
+    const { data, error } = await supabase
+      .from("autonomy_held_actions")
+      .select("*")
+      .order("last_held_at", { ascending: false })
+      .limit(limit);
+    if (error) throw error;
+    return (data || []).map(rowToHeld);
+  } catch (err) {
+    logger.error(`[autonomy-store] list error: ${err instanceof Error ? err.message : err}`);
+    return [];
+  }
+}
+
+export async function dismissHeldAction(id: string): Promise<void> {
+  if (!HAS_SUPABASE || !supabase) throw new Error("Supabase is not configured");
+  const { error } = await supabase.from("autonomy_held_actions").delete().eq("id", id);
+  if (error) throw error;
+}
@@ -0,0 +1,174 @@
+// ============================================================
+// Bounce Actions – scan the Gmail accounts for delivery-failure
+// notices, link each to the mail that bounced and act on hard
+// bounces:
+//
+//  - the address goes on the suppression list (reason "bounce")
+//  - running sequences to it stop
+//  - the queue item is marked bounced, the OOH send errored
+//  - its confidence drops to 0 in staged and lead contact lists
+//  - the property goes back to RESEARCH_DONE_CONTACT_PENDING with
+//    the address cleared, so research can find another one
+//
+// Soft bounces are only recorded.
+// ============================================================
+
+import { fetchEjendomById } from "@/lib/hubspot";
+import { getThreadWithMessages, listBounceNotices, type BounceNotice } from "@/lib/email-sender";
+import { findSentQueueItem, markQueueItemBounced, type QueuedEmail } from "@/lib/email-queue";
+import { getSends, upsertSend } from "@/lib/ooh/store";
+import type { OOHSend } from "@/lib/ooh/types";
+import { markStagedContactEmailBounced } from "@/lib/staging/store";
+import { markLeadContactEmailBounced } from "@/lib/lead-sourcing/lead-store";
+import { markAdministratorContactEmailBounced } from "@/lib/research/administrator-directory";
+import { logger } from "@/lib/logger";
+import { transitionProperty, TransitionError } from "./transition";
+import { suppressAddress } from "./suppression-store";
+import { stopSequencesFor } from "./sequence-progress";
+import { updateStepSend } from "./sequence-store";
+import { isBounceMessage, parseBounce, type ParsedBounce } from "./bounce-parser";
+import { getHandledBounceIds, saveBounce } from "./bounce-store";
+
+const SOURCE = "mail-sync";
+
+export interface BounceSyncResult {
+  checked: number;
+  hard: number;
+  soft: number;
+  linked: number;
+  errors: string[];
+}
+
+interface BounceLink {
+  queueItem: QueuedEmail | null;
+  oohSend: OOHSend | null;
+  propertyId: string | null;
+}
+
+/** The mail that bounced: same Gmail thread first, then the latest mail to the recipient. */
+async function linkBounce(notice: BounceNotice, parsed: ParsedBounce): Promise<BounceLink> {
+  let messageIds: string[] = [];
+  try {
+    const thread = notice.threadId ? await getThreadWithMessages(notice.threadId, notice.account || undefined) : null;
+    const ours = (thread?.messages || []).filter((m) => m.id !== notice.id && !isBounceMessage(m));
+    // The returned Message-ID pins the exact mail when the thread holds several
+    const exact = parsed.originalMessageId ? ours.filter((m) => m.messageId === parsed.originalMessageId) : [];
+    messageIds = (exact.length > 0 ? exact : ours).map((m) => m.id);
+  } catch {
+    // Thread may be gone – fall back to the recipient
+  }
+
+  const queueItem = await findSentQueueItem({ messageIds, recipient: parsed.recipient });
+
+  const sends = await getSends();
+  const oohSend =
+    sends.find((s) => (s.gmailThreadId && s.gmailThreadId === notice.threadId) || (s.gmailMessageId && messageIds.includes(s.gmailMessageId))) ||
+    (parsed.recipient && !queueItem
+      ? sends.find((s) => s.contactEmail?.toLowerCase() === parsed.recipient && s.status !== "error")
+      : undefined) ||
+    null;
+
+  const propertyId = queueItem && !queueItem.propertyId.startsWith("ooh-") ? queueItem.propertyId : null;
+  return { queueItem, oohSend, propertyId };
+}
+
+async function applyHardBounce(recipient: string, parsed: ParsedBounce, link: BounceLink): Promise<string[]> {
+  const actions: string[] = [];
+  const reason = `Bounce: ${parsed.statusCode || ""} ${parsed.diagnostic || recipient}`.replace(/\s+/g, " ").trim();
+
+  try {
+    await suppressAddress({ value: recipient, reason: "bounce", source: SOURCE, note: parsed.diagnostic });
+    actions.push("suppressed");
+  } catch (e) {
+    logger.warn(`Bounce: kunne ikke blokere ${recipient}: ${e instanceof Error ? e.message : e}`, { service: "bounces" });
+  }
+
+  const stopped = await stopSequencesFor({ email: recipient }, "bounce");
+  if (stopped > 0) actions.push(`sequences_stopped:${stopped}`);
+
+  if (link.queueItem) {
+    await markQueueItemBounced(link.queueItem, reason);
+    if (link.queueItem.sequenceSendId) await updateStepSend(link.queueItem.sequenceSendId, { status: "failed", error: reason });
+    actions.push(`queue_bounced:${link.queueItem.id}`);
+  }
+
+  if (link.oohSend) {
+    await upsertSend({ ...link.oohSend, status: "error", errorMessage: reason, nextFollowUpAt: undefined });
+    actions.push(`ooh_send_bounced:${link.oohSend.id}`);
+  }
+
+  const staged = await markStagedContactEmailBounced(recipient);
+  if (staged > 0) actions.push(`staged_contacts:${staged}`);
+  const leads = await markLeadContactEmailBounced(recipient);
+  if (leads > 0) actions.push(`lead_contacts:${leads}`);
+  const administrators = await markAdministratorContactEmailBounced(recipient);
+  if (administrators > 0) actions.push(`administrator_contacts:${administrators}`);
+
+  // Only reset the property if the bounced address is still its contact email
+  if (link.propertyId) {
+    const property = await fetchEjendomById(link.propertyId);
+    if (property.contactEmail?.trim().toLowerCase() === recipient) {
+      try {
+        const result = await transitionProperty(
+          link.propertyId,
+          "RESEARCH_DONE_CONTACT_PENDING",
+          { actor: "system", source: SOURCE, note: `${reason} – find ny kontakt` },
+          { mailadresse: "" }
+        );
+        if (result.changed) actions.push("status:RESEARCH_DONE_CONTACT_PENDING");
+      } catch (e) {
+        if (!(e instanceof TransitionError)) throw e;
+      }
+    }
+  }
+
+  return actions;
+}
+
+/** Find and handle new bounce notices (called from mail-sync). */
+export async function syncBounces(ourEmails: string[], newerThanDays = 7): Promise<BounceSyncResult> {
+  const result: BounceSyncResult = { checked: 0, hard: 0, soft: 0, linked: 0, errors: [] };
+
+  const notices = (await listBounceNotices(newerThanDays)).filter(isBounceMessage);
+  const handled = await getHandledBounceIds(notices.map((n) => n.id));
+
+  for (const notice of notices) {
+    if (handled.has(notice.id)) continue;
+    result.checked++;
+    try {
+      const parsed = parseBounce(notice.text, notice.headers, { ourEmails });
+      const link = await linkBounce(notice, parsed);
+      if (link.queueItem || link.oohSend) result.linked++;
+
+      const actions = parsed.kind === "hard" && parsed.recipient
+        ? await applyHardBounce(parsed.recipient, parsed, link)
+        : [];
+      if (parsed.kind === "hard") result.hard++;
+      else result.soft++;
+
+      const parsedDate = new Date(notice.date);
+      await saveBounce({
+        messageId: notice.id,
+        threadId: notice.threadId,
+        account: notice.account || null,
+        recipient: parsed.recipient,
+        kind: parsed.kind,
+        statusCode: parsed.statusCode,
+        diagnostic: parsed.diagnostic,
+        queueId: link.queueItem?.id || null,
+        oohSendId: link.oohSend?.id || null,
+        propertyId: link.propertyId,
+        actions,
+        receivedAt: isNaN(parsedDate.getTime()) ? null : parsedDate.toISOString(),
+      });
+      logger.info(
+        `Bounce (${parsed.kind}) for ${parsed.recipient || "ukendt modtager"} [${actions.join(", ") || "ingen handling"}]`,
+        { service: "bounces" }
+      );
+    } catch (e) {
+      result.errors.push(`${notice.id}: ${e instanceof Error ? e.message : e}`);
+    }
+  }
+
+  return result;
+}
@@ -0,0 +1,102 @@
+// ============================================================
+// Bounce Parser – recognise delivery-failure notifications (DSN,
+// mailer-daemon / postmaster mails) and pull out the failed
+// recipient, the status code and whether the failure is final.
+//
+// Hard = permanent (5.x.x, "address not found"); soft = temporary
+// (4.x.x, mailbox full, delayed). Ambiguous notices count as soft
+// so nothing is invalidated on a guess.
+// ============================================================
+
+export type BounceKind = "hard" | "soft";
+
+export interface ParsedBounce {
+  recipient: string | null;
+  kind: BounceKind;
+  statusCode: string | null;       // enhanced status, e.g. "5.1.1"
+  diagnostic: string | null;
+  originalMessageId: string | null; // RFC Message-ID of the mail that bounced
+}
+
+const BOUNCE_FROM = /mailer-daemon|postmaster|mail delivery (subsystem|system)|microsoftexchange/i;
+const BOUNCE_SUBJECT =
+  /undeliver|delivery status notification|returned mail|undelivered mail|delivery (has )?failed|failure notice|address not found|kunne ikke leveres|ikke leveret|levering mislykkedes|returneret post/i;
+
+const HARD_TEXT =
+  /address not found|does not exist|doesn't exist|user unknown|unknown user|no such user|recipient (address )?rejected|invalid recipient|mailbox unavailable|mailbox not found|account (has been )?disabled|findes ikke|ukendt modtager|ugyldig modtager/i;
+const SOFT_TEXT =
+  /mailbox (is )?full|over quota|quota exceeded|temporar|try again|delayed|has been delayed|forsinket|midlertidig/i;
+
+const EMAIL_RE = /[A-Z0-9._%+-]+@[A-Z0-9.-]+\.[A-Z]{2,}/i;
+
+export function isBounceMessage(msg: { from: string; subject: string }): boolean {
+  return BOUNCE_FROM.test(msg.from) || BOUNCE_SUBJECT.test(msg.subject);
+}
+
+function firstEmail(text: string | undefined | null): string | null {
+  const m = text?.match(EMAIL_RE);
+  return m ? m[0].toLowerCase() : null;
+}
+
+/**
+ * Parse a bounce. `text` is the notice's text and delivery-status
+ * parts (plus the returned headers when present); `headers` are the
+ * notice's own headers, lowercased.
+ */
+export function parseBounce(
+  text: string,
+  headers: Record<string, string> = {},
+  opts: { ourEmails?: string[] } = {}
+): ParsedBounce {
+  const own = new Set((opts.ourEmails || []).map((e) => e.toLowerCase()));
+
+  const recipient =
+    firstEmail(headers["x-failed-recipients"]) ||
+    firstEmail(text.match(/^\s*final-recipient:\s*(?:rfc822;)?\s*(.+)$/im)?.[1]) ||
+    firstEmail(text.match(/^\s*original-recipient:\s*(?:rfc822;)?\s*(.+)$/im)?.[1]) ||
+    firstEmail(text.match(/(?:wasn't|was not|couldn't be|could not be|ikke) (?:delivered|leveret) (?:to|til)\s+(\S+)/i)?.[1]) ||
+    (() => {
+      // Last resort: the first address that is neither ours nor the daemon's
+      for (const m of text.matchAll(new RegExp(EMAIL_RE.source, "gi"))) {
+        const email = m[0].toLowerCase();
+        if (!own.has(email) && !/mailer-daemon|postmaster|noreply|no-reply/.test(email)) return email;
+      }
+      return null;
+    })();
+
+  // Enhanced status codes only from the DSN fields or right after an SMTP
+  // reply code – a bare "x.y.z" elsewhere may be part of an IP or a version
+  const diagnosticCode = text.match(/^\s*diagnostic-code:\s*(?:smtp;)?\s*(.+)$/im)?.[1]?.trim() || null;
+  const statusCode =
+    text.match(/^\s*status:\s*([245]\.\d{1,3}\.\d{1,3})(?![.\d])/im)?.[1] ||
+    diagnosticCode?.match(/(?<![.\d])([245]\.\d{1,3}\.\d{1,3})(?![.\d])/)?.[1] ||
+    text.match(/(?<![.\d])[45]\d{2}[ -]([245]\.\d{1,3}\.\d{1,3})(?![.\d])/)?.[1] ||
+    null;
+  const smtpCode =
+    diagnosticCode?.match(/^([45]\d{2})(?![.\d])/)?.[1] ||
+    text.match(/^\s*([45]\d{2})[ -](?=\S)/m)?.[1] ||
+    null;
+
+  const diagnostic =
+    diagnosticCode ||
+    text.split("\n").map((l) => l.trim()).find((l) => /\b[45]\d{2}\b|[245]\.\d{1,3}\.\d{1,3}/.test(l) && l.length > 8) ||
+    null;
+
+  let kind: BounceKind = "soft";
+  if (statusCode) kind = statusCode.startsWith("5") ? "hard" : "soft";
+  // 552 and friends are often "mailbox full" – temporary in practice
+  else if (smtpCode) kind = smtpCode.startsWith("5") && !SOFT_TEXT.test(text) ? "hard" : "soft";
+  else if (HARD_TEXT.test(text) && !SOFT_TEXT.test(text)) kind = "hard";
+
+  const originalMessageId =
+    text.match(/^\s*message-id:\s*(<[^>\s]+>)/im)?.[1] ||
+    null;
+
+  return {
+    recipient,
+    kind,
+    statusCode,
+    diagnostic: diagnostic ? diagnostic.slice(0, 500) : null,
+    originalMessageId,
+  };
+}
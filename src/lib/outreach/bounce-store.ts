@@ -0,0 +1,104 @@
+// ============================================================
+// Bounce Store – one record per delivery-failure notice
+//
+// Lets mail-sync handle every bounce exactly once and keeps what
+// it was linked to (queue item / OOH send / property) and the
+// actions taken.
+// ============================================================
+
+import { supabase, HAS_SUPABASE } from "@/lib/supabase";
+import { logger } from "@/lib/logger";
+import type { BounceKind } from "./bounce-parser";
+
+export interface BounceRecord {
+  messageId: string;              // Gmail id of the notice
+  threadId: string;
+  account: string | null;
+  recipient: string | null;
+  kind: BounceKind;
+  statusCode: string | null;
+  diagnostic: string | null;
+  queueId: string | null;
+  oohSendId: string | null;
+  propertyId: string | null;
+  actions: string[];
+  receivedAt: string | null;
+  createdAt: string;
+}
+
+function rowToRecord(row: Record<string, unknown>): BounceRecord {
+  const str = (v: unknown) => (v ? String(v) : null);
+  return {
+    messageId: String(row.message_id),
+    threadId: String(row.thread_id || ""),
+    account: str(row.account),
+    recipient: str(row.recipient),
+    kind: row.kind === "hard" ? "hard" : "soft",
+    statusCode: str(row.status_code),
+    diagnostic: str(row.diagnostic),
+    queueId: str(row.queue_id),
+    oohSendId: str(row.ooh_send_id),
+    propertyId: str(row.property_id),
+    actions: Array.isArray(row.actions) ? (row.actions as string[]) : [],
+    receivedAt: str(row.received_at),
+    createdAt: String(row.created_at || new Date().toISOString()),
+  };
+}
+
+/** Notice ids (of the given ones) that were already handled. */
+export async function getHandledBounceIds(messageIds: string[]): Promise<Set<string>> {
+  if (!HAS_SUPABASE || !supabase || messageIds.length === 0) return new Set();
+  try {
+    const { data, error } = await supabase
+      .from("email_bounces")
+      .select("message_id")
+      .in("message_id", messageIds);
+    if (error) throw error;
+    return new Set((data || []).map((r) => String(r.message_id)));
+  } catch (err) {
+    logger.error(`[bounce-store] lookup error: ${err instanceof Error ? err.message : err}`);
+    return new Set();
+  }
+}
+
+export async function saveBounce(record: Omit<BounceRecord, "createdAt">): Promise<void> {
+  if (!HAS_SUPABASE || !supabase) return;
+  try {
+    const { error } = await supabase.from("email_bounces").upsert(
+      {
+        message_id: record.messageId,
+        thread_id: record.threadId,
+        account: record.account,
+        recipient: record.recipient,
+        kind: record.kind,
+        status_code: record.statusCode,
+        diagnostic: record.diagnostic,
+        queue_id: record.queueId,
+        ooh_send_id: record.oohSendId,
+        property_id: record.propertyId,
+        actions: record.actions,
+        received_at: record.receivedAt,
+      },
+      { onConflict: "message_id" }
+    );
+    if (error) throw error;
+  } catch (err) {
+    logger.error(`[bounce-store] save error: ${err instanceof Error ? err.message : err}`);
+  }
+}
+
+export async function listBounces(limit = 50): Promise<BounceRecord[]> {
+  if (!HAS_SUPABASE || !supabase) return [];
+  try {
+    const { data, error } = await supabase
+      .from("email_bounces")
+      .select("*")
+      .order("created_at", { ascending: false })
+      .limit(limit);
+    if (error) throw error;
+    return (data || []).map(rowToRecord);
+  } catch (err) {
+    logger.error(`[bounce-store] list error: ${err instanceof Error ? err.message : err}`);
+    return [];
+  }
+}
@@ -0,0 +1,98 @@
+// ============================================================
+// Business days – sequence delays and send windows are counted
+// in hverdage: Monday–Friday, excluding Danish public holidays
+// (plus grundlovsdag, juleaften and nytårsaften, when offices
+// are closed in practice).
+// ============================================================
+
+function isoDay(y: number, m: number, d: number): string {
+  return new Date(Date.UTC(y, m - 1, d)).toISOString().slice(0, 10);
+}
+
+/** Easter Sunday (Gregorian, anonymous algorithm) as YYYY-MM-DD. */
+function easterSunday(year: number): string {
+  const a = year % 19;
+  const b = Math.floor(year / 100);
+  const c = year % 100;
+  const d = Math.floor(b / 4);
+  const e = b % 4;
+  const f = Math.floor((b + 8) / 25);
+  const g = Math.floor((b - f + 1) / 3);
+  const h = (19 * a + b - d - g + 15) % 30;
+  const i = Math.floor(c / 4);
+  const k = c % 4;
+  const l = (32 + 2 * e + 2 * i - h - k) % 7;
+  const m = Math.floor((a + 11 * h + 22 * l) / 451);
+  const month = Math.floor((h + l - 7 * m + 114) / 31);
+  const day = ((h + l - 7 * m + 114) % 31) + 1;
+  return isoDay(year, month, day);
+}
+
+const _holidayCache = new Map<number, Set<string>>();
+
+/** Non-sending days in `year` as YYYY-MM-DD. */
+export function danishHolidays(year: number): Set<string> {
+  const cached = _holidayCache.get(year);
+  if (cached) return cached;
+
+  const easter = new Date(`${easterSunday(year)}T00:00:00Z`);
+  const fromEaster = (days: number) => {
+    const d = new Date(easter.getTime());
+    d.setUTCDate(d.getUTCDate() + days);
+    return d.toISOString().slice(0, 10);
+  };
+
+  const days = new Set<string>([
+    isoDay(year, 1, 1),      // nytårsdag
+    fromEaster(-3),          // skærtorsdag
+    fromEaster(-2),          // langfredag
+    fromEaster(0),           // påskedag
+    fromEaster(1),           // 2. påskedag
+    fromEaster(39),          // Kristi himmelfartsdag
+    fromEaster(49),          // pinsedag
+    fromEaster(50),          // 2. pinsedag
+    isoDay(year, 6, 5),      // grundlovsdag
+    isoDay(year, 12, 24),    // juleaftensdag
+    isoDay(year, 12, 25),    // juledag
+    isoDay(year, 12, 26),    // 2. juledag
+    isoDay(year, 12, 31),    // nytårsaftensdag
+  ]);
+  if (year <= 2023) days.add(fromEaster(26)); // store bededag (afskaffet fra 2024)
+
+  _holidayCache.set(year, days);
+  return days;
+}
+
+/** Uses the UTC calendar date of `date`. */
+export function isBusinessDay(date: Date): boolean {
+  const day = date.getUTCDay();
+  if (day === 0 || day === 6) return false;
+  return !danishHolidays(date.getUTCFullYear()).has(date.toISOString().slice(0, 10));
+}
+
+/**
+ * `days` business days after `from`, keeping the time of day.
+ * 0 means "next business day at the earliest" (from itself if it is one).
+ */
+export function addBusinessDays(from: Date, days: number): Date {
+  const d = new Date(from.getTime());
+  let left = Math.max(0, Math.floor(days));
+  while (!isBusinessDay(d)) d.setUTCDate(d.getUTCDate() + 1);
+  while (left > 0) {
+    d.setUTCDate(d.getUTCDate() + 1);
+    if (isBusinessDay(d)) left--;
+  }
+  return d;
+}
+
+/** Business days strictly after `fromIso` up to and including `toIso` (both YYYY-MM-DD). */
+export function businessDaysBetween(fromIso: string, toIso: string): number {
+  const d = new Date(`${fromIso}T00:00:00Z`);
+  const end = new Date(`${toIso}T00:00:00Z`);
+  let n = 0;
+  while (d < end) {
+    d.setUTCDate(d.getUTCDate() + 1);
+    if (isBusinessDay(d)) n++;
+  }
+  return n;
+}
@@ -0,0 +1,134 @@
+// ============================================================
+// Engagement Store – one event per touchpoint with a contact
+//
+// Every subsystem writes here as things happen (mail sent,
+// opened, clicked, replied, proposal generated, tilbud sent or
+// accepted, case created, call notes), keyed by canonical
+// contact email and company key. The contact timeline and the
+// follow-up scoring read this stream instead of re-fetching
+// Gmail and HubSpot. Writes are best-effort and never throw.
+// ============================================================
+
+import { supabase, HAS_SUPABASE } from "@/lib/supabase";
+import { logger } from "@/lib/logger";
+import { canonicalCompanyKey, canonicalContactEmail } from "@/lib/canonical-id";
+import type { EngagementEvent, EngagementInput, EngagementKind } from "./engagement-types";
+
+function rowToEvent(row: Record<string, unknown>): EngagementEvent {
+  const str = (v: unknown) => (v ? String(v) : null);
+  return {
+    id: String(row.id),
+    kind: String(row.kind) as EngagementKind,
+    contactEmail: str(row.contact_email),
+    companyKey: str(row.company_key),
+    propertyId: str(row.property_id),
+    source: String(row.source || ""),
+    refId: str(row.ref_id),
+    summary: String(row.summary || ""),
+    occurredAt: String(row.occurred_at || row.created_at || new Date().toISOString()),
+    metadata: (row.metadata as Record<string, unknown>) || {},
+    createdAt: String(row.created_at || new Date().toISOString()),
+  };
+}
+
+/**
+ * Record an event. Events with a refId are idempotent per
+ * (kind, source, refId), so re-runs and repeated pixel hits
+ * keep the first occurrence.
+ */
+export async function recordEngagement(input: EngagementInput): Promise<void> {
+  if (!HAS_SUPABASE || !supabase) return;
+  const contactEmail = canonicalContactEmail(input.email);
+  const companyKey = canonicalCompanyKey({ cvr: input.cvr, domain: input.domain, email: contactEmail });
+  if (!contactEmail && !companyKey && !input.propertyId) return;
+
+  try {
+    const row = {
+      id: `eng-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+      kind: input.kind,
+      contact_email: contactEmail,
+      company_key: companyKey,
+      property_id: input.propertyId || null,
+      source: input.source,
+      ref_id: input.refId || null,
+      dedupe_key: input.refId ? `${input.kind}:${input.source}:${input.refId}` : null,
+      summary: input.summary.slice(0, 500),
+      occurred_at: input.occurredAt || new Date().toISOString(),
+      metadata: input.metadata || {},
+    };
+    const { error } = input.refId
+      ? await supabase.from("engagement_events").upsert(row, { onConflict: "dedupe_key", ignoreDuplicates: true })
+      : await supabase.from("engagement_events").insert(row);
+    if (error) throw error;
+  } catch (err) {
+    logger.error(`[engagement-store] record error: ${err instanceof Error ? err.message : err}`);
+  }
+}
+
+/** Record several events (backfills); same rules as recordEngagement. */
+export async function recordEngagements(inputs: EngagementInput[]): Promise<void> {
+  for (const input of inputs) await recordEngagement(input);
+}
+
+/** Newest first; matches any of the given keys. */
+export async function listEngagements(filter: {
+  email?: string | null;
+  companyKey?: string | null;
+  propertyId?: string | null;
+  limit?: number;
+}): Promise<EngagementEvent[]> {
+  if (!HAS_SUPABASE || !supabase) return [];
+  const email = canonicalContactEmail(filter.email);
+  const keys: [column: string, value: string][] = [];
+  if (email) keys.push(["contact_email", email]);
+  if (filter.companyKey) keys.push(["company_key", filter.companyKey]);
+  if (filter.propertyId) keys.push(["property_id", filter.propertyId]);
+  if (keys.length === 0) return [];
+
+  // One plain .eq() query per key – the values never end up in a filter string
+  const db = supabase;
+  const limit = filter.limit ?? 200;
+  try {
+    const results = await Promise.all(
+      keys.map(([column, value]) =>
+        db
+          .from("engagement_events")
+          .select("*")
+          .eq(column, value)
+          .order("occurred_at", { ascending: false })
+          .limit(limit)
+      )
+    );
+    const byId = new Map<string, EngagementEvent>();
+    for (const { data, error } of results) {
+      if (error) throw error;
+      for (const row of data || []) {
+        const event = rowToEvent(row);
+        byId.set(event.id, event);
+      }
+    }
+    return [...byId.values()]
+      .sort((a, b) => b.occurredAt.localeCompare(a.occurredAt))
+      .slice(0, limit);
+  } catch (err) {
+    logger.error(`[engagement-store] list error: ${err instanceof Error ? err.message : err}`);
+    return [];
+  }
+}
+
+/** Move a property's events to another property (property merge). */
+export async function reassignEngagementProperty(fromPropertyId: string, toPropertyId: string): Promise<number> {
+  if (!HAS_SUPABASE || !supabase) return 0;
+  try {
+    const { data, error } = await supabase
+      .from("engagement_events")
+      .update({ property_id: toPropertyId })
+      .eq("property_id", fromPropertyId)
+      .select("id");
+    if (error) throw error;
+    return data?.length || 0;
+  } catch (err) {
+    logger.error(`[engagement-store] reassign error: ${err instanceof Error ? err.message : err}`);
+    return 0;
+  }
+}
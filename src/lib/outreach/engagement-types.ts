@@ -0,0 +1,54 @@
+export type EngagementKind =
+  | "email_sent"
+  | "email_received"
+  | "email_opened"
+  | "email_clicked"
+  | "email_replied"
+  | "proposal_generated"
+  | "tilbud_sent"
+  | "tilbud_accepted"
+  | "case_created"
+  | "call_note"
+  | "note";
+
+export const ENGAGEMENT_KIND_LABELS: Record<EngagementKind, string> = {
+  email_sent: "Mail sendt",
+  email_received: "Mail modtaget",
+  email_opened: "Mail åbnet",
+  email_clicked: "Link klikket",
+  email_replied: "Svar modtaget",
+  proposal_generated: "Forslag genereret",
+  tilbud_sent: "Tilbud sendt",
+  tilbud_accepted: "Tilbud accepteret",
+  case_created: "Case oprettet",
+  call_note: "Opkald",
+  note: "Note",
+};
+
+export interface EngagementEvent {
+  id: string;
+  kind: EngagementKind;
+  contactEmail: string | null;
+  companyKey: string | null;
+  propertyId: string | null;
+  source: string;                 // e.g. "email-queue", "ooh-campaign", "hubspot", "manual"
+  refId: string | null;           // queue item / OOH send / tilbud / Gmail message id …
+  summary: string;
+  occurredAt: string;
+  metadata: Record<string, unknown>;
+  createdAt: string;
+}
+
+export interface EngagementInput {
+  kind: EngagementKind;
+  email?: string | null;
+  /** CVR or domain; falls back to the email's domain. */
+  cvr?: string | null;
+  domain?: string | null;
+  propertyId?: string | null;
+  source: string;
+  refId?: string | null;
+  summary: string;
+  occurredAt?: string;
+  metadata?: Record<string, unknown>;
+}
@@ -0,0 +1,57 @@
+// ============================================================
+// Engagement – writers that need a lookup before the event can
+// be keyed to a contact (tracking pixels and click redirects
+// only carry a sendId).
+// ============================================================
+
+import { getSend } from "@/lib/ooh/store";
+import { logger } from "@/lib/logger";
+import { getEnrollment, getStepSend } from "./sequence-store";
+import { SEQUENCE_SEND_PREFIX } from "./sequence-types";
+import { getAssignment } from "./experiment-store";
+import { EXPERIMENT_ASSIGNMENT_PREFIX } from "./experiment-types";
+import { recordEngagement } from "./engagement-store";
+
+/** Who a tracking id was sent to: OOH send, sequence step or experiment mail. */
+async function resolveTrackingRecipient(
+  sendId: string
+): Promise<{ email: string | null; propertyId: string | null; subject: string | null } | null> {
+  if (sendId.startsWith(SEQUENCE_SEND_PREFIX)) {
+    const step = await getStepSend(sendId);
+    const enrollment = step ? await getEnrollment(step.enrollmentId) : null;
+    if (!step || !enrollment) return null;
+    return {
+      email: enrollment.email,
+      propertyId: enrollment.targetType === "property" ? enrollment.targetId : null,
+      subject: step.subject,
+    };
+  }
+  if (sendId.startsWith(EXPERIMENT_ASSIGNMENT_PREFIX)) {
+    const assignment = await getAssignment(sendId);
+    return assignment ? { email: assignment.recipient, propertyId: null, subject: null } : null;
+  }
+  const send = await getSend(sendId);
+  return send ? { email: send.contactEmail || null, propertyId: null, subject: null } : null;
+}
+
+/** First open / first click per tracking id; repeats are ignored by the store. */
+export async function recordTrackingEngagement(sendId: string, event: "opened" | "clicked", url?: string | null): Promise<void> {
+  try {
+    const recipient = await resolveTrackingRecipient(sendId);
+    if (!recipient) return;
+    const label = event === "opened" ? "Åbnet" : "Klikket";
+    await recordEngagement({
+      kind: event === "opened" ? "email_opened" : "email_clicked",
+      email: recipient.email,
+      propertyId: recipient.propertyId,
+      source: "tracking",
+      refId: sendId,
+      summary: recipient.subject ? `${label}: ${recipient.subject}` : `${label}${url ? `: ${url}` : ""}`,
+      metadata: url ? { url } : {},
+    });
+  } catch (e) {
+    logger.warn(`Tracking-hændelse ${sendId} kunne ikke gemmes: ${e instanceof Error ? e.message : e}`, {
+      service: "engagement",
+    });
+  }
+}
@@ -0,0 +1,102 @@
+// ============================================================
+// Experiment Stats – per-variant outcome rates and a two-
+// proportion z-test of the leader against every other variant.
+//
+// With k variants the leader is compared k-1 times, so the 5 %
+// level is split between the comparisons (Bonferroni) before a
+// result counts as significant.
+// ============================================================
+
+import type {
+  Experiment,
+  ExperimentAssignment,
+  ExperimentMetric,
+  ExperimentReport,
+  VariantResult,
+} from "./experiment-types";
+
+const ALPHA = 0.05;
+
+/** Standard normal CDF (Abramowitz & Stegun 7.1.26, error < 1.5e-7). */
+function normalCdf(z: number): number {
+  const x = Math.abs(z) / Math.SQRT2;
+  const t = 1 / (1 + 0.3275911 * x);
+  const erf =
+    1 -
+    ((((1.061405429 * t - 1.453152027) * t + 1.421413741) * t - 0.284496736) * t + 0.254829592) *
+      t *
+      Math.exp(-x * x);
+  return z >= 0 ? (1 + erf) / 2 : (1 - erf) / 2;
+}
+
+/** Two-sided p-value for "the two rates differ" (pooled z-test). 1 when there is nothing to compare. */
+export function twoProportionPValue(hitsA: number, nA: number, hitsB: number, nB: number): number {
+  if (nA === 0 || nB === 0) return 1;
+  const pooled = (hitsA + hitsB) / (nA + nB);
+  const se = Math.sqrt(pooled * (1 - pooled) * (1 / nA + 1 / nB));
+  if (se === 0) return 1;
+  const z = (hitsA / nA - hitsB / nB) / se;
+  return 2 * (1 - normalCdf(Math.abs(z)));
+}
+
+function hits(v: Pick<VariantResult, "opened" | "clicked" | "replied">, metric: ExperimentMetric): number {
+  return metric === "open" ? v.opened : metric === "click" ? v.clicked : v.replied;
+}
+
+export function buildExperimentReport(
+  experiment: Experiment,
+  assignments: ExperimentAssignment[]
+): ExperimentReport {
+  const cutoff = experiment.endedAt;
+  const counted = cutoff ? assignments.filter((a) => a.assignedAt <= cutoff) : assignments;
+  const rate = (n: number, of: number) => (of > 0 ? n / of : 0);
+
+  const variants: VariantResult[] = experiment.variants.map((variant) => {
+    const forVariant = counted.filter((a) => a.variantId === variant.id);
+    const sent = forVariant.filter((a) => a.status === "sent");
+    const opened = sent.filter((a) => a.openedAt).length;
+    const clicked = sent.filter((a) => a.clickedAt).length;
+    const replied = sent.filter((a) => a.repliedAt).length;
+    return {
+      variantId: variant.id,
+      label: variant.label,
+      assigned: forVariant.length,
+      sent: sent.length,
+      opened,
+      clicked,
+      replied,
+      openRate: rate(opened, sent.length),
+      clickRate: rate(clicked, sent.length),
+      replyRate: rate(replied, sent.length),
+      pValue: null,
+    };
+  });
+
+  const metricRate = (v: VariantResult) => rate(hits(v, experiment.metric), v.sent);
+  const withSends = variants.filter((v) => v.sent > 0);
+  const leader = withSends.length > 0
+    ? withSends.reduce((best, v) => (metricRate(v) > metricRate(best) ? v : best))
+    : null;
+
+  let significant = false;
+  if (leader) {
+    const alpha = ALPHA / Math.max(1, variants.length - 1);
+    significant = true;
+    for (const v of variants) {
+      if (v === leader) continue;
+      v.pValue = twoProportionPValue(hits(leader, experiment.metric), leader.sent, hits(v, experiment.metric), v.sent);
+      if (!(v.pValue < alpha && metricRate(leader) > metricRate(v))) significant = false;
+    }
+  }
+
+  const enoughData = variants.every((v) => v.sent >= experiment.minSamplePerVariant);
+
+  return {
+    experimentId: experiment.id,
+    metric: experiment.metric,
+    variants,
+    leaderVariantId: leader?.variantId ?? null,
+    enoughData,
+    significant: significant && enoughData,
+  };
+}
@@ -0,0 +1,334 @@
+// ============================================================
+// Experiment Store – A/B experiments on subject lines, bodies
+// and AI prompts, and the per-recipient assignment log their
+// results are computed from.
+//
+// Supabase only: reads return empty and writes throw when it is
+// not configured; assignment writes are best-effort so a failing
+// experiment never blocks a send.
+// ============================================================
+
+import { supabase, HAS_SUPABASE } from "@/lib/supabase";
+import { logger } from "@/lib/logger";
+import {
+  EXPERIMENT_ASSIGNMENT_PREFIX,
+  experimentVariantSchema,
+  type AssignmentStatus,
+  type Experiment,
+  type ExperimentAssignment,
+  type ExperimentChannel,
+  type ExperimentInput,
+  type ExperimentMetric,
+  type ExperimentStatus,
+  type ExperimentVariant,
+} from "./experiment-types";
+
+function newId(prefix: string): string {
+  return `${prefix}${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+function rowToExperiment(row: Record<string, unknown>): Experiment {
+  const variants = Array.isArray(row.variants)
+    ? (row.variants as unknown[]).flatMap((v) => {
+        const parsed = experimentVariantSchema.safeParse(v);
+        return parsed.success ? [parsed.data as ExperimentVariant] : [];
+      })
+    : [];
+  const str = (v: unknown) => (v ? String(v) : null);
+  return {
+    id: String(row.id),
+    name: String(row.name || ""),
+    description: String(row.description || ""),
+    channel: (String(row.channel || "property") as ExperimentChannel),
+    metric: (String(row.metric || "reply") as ExperimentMetric),
+    variants,
+    autoPromote: row.auto_promote === true,
+    minSamplePerVariant: Number(row.min_sample_per_variant || 50),
+    status: (String(row.status || "draft") as ExperimentStatus),
+    winnerVariantId: str(row.winner_variant_id),
+    startedAt: str(row.started_at),
+    endedAt: str(row.ended_at),
+    createdAt: String(row.created_at || new Date().toISOString()),
+    updatedAt: String(row.updated_at || new Date().toISOString()),
+  };
+}
+
+function rowToAssignment(row: Record<string, unknown>): ExperimentAssignment {
+  const str = (v: unknown) => (v ? String(v) : null);
+  return {
+    id: String(row.id),
+    experimentId: String(row.experiment_id || ""),
+    variantId: String(row.variant_id || ""),
+    channel: (String(row.channel || "property") as ExperimentChannel),
+    recipient: String(row.recipient || ""),
+    refId: str(row.ref_id),
+    status: (String(row.status || "assigned") as AssignmentStatus),
+    assignedAt: String(row.assigned_at || new Date().toISOString()),
+    sentAt: str(row.sent_at),
+    openedAt: str(row.opened_at),
+    clickedAt: str(row.clicked_at),
+    repliedAt: str(row.replied_at),
+  };
+}
+
+function logError(what: string, err: unknown) {
+  logger.error(`[experiment-store] ${what} error: ${err instanceof Error ? err.message : err}`);
+}
+
+// ── Experiments ─────────────────────────────────────────────
+
+export async function listExperiments(): Promise<Experiment[]> {
+  if (!HAS_SUPABASE || !supabase) return [];
+  try {
+    const { data, error } = await supabase
+      .from("email_experiments")
+      .select("*")
+      .order("created_at", { ascending: false });
+    if (error) throw error;
+    return (data || []).map(rowToExperiment);
+  } catch (err) {
+    logError("list", err);
+    return [];
+  }
+}
+
+export async function getExperiment(id: string): Promise<Experiment | null> {
+  if (!HAS_SUPABASE || !supabase) return null;
+  try {
+    const { data, error } = await supabase.from("email_experiments").select("*").eq("id", id).maybeSingle();
+    if (error) throw error;
+    return data ? rowToExperiment(data) : null;
+  } catch (err) {
+    logError("get", err);
+    return null;
+  }
+}
+
+/** The running or promoted experiment of a channel (at most one). */
+export async function getActiveExperiment(channel: ExperimentChannel): Promise<Experiment | null> {
+  if (!HAS_SUPABASE || !supabase) return null;
+  try {
+    const { data, error } = await supabase
+      .from("email_experiments")
+      .select("*")
+      .eq("channel", channel)
+      .in("status", ["running", "promoted"])
+      .order("started_at", { ascending: false })
+      .limit(1);
+    if (error) throw error;
+    return data?.[0] ? rowToExperiment(data[0]) : null;
+  } catch (err) {
+    logError("get active", err);
+    return null;
+  }
+}
+
+function experimentToRow(input: ExperimentInput) {
+  return {
+    name: input.name,
+    description: input.description || null,
+    channel: input.channel,
+    metric: input.metric,
+    variants: input.variants,
+    auto_promote: input.autoPromote,
+    min_sample_per_variant: input.minSamplePerVariant,
+    updated_at: new Date().toISOString(),
+  };
+}
+
+export async function createExperiment(input: ExperimentInput): Promise<Experiment> {
+  if (!HAS_SUPABASE || !supabase) throw new Error("Supabase is not configured");
+  const { data, error } = await supabase
+    .from("email_experiments")
+    .insert({ id: newId("exp-"), status: "draft", ...experimentToRow(input) })
+    .select("*")
+    .single();
+  if (error) throw error;
+  return rowToExperiment(data);
+}
+
+export async function updateExperiment(id: string, input: ExperimentInput): Promise<Experiment> {
+  if (!HAS_SUPABASE || !supabase) throw new Error("Supabase is not configured");
+  const { data, error } = await supabase
+    .from("email_experiments")
+    .update(experimentToRow(input))
+    .eq("id", id)
+    .select("*")
+    .single();
+  if (error) throw error;
+  return rowToExperiment(data);
+}
+
+export async function setExperimentStatus(
+  id: string,
+  patch: Partial<Pick<Experiment, "status" | "winnerVariantId" | "startedAt" | "endedAt" | "autoPromote">>
+): Promise<Experiment> {
+  if (!HAS_SUPABASE || !supabase) throw new Error("Supabase is not configured");
+  const row: Record<string, unknown> = { updated_at: new Date().toISOString() };
+  if (patch.status !== undefined) row.status = patch.status;
+  if (patch.winnerVariantId !== undefined) row.winner_variant_id = patch.winnerVariantId;
+  if (patch.startedAt !== undefined) row.started_at = patch.startedAt;
+  if (patch.endedAt !== undefined) row.ended_at = patch.endedAt;
+  if (patch.autoPromote !== undefined) row.auto_promote = patch.autoPromote;
+  const { data, error } = await supabase
+    .from("email_experiments")
+    .update(row)
+    .eq("id", id)
+    .select("*")
+    .single();
+  if (error) throw error;
+  return rowToExperiment(data);
+}
+
+export async function deleteExperiment(id: string): Promise<void> {
+  if (!HAS_SUPABASE || !supabase) throw new Error("Supabase is not configured");
+  const { error } = await supabase.from("email_experiments").delete().eq("id", id);
+  if (error) throw error;
+}
+
+// ── Assignments ─────────────────────────────────────────────
+
+export async function findAssignment(experimentId: string, recipient: string): Promise<ExperimentAssignment | null> {
+  if (!HAS_SUPABASE || !supabase) return null;
+  try {
+    const { data, error } = await supabase
+      .from("experiment_assignments")
+      .select("*")
+      .eq("experiment_id", experimentId)
+      .eq("recipient", recipient.toLowerCase())
+      .maybeSingle();
+    if (error) throw error;
+    return data ? rowToAssignment(data) : null;
+  } catch (err) {
+    logError("find assignment", err);
+    return null;
+  }
+}
+
+export async function getAssignment(id: string): Promise<ExperimentAssignment | null> {
+  if (!HAS_SUPABASE || !supabase) return null;
+  try {
+    const { data, error } = await supabase.from("experiment_assignments").select("*").eq("id", id).maybeSingle();
+    if (error) throw error;
+    return data ? rowToAssignment(data) : null;
+  } catch (err) {
+    logError("get assignment", err);
+    return null;
+  }
+}
+
+export async function createAssignment(
+  entry: Pick<ExperimentAssignment, "experimentId" | "variantId" | "channel" | "recipient" | "refId">
+): Promise<ExperimentAssignment | null> {
+  if (!HAS_SUPABASE || !supabase) return null;
+  try {
+    const { data, error } = await supabase
+      .from("experiment_assignments")
+      .insert({
+        id: newId(EXPERIMENT_ASSIGNMENT_PREFIX),
+        experiment_id: entry.experimentId,
+        variant_id: entry.variantId,
+        channel: entry.channel,
+        recipient: entry.recipient.toLowerCase(),
+        ref_id: entry.refId,
+      })
+      .select("*")
+      .single();
+    if (error) throw error;
+    return rowToAssignment(data);
+  } catch (err) {
+    logError("create assignment", err);
+    return null;
+  }
+}
+
+export async function updateAssignment(
+  id: string,
+  patch: Partial<Pick<ExperimentAssignment, "refId" | "status" | "sentAt">>
+): Promise<void> {
+  if (!HAS_SUPABASE || !supabase) return;
+  const row: Record<string, unknown> = {};
+  if (patch.refId !== undefined) row.ref_id = patch.refId;
+  if (patch.status !== undefined) row.status = patch.status;
+  if (patch.sentAt !== undefined) row.sent_at = patch.sentAt;
+  try {
+    const { error } = await supabase.from("experiment_assignments").update(row).eq("id", id);
+    if (error) throw error;
+  } catch (err) {
+    logError("update assignment", err);
+  }
+}
+
+/**
+ * Open/click from the tracking endpoints, by assignment id or by the
+ * OOH send it is linked to. Only the first of each is kept; a click
+ * implies an open.
+ */
+export async function markAssignmentEvent(
+  match: { id: string } | { refId: string },
+  event: "opened" | "clicked"
+): Promise<void> {
+  if (!HAS_SUPABASE || !supabase) return;
+  try {
+    let q = supabase.from("experiment_assignments").select("*").eq("status", "sent");
+    q = "id" in match ? q.eq("id", match.id) : q.eq("ref_id", match.refId);
+    const { data, error } = await q.limit(1);
+    if (error) throw error;
+    const a = data?.[0] ? rowToAssignment(data[0]) : null;
+    if (!a) return;
+
+    const now = new Date().toISOString();
+    const row: Record<string, unknown> = {};
+    if (!a.openedAt) row.opened_at = now;
+    if (event === "clicked" && !a.clickedAt) row.clicked_at = now;
+    if (Object.keys(row).length === 0) return;
+    const { error: updError } = await supabase.from("experiment_assignments").update(row).eq("id", a.id);
+    if (updError) throw updError;
+  } catch (err) {
+    logError("mark event", err);
+  }
+}
+
+/**
+ * A reply from `recipient` counts for every sent, unreplied assignment
+ * to it (and as an open – images are often blocked). Returns how many.
+ */
+export async function markAssignmentsReplied(recipient: string): Promise<number> {
+  if (!HAS_SUPABASE || !supabase || !recipient) return 0;
+  try {
+    const now = new Date().toISOString();
+    const { data, error } = await supabase
+      .from("experiment_assignments")
+      .update({ replied_at: now })
+      .eq("recipient", recipient.toLowerCase())
+      .eq("status", "sent")
+      .is("replied_at", null)
+      .select("id");
+    if (error) throw error;
+    const ids = (data || []).map((r) => String(r.id));
+    if (ids.length > 0) {
+      await supabase.from("experiment_assignments").update({ opened_at: now }).in("id", ids).is("opened_at", null);
+    }
+    return ids.length;
+  } catch (err) {
+    logError("mark replied", err);
+    return 0;
+  }
+}
+
+export async function listAssignments(experimentId: string): Promise<ExperimentAssignment[]> {
+  if (!HAS_SUPABASE || !supabase) return [];
+  try {
+    const { data, error } = await supabase
+      .from("experiment_assignments")
+      .select("*")
+      .eq("experiment_id", experimentId)
+      .order("assigned_at", { ascending: true })
+      .limit(20000);
+    if (error) throw error;
+    return (data || []).map(rowToAssignment);
+  } catch (err) {
+    logError("list assignments", err);
+    return [];
+  }
+}
@@ -0,0 +1,112 @@
+import { z } from "zod";
+
+/**
+ * Where an experiment's recipients come from: first mails in the
+ * email queue (property), OOH campaign sends (ooh) or the lead
+ * composer (lead).
+ */
+export const experimentChannelSchema = z.enum(["property", "ooh", "lead"]);
+export type ExperimentChannel = z.infer<typeof experimentChannelSchema>;
+
+/** Outcome the winner is judged on. */
+export const experimentMetricSchema = z.enum(["open", "click", "reply"]);
+export type ExperimentMetric = z.infer<typeof experimentMetricSchema>;
+
+/**
+ * One variant. Subject/body replace the drafted text and may use
+ * {name}, {company}, {address}, {city} plus {subject}/{body} for the
+ * original draft; empty keeps the draft. `promptHint` is an extra
+ * instruction for the AI when the draft is generated for a recipient
+ * assigned to this variant.
+ */
+export const experimentVariantSchema = z.object({
+  id: z.string().min(1),
+  label: z.string().trim().min(1, "Giv varianten et navn").max(80),
+  subject: z.string().trim().max(300).default(""),
+  body: z.string().max(10000).default(""),
+  promptHint: z.string().trim().max(1000).default(""),
+});
+export type ExperimentVariant = z.infer<typeof experimentVariantSchema>;
+
+export const experimentInputSchema = z.object({
+  name: z.string().trim().min(1, "Giv eksperimentet et navn"),
+  description: z.string().trim().max(1000).optional().default(""),
+  channel: experimentChannelSchema.default("property"),
+  metric: experimentMetricSchema.default("reply"),
+  variants: z
+    .array(experimentVariantSchema)
+    .min(2, "Tilføj mindst to varianter")
+    .max(5)
+    .refine((vs) => new Set(vs.map((v) => v.id)).size === vs.length, "Variant-id'er skal være unikke"),
+  autoPromote: z.boolean().default(false),
+  minSamplePerVariant: z.number().int().min(10).max(10000).default(50),
+});
+export type ExperimentInput = z.infer<typeof experimentInputSchema>;
+
+/**
+ * draft → running → stopped | promoted. A promoted experiment keeps
+ * sending its winner to every new recipient until it is stopped.
+ */
+export type ExperimentStatus = "draft" | "running" | "stopped" | "promoted";
+
+export interface Experiment extends ExperimentInput {
+  id: string;
+  status: ExperimentStatus;
+  winnerVariantId: string | null;
+  startedAt: string | null;
+  endedAt: string | null;          // stopped/promoted – the report only counts assignments before this
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type AssignmentStatus = "assigned" | "sent" | "failed";
+
+export interface ExperimentAssignment {
+  id: string;
+  experimentId: string;
+  variantId: string;
+  channel: ExperimentChannel;
+  recipient: string;
+  refId: string | null;            // queue item / OOH send / lead id
+  status: AssignmentStatus;
+  assignedAt: string;
+  sentAt: string | null;
+  openedAt: string | null;
+  clickedAt: string | null;
+  repliedAt: string | null;
+}
+
+export interface VariantResult {
+  variantId: string;
+  label: string;
+  assigned: number;
+  sent: number;
+  opened: number;
+  clicked: number;
+  replied: number;
+  openRate: number;                // 0–1 of sent
+  clickRate: number;
+  replyRate: number;
+  /** Two-sided p-value of this variant vs. the leader on the experiment's metric (null for the leader). */
+  pValue: number | null;
+}
+
+export interface ExperimentReport {
+  experimentId: string;
+  metric: ExperimentMetric;
+  variants: VariantResult[];
+  leaderVariantId: string | null;
+  /** Every variant has reached the minimum sample. */
+  enoughData: boolean;
+  /** The leader beats every other variant at 95 % (Bonferroni-corrected). */
+  significant: boolean;
+}
+
+/** Assignment ids get this prefix, so the tracking endpoints can tell them from OOH and step sends. */
+export const EXPERIMENT_ASSIGNMENT_PREFIX = "abx-";
+
+export const EXPERIMENT_CHANNEL_LABELS: Record<ExperimentChannel, string> = {
+  property: "Ejendomme (mail-kø)",
+  ooh: "OOH-kampagner",
+  lead: "Leads (mail-composer)",
+};
@@ -0,0 +1,207 @@
+// ============================================================
+// Experiments – A/B assignment and outcome attribution.
+//
+// A channel has at most one running (or promoted) experiment.
+// Each recipient is assigned a variant at random the first time
+// a mail to them is drafted or sent, and keeps it, so a prompt
+// variant used for the AI draft matches the variant the send is
+// counted under. Sends, opens, clicks and replies are written to
+// the assignment; once the leader is significant on the chosen
+// metric it can be promoted (by hand or automatically), after
+// which every new recipient gets the winner.
+// ============================================================
+
+import { logger } from "@/lib/logger";
+import {
+  createAssignment,
+  findAssignment,
+  getActiveExperiment,
+  getAssignment,
+  getExperiment,
+  listAssignments,
+  listExperiments,
+  setExperimentStatus,
+  updateAssignment,
+} from "./experiment-store";
+import { buildExperimentReport } from "./experiment-stats";
+import {
+  EXPERIMENT_CHANNEL_LABELS,
+  type Experiment,
+  type ExperimentChannel,
+  type ExperimentReport,
+  type ExperimentVariant,
+} from "./experiment-types";
+
+export class ExperimentError extends Error {
+  constructor(
+    message: string,
+    public status: number
+  ) {
+    super(message);
+    this.name = "ExperimentError";
+  }
+}
+
+export interface VariantAssignment {
+  experimentId: string;
+  assignmentId: string;
+  variant: ExperimentVariant;
+}
+
+/**
+ * The variant for `recipient` in the channel's active experiment, or
+ * null when none runs. Never throws – an experiment must not block a send.
+ */
+export async function assignVariant(
+  channel: ExperimentChannel,
+  recipient: string,
+  refId?: string
+): Promise<VariantAssignment | null> {
+  const email = recipient.trim().toLowerCase();
+  if (!email) return null;
+  try {
+    const experiment = await getActiveExperiment(channel);
+    if (!experiment || experiment.variants.length === 0) return null;
+
+    const existing = await findAssignment(experiment.id, email);
+    if (existing) {
+      const variant = experiment.variants.find((v) => v.id === existing.variantId);
+      if (!variant) return null;
+      if (refId && existing.refId !== refId) await updateAssignment(existing.id, { refId });
+      return { experimentId: experiment.id, assignmentId: existing.id, variant };
+    }
+
+    const variant =
+      (experiment.status === "promoted" && experiment.variants.find((v) => v.id === experiment.winnerVariantId)) ||
+      experiment.variants[Math.floor(Math.random() * experiment.variants.length)];
+    const assignment = await createAssignment({
+      experimentId: experiment.id,
+      variantId: variant.id,
+      channel,
+      recipient: email,
+      refId: refId || null,
+    });
+    return assignment ? { experimentId: experiment.id, assignmentId: assignment.id, variant } : null;
+  } catch (e) {
+    logger.warn(`Eksperiment-tildeling fejlede for ${email}: ${e instanceof Error ? e.message : e}`, {
+      service: "experiments",
+    });
+    return null;
+  }
+}
+
+/** The variant's subject/body over the drafted text; empty variant fields keep the draft. */
+export function applyVariant(
+  variant: ExperimentVariant,
+  draft: { subject: string; body: string },
+  vars: { name?: string; company?: string; address?: string; city?: string }
+): { subject: string; body: string } {
+  const fill = (text: string) =>
+    text
+      .replace(/\{subject\}/g, draft.subject)
+      .replace(/\{body\}/g, draft.body)
+      .replace(/\{name\}/g, vars.name || "")
+      .replace(/\{company\}/g, vars.company || "")
+      .replace(/\{address\}/g, vars.address || "")
+      .replace(/\{city\}/g, vars.city || "");
+  return {
+    subject: variant.subject ? fill(variant.subject) : draft.subject,
+    body: variant.body ? fill(variant.body) : draft.body,
+  };
+}
+
+/**
+ * Record the outcome of the send an assignment was made for.
+ * Best-effort: attribution errors are logged, never thrown into the send path.
+ */
+export async function recordVariantSend(
+  assignmentId: string,
+  result: { success: boolean; refId?: string }
+): Promise<void> {
+  try {
+    if (result.success) {
+      await updateAssignment(assignmentId, { status: "sent", sentAt: new Date().toISOString(), refId: result.refId });
+      return;
+    }
+    // An earlier successful send to the same recipient still counts
+    const assignment = await getAssignment(assignmentId);
+    if (assignment && assignment.status === "assigned") {
+      await updateAssignment(assignmentId, { status: "failed", refId: result.refId });
+    }
+  } catch (e) {
+    logger.warn(`Eksperiment-registrering fejlede for ${assignmentId}: ${e instanceof Error ? e.message : e}`, {
+      service: "experiments",
+    });
+  }
+}
+
+export async function getExperimentReport(experiment: Experiment): Promise<ExperimentReport> {
+  return buildExperimentReport(experiment, await listAssignments(experiment.id));
+}
+
+// ── Lifecycle ───────────────────────────────────────────────
+
+export async function startExperiment(id: string): Promise<Experiment> {
+  const experiment = await getExperiment(id);
+  if (!experiment) throw new ExperimentError("Eksperiment ikke fundet", 404);
+  if (experiment.status !== "draft") throw new ExperimentError("Eksperimentet er allerede startet", 409);
+
+  const active = await getActiveExperiment(experiment.channel);
+  if (active) {
+    throw new ExperimentError(
+      `"${active.name}" kører allerede for ${EXPERIMENT_CHANNEL_LABELS[experiment.channel]} – stop det først`,
+      409
+    );
+  }
+  return setExperimentStatus(id, { status: "running", startedAt: new Date().toISOString() });
+}
+
+export async function stopExperiment(id: string): Promise<Experiment> {
+  const experiment = await getExperiment(id);
+  if (!experiment) throw new ExperimentError("Eksperiment ikke fundet", 404);
+  if (experiment.status !== "running" && experiment.status !== "promoted") {
+    throw new ExperimentError("Eksperimentet kører ikke", 409);
+  }
+  // A promoted experiment already has its cut-off
+  return setExperimentStatus(id, {
+    status: "stopped",
+    endedAt: experiment.endedAt || new Date().toISOString(),
+  });
+}
+
+export async function promoteVariant(id: string, variantId: string): Promise<Experiment> {
+  const experiment = await getExperiment(id);
+  if (!experiment) throw new ExperimentError("Eksperiment ikke fundet", 404);
+  if (experiment.status !== "running") throw new ExperimentError("Kun et kørende eksperiment kan få en vinder", 409);
+  if (!experiment.variants.some((v) => v.id === variantId)) throw new ExperimentError("Ukendt variant", 400);
+  return setExperimentStatus(id, {
+    status: "promoted",
+    winnerVariantId: variantId,
+    endedAt: new Date().toISOString(),
+  });
+}
+
+/**
+ * Promote the leader of every running auto-promote experiment whose
+ * result is significant with enough data (called from mail-sync,
+ * after replies are attributed).
+ */
+export async function evaluateExperiments(): Promise<{ promoted: string[] }> {
+  const promoted: string[] = [];
+  const running = (await listExperiments()).filter((e) => e.status === "running" && e.autoPromote);
+  for (const experiment of running) {
+    try {
+      const report = await getExperimentReport(experiment);
+      if (!report.significant || !report.leaderVariantId) continue;
+      await promoteVariant(experiment.id, report.leaderVariantId);
+      const label = experiment.variants.find((v) => v.id === report.leaderVariantId)?.label;
+      promoted.push(experiment.id);
+      logger.info(`Eksperiment "${experiment.name}": "${label}" forfremmet automatisk`, { service: "experiments" });
+    } catch (e) {
+      logger.warn(`Kunne ikke evaluere eksperiment ${experiment.id}: ${e instanceof Error ? e.message : e}`, {
+        service: "experiments",
+      });
+    }
+  }
+  return { promoted };
+}
@@ -0,0 +1,130 @@
+// ============================================================
+// Reply Actions – turn a reply classification into pipeline
+// changes: status transitions, suppression, referral contacts,
+// postponed OOH follow-ups, stopped/paused sequences and the reply
+// counted for the recipient's A/B variant.
+//
+// Every status change goes through transitionProperty, so an
+// invalid move (e.g. the property is already closed) is skipped
+// rather than forced.
+// ============================================================
+
+import { upsertContact } from "@/lib/hubspot";
+import { getSends, upsertSend } from "@/lib/ooh/store";
+import { logger } from "@/lib/logger";
+import type { OutreachStatus } from "@/types";
+import { transitionProperty, TransitionError } from "./transition";
+import { suppressAddress } from "./suppression-store";
+import { pauseSequencesUntil, stopSequencesFor } from "./sequence-progress";
+import { markAssignmentsReplied } from "./experiment-store";
+import { REPLY_INTENT_LABELS, type ReplyClassification } from "./reply-intelligence";
+
+const SOURCE = "mail-sync";
+
+/** Status path per intent – applied in order, invalid steps are skipped. */
+const STATUS_PATH: Record<ReplyClassification["intent"], OutreachStatus[]> = {
+  interested: ["SVAR_MODTAGET"],
+  meeting_request: ["SVAR_MODTAGET"],
+  not_interested: ["SVAR_MODTAGET", "LUKKET_TABT"],
+  unsubscribe: ["LUKKET_TABT"],
+  wrong_person: ["SVAR_MODTAGET"],
+  out_of_office: [],
+  unknown: [],
+};
+
+async function moveProperty(
+  propertyId: string,
+  to: OutreachStatus,
+  note: string,
+  actions: string[]
+): Promise<void> {
+  try {
+    const result = await transitionProperty(propertyId, to, { actor: "system", source: SOURCE, note });
+    if (result.changed) actions.push(`status:${to}`);
+  } catch (e) {
+    if (e instanceof TransitionError) return;
+    throw e;
+  }
+}
+
+/** Push pending OOH follow-ups to this contact until they are back. */
+async function postponeFollowUps(email: string, returnDate: string, actions: string[]): Promise<void> {
+  const resumeAt = `${returnDate}T08:00:00.000Z`;
+  const sends = await getSends({ status: "sent" });
+  for (const send of sends) {
+    if (send.contactEmail?.toLowerCase() !== email) continue;
+    if (!send.nextFollowUpAt || send.nextFollowUpAt >= resumeAt) continue;
+    await upsertSend({ ...send, nextFollowUpAt: resumeAt });
+    actions.push(`followup_postponed:${send.id}`);
+  }
+}
+
+/**
+ * Apply a classified reply. Returns the actions taken (for the
+ * classification log), e.g. ["status:SVAR_MODTAGET", "suppressed"].
+ */
+export async function applyReplyClassification(input: {
+  propertyId: string | null;
+  fromEmail: string;
+  classification: ReplyClassification;
+}): Promise<string[]> {
+  const { propertyId, classification: c } = input;
+  const fromEmail = input.fromEmail.toLowerCase();
+  const actions: string[] = [];
+  const note = `Svar klassificeret: ${REPLY_INTENT_LABELS[c.intent]}${c.method === "llm" ? " (AI)" : ""}`;
+
+  if (c.intent === "unsubscribe" && fromEmail) {
+    try {
+      await suppressAddress({ value: fromEmail, kind: "email", reason: "unsubscribe", source: SOURCE });
+      actions.push("suppressed");
+    } catch (e) {
+      logger.warn(`Kunne ikke afmelde ${fromEmail}: ${e instanceof Error ? e.message : e}`, { service: "reply-actions" });
+    }
+  }
+
+  if (propertyId) {
+    for (const status of STATUS_PATH[c.intent]) {
+      await moveProperty(propertyId, status, note, actions);
+    }
+  }
+
+  if (c.intent === "wrong_person" && c.referral && propertyId) {
+    try {
+      await upsertContact(
+        {
+          fullName: c.referral.name,
+          email: c.referral.email,
+          role: null,
+          source: "reply-referral",
+          confidence: 0.7,
+        },
+        propertyId
+      );
+      actions.push(`referral_contact:${c.referral.email}`);
+    } catch (e) {
+      logger.warn(`Kunne ikke oprette henvist kontakt ${c.referral.email}: ${e instanceof Error ? e.message : e}`, {
+        service: "reply-actions",
+      });
+    }
+  }
+
+  if (c.intent === "out_of_office" && c.returnDate && fromEmail) {
+    await postponeFollowUps(fromEmail, c.returnDate, actions);
+    const paused = await pauseSequencesUntil(fromEmail, c.returnDate);
+    if (paused > 0) actions.push(`sequence_paused:${paused}`);
+  }
+
+  // Any human answer counts as a reply for the sequence stop condition
+  if (c.intent !== "out_of_office") {
+    const stopped = await stopSequencesFor(
+      { email: fromEmail, propertyId },
+      c.intent === "unsubscribe" ? "unsubscribe" : "reply"
+    );
+    if (stopped > 0) actions.push(`sequence_stopped:${stopped}`);
+
+    const attributed = await markAssignmentsReplied(fromEmail);
+    if (attributed > 0) actions.push(`experiment_reply:${attributed}`);
+  }
+
+  return actions;
+}
@@ -0,0 +1,300 @@
+// ============================================================
+// Reply Intelligence – classify inbound replies to outreach
+//
+// Rules first (Danish + English phrasings, quoted text stripped),
+// LLM fallback when the rules find nothing. Also extracts the
+// referral contact ("tal med X") and the return date from
+// out-of-office replies.
+// ============================================================
+
+import OpenAI from "openai";
+import { config } from "@/lib/config";
+import { logger } from "@/lib/logger";
+import { UNSUBSCRIBE_FOOTER_TEXT } from "./unsubscribe-token";
+
+export type ReplyIntent =
+  | "interested"
+  | "meeting_request"
+  | "not_interested"
+  | "unsubscribe"
+  | "wrong_person"
+  | "out_of_office"
+  | "unknown";
+
+export const REPLY_INTENTS: ReplyIntent[] = [
+  "interested",
+  "meeting_request",
+  "not_interested",
+  "unsubscribe",
+  "wrong_person",
+  "out_of_office",
+  "unknown",
+];
+
+export const REPLY_INTENT_LABELS: Record<ReplyIntent, string> = {
+  interested: "Interesseret",
+  meeting_request: "Ønsker møde",
+  not_interested: "Ikke interesseret",
+  unsubscribe: "Afmelding",
+  wrong_person: "Forkert person",
+  out_of_office: "Autosvar / fravær",
+  unknown: "Uklassificeret",
+};
+
+export interface ReplyReferral {
+  name: string | null;
+  email: string;
+}
+
+export interface ReplyClassification {
+  intent: ReplyIntent;
+  confidence: number;               // 0–1
+  method: "rules" | "llm";
+  referral: ReplyReferral | null;
+  returnDate: string | null;        // YYYY-MM-DD, first day back
+  summary: string | null;
+}
+
+// ── Text helpers ──────────────────────────────────────────────
+
+const QUOTE_MARKERS = [
+  /^\s*>/,
+  // "Den tor. 16. okt. 2025 kl. 10.12 skrev Navn <navn@x.dk>:" / "On …, Name <…> wrote:"
+  /^\s*(den|d\.)\s.+\s(skrev|wrote)\b.*:\s*$/i,
+  /^\s*on\s.+\swrote\b.*:\s*$/i,
+  /^\s*-{2,}\s*(original|oprindelig|videresendt|forwarded)/i,
+  /^\s*_{10,}\s*$/,
+  /^\s*(fra|from):\s.+@/i,
+];
+
+/** Outlook header block without an address: "Fra: Navn" followed by Sendt/Til/Emne lines. */
+const OUTLOOK_HEADER_START = /^\s*(fra|from):\s*\S/i;
+const OUTLOOK_HEADER_FIELD = /^\s*(sendt|sent|dato|date|til|to|emne|subject):\s/i;
+
+/** Our own footers – they must never count as the sender's words. */
+const OWN_FOOTERS = [
+  // Plain-text quotes may wrap the line and prefix it with "> "
+  new RegExp(`${UNSUBSCRIBE_FOOTER_TEXT.split(" ").join("\\s+(?:>\\s*)*")}:?[^\\n]*`, "gi"),
+  /Du modtager denne mail fordi .+? er en potentiel samarbejdspartner\.?/gi,
+];
+
+function isQuoteStart(lines: string[], i: number): boolean {
+  const line = lines[i];
+  if (QUOTE_MARKERS.some((re) => re.test(line))) return true;
+  // Gmail wraps long "… skrev …:" headers over two lines
+  const joined = `${line} ${lines[i + 1] ?? ""}`;
+  if (/^\s*(den|d\.|on)\s/i.test(line) && QUOTE_MARKERS.slice(1, 3).some((re) => re.test(joined))) return true;
+  return OUTLOOK_HEADER_START.test(line) && lines.slice(i + 1, i + 4).some((l) => OUTLOOK_HEADER_FIELD.test(l));
+}
+
+/** Drop the quoted original mail so our own pitch doesn't trigger the rules. */
+export function stripQuotedReply(text: string): string {
+  const lines = text.replace(/\r\n/g, "\n").split("\n");
+  const out: string[] = [];
+  for (let i = 0; i < lines.length; i++) {
+    if (isQuoteStart(lines, i)) break;
+    out.push(lines[i]);
+  }
+  return stripOwnFooters(out.join("\n")).trim();
+}
+
+/** Remove our unsubscribe line and legal footer, in case a quote survived stripping. */
+export function stripOwnFooters(text: string): string {
+  return OWN_FOOTERS.reduce((t, re) => t.replace(re, " "), text);
+}
+
+const MONTHS: Record<string, number> = {
+  januar: 1, january: 1, jan: 1,
+  februar: 2, february: 2, feb: 2,
+  marts: 3, march: 3, mar: 3,
+  april: 4, apr: 4,
+  maj: 5, may: 5,
+  juni: 6, june: 6, jun: 6,
+  juli: 7, july: 7, jul: 7,
+  august: 8, aug: 8,
+  september: 9, sep: 9, sept: 9,
+  oktober: 10, october: 10, okt: 10, oct: 10,
+  november: 11, nov: 11,
+  december: 12, dec: 12,
+};
+
+function isoDate(y: number, m: number, d: number): string | null {
+  if (m < 1 || m > 12 || d < 1 || d > 31) return null;
+  const dt = new Date(Date.UTC(y, m - 1, d));
+  if (dt.getUTCMonth() !== m - 1) return null;
+  return dt.toISOString().slice(0, 10);
+}
+
+function addDays(iso: string, days: number): string {
+  const d = new Date(`${iso}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().slice(0, 10);
+}
+
+/**
+ * Dates mentioned in the text (ISO, 12/8, 12.08.2026, "12. august").
+ * Without a year the date is placed on or after `received`.
+ */
+export function extractDates(text: string, received: string): string[] {
+  const recv = received.slice(0, 10);
+  const year = Number(recv.slice(0, 4));
+  const found: string[] = [];
+  const push = (y: number | null, m: number, d: number) => {
+    let iso = isoDate(y ?? year, m, d);
+    if (iso && y == null && iso < addDays(recv, -7)) iso = isoDate(year + 1, m, d);
+    if (iso) found.push(iso);
+  };
+
+  const isoRe = /\b(20\d{2})-(\d{1,2})-(\d{1,2})\b/g;
+  for (const m of text.matchAll(isoRe)) {
+    push(Number(m[1]), Number(m[2]), Number(m[3]));
+  }
+  const rest = text.replace(isoRe, " ");
+  for (const m of rest.matchAll(/\b(\d{1,2})[./-](\d{1,2})(?:[./-](20\d{2}|\d{2}))?\b/g)) {
+    const y = m[3] ? (m[3].length === 2 ? 2000 + Number(m[3]) : Number(m[3])) : null;
+    push(y, Number(m[2]), Number(m[1]));
+  }
+  const monthNames = Object.keys(MONTHS).sort((a, b) => b.length - a.length).join("|");
+  const named = new RegExp(`\\b(\\d{1,2})\\.?\\s*(${monthNames})\\.?(?:\\s+(20\\d{2}))?`, "gi");
+  for (const m of rest.matchAll(named)) {
+    push(m[3] ? Number(m[3]) : null, MONTHS[m[2].toLowerCase()], Number(m[1]));
+  }
+  return [...new Set(found)].sort();
+}
+
+/** First day back: the day after the latest date mentioned ("til og med"/"back on" alike). */
+export function extractReturnDate(text: string, received: string): string | null {
+  const dates = extractDates(text, received).filter((d) => d >= received.slice(0, 10));
+  if (dates.length === 0) return null;
+  const last = dates[dates.length - 1];
+  return /tilbage|retur|back on|return(ing)? on|igen den/i.test(text) &&
+    !/til og med|t\.o\.m\.|until|through/i.test(text)
+    ? last
+    : addDays(last, 1);
+}
+
+const EMAIL_RE = /[A-Z0-9._%+-]+@[A-Z0-9.-]+\.[A-Z]{2,}/gi;
+
+/** Someone else to contact, e.g. "kontakt venligst Jens Hansen (jh@firma.dk)". */
+export function extractReferral(text: string, excludeEmails: string[]): ReplyReferral | null {
+  const exclude = new Set(excludeEmails.map((e) => e.toLowerCase()));
+  for (const line of text.split("\n")) {
+    for (const m of line.matchAll(EMAIL_RE)) {
+      const email = m[0].toLowerCase();
+      if (exclude.has(email)) continue;
+      const before = line.slice(0, m.index).replace(/[(<:,\s-]+$/, "");
+      const nameMatch = before.match(/([A-ZÆØÅ][a-zæøåé]+(?:\s+[A-ZÆØÅ][a-zæøåé-]+){1,3})$/);
+      return { name: nameMatch ? nameMatch[1] : null, email };
+    }
+  }
+  return null;
+}
+
+// ── Rules ─────────────────────────────────────────────────────
+
+// Order matters: the first hit wins. Auto-replies quote everything, and
+// refusals ("ingen interesse", "ikke interesseret") contain "interesse",
+// so not_interested must stay ahead of interested.
+const RULES: Array<{ intent: ReplyIntent; re: RegExp }> = [
+  { intent: "out_of_office", re: /auto.?svar|automatisk svar|out of office|automatic reply|fraværende|ikke på kontoret|på ferie|holder ferie|barsel|on leave|away from the office/i },
+  // A bare "afmeld" is not enough (quoted footers say "afmelde dig her"); it must be
+  // the whole reply or phrased as a request
+  { intent: "unsubscribe", re: /^\s*afmeld(ing)?\s*[.!]?\s*$|\bafmeld (mig|os|venligst)\b|\b(vil|ønsker at|bedes|skal) (gerne |hermed )?afmeldes?\b|\bvenligst afmeld|\bafmelding\b|fjern (mig|min mail|os|vores)|unsubscribe|remove me|ønsker ikke at modtage|stop med at (skrive|sende)|kontakt os ikke|slet (mine|vores) oplysninger/i },
+  { intent: "wrong_person", re: /ikke (den )?rette (person|modtager)|forkert person|rette vedkommende|henvend (dig|jer)( i stedet)? til|kontakt (i stedet|venligst)|skal (i|du) tale med|videresendt til|ikke (længere )?ansvarlig|har fratrådt|ikke længere ansat|no longer (works|with)|wrong person/i },
+  { intent: "not_interested", re: /(ikke|ingen) interess(e|ant)|(ikke|ingen|intet) brug for|(ikke|ingen|intet) behov|nej tak|vi takker nej|ikke aktuelt|ikke relevant for os|no thanks|not interested/i },
+  { intent: "meeting_request", re: /møde|mødes|meeting|kalender|tidspunkt|ring (til mig|gerne)|kan vi tale|teams-?møde|hvornår passer/i },
+  { intent: "interested", re: /interesse|interesseret|høre mere|lyder (godt|spændende)|fortæl (gerne )?mere|send.*(info|materiale|pris)|hvad koster|gerne høre/i },
+];
+
+export function classifyReplyByRules(
+  text: string,
+  opts: { receivedAt: string; fromEmail: string; ourEmails?: string[] }
+): ReplyClassification {
+  const body = stripQuotedReply(text) || stripOwnFooters(text);
+  const hits = RULES.filter((r) => r.re.test(body)).map((r) => r.intent);
+  const intent: ReplyIntent = hits[0] || "unknown";
+
+  return {
+    intent,
+    confidence: intent === "unknown" ? 0 : hits.length === 1 ? 0.85 : 0.65,
+    method: "rules",
+    referral: intent === "wrong_person"
+      ? extractReferral(body, [opts.fromEmail, ...(opts.ourEmails || [])])
+      : null,
+    returnDate: intent === "out_of_office" ? extractReturnDate(body, opts.receivedAt) : null,
+    summary: null,
+  };
+}
+
+// ── LLM fallback ──────────────────────────────────────────────
+
+let _client: OpenAI | null = null;
+function client(): OpenAI {
+  if (!_client) _client = new OpenAI({ apiKey: config.openai.apiKey() });
+  return _client;
+}
+
+async function classifyReplyWithLlm(
+  body: string,
+  opts: { receivedAt: string; fromEmail: string }
+): Promise<ReplyClassification | null> {
+  try {
+    const res = await client().chat.completions.create({
+      model: config.openai.model,
+      temperature: 0.1,
+      max_tokens: 300,
+      response_format: { type: "json_object" },
+      messages: [
+        {
+          role: "system",
+          content: [
+            "Du klassificerer svar på salgsmails om reklame på stilladser/facader.",
+            `Mulige kategorier: ${REPLY_INTENTS.join(", ")}.`,
+            "wrong_person = afsenderen henviser til en anden person. out_of_office = autosvar/fravær.",
+            `Svaret er modtaget ${opts.receivedAt.slice(0, 10)}.`,
+            'Svar i JSON: {"intent": "...", "confidence": 0-1, "referralName": null|"...", "referralEmail": null|"...", "returnDate": null|"YYYY-MM-DD", "summary": "én sætning på dansk"}',
+          ].join("\n"),
+        },
+        { role: "user", content: body.slice(0, 4000) },
+      ],
+    });
+    const parsed = JSON.parse(res.choices[0]?.message?.content || "{}") as Record<string, unknown>;
+    const intent = REPLY_INTENTS.includes(parsed.intent as ReplyIntent) ? (parsed.intent as ReplyIntent) : "unknown";
+    const referralEmail = typeof parsed.referralEmail === "string" && parsed.referralEmail.includes("@")
+      ? parsed.referralEmail.toLowerCase()
+      : null;
+    const returnDate = typeof parsed.returnDate === "string" && /^\d{4}-\d{2}-\d{2}$/.test(parsed.returnDate)
+      ? parsed.returnDate
+      : null;
+    return {
+      intent,
+      confidence: Math.max(0, Math.min(1, Number(parsed.confidence) || 0.5)),
+      method: "llm",
+      referral: referralEmail && referralEmail !== opts.fromEmail.toLowerCase()
+        ? { name: typeof parsed.referralName === "string" ? parsed.referralName : null, email: referralEmail }
+        : null,
+      returnDate: intent === "out_of_office" ? returnDate : null,
+      summary: typeof parsed.summary === "string" ? parsed.summary : null,
+    };
+  } catch (e) {
+    logger.warn(`[reply-intelligence] LLM fallback failed: ${e instanceof Error ? e.message : e}`, {
+      service: "reply-intelligence",
+    });
+    return null;
+  }
+}
+
+/**
+ * Classify a reply. Rules decide when they match; otherwise the LLM
+ * is asked (if an OpenAI key is configured).
+ */
+export async function classifyReply(
+  text: string,
+  opts: { receivedAt: string; fromEmail: string; ourEmails?: string[] }
+): Promise<ReplyClassification> {
+  const byRules = classifyReplyByRules(text, opts);
+  if (byRules.intent !== "unknown" || !process.env.OPENAI_API_KEY) return byRules;
+
+  const body = stripQuotedReply(text) || stripOwnFooters(text);
+  return (await classifyReplyWithLlm(body, opts)) || byRules;
+}
@@ -0,0 +1,117 @@
+// ============================================================
+// Reply Store – one classification per inbound Gmail message
+//
+// Lets mail-sync process every reply exactly once and keeps the
+// actions taken, so a status change can be traced back to the
+// mail that caused it.
+// ============================================================
+
+import { supabase, HAS_SUPABASE } from "@/lib/supabase";
+import { logger } from "@/lib/logger";
+import type { ReplyClassification, ReplyIntent } from "./reply-intelligence";
+
+export interface ReplyClassificationRecord extends ReplyClassification {
+  messageId: string;
+  threadId: string;
+  propertyId: string | null;
+  fromEmail: string;
+  actions: string[];
+  receivedAt: string | null;
+  createdAt: string;
+}
+
+function rowToRecord(row: Record<string, unknown>): ReplyClassificationRecord {
+  return {
+    messageId: String(row.message_id),
+    threadId: String(row.thread_id || ""),
+    propertyId: row.property_id ? String(row.property_id) : null,
+    fromEmail: String(row.from_email || ""),
+    intent: String(row.intent || "unknown") as ReplyIntent,
+    confidence: Number(row.confidence || 0),
+    method: row.method === "llm" ? "llm" : "rules",
+    referral: (row.referral as ReplyClassification["referral"]) || null,
+    returnDate: row.return_date ? String(row.return_date) : null,
+    summary: row.summary ? String(row.summary) : null,
+    actions: Array.isArray(row.actions) ? (row.actions as string[]) : [],
+    receivedAt: row.received_at ? String(row.received_at) : null,
+    createdAt: String(row.created_at || new Date().toISOString()),
+  };
+}
+
+/** Message ids (of the given ones) that already have a classification. */
+export async function getClassifiedMessageIds(messageIds: string[]): Promise<Set<string>> {
+  if (!HAS_SUPABASE || !supabase || messageIds.length === 0) return new Set();
+  try {
+    const { data, error } = await supabase
+      .from("mail_reply_classifications")
+      .select("message_id")
+      .in("message_id", messageIds);
+    if (error) throw error;
+    return new Set((data || []).map((r) => String(r.message_id)));
+  } catch (err) {
+    logger.error(`[reply-store] lookup error: ${err instanceof Error ? err.message : err}`);
+    return new Set();
+  }
+}
+
+export async function saveReplyClassification(
+  record: Omit<ReplyClassificationRecord, "createdAt">
+): Promise<void> {
+  if (!HAS_SUPABASE || !supabase) return;
+  try {
+    const { error } = await supabase.from("mail_reply_classifications").upsert(
+      {
+        message_id: record.messageId,
+        thread_id: record.threadId,
+        property_id: record.propertyId,
+        from_email: record.fromEmail,
+        intent: record.intent,
+        confidence: record.confidence,
+        method: record.method,
+        referral: record.referral,
+        return_date: record.returnDate,
+        summary: record.summary,
+        actions: record.actions,
+        received_at: record.receivedAt,
+      },
+      { onConflict: "message_id" }
+    );
+    if (error) throw error;
+  } catch (err) {
+    logger.error(`[reply-store] save error: ${err instanceof Error ? err.message : err}`);
+  }
+}
+
+export async function listReplyClassifications(propertyId: string, limit = 20): Promise<ReplyClassificationRecord[]> {
+  if (!HAS_SUPABASE || !supabase) return [];
+  try {
+    const { data, error } = await supabase
+      .from("mail_reply_classifications")
+      .select("*")
+      .eq("property_id", propertyId)
+      .order("received_at", { ascending: false })
+      .limit(limit);
+    if (error) throw error;
+    return (data || []).map(rowToRecord);
+  } catch (err) {
+    logger.error(`[reply-store] list error: ${err instanceof Error ? err.message : err}`);
+    return [];
+  }
+}
+
+/** Senders currently away (out-of-office with a return date in the future). */
+export async function listSnoozedEmails(): Promise<Set<string>> {
+  if (!HAS_SUPABASE || !supabase) return new Set();
+  try {
+    const { data, error } = await supabase
+      .from("mail_reply_classifications")
+      .select("from_email")
+      .eq("intent", "out_of_office")
+      .gt("return_date", new Date().toISOString().slice(0, 10));
+    if (error) throw error;
+    return new Set((data || []).map((r) => String(r.from_email).toLowerCase()));
+  } catch (err) {
+    logger.error(`[reply-store] snooze lookup error: ${err instanceof Error ? err.message : err}`);
+    return new Set();
+  }
+}
@@ -0,0 +1,387 @@
+// ============================================================
+// Send Schedule – when, and from which mailbox, the email queue
+// may send.
+//
+// - Send window: Danish business hours on hverdage (no weekends
+//   or public holidays), in Europe/Copenhagen time.
+// - Per-mailbox daily cap with a warmup ramp: a new mailbox
+//   starts low and gains `warmupIncrement` per business day.
+// - Randomized spacing: after a send the mailbox rests for
+//   roughly window / today's cap (±40 %), so a day's quota is
+//   spread over the whole window.
+// - Round-robin: the least recently used mailbox goes first.
+//
+// Settings live in email_send_settings ("default" row) and
+// mailbox_send_settings (one row per Gmail account) with a
+// 1-minute cache, like autonomy settings. Without Supabase the
+// defaults apply and mailbox state is kept in memory.
+// ============================================================
+
+import { supabase, HAS_SUPABASE } from "@/lib/supabase";
+import { config } from "@/lib/config";
+import { logger } from "@/lib/logger";
+import { businessDaysBetween, isBusinessDay } from "./business-days";
+
+const TIME_ZONE = "Europe/Copenhagen";
+
+export interface SendWindow {
+  startMinute: number;   // minutes after local midnight, e.g. 510 = 08:30
+  endMinute: number;
+  minGapMinutes: number; // floor for the randomized spacing
+}
+
+export interface MailboxSettings {
+  email: string;
+  dailyCap: number;
+  warmupEnabled: boolean;
+  warmupStartCap: number;
+  warmupIncrement: number;        // extra mails per business day during warmup
+  warmupStartedOn: string | null; // YYYY-MM-DD, set on the first send
+  paused: boolean;
+}
+
+export interface MailboxStatus extends MailboxSettings {
+  name: string;
+  capToday: number;
+  sentToday: number;
+  lastSentAt: string | null;
+  nextSendAt: string | null;
+}
+
+export type SendSlot =
+  | { ok: true; mailbox: MailboxStatus; fromAccount?: string }
+  | { ok: false; waitUntil: Date; reason: string };
+
+const DEFAULT_WINDOW: SendWindow = { startMinute: 8 * 60 + 30, endMinute: 16 * 60, minGapMinutes: 2 };
+
+const DEFAULT_MAILBOX: Omit<MailboxSettings, "email"> = {
+  dailyCap: 40,
+  warmupEnabled: true,
+  warmupStartCap: 5,
+  warmupIncrement: 3,
+  warmupStartedOn: null,
+  paused: false,
+};
+
+// ── Copenhagen time helpers ─────────────────────────────────
+
+const _fmt = new Intl.DateTimeFormat("en-GB", {
+  timeZone: TIME_ZONE,
+  year: "numeric",
+  month: "2-digit",
+  day: "2-digit",
+  hour: "2-digit",
+  minute: "2-digit",
+  hourCycle: "h23",
+});
+
+function localParts(date: Date): { day: string; minute: number } {
+  const p = Object.fromEntries(_fmt.formatToParts(date).map((x) => [x.type, x.value]));
+  return { day: `${p.year}-${p.month}-${p.day}`, minute: Number(p.hour) * 60 + Number(p.minute) };
+}
+
+/** The UTC instant of `minute` past midnight on local day `day` (YYYY-MM-DD). */
+function localInstant(day: string, minute: number): Date {
+  const guess = new Date(`${day}T00:00:00Z`);
+  guess.setUTCMinutes(minute);
+  // Offset at that moment (1 or 2 hours); DST switches at night never matter here
+  const { day: d, minute: m } = localParts(guess);
+  const offsetMinutes = (Date.parse(`${d}T00:00:00Z`) - Date.parse(`${day}T00:00:00Z`)) / 60_000 + m - minute;
+  return new Date(guess.getTime() - offsetMinutes * 60_000);
+}
+
+function nextDay(day: string): string {
+  const d = new Date(`${day}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + 1);
+  return d.toISOString().slice(0, 10);
+}
+
+function isSendDay(day: string): boolean {
+  return isBusinessDay(new Date(`${day}T00:00:00Z`));
+}
+
+export function isInSendWindow(now: Date, window: SendWindow): boolean {
+  const { day, minute } = localParts(now);
+  return isSendDay(day) && minute >= window.startMinute && minute < window.endMinute;
+}
+
+/** Start of the next send window (now, if the window is open). */
+export function nextWindowOpen(now: Date, window: SendWindow): Date {
+  const { day, minute } = localParts(now);
+  if (isSendDay(day) && minute < window.endMinute) {
+    return minute >= window.startMinute ? now : localInstant(day, window.startMinute);
+  }
+  let d = nextDay(day);
+  while (!isSendDay(d)) d = nextDay(d);
+  return localInstant(d, window.startMinute);
+}
+
+function startOfLocalDay(now: Date): Date {
+  return localInstant(localParts(now).day, 0);
+}
+
+// ── Settings ────────────────────────────────────────────────
+
+let _cache: { window: SendWindow; mailboxes: MailboxSettings[] } | null = null;
+let _cacheTs = 0;
+const CACHE_TTL_MS = 60_000;
+
+// In-memory mailbox state when Supabase is not configured
+const memState = new Map<string, { lastSentAt: string | null; nextSendAt: string | null; sent: string[] }>();
+
+/** Gmail accounts the queue may send from (primary sender if none are configured). */
+function sendingAccounts(): { email: string; name: string; configured: boolean }[] {
+  const accounts = config.gmailAccounts
+    .filter((a) => a.email && a.refreshToken())
+    .map((a) => ({ email: a.email.toLowerCase(), name: a.name, configured: true }));
+  return accounts.length > 0
+    ? accounts
+    : [{ email: config.gmail.fromEmail.toLowerCase(), name: config.gmail.fromName, configured: false }];
+}
+
+function rowToWindow(row: Record<string, unknown> | null): SendWindow {
+  if (!row) return DEFAULT_WINDOW;
+  const start = Number(row.window_start_minute);
+  const end = Number(row.window_end_minute);
+  return {
+    startMinute: Number.isFinite(start) ? start : DEFAULT_WINDOW.startMinute,
+    endMinute: Number.isFinite(end) && end > start ? end : DEFAULT_WINDOW.endMinute,
+    minGapMinutes: Number(row.min_gap_minutes) > 0 ? Number(row.min_gap_minutes) : DEFAULT_WINDOW.minGapMinutes,
+  };
+}
+
+function rowToMailbox(email: string, row: Record<string, unknown> | undefined): MailboxSettings {
+  if (!row) return { email, ...DEFAULT_MAILBOX };
+  return {
+    email,
+    dailyCap: Number(row.daily_cap) || DEFAULT_MAILBOX.dailyCap,
+    warmupEnabled: row.warmup_enabled !== false,
+    warmupStartCap: Number(row.warmup_start_cap) || DEFAULT_MAILBOX.warmupStartCap,
+    warmupIncrement: Number(row.warmup_increment ?? DEFAULT_MAILBOX.warmupIncrement),
+    warmupStartedOn: row.warmup_started_on ? String(row.warmup_started_on).slice(0, 10) : null,
+    paused: row.paused === true,
+  };
+}
+
+export function invalidateSendScheduleCache() {
+  _cache = null;
+  _cacheTs = 0;
+}
+
+export async function getSendSettings(): Promise<{ window: SendWindow; mailboxes: MailboxSettings[] }> {
+  if (_cache && Date.now() - _cacheTs < CACHE_TTL_MS) return _cache;
+  const accounts = sendingAccounts();
+  if (!HAS_SUPABASE || !supabase) {
+    return { window: DEFAULT_WINDOW, mailboxes: accounts.map((a) => rowToMailbox(a.email, undefined)) };
+  }
+
+  try {
+    const [{ data: win, error: winErr }, { data: rows, error: rowsErr }] = await Promise.all([
+      supabase.from("email_send_settings").select("*").eq("id", "default").maybeSingle(),
+      supabase.from("mailbox_send_settings").select("*"),
+    ]);
+    if (winErr) throw winErr;
+    if (rowsErr) throw rowsErr;
+    const byEmail = new Map((rows || []).map((r) => [String(r.email).toLowerCase(), r as Record<string, unknown>]));
+    _cache = {
+      window: rowToWindow(win),
+      mailboxes: accounts.map((a) => rowToMailbox(a.email, byEmail.get(a.email))),
+    };
+    _cacheTs = Date.now();
+    return _cache;
+  } catch (err) {
+    logger.error(`[send-schedule] load error: ${err instanceof Error ? err.message : err}`);
+    return { window: DEFAULT_WINDOW, mailboxes: accounts.map((a) => rowToMailbox(a.email, undefined)) };
+  }
+}
+
+export async function saveSendSettings(patch: {
+  window?: Partial<SendWindow>;
+  mailboxes?: (Partial<Omit<MailboxSettings, "warmupStartedOn">> & { email: string; restartWarmup?: boolean })[];
+}): Promise<void> {
+  if (!HAS_SUPABASE || !supabase) throw new Error("Supabase is not configured");
+  invalidateSendScheduleCache();
+  const current = await getSendSettings();
+  const now = new Date().toISOString();
+
+  if (patch.window) {
+    const w = { ...current.window, ...patch.window };
+    if (w.endMinute <= w.startMinute) throw new Error("Sendevinduet skal slutte efter det starter");
+    const { error } = await supabase.from("email_send_settings").upsert(
+      {
+        id: "default",
+        window_start_minute: w.startMinute,
+        window_end_minute: w.endMinute,
+        min_gap_minutes: w.minGapMinutes,
+        updated_at: now,
+      },
+      { onConflict: "id" }
+    );
+    if (error) throw error;
+  }
+
+  for (const m of patch.mailboxes || []) {
+    const email = m.email.toLowerCase();
+    const existing = current.mailboxes.find((x) => x.email === email);
+    if (!existing) throw new Error(`Ukendt postkasse: ${m.email}`);
+    const { error } = await supabase.from("mailbox_send_settings").upsert(
+      {
+        email,
+        daily_cap: m.dailyCap ?? existing.dailyCap,
+        warmup_enabled: m.warmupEnabled ?? existing.warmupEnabled,
+        warmup_start_cap: m.warmupStartCap ?? existing.warmupStartCap,
+        warmup_increment: m.warmupIncrement ?? existing.warmupIncrement,
+        paused: m.paused ?? existing.paused,
+        ...(m.restartWarmup ? { warmup_started_on: null } : {}),
+        updated_at: now,
+      },
+      { onConflict: "email" }
+    );
+    if (error) throw error;
+  }
+
+  invalidateSendScheduleCache();
+}
+
+// ── Mailbox state ───────────────────────────────────────────
+
+/** Today's cap: the warmup ramp until it reaches the daily cap. */
+export function capForDay(m: MailboxSettings, today: string): number {
+  if (!m.warmupEnabled) return m.dailyCap;
+  const days = m.warmupStartedOn ? businessDaysBetween(m.warmupStartedOn, today) : 0;
+  return Math.min(m.dailyCap, m.warmupStartCap + m.warmupIncrement * days);
+}
+
+async function sentTodayByAccount(since: Date): Promise<Map<string, number>> {
+  const counts = new Map<string, number>();
+  if (!HAS_SUPABASE || !supabase) {
+    for (const [email, s] of memState) {
+      counts.set(email, s.sent.filter((t) => t >= since.toISOString()).length);
+    }
+    return counts;
+  }
+  const { data, error } = await supabase
+    .from("email_queue")
+    .select("from_account")
+    .eq("status", "sent")
+    .gte("sent_at", since.toISOString())
+    .not("from_account", "is", null)
+    .limit(5000);
+  if (error) {
+    logger.warn(`[send-schedule] count error: ${error.message}`);
+    return counts;
+  }
+  for (const row of data || []) {
+    const email = String(row.from_account).toLowerCase();
+    counts.set(email, (counts.get(email) || 0) + 1);
+  }
+  return counts;
+}
+
+/** Settings plus today's usage for every sending mailbox. */
+export async function loadMailboxStatus(now = new Date()): Promise<{ window: SendWindow; mailboxes: MailboxStatus[] }> {
+  const { window, mailboxes } = await getSendSettings();
+  const today = localParts(now).day;
+  const sent = await sentTodayByAccount(startOfLocalDay(now));
+  const names = new Map(sendingAccounts().map((a) => [a.email, a.name]));
+
+  let state = new Map<string, { lastSentAt: string | null; nextSendAt: string | null }>();
+  if (HAS_SUPABASE && supabase) {
+    const { data } = await supabase.from("mailbox_send_settings").select("email, last_sent_at, next_send_at");
+    state = new Map((data || []).map((r) => [
+      String(r.email).toLowerCase(),
+      { lastSentAt: r.last_sent_at ? String(r.last_sent_at) : null, nextSendAt: r.next_send_at ? String(r.next_send_at) : null },
+    ]));
+  } else {
+    for (const [email, s] of memState) state.set(email, s);
+  }
+
+  return {
+    window,
+    mailboxes: mailboxes.map((m) => ({
+      ...m,
+      name: names.get(m.email) || m.email,
+      capToday: capForDay(m, today),
+      sentToday: sent.get(m.email) || 0,
+      lastSentAt: state.get(m.email)?.lastSentAt ?? null,
+      nextSendAt: state.get(m.email)?.nextSendAt ?? null,
+    })),
+  };
+}
+
+/**
+ * Pick the mailbox for the next send, or say when to try again.
+ * `preferred` pins the send to one mailbox (sequence follow-ups go
+ * out from the mailbox that sent the first step).
+ */
+export function pickMailbox(
+  window: SendWindow,
+  mailboxes: MailboxStatus[],
+  now: Date,
+  preferred?: string
+): SendSlot {
+  if (!isInSendWindow(now, window)) {
+    return { ok: false, waitUntil: nextWindowOpen(now, window), reason: "Uden for sendevinduet" };
+  }
+
+  const pinned = preferred ? mailboxes.filter((m) => m.email === preferred.toLowerCase()) : [];
+  const pool = (pinned.length > 0 ? pinned : mailboxes).filter((m) => !m.paused && m.sentToday < m.capToday);
+  if (pool.length === 0) {
+    const tomorrow = nextWindowOpen(localInstant(nextDay(localParts(now).day), 0), window);
+    return { ok: false, waitUntil: tomorrow, reason: "Dagens loft er nået for alle postkasser" };
+  }
+
+  const ready = pool.filter((m) => !m.nextSendAt || new Date(m.nextSendAt) <= now);
+  if (ready.length === 0) {
+    const soonest = Math.min(...pool.map((m) => new Date(m.nextSendAt!).getTime()));
+    return { ok: false, waitUntil: new Date(soonest), reason: "Venter på spredning mellem mails" };
+  }
+
+  // Round-robin: least recently used first
+  ready.sort((a, b) => (a.lastSentAt || "").localeCompare(b.lastSentAt || ""));
+  const mailbox = ready[0];
+  const configured = sendingAccounts().find((a) => a.email === mailbox.email)?.configured;
+  return { ok: true, mailbox, fromAccount: configured ? mailbox.email : undefined };
+}
+
+/** Randomized rest after a send: about window / today's cap, ±40 %. */
+function gapMinutes(window: SendWindow, capToday: number): number {
+  const base = (window.endMinute - window.startMinute) / Math.max(1, capToday);
+  return Math.max(window.minGapMinutes, base * (0.6 + Math.random() * 0.8));
+}
+
+/** Book a send on the mailbox (updates `mailbox` in place for the rest of the batch). */
+export async function recordMailboxSend(window: SendWindow, mailbox: MailboxStatus, now = new Date()): Promise<void> {
+  const nextSendAt = new Date(now.getTime() + gapMinutes(window, mailbox.capToday) * 60_000).toISOString();
+  mailbox.sentToday++;
+  mailbox.lastSentAt = now.toISOString();
+  mailbox.nextSendAt = nextSendAt;
+  const startWarmup = !mailbox.warmupStartedOn;
+  if (startWarmup) mailbox.warmupStartedOn = localParts(now).day;
+
+  if (!HAS_SUPABASE || !supabase) {
+    const s = memState.get(mailbox.email) || { lastSentAt: null, nextSendAt: null, sent: [] };
+    s.lastSentAt = mailbox.lastSentAt;
+    s.nextSendAt = nextSendAt;
+    s.sent = [...s.sent.slice(-500), mailbox.lastSentAt];
+    memState.set(mailbox.email, s);
+    return;
+  }
+
+  const { error } = await supabase.from("mailbox_send_settings").upsert(
+    {
+      email: mailbox.email,
+      daily_cap: mailbox.dailyCap,
+      warmup_enabled: mailbox.warmupEnabled,
+      warmup_start_cap: mailbox.warmupStartCap,
+      warmup_increment: mailbox.warmupIncrement,
+      paused: mailbox.paused,
+      warmup_started_on: mailbox.warmupStartedOn,
+      last_sent_at: mailbox.lastSentAt,
+      next_send_at: nextSendAt,
+    },
+    { onConflict: "email" }
+  );
+  if (error) logger.warn(`[send-schedule] state update failed: ${error.message}`);
+  if (startWarmup) invalidateSendScheduleCache();
+}
@@ -0,0 +1,148 @@
+// ============================================================
+// Sequence Progress – bookkeeping after a step leaves the queue
+// and the stop/pause hooks used by reply handling (and bounces).
+//
+// Kept apart from the runner so the email queue can call it
+// without importing the runner (which imports the queue).
+// ============================================================
+
+import { recordThreadProperty } from "@/lib/mail-threads";
+import { logger } from "@/lib/logger";
+import { transitionProperty, TransitionError } from "./transition";
+import { addBusinessDays } from "./business-days";
+import {
+  getEnrollment,
+  getSequence,
+  getStepSend,
+  listActiveEnrollments,
+  listStepSends,
+  updateEnrollment,
+  updateStepSend,
+} from "./sequence-store";
+import type { SequenceEnrollment, SequenceStopCondition } from "./sequence-types";
+
+/** Called by the email queue when a sequence step was sent or finally failed. */
+export async function handleSequenceSendResult(
+  stepSendId: string,
+  result: {
+    success: boolean;
+    messageId?: string;
+    threadId?: string;
+    error?: string;
+    suppressed?: boolean;
+    fromAccount?: string;
+  }
+): Promise<void> {
+  const send = await getStepSend(stepSendId);
+  if (!send) return;
+  const enrollment = await getEnrollment(send.enrollmentId);
+  if (!enrollment) return;
+
+  if (!result.success) {
+    await updateStepSend(send.id, { status: "failed", error: result.error || null });
+    await updateEnrollment(enrollment.id, {
+      status: "stopped",
+      stopReason: result.suppressed ? "unsubscribe" : "send_failed",
+      nextRunAt: null,
+    });
+    return;
+  }
+
+  const sentAt = new Date();
+  await updateStepSend(send.id, {
+    status: "sent",
+    sentAt: sentAt.toISOString(),
+    messageId: result.messageId || null,
+    threadId: result.threadId || null,
+    fromAccount: result.fromAccount || null,
+  });
+
+  if (enrollment.targetType === "property") {
+    if (result.threadId) recordThreadProperty(result.threadId, enrollment.targetId, result.fromAccount);
+    try {
+      await transitionProperty(
+        enrollment.targetId,
+        send.stepIndex === 0 ? "FOERSTE_MAIL_SENDT" : "OPFOELGNING_SENDT",
+        { actor: "system", source: "sequence", note: `Sekvens-trin ${send.stepIndex + 1}` }
+      );
+    } catch (e) {
+      if (!(e instanceof TransitionError)) {
+        logger.warn(`Sekvens: statusskift for ${enrollment.targetId} fejlede: ${e instanceof Error ? e.message : e}`, {
+          service: "sequence",
+        });
+      }
+    }
+  }
+
+  // Stopped while the step sat in the queue (e.g. a reply came in)
+  if (enrollment.status !== "active") return;
+
+  // Delays count from when the previous step actually went out
+  const sequence = await getSequence(enrollment.sequenceId);
+  const nextIndex = send.stepIndex + 1;
+  const nextStep = sequence?.steps[nextIndex];
+  await updateEnrollment(enrollment.id, nextStep
+    ? { currentStep: nextIndex, nextRunAt: addBusinessDays(sentAt, nextStep.delayBusinessDays).toISOString() }
+    : { currentStep: nextIndex, status: "completed", nextRunAt: null });
+}
+
+async function enrollmentsFor(match: { email?: string; propertyId?: string | null }): Promise<SequenceEnrollment[]> {
+  const found = new Map<string, SequenceEnrollment>();
+  if (match.email) {
+    for (const e of await listActiveEnrollments({ email: match.email })) found.set(e.id, e);
+  }
+  if (match.propertyId) {
+    for (const e of await listActiveEnrollments({ targetType: "property", targetId: match.propertyId })) found.set(e.id, e);
+  }
+  return [...found.values()];
+}
+
+/**
+ * A queued step was cancelled by hand. The enrollment was claimed
+ * (next_run_at null) when the step was queued, so it is stopped
+ * rather than left waiting for a mail that never goes out.
+ */
+export async function handleSequenceSendCancelled(stepSendId: string): Promise<void> {
+  const send = await getStepSend(stepSendId);
+  if (!send || send.status !== "queued") return;
+  await updateStepSend(send.id, { status: "failed", error: "Annulleret i køen" });
+  const enrollment = await getEnrollment(send.enrollmentId);
+  if (enrollment?.status === "active") {
+    await updateEnrollment(enrollment.id, { status: "stopped", stopReason: "manual", nextRunAt: null });
+  }
+}
+
+/**
+ * A stop condition happened for a recipient/property. Replies are
+ * credited to the latest sent step; enrollments stop if their
+ * sequence stops on that condition (unsubscribe always stops).
+ */
+export async function stopSequencesFor(
+  match: { email?: string; propertyId?: string | null },
+  reason: SequenceStopCondition
+): Promise<number> {
+  let stopped = 0;
+  for (const enrollment of await enrollmentsFor(match)) {
+    if (reason === "reply") {
+      const latest = (await listStepSends({ enrollmentId: enrollment.id })).find((s) => s.status === "sent");
+      if (latest && !latest.repliedAt) await updateStepSend(latest.id, { repliedAt: new Date().toISOString() });
+    }
+    const sequence = await getSequence(enrollment.sequenceId);
+    if (reason !== "unsubscribe" && sequence && !sequence.stopOn.includes(reason)) continue;
+    await updateEnrollment(enrollment.id, { status: "stopped", stopReason: reason, nextRunAt: null });
+    stopped++;
+  }
+  return stopped;
+}
+
+/** Out-of-office: hold pending steps until the recipient is back. */
+export async function pauseSequencesUntil(email: string, returnDate: string): Promise<number> {
+  const resumeAt = `${returnDate}T08:00:00.000Z`;
+  let paused = 0;
+  for (const enrollment of await listActiveEnrollments({ email })) {
+    if (!enrollment.nextRunAt || enrollment.nextRunAt >= resumeAt) continue;
+    await updateEnrollment(enrollment.id, { nextRunAt: resumeAt });
+    paused++;
+  }
+  return paused;
+}
@@ -0,0 +1,320 @@
+// ============================================================
+// Sequence Runner – enrolls properties / OOH contacts and hands
+// due steps to the email queue.
+//
+// Each due step is claimed, then checked against the autonomy level
+// (send_first_email for step 0, send_followup after that – a held
+// step stays due) and the suppression list (checked again by
+// sendEmail). Cancelling a queued step stops the enrollment.
+// ============================================================
+
+import OpenAI from "openai";
+import { config } from "@/lib/config";
+import { logger } from "@/lib/logger";
+import { fetchEjendomById } from "@/lib/hubspot";
+import { getContact, getSends, upsertSend } from "@/lib/ooh/store";
+import { getAISettings } from "@/lib/ai-settings";
+import { enqueueSequenceEmail } from "@/lib/email-queue";
+import { checkRecipient } from "./suppression-store";
+import { autonomyAllows } from "./autonomy-store";
+import {
+  claimEnrollmentRun,
+  createEnrollment,
+  createStepSend,
+  getSequence,
+  listActiveEnrollments,
+  listDueEnrollments,
+  listStepSends,
+  updateEnrollment,
+  updateStepSend,
+} from "./sequence-store";
+import type { OutreachSequence, SequenceEnrollment, SequenceStep } from "./sequence-types";
+
+// Statuses where a property sequence has no business sending more mail
+const PROPERTY_STOP_STATUSES = ["SVAR_MODTAGET", "LUKKET_VUNDET", "LUKKET_TABT"];
+
+interface RecipientContext {
+  email: string;
+  name: string;
+  company: string;
+  address: string;
+  city: string;
+  /** Property AI draft – used when step 1 of a property sequence is left empty. */
+  draft?: { subject: string; body: string };
+  notes: string;
+}
+
+export class SequenceError extends Error {
+  constructor(
+    message: string,
+    public status: number
+  ) {
+    super(message);
+    this.name = "SequenceError";
+  }
+}
+
+async function loadRecipient(enrollment: Pick<SequenceEnrollment, "targetType" | "targetId">): Promise<RecipientContext & { status?: string }> {
+  if (enrollment.targetType === "property") {
+    const p = await fetchEjendomById(enrollment.targetId);
+    return {
+      email: p.contactEmail || "",
+      name: p.contactPerson || "",
+      company: p.ownerCompanyName || p.companyName || "",
+      address: p.address,
+      city: p.city,
+      draft: p.emailDraftSubject && p.emailDraftBody ? { subject: p.emailDraftSubject, body: p.emailDraftBody } : undefined,
+      notes: [p.outdoorPotentialNotes, p.researchSummary].filter(Boolean).join("\n").slice(0, 1500),
+      status: p.outreachStatus,
+    };
+  }
+  const c = await getContact(enrollment.targetId);
+  if (!c) throw new SequenceError("OOH-kontakten findes ikke længere", 404);
+  return {
+    email: c.email,
+    name: c.name,
+    company: c.company,
+    address: "",
+    city: c.city || "",
+    notes: [c.industry, c.notes].filter(Boolean).join("\n"),
+  };
+}
+
+function fillTemplate(text: string, r: RecipientContext): string {
+  return text
+    .replace(/\{name\}/g, r.name)
+    .replace(/\{company\}/g, r.company)
+    .replace(/\{address\}/g, r.address)
+    .replace(/\{city\}/g, r.city);
+}
+
+let _client: OpenAI | null = null;
+function client(): OpenAI {
+  if (!_client) _client = new OpenAI({ apiKey: config.openai.apiKey() });
+  return _client;
+}
+
+/** Per-step AI rewrite of the rendered template; falls back to the template. */
+async function personalize(
+  mail: { subject: string; body: string },
+  step: SequenceStep,
+  stepIndex: number,
+  r: RecipientContext
+): Promise<{ subject: string; body: string }> {
+  try {
+    const aiSettings = await getAISettings();
+    const res = await client().chat.completions.create({
+      model: config.openai.model,
+      temperature: 0.6,
+      max_tokens: 800,
+      response_format: { type: "json_object" },
+      messages: [
+        {
+          role: "system",
+          content: [
+            "Du tilpasser en outreach-mail fra Hyde Media (outdoor-reklame) til en konkret modtager.",
+            `Tone of voice: ${aiSettings.toneOfVoice || config.toneOfVoice}`,
+            `Dette er trin ${stepIndex + 1} i en sekvens${stepIndex > 0 ? " – modtageren har ikke svaret på de forrige mails" : ""}.`,
+            "Bevar budskab, længde og afslutning. Opfind ikke fakta.",
+            step.aiInstruction ? `Ekstra instruktion: ${step.aiInstruction}` : "",
+            'Svar i JSON: {"subject": "...", "body": "..."}',
+          ].filter(Boolean).join("\n"),
+        },
+        {
+          role: "user",
+          content: [
+            `Modtager: ${r.name || "ukendt"}${r.company ? `, ${r.company}` : ""}`,
+            r.address ? `Ejendom: ${r.address}, ${r.city}` : r.city ? `By: ${r.city}` : "",
+            r.notes ? `Noter:\n${r.notes}` : "",
+            `Emne: ${mail.subject}`,
+            mail.body,
+          ].filter(Boolean).join("\n\n"),
+        },
+      ],
+    });
+    const parsed = JSON.parse(res.choices[0]?.message?.content || "{}") as { subject?: string; body?: string };
+    return {
+      subject: parsed.subject?.trim() || mail.subject,
+      body: parsed.body?.trim() || mail.body,
+    };
+  } catch (e) {
+    logger.warn(`Sekvens: AI-personalisering fejlede, bruger skabelonen: ${e instanceof Error ? e.message : e}`, {
+      service: "sequence",
+    });
+    return mail;
+  }
+}
+
+async function renderStep(
+  sequence: OutreachSequence,
+  stepIndex: number,
+  r: RecipientContext
+): Promise<{ subject: string; body: string }> {
+  const step = sequence.steps[stepIndex];
+  let mail = {
+    subject: fillTemplate(step.subject, r),
+    body: fillTemplate(step.body, r),
+  };
+  if (stepIndex === 0 && sequence.target === "property" && (!mail.subject || !mail.body.trim())) {
+    if (!r.draft) throw new SequenceError("Trin 1 er tomt og ejendommen har intet email-udkast", 400);
+    mail = { subject: mail.subject || r.draft.subject, body: mail.body.trim() ? mail.body : r.draft.body };
+  }
+  if (!mail.subject || !mail.body.trim()) throw new SequenceError(`Trin ${stepIndex + 1} mangler emne eller tekst`, 400);
+  return step.personalize && process.env.OPENAI_API_KEY ? personalize(mail, step, stepIndex, r) : mail;
+}
+
+// ── Enroll ──────────────────────────────────────────────────
+
+export interface EnrollResult {
+  targetId: string;
+  enrollmentId?: string;
+  error?: string;
+}
+
+export async function enrollInSequence(sequenceId: string, targetIds: string[]): Promise<EnrollResult[]> {
+  const sequence = await getSequence(sequenceId);
+  if (!sequence) throw new SequenceError("Sekvensen findes ikke", 404);
+  if (!sequence.active) throw new SequenceError("Sekvensen er deaktiveret", 400);
+
+  const results: EnrollResult[] = [];
+  for (const targetId of targetIds) {
+    try {
+      const ref = { targetType: sequence.target, targetId };
+      if ((await listActiveEnrollments(ref)).length > 0) {
+        results.push({ targetId, error: "Er allerede i en aktiv sekvens" });
+        continue;
+      }
+      const r = await loadRecipient(ref);
+      if (!r.email) {
+        results.push({ targetId, error: "Ingen email på modtageren" });
+        continue;
+      }
+      if (r.status && PROPERTY_STOP_STATUSES.includes(r.status)) {
+        results.push({ targetId, error: `Ejendommen har status ${r.status}` });
+        continue;
+      }
+      if (await checkRecipient(r.email, { source: "sequence", refId: targetId })) {
+        results.push({ targetId, error: "Modtageren er afmeldt" });
+        continue;
+      }
+
+      const enrollment = await createEnrollment({
+        sequenceId,
+        targetType: sequence.target,
+        targetId,
+        email: r.email,
+        contactName: r.name || null,
+        label: r.address ? `${r.address}, ${r.city}` : r.company || null,
+        nextRunAt: new Date().toISOString(),
+      });
+
+      // The sequence takes over from the fixed OOH follow-up loop
+      if (sequence.target === "ooh_contact") {
+        for (const send of await getSends({ contactId: targetId })) {
+          if (send.nextFollowUpAt) await upsertSend({ ...send, nextFollowUpAt: undefined });
+        }
+      }
+      results.push({ targetId, enrollmentId: enrollment.id });
+    } catch (e) {
+      results.push({ targetId, error: e instanceof Error ? e.message : String(e) });
+    }
+  }
+  return results;
+}
+
+export async function stopEnrollment(id: string): Promise<void> {
+  await updateEnrollment(id, { status: "stopped", stopReason: "manual", nextRunAt: null });
+}
+
+// ── Run due steps (cron) ────────────────────────────────────
+
+export async function runDueSequenceSteps(limit = 20): Promise<{
+  queued: number;
+  stopped: number;
+  held: number;
+  errors: string[];
+}> {
+  let queued = 0;
+  let stopped = 0;
+  let held = 0;
+  const errors: string[] = [];
+
+  for (const enrollment of await listDueEnrollments(limit)) {
+    const stop = async (reason: string) => {
+      await updateEnrollment(enrollment.id, { status: "stopped", stopReason: reason, nextRunAt: null });
+      stopped++;
+    };
+    let enqueued = false;
+    try {
+      const sequence = await getSequence(enrollment.sequenceId);
+      if (!sequence || !sequence.active) continue;
+      // Claim the step before anything is queued; an overlapping run skips it
+      if (!(await claimEnrollmentRun(enrollment.id, enrollment.nextRunAt))) continue;
+      const stepIndex = enrollment.currentStep;
+      if (!sequence.steps[stepIndex]) {
+        await updateEnrollment(enrollment.id, { status: "completed", nextRunAt: null });
+        continue;
+      }
+
+      const r = await loadRecipient(enrollment);
+      if (r.status && PROPERTY_STOP_STATUSES.includes(r.status)) {
+        await stop("status");
+        continue;
+      }
+      if (await checkRecipient(enrollment.email, { source: "sequence", refId: enrollment.id })) {
+        await stop("unsubscribe");
+        continue;
+      }
+
+      // Steps go out without a click per mail, so the autonomy level decides;
+      // a held step stays due and is checked again on the next run
+      const allowed = await autonomyAllows(stepIndex === 0 ? "send_first_email" : "send_followup", {
+        source: "sequence",
+        targetId: enrollment.id,
+        label: enrollment.label || enrollment.email,
+        detail: { to: enrollment.email, sequence: sequence.name, step: stepIndex + 1 },
+      });
+      if (!allowed) {
+        await updateEnrollment(enrollment.id, { nextRunAt: enrollment.nextRunAt });
+        held++;
+        continue;
+      }
+
+      const sends = await listStepSends({ enrollmentId: enrollment.id });
+      // A step send from an earlier, interrupted run is reused; one already queued is done
+      const earlier = sends.find((s) => s.stepIndex === stepIndex);
+      if (earlier?.queueId) continue;
+
+      const mail = await renderStep(sequence, stepIndex, r);
+      // Follow-ups go out from the mailbox that sent the earlier steps
+      const previous = stepIndex > 0 ? sends.find((s) => s.status === "sent" && s.fromAccount) : undefined;
+      const stepSend = earlier || await createStepSend({
+        enrollmentId: enrollment.id,
+        sequenceId: sequence.id,
+        stepIndex,
+        subject: mail.subject,
+      });
+      const queueId = await enqueueSequenceEmail({
+        refId: enrollment.targetType === "property" ? enrollment.targetId : `ooh-contact-${enrollment.targetId}`,
+        to: enrollment.email,
+        subject: mail.subject,
+        body: mail.body,
+        contactName: enrollment.contactName || undefined,
+        sequenceSendId: stepSend.id,
+        fromAccount: previous?.fromAccount || undefined,
+      });
+      enqueued = true;
+      await updateStepSend(stepSend.id, { queueId });
+      queued++;
+    } catch (e) {
+      const msg = e instanceof Error ? e.message : String(e);
+      errors.push(`${enrollment.id}: ${msg}`);
+      // A broken template will not fix itself – stop instead of retrying every run
+      if (e instanceof SequenceError) await stop("send_failed");
+      // Nothing queued yet: hand the step back to the next run
+      else if (!enqueued) await updateEnrollment(enrollment.id, { nextRunAt: enrollment.nextRunAt });
+    }
+  }
+
+  return { queued, stopped, held, errors };
+}
@@ -0,0 +1,453 @@
+// ============================================================
+// Sequence Store – outreach sequences, enrollments and the
+// per-step send log used for step reports.
+//
+// Supabase only: reads return empty and writes throw when it is
+// not configured (sequences need the cron to make sense).
+// ============================================================
+
+import { supabase, HAS_SUPABASE } from "@/lib/supabase";
+import { logger } from "@/lib/logger";
+import {
+  SEQUENCE_SEND_PREFIX,
+  sequenceStepSchema,
+  type EnrollmentStatus,
+  type OutreachSequence,
+  type SequenceEnrollment,
+  type SequenceInput,
+  type SequenceReport,
+  type SequenceStep,
+  type SequenceStopCondition,
+  type SequenceStepSend,
+  type SequenceTarget,
+  type StepSendStatus,
+} from "./sequence-types";
+
+function newId(prefix: string): string {
+  return `${prefix}${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+function rowToSequence(row: Record<string, unknown>): OutreachSequence {
+  const steps = Array.isArray(row.steps)
+    ? (row.steps as unknown[]).flatMap((s) => {
+        const parsed = sequenceStepSchema.safeParse(s);
+        return parsed.success ? [parsed.data as SequenceStep] : [];
+      })
+    : [];
+  return {
+    id: String(row.id),
+    name: String(row.name || ""),
+    description: String(row.description || ""),
+    target: row.target === "ooh_contact" ? "ooh_contact" : "property",
+    steps,
+    stopOn: Array.isArray(row.stop_on) ? (row.stop_on as SequenceStopCondition[]) : [],
+    active: row.active !== false,
+    createdAt: String(row.created_at || new Date().toISOString()),
+    updatedAt: String(row.updated_at || new Date().toISOString()),
+  };
+}
+
+function rowToEnrollment(row: Record<string, unknown>): SequenceEnrollment {
+  return {
+    id: String(row.id),
+    sequenceId: String(row.sequence_id || ""),
+    targetType: row.target_type === "ooh_contact" ? "ooh_contact" : "property",
+    targetId: String(row.target_id || ""),
+    email: String(row.email || ""),
+    contactName: row.contact_name ? String(row.contact_name) : null,
+    label: row.label ? String(row.label) : null,
+    currentStep: Number(row.current_step || 0),
+    status: (String(row.status || "active") as EnrollmentStatus),
+    stopReason: row.stop_reason ? String(row.stop_reason) : null,
+    nextRunAt: row.next_run_at ? String(row.next_run_at) : null,
+    enrolledAt: String(row.enrolled_at || new Date().toISOString()),
+    updatedAt: String(row.updated_at || new Date().toISOString()),
+  };
+}
+
+function rowToStepSend(row: Record<string, unknown>): SequenceStepSend {
+  const str = (v: unknown) => (v ? String(v) : null);
+  return {
+    id: String(row.id),
+    enrollmentId: String(row.enrollment_id || ""),
+    sequenceId: String(row.sequence_id || ""),
+    stepIndex: Number(row.step_index || 0),
+    queueId: str(row.queue_id),
+    status: (String(row.status || "queued") as StepSendStatus),
+    subject: str(row.subject),
+    messageId: str(row.message_id),
+    threadId: str(row.thread_id),
+    fromAccount: str(row.from_account),
+    error: str(row.error),
+    queuedAt: String(row.queued_at || new Date().toISOString()),
+    sentAt: str(row.sent_at),
+    openedAt: str(row.opened_at),
+    clickedAt: str(row.clicked_at),
+    repliedAt: str(row.replied_at),
+  };
+}
+
+function logError(what: string, err: unknown) {
+  logger.error(`[sequence-store] ${what} error: ${err instanceof Error ? err.message : err}`);
+}
+
+// ── Sequences ───────────────────────────────────────────────
+
+export async function listSequences(): Promise<OutreachSequence[]> {
+  if (!HAS_SUPABASE || !supabase) return [];
+  try {
+    const { data, error } = await supabase
+      .from("outreach_sequences")
+      .select("*")
+      .order("created_at", { ascending: false });
+    if (error) throw error;
+    return (data || []).map(rowToSequence);
+  } catch (err) {
+    logError("list", err);
+    return [];
+  }
+}
+
+export async function getSequence(id: string): Promise<OutreachSequence | null> {
+  if (!HAS_SUPABASE || !supabase) return null;
+  try {
+    const { data, error } = await supabase.from("outreach_sequences").select("*").eq("id", id).maybeSingle();
+    if (error) throw error;
+    return data ? rowToSequence(data) : null;
+  } catch (err) {
+    logError("get", err);
+    return null;
+  }
+}
+
+function sequenceToRow(input: SequenceInput) {
+  return {
+    name: input.name,
+    description: input.description || null,
+    target: input.target,
+    steps: input.steps,
+    stop_on: input.stopOn,
+    active: input.active,
+    updated_at: new Date().toISOString(),
+  };
+}
+
+export async function createSequence(input: SequenceInput): Promise<OutreachSequence> {
+  if (!HAS_SUPABASE || !supabase) throw new Error("Supabase is not configured");
+  const { data, error } = await supabase
+    .from("outreach_sequences")
+    .insert({ id: newId("seq-"), ...sequenceToRow(input) })
+    .select("*")
+    .single();
+  if (error) throw error;
+  return rowToSequence(data);
+}
+
+export async function updateSequence(id: string, input: SequenceInput): Promise<OutreachSequence> {
+  if (!HAS_SUPABASE || !supabase) throw new Error("Supabase is not configured");
+  const { data, error } = await supabase
+    .from("outreach_sequences")
+    .update(sequenceToRow(input))
+    .eq("id", id)
+    .select("*")
+    .single();
+  if (error) throw error;
+  return rowToSequence(data);
+}
+
+export async function deleteSequence(id: string): Promise<void> {
+  if (!HAS_SUPABASE || !supabase) throw new Error("Supabase is not configured");
+  const { error } = await supabase.from("outreach_sequences").delete().eq("id", id);
+  if (error) throw error;
+}
+
+// ── Enrollments ─────────────────────────────────────────────
+
+export async function createEnrollment(
+  entry: Pick<SequenceEnrollment, "sequenceId" | "targetType" | "targetId" | "email" | "contactName" | "label" | "nextRunAt">
+): Promise<SequenceEnrollment> {
+  if (!HAS_SUPABASE || !supabase) throw new Error("Supabase is not configured");
+  const { data, error } = await supabase
+    .from("sequence_enrollments")
+    .insert({
+      id: newId("enr-"),
+      sequence_id: entry.sequenceId,
+      target_type: entry.targetType,
+      target_id: entry.targetId,
+      email: entry.email.toLowerCase(),
+      contact_name: entry.contactName,
+      label: entry.label,
+      next_run_at: entry.nextRunAt,
+    })
+    .select("*")
+    .single();
+  if (error) throw error;
+  return rowToEnrollment(data);
+}
+
+export async function getEnrollment(id: string): Promise<SequenceEnrollment | null> {
+  if (!HAS_SUPABASE || !supabase) return null;
+  try {
+    const { data, error } = await supabase.from("sequence_enrollments").select("*").eq("id", id).maybeSingle();
+    if (error) throw error;
+    return data ? rowToEnrollment(data) : null;
+  } catch (err) {
+    logError("get enrollment", err);
+    return null;
+  }
+}
+
+export async function updateEnrollment(
+  id: string,
+  patch: Partial<Pick<SequenceEnrollment, "currentStep" | "status" | "stopReason" | "nextRunAt">>
+): Promise<void> {
+  if (!HAS_SUPABASE || !supabase) return;
+  const row: Record<string, unknown> = { updated_at: new Date().toISOString() };
+  if (patch.currentStep !== undefined) row.current_step = patch.currentStep;
+  if (patch.status !== undefined) row.status = patch.status;
+  if (patch.stopReason !== undefined) row.stop_reason = patch.stopReason;
+  if (patch.nextRunAt !== undefined) row.next_run_at = patch.nextRunAt;
+  const { error } = await supabase.from("sequence_enrollments").update(row).eq("id", id);
+  if (error) logError("update enrollment", error);
+}
+
+/**
+ * Claim a due enrollment for this run: clears next_run_at only if it
+ * still holds the value the run listed, so two overlapping cron runs
+ * can't both queue the same step. False when someone else got it.
+ */
+export async function claimEnrollmentRun(id: string, nextRunAt: string | null): Promise<boolean> {
+  if (!HAS_SUPABASE || !supabase) return false;
+  let q = supabase
+    .from("sequence_enrollments")
+    .update({ next_run_at: null, updated_at: new Date().toISOString() })
+    .eq("id", id)
+    .eq("status", "active");
+  q = nextRunAt ? q.eq("next_run_at", nextRunAt) : q.is("next_run_at", null);
+  const { data, error } = await q.select("id");
+  if (error) {
+    logError("claim enrollment", error);
+    return false;
+  }
+  return (data?.length || 0) > 0;
+}
+
+/** Move a property's enrollments to another property (property merge). */
+export async function reassignPropertyEnrollments(fromPropertyId: string, toPropertyId: string): Promise<number> {
+  if (!HAS_SUPABASE || !supabase) return 0;
+  const { data, error } = await supabase
+    .from("sequence_enrollments")
+    .update({ target_id: toPropertyId, updated_at: new Date().toISOString() })
+    .eq("target_type", "property")
+    .eq("target_id", fromPropertyId)
+    .select("id");
+  if (error) {
+    logError("reassign enrollments", error);
+    return 0;
+  }
+  return data?.length || 0;
+}
+
+export async function listEnrollments(sequenceId: string, limit = 200): Promise<SequenceEnrollment[]> {
+  if (!HAS_SUPABASE || !supabase) return [];
+  try {
+    const { data, error } = await supabase
+      .from("sequence_enrollments")
+      .select("*")
+      .eq("sequence_id", sequenceId)
+      .order("enrolled_at", { ascending: false })
+      .limit(limit);
+    if (error) throw error;
+    return (data || []).map(rowToEnrollment);
+  } catch (err) {
+    logError("list enrollments", err);
+    return [];
+  }
+}
+
+/** Active enrollments matching a target or a recipient address. */
+export async function listActiveEnrollments(match: {
+  targetType?: SequenceTarget;
+  targetId?: string;
+  email?: string;
+}): Promise<SequenceEnrollment[]> {
+  if (!HAS_SUPABASE || !supabase) return [];
+  try {
+    let q = supabase.from("sequence_enrollments").select("*").eq("status", "active");
+    if (match.targetType) q = q.eq("target_type", match.targetType);
+    if (match.targetId) q = q.eq("target_id", match.targetId);
+    if (match.email) q = q.eq("email", match.email.toLowerCase());
+    const { data, error } = await q.limit(100);
+    if (error) throw error;
+    return (data || []).map(rowToEnrollment);
+  } catch (err) {
+    logError("list active enrollments", err);
+    return [];
+  }
+}
+
+export async function listDueEnrollments(limit = 20): Promise<SequenceEnrollment[]> {
+  if (!HAS_SUPABASE || !supabase) return [];
+  try {
+    const { data, error } = await supabase
+      .from("sequence_enrollments")
+      .select("*")
+      .eq("status", "active")
+      .lte("next_run_at", new Date().toISOString())
+      .order("next_run_at", { ascending: true })
+      .limit(limit);
+    if (error) throw error;
+    return (data || []).map(rowToEnrollment);
+  } catch (err) {
+    logError("list due enrollments", err);
+    return [];
+  }
+}
+
+// ── Step sends ──────────────────────────────────────────────
+
+export async function createStepSend(
+  entry: Pick<SequenceStepSend, "enrollmentId" | "sequenceId" | "stepIndex" | "subject">
+): Promise<SequenceStepSend> {
+  if (!HAS_SUPABASE || !supabase) throw new Error("Supabase is not configured");
+  const { data, error } = await supabase
+    .from("sequence_step_sends")
+    .insert({
+      id: newId(SEQUENCE_SEND_PREFIX),
+      enrollment_id: entry.enrollmentId,
+      sequence_id: entry.sequenceId,
+      step_index: entry.stepIndex,
+      subject: entry.subject,
+    })
+    .select("*")
+    .single();
+  if (error) throw error;
+  return rowToStepSend(data);
+}
+
+export async function getStepSend(id: string): Promise<SequenceStepSend | null> {
+  if (!HAS_SUPABASE || !supabase) return null;
+  try {
+    const { data, error } = await supabase.from("sequence_step_sends").select("*").eq("id", id).maybeSingle();
+    if (error) throw error;
+    return data ? rowToStepSend(data) : null;
+  } catch (err) {
+    logError("get step send", err);
+    return null;
+  }
+}
+
+export async function updateStepSend(
+  id: string,
+  patch: Partial<Pick<SequenceStepSend, "queueId" | "status" | "messageId" | "threadId" | "fromAccount" | "error" | "sentAt" | "repliedAt">>
+): Promise<void> {
+  if (!HAS_SUPABASE || !supabase) return;
+  const row: Record<string, unknown> = {};
+  if (patch.queueId !== undefined) row.queue_id = patch.queueId;
+  if (patch.status !== undefined) row.status = patch.status;
+  if (patch.messageId !== undefined) row.message_id = patch.messageId;
+  if (patch.threadId !== undefined) row.thread_id = patch.threadId;
+  if (patch.fromAccount !== undefined) row.from_account = patch.fromAccount;
+  if (patch.error !== undefined) row.error = patch.error;
+  if (patch.sentAt !== undefined) row.sent_at = patch.sentAt;
+  if (patch.repliedAt !== undefined) row.replied_at = patch.repliedAt;
+  const { error } = await supabase.from("sequence_step_sends").update(row).eq("id", id);
+  if (error) logError("update step send", error);
+}
+
+/** Open/click from the tracking endpoints; only the first of each is kept. */
+export async function markStepSendEvent(id: string, event: "opened" | "clicked"): Promise<void> {
+  const send = await getStepSend(id);
+  if (!send || !supabase) return;
+  const now = new Date().toISOString();
+  const row: Record<string, unknown> = {};
+  if (!send.openedAt) row.opened_at = now;                 // a click implies an open
+  if (event === "clicked" && !send.clickedAt) row.clicked_at = now;
+  if (Object.keys(row).length === 0) return;
+  const { error } = await supabase.from("sequence_step_sends").update(row).eq("id", id);
+  if (error) logError("mark event", error);
+}
+
+export async function listStepSends(filter: { sequenceId?: string; enrollmentId?: string }): Promise<SequenceStepSend[]> {
+  if (!HAS_SUPABASE || !supabase) return [];
+  try {
+    let q = supabase.from("sequence_step_sends").select("*");
+    if (filter.sequenceId) q = q.eq("sequence_id", filter.sequenceId);
+    if (filter.enrollmentId) q = q.eq("enrollment_id", filter.enrollmentId);
+    const { data, error } = await q.order("queued_at", { ascending: false }).limit(5000);
+    if (error) throw error;
+    return (data || []).map(rowToStepSend);
+  } catch (err) {
+    logError("list step sends", err);
+    return [];
+  }
+}
+
+/** Threads of sent steps for active OOH enrollments (mail-sync watches these for replies). */
+export async function listOpenOohSequenceThreads(
+  limit = 50
+): Promise<{ threadId: string; accountEmail: string | null }[]> {
+  if (!HAS_SUPABASE || !supabase) return [];
+  try {
+    const { data: enrollments, error } = await supabase
+      .from("sequence_enrollments")
+      .select("id")
+      .eq("status", "active")
+      .eq("target_type", "ooh_contact")
+      .limit(200);
+    if (error) throw error;
+    const ids = (enrollments || []).map((e) => String(e.id));
+    if (ids.length === 0) return [];
+    const { data: sends, error: sendErr } = await supabase
+      .from("sequence_step_sends")
+      .select("thread_id, from_account")
+      .in("enrollment_id", ids)
+      .eq("status", "sent")
+      .not("thread_id", "is", null)
+      .order("sent_at", { ascending: false })
+      .limit(limit * 2);
+    if (sendErr) throw sendErr;
+    const byThread = new Map<string, string | null>();
+    for (const s of sends || []) {
+      if (!byThread.has(String(s.thread_id))) byThread.set(String(s.thread_id), s.from_account ? String(s.from_account) : null);
+    }
+    return [...byThread].slice(0, limit).map(([threadId, accountEmail]) => ({ threadId, accountEmail }));
+  } catch (err) {
+    logError("list ooh threads", err);
+    return [];
+  }
+}
+
+// ── Reports ─────────────────────────────────────────────────
+
+export async function buildSequenceReport(sequence: OutreachSequence): Promise<SequenceReport> {
+  const [sends, enrollments] = await Promise.all([
+    listStepSends({ sequenceId: sequence.id }),
+    listEnrollments(sequence.id, 5000),
+  ]);
+  const rate = (n: number, of: number) => (of > 0 ? n / of : 0);
+
+  const steps = sequence.steps.map((_, stepIndex) => {
+    const forStep = sends.filter((s) => s.stepIndex === stepIndex);
+    const sent = forStep.filter((s) => s.status === "sent");
+    const opened = sent.filter((s) => s.openedAt).length;
+    const clicked = sent.filter((s) => s.clickedAt).length;
+    const replied = sent.filter((s) => s.repliedAt).length;
+    return {
+      stepIndex,
+      sent: sent.length,
+      opened,
+      clicked,
+      replied,
+      failed: forStep.filter((s) => s.status === "failed").length,
+      openRate: rate(opened, sent.length),
+      clickRate: rate(clicked, sent.length),
+      replyRate: rate(replied, sent.length),
+    };
+  });
+
+  const counts: Record<EnrollmentStatus, number> = { active: 0, completed: 0, stopped: 0 };
+  for (const e of enrollments) counts[e.status] = (counts[e.status] || 0) + 1;
+
+  return { sequenceId: sequence.id, enrollments: counts, steps };
+}
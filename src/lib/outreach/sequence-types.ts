@@ -0,0 +1,102 @@
+import { z } from "zod";
+
+export const sequenceTargetSchema = z.enum(["property", "ooh_contact"]);
+export type SequenceTarget = z.infer<typeof sequenceTargetSchema>;
+
+export const sequenceStopReasonSchema = z.enum(["reply", "bounce", "unsubscribe"]);
+export type SequenceStopCondition = z.infer<typeof sequenceStopReasonSchema>;
+
+/**
+ * One step of a sequence. Subject/body may use {name}, {company},
+ * {address} and {city}. An empty step 1 on a property sequence uses
+ * the property's own AI draft.
+ */
+export const sequenceStepSchema = z.object({
+  id: z.string().min(1),
+  subject: z.string().trim().max(300).default(""),
+  body: z.string().max(10000).default(""),
+  delayBusinessDays: z.number().int().min(0).max(60).default(3),
+  personalize: z.boolean().default(false),
+  aiInstruction: z.string().trim().max(1000).optional(),
+});
+export type SequenceStep = z.infer<typeof sequenceStepSchema>;
+
+export const sequenceInputSchema = z.object({
+  name: z.string().trim().min(1, "Giv sekvensen et navn"),
+  description: z.string().trim().max(1000).optional().default(""),
+  target: sequenceTargetSchema.default("property"),
+  steps: z.array(sequenceStepSchema).min(1, "Tilføj mindst ét trin").max(10),
+  stopOn: z.array(sequenceStopReasonSchema).default(["reply", "bounce", "unsubscribe"]),
+  active: z.boolean().default(true),
+});
+export type SequenceInput = z.infer<typeof sequenceInputSchema>;
+
+export const enrollInputSchema = z.object({
+  targetIds: z.array(z.string().min(1)).min(1, "Vælg mindst én modtager").max(200),
+});
+
+export interface OutreachSequence extends SequenceInput {
+  id: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type EnrollmentStatus = "active" | "completed" | "stopped";
+
+export interface SequenceEnrollment {
+  id: string;
+  sequenceId: string;
+  targetType: SequenceTarget;
+  targetId: string;
+  email: string;
+  contactName: string | null;
+  label: string | null;
+  currentStep: number;            // next step to send
+  status: EnrollmentStatus;
+  stopReason: string | null;
+  nextRunAt: string | null;       // null while a step sits in the queue
+  enrolledAt: string;
+  updatedAt: string;
+}
+
+export type StepSendStatus = "queued" | "sent" | "failed";
+
+export interface SequenceStepSend {
+  id: string;
+  enrollmentId: string;
+  sequenceId: string;
+  stepIndex: number;
+  queueId: string | null;
+  status: StepSendStatus;
+  subject: string | null;
+  messageId: string | null;
+  threadId: string | null;
+  fromAccount: string | null;     // mailbox the step went out from
+  error: string | null;
+  queuedAt: string;
+  sentAt: string | null;
+  openedAt: string | null;
+  clickedAt: string | null;
+  repliedAt: string | null;
+}
+
+export interface SequenceStepReport {
+  stepIndex: number;
+  sent: number;
+  opened: number;
+  clicked: number;
+  replied: number;
+  failed: number;
+  openRate: number;               // 0–1 of sent
+  clickRate: number;
+  replyRate: number;
+}
+
+export interface SequenceReport {
+  sequenceId: string;
+  enrollments: Record<EnrollmentStatus, number>;
+  steps: SequenceStepReport[];
+}
+
+/** Step sends get this id prefix, so the tracking endpoints can tell them from OOH sends. */
+export const SEQUENCE_SEND_PREFIX = "seqs-";
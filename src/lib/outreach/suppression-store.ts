@@ -0,0 +1,186 @@
+// ============================================================
+// Suppression Store – addresses and domains we must never mail
+//
+// Fed by unsubscribe replies (reply-intelligence), the signed
+// unsubscribe link and manual additions. Values are stored
+// lowercase; a domain entry blocks every address on that domain.
+// Every send path calls checkRecipient() before sending, which
+// also logs the refused attempt.
+// ============================================================
+
+import { supabase, HAS_SUPABASE } from "@/lib/supabase";
+import { logger } from "@/lib/logger";
+
+export type SuppressionKind = "email" | "domain";
+
+export interface EmailSuppression {
+  id: string;
+  value: string;
+  kind: SuppressionKind;
+  reason: string;
+  source: string;
+  note: string | null;
+  createdAt: string;
+}
+
+export interface SuppressionBlock {
+  id: string;
+  email: string;
+  matchedValue: string;
+  reason: string;
+  source: string;
+  refId: string | null;
+  createdAt: string;
+}
+
+function rowToSuppression(row: Record<string, unknown>): EmailSuppression {
+  return {
+    id: String(row.id),
+    value: String(row.value || ""),
+    kind: row.kind === "domain" ? "domain" : "email",
+    reason: String(row.reason || ""),
+    source: String(row.source || ""),
+    note: row.note ? String(row.note) : null,
+    createdAt: String(row.created_at || new Date().toISOString()),
+  };
+}
+
+function rowToBlock(row: Record<string, unknown>): SuppressionBlock {
+  return {
+    id: String(row.id),
+    email: String(row.email || ""),
+    matchedValue: String(row.matched_value || ""),
+    reason: String(row.reason || ""),
+    source: String(row.source || ""),
+    refId: row.ref_id ? String(row.ref_id) : null,
+    createdAt: String(row.created_at || new Date().toISOString()),
+  };
+}
+
+export function normalizeSuppressionValue(value: string): string {
+  return value.trim().toLowerCase().replace(/^@/, "");
+}
+
+export async function suppressAddress(entry: {
+  value: string;
+  kind?: SuppressionKind;
+  reason: string;
+  source: string;
+  note?: string | null;
+}): Promise<void> {
+  if (!HAS_SUPABASE || !supabase) throw new Error("Supabase is not configured");
+  const value = normalizeSuppressionValue(entry.value);
+  const { error } = await supabase.from("email_suppressions").upsert(
+    {
+      id: `sup-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+      value,
+      kind: entry.kind || (value.includes("@") ? "email" : "domain"),
+      reason: entry.reason,
+      source: entry.source,
+      note: entry.note || null,
+    },
+    { onConflict: "value", ignoreDuplicates: true }
+  );
+  if (error) throw error;
+}
+
+/** The matching suppression for an address (exact email or its domain), if any. */
+export async function findSuppression(email: string): Promise<EmailSuppression | null> {
+  if (!HAS_SUPABASE || !supabase) return null;
+  const value = normalizeSuppressionValue(email);
+  const domain = value.split("@")[1];
+  try {
+    const { data, error } = await supabase
+      .from("email_suppressions")
+      .select("*")
+      .in("value", domain ? [value, domain] : [value])
+      .limit(1);
+    if (error) throw error;
+    return data && data.length > 0 ? rowToSuppression(data[0]) : null;
+  } catch (err) {
+    logger.error(`[suppression-store] lookup error: ${err instanceof Error ? err.message : err}`);
+    return null;
+  }
+}
+
+export async function isSuppressed(email: string): Promise<boolean> {
+  return (await findSuppression(email)) !== null;
+}
+
+export async function listSuppressions(limit = 500): Promise<EmailSuppression[]> {
+  if (!HAS_SUPABASE || !supabase) return [];
+  try {
+    const { data, error } = await supabase
+      .from("email_suppressions")
+      .select("*")
+      .order("created_at", { ascending: false })
+      .limit(limit);
+    if (error) throw error;
+    return (data || []).map(rowToSuppression);
+  } catch (err) {
+    logger.error(`[suppression-store] list error: ${err instanceof Error ? err.message : err}`);
+    return [];
+  }
+}
+
+export async function removeSuppression(id: string): Promise<void> {
+  if (!HAS_SUPABASE || !supabase) throw new Error("Supabase is not configured");
+  const { error } = await supabase.from("email_suppressions").delete().eq("id", id);
+  if (error) throw error;
+}
+
+async function recordBlock(email: string, match: EmailSuppression, source: string, refId?: string): Promise<void> {
+  if (!HAS_SUPABASE || !supabase) return;
+  try {
+    const { error } = await supabase.from("email_suppression_blocks").insert({
+      id: `supb-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+      email: normalizeSuppressionValue(email),
+      matched_value: match.value,
+      reason: match.reason,
+      source,
+      ref_id: refId || null,
+    });
+    if (error) throw error;
+  } catch (err) {
+    logger.error(`[suppression-store] block log error: ${err instanceof Error ? err.message : err}`);
+  }
+}
+
+/**
+ * Hard check before sending. Returns the matching suppression (and
+ * logs the refused attempt) or null when the recipient may be mailed.
+ */
+export async function checkRecipient(
+  email: string,
+  context: { source: string; refId?: string }
+): Promise<EmailSuppression | null> {
+  const match = await findSuppression(email);
+  if (!match) return null;
+  logger.warn(`Afsendelse til ${email} blokeret (${match.kind} ${match.value}, ${match.reason}) – ${context.source}`, {
+    service: "suppression",
+  });
+  await recordBlock(email, match, context.source, context.refId);
+  return match;
+}
+
+export function suppressionMessage(match: EmailSuppression): string {
+  return match.kind === "domain"
+    ? `Domænet ${match.value} er på blokeringslisten (${match.reason})`
+    : `${match.value} er afmeldt (${match.reason})`;
+}
+
+export async function listSuppressionBlocks(limit = 50): Promise<SuppressionBlock[]> {
+  if (!HAS_SUPABASE || !supabase) return [];
+  try {
+    const { data, error } = await supabase
+      .from("email_suppression_blocks")
+      .select("*")
+      .order("created_at", { ascending: false })
+      .limit(limit);
+    if (error) throw error;
+    return (data || []).map(rowToBlock);
+  } catch (err) {
+    logger.error(`[suppression-store] block list error: ${err instanceof Error ? err.message : err}`);
+    return [];
+  }
+}
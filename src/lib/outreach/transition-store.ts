@@ -0,0 +1,81 @@
+// ============================================================
+// Transition Store – audit log of outreach_status changes
+//
+// One row per accepted status change. Gracefully no-ops if
+// Supabase is not configured; a failed log never blocks the
+// status write itself.
+// ============================================================
+
+import { supabase, HAS_SUPABASE } from "@/lib/supabase";
+import { logger } from "@/lib/logger";
+import type { OutreachStatus } from "@/types";
+
+export type TransitionActor = "user" | "system";
+
+export interface PropertyTransitionRecord {
+  id: string;
+  propertyId: string;
+  fromStatus: OutreachStatus;
+  toStatus: OutreachStatus;
+  action: string;
+  actor: TransitionActor;
+  source: string;
+  note: string | null;
+  createdAt: string;
+}
+
+function rowToRecord(row: Record<string, unknown>): PropertyTransitionRecord {
+  return {
+    id: String(row.id),
+    propertyId: String(row.property_id || ""),
+    fromStatus: row.from_status as OutreachStatus,
+    toStatus: row.to_status as OutreachStatus,
+    action: String(row.action || ""),
+    actor: row.actor === "user" ? "user" : "system",
+    source: String(row.source || ""),
+    note: row.note ? String(row.note) : null,
+    createdAt: String(row.created_at || new Date().toISOString()),
+  };
+}
+
+export async function recordPropertyTransition(
+  entry: Omit<PropertyTransitionRecord, "id" | "createdAt">
+): Promise<void> {
+  if (!HAS_SUPABASE || !supabase) return;
+  try {
+    const { error } = await supabase.from("property_status_transitions").insert({
+      id: `pst-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+      property_id: entry.propertyId,
+      from_status: entry.fromStatus,
+      to_status: entry.toStatus,
+      action: entry.action,
+      actor: entry.actor,
+      source: entry.source,
+      note: entry.note,
+    });
+    if (error) throw error;
+  } catch (err) {
+    logger.error(`[transition-store] insert error: ${err instanceof Error ? err.message : err}`);
+  }
+}
+
+/** Status history for one property, newest first. */
+export async function listPropertyTransitions(
+  propertyId: string,
+  limit = 100
+): Promise<PropertyTransitionRecord[]> {
+  if (!HAS_SUPABASE || !supabase) return [];
+  try {
+    const { data, error } = await supabase
+      .from("property_status_transitions")
+      .select("*")
+      .eq("property_id", propertyId)
+      .order("created_at", { ascending: false })
+      .limit(limit);
+    if (error) throw error;
+    return (data || []).map(rowToRecord);
+  } catch (err) {
+    logger.error(`[transition-store] list error: ${err instanceof Error ? err.message : err}`);
+    return [];
+  }
+}
@@ -0,0 +1,85 @@
+// ============================================================
+// Transition Service – the only place outreach_status is written
+//
+// Loads the current status from HubSpot, validates the change
+// against the state machine (incl. `requires` guards), writes the
+// new status together with any accompanying fields, and logs the
+// transition. Same-status writes are no-ops.
+// ============================================================
+
+import { fetchEjendomById, updateEjendom } from "@/lib/hubspot";
+import { validateTransition } from "@/lib/state-machine";
+import { logger } from "@/lib/logger";
+import type { OutreachStatus } from "@/types";
+import { recordPropertyTransition, type TransitionActor } from "./transition-store";
+
+export interface TransitionTrigger {
+  actor: TransitionActor;
+  /** What caused the change, e.g. "workflow", "email-queue", "mail-sync" */
+  source: string;
+  note?: string;
+}
+
+export interface TransitionResult {
+  from: OutreachStatus;
+  to: OutreachStatus;
+  action: string | null;   // null when the status was already `to`
+  changed: boolean;
+}
+
+export class TransitionError extends Error {
+  constructor(
+    message: string,
+    public status: number
+  ) {
+    super(message);
+    this.name = "TransitionError";
+  }
+}
+
+/**
+ * Move a property to `to`. Extra HubSpot `properties` are written in
+ * the same request and count towards the guards, so e.g. an email
+ * address can be set and the property marked ready in one call.
+ */
+export async function transitionProperty(
+  propertyId: string,
+  to: OutreachStatus,
+  trigger: TransitionTrigger,
+  properties: Record<string, string> = {}
+): Promise<TransitionResult> {
+  const property = await fetchEjendomById(propertyId);
+  const from = property.outreachStatus;
+
+  if (from === to) {
+    if (Object.keys(properties).length > 0) await updateEjendom(propertyId, properties);
+    return { from, to, action: null, changed: false };
+  }
+
+  const contactEmail = properties.mailadresse ?? property.contactEmail;
+  const draftSubject = properties.email_draft_subject ?? property.emailDraftSubject;
+  const draftBody = properties.email_draft_body ?? property.emailDraftBody;
+  const check = validateTransition(from, to, {
+    hasContactEmail: !!contactEmail?.trim(),
+    hasEmailDraft: !!draftSubject?.trim() && !!draftBody?.trim(),
+  });
+  if (!check.valid || !check.action) {
+    logger.warn(`Afvist statusskift for ${propertyId}: ${from} → ${to} (${trigger.source})`, {
+      service: "transitions",
+    });
+    throw new TransitionError(check.reason || "Ugyldigt statusskift", 409);
+  }
+
+  await updateEjendom(propertyId, { ...properties, outreach_status: to });
+  await recordPropertyTransition({
+    propertyId,
+    fromStatus: from,
+    toStatus: to,
+    action: check.action,
+    actor: trigger.actor,
+    source: trigger.source,
+    note: trigger.note || null,
+  });
+
+  return { from, to, action: check.action, changed: true };
+}
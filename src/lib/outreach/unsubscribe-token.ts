@@ -0,0 +1,49 @@
+import { signLinkPayload, verifyLinkSignature } from "@/lib/signed-link";
+
+/**
+ * Signed one-click unsubscribe link for outbound mail.
+ * Token = base64url({ m: email }) + "." + HMAC("unsub:" + payload) —
+ * same scheme as the tilbud accept link. It never expires: an
+ * unsubscribe must keep working for as long as the mail sits in
+ * someone's inbox.
+ */
+
+/** Footer line our outbound mail ends with (followed by ": <link>"). */
+export const UNSUBSCRIBE_FOOTER_TEXT = "Ønsker du ikke flere henvendelser fra os, kan du afmelde dig her";
+
+export async function createUnsubscribeToken(email: string): Promise<string> {
+  const payload = Buffer.from(JSON.stringify({ m: email.trim().toLowerCase() })).toString("base64url");
+  const sig = await signLinkPayload("unsub", payload);
+  return `${payload}.${sig}`;
+}
+
+/** The email the token was issued for, or null if it is invalid. */
+export async function verifyUnsubscribeToken(token: string | undefined | null): Promise<string | null> {
+  if (!token) return null;
+  const dot = token.indexOf(".");
+  if (dot < 1) return null;
+
+  const payload = token.substring(0, dot);
+  const sig = token.substring(dot + 1);
+  if (!(await verifyLinkSignature("unsub", payload, sig))) return null;
+
+  try {
+    const parsed = JSON.parse(Buffer.from(payload, "base64url").toString("utf-8")) as { m?: unknown };
+    return typeof parsed.m === "string" && parsed.m.includes("@") ? parsed.m : null;
+  } catch {
+    return null;
+  }
+}
+
+/** Public page (body link) and one-click endpoint (List-Unsubscribe header). */
+export async function buildUnsubscribeUrls(
+  email: string,
+  baseUrl: string
+): Promise<{ pageUrl: string; oneClickUrl: string }> {
+  const token = await createUnsubscribeToken(email);
+  const base = baseUrl.replace(/\/$/, "");
+  return {
+    pageUrl: `${base}/afmeld/${token}`,
+    oneClickUrl: `${base}/api/public/unsubscribe?token=${encodeURIComponent(token)}`,
+  };
+}
@@ -0,0 +1,72 @@
+// ============================================================
+// Portfolio Outreach Store – consolidated drafts per owner group
+// Persisted in Supabase (portfolio_outreach) with an in-memory
+// fallback for local dev.
+// ============================================================
+
+import { supabase, HAS_SUPABASE } from "../supabase";
+import { logger } from "../logger";
+import type { PortfolioOutreach } from "./types";
+
+const memOutreach: PortfolioOutreach[] = [];
+
+function rowToOutreach(row: Record<string, unknown>): PortfolioOutreach {
+  return {
+    id: String(row.id),
+    portfolioKey: String(row.portfolio_key),
+    parentName: String(row.parent_name || ""),
+    toEmail: row.to_email ? String(row.to_email) : null,
+    toName: row.to_name ? String(row.to_name) : null,
+    subject: String(row.subject || ""),
+    body: String(row.body || ""),
+    note: row.note ? String(row.note) : null,
+    propertyRefs: Array.isArray(row.property_refs) ? (row.property_refs as string[]) : [],
+    createdAt: String(row.created_at || new Date().toISOString()),
+  };
+}
+
+export async function savePortfolioOutreach(
+  input: Omit<PortfolioOutreach, "id" | "createdAt">
+): Promise<PortfolioOutreach> {
+  const outreach: PortfolioOutreach = {
+    ...input,
+    id: `pout-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+    createdAt: new Date().toISOString(),
+  };
+  if (!HAS_SUPABASE || !supabase) {
+    memOutreach.unshift(outreach);
+    return outreach;
+  }
+  const { error } = await supabase.from("portfolio_outreach").insert({
+    id: outreach.id,
+    portfolio_key: outreach.portfolioKey,
+    parent_name: outreach.parentName,
+    to_email: outreach.toEmail,
+    to_name: outreach.toName,
+    subject: outreach.subject,
+    body: outreach.body,
+    note: outreach.note,
+    property_refs: outreach.propertyRefs,
+    created_at: outreach.createdAt,
+  });
+  if (error) throw new Error(`Kunne ikke gemme porteføljeudkast: ${error.message}`);
+  return outreach;
+}
+
+/** Newest first. */
+export async function listPortfolioOutreach(portfolioKey: string, limit = 20): Promise<PortfolioOutreach[]> {
+  if (!HAS_SUPABASE || !supabase) {
+    return memOutreach.filter((o) => o.portfolioKey === portfolioKey).slice(0, limit);
+  }
+  const { data, error } = await supabase
+    .from("portfolio_outreach")
+    .select("*")
+    .eq("portfolio_key", portfolioKey)
+    .order("created_at", { ascending: false })
+    .limit(limit);
+  if (error) {
+    logger.error(`[portfolio-outreach] list error: ${error.message}`);
+    return [];
+  }
+  return (data || []).map((r) => rowToOutreach(r as Record<string, unknown>));
+}
@@ -0,0 +1,206 @@
+// ============================================================
+// Owner Structure – resolve holding chains through CVR
+//
+// cvrapi.dk lists a company's legal owners by name only. When
+// exactly one owner is itself a company, it is looked up by name
+// (strict match) and followed upward until an owner is a person,
+// the register has no owners, ownership is split between several
+// companies, or the chain gets too long. Results are stored in
+// owner_companies; the raw CVR answers go through the research
+// source cache, so re-resolving a group is cheap.
+// ============================================================
+
+import { supabase, HAS_SUPABASE } from "../supabase";
+import { logger } from "../logger";
+import { lookupCvr } from "../research/cvr";
+import { createResearchSourceCache, RESEARCH_SOURCE_TTL_DAYS, type ResearchSourceCache } from "../research/source-cache";
+import type { OwnerLink, OwnerStopReason, OwnerStructure } from "./types";
+
+const MAX_DEPTH = 6;
+/** Stored chains are re-resolved on the same schedule as the CVR cache. */
+const STRUCTURE_TTL_MS = RESEARCH_SOURCE_TTL_DAYS.cvr * 86_400_000;
+
+const COMPANY_NAME_PATTERN =
+  /\b(aps|a\/s|i\/s|k\/s|p\/s|amba|smba|ivs|holding|fond(en)?|pension\w*|forsikring\w*|invest\w*|ejendom(me)?|\w*selskab(et)?|komplementar\w*|kapital|capital|group|gruppen|koncern(en)?|ltd|limited|gmbh|ab|plc|inc|llc|bv|nv|sarl|s\.a\.)(?=\s|$|[.,)])/i;
+
+/** Owner names from CVR are either people or companies; only companies are followed. */
+export function looksLikeCompany(name: string): boolean {
+  return COMPANY_NAME_PATTERN.test(name.trim());
+}
+
+/** CVR numbers as 8 digits, or null. */
+export function normalizeCvr(raw: string | null | undefined): string | null {
+  const digits = (raw || "").replace(/\D/g, "");
+  return digits.length === 8 ? digits : null;
+}
+
+// ── In-memory fallback (used when Supabase is unavailable) ──
+
+const memStructures = new Map<string, OwnerStructure>();
+
+function rowToStructure(row: Record<string, unknown>): OwnerStructure {
+  const chain = Array.isArray(row.chain) ? (row.chain as OwnerLink[]) : [];
+  return {
+    cvr: String(row.cvr),
+    name: String(row.name || ""),
+    chain,
+    ultimateParent: { cvr: String(row.ultimate_parent_cvr), name: String(row.ultimate_parent_name || "") },
+    stopReason: String(row.stop_reason) as OwnerStopReason,
+    unmatchedOwners: Array.isArray(row.unmatched_owners) ? (row.unmatched_owners as string[]) : [],
+    resolvedAt: String(row.resolved_at || new Date().toISOString()),
+  };
+}
+
+async function saveStructure(s: OwnerStructure): Promise<void> {
+  if (!HAS_SUPABASE || !supabase) {
+    memStructures.set(s.cvr, s);
+    return;
+  }
+  const { error } = await supabase.from("owner_companies").upsert(
+    {
+      cvr: s.cvr,
+      name: s.name,
+      chain: s.chain,
+      ultimate_parent_cvr: s.ultimateParent.cvr,
+      ultimate_parent_name: s.ultimateParent.name,
+      stop_reason: s.stopReason,
+      unmatched_owners: s.unmatchedOwners,
+      resolved_at: s.resolvedAt,
+    },
+    { onConflict: "cvr" }
+  );
+  if (error) logger.warn(`[owner-structure] save ${s.cvr} error: ${error.message}`, { service: "portfolio" });
+}
+
+/** Stored structures for the given CVRs, stale ones included. */
+export async function getOwnerStructures(cvrs: string[]): Promise<Map<string, OwnerStructure>> {
+  const out = new Map<string, OwnerStructure>();
+  const unique = [...new Set(cvrs)];
+  if (unique.length === 0) return out;
+  if (!HAS_SUPABASE || !supabase) {
+    for (const cvr of unique) {
+      const s = memStructures.get(cvr);
+      if (s) out.set(cvr, s);
+    }
+    return out;
+  }
+  for (let i = 0; i < unique.length; i += 200) {
+    const { data, error } = await supabase
+      .from("owner_companies")
+      .select("*")
+      .in("cvr", unique.slice(i, i + 200));
+    if (error) {
+      logger.error(`[owner-structure] list error: ${error.message}`);
+      continue;
+    }
+    for (const row of data || []) {
+      const s = rowToStructure(row as Record<string, unknown>);
+      out.set(s.cvr, s);
+    }
+  }
+  return out;
+}
+
+interface ChainResult {
+  chain: OwnerLink[];
+  stopReason: OwnerStopReason;
+  unmatchedOwners: string[];
+}
+
+interface ResolveContext {
+  cache: ResearchSourceCache;
+  /** Chains resolved in this batch, so shared parents are looked up once. */
+  memo: Map<string, ChainResult>;
+}
+
+async function resolveChain(link: OwnerLink, ctx: ResolveContext, seen: Set<string>): Promise<ChainResult> {
+  const known = ctx.memo.get(link.cvr);
+  if (known) return known;
+  if (seen.has(link.cvr)) return { chain: [link], stopReason: "cycle", unmatchedOwners: [] };
+  if (seen.size >= MAX_DEPTH) return { chain: [link], stopReason: "max_depth", unmatchedOwners: [] };
+
+  const company = await lookupCvr(link.cvr, { cache: ctx.cache });
+  if (!company) return { chain: [link], stopReason: "owner_not_found", unmatchedOwners: [] };
+
+  const self: OwnerLink = { cvr: link.cvr, name: company.companyName || link.name };
+  const owners = company.owners || [];
+  const companyOwners = owners.filter(looksLikeCompany);
+
+  let result: ChainResult;
+  if (owners.length === 0) {
+    result = { chain: [self], stopReason: "no_owner_data", unmatchedOwners: [] };
+  } else if (companyOwners.length === 0) {
+    result = { chain: [self], stopReason: "person_owner", unmatchedOwners: [] };
+  } else if (companyOwners.length > 1) {
+    result = { chain: [self], stopReason: "multiple_company_owners", unmatchedOwners: companyOwners };
+  } else {
+    const ownerName = companyOwners[0];
+    const parent = await lookupCvr(ownerName, { strictNameMatch: true, searchedName: ownerName, cache: ctx.cache });
+    const parentCvr = normalizeCvr(parent?.cvr);
+    if (!parent || !parentCvr) {
+      result = { chain: [self], stopReason: "owner_not_found", unmatchedOwners: [ownerName] };
+    } else if (parentCvr === self.cvr) {
+      result = { chain: [self], stopReason: "cycle", unmatchedOwners: [] };
+    } else {
+      const up = await resolveChain(
+        { cvr: parentCvr, name: parent.companyName || ownerName },
+        ctx,
+        new Set([...seen, self.cvr])
+      );
+      result = { ...up, chain: [self, ...up.chain] };
+    }
+  }
+
+  ctx.memo.set(self.cvr, result);
+  return result;
+}
+
+/**
+ * Resolve and store the holding chain for owners that have none
+ * or a stale one (all of them with `force`). At most `limit` are
+ * resolved per call so a request stays within its time budget.
+ */
+export async function resolveOwnerStructures(
+  owners: OwnerLink[],
+  opts: { force?: boolean; limit?: number } = {}
+): Promise<{ resolved: OwnerStructure[]; remaining: number }> {
+  const limit = opts.limit ?? 20;
+  const stored = await getOwnerStructures(owners.map((o) => o.cvr));
+  const staleBefore = new Date(Date.now() - STRUCTURE_TTL_MS).toISOString();
+
+  const seen = new Set<string>();
+  const due = owners.filter((o) => {
+    if (seen.has(o.cvr)) return false;
+    seen.add(o.cvr);
+    const s = stored.get(o.cvr);
+    return opts.force || !s || s.resolvedAt < staleBefore;
+  });
+
+  const ctx: ResolveContext = {
+    cache: createResearchSourceCache(opts.force ? ["cvr"] : []),
+    memo: new Map(),
+  };
+  const resolved: OwnerStructure[] = [];
+  for (const owner of due.slice(0, limit)) {
+    try {
+      const { chain, stopReason, unmatchedOwners } = await resolveChain(owner, ctx, new Set());
+      const structure: OwnerStructure = {
+        cvr: owner.cvr,
+        name: chain[0]?.name || owner.name,
+        chain,
+        ultimateParent: chain[chain.length - 1] || owner,
+        stopReason,
+        unmatchedOwners,
+        resolvedAt: new Date().toISOString(),
+      };
+      await saveStructure(structure);
+      resolved.push(structure);
+    } catch (e) {
+      logger.warn(`[owner-structure] resolve ${owner.cvr} failed: ${e instanceof Error ? e.message : e}`, {
+        service: "portfolio",
+      });
+    }
+  }
+
+  return { resolved, remaining: Math.max(0, due.length - limit) };
+}
@@ -0,0 +1,259 @@
+// ============================================================
+// Owner Portfolios – properties grouped by owner and group
+//
+// HubSpot and staged properties with an owner CVR are grouped
+// by the ultimate parent of their owner (see owner-structure),
+// or by the owner itself until its chain has been resolved.
+// Each portfolio gets a combined OOH score and the contacts
+// found across its properties, and can be pitched in one mail.
+// ============================================================
+
+import { fetchEjendommeWithOwnerCvr } from "../hubspot";
+import { listStagedProperties } from "../staging/store";
+import { generatePortfolioEmailDraft } from "../llm";
+import { logger } from "../logger";
+import { getOwnerStructures, normalizeCvr, resolveOwnerStructures } from "./owner-structure";
+import { savePortfolioOutreach } from "./outreach-store";
+import type {
+  OwnerLink,
+  OwnerPortfolio,
+  PortfolioContact,
+  PortfolioOutreach,
+  PortfolioOutreachInput,
+  PortfolioProperty,
+} from "./types";
+
+const STRONG_SCORE = 7;
+/** Confidence given to the single contact stored on a HubSpot ejendom. */
+const HUBSPOT_CONTACT_CONFIDENCE = 0.6;
+
+interface ContactSighting {
+  name: string | null;
+  email: string;
+  role: string | null;
+  confidence: number;
+}
+
+interface CollectedProperty {
+  property: PortfolioProperty;
+  contacts: ContactSighting[];
+}
+
+/** All properties with a valid owner CVR. Staged rows already pushed to HubSpot are skipped. */
+async function collectProperties(): Promise<CollectedProperty[]> {
+  const out: CollectedProperty[] = [];
+
+  let hubspot: Awaited<ReturnType<typeof fetchEjendommeWithOwnerCvr>> = [];
+  try {
+    hubspot = await fetchEjendommeWithOwnerCvr();
+  } catch (e) {
+    logger.warn(`[portfolio] HubSpot fetch failed, using staged only: ${e instanceof Error ? e.message : e}`, {
+      service: "portfolio",
+    });
+  }
+  const hubspotIds = new Set(hubspot.map((p) => p.id));
+  for (const p of hubspot) {
+    const cvr = normalizeCvr(p.ownerCompanyCvr);
+    if (!cvr) continue;
+    out.push({
+      property: {
+        kind: "hubspot",
+        id: p.id,
+        name: p.name,
+        address: p.address,
+        postalCode: p.postalCode,
+        city: p.city,
+        outdoorScore: p.outdoorScore,
+        outdoorNotes: p.outdoorPotentialNotes,
+        ownerCvr: cvr,
+        ownerName: p.ownerCompanyName || "",
+        status: p.outreachStatus,
+      },
+      contacts: p.contactEmail
+        ? [{ name: p.contactPerson || null, email: p.contactEmail, role: null, confidence: HUBSPOT_CONTACT_CONFIDENCE }]
+        : [],
+    });
+  }
+
+  const staged = await listStagedProperties();
+  for (const sp of staged) {
+    const cvr = normalizeCvr(sp.ownerCvr);
+    if (!cvr || sp.stage === "rejected") continue;
+    if (sp.hubspotId && hubspotIds.has(sp.hubspotId)) continue;
+    const contacts: ContactSighting[] = (sp.contacts || [])
+      .filter((c) => c.email && !c.bouncedAt)
+      .map((c) => ({ name: c.name || null, email: c.email!, role: c.role || null, confidence: c.confidence }));
+    if (contacts.length === 0 && sp.contactEmail) {
+      contacts.push({ name: sp.contactPerson || null, email: sp.contactEmail, role: null, confidence: 0.5 });
+    }
+    out.push({
+      property: {
+        kind: "staged",
+        id: sp.id,
+        name: sp.name,
+        address: sp.address,
+        postalCode: sp.postalCode,
+        city: sp.city,
+        outdoorScore: sp.outdoorScore,
+        outdoorNotes: sp.outdoorNotes,
+        dailyTraffic: sp.dailyTraffic,
+        ownerCvr: cvr,
+        ownerName: sp.ownerCompany || "",
+        status: sp.stage,
+      },
+      contacts,
+    });
+  }
+
+  return out;
+}
+
+/**
+ * Combined OOH potential 0–100: every scored property is an
+ * independent s/20 chance of a deal (score 10 → 50 %), and the
+ * portfolio score is the chance that at least one converts.
+ * Unscored properties don't count either way.
+ */
+function scorePortfolio(scores: number[]): number {
+  const miss = scores.reduce((p, s) => p * (1 - Math.min(Math.max(s, 0), 10) / 20), 1);
+  return Math.round((1 - miss) * 100);
+}
+
+/** Contacts across the portfolio: seen on most properties first, then by confidence. */
+function mergeContacts(items: CollectedProperty[]): PortfolioContact[] {
+  const byEmail = new Map<string, PortfolioContact>();
+  for (const item of items) {
+    const seenHere = new Set<string>();
+    for (const c of item.contacts) {
+      const key = c.email.trim().toLowerCase();
+      const existing = byEmail.get(key);
+      if (!existing) {
+        byEmail.set(key, { name: c.name, email: c.email.trim(), role: c.role, confidence: c.confidence, propertyCount: 1 });
+      } else {
+        if (!seenHere.has(key)) existing.propertyCount++;
+        if (c.confidence > existing.confidence) existing.confidence = c.confidence;
+        existing.name = existing.name || c.name;
+        existing.role = existing.role || c.role;
+      }
+      seenHere.add(key);
+    }
+  }
+  return [...byEmail.values()].sort((a, b) => b.propertyCount - a.propertyCount || b.confidence - a.confidence);
+}
+
+/**
+ * Owner portfolios with at least `minProperties` properties,
+ * strongest first. `unresolvedOwners` counts owners whose holding
+ * chain hasn't been looked up yet (see resolvePortfolioOwners).
+ */
+export async function listOwnerPortfolios(opts: { minProperties?: number } = {}): Promise<{
+  portfolios: OwnerPortfolio[];
+  unresolvedOwners: number;
+}> {
+  const minProperties = opts.minProperties ?? 2;
+  const collected = await collectProperties();
+  const structures = await getOwnerStructures(collected.map((c) => c.property.ownerCvr));
+
+  const groups = new Map<string, { parent: OwnerLink; items: CollectedProperty[] }>();
+  for (const item of collected) {
+    const s = structures.get(item.property.ownerCvr);
+    const parent = s ? s.ultimateParent : { cvr: item.property.ownerCvr, name: item.property.ownerName };
+    const group = groups.get(parent.cvr) || { parent, items: [] };
+    group.items.push(item);
+    groups.set(parent.cvr, group);
+  }
+
+  const portfolios: OwnerPortfolio[] = [];
+  for (const [key, { parent, items }] of groups) {
+    if (items.length < minProperties) continue;
+
+    const owners = new Map<string, OwnerLink & { propertyCount: number }>();
+    for (const { property } of items) {
+      const name = structures.get(property.ownerCvr)?.name || property.ownerName;
+      const o = owners.get(property.ownerCvr) || { cvr: property.ownerCvr, name, propertyCount: 0 };
+      o.propertyCount++;
+      owners.set(property.ownerCvr, o);
+    }
+
+    const properties = items
+      .map((i) => i.property)
+      .sort((a, b) => (b.outdoorScore ?? -1) - (a.outdoorScore ?? -1));
+    const scores = properties.filter((p) => p.outdoorScore != null).map((p) => p.outdoorScore!);
+    // Every resolved owner in the group shares the same top, and so the same stop reason
+    const resolvedOwner = [...owners.keys()].map((cvr) => structures.get(cvr)).find(Boolean);
+
+    portfolios.push({
+      key,
+      parent: { cvr: parent.cvr, name: parent.name || owners.get(key)?.name || key },
+      resolved: [...owners.keys()].every((cvr) => structures.has(cvr)),
+      stopReason: resolvedOwner?.stopReason ?? null,
+      owners: [...owners.values()].sort((a, b) => b.propertyCount - a.propertyCount),
+      properties,
+      score: scorePortfolio(scores),
+      scoredProperties: scores.length,
+      strongProperties: scores.filter((s) => s >= STRONG_SCORE).length,
+      totalDailyTraffic: properties.reduce((sum, p) => sum + (p.dailyTraffic || 0), 0),
+      contacts: mergeContacts(items),
+    });
+  }
+
+  portfolios.sort((a, b) => b.score - a.score || b.properties.length - a.properties.length);
+  const unresolvedOwners = new Set(
+    collected.map((c) => c.property.ownerCvr).filter((cvr) => !structures.has(cvr))
+  ).size;
+  return { portfolios, unresolvedOwners };
+}
+
+export async function getOwnerPortfolio(key: string): Promise<OwnerPortfolio | null> {
+  const { portfolios } = await listOwnerPortfolios({ minProperties: 1 });
+  return portfolios.find((p) => p.key === key) || null;
+}
+
+/**
+ * Look up holding chains for owners without one (or all, with
+ * `force`), a bounded number per call.
+ */
+export async function resolvePortfolioOwners(opts: { force?: boolean; limit?: number } = {}): Promise<{
+  resolved: number;
+  remaining: number;
+}> {
+  const collected = await collectProperties();
+  const owners = collected.map((c) => ({ cvr: c.property.ownerCvr, name: c.property.ownerName }));
+  const result = await resolveOwnerStructures(owners, opts);
+  return { resolved: result.resolved.length, remaining: result.remaining };
+}
+
+/**
+ * Write and store one consolidated outreach mail for a portfolio.
+ * Without an explicit recipient the contact seen on most of the
+ * portfolio's properties is used; the draft is kept either way.
+ */
+export async function generatePortfolioOutreach(
+  key: string,
+  input: PortfolioOutreachInput = {}
+): Promise<PortfolioOutreach | null> {
+  const portfolio = await getOwnerPortfolio(key);
+  if (!portfolio) return null;
+
+  const contact = input.to
+    ? { name: input.toName || null, email: input.to, role: input.toRole || null }
+    : portfolio.contacts[0] || null;
+
+  const draft = await generatePortfolioEmailDraft({
+    groupName: portfolio.parent.name,
+    ownerCompanies: portfolio.owners.filter((o) => o.cvr !== portfolio.key).map((o) => o.name),
+    contact: { name: contact?.name || null, role: contact?.role || null },
+    properties: portfolio.properties.map((p) => ({ address: p.address, city: p.city, notes: p.outdoorNotes })),
+  });
+
+  return savePortfolioOutreach({
+    portfolioKey: portfolio.key,
+    parentName: portfolio.parent.name,
+    toEmail: contact?.email || null,
+    toName: contact?.name || null,
+    subject: draft.subject,
+    body: draft.bodyText,
+    note: draft.shortInternalNote || null,
+    propertyRefs: portfolio.properties.map((p) => `${p.kind}:${p.id}`),
+  });
+}
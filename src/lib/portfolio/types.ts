@@ -0,0 +1,105 @@
+// ============================================================
+// Owner Portfolio – shared types (client-safe)
+// ============================================================
+
+import { z } from "zod";
+
+export interface OwnerLink {
+  cvr: string;
+  name: string;
+}
+
+/** Why resolving a holding chain stopped where it did. */
+export type OwnerStopReason =
+  | "person_owner"
+  | "no_owner_data"
+  | "multiple_company_owners"
+  | "owner_not_found"
+  | "max_depth"
+  | "cycle";
+
+export const OWNER_STOP_LABELS: Record<OwnerStopReason, string> = {
+  person_owner: "Ejet af person(er)",
+  no_owner_data: "Ingen ejerdata i CVR",
+  multiple_company_owners: "Flere selskabsejere",
+  owner_not_found: "Ejerselskab ikke fundet i CVR",
+  max_depth: "Kæden er for lang",
+  cycle: "Cirkulært ejerskab",
+};
+
+export interface OwnerStructure {
+  cvr: string;
+  name: string;
+  /** From the owning company up to the ultimate parent (owner first, parent last). */
+  chain: OwnerLink[];
+  ultimateParent: OwnerLink;
+  stopReason: OwnerStopReason;
+  /** Owner names above the top of the chain that were not followed. */
+  unmatchedOwners: string[];
+  resolvedAt: string;
+}
+
+export interface PortfolioContact {
+  name: string | null;
+  email: string;
+  role: string | null;
+  confidence: number;
+  /** Properties in the portfolio where this contact was found. */
+  propertyCount: number;
+}
+
+export interface PortfolioProperty {
+  kind: "hubspot" | "staged";
+  id: string;
+  name: string;
+  address: string;
+  postalCode?: string;
+  city?: string;
+  outdoorScore?: number;
+  outdoorNotes?: string;
+  dailyTraffic?: number;
+  ownerCvr: string;
+  ownerName: string;
+  /** HubSpot outreach status or staging stage. */
+  status: string;
+}
+
+export interface OwnerPortfolio {
+  /** CVR of the ultimate parent (or of the owner while unresolved). */
+  key: string;
+  parent: OwnerLink;
+  /** False while the owner's holding chain hasn't been looked up yet. */
+  resolved: boolean;
+  stopReason: OwnerStopReason | null;
+  /** Group companies that own at least one of the properties. */
+  owners: (OwnerLink & { propertyCount: number })[];
+  properties: PortfolioProperty[];
+  /** Combined OOH potential, 0–100. */
+  score: number;
+  scoredProperties: number;
+  /** Properties with outdoor score ≥ 7. */
+  strongProperties: number;
+  totalDailyTraffic: number;
+  contacts: PortfolioContact[];
+}
+
+export interface PortfolioOutreach {
+  id: string;
+  portfolioKey: string;
+  parentName: string;
+  toEmail: string | null;
+  toName: string | null;
+  subject: string;
+  body: string;
+  note: string | null;
+  /** "hubspot:<id>" / "staged:<id>" for every property covered. */
+  propertyRefs: string[];
+  createdAt: string;
+}
+
+export const portfolioOutreachInputSchema = z.object({
+  to: z.string().trim().email("Ugyldig email").optional(),
+  toName: z.string().trim().max(120).optional(),
+  toRole: z.string().trim().max(80).optional(),
+});
+export type PortfolioOutreachInput = z.infer<typeof portfolioOutreachInputSchema>;
@@ -98,6 +98,23 @@ export async function getResearchLogs(
   }
 }
 
+/**
+ * Move a property's research logs to another property (property merge).
+ */
+export async function reassignResearchLogs(fromPropertyId: string, toPropertyId: string): Promise<number> {
+  if (!supabase) return 0;
+  const { data, error } = await supabase
+    .from("research_logs")
+    .update({ property_id: toPropertyId })
+    .eq("property_id", fromPropertyId)
+    .select("id");
+  if (error) {
+    logger.warn(`[research-log-store] Failed to reassign logs: ${error.message}`);
+    return 0;
+  }
+  return data?.length || 0;
+}
+
 /**
  * Fetch the N most recent research logs across all properties.
  */
@@ -0,0 +1,367 @@
+// ============================================================
+// Administrator Directory – curated property administrators
+//
+// OIS points many properties at the same administrators (DEAS,
+// Cobblestone, Newsec …). Each research run teaches the
+// directory the administrator's CVR, domain, contact people and
+// the property it manages; users curate it in the UI (verify,
+// dismiss, add contacts and aliases). The research orchestrator
+// looks the OIS administrator up here first, so known contacts
+// are reused instead of rediscovered.
+// Persisted in Supabase (property_administrators) with an
+// in-memory fallback for local dev.
+// ============================================================
+
+import { supabase, HAS_SUPABASE } from "../supabase";
+import { logger } from "../logger";
+import type {
+  AdministratorContact,
+  AdministratorInput,
+  ManagedProperty,
+  PropertyAdministrator,
+} from "./administrator-types";
+import type { AdministratorDirectoryHit, ResearchAnalysis, ResearchData } from "@/types";
+
+/** Roles that belong to the administrator rather than the owner. */
+const ADMIN_ROLE_PATTERN = /administrat|forretningsf|ejendomsadm|ejendomsansvarlig|driftschef|kundeansvarlig|property manager/i;
+const MAX_PROPERTIES = 500;
+
+/** Company names compared without legal form, case and punctuation. */
+export function administratorNameKey(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/\b(aps|a\/s|as|i\/s|k\/s|p\/s|smba|amba|ivs)\b/g, " ")
+    .replace(/[^a-zæøå0-9\s]/g, "")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+function domainOf(url: string | null | undefined): string | null {
+  if (!url) return null;
+  try {
+    return new URL(url.startsWith("http") ? url : `https://${url}`).hostname.replace(/^www\./, "").toLowerCase();
+  } catch {
+    return null;
+  }
+}
+
+function emailDomain(email: string | null | undefined): string | null {
+  return email?.split("@")[1]?.toLowerCase() || null;
+}
+
+function newId(prefix: string): string {
+  return `${prefix}-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+// ── In-memory fallback (used when Supabase is unavailable) ──
+
+const memAdmins = new Map<string, PropertyAdministrator>();
+
+function rowToAdministrator(row: Record<string, unknown>): PropertyAdministrator {
+  const str = (v: unknown) => (v ? String(v) : null);
+  return {
+    id: String(row.id),
+    name: String(row.name || ""),
+    aliases: Array.isArray(row.aliases) ? (row.aliases as string[]) : [],
+    cvr: str(row.cvr),
+    domain: str(row.domain),
+    website: str(row.website),
+    phone: str(row.phone),
+    notes: str(row.notes),
+    contacts: Array.isArray(row.contacts) ? (row.contacts as AdministratorContact[]) : [],
+    properties: Array.isArray(row.properties) ? (row.properties as ManagedProperty[]) : [],
+    createdAt: String(row.created_at || new Date().toISOString()),
+    updatedAt: String(row.updated_at || new Date().toISOString()),
+    lastSeenAt: str(row.last_seen_at),
+  };
+}
+
+async function saveAdministrator(admin: PropertyAdministrator): Promise<PropertyAdministrator> {
+  admin.updatedAt = new Date().toISOString();
+  if (!HAS_SUPABASE || !supabase) {
+    memAdmins.set(admin.id, admin);
+    return admin;
+  }
+  const { error } = await supabase.from("property_administrators").upsert(
+    {
+      id: admin.id,
+      name: admin.name,
+      aliases: admin.aliases,
+      cvr: admin.cvr,
+      domain: admin.domain,
+      website: admin.website,
+      phone: admin.phone,
+      notes: admin.notes,
+      contacts: admin.contacts,
+      properties: admin.properties,
+      created_at: admin.createdAt,
+      updated_at: admin.updatedAt,
+      last_seen_at: admin.lastSeenAt,
+    },
+    { onConflict: "id" }
+  );
+  if (error) throw new Error(`Kunne ikke gemme administrator: ${error.message}`);
+  return admin;
+}
+
+/** All administrators, most properties first. `search` matches name, alias or CVR. */
+export async function listAdministrators(search?: string): Promise<PropertyAdministrator[]> {
+  let all: PropertyAdministrator[];
+  if (!HAS_SUPABASE || !supabase) {
+    all = [...memAdmins.values()];
+  } else {
+    const { data, error } = await supabase.from("property_administrators").select("*").limit(2000);
+    if (error) {
+      logger.error(`[administrators] list error: ${error.message}`);
+      return [];
+    }
+    all = (data || []).map((r) => rowToAdministrator(r as Record<string, unknown>));
+  }
+  const q = search?.trim().toLowerCase();
+  if (q) {
+    all = all.filter(
+      (a) => a.name.toLowerCase().includes(q) || a.aliases.some((x) => x.toLowerCase().includes(q)) || a.cvr === q
+    );
+  }
+  return all.sort((a, b) => b.properties.length - a.properties.length || a.name.localeCompare(b.name, "da"));
+}
+
+export async function getAdministrator(id: string): Promise<PropertyAdministrator | null> {
+  if (!HAS_SUPABASE || !supabase) return memAdmins.get(id) || null;
+  const { data, error } = await supabase.from("property_administrators").select("*").eq("id", id).maybeSingle();
+  if (error) {
+    logger.error(`[administrators] get error: ${error.message}`);
+    return null;
+  }
+  return data ? rowToAdministrator(data) : null;
+}
+
+/** Directory entry by name or alias (legal form ignored), or by CVR. */
+export async function findAdministrator(match: { name?: string | null; cvr?: string | null }): Promise<PropertyAdministrator | null> {
+  const key = match.name ? administratorNameKey(match.name) : "";
+  if (!key && !match.cvr) return null;
+  const all = await listAdministrators();
+  return (
+    (match.cvr ? all.find((a) => a.cvr === match.cvr) : undefined) ||
+    (key ? all.find((a) => [a.name, ...a.aliases].some((n) => administratorNameKey(n) === key)) : undefined) ||
+    null
+  );
+}
+
+/** Apply user edits. Contacts are replaced by the submitted list; known ones keep their history. */
+function applyInput(admin: PropertyAdministrator, input: AdministratorInput): PropertyAdministrator {
+  const now = new Date().toISOString();
+  const previous = new Map(admin.contacts.map((c) => [c.id, c]));
+  return {
+    ...admin,
+    name: input.name,
+    aliases: [...new Set(input.aliases.filter((a) => a !== input.name))],
+    cvr: input.cvr,
+    domain: input.domain?.toLowerCase().replace(/^www\./, "") || domainOf(input.website),
+    website: input.website,
+    phone: input.phone,
+    notes: input.notes,
+    contacts: input.contacts.map((c) => {
+      const prev = c.id ? previous.get(c.id) : undefined;
+      const emailChanged = prev && (prev.email || "").toLowerCase() !== (c.email || "").toLowerCase();
+      return {
+        id: prev?.id || newId("admc"),
+        name: c.name,
+        role: c.role,
+        email: c.email,
+        phone: c.phone,
+        verified: c.verified,
+        rejected: c.rejected || undefined,
+        bouncedAt: emailChanged ? undefined : prev?.bouncedAt,
+        source: prev?.source || "manual",
+        confidence: c.verified ? 1 : prev?.confidence ?? 0.6,
+        lastSeenAt: prev?.lastSeenAt || now,
+      };
+    }),
+  };
+}
+
+export async function createAdministrator(input: AdministratorInput): Promise<PropertyAdministrator> {
+  const now = new Date().toISOString();
+  const admin: PropertyAdministrator = {
+    id: newId("adm"),
+    name: input.name,
+    aliases: [],
+    cvr: null,
+    domain: null,
+    website: null,
+    phone: null,
+    notes: null,
+    contacts: [],
+    properties: [],
+    createdAt: now,
+    updatedAt: now,
+    lastSeenAt: null,
+  };
+  return saveAdministrator(applyInput(admin, input));
+}
+
+export async function updateAdministrator(id: string, input: AdministratorInput): Promise<PropertyAdministrator | null> {
+  const existing = await getAdministrator(id);
+  if (!existing) return null;
+  return saveAdministrator(applyInput(existing, input));
+}
+
+export async function deleteAdministrator(id: string): Promise<boolean> {
+  if (!HAS_SUPABASE || !supabase) return memAdmins.delete(id);
+  const { error } = await supabase.from("property_administrators").delete().eq("id", id);
+  if (error) {
+    logger.error(`[administrators] delete error: ${error.message}`);
+    return false;
+  }
+  return true;
+}
+
+/** What research gets: dismissed and bounced contacts left out, verified first. */
+export function toDirectoryHit(admin: PropertyAdministrator): AdministratorDirectoryHit {
+  return {
+    id: admin.id,
+    name: admin.name,
+    cvr: admin.cvr,
+    domain: admin.domain,
+    contacts: admin.contacts
+      .filter((c) => !c.rejected && !c.bouncedAt)
+      .sort((a, b) => Number(b.verified) - Number(a.verified) || b.confidence - a.confidence)
+      .map((c) => ({ name: c.name, role: c.role, email: c.email, phone: c.phone, verified: c.verified })),
+    propertyCount: admin.properties.length,
+  };
+}
+
+/**
+ * Learn from a finished research run: the OIS administrator is
+ * added (or updated) with its CVR, domain, the administrator-side
+ * contacts and this property. Curated values are never overwritten
+ * and dismissed contacts are not learned again.
+ */
+export async function learnAdministratorFromResearch(
+  property: { ref: string; address: string; city?: string },
+  research: ResearchData,
+  analysis: ResearchAnalysis
+): Promise<PropertyAdministrator | null> {
+  const admins = research.oisData?.administrators || [];
+  const adminName = (admins.find((a) => a.isPrimary) || admins[0])?.name;
+  if (!adminName) return null;
+
+  try {
+    const key = administratorNameKey(adminName);
+    const cvrMatches = research.cvrData && administratorNameKey(research.cvrData.companyName) === key;
+    const cvr = cvrMatches ? research.cvrData!.cvr : research.administrator?.cvr || null;
+
+    const now = new Date().toISOString();
+    const admin: PropertyAdministrator =
+      (research.administrator && (await getAdministrator(research.administrator.id))) ||
+      (await findAdministrator({ name: adminName, cvr })) || {
+        id: newId("adm"),
+        name: adminName,
+        aliases: [],
+        cvr: null,
+        domain: null,
+        website: null,
+        phone: null,
+        notes: null,
+        contacts: [],
+        properties: [],
+        createdAt: now,
+        updatedAt: now,
+        lastSeenAt: null,
+      };
+
+    if (administratorNameKey(admin.name) !== key && !admin.aliases.some((a) => administratorNameKey(a) === key)) {
+      admin.aliases.push(adminName);
+    }
+    if (!admin.cvr && cvr) admin.cvr = cvr;
+    if (cvrMatches) {
+      const cvrData = research.cvrData!;
+      admin.website = admin.website || cvrData.website || null;
+      admin.domain = admin.domain || domainOf(cvrData.website);
+      admin.phone = admin.phone || cvrData.phone || null;
+    }
+
+    const adminLower = adminName.toLowerCase();
+    const belongsToAdmin = (c: ResearchAnalysis["recommendedContacts"][number]) =>
+      ADMIN_ROLE_PATTERN.test(String(c.role || "")) ||
+      (!!admin.domain && emailDomain(c.email) === admin.domain) ||
+      (c.source || "").toLowerCase().includes(adminLower);
+
+    for (const c of analysis.recommendedContacts.filter(belongsToAdmin)) {
+      const name = c.fullName?.trim();
+      if (!name || name.length < 3) continue;
+      // The company itself only counts as a contact when it comes with an address
+      if (!c.email && administratorNameKey(name) === key) continue;
+      const email = c.email?.trim().toLowerCase() || null;
+      const existing = admin.contacts.find(
+        (x) => (email && x.email?.toLowerCase() === email) || x.name.toLowerCase() === name.toLowerCase()
+      );
+      if (existing) {
+        if (existing.rejected) continue;
+        if (!existing.email && email) existing.email = email;
+        existing.phone = existing.phone || c.phone || null;
+        existing.confidence = Math.max(existing.confidence, c.confidence);
+        existing.lastSeenAt = now;
+        continue;
+      }
+      admin.contacts.push({
+        id: newId("admc"),
+        name,
+        role: c.role ? String(c.role) : null,
+        email,
+        phone: c.phone || null,
+        verified: false,
+        source: c.source || "research",
+        confidence: c.confidence,
+        lastSeenAt: now,
+      });
+    }
+
+    admin.properties = [
+      { ref: property.ref, address: property.address, city: property.city, seenAt: now },
+      ...admin.properties.filter((p) => p.ref !== property.ref),
+    ].slice(0, MAX_PROPERTIES);
+    admin.lastSeenAt = now;
+
+    return await saveAdministrator(admin);
+  } catch (e) {
+    logger.warn(`[administrators] learn from ${property.address} failed: ${e instanceof Error ? e.message : e}`, {
+      service: "administrators",
+    });
+    return null;
+  }
+}
+
+/**
+ * A contact email bounced: mark it on every administrator contact
+ * using it, so research stops offering it. Returns entries changed.
+ */
+export async function markAdministratorContactEmailBounced(email: string): Promise<number> {
+  const target = email.trim().toLowerCase();
+  const bouncedAt = new Date().toISOString();
+  let changed = 0;
+  for (const admin of await listAdministrators()) {
+    if (!admin.contacts.some((c) => c.email?.toLowerCase() === target && !c.bouncedAt)) continue;
+    admin.contacts = admin.contacts.map((c) =>
+      c.email?.toLowerCase() === target ? { ...c, verified: false, bouncedAt } : c
+    );
+    await saveAdministrator(admin);
+    changed++;
+  }
+  return changed;
+}
+
+/** Move a managed property to its new ref (property merge). Returns entries changed. */
+export async function reassignAdministratorProperty(fromRef: string, toRef: string): Promise<number> {
+  let changed = 0;
+  for (const admin of await listAdministrators()) {
+    if (!admin.properties.some((p) => p.ref === fromRef)) continue;
+    admin.properties = admin.properties.some((p) => p.ref === toRef)
+      ? admin.properties.filter((p) => p.ref !== fromRef)
+      : admin.properties.map((p) => (p.ref === fromRef ? { ...p, ref: toRef } : p));
+    await saveAdministrator(admin);
+    changed++;
+  }
+  return changed;
+}
@@ -0,0 +1,71 @@
+// ============================================================
+// Administrator Directory – shared types (client-safe)
+// ============================================================
+
+import { z } from "zod";
+
+export interface AdministratorContact {
+  id: string;
+  name: string;
+  role: string | null;
+  email: string | null;
+  phone: string | null;
+  /** Confirmed by a user; learned contacts start unverified. */
+  verified: boolean;
+  /** Dismissed by a user – kept so research doesn't learn it again. */
+  rejected?: boolean;
+  bouncedAt?: string;
+  source: string;
+  confidence: number;
+  lastSeenAt: string;
+}
+
+export interface ManagedProperty {
+  /** "hubspot:<id>" or "staged:<id>" */
+  ref: string;
+  address: string;
+  city?: string;
+  seenAt: string;
+}
+
+export interface PropertyAdministrator {
+  id: string;
+  name: string;
+  /** Other spellings, e.g. as the company appears in OIS. */
+  aliases: string[];
+  cvr: string | null;
+  domain: string | null;
+  website: string | null;
+  phone: string | null;
+  notes: string | null;
+  contacts: AdministratorContact[];
+  properties: ManagedProperty[];
+  createdAt: string;
+  updatedAt: string;
+  lastSeenAt: string | null;
+}
+
+const optionalText = (max: number) =>
+  z.string().trim().max(max).nullable().optional().transform((v) => v || null);
+
+export const administratorContactSchema = z.object({
+  id: z.string().optional(),
+  name: z.string().trim().min(1, "Navn mangler").max(120),
+  role: optionalText(80),
+  email: z.string().trim().email("Ugyldig email").nullable().optional().or(z.literal("")).transform((v) => v || null),
+  phone: optionalText(40),
+  verified: z.boolean().default(false),
+  rejected: z.boolean().optional(),
+});
+
+export const administratorInputSchema = z.object({
+  name: z.string().trim().min(2, "Navn mangler").max(160),
+  aliases: z.array(z.string().trim().min(2).max(160)).max(20).default([]),
+  cvr: z.string().trim().regex(/^\d{8}$/, "CVR skal være 8 cifre").nullable().optional().or(z.literal("")).transform((v) => v || null),
+  domain: optionalText(120),
+  website: optionalText(200),
+  phone: optionalText(40),
+  notes: optionalText(2000),
+  contacts: z.array(administratorContactSchema).max(100).default([]),
+});
+export type AdministratorInput = z.infer<typeof administratorInputSchema>;
@@ -1,9 +1,11 @@
 // ============================================================
 // BBR / DAWA – Danish Address & Building Data
 // Uses Dataforsyningen's free API (dawa.aws.dk as primary)
+// Building data is cached per address (see source-cache.ts)
 // ============================================================
 
 import { logger } from "../logger";
+import { addressCacheKey, viaCache, type ResearchSourceCache } from "./source-cache";
 import type { BbrResult } from "@/types";
 
 // Try dawa.aws.dk first (reliable DNS), fall back to api.dataforsyningen.dk
@@ -36,8 +38,27 @@ function normalizeCityForDawa(city: string): string {
  * Look up building data by address using DAWA + BBR.
  * Step 1: Find the address in DAWA to get adgangsadresse ID
  * Step 2: Use the ID to look up BBR building data
+ * Only results with actual building figures are cached.
  */
 export async function lookupBbr(
+  address: string,
+  postalCode: string,
+  city: string,
+  cache?: ResearchSourceCache
+): Promise<BbrResult | null> {
+  return viaCache(
+    cache,
+    "bbr",
+    addressCacheKey(address, postalCode),
+    () => fetchBbr(address, postalCode, city),
+    {
+      sourceUrl: `${DAWA_URLS[0]}/adresser?q=${encodeURIComponent(`${address}, ${postalCode}`)}`,
+      keep: (b) => !!(b.area || b.buildingYear || b.floors || b.units),
+    }
+  );
+}
+
+async function fetchBbr(
   address: string,
   postalCode: string,
   city: string
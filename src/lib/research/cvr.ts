@@ -7,6 +7,7 @@
 import { config } from "../config";
 import { logger } from "../logger";
 import { scoreCvrMatch, CVR_MATCH_THRESHOLD, type CvrCandidate } from "./validator";
+import { viaCache, type ResearchSourceCache } from "./source-cache";
 import type { CvrResult, CompanyPerson } from "@/types";
 
 async function fetchCvrWithRetry(url: string, headers: Record<string, string>, retries = 2): Promise<Response | null> {
@@ -41,6 +42,8 @@ export interface CvrLookupOptions {
   expectedKommune?: string;
   /** If true, return the match score and reasons alongside the result */
   returnScore?: boolean;
+  /** Research cache session; raw cvrapi.dk answers are reused per CVR/name */
+  cache?: ResearchSourceCache;
 }
 
 export interface CvrLookupResultWithScore {
@@ -136,7 +139,7 @@ export async function lookupCvrScored(
 ): Promise<CvrLookupResultWithScore> {
   // Normalize options
   const opts: CvrLookupOptions = expectedAddressOrOptions
-    ? ("strictNameMatch" in expectedAddressOrOptions || "searchedName" in expectedAddressOrOptions || "expectedKommune" in expectedAddressOrOptions)
+    ? ("strictNameMatch" in expectedAddressOrOptions || "searchedName" in expectedAddressOrOptions || "expectedKommune" in expectedAddressOrOptions || "cache" in expectedAddressOrOptions)
       ? expectedAddressOrOptions as CvrLookupOptions
       : { expectedAddress: expectedAddressOrOptions as { address?: string; postalCode?: string; city?: string } }
     : {};
@@ -151,15 +154,24 @@ export async function lookupCvrScored(
 
     const url = `${config.cvr.apiUrl}?${params}`;
 
-    const response = await fetchCvrWithRetry(url, { "User-Agent": config.cvr.userAgent });
-
-    if (!response || !response.ok) {
-      logger.warn(`CVR API returned ${response?.status ?? "no response"} for query: ${query}`, { service: "cvr" });
-      return { result: null, score: 0, reasons: [`HTTP ${response?.status ?? "timeout"}`] };
-    }
-
-    const data = await response.json();
-    if (!data || data.error) return { result: null, score: 0, reasons: ["API returned error or empty"] };
+    let failure = "API returned error or empty";
+    const data = await viaCache(
+      opts.cache,
+      "cvr",
+      isCvrNumber ? `cvr:${query.trim()}` : `name:${query.trim().toLowerCase()}`,
+      async () => {
+        const response = await fetchCvrWithRetry(url, { "User-Agent": config.cvr.userAgent });
+        if (!response || !response.ok) {
+          logger.warn(`CVR API returned ${response?.status ?? "no response"} for query: ${query}`, { service: "cvr" });
+          failure = `HTTP ${response?.status ?? "timeout"}`;
+          return null;
+        }
+        const json = await response.json();
+        return json && !json.error ? json : null;
+      },
+      { sourceUrl: url }
+    );
+    if (!data) return { result: null, score: 0, reasons: [failure] };
 
     const result: CvrResult = {
       cvr: data.vat?.toString() || "",
@@ -176,7 +188,7 @@ export async function lookupCvrScored(
       email: data.email || undefined,
       phone: data.phone ? String(data.phone) : undefined,
       website: data.companydomain || undefined,
-      rawData: data,
+      rawData: { ...data }, // copy: the cached answer may be shared within a research run
     };
 
     // ── For CVR number lookups, skip scoring (direct lookup) ──
@@ -371,7 +383,8 @@ export async function lookupProff(companyName: string): Promise<CvrResult | null
 export async function lookupCvrByAddress(
   address: string,
   city: string,
-  postalCode?: string
+  postalCode?: string,
+  cache?: ResearchSourceCache
 ): Promise<CvrResult | null> {
   const streetName = address.replace(/\s*\d+.*$/, "").trim();
   if (!streetName) return null;
@@ -388,6 +401,7 @@ export async function lookupCvrByAddress(
     expectedAddress: { address, city, postalCode },
     strictNameMatch: false,
     searchedName: address,
+    cache,
   };
 
   let bestCandidate: CvrLookupResultWithScore | null = null;
@@ -419,7 +433,8 @@ export async function lookupCvrBestMatch(
   ownerName: string,
   propertyAddress: string,
   propertyPostalCode: string,
-  propertyKommune?: string
+  propertyKommune?: string,
+  cache?: ResearchSourceCache
 ): Promise<CvrLookupResultWithScore> {
   // For housing associations and similar entities (andelsboligforening, ejerforening, A/B, E/F),
   // their CVR-registered address is ALWAYS the administrator's address — never the property itself.
@@ -432,6 +447,7 @@ export async function lookupCvrBestMatch(
     searchedName: ownerName,
     expectedAddress: { address: propertyAddress, postalCode: propertyPostalCode },
     expectedKommune: propertyKommune,
+    cache,
   });
 
   return scored;
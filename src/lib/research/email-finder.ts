@@ -4,6 +4,8 @@
 // ============================================================
 
 import { searchGoogle, scrapeWebsite } from "./web-scraper";
+import { findSuppression } from "../outreach/suppression-store";
+import { isFreeEmailDomain } from "../canonical-id";
 
 /** Progress callback */
 export type EmailFinderProgress = (event: {
@@ -94,7 +96,7 @@ export function extractCompanyDomain(
     const domain = email.split("@")[1]?.toLowerCase();
     if (!domain) continue;
     // Skip common free email providers
-    if (FREE_EMAIL_DOMAINS.has(domain)) continue;
+    if (isFreeEmailDomain(domain)) continue;
     domainCounts[domain] = (domainCounts[domain] || 0) + 1;
   }
 
@@ -105,7 +107,7 @@ export function extractCompanyDomain(
   if (websiteUrl) {
     try {
       const hostname = new URL(websiteUrl).hostname.replace(/^www\./, "");
-      if (!FREE_EMAIL_DOMAINS.has(hostname)) return hostname;
+      if (!isFreeEmailDomain(hostname)) return hostname;
     } catch { /* ignore */ }
   }
 
@@ -117,12 +119,6 @@ export function extractCompanyDomain(
   return null;
 }
 
-const FREE_EMAIL_DOMAINS = new Set([
-  "gmail.com", "yahoo.com", "hotmail.com", "outlook.com", "live.com",
-  "icloud.com", "me.com", "mail.com", "protonmail.com", "proton.me",
-  "hotmail.dk", "outlook.dk", "yahoo.dk", "jubii.dk",
-]);
-
 /** Strings that are NOT valid domains but might be returned by the LLM */
 const INVALID_DOMAIN_VALUES = new Set([
   "ukendt", "unknown", "null", "undefined", "ingen", "none", "n/a", "na",
@@ -231,7 +227,7 @@ export async function findEmailForPerson(opts: {
     for (const result of domainSearchResults) {
       try {
         const hostname = new URL(result.url).hostname.replace(/^www\./, "");
-        if (!FREE_EMAIL_DOMAINS.has(hostname) && isValidDomain(hostname)) {
+        if (!isFreeEmailDomain(hostname) && isValidDomain(hostname)) {
           // Check if the search result is actually about this company
           const text = `${result.title} ${result.snippet}`.toLowerCase();
           const companyLower = companyName.toLowerCase().replace(/\s*(a\/s|aps|i\/s|k\/s)\s*/gi, "").trim();
@@ -344,7 +340,7 @@ export async function findEmailForPerson(opts: {
   }
 
   // ── Strategy 4: Deep scrape company website if we have a valid domain ──
-  if (isValidDomain(domain) && !FREE_EMAIL_DOMAINS.has(domain)) {
+  if (isValidDomain(domain) && !isFreeEmailDomain(domain)) {
     emit({
       step: "deep_scrape",
       message: `Dyb-scraper firma-website: ${domain}`,
@@ -413,7 +409,19 @@ export async function findEmailForPerson(opts: {
   }
 
   // ── Deduplicate and rank candidates ──
-  const deduped = deduplicateCandidates(allCandidates);
+  // Addresses that bounced (or are blocked) are never suggested again
+  const deduped: EmailCandidate[] = [];
+  for (const candidate of deduplicateCandidates(allCandidates)) {
+    const blocked = await findSuppression(candidate.email);
+    if (!blocked) {
+      deduped.push(candidate);
+      continue;
+    }
+    emit({
+      step: "blocked",
+      message: `Springer ${candidate.email} over (${blocked.reason === "bounce" ? "tidligere bounce" : "blokeret"})`,
+    });
+  }
 
   // Boost confidence for candidates that match the person's name
   for (const candidate of deduped) {
@@ -13,7 +13,10 @@ import { lookupOis } from "./ois";
 import { lookupCvr, lookupCvrScored, lookupCvrByAddress, lookupCvrBestMatch, lookupProff } from "./cvr";
 import { lookupBbr } from "./bbr";
 import { scrapeCompanyWebsite, searchGoogle } from "./web-scraper";
+import { createResearchSourceCache, type RefreshSources } from "./source-cache";
 import { scrapeProffLeadership } from "../lead-sourcing/proff";
+import { findAdministrator, toDirectoryHit } from "./administrator-directory";
+import type { PropertyAdministrator } from "./administrator-types";
 import {
   classifyOwnership,
   getCvrStrategy,
@@ -30,6 +33,11 @@ export type ResearchProgressCallback = (event: {
   detail?: string;
 }) => void;
 
+export interface ResearchOptions {
+  /** Bypass the source cache for these sources (or all) */
+  refreshSources?: RefreshSources;
+}
+
 /**
  * Perform deep research for a property:
  * 0. OIS.dk – official ownership (THE primary source)
@@ -37,12 +45,16 @@ export type ResearchProgressCallback = (event: {
  * 2. CVR lookup with STRICT scoring
  * 3. BBR building data
  * 4. Targeted web search + scraping
+ * DAWA/OIS/BBR/CVR/search answers come from the source cache
+ * while fresh; `provenance` on the result tells which did.
  */
 export async function researchProperty(
   property: Property,
-  onProgress?: ResearchProgressCallback
+  onProgress?: ResearchProgressCallback,
+  options?: ResearchOptions
 ): Promise<ResearchData> {
   const emit = onProgress || (() => {});
+  const cache = createResearchSourceCache(options?.refreshSources);
 
   // ── Address fallback: If address is empty, try to parse from name ──
   if (!property.address && property.name) {
@@ -101,9 +113,10 @@ export async function researchProperty(
       property.address,
       property.postalCode,
       property.city,
-      (event) => emit({ step: event.step, message: event.message, detail: event.detail })
+      (event) => emit({ step: event.step, message: event.message, detail: event.detail }),
+      cache
     ),
-    lookupBbr(property.address, property.postalCode, property.city),
+    lookupBbr(property.address, property.postalCode, property.city, cache),
   ]);
 
   if (bbrData) {
@@ -117,6 +130,7 @@ export async function researchProperty(
 
   let oisOwnerName: string | null = null;
   let oisAdminName: string | null = null;
+  let administrator: PropertyAdministrator | null = null;
   let ownershipType: OwnershipType = "ukendt";
 
   if (oisData) {
@@ -140,6 +154,20 @@ export async function researchProperty(
           : undefined,
       });
     }
+    if (oisAdminName) {
+      // Known administrators are reused instead of rediscovered
+      administrator = await findAdministrator({ name: oisAdminName }).catch(() => null);
+      if (administrator) {
+        const usable = toDirectoryHit(administrator).contacts;
+        emit({
+          step: "ois_admin",
+          message: `📒 Administrator-katalog: ${administrator.name} – ${usable.length} kontakter, ${administrator.properties.length} ejendomme`,
+          detail: usable.length > 0
+            ? usable.slice(0, 5).map(c => `${c.name}${c.email ? ` <${c.email}>` : ""}${c.verified ? " ✓" : ""}`).join(", ")
+            : undefined,
+        });
+      }
+    }
 
     // ── CLASSIFY OWNERSHIP TYPE ──
     ownershipType = classifyOwnership(
@@ -232,7 +260,8 @@ export async function researchProperty(
           variant,
           property.address,
           property.postalCode,
-          oisData?.kommune || undefined
+          oisData?.kommune || undefined,
+          cache
         );
         if (scored.result && scored.score > bestScored.score) {
           bestScored = scored;
@@ -267,7 +296,11 @@ export async function researchProperty(
       }
     }
 
-    // Priority 2: OIS administrator
+    // Priority 2: OIS administrator (directory CVR first, then strict name search)
+    if (!cvrData && oisAdminName && oisAdminName !== oisOwnerName && administrator?.cvr) {
+      cvrData = await lookupCvr(administrator.cvr, { cache });
+      if (cvrData) emit({ step: "cvr", message: `CVR administrator via katalog: ${cvrData.companyName} (CVR ${cvrData.cvr})` });
+    }
     if (!cvrData && oisAdminName && oisAdminName !== oisOwnerName) {
       emit({
         step: "cvr",
@@ -278,6 +311,7 @@ export async function researchProperty(
         searchedName: oisAdminName,
         expectedAddress: { address: property.address, postalCode: property.postalCode, city: property.city },
         expectedKommune: oisData?.kommune || undefined,
+        cache,
       });
       if (scored.result && scored.score >= 35) {
         cvrData = scored.result;
@@ -290,7 +324,7 @@ export async function researchProperty(
 
     // Priority 3: Existing CVR number on property
     if (!cvrData && property.ownerCompanyCvr) {
-      cvrData = await lookupCvr(property.ownerCompanyCvr);
+      cvrData = await lookupCvr(property.ownerCompanyCvr, { cache });
       if (cvrData) emit({ step: "cvr", message: `CVR via CVR-nr: ${cvrData.companyName}` });
     }
 
@@ -299,6 +333,7 @@ export async function researchProperty(
       const scored = await lookupCvrScored(property.ownerCompanyName, {
         expectedAddress: { address: property.address, postalCode: property.postalCode, city: property.city },
         searchedName: property.ownerCompanyName,
+        cache,
       });
       if (scored.result && scored.score >= 35) {
         cvrData = scored.result;
@@ -313,7 +348,7 @@ export async function researchProperty(
         step: "cvr",
         message: "Søger efter ejerforening/andelsforening på adressen...",
       });
-      cvrData = await lookupCvrByAddress(property.address, property.city, property.postalCode);
+      cvrData = await lookupCvrByAddress(property.address, property.city, property.postalCode, cache);
       if (cvrData) {
         emit({ step: "cvr", message: `CVR via adressesøgning: ${cvrData.companyName}` });
       }
@@ -379,7 +414,7 @@ export async function researchProperty(
       detail: `Søgning ${i + 1}–${Math.min(i + SEARCH_CONCURRENCY, searchQueries.length)} af ${searchQueries.length}`,
     });
 
-    const batchResults = await Promise.all(batch.map(q => searchGoogle(q, 4)));
+    const batchResults = await Promise.all(batch.map(q => searchGoogle(q, 4, cache)));
     for (let j = 0; j < batch.length; j++) {
       const results = batchResults[j];
       allSearchResults.push(...results);
@@ -496,6 +531,18 @@ export async function researchProperty(
     emit({ step: "scrape_done", message: "Ingen websites kunne scrapes" });
   }
 
+  const provenance = cache.provenance;
+  const cachedCount = provenance.filter(p => p.fromCache).length;
+  if (provenance.length > 0) {
+    emit({
+      step: "sources",
+      message: `Kilder: ${cachedCount} fra cache, ${provenance.length - cachedCount} hentet nu`,
+      detail: provenance
+        .map(p => `${p.source} ${p.key}: ${p.fromCache ? `cache (${new Date(p.fetchedAt).toLocaleDateString("da-DK")})` : "live"}`)
+        .join("\n"),
+    });
+  }
+
   emit({
     step: "complete",
     message: "Research afsluttet",
@@ -509,6 +556,8 @@ export async function researchProperty(
     companySearchResults: relevantResults,
     websiteContent: mergedWebsite,
     proffLeadership: proffLeadership.length > 0 ? proffLeadership : undefined,
+    provenance,
+    administrator: administrator ? toDirectoryHit(administrator) : undefined,
   };
 }
 
@@ -654,4 +703,5 @@ function deduplicateResults(results: WebSearchResult[]): WebSearchResult[] {
 export { lookupOis } from "./ois";
 export { lookupCvr, lookupCvrByAddress, lookupProff, lookupCvrBestMatch } from "./cvr";
 export { lookupBbr } from "./bbr";
+export { createResearchSourceCache, RESEARCH_SOURCES, RESEARCH_SOURCE_TTL_DAYS, type RefreshSources } from "./source-cache";
 export { scrapeWebsite, scrapeCompanyWebsite, searchGoogle } from "./web-scraper";
@@ -8,9 +8,12 @@
 //   4. OIS api/ejer/get?bfe={bfe} → get owner + administrator
 //
 // Fallback: web search to find BFE in OIS.dk URLs
+// DAWA (per address) and OIS (per BFE) answers go through the
+// research source cache when the caller passes a session.
 // ============================================================
 
 import { searchGoogle } from "./web-scraper";
+import { addressCacheKey, viaCache, type ResearchSourceCache } from "./source-cache";
 import { logger } from "../logger";
 
 /** OIS lookup result with owner and administrator data */
@@ -76,7 +79,8 @@ export async function lookupOis(
   address: string,
   postalCode: string,
   city?: string,
-  onProgress?: OisProgressCallback
+  onProgress?: OisProgressCallback,
+  cache?: ResearchSourceCache
 ): Promise<OisResult | null> {
   const emit = onProgress || (() => {});
 
@@ -87,7 +91,7 @@ export async function lookupOis(
     });
 
     // ── Step 1: Get BFE number + kommune from DAWA ──
-    const dawaResult = await findBfeViaDawa(address, postalCode, city, emit);
+    const dawaResult = await lookupBfeViaDawa(address, postalCode, city, cache, emit);
     let bfe = dawaResult.bfe;
     const dawaKommuneNavn = dawaResult.kommuneNavn;
 
@@ -97,7 +101,7 @@ export async function lookupOis(
         step: "ois_bfe_fallback",
         message: "OIS: DAWA-metode fandt ikke BFE – prøver websøgning...",
       });
-      bfe = await findBfeViaWebSearch(address, postalCode, city, emit);
+      bfe = await findBfeViaWebSearch(address, postalCode, city, emit, cache);
     }
 
     if (!bfe) {
@@ -114,20 +118,28 @@ export async function lookupOis(
       detail: `https://ois.dk/search/${bfe}`,
     });
 
-    // ── Step 2: Get owner + administrator ──
+    // ── Step 2+3: Owner + administrator and general info (cached per BFE) ──
     emit({
       step: "ois_ejer",
       message: "OIS: Henter ejer- og administratordata...",
     });
 
-    const ownerData = await getOwnerAndAdmin(bfe);
-    if (!ownerData) {
+    const foundBfe = bfe;
+    const oisRecord = await viaCache(
+      cache,
+      "ois",
+      `bfe:${foundBfe}`,
+      async () => {
+        const owners = await getOwnerAndAdmin(foundBfe);
+        return owners ? { ownerData: owners, generalInfo: await getGeneralInfo(foundBfe) } : null;
+      },
+      { sourceUrl: `https://ois.dk/search/${foundBfe}` }
+    );
+    if (!oisRecord) {
       emit({ step: "ois_ejer", message: "OIS: Ejerdata ikke tilgængelig" });
       return null;
     }
-
-    // ── Step 3: General info (optional) ──
-    const generalInfo = await getGeneralInfo(bfe);
+    const { ownerData, generalInfo } = oisRecord;
 
     // Prefer DAWA kommune name (clean "København") over OIS kommunenavn_kode ("0101 København")
     const kommuneResolved = dawaKommuneNavn || generalInfo?.kommunenavn_kode || undefined;
@@ -171,12 +183,35 @@ export async function lookupOis(
 // BFE Discovery – Primary: DAWA chain, Fallback: web search
 // ═══════════════════════════════════════════════════════════════
 
-interface DawaBfeResult {
+export interface DawaBfeResult {
   bfe: number | null;
   kommuneNavn: string | null;
   kommuneKode: string | null;
 }
 
+/**
+ * BFE number + kommune for an address via DAWA, through the
+ * research source cache. Also used by the cross-pipeline dedupe.
+ */
+export async function lookupBfeViaDawa(
+  address: string,
+  postalCode: string,
+  city?: string,
+  cache?: ResearchSourceCache,
+  onProgress?: OisProgressCallback
+): Promise<DawaBfeResult> {
+  return (await viaCache(
+    cache,
+    "dawa",
+    addressCacheKey(address, postalCode),
+    () => findBfeViaDawa(address, postalCode, city, onProgress || (() => {})),
+    {
+      sourceUrl: `${DAWA_URLS[0]}/adresser?q=${encodeURIComponent(`${address}, ${postalCode}`)}`,
+      keep: (r) => r.bfe !== null,
+    }
+  )) ?? { bfe: null, kommuneNavn: null, kommuneKode: null };
+}
+
 /**
  * RELIABLE BFE discovery via DAWA:
  *   adresser search → adgangsadresseid
@@ -324,7 +359,8 @@ async function findBfeViaWebSearch(
   address: string,
   postalCode: string,
   city: string | undefined,
-  emit: OisProgressCallback
+  emit: OisProgressCallback,
+  cache?: ResearchSourceCache
 ): Promise<number | null> {
   try {
     const queries = [
@@ -335,7 +371,7 @@ async function findBfeViaWebSearch(
     for (const query of queries) {
       emit({ step: "ois_websearch", message: `OIS websøgning: "${query}"` });
 
-      const results = await searchGoogle(query, 5);
+      const results = await searchGoogle(query, 5, cache);
 
       for (const result of results) {
         // Extract BFE from OIS.dk URLs
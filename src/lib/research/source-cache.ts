@@ -0,0 +1,149 @@
+// ============================================================
+// Research Source Cache – raw responses per source with TTLs
+//
+// DAWA, OIS, BBR, cvrapi.dk and SearchAPI answers are stored in
+// research_artifacts keyed by BFE / CVR / address / query, so a
+// re-research of the same property reuses data that rarely
+// changes. Each research run gets its own session which records
+// provenance (fetch time, source URL, cache hit or live) and can
+// force a refresh of selected sources. Misses are never cached.
+// ============================================================
+
+import { supabase, HAS_SUPABASE } from "../supabase";
+import { logger } from "../logger";
+import { canonicalKey } from "../canonical-id";
+import type { ResearchSource, ResearchSourceProvenance } from "@/types";
+
+export const RESEARCH_SOURCES: ResearchSource[] = ["dawa", "ois", "bbr", "cvr", "web_search"];
+
+/** How long a cached response is trusted, per source. */
+export const RESEARCH_SOURCE_TTL_DAYS: Record<ResearchSource, number> = {
+  dawa: 180,
+  bbr: 180,
+  ois: 30,
+  cvr: 30,
+  web_search: 7,
+};
+
+/** Sources to bypass the cache for in a run. */
+export type RefreshSources = ResearchSource[] | "all";
+
+export interface CachedFetchOptions<T> {
+  sourceUrl?: string | null;
+  /** Only store values that pass; defaults to every non-null value. */
+  keep?: (value: T) => boolean;
+}
+
+export interface ResearchSourceCache {
+  fetch<T>(source: ResearchSource, key: string, fetcher: () => Promise<T | null>, opts?: CachedFetchOptions<T>): Promise<T | null>;
+  /** One entry per source/key used in this run. */
+  readonly provenance: ResearchSourceProvenance[];
+}
+
+/** Accept "all" or a list of known sources from a request body. */
+export function parseRefreshSources(input: unknown): RefreshSources {
+  if (input === "all") return "all";
+  if (!Array.isArray(input)) return [];
+  return RESEARCH_SOURCES.filter((s) => input.includes(s));
+}
+
+/** Cache key for address-based lookups (DAWA, BBR). */
+export function addressCacheKey(address: string, postalCode?: string): string {
+  return canonicalKey(`${address} ${postalCode || ""}`);
+}
+
+async function readArtifact(
+  source: ResearchSource,
+  key: string
+): Promise<{ value: unknown; sourceUrl: string | null; fetchedAt: string } | null> {
+  if (!HAS_SUPABASE || !supabase) return null;
+  const cutoff = new Date(Date.now() - RESEARCH_SOURCE_TTL_DAYS[source] * 86_400_000).toISOString();
+  try {
+    const { data, error } = await supabase
+      .from("research_artifacts")
+      .select("value, source_url, fetched_at")
+      .eq("source", source)
+      .eq("cache_key", key)
+      .gte("fetched_at", cutoff)
+      .maybeSingle();
+    if (error) throw error;
+    if (!data) return null;
+    return {
+      value: data.value,
+      sourceUrl: data.source_url ? String(data.source_url) : null,
+      fetchedAt: String(data.fetched_at),
+    };
+  } catch (err) {
+    logger.warn(`[research-cache] read ${source}/${key} error: ${err instanceof Error ? err.message : err}`);
+    return null;
+  }
+}
+
+async function writeArtifact(source: ResearchSource, key: string, value: unknown, sourceUrl: string | null, fetchedAt: string): Promise<void> {
+  if (!HAS_SUPABASE || !supabase) return;
+  try {
+    const { error } = await supabase
+      .from("research_artifacts")
+      .upsert({ source, cache_key: key, value, source_url: sourceUrl, fetched_at: fetchedAt }, { onConflict: "source,cache_key" });
+    if (error) throw error;
+  } catch (err) {
+    logger.warn(`[research-cache] write ${source}/${key} error: ${err instanceof Error ? err.message : err}`);
+  }
+}
+
+/**
+ * Start a cache session for one research run. Identical lookups
+ * within the run share a single fetch.
+ */
+export function createResearchSourceCache(refresh: RefreshSources = []): ResearchSourceCache {
+  const inflight = new Map<string, Promise<unknown>>();
+  const provenance = new Map<string, ResearchSourceProvenance>();
+  const bypass = (source: ResearchSource) => refresh === "all" || refresh.includes(source);
+
+  async function resolve<T>(
+    source: ResearchSource,
+    key: string,
+    fetcher: () => Promise<T | null>,
+    opts: CachedFetchOptions<T>
+  ): Promise<T | null> {
+    const id = `${source}:${key}`;
+    if (!bypass(source)) {
+      const hit = await readArtifact(source, key);
+      if (hit) {
+        provenance.set(id, { source, key, sourceUrl: hit.sourceUrl, fetchedAt: hit.fetchedAt, fromCache: true });
+        return hit.value as T;
+      }
+    }
+
+    const value = await fetcher();
+    if (value === null || (opts.keep && !opts.keep(value))) return value;
+
+    const fetchedAt = new Date().toISOString();
+    const sourceUrl = opts.sourceUrl ?? null;
+    provenance.set(id, { source, key, sourceUrl, fetchedAt, fromCache: false });
+    await writeArtifact(source, key, value, sourceUrl, fetchedAt);
+    return value;
+  }
+
+  return {
+    fetch<T>(source: ResearchSource, key: string, fetcher: () => Promise<T | null>, opts: CachedFetchOptions<T> = {}) {
+      const id = `${source}:${key}`;
+      if (!inflight.has(id)) inflight.set(id, resolve(source, key, fetcher, opts));
+      return inflight.get(id) as Promise<T | null>;
+    },
+    get provenance() {
+      return [...provenance.values()];
+    },
+  };
+}
+
+/** Go through the cache when the caller has a session, otherwise fetch directly. */
+export function viaCache<T>(
+  cache: ResearchSourceCache | undefined,
+  source: ResearchSource,
+  key: string,
+  fetcher: () => Promise<T | null>,
+  opts?: CachedFetchOptions<T>
+): Promise<T | null> {
+  return cache ? cache.fetch(source, key, fetcher, opts) : fetcher();
+}
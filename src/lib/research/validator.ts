@@ -160,6 +160,11 @@ export function collectAllowedEmails(research: ResearchData): Set<string> {
     }
   }
 
+  // From the administrator directory
+  for (const c of research.administrator?.contacts || []) {
+    if (c.email) allowed.add(c.email.toLowerCase());
+  }
+
   // From search result snippets (if they contain emails)
   for (const result of research.companySearchResults) {
     const emailRegex = /[a-zA-Z0-9._%+\-]+@[a-zA-Z0-9.\-]+\.[a-zA-Z]{2,}/g;
@@ -190,6 +195,9 @@ export function collectKnownNames(research: ResearchData): Set<string> {
     for (const o of research.cvrData.owners) names.add(o.toLowerCase());
   }
 
+  // From the administrator directory
+  for (const c of research.administrator?.contacts || []) names.add(c.name.toLowerCase());
+
   // From website content
   if (research.websiteContent?.names) {
     for (const n of research.websiteContent.names) names.add(n.toLowerCase());
@@ -5,6 +5,7 @@
 import * as cheerio from "cheerio";
 import { logger } from "../logger";
 import { config } from "../config";
+import { viaCache, type ResearchSourceCache } from "./source-cache";
 import type { WebsiteContent, WebSearchResult, CompanyPerson } from "@/types";
 
 const MAX_TEXT_LENGTH = 5000;
@@ -247,11 +248,24 @@ export async function scrapeCompanyWebsite(
 /**
  * Search using SearchAPI.io (Google backend) — works reliably on Vercel.
  * Falls back to DuckDuckGo HTML scraping if no API key is configured.
+ * Non-empty result lists are cached per query when a session is passed.
  */
 export async function searchGoogle(
   query: string,
-  numResults = 5
+  numResults = 5,
+  cache?: ResearchSourceCache
 ): Promise<WebSearchResult[]> {
+  const results = await viaCache(
+    cache,
+    "web_search",
+    `q:${query.trim().toLowerCase()}|${numResults}`,
+    () => searchUncached(query, numResults),
+    { sourceUrl: `https://www.google.com/search?q=${encodeURIComponent(query)}`, keep: (r) => r.length > 0 }
+  );
+  return results ?? [];
+}
+
+async function searchUncached(query: string, numResults: number): Promise<WebSearchResult[]> {
   const apiKey = config.searchApi.apiKey();
 
   if (apiKey) {
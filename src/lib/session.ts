@@ -29,6 +29,11 @@ async function hmacSign(message: string, secret: string): Promise<string> {
     .join("");
 }
 
+/** HMAC signature of an arbitrary payload with the app secret (for signed public links). */
+export async function signPayload(payload: string): Promise<string> {
+  return hmacSign(payload, getSecret());
+}
+
 export async function createSessionToken(): Promise<string> {
   const expiresAt = Date.now() + SESSION_TTL_MS;
   const payload = String(expiresAt);
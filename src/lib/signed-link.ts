@@ -0,0 +1,26 @@
+import { timingSafeEqual } from "crypto";
+import { signPayload } from "@/lib/session";
+
+/**
+ * Signatures for public links (tilbud accept, unsubscribe). The
+ * payload is signed together with a purpose tag, so a token issued
+ * for one link type never validates as another – or as a session.
+ * Node only (the session helpers themselves also run on Edge).
+ */
+
+export type SignedLinkPurpose = "tilbud-accept" | "unsub";
+
+export function signLinkPayload(purpose: SignedLinkPurpose, payload: string): Promise<string> {
+  return signPayload(`${purpose}:${payload}`);
+}
+
+/** Constant-time check of a link signature. */
+export async function verifyLinkSignature(purpose: SignedLinkPurpose, payload: string, sig: string): Promise<boolean> {
+  return signaturesMatch(sig, await signLinkPayload(purpose, payload));
+}
+
+function signaturesMatch(actual: string, expected: string): boolean {
+  const a = Buffer.from(actual);
+  const b = Buffer.from(expected);
+  return a.length === b.length && timingSafeEqual(a, b);
+}
@@ -20,6 +20,8 @@ export interface StagedContactEntry {
   confidence: number;
   relevance?: string;
   relevanceReason?: string;
+  /** Set when a mail to `email` bounced; confidence is dropped to 0. */
+  bouncedAt?: string;
 }
 
 export interface StagedProperty {
@@ -330,3 +332,46 @@ export async function getStagedCounts(): Promise<Record<StagedStage, number>> {
   }
   return counts;
 }
+
+/**
+ * A contact email bounced: drop its confidence to 0 in every staged
+ * contact list and clear it where it is the primary contact email.
+ * Returns the number of staged properties changed.
+ */
+export async function markStagedContactEmailBounced(email: string): Promise<number> {
+  if (!HAS_SUPABASE) return 0;
+  const target = email.trim().toLowerCase();
+
+  // contacts is stored both as jsonb arrays and as JSON strings, so match in code
+  const { data, error } = await supabase!
+    .from("staged_properties")
+    .select("id, contact_email, contacts")
+    .neq("stage", "rejected")
+    .limit(5000);
+  if (error) {
+    logger.error(`[staging] bounce lookup error: ${error.message}`, { service: "staging" });
+    return 0;
+  }
+
+  const bouncedAt = new Date().toISOString();
+  let changed = 0;
+  for (const r of data || []) {
+    const contacts = parseContactsJson(r.contacts) || [];
+    const hit = contacts.some((c) => c.email?.toLowerCase() === target);
+    const isPrimary = String(r.contact_email || "").toLowerCase() === target;
+    if (!hit && !isPrimary) continue;
+
+    await updateStagedProperty(String(r.id), {
+      ...(hit
+        ? {
+            contacts: JSON.stringify(
+              contacts.map((c) => (c.email?.toLowerCase() === target ? { ...c, confidence: 0, bouncedAt } : c))
+            ),
+          }
+        : {}),
+      ...(isPrimary ? { contactEmail: "" } : {}),
+    });
+    changed++;
+  }
+  return changed;
+}
@@ -53,6 +53,13 @@ export const TRANSITIONS: StateTransition[] = [
     label: "Research failed",
     automatic: true,
   },
+  {
+    from: "RESEARCH_DONE_CONTACT_PENDING",
+    to: "FEJL",
+    action: "research_failed",
+    label: "Research failed (after owner lookup)",
+    automatic: true,
+  },
 
   // ── Re-research ──
   {
@@ -76,8 +83,37 @@ export const TRANSITIONS: StateTransition[] = [
     label: "Re-research",
     automatic: false,
   },
+  {
+    from: "FOERSTE_MAIL_SENDT",
+    to: "RESEARCH_IGANGSAT",
+    action: "retry_research",
+    label: "Re-research after first email",
+    automatic: false,
+  },
+  {
+    from: "OPFOELGNING_SENDT",
+    to: "RESEARCH_IGANGSAT",
+    action: "retry_research",
+    label: "Re-research after follow-up",
+    automatic: false,
+  },
+  {
+    from: "SVAR_MODTAGET",
+    to: "RESEARCH_IGANGSAT",
+    action: "retry_research",
+    label: "Re-research after reply",
+    automatic: false,
+  },
 
   // ── Outreach phase ──
+  {
+    from: "RESEARCH_DONE_CONTACT_PENDING",
+    to: "KLAR_TIL_UDSENDELSE",
+    action: "mark_ready",
+    label: "Push to pipeline",
+    automatic: false,
+    requires: ["has_contact_email"],
+  },
   {
     from: "KLAR_TIL_UDSENDELSE",
     to: "FOERSTE_MAIL_SENDT",
@@ -86,6 +122,13 @@ export const TRANSITIONS: StateTransition[] = [
     automatic: false, // Requires approval (autonomy level ≤ 1)
     requires: ["has_contact_email", "has_email_draft"],
   },
+  {
+    from: "KLAR_TIL_UDSENDELSE",
+    to: "FEJL",
+    action: "send_failed",
+    label: "Sending failed",
+    automatic: true,
+  },
   {
     from: "FOERSTE_MAIL_SENDT",
     to: "OPFOELGNING_SENDT",
@@ -109,6 +152,22 @@ export const TRANSITIONS: StateTransition[] = [
     automatic: false,
   },
 
+  // ── Bounce: the address was wrong, find another ──
+  {
+    from: "FOERSTE_MAIL_SENDT",
+    to: "RESEARCH_DONE_CONTACT_PENDING",
+    action: "email_bounced",
+    label: "Email bounced – find new contact",
+    automatic: true,
+  },
+  {
+    from: "OPFOELGNING_SENDT",
+    to: "RESEARCH_DONE_CONTACT_PENDING",
+    action: "email_bounced",
+    label: "Email bounced – find new contact",
+    automatic: true,
+  },
+
   // ── Closing ──
   {
     from: "SVAR_MODTAGET",
@@ -301,7 +360,7 @@ export function validateTransition(
   if (!transition) {
     return {
       valid: false,
-      reason: `Transition from ${from} to ${to} is not allowed`,
+      reason: `Statusskift fra "${STATUS_META[from]?.label || from}" til "${STATUS_META[to]?.label || to}" er ikke tilladt`,
     };
   }
 
@@ -309,13 +368,13 @@ export function validateTransition(
   if (transition.requires?.includes("has_contact_email") && !context?.hasContactEmail) {
     return {
       valid: false,
-      reason: "Requires a contact email address",
+      reason: `"${transition.label}" kræver en kontakt-email på ejendommen`,
     };
   }
   if (transition.requires?.includes("has_email_draft") && !context?.hasEmailDraft) {
     return {
       valid: false,
-      reason: "Requires an email draft",
+      reason: `"${transition.label}" kræver et email-udkast på ejendommen`,
     };
   }
 
@@ -358,6 +417,8 @@ export function isActionAllowed(
     case "research_done_no_email":
     case "research_done_with_email":
     case "research_failed":
+    case "send_failed":
+    case "email_bounced":
       return true;
     default:
       return false;
@@ -0,0 +1,75 @@
+import { supabase, HAS_SUPABASE } from "@/lib/supabase";
+import { logger } from "@/lib/logger";
+import type { AcceptanceDecision, TilbudAcceptance } from "./acceptance-types";
+
+function rowToAcceptance(row: Record<string, unknown>): TilbudAcceptance {
+  return {
+    id: String(row.id),
+    tilbudId: String(row.tilbud_id || ""),
+    revision: Number(row.revision || 0),
+    decision: (row.decision as AcceptanceDecision) || "rejected",
+    signerName: String(row.signer_name || ""),
+    signerTitle: String(row.signer_title || ""),
+    comment: String(row.comment || ""),
+    ip: String(row.ip || ""),
+    userAgent: String(row.user_agent || ""),
+    caseId: String(row.case_id || ""),
+    createdAt: String(row.created_at || new Date().toISOString()),
+  };
+}
+
+/** Latest customer response for a tilbud, if any. */
+export async function getTilbudAcceptance(tilbudId: string): Promise<TilbudAcceptance | undefined> {
+  if (!HAS_SUPABASE || !supabase) return undefined;
+  try {
+    const { data, error } = await supabase
+      .from("tilbud_acceptances")
+      .select("*")
+      .eq("tilbud_id", tilbudId)
+      .order("created_at", { ascending: false })
+      .limit(1)
+      .maybeSingle();
+    if (error) throw error;
+    return data ? rowToAcceptance(data) : undefined;
+  } catch (err) {
+    logger.error(`[tilbud-acceptance] get error: ${err instanceof Error ? err.message : err}`);
+    return undefined;
+  }
+}
+
+/**
+ * Insert the customer's answer. Returns null when the tilbud already
+ * has one – UNIQUE(tilbud_id) decides, so concurrent answers can't
+ * both get through.
+ */
+export async function insertTilbudAcceptance(
+  input: Omit<TilbudAcceptance, "id" | "createdAt">
+): Promise<TilbudAcceptance | null> {
+  if (!HAS_SUPABASE || !supabase) throw new Error("Supabase is not configured");
+  const { data, error } = await supabase
+    .from("tilbud_acceptances")
+    .insert({
+      id: `accept-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+      tilbud_id: input.tilbudId,
+      revision: input.revision,
+      decision: input.decision,
+      signer_name: input.signerName,
+      signer_title: input.signerTitle,
+      comment: input.comment,
+      ip: input.ip,
+      user_agent: input.userAgent,
+      case_id: input.caseId,
+    })
+    .select("*")
+    .single();
+  if (error?.code === "23505") return null;
+  if (error) throw new Error(error.message);
+  return rowToAcceptance(data);
+}
+
+/** Link the case created after the answer was recorded. */
+export async function setTilbudAcceptanceCase(id: string, caseId: string): Promise<void> {
+  if (!HAS_SUPABASE || !supabase) return;
+  const { error } = await supabase.from("tilbud_acceptances").update({ case_id: caseId }).eq("id", id);
+  if (error) logger.error(`[tilbud-acceptance] case link error: ${error.message}`);
+}
@@ -0,0 +1,52 @@
+import { signLinkPayload, verifyLinkSignature } from "@/lib/signed-link";
+import type { Tilbud } from "./types";
+
+/**
+ * Signed public link for a customer to accept/reject a final tilbud.
+ * Token = base64url({ t: tilbudId, r: revision, e: expiresAt }) + "." +
+ * HMAC("tilbud-accept:" + payload), so no link table is needed. The
+ * link expires at the end of the tilbud's validUntil day and only
+ * covers the revision that was sent.
+ */
+
+export type AcceptanceTokenResult =
+  | { valid: true; tilbudId: string; revision: number; expiresAt: number }
+  | { valid: false; reason: "invalid" | "expired"; tilbudId?: string };
+
+/** End of the validUntil day (local time), or null if the date is missing/invalid. */
+export function acceptanceExpiry(validUntil: string): number | null {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(validUntil || "")) return null;
+  const ts = new Date(`${validUntil}T23:59:59`).getTime();
+  return Number.isNaN(ts) ? null : ts;
+}
+
+export async function createAcceptanceToken(tilbud: Tilbud, revision: number): Promise<string> {
+  const expiresAt = acceptanceExpiry(tilbud.validUntil);
+  if (expiresAt == null) throw new Error("Tilbuddet mangler en gyldig 'Gyldig til'-dato");
+  const payload = Buffer.from(JSON.stringify({ t: tilbud.id, r: revision, e: expiresAt })).toString("base64url");
+  const sig = await signLinkPayload("tilbud-accept", payload);
+  return `${payload}.${sig}`;
+}
+
+export async function verifyAcceptanceToken(token: string | undefined | null): Promise<AcceptanceTokenResult> {
+  if (!token) return { valid: false, reason: "invalid" };
+  const dot = token.indexOf(".");
+  if (dot < 1) return { valid: false, reason: "invalid" };
+
+  const payload = token.substring(0, dot);
+  const sig = token.substring(dot + 1);
+  if (!(await verifyLinkSignature("tilbud-accept", payload, sig))) return { valid: false, reason: "invalid" };
+
+  let parsed: { t?: unknown; r?: unknown; e?: unknown };
+  try {
+    parsed = JSON.parse(Buffer.from(payload, "base64url").toString("utf-8"));
+  } catch {
+    return { valid: false, reason: "invalid" };
+  }
+  const tilbudId = typeof parsed.t === "string" ? parsed.t : "";
+  const revision = Number(parsed.r);
+  const expiresAt = Number(parsed.e);
+  if (!tilbudId || !Number.isInteger(revision) || !Number.isFinite(expiresAt)) return { valid: false, reason: "invalid" };
+  if (Date.now() >= expiresAt) return { valid: false, reason: "expired", tilbudId };
+  return { valid: true, tilbudId, revision, expiresAt };
+}
@@ -0,0 +1,33 @@
+import { z } from "zod";
+
+export const acceptanceDecisionSchema = z.enum(["accepted", "rejected"]);
+export type AcceptanceDecision = z.infer<typeof acceptanceDecisionSchema>;
+
+/** What the customer submits on the public acceptance page. */
+export const acceptanceResponseInputSchema = z.object({
+  token: z.string().min(1, "Link mangler"),
+  decision: acceptanceDecisionSchema,
+  signerName: z.string().trim().min(1, "Udfyld dit navn"),
+  signerTitle: z.string().trim().optional().default(""),
+  comment: z.string().trim().max(2000).optional().default(""),
+});
+
+export type AcceptanceResponseInput = z.infer<typeof acceptanceResponseInputSchema>;
+
+/**
+ * Audit record of a customer's answer to a tilbud. Append-only — one
+ * row per response, tied to the revision the customer was looking at.
+ */
+export interface TilbudAcceptance {
+  id: string;
+  tilbudId: string;
+  revision: number;
+  decision: AcceptanceDecision;
+  signerName: string;
+  signerTitle: string;
+  comment: string;
+  ip: string;
+  userAgent: string;
+  caseId: string;            // case created on acceptance ("" on reject)
+  createdAt: string;
+}
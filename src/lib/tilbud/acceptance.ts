@@ -0,0 +1,246 @@
+import { config } from "@/lib/config";
+import { logger } from "@/lib/logger";
+import { sendEmail } from "@/lib/email-sender";
+import { findContactByEmail, logNoteToContact } from "@/lib/hubspot";
+import { caseFromTilbud } from "@/lib/case/from-tilbud";
+import { getCostSettings } from "@/lib/case/settings-store";
+import { listAllCases, upsertCase } from "@/lib/case/store";
+import type { Case, CaseUpsertInput } from "@/lib/case/types";
+import { describeConflict, findCaseBookingConflicts } from "@/lib/booking/service";
+import { getTilbud } from "./store";
+import { listTilbudRevisions } from "./revision-store";
+import { calcTilbudTotals, type TilbudTotals } from "./calculations";
+import { getTilbudAcceptance, insertTilbudAcceptance, setTilbudAcceptanceCase } from "./acceptance-store";
+import { acceptanceExpiry, createAcceptanceToken, verifyAcceptanceToken } from "./acceptance-token";
+import type { AcceptanceResponseInput, TilbudAcceptance } from "./acceptance-types";
+import { recordEngagement } from "@/lib/outreach/engagement-store";
+import { tilbudContactEmail, type Tilbud } from "./types";
+
+export type AcceptanceViewState = "open" | "answered" | "invalid" | "expired" | "not_found" | "not_final" | "revised";
+
+export interface AcceptanceView {
+  state: AcceptanceViewState;
+  tilbud?: Tilbud;
+  totals?: TilbudTotals;
+  acceptance?: TilbudAcceptance;
+}
+
+export class AcceptanceError extends Error {
+  constructor(
+    message: string,
+    public status: number
+  ) {
+    super(message);
+    this.name = "AcceptanceError";
+  }
+}
+
+/** Latest saved revision number of a tilbud (0 before the first save). */
+export async function currentTilbudRevision(tilbudId: string): Promise<number> {
+  const [latest] = await listTilbudRevisions(tilbudId);
+  return latest?.revision || 0;
+}
+
+/** Public URL the customer opens to accept or reject a final tilbud. */
+export async function createAcceptanceLink(
+  tilbud: Tilbud,
+  baseUrl: string
+): Promise<{ url: string; expiresAt: string }> {
+  if (tilbud.status !== "final") {
+    throw new AcceptanceError("Tilbuddet skal være markeret som final før det kan sendes til accept", 400);
+  }
+  const expiry = acceptanceExpiry(tilbud.validUntil);
+  if (expiry == null) {
+    throw new AcceptanceError("Udfyld 'Gyldig til' før der laves et accept-link", 400);
+  }
+  if (expiry <= Date.now()) {
+    throw new AcceptanceError("Tilbuddets gyldighed er udløbet", 400);
+  }
+  const token = await createAcceptanceToken(tilbud, await currentTilbudRevision(tilbud.id));
+  await recordEngagement({
+    kind: "tilbud_sent",
+    email: tilbudContactEmail(tilbud),
+    source: "tilbud",
+    refId: tilbud.id,
+    summary: `Tilbud ${tilbud.offerNumber} sendt til accept: ${tilbud.title || tilbud.clientName}`,
+    metadata: { offerNumber: tilbud.offerNumber, clientName: tilbud.clientName },
+  });
+  return {
+    url: `${baseUrl.replace(/\/$/, "")}/tilbud/accept/${token}`,
+    expiresAt: new Date(expiry).toISOString(),
+  };
+}
+
+/** Resolve a token into what the public page should show. */
+export async function loadAcceptanceView(token: string): Promise<AcceptanceView> {
+  const verified = await verifyAcceptanceToken(token);
+  if (!verified.valid) {
+    const tilbud = verified.tilbudId ? await getTilbud(verified.tilbudId) : undefined;
+    const acceptance = tilbud ? await getTilbudAcceptance(tilbud.id) : undefined;
+    // Et allerede afgivet svar vises stadig efter udløb
+    if (tilbud && acceptance) return { state: "answered", tilbud, totals: calcTilbudTotals(tilbud), acceptance };
+    return { state: verified.reason };
+  }
+
+  const tilbud = await getTilbud(verified.tilbudId);
+  if (!tilbud) return { state: "not_found" };
+  const totals = calcTilbudTotals(tilbud);
+  const acceptance = await getTilbudAcceptance(tilbud.id);
+  if (acceptance) return { state: "answered", tilbud, totals, acceptance };
+  if (tilbud.status !== "final") return { state: "not_final", tilbud, totals };
+  if ((await currentTilbudRevision(tilbud.id)) !== verified.revision) return { state: "revised", tilbud, totals };
+  return { state: "open", tilbud, totals };
+}
+
+/**
+ * Seed (or promote) the case for an accepted tilbud. A case already
+ * created manually from the tilbud is moved to `godkendt` instead of
+ * creating a duplicate. Runs the same double-booking check as the case
+ * routes: on a conflict the case keeps its status and gets a note, and
+ * the conflicts are returned so the team can sort it out.
+ */
+async function approveCaseForTilbud(tilbud: Tilbud): Promise<{ case: Case; conflicts: string[] }> {
+  const existing = (await listAllCases()).find((c) => c.tilbudId === tilbud.id);
+  if (existing?.status === "godkendt") return { case: existing, conflicts: [] };
+
+  const input: CaseUpsertInput = existing ?? caseFromTilbud(tilbud, await getCostSettings());
+  const conflicts = (await findCaseBookingConflicts({ ...input, status: "godkendt" })).map(describeConflict);
+  if (conflicts.length === 0) {
+    return { case: await upsertCase({ ...input, status: "godkendt" }), conflicts };
+  }
+
+  logger.warn(`[tilbud-acceptance] ${tilbud.offerNumber} accepted but placement is double-booked`, {
+    service: "tilbud",
+    metadata: { tilbudId: tilbud.id, conflicts },
+  });
+  const note = `Accepteret af kunden, men placeringen er allerede booket: ${conflicts.join("; ")}. Ikke godkendt automatisk.`;
+  const saved = await upsertCase({ ...input, notes: input.notes ? `${input.notes}\n\n${note}` : note });
+  return { case: saved, conflicts };
+}
+
+async function notifyTeam(tilbud: Tilbud, acceptance: TilbudAcceptance, conflicts: string[]): Promise<void> {
+  const accepted = acceptance.decision === "accepted";
+  const signer = acceptance.signerTitle
+    ? `${acceptance.signerName} (${acceptance.signerTitle})`
+    : acceptance.signerName;
+  const headline = `${tilbud.clientName} har ${accepted ? "accepteret" : "afvist"} tilbud ${tilbud.offerNumber}${
+    conflicts.length > 0 ? " – dobbeltbooking" : ""
+  }`;
+
+  const to = config.tilbud.notifyEmail;
+  if (to) {
+    const body = [
+      `${headline}.`,
+      "",
+      `Kampagne: ${tilbud.campaignName || "-"}`,
+      `Underskrevet af: ${signer}`,
+      `Tidspunkt: ${new Date(acceptance.createdAt).toLocaleString("da-DK")}`,
+      `Version: v${acceptance.revision || "-"}`,
+      acceptance.comment ? `Kommentar: ${acceptance.comment}` : "",
+      accepted && acceptance.caseId && conflicts.length === 0
+        ? `Case oprettet med status "Godkendt" (${acceptance.caseId}).`
+        : "",
+      conflicts.length > 0
+        ? `OBS: Placeringen er allerede booket (${conflicts.join("; ")}). Casen (${acceptance.caseId}) er IKKE sat til "Godkendt" – løs dobbeltbookingen manuelt.`
+        : "",
+      accepted && !acceptance.caseId ? "OBS: Casen kunne ikke oprettes automatisk – opret den manuelt." : "",
+    ].filter((l) => l !== "").join("\n");
+    const result = await sendEmail({ to, subject: headline, body, propertyId: tilbud.id, transactional: true });
+    if (!result.success) {
+      logger.warn(`[tilbud-acceptance] notify email failed: ${result.error}`, { service: "tilbud" });
+    }
+  }
+
+  const maybeEmail = tilbudContactEmail(tilbud);
+  if (maybeEmail) {
+    findContactByEmail(maybeEmail).then((contact) => {
+      if (contact?.id) {
+        logNoteToContact(contact.id, `${headline} via accept-link. Underskrevet af ${signer}.`);
+      }
+    }).catch(() => {});
+  }
+}
+
+/**
+ * Record the customer's answer. Only one answer per tilbud is accepted:
+ * the answer row is inserted first, and only the request that wins
+ * that insert approves the case – `godkendt` unless the placement
+ * turns out to be double-booked.
+ */
+export async function respondToTilbud(
+  input: AcceptanceResponseInput,
+  meta: { ip: string; userAgent: string }
+): Promise<TilbudAcceptance> {
+  const verified = await verifyAcceptanceToken(input.token);
+  if (!verified.valid) {
+    throw new AcceptanceError(
+      verified.reason === "expired" ? "Tilbuddets gyldighed er udløbet" : "Ugyldigt link",
+      verified.reason === "expired" ? 410 : 400
+    );
+  }
+  const tilbud = await getTilbud(verified.tilbudId);
+  if (!tilbud) throw new AcceptanceError("Tilbud ikke fundet", 404);
+  if (tilbud.status !== "final") throw new AcceptanceError("Tilbuddet er ikke længere aktivt", 409);
+  if (await getTilbudAcceptance(tilbud.id)) {
+    throw new AcceptanceError("Tilbuddet er allerede besvaret", 409);
+  }
+
+  // Linket gælder kun den version kunden fik tilsendt
+  const revision = await currentTilbudRevision(tilbud.id);
+  if (revision !== verified.revision) {
+    throw new AcceptanceError("Tilbuddet er ændret efter det blev sendt – bed om et nyt link", 409);
+  }
+
+  const acceptance = await insertTilbudAcceptance({
+    tilbudId: tilbud.id,
+    revision,
+    decision: input.decision,
+    signerName: input.signerName,
+    signerTitle: input.signerTitle,
+    comment: input.comment,
+    ip: meta.ip,
+    userAgent: meta.userAgent,
+    caseId: "",
+  });
+  if (!acceptance) throw new AcceptanceError("Tilbuddet er allerede besvaret", 409);
+
+  let conflicts: string[] = [];
+  if (input.decision === "accepted") {
+    // Svaret er gemt – en fejl her skal ikke give kunden en fejl, teamet får besked
+    try {
+      const approval = await approveCaseForTilbud(tilbud);
+      conflicts = approval.conflicts;
+      acceptance.caseId = approval.case.id;
+      await setTilbudAcceptanceCase(acceptance.id, acceptance.caseId);
+    } catch (err) {
+      logger.error(`[tilbud-acceptance] case approval failed: ${err instanceof Error ? err.message : err}`, {
+        service: "tilbud",
+        metadata: { tilbudId: tilbud.id },
+      });
+    }
+  }
+  const caseId = acceptance.caseId;
+
+  if (input.decision === "accepted") {
+    await recordEngagement({
+      kind: "tilbud_accepted",
+      email: tilbudContactEmail(tilbud),
+      source: "tilbud",
+      refId: tilbud.id,
+      summary: `Tilbud ${tilbud.offerNumber} accepteret af ${input.signerName}`,
+      metadata: { offerNumber: tilbud.offerNumber, caseId, conflicts },
+    });
+  }
+
+  logger.info(`Tilbud ${tilbud.offerNumber} ${input.decision} by ${input.signerName}`, {
+    service: "tilbud",
+    metadata: { tilbudId: tilbud.id, caseId, revision: acceptance.revision },
+  });
+
+  try {
+    await notifyTeam(tilbud, acceptance, conflicts);
+  } catch (err) {
+    logger.warn(`[tilbud-acceptance] notify error: ${err instanceof Error ? err.message : err}`, { service: "tilbud" });
+  }
+  return acceptance;
+}
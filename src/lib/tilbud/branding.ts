@@ -1,3 +1,7 @@
 export const HYDE_COMPANY_NAME = "Hyde Media";
 export const HYDE_ADDRESS_LINE = "Blokken 88";
 export const HYDE_CITY_LINE = "3460 Birkerød, Danmark";
+export const HYDE_POSTAL_CODE = "3460";
+export const HYDE_CITY = "Birkerød";
+export const HYDE_STREET = "Blokken";
+export const HYDE_BUILDING_NUMBER = "88";
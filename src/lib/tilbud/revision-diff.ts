@@ -0,0 +1,179 @@
+import type { FixedCost, Tilbud, TilbudLine } from "./types";
+import { calcLineTotals, type TilbudTotals } from "./calculations";
+import type {
+  FieldChange,
+  FixedCostDiff,
+  LineDiff,
+  TilbudRevision,
+  TilbudRevisionDiff,
+} from "./revision-types";
+
+const HEADER_FIELDS: Array<[keyof Tilbud, string]> = [
+  ["title", "Titel"],
+  ["clientName", "Kunde"],
+  ["campaignName", "Kampagne"],
+  ["offerDate", "Tilbudsdato"],
+  ["validUntil", "Gyldig til"],
+  ["yourReference", "Jeres reference"],
+  ["ourReference", "Vores reference"],
+  ["vatPct", "Moms %"],
+  ["infoCompensationPct", "Informationsgodtgørelse %"],
+  ["securityPct", "Sikkerhedsstillelse %"],
+  ["terms", "Betingelser"],
+  ["comments", "Kommentarer"],
+];
+
+const LINE_FIELDS: Array<[keyof TilbudLine, string]> = [
+  ["name", "Navn"],
+  ["description", "Beskrivelse"],
+  ["quantity", "Antal"],
+  ["listPrice", "Listepris"],
+  ["discountPct", "Rabat %"],
+  ["fromWeek", "Uge fra"],
+  ["toWeek", "Uge til"],
+  ["weeks", "Uger"],
+  ["netPrice", "Nettopris"],
+];
+
+const TOTAL_FIELDS: Array<[keyof TilbudTotals, string]> = [
+  ["subtotal", "Subtotal"],
+  ["totalBeforeVat", "Total ekskl. moms"],
+  ["vatAmount", "Moms"],
+  ["grandTotal", "Total inkl. moms"],
+];
+
+function norm(value: unknown): string | number | null {
+  if (value == null || value === "") return null;
+  if (typeof value === "number") return value;
+  return String(value);
+}
+
+function compareFields<T>(a: T, b: T, fields: Array<[keyof T, string]>): FieldChange[] {
+  const changes: FieldChange[] = [];
+  for (const [field, label] of fields) {
+    const from = norm(a[field]);
+    const to = norm(b[field]);
+    if (from !== to) changes.push({ field: String(field), label, from, to });
+  }
+  return changes;
+}
+
+function money(n: number): string {
+  return `${n.toLocaleString("da-DK", { minimumFractionDigits: 2, maximumFractionDigits: 2 })} kr`;
+}
+
+function show(value: string | number | null): string {
+  if (value == null) return "(tom)";
+  return typeof value === "number" ? value.toLocaleString("da-DK") : value;
+}
+
+/** Pair lines by id, falling back to name for lines re-created from a placement. */
+function pairLines(from: TilbudLine[], to: TilbudLine[]): Array<[TilbudLine | null, TilbudLine | null]> {
+  const remaining = [...from];
+  const pairs: Array<[TilbudLine | null, TilbudLine | null]> = [];
+  for (const line of to) {
+    let idx = remaining.findIndex((l) => l.id === line.id);
+    if (idx < 0) {
+      const name = line.name.trim().toLowerCase();
+      idx = remaining.findIndex((l) => l.name.trim().toLowerCase() === name);
+    }
+    if (idx >= 0) {
+      pairs.push([remaining[idx], line]);
+      remaining.splice(idx, 1);
+    } else {
+      pairs.push([null, line]);
+    }
+  }
+  for (const line of remaining) pairs.push([line, null]);
+  return pairs;
+}
+
+function diffLines(from: TilbudLine[], to: TilbudLine[]): LineDiff[] {
+  const diffs: LineDiff[] = [];
+  for (const [a, b] of pairLines(from, to)) {
+    const fromTotal = a ? calcLineTotals(a).lineTotal : 0;
+    const toTotal = b ? calcLineTotals(b).lineTotal : 0;
+    if (a && b) {
+      const changes = compareFields(a, b, LINE_FIELDS);
+      if (changes.length === 0 && fromTotal === toTotal) continue;
+      diffs.push({ kind: "changed", lineId: b.id, name: b.name, changes, fromTotal, toTotal });
+    } else if (b) {
+      diffs.push({ kind: "added", lineId: b.id, name: b.name, changes: [], fromTotal, toTotal });
+    } else if (a) {
+      diffs.push({ kind: "removed", lineId: a.id, name: a.name, changes: [], fromTotal, toTotal });
+    }
+  }
+  return diffs;
+}
+
+function enabledAmount(cost?: FixedCost): number {
+  return cost && cost.enabled ? cost.amount || 0 : 0;
+}
+
+function diffFixedCosts(from: FixedCost[], to: FixedCost[]): FixedCostDiff[] {
+  const diffs: FixedCostDiff[] = [];
+  const before = new Map(from.map((c) => [c.id, c]));
+  for (const cost of to) {
+    const prev = before.get(cost.id);
+    before.delete(cost.id);
+    const fromAmount = enabledAmount(prev);
+    const toAmount = enabledAmount(cost);
+    if (!prev) {
+      if (toAmount > 0) diffs.push({ kind: "added", costId: cost.id, label: cost.label, fromAmount, toAmount });
+    } else if (fromAmount !== toAmount || prev.label !== cost.label) {
+      diffs.push({ kind: "changed", costId: cost.id, label: cost.label, fromAmount, toAmount });
+    }
+  }
+  for (const prev of before.values()) {
+    if (enabledAmount(prev) > 0) {
+      diffs.push({ kind: "removed", costId: prev.id, label: prev.label, fromAmount: enabledAmount(prev), toAmount: 0 });
+    }
+  }
+  return diffs;
+}
+
+function buildChangelog(diff: Omit<TilbudRevisionDiff, "changelog">): string[] {
+  const log: string[] = [];
+  for (const c of diff.header) {
+    // Interne felter hører ikke hjemme i kundens ændringsoversigt
+    if (c.field === "ourReference" || c.field === "comments") continue;
+    log.push(`${c.label} ændret fra ${show(c.from)} til ${show(c.to)}.`);
+  }
+  for (const l of diff.lines) {
+    if (l.kind === "added") {
+      log.push(`Linjen "${l.name}" er tilføjet (${money(l.toTotal)}).`);
+    } else if (l.kind === "removed") {
+      log.push(`Linjen "${l.name}" er fjernet (var ${money(l.fromTotal)}).`);
+    } else {
+      const details = l.changes
+        .filter((c) => c.field !== "netPrice")
+        .map((c) => `${c.label.toLowerCase()} ${show(c.from)} → ${show(c.to)}`);
+      const priceNote = l.fromTotal !== l.toTotal ? `pris ${money(l.fromTotal)} → ${money(l.toTotal)}` : "";
+      log.push(`"${l.name}": ${[...details, priceNote].filter(Boolean).join(", ")}.`);
+    }
+  }
+  for (const f of diff.fixedCosts) {
+    if (f.kind === "added") log.push(`${f.label} tilføjet (${money(f.toAmount)}).`);
+    else if (f.kind === "removed") log.push(`${f.label} fjernet (var ${money(f.fromAmount)}).`);
+    else log.push(`${f.label} ændret fra ${money(f.fromAmount)} til ${money(f.toAmount)}.`);
+  }
+  const grand = diff.totals.find((t) => t.field === "grandTotal");
+  if (grand) {
+    log.push(`Samlet pris inkl. moms: ${money(Number(grand.from || 0))} → ${money(Number(grand.to || 0))}.`);
+  }
+  return log;
+}
+
+/** Line-by-line diff between two revisions of the same tilbud. */
+export function diffTilbudRevisions(from: TilbudRevision, to: TilbudRevision): TilbudRevisionDiff {
+  const base = {
+    tilbudId: to.tilbudId,
+    fromRevision: from.revision,
+    toRevision: to.revision,
+    header: compareFields(from.snapshot, to.snapshot, HEADER_FIELDS),
+    lines: diffLines(from.snapshot.lines || [], to.snapshot.lines || []),
+    fixedCosts: diffFixedCosts(from.snapshot.fixedCosts || [], to.snapshot.fixedCosts || []),
+    totals: compareFields(from.totals, to.totals, TOTAL_FIELDS),
+  };
+  return { ...base, changelog: buildChangelog(base) };
+}
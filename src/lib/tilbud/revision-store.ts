@@ -0,0 +1,104 @@
+import { supabase, HAS_SUPABASE } from "@/lib/supabase";
+import { logger } from "@/lib/logger";
+import type { Tilbud } from "./types";
+import { calcTilbudTotals, type TilbudTotals } from "./calculations";
+import type { TilbudRevision, TilbudRevisionSummary } from "./revision-types";
+
+function rowToRevision(row: Record<string, unknown>): TilbudRevision {
+  return {
+    id: String(row.id),
+    tilbudId: String(row.tilbud_id || ""),
+    revision: Number(row.revision || 0),
+    status: (row.status as Tilbud["status"]) || "draft",
+    snapshot: (row.snapshot || {}) as Tilbud,
+    totals: (row.totals || {}) as TilbudTotals,
+    createdAt: String(row.created_at || new Date().toISOString()),
+  };
+}
+
+/** Concurrent saves can pick the same next number; retry a few times. */
+const REVISION_ATTEMPTS = 5;
+
+/**
+ * Append a revision for a freshly saved tilbud. Failures are logged, not
+ * thrown — the tilbud itself has already been saved at this point.
+ */
+export async function recordTilbudRevision(tilbud: Tilbud): Promise<TilbudRevision | null> {
+  if (!HAS_SUPABASE || !supabase) return null;
+  try {
+    for (let attempt = 1; attempt <= REVISION_ATTEMPTS; attempt++) {
+      const { data: latest, error: latestError } = await supabase
+        .from("tilbud_revisions")
+        .select("revision")
+        .eq("tilbud_id", tilbud.id)
+        .order("revision", { ascending: false })
+        .limit(1)
+        .maybeSingle();
+      if (latestError) throw latestError;
+
+      const revision = Number(latest?.revision || 0) + 1;
+      const { data, error } = await supabase
+        .from("tilbud_revisions")
+        .insert({
+          id: `${tilbud.id}-r${revision}`,
+          tilbud_id: tilbud.id,
+          revision,
+          status: tilbud.status,
+          snapshot: tilbud,
+          totals: calcTilbudTotals(tilbud),
+        })
+        .select("*")
+        .single();
+      if (error?.code === "23505" && attempt < REVISION_ATTEMPTS) continue; // nummer taget — prøv næste
+      if (error) throw error;
+      return data ? rowToRevision(data) : null;
+    }
+    return null;
+  } catch (err) {
+    logger.error(`[tilbud-revisions] record error: ${err instanceof Error ? err.message : err}`);
+    return null;
+  }
+}
+
+export async function listTilbudRevisions(tilbudId: string): Promise<TilbudRevisionSummary[]> {
+  if (!HAS_SUPABASE || !supabase) return [];
+  try {
+    const { data, error } = await supabase
+      .from("tilbud_revisions")
+      .select("id,tilbud_id,revision,status,totals,created_at")
+      .eq("tilbud_id", tilbudId)
+      .order("revision", { ascending: false });
+    if (error) throw error;
+    return (data || []).map((row) => ({
+      id: String(row.id),
+      tilbudId: String(row.tilbud_id || ""),
+      revision: Number(row.revision || 0),
+      status: (row.status as Tilbud["status"]) || "draft",
+      totals: (row.totals || {}) as TilbudTotals,
+      createdAt: String(row.created_at || ""),
+    }));
+  } catch (err) {
+    logger.error(`[tilbud-revisions] list error: ${err instanceof Error ? err.message : err}`);
+    return [];
+  }
+}
+
+export async function getTilbudRevision(
+  tilbudId: string,
+  revision: number
+): Promise<TilbudRevision | undefined> {
+  if (!HAS_SUPABASE || !supabase) return undefined;
+  try {
+    const { data, error } = await supabase
+      .from("tilbud_revisions")
+      .select("*")
+      .eq("tilbud_id", tilbudId)
+      .eq("revision", revision)
+      .maybeSingle();
+    if (error) throw error;
+    return data ? rowToRevision(data) : undefined;
+  } catch (err) {
+    logger.error(`[tilbud-revisions] get error: ${err instanceof Error ? err.message : err}`);
+    return undefined;
+  }
+}
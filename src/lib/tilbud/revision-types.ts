@@ -0,0 +1,59 @@
+import type { Tilbud } from "./types";
+import type { TilbudTotals } from "./calculations";
+
+/**
+ * Immutable snapshot of a tilbud as it looked after one save.
+ * Revisions are append-only — the tilbud row itself is still
+ * overwritten in place, so this is the only record of what was
+ * offered in earlier rounds of a negotiation.
+ */
+export interface TilbudRevision {
+  id: string;
+  tilbudId: string;
+  revision: number;          // 1, 2, 3 … per tilbud
+  status: Tilbud["status"];
+  snapshot: Tilbud;
+  totals: TilbudTotals;
+  createdAt: string;
+}
+
+/** Listing entry — snapshot omitted to keep responses small. */
+export type TilbudRevisionSummary = Omit<TilbudRevision, "snapshot">;
+
+export type RevisionChangeKind = "added" | "removed" | "changed";
+
+export interface FieldChange {
+  field: string;
+  label: string;
+  from: string | number | null;
+  to: string | number | null;
+}
+
+export interface LineDiff {
+  kind: RevisionChangeKind;
+  lineId: string;
+  name: string;
+  changes: FieldChange[];
+  fromTotal: number;
+  toTotal: number;
+}
+
+export interface FixedCostDiff {
+  kind: RevisionChangeKind;
+  costId: string;
+  label: string;
+  fromAmount: number;
+  toAmount: number;
+}
+
+export interface TilbudRevisionDiff {
+  tilbudId: string;
+  fromRevision: number;
+  toRevision: number;
+  header: FieldChange[];
+  lines: LineDiff[];
+  fixedCosts: FixedCostDiff[];
+  totals: FieldChange[];
+  /** Customer-facing changelog, one Danish sentence per change. */
+  changelog: string[];
+}
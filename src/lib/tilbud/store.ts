@@ -9,6 +9,7 @@ import type {
   TilbudUpsertInput,
 } from "./types";
 import { createDefaultTilbud, normalizeFixedCosts, tilbudSchema } from "./types";
+import { recordTilbudRevision } from "./revision-store";
 
 // ─── Row mapping ────────────────────────────────────────────
 
@@ -33,6 +34,7 @@ function rowToTilbud(row: Record<string, unknown>): Tilbud {
     comments: String(row.comments || ""),
     terms: String(row.terms || ""),
     status: (row.status as TilbudStatus) || "draft",
+    placementId: String(row.placement_id || ""),
     lines,
     fixedCosts: normalizeFixedCosts(fixedCosts),
     createdAt: String(row.created_at || new Date().toISOString()),
@@ -59,6 +61,7 @@ function tilbudToRow(t: Tilbud): Record<string, unknown> {
     comments: t.comments || "",
     terms: t.terms || "",
     status: t.status,
+    placement_id: t.placementId || "",
     lines: t.lines || [],
     fixed_costs: t.fixedCosts || [],
   };
@@ -203,7 +206,10 @@ export async function upsertTilbud(input: TilbudUpsertInput): Promise<Tilbud> {
 
   if (error) throw error;
   if (!data) throw new Error("Upsert returned no data");
-  return rowToTilbud(data);
+  const saved = rowToTilbud(data);
+  // Hver gemning bliver en uforanderlig revision (forhandlingshistorik)
+  await recordTilbudRevision(saved);
+  return saved;
 }
 
 export async function deleteTilbud(id: string): Promise<boolean> {
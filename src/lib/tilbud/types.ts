@@ -59,6 +59,7 @@ export const tilbudSchema = z.object({
   comments: z.string().optional().default(""),
   terms: z.string().optional().default("Alle priser er eksklusive moms. Standardbestemmelser gælder."),
   status: tilbudStatusSchema.default("draft"),
+  placementId: z.string().optional().default(""),
   lines: z.array(tilbudLineSchema).default([]),
   fixedCosts: z.array(fixedCostSchema).default([]),
   createdAt: z.string().min(1),
@@ -106,6 +107,12 @@ export function createDefaultTilbudLine(seed = 1, name = ""): TilbudLine {
   };
 }
 
+/** The customer's email when "Deres reference" holds one. */
+export function tilbudContactEmail(tilbud: Pick<Tilbud, "yourReference">): string | null {
+  const ref = (tilbud.yourReference || "").trim();
+  return ref.includes("@") ? ref : null;
+}
+
 export function createRequiredLines(seed = 1): TilbudLine[] {
   return REQUIRED_LINE_NAMES.map((name, index) => createDefaultTilbudLine(seed + index, name));
 }
@@ -183,6 +190,7 @@ export function createDefaultTilbud(seed = 1): Tilbud {
     comments: "",
     terms: "Alle priser er eksklusive moms. Standardbestemmelser gælder.",
     status: "draft",
+    placementId: "",
     lines: createRequiredLines(seed),
     fixedCosts: [],
     createdAt: now,
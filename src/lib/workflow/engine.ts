@@ -11,31 +11,37 @@
 // ============================================================
 
 import {
-  fetchEjendommeByStatus,
   updateEjendomResearch,
   upsertContact,
   addDraftNoteToContact,
   createFollowUpTask,
-  updateEjendom,
   saveEmailDraft,
 } from "../hubspot";
-import { researchProperty } from "../research";
+import { transitionProperty, type TransitionTrigger } from "../outreach/transition";
+import { assignVariant } from "../outreach/experiments";
+import { researchProperty, type RefreshSources } from "../research";
 import { summarizeResearch, generateEmailDraft } from "../llm";
 import { findEmailForPerson, extractCompanyDomain } from "../research/email-finder";
 import { validateAnalysis, checkMxRecord, collectAllowedEmails } from "../research/validator";
-import { isSupportedLocation, SUPPORTED_CITIES } from "../supported-cities";
+import { learnAdministratorFromResearch } from "../research/administrator-directory";
 import { config } from "../config";
 import { logger } from "../logger";
-import { updateStagedProperty, listStagedProperties } from "../staging/store";
+import { updateStagedProperty } from "../staging/store";
 import { saveResearchLog } from "../research-log-store";
 import type { StagedProperty } from "../staging/store";
 import type {
+  EmailDraft,
   Property,
+  ResearchAnalysis,
   ResearchData,
+  ResearchSourceProvenance,
   WorkflowRunLog,
   WorkflowStepLog,
 } from "@/types";
 
+const WORKFLOW_TRIGGER: TransitionTrigger = { actor: "system", source: "workflow" };
+const RESUMED_DETAILS = "Udført i forrige forsøg (genoptaget fra checkpoint)";
+
 // In-memory storage for workflow runs
 const recentRuns: WorkflowRunLog[] = [];
 const MAX_STORED_RUNS = 50;
@@ -47,6 +53,11 @@ const MAX_RAW_STORE = 100;
 // Cross-property contact tracking (resets per batch run)
 let batchContactTracker: Map<string, string[]> = new Map();
 
+/** Start a new batch: contacts seen for earlier properties no longer penalise. */
+export function resetBatchContactTracker(): void {
+  batchContactTracker = new Map();
+}
+
 /** Progress event for live streaming */
 export interface WorkflowProgress {
   phase: string;
@@ -54,226 +65,37 @@ export interface WorkflowProgress {
   detail?: string;
   progress?: number;
   step?: string;
+  /** Set on research_done: which source answers were used and from where */
+  sources?: ResearchSourceProvenance[];
 }
 
 export type WorkflowProgressCallback = (event: WorkflowProgress) => void;
 
 /**
- * Execute the full research workflow for all pending properties.
+ * State saved after each finished step, so a research job can resume
+ * after a timeout or retry without repeating work or HubSpot writes.
  */
-export async function runResearchWorkflow(
-  onProgress?: WorkflowProgressCallback,
-  isCancelled?: () => boolean
-): Promise<WorkflowRunLog[]> {
-  const emit = onProgress || (() => {});
-  const checkCancelled = isCancelled || (() => false);
-  const safeMode = config.researchSafeMode;
-
-  batchContactTracker = new Map();
-
-  if (safeMode) {
-    emit({
-      phase: "safe_mode",
-      message: "⚠️ SAFE MODE AKTIV: Research kører men HubSpot opdateres IKKE",
-      detail: "Sæt RESEARCH_SAFE_MODE=false i .env for at aktivere HubSpot-skrivning",
-      progress: 0,
-    });
-    logger.warn("Workflow running in SAFE MODE – no HubSpot writes", { service: "workflow" });
-  }
-
-  emit({
-    phase: "start",
-    message: "Starter research workflow...",
-    detail: "Henter ejendomme med status NY_KRAEVER_RESEARCH",
-    progress: 0,
-  });
-
-  const allProperties = await fetchEjendommeByStatus("NY_KRAEVER_RESEARCH", 50);
-
-  // Filter to only supported cities (5 largest Danish cities)
-  const properties = allProperties.filter(p => {
-    const check = isSupportedLocation(p.city, p.postalCode);
-    if (!check.supported) {
-      logger.warn(`Skipping property "${p.address}" – ${check.reason}`, { service: "workflow" });
-      emit({
-        phase: "city_skip",
-        message: `⚠️ Springer over: ${p.address}, ${p.city || "ukendt by"}`,
-        detail: check.reason,
-      });
-      return false;
-    }
-    return true;
-  });
-
-  const skippedCount = allProperties.length - properties.length;
-
-  emit({
-    phase: "fetch_done",
-    message: `Fandt ${properties.length} ejendomme der kræver research${skippedCount > 0 ? ` (${skippedCount} sprunget over – ikke i understøttet by)` : ""}`,
-    detail: skippedCount > 0
-      ? `Understøttede byer: ${SUPPORTED_CITIES.map(c => c.name).join(", ")}`
-      : undefined,
-    progress: 5,
-  });
-
-  if (properties.length === 0) {
-    emit({
-      phase: "done",
-      message: skippedCount > 0
-        ? `Ingen ejendomme i understøttede byer (${skippedCount} i andre byer sprunget over)`
-        : "Ingen ejendomme at researche",
-      progress: 100,
-    });
-    return [];
-  }
-
-  const runs: WorkflowRunLog[] = [];
-
-  for (let i = 0; i < properties.length; i++) {
-    if (checkCancelled()) {
-      emit({
-        phase: "cancelled",
-        message: `Stoppet af bruger efter ${i} af ${properties.length} ejendomme`,
-        progress: 100,
-      });
-      break;
-    }
-
-    const property = properties[i];
-    const pctBase = 5 + (i / properties.length) * 90;
-
-    emit({
-      phase: "property_start",
-      message: `Researcher ejendom ${i + 1}/${properties.length}: ${property.name || property.address}`,
-      detail: `${property.address}, ${property.postalCode} ${property.city}`,
-      progress: Math.round(pctBase),
-    });
-
-    const run = await processProperty(property, (event) => {
-      emit({
-        ...event,
-        progress: Math.round(pctBase + (event.progress || 0) / properties.length * 0.9),
-      });
-    }, checkCancelled);
-
-    runs.push(run);
-    storeRun(run);
-
-    if (!checkCancelled()) {
-      emit({
-        phase: "property_done",
-        message: `${property.name || property.address}: ${run.status === "completed" ? "Fuldført" : "Fejlet"}`,
-        detail: run.error || `${run.steps.filter(s => s.status === "completed").length} trin gennemført`,
-        progress: Math.round(pctBase + 90 / properties.length),
-      });
-    }
-  }
-
-  emit({
-    phase: "done",
-    message: `Workflow færdig: ${runs.filter((r) => r.status === "completed").length}/${runs.length} gennemført`,
-    progress: 100,
-  });
-
-  return runs;
+export interface ResearchCheckpoint {
+  researchData?: ResearchData;
+  /** Final analysis (validated, relevance-filtered, email hunt done) and the validator's corrections. */
+  analysis?: ResearchAnalysis;
+  corrections?: string[];
+  /** HubSpot contacts created in the contacts step. */
+  contactIds?: string[];
+  draft?: EmailDraft;
+  /** Completed steps and side effects (step ids, "draft_note", "follow_up_task" …). */
+  done?: string[];
 }
 
-/**
- * Run batch research for all staged properties with stage="new".
- * Same idea as runResearchWorkflow but sources from staging.
- */
-export async function runStagedResearchBatch(
-  onProgress?: WorkflowProgressCallback,
-  isCancelled?: () => boolean
-): Promise<WorkflowRunLog[]> {
-  const emit = onProgress || (() => {});
-  const checkCancelled = isCancelled || (() => false);
-
-  emit({
-    phase: "staged_start",
-    message: "Henter nye staged ejendomme til research...",
-    progress: 0,
-  });
-
-  const allStaged = await listStagedProperties({ stage: "new" });
-
-  // Filter to supported cities
-  const staged = allStaged.filter(p => {
-    const check = isSupportedLocation(p.city || "", p.postalCode || "");
-    if (!check.supported) {
-      emit({
-        phase: "city_skip",
-        message: `⚠️ Springer over: ${p.address}, ${p.city || "ukendt by"}`,
-        detail: check.reason,
-      });
-      return false;
-    }
-    return true;
-  });
-
-  emit({
-    phase: "staged_fetch_done",
-    message: `Fandt ${staged.length} staged ejendomme til research${allStaged.length - staged.length > 0 ? ` (${allStaged.length - staged.length} sprunget over)` : ""}`,
-    progress: 5,
-  });
-
-  if (staged.length === 0) {
-    emit({
-      phase: "done",
-      message: "Ingen nye staged ejendomme at researche",
-      progress: 100,
-    });
-    return [];
-  }
-
-  const runs: WorkflowRunLog[] = [];
-
-  for (let i = 0; i < staged.length; i++) {
-    if (checkCancelled()) {
-      emit({
-        phase: "cancelled",
-        message: `Stoppet efter ${i} af ${staged.length} staged ejendomme`,
-        progress: 100,
-      });
-      break;
-    }
-
-    const sp = staged[i];
-    const pctBase = 5 + (i / staged.length) * 90;
-
-    emit({
-      phase: "property_start",
-      message: `Researcher staged ${i + 1}/${staged.length}: ${sp.name || sp.address}`,
-      detail: `${sp.address}, ${sp.postalCode || ""} ${sp.city || ""}`,
-      progress: Math.round(pctBase),
-    });
-
-    const run = await processStagedProperty(sp, (event) => {
-      emit({
-        ...event,
-        progress: Math.round(pctBase + (event.progress || 0) / staged.length * 0.9),
-      });
-    }, checkCancelled);
-
-    runs.push(run);
-
-    if (!checkCancelled()) {
-      emit({
-        phase: "property_done",
-        message: `${sp.name || sp.address}: ${run.status === "completed" ? "Fuldført" : "Fejlet"}`,
-        detail: run.error || `${run.steps.filter(s => s.status === "completed").length} trin gennemført`,
-        progress: Math.round(pctBase + 90 / staged.length),
-      });
-    }
-  }
-
-  emit({
-    phase: "done",
-    message: `Staged research færdig: ${runs.filter(r => r.status === "completed").length}/${runs.length} gennemført`,
-    progress: 100,
-  });
+export interface CheckpointOptions {
+  /** Called after every completed step with the run so far. */
+  onCheckpoint?: (run: WorkflowRunLog, state: ResearchCheckpoint) => Promise<void>;
+  /** State from an earlier attempt; completed steps are skipped. */
+  resume?: ResearchCheckpoint;
+}
 
-  return runs;
+export interface ProcessPropertyOptions extends CheckpointOptions {
+  refreshSources?: RefreshSources;
 }
 
 /**
@@ -282,7 +104,8 @@ export async function runStagedResearchBatch(
 export async function processProperty(
   property: Property,
   onProgress?: WorkflowProgressCallback,
-  isCancelled?: () => boolean
+  isCancelled?: () => boolean,
+  options?: ProcessPropertyOptions
 ): Promise<WorkflowRunLog> {
   const emit = onProgress || (() => {});
   const checkCancelled = isCancelled || (() => false);
@@ -295,6 +118,17 @@ export async function processProperty(
     status: "running",
     steps: [],
   };
+  const state: ResearchCheckpoint = { ...options?.resume };
+  const isDone = (key: string) => !!state.done?.includes(key);
+  const markDone = async (key: string) => {
+    if (!isDone(key)) state.done = [...(state.done || []), key];
+    await options?.onCheckpoint?.(run, state);
+  };
+  const checkpoint = async (step: WorkflowStepLog) => {
+    completeStep(step);
+    if (step.status === "completed") await markDone(step.stepId);
+    else await options?.onCheckpoint?.(run, state);
+  };
 
   try {
     // ── Step 1: Mark as "research in progress" ──
@@ -309,11 +143,9 @@ export async function processProperty(
       progress: 5,
     });
     if (!safeMode) {
-      await updateEjendom(property.id, {
-        outreach_status: "RESEARCH_IGANGSAT",
-      });
+      await transitionProperty(property.id, "RESEARCH_IGANGSAT", WORKFLOW_TRIGGER);
     }
-    completeStep(step1);
+    await checkpoint(step1);
 
     // ── Step 2: Deep research ──
     const step2 = startStep("research_property", "Dyb research (OIS → CVR → BBR → web)");
@@ -327,14 +159,22 @@ export async function processProperty(
       progress: 10,
     });
 
-    const researchData = await researchProperty(property, (event) => {
+    if (state.researchData) {
+      emit({
+        phase: "research_step",
+        step: "research_property",
+        message: "Genoptager fra checkpoint – genbruger research fra forrige forsøg",
+      });
+    }
+    const researchData = state.researchData ?? await researchProperty(property, (event) => {
       emit({
         phase: "research_step",
         step: event.step,
         message: event.message,
         detail: event.detail,
       });
-    });
+    }, { refreshSources: options?.refreshSources });
+    state.researchData = researchData;
 
     step2.details = [
       `OIS: ${researchData.oisData ? `✓ Ejer: ${researchData.oisData.owners.map(o => o.name).join(", ") || "?"}` : "✗"}`,
@@ -344,13 +184,14 @@ export async function processProperty(
       `Emails: ${researchData.websiteContent?.emails.length || 0} fundet`,
     ].join(" | ");
 
-    completeStep(step2);
+    await checkpoint(step2);
 
     emit({
       phase: "research_done",
       step: "research_property",
       message: `Research færdig – ${researchData.companySearchResults.length} resultater, ${researchData.websiteContent?.emails.length || 0} emails`,
       progress: 45,
+      sources: researchData.provenance,
     });
 
     if (checkCancelled()) {
@@ -360,305 +201,347 @@ export async function processProperty(
       return run;
     }
 
-    // ── Step 3: Split LLM analysis ──
-    const step3 = startStep("llm_summarize", "AI analyse (2-fase: ejer + kontakt-ranking)");
-    run.steps.push(step3);
-
-    emit({
-      phase: "llm_start",
-      step: "llm_summarize",
-      message: "AI Phase 1: Vurderer ejer + datakvalitet (temp 0.1)...",
-      detail: "Bruger KUN OIS/CVR/BBR data – ingen websøgning, ingen email-gæt",
-      progress: 50,
-    });
-
-    let analysis = await summarizeResearch(property, researchData);
-
-    emit({
-      phase: "llm_phase1_done",
-      step: "llm_summarize",
-      message: `Phase 1: Ejer: ${analysis.ownerCompanyName} | Kvalitet: ${analysis.dataQuality}`,
-      detail: `Phase 2: ${analysis.recommendedContacts.length} kontakter ranket`,
-      progress: 55,
-    });
-
-    // ── Step 3.5: POST-LLM VALIDATION (THE CRITICAL GUARD) ──
-    const stepValidate = startStep("validate_llm", "Post-LLM validering");
-    run.steps.push(stepValidate);
-
-    emit({
-      phase: "validation_start",
-      step: "validate_llm",
-      message: "Validerer LLM-output mod faktiske datakilder...",
-      detail: `Tjekker emails mod ${collectAllowedEmails(researchData).size} kendte emails`,
-      progress: 56,
-    });
-
-    const { cleaned, corrections } = validateAnalysis(
-      analysis,
-      researchData,
-      property.address
-    );
-
-    analysis = cleaned;
-
-    if (corrections.length > 0) {
+    // ── Analysis + email hunt, or the result of an earlier attempt ──
+    let analysis: ResearchAnalysis;
+    let corrections: string[];
+    if (state.analysis) {
+      analysis = state.analysis;
+      corrections = state.corrections || [];
+      const stepResumed = startStep("llm_summarize", "AI analyse (2-fase: ejer + kontakt-ranking)");
+      stepResumed.details = "Genoptaget fra checkpoint – AI-analyse og email-jagt genbrugt";
+      run.steps.push(stepResumed);
+      completeStep(stepResumed);
       emit({
-        phase: "validation_corrections",
-        step: "validate_llm",
-        message: `⚠️ Validator: ${corrections.length} korrektioner foretaget`,
-        detail: corrections.join("\n"),
-        progress: 57,
+        phase: "llm_done",
+        step: "llm_summarize",
+        message: "Genoptager fra checkpoint – genbruger AI-analyse og email-jagt fra forrige forsøg",
+        progress: 65,
       });
-
-      for (const c of corrections) {
-        logger.warn(`Validator: ${c}`, { service: "validator", propertyAddress: property.address });
-      }
     } else {
+      // ── Step 3: Split LLM analysis ──
+      const step3 = startStep("llm_summarize", "AI analyse (2-fase: ejer + kontakt-ranking)");
+      run.steps.push(step3);
+
       emit({
-        phase: "validation_clean",
-        step: "validate_llm",
-        message: "✓ Validering OK – ingen korrektioner nødvendige",
-        progress: 57,
+        phase: "llm_start",
+        step: "llm_summarize",
+        message: "AI Phase 1: Vurderer ejer + datakvalitet (temp 0.1)...",
+        detail: "Bruger KUN OIS/CVR/BBR data – ingen websøgning, ingen email-gæt",
+        progress: 50,
       });
-    }
-
-    stepValidate.details = `${corrections.length} korrektioner | dataQuality: ${analysis.dataQuality}`;
-    completeStep(stepValidate);
 
-    const qualityEmoji = analysis.dataQuality === "high" ? "🟢" : analysis.dataQuality === "medium" ? "🟡" : "🔴";
+      analysis = await summarizeResearch(property, researchData);
 
-    const contactSummary = analysis.recommendedContacts
-      .slice(0, 3)
-      .map(c => `${c.fullName || "?"} (${c.role || "?"}, ${c.relevance || "?"}) – ${c.email || "ingen email"} [${Math.round((c.confidence || 0) * 100)}%]`)
-      .join("\n");
-
-    emit({
-      phase: "llm_done",
-      step: "llm_summarize",
-      message: `Datakvalitet: ${qualityEmoji} ${analysis.dataQuality.toUpperCase()} | ${analysis.recommendedContacts.length} kontakter ranket`,
-      detail: `Kontakter:\n${contactSummary}\nOutdoor score: ${analysis.outdoorPotentialScore}/10`,
-      progress: 58,
-    });
-
-    // Verbose: show each ranked contact individually
-    analysis.recommendedContacts.slice(0, 5).forEach((c, i) => {
       emit({
-        phase: i === 0 ? "contact_chosen" : "contact_ranked",
+        phase: "llm_phase1_done",
         step: "llm_summarize",
-        message: `${i === 0 ? "⭐ Valgt" : `#${i + 1}`}: ${c.fullName || "Ukendt"} (${c.role || "?"}) ${c.email ? `→ ${c.email}` : "→ ingen email"} [${Math.round((c.confidence || 0) * 100)}% confidence, ${c.relevance || "?"}]`,
-        detail: c.relevanceReason || c.source || undefined,
-        progress: undefined,
+        message: `Phase 1: Ejer: ${analysis.ownerCompanyName} | Kvalitet: ${analysis.dataQuality}`,
+        detail: `Phase 2: ${analysis.recommendedContacts.length} kontakter ranket`,
+        progress: 55,
       });
-    });
 
-    // Verbose: show OIS link if BFE was found
-    if (researchData.oisData?.bfe) {
-      emit({
-        phase: "ois",
-        step: "research_property",
-        message: `OIS link: https://ois.dk/search/${researchData.oisData.bfe} (BFE: ${researchData.oisData.bfe})`,
-        detail: researchData.oisData.ejerforholdstekst
-          ? `Ejertype: ${researchData.oisData.ejerforholdstekst} | Kommune: ${researchData.oisData.kommune || "?"}`
-          : undefined,
-        progress: undefined,
-      });
-    }
+      // ── Step 3.5: POST-LLM VALIDATION (THE CRITICAL GUARD) ──
+      const stepValidate = startStep("validate_llm", "Post-LLM validering");
+      run.steps.push(stepValidate);
 
-    // Verbose: show CVR info if found
-    if (researchData.cvrData) {
       emit({
-        phase: "cvr",
-        step: "research_property",
-        message: `CVR ${researchData.cvrData.cvr}: ${researchData.cvrData.companyName}${researchData.cvrData.email ? ` · Email: ${researchData.cvrData.email}` : ""}${researchData.cvrData.phone ? ` · Tlf: ${researchData.cvrData.phone}` : ""}`,
-        detail: `Adresse: ${researchData.cvrData.address} · Status: ${researchData.cvrData.status}${researchData.cvrData.website ? ` · Web: ${researchData.cvrData.website}` : ""}`,
-        progress: undefined,
+        phase: "validation_start",
+        step: "validate_llm",
+        message: "Validerer LLM-output mod faktiske datakilder...",
+        detail: `Tjekker emails mod ${collectAllowedEmails(researchData).size} kendte emails`,
+        progress: 56,
       });
-    }
 
-    // Verbose: show BBR info if found
-    if (researchData.bbrData) {
-      emit({
-        phase: "bbr",
-        step: "research_property",
-        message: `BBR: ${researchData.bbrData.area ? `${researchData.bbrData.area} m²` : "?"} · ${researchData.bbrData.floors ? `${researchData.bbrData.floors} etager` : "?"} · Bygget ${researchData.bbrData.buildingYear || "ukendt"}`,
-        detail: researchData.bbrData.usage ? `Anvendelse: ${researchData.bbrData.usage}` : undefined,
-        progress: undefined,
-      });
-    }
+      const validated = validateAnalysis(
+        analysis,
+        researchData,
+        property.address
+      );
 
-    // Verbose: show all emails found from web scraping
-    if (researchData.websiteContent?.emails && researchData.websiteContent.emails.length > 0) {
-      emit({
-        phase: "scrape_done",
-        step: "research_property",
-        message: `Web-emails fundet: ${researchData.websiteContent.emails.join(" · ")}`,
-        detail: researchData.websiteContent.url ? `Fra: ${researchData.websiteContent.url}` : undefined,
-        progress: undefined,
-      });
-    }
+      analysis = validated.cleaned;
+      corrections = validated.corrections;
 
-    completeStep(step3);
+      if (corrections.length > 0) {
+        emit({
+          phase: "validation_corrections",
+          step: "validate_llm",
+          message: `⚠️ Validator: ${corrections.length} korrektioner foretaget`,
+          detail: corrections.join("\n"),
+          progress: 57,
+        });
+
+        for (const c of corrections) {
+          logger.warn(`Validator: ${c}`, { service: "validator", propertyAddress: property.address });
+        }
+      } else {
+        emit({
+          phase: "validation_clean",
+          step: "validate_llm",
+          message: "✓ Validering OK – ingen korrektioner nødvendige",
+          progress: 57,
+        });
+      }
+
+      stepValidate.details = `${corrections.length} korrektioner | dataQuality: ${analysis.dataQuality}`;
+      await checkpoint(stepValidate);
+
+      const qualityEmoji = analysis.dataQuality === "high" ? "🟢" : analysis.dataQuality === "medium" ? "🟡" : "🔴";
+
+      const contactSummary = analysis.recommendedContacts
+        .slice(0, 3)
+        .map(c => `${c.fullName || "?"} (${c.role || "?"}, ${c.relevance || "?"}) – ${c.email || "ingen email"} [${Math.round((c.confidence || 0) * 100)}%]`)
+        .join("\n");
 
-    if (analysis.dataQuality === "low") {
       emit({
-        phase: "data_quality_warning",
+        phase: "llm_done",
         step: "llm_summarize",
-        message: `⚠️ LAV DATAKVALITET: ${analysis.dataQualityReason}`,
-        detail: "Kontakter kan være forkerte. Anbefaler manuel gennemgang.",
+        message: `Datakvalitet: ${qualityEmoji} ${analysis.dataQuality.toUpperCase()} | ${analysis.recommendedContacts.length} kontakter ranket`,
+        detail: `Kontakter:\n${contactSummary}\nOutdoor score: ${analysis.outdoorPotentialScore}/10`,
         progress: 58,
       });
-    }
 
-    // ── Step 3.5a: RELEVANCE FILTER – Penalize cross-property contacts ──
-    for (const contact of analysis.recommendedContacts) {
-      if (!contact.email) continue;
-      const emailLower = contact.email.toLowerCase();
-      const seenFor = batchContactTracker.get(emailLower) || [];
-
-      if (seenFor.length > 0) {
-        const penalty = Math.min(seenFor.length * 0.25, 0.6);
-        const oldConfidence = contact.confidence;
-        contact.confidence = Math.max(contact.confidence - penalty, 0.05);
-        if (contact.relevance !== "direct") {
-          contact.relevance = "indirect";
-        }
+      // Verbose: show each ranked contact individually
+      analysis.recommendedContacts.slice(0, 5).forEach((c, i) => {
+        emit({
+          phase: i === 0 ? "contact_chosen" : "contact_ranked",
+          step: "llm_summarize",
+          message: `${i === 0 ? "⭐ Valgt" : `#${i + 1}`}: ${c.fullName || "Ukendt"} (${c.role || "?"}) ${c.email ? `→ ${c.email}` : "→ ingen email"} [${Math.round((c.confidence || 0) * 100)}% confidence, ${c.relevance || "?"}]`,
+          detail: c.relevanceReason || c.source || undefined,
+          progress: undefined,
+        });
+      });
 
+      // Verbose: show OIS link if BFE was found
+      if (researchData.oisData?.bfe) {
         emit({
-          phase: "relevance_check",
-          step: "relevance_filter",
-          message: `"${contact.fullName}" bruges for ${seenFor.length} andre ejendomme – sænket fra ${Math.round(oldConfidence * 100)}% til ${Math.round(contact.confidence * 100)}%`,
-          progress: 59,
+          phase: "ois",
+          step: "research_property",
+          message: `OIS link: https://ois.dk/search/${researchData.oisData.bfe} (BFE: ${researchData.oisData.bfe})`,
+          detail: researchData.oisData.ejerforholdstekst
+            ? `Ejertype: ${researchData.oisData.ejerforholdstekst} | Kommune: ${researchData.oisData.kommune || "?"}`
+            : undefined,
+          progress: undefined,
         });
       }
 
-      // ── CROSS-PROPERTY HARD CUT: if 3+ properties → "indirect" only ──
-      if (seenFor.length >= 3) {
-        contact.relevance = "indirect";
-        contact.confidence = Math.min(contact.confidence, 0.15);
+      // Verbose: show CVR info if found
+      if (researchData.cvrData) {
         emit({
-          phase: "relevance_hard_cut",
-          step: "relevance_filter",
-          message: `"${contact.email}" set i 3+ ejendomme – klassificeret som "indirect", max confidence 15%`,
-          progress: 59,
+          phase: "cvr",
+          step: "research_property",
+          message: `CVR ${researchData.cvrData.cvr}: ${researchData.cvrData.companyName}${researchData.cvrData.email ? ` · Email: ${researchData.cvrData.email}` : ""}${researchData.cvrData.phone ? ` · Tlf: ${researchData.cvrData.phone}` : ""}`,
+          detail: `Adresse: ${researchData.cvrData.address} · Status: ${researchData.cvrData.status}${researchData.cvrData.website ? ` · Web: ${researchData.cvrData.website}` : ""}`,
+          progress: undefined,
         });
       }
-    }
 
-    // Re-sort contacts
-    analysis.recommendedContacts.sort((a, b) => {
-      if (a.relevance === "direct" && b.relevance !== "direct") return -1;
-      if (b.relevance === "direct" && a.relevance !== "direct") return 1;
-      return b.confidence - a.confidence;
-    });
+      // Verbose: show BBR info if found
+      if (researchData.bbrData) {
+        emit({
+          phase: "bbr",
+          step: "research_property",
+          message: `BBR: ${researchData.bbrData.area ? `${researchData.bbrData.area} m²` : "?"} · ${researchData.bbrData.floors ? `${researchData.bbrData.floors} etager` : "?"} · Bygget ${researchData.bbrData.buildingYear || "ukendt"}`,
+          detail: researchData.bbrData.usage ? `Anvendelse: ${researchData.bbrData.usage}` : undefined,
+          progress: undefined,
+        });
+      }
 
-    // ── Step 3.5b: EMAIL HUNT – Only if we have a VERIFIED domain ──
-    const bestContactSoFar = analysis.recommendedContacts[0] || null;
-    const hasEmail = bestContactSoFar?.email
-      && !bestContactSoFar.email.startsWith("info@")
-      && !bestContactSoFar.email.startsWith("kontakt@")
-      && bestContactSoFar.confidence >= 0.3;
+      // Verbose: show all emails found from web scraping
+      if (researchData.websiteContent?.emails && researchData.websiteContent.emails.length > 0) {
+        emit({
+          phase: "scrape_done",
+          step: "research_property",
+          message: `Web-emails fundet: ${researchData.websiteContent.emails.join(" · ")}`,
+          detail: researchData.websiteContent.url ? `Fra: ${researchData.websiteContent.url}` : undefined,
+          progress: undefined,
+        });
+      }
 
-    if (!hasEmail) {
-      const stepEmailHunt = startStep("email_hunt", "Aktiv email-jagt");
-      run.steps.push(stepEmailHunt);
+      await checkpoint(step3);
 
-      // Determine if we have a verified domain (CVR website or confirmed company site)
-      const verifiedDomain = analysis.companyDomain || null;
+      if (analysis.dataQuality === "low") {
+        emit({
+          phase: "data_quality_warning",
+          step: "llm_summarize",
+          message: `⚠️ LAV DATAKVALITET: ${analysis.dataQualityReason}`,
+          detail: "Kontakter kan være forkerte. Anbefaler manuel gennemgang.",
+          progress: 58,
+        });
+      }
 
-      emit({
-        phase: "email_hunt_start",
-        step: "email_hunt",
-        message: verifiedDomain
-          ? `Søger email med verificeret domæne: ${verifiedDomain}`
-          : "Ingen verificeret domæne – begrænset email-søgning",
-        detail: `Søger email til: ${bestContactSoFar?.fullName || analysis.ownerCompanyName}`,
-        progress: 60,
+      // ── Step 3.5a: RELEVANCE FILTER – Penalize cross-property contacts ──
+      for (const contact of analysis.recommendedContacts) {
+        if (!contact.email) continue;
+        const emailLower = contact.email.toLowerCase();
+        const seenFor = batchContactTracker.get(emailLower) || [];
+
+        if (seenFor.length > 0) {
+          const penalty = Math.min(seenFor.length * 0.25, 0.6);
+          const oldConfidence = contact.confidence;
+          contact.confidence = Math.max(contact.confidence - penalty, 0.05);
+          if (contact.relevance !== "direct") {
+            contact.relevance = "indirect";
+          }
+
+          emit({
+            phase: "relevance_check",
+            step: "relevance_filter",
+            message: `"${contact.fullName}" bruges for ${seenFor.length} andre ejendomme – sænket fra ${Math.round(oldConfidence * 100)}% til ${Math.round(contact.confidence * 100)}%`,
+            progress: 59,
+          });
+        }
+
+        // ── CROSS-PROPERTY HARD CUT: if 3+ properties → "indirect" only ──
+        if (seenFor.length >= 3) {
+          contact.relevance = "indirect";
+          contact.confidence = Math.min(contact.confidence, 0.15);
+          emit({
+            phase: "relevance_hard_cut",
+            step: "relevance_filter",
+            message: `"${contact.email}" set i 3+ ejendomme – klassificeret som "indirect", max confidence 15%`,
+            progress: 59,
+          });
+        }
+      }
+
+      // Re-sort contacts
+      analysis.recommendedContacts.sort((a, b) => {
+        if (a.relevance === "direct" && b.relevance !== "direct") return -1;
+        if (b.relevance === "direct" && a.relevance !== "direct") return 1;
+        return b.confidence - a.confidence;
       });
 
-      // Only run aggressive email hunt if we have a verified domain
-      for (const contact of analysis.recommendedContacts) {
-        if (contact.email && !contact.email.startsWith("info@") && !contact.email.startsWith("kontakt@")) continue;
-        if (!contact.fullName) continue;
-
-        const result = await findEmailForPerson({
-          personName: contact.fullName,
-          companyName: analysis.ownerCompanyName,
-          companyDomain: verifiedDomain || undefined,
-          knownEmails: researchData.websiteContent?.emails || [],
-          websiteUrl: analysis.companyWebsite || researchData.websiteContent?.url || undefined,
-          propertyAddress: property.address,
-          propertyCity: property.city,
-          onProgress: (event) => {
-            emit({
-              phase: "email_hunt_step",
-              step: event.step,
-              message: event.message,
-              detail: event.detail,
-            });
-          },
+      // ── Step 3.5a: Known emails from the administrator directory ──
+      const directoryEmails = fillEmailsFromAdministratorDirectory(analysis, researchData);
+      if (directoryEmails.length > 0) {
+        emit({
+          phase: "email_found",
+          step: "email_hunt",
+          message: `📒 Email fra administrator-katalog: ${directoryEmails.join(", ")}`,
+          progress: 59,
         });
+      }
 
-        if (result.email) {
-          // ── MX RECORD CHECK ──
-          const domain = result.email.split("@")[1];
-          let mxValid = true;
-          if (domain) {
-            mxValid = await checkMxRecord(domain);
-            if (!mxValid) {
-              emit({
-                phase: "mx_check_failed",
-                step: "email_hunt",
-                message: `❌ MX-check fejlet for ${domain} – email ${result.email} nedgraderet`,
-                progress: 62,
-              });
-              result.confidence = Math.min(result.confidence, 0.2);
-            } else {
+      // ── Step 3.5b: EMAIL HUNT – Only if we have a VERIFIED domain ──
+      const bestContactSoFar = analysis.recommendedContacts[0] || null;
+      const hasEmail = bestContactSoFar?.email
+        && !bestContactSoFar.email.startsWith("info@")
+        && !bestContactSoFar.email.startsWith("kontakt@")
+        && bestContactSoFar.confidence >= 0.3;
+
+      if (!hasEmail) {
+        const stepEmailHunt = startStep("email_hunt", "Aktiv email-jagt");
+        run.steps.push(stepEmailHunt);
+
+        // Determine if we have a verified domain (CVR website or confirmed company site)
+        const verifiedDomain = analysis.companyDomain || null;
+
+        emit({
+          phase: "email_hunt_start",
+          step: "email_hunt",
+          message: verifiedDomain
+            ? `Søger email med verificeret domæne: ${verifiedDomain}`
+            : "Ingen verificeret domæne – begrænset email-søgning",
+          detail: `Søger email til: ${bestContactSoFar?.fullName || analysis.ownerCompanyName}`,
+          progress: 60,
+        });
+
+        // Only run aggressive email hunt if we have a verified domain
+        for (const contact of analysis.recommendedContacts) {
+          if (contact.email && !contact.email.startsWith("info@") && !contact.email.startsWith("kontakt@")) continue;
+          if (!contact.fullName) continue;
+
+          const result = await findEmailForPerson({
+            personName: contact.fullName,
+            companyName: analysis.ownerCompanyName,
+            companyDomain: verifiedDomain || undefined,
+            knownEmails: researchData.websiteContent?.emails || [],
+            websiteUrl: analysis.companyWebsite || researchData.websiteContent?.url || undefined,
+            propertyAddress: property.address,
+            propertyCity: property.city,
+            onProgress: (event) => {
               emit({
-                phase: "mx_check_ok",
-                step: "email_hunt",
-                message: `✓ MX-check OK for ${domain}`,
-                progress: 62,
+                phase: "email_hunt_step",
+                step: event.step,
+                message: event.message,
+                detail: event.detail,
               });
+            },
+          });
+
+          if (result.email) {
+            // ── MX RECORD CHECK ──
+            const domain = result.email.split("@")[1];
+            let mxValid = true;
+            if (domain) {
+              mxValid = await checkMxRecord(domain);
+              if (!mxValid) {
+                emit({
+                  phase: "mx_check_failed",
+                  step: "email_hunt",
+                  message: `❌ MX-check fejlet for ${domain} – email ${result.email} nedgraderet`,
+                  progress: 62,
+                });
+                result.confidence = Math.min(result.confidence, 0.2);
+              } else {
+                emit({
+                  phase: "mx_check_ok",
+                  step: "email_hunt",
+                  message: `✓ MX-check OK for ${domain}`,
+                  progress: 62,
+                });
+              }
             }
-          }
 
-          contact.email = result.email;
-          contact.confidence = Math.max(contact.confidence, mxValid ? result.confidence : 0.2);
-          contact.source = result.source;
+            contact.email = result.email;
+            contact.confidence = Math.max(contact.confidence, mxValid ? result.confidence : 0.2);
+            contact.source = result.source;
 
-          emit({
-            phase: "email_hunt_found",
-            step: "email_hunt",
-            message: `Email: ${result.email} (${Math.round(contact.confidence * 100)}% konfidens${mxValid ? "" : ", MX fejlet"})`,
-            progress: 63,
-          });
+            emit({
+              phase: "email_hunt_found",
+              step: "email_hunt",
+              message: `Email: ${result.email} (${Math.round(contact.confidence * 100)}% konfidens${mxValid ? "" : ", MX fejlet"})`,
+              progress: 63,
+            });
 
-          break;
+            break;
+          }
         }
+
+        const foundEmails = analysis.recommendedContacts.filter(c => c.email).length;
+        stepEmailHunt.details = `${foundEmails} emails fundet`;
+        await checkpoint(stepEmailHunt);
+      } else {
+        emit({
+          phase: "email_hunt_skip",
+          step: "email_hunt",
+          message: `Email allerede fundet: ${bestContactSoFar?.email}`,
+          progress: 65,
+        });
       }
 
-      const foundEmails = analysis.recommendedContacts.filter(c => c.email).length;
-      stepEmailHunt.details = `${foundEmails} emails fundet`;
-      completeStep(stepEmailHunt);
-    } else {
-      emit({
-        phase: "email_hunt_skip",
-        step: "email_hunt",
-        message: `Email allerede fundet: ${bestContactSoFar?.email}`,
-        progress: 65,
-      });
-    }
+      state.analysis = analysis;
+      state.corrections = corrections;
+      await options?.onCheckpoint?.(run, state);
 
-    if (checkCancelled()) {
-      run.status = "failed";
-      run.error = "Stoppet af bruger";
-      run.completedAt = new Date().toISOString();
-      return run;
+      if (checkCancelled()) {
+        run.status = "failed";
+        run.error = "Stoppet af bruger";
+        run.completedAt = new Date().toISOString();
+        return run;
+      }
     }
 
     // ── STORE RAW RESEARCH DATA FOR DEBUGGING ──
     storeRawResearch(property.id, researchData, corrections);
+    if (!isDone("learn_administrator")) {
+      await learnAdministratorFromResearch(
+        { ref: `hubspot:${property.id}`, address: property.address, city: property.city },
+        researchData,
+        analysis
+      );
+      await markDone("learn_administrator");
+    }
 
     // ── Step 4: Update ejendom in HubSpot (respects safe mode) ──
     const step4 = startStep("hubspot_update_ejendom", "Opdater ejendom i HubSpot");
@@ -670,7 +553,17 @@ export async function processProperty(
       ...researchData.companySearchResults.slice(0, 5).map((r) => r.url),
     ].join("\n");
 
-    if (safeMode) {
+    // Status transitions are idempotent and always run; HubSpot writes that
+    // add records (contacts, notes, tasks) are skipped once done
+    if (isDone(step4.stepId)) {
+      step4.details = RESUMED_DETAILS;
+      emit({
+        phase: "step_resumed",
+        step: "hubspot_update_ejendom",
+        message: "Ejendom allerede opdateret i forrige forsøg – springer over",
+        progress: 70,
+      });
+    } else if (safeMode) {
       emit({
         phase: "safe_mode_skip",
         step: "hubspot_update_ejendom",
@@ -689,8 +582,8 @@ export async function processProperty(
         outdoorScore: analysis.outdoorPotentialScore,
         researchSummary: analysis.keyInsights,
         researchLinks: sourceLinks,
-        outreachStatus: "RESEARCH_DONE_CONTACT_PENDING",
       });
+      await transitionProperty(property.id, "RESEARCH_DONE_CONTACT_PENDING", WORKFLOW_TRIGGER);
       emit({
         phase: "hubspot_updated",
         step: "hubspot_update_ejendom",
@@ -698,7 +591,7 @@ export async function processProperty(
         progress: 70,
       });
     }
-    completeStep(step4);
+    await checkpoint(step4);
 
     // ── Step 5: Upsert contacts (safe mode aware) ──
     const step5 = startStep("hubspot_upsert_contacts", "Opret kontaktpersoner i HubSpot");
@@ -717,9 +610,17 @@ export async function processProperty(
       return true;
     });
 
-    const contactIds: string[] = [];
+    let contactIds: string[] = [];
 
-    if (safeMode) {
+    if (isDone(step5.stepId)) {
+      contactIds = state.contactIds || [];
+      emit({
+        phase: "step_resumed",
+        step: "hubspot_upsert_contacts",
+        message: `${contactIds.length} kontakter allerede oprettet i forrige forsøg – springer over`,
+        progress: 78,
+      });
+    } else if (safeMode) {
       emit({
         phase: "safe_mode_skip",
         step: "hubspot_upsert_contacts",
@@ -746,10 +647,13 @@ export async function processProperty(
       }
     }
 
-    step5.details = safeMode
-      ? `SAFE MODE: ${validContacts.length} kontakter (ikke oprettet)`
-      : `${contactIds.length}/${validContacts.length} kontakter oprettet`;
-    completeStep(step5);
+    step5.details = isDone(step5.stepId)
+      ? RESUMED_DETAILS
+      : safeMode
+        ? `SAFE MODE: ${validContacts.length} kontakter (ikke oprettet)`
+        : `${contactIds.length}/${validContacts.length} kontakter oprettet`;
+    state.contactIds = contactIds;
+    await checkpoint(step5);
 
     // ── Step 6: Generate email draft ──
     const step6 = startStep("generate_email_draft", "AI genererer mailudkast");
@@ -762,15 +666,28 @@ export async function processProperty(
             .reduce((a, b) => (a?.confidence || 0) >= (b?.confidence || 0) ? a : b, analysis.recommendedContacts[0])
         : null;
 
-    if (bestContact && bestContact.email) {
+    if (isDone(step6.stepId)) {
+      step6.details = RESUMED_DETAILS;
+      emit({
+        phase: "step_resumed",
+        step: "generate_email_draft",
+        message: "Mailudkast allerede gemt i forrige forsøg – springer over",
+        progress: 90,
+      });
+    } else if (bestContact && bestContact.email) {
       emit({
         phase: "email_start",
         step: "generate_email_draft",
-        message: `Skriver mail til ${bestContact.fullName || "kontaktperson"}...`,
+        message: state.draft
+          ? "Genbruger mailudkast fra forrige forsøg"
+          : `Skriver mail til ${bestContact.fullName || "kontaktperson"}...`,
         progress: 82,
       });
 
-      const draft = await generateEmailDraft(property, bestContact, analysis);
+      // Safe mode writes nothing – not even an A/B assignment
+      const ab = safeMode || state.draft ? null : await assignVariant("property", bestContact.email);
+      const draft = state.draft ?? await generateEmailDraft(property, bestContact, analysis, { promptHint: ab?.variant.promptHint });
+      state.draft = draft;
 
       if (safeMode) {
         emit({
@@ -795,27 +712,33 @@ export async function processProperty(
           const primaryContactId = contactIds[0];
           const noteBody = `Subject: ${draft.subject}\n\n${draft.bodyText}\n\n---\nIntern note: ${draft.shortInternalNote}`;
 
-          await addDraftNoteToContact(
-            primaryContactId,
-            "Udkast: outreach mail #1 (autogenereret)",
-            noteBody
-          );
-
-          await createFollowUpTask(
-            primaryContactId,
-            `Gennemgå og send outreach-mail: ${property.name || property.address}`,
-            2,
-            "HIGH"
-          );
+          if (!isDone("draft_note")) {
+            await addDraftNoteToContact(
+              primaryContactId,
+              "Udkast: outreach mail #1 (autogenereret)",
+              noteBody
+            );
+            await markDone("draft_note");
+          }
+
+          if (!isDone("follow_up_task")) {
+            await createFollowUpTask(
+              primaryContactId,
+              `Gennemgå og send outreach-mail: ${property.name || property.address}`,
+              2,
+              "HIGH"
+            );
+            await markDone("follow_up_task");
+          }
         }
 
-        completeStep(step7);
+        await checkpoint(step7);
       }
     } else {
       step6.details = "Ingen kontaktperson med email fundet";
       step6.status = "skipped";
     }
-    completeStep(step6);
+    await checkpoint(step6);
 
     // ── Track selected contact for cross-property dedup ──
     if (bestContact?.email) {
@@ -859,9 +782,7 @@ export async function processProperty(
     // Always RESEARCH_DONE_CONTACT_PENDING; user explicitly marks "Klar" via UI
     const finalStatus = "RESEARCH_DONE_CONTACT_PENDING";
     if (!safeMode) {
-      await updateEjendomResearch(property.id, {
-        outreachStatus: finalStatus,
-      });
+      await transitionProperty(property.id, finalStatus, { ...WORKFLOW_TRIGGER, note: gateReason || undefined });
     } else {
       logger.info(`SAFE MODE – would set status: ${finalStatus} (${gateReason})`, {
         service: "workflow",
@@ -869,7 +790,7 @@ export async function processProperty(
       });
     }
 
-    completeStep(step8);
+    await checkpoint(step8);
 
     // ── Done ──
     run.status = "completed";
@@ -888,10 +809,12 @@ export async function processProperty(
 
     if (!config.researchSafeMode) {
       try {
-        await updateEjendom(property.id, {
-          outreach_status: "FEJL",
-          research_summary: `Workflow fejlede: ${run.error}`,
-        });
+        await transitionProperty(
+          property.id,
+          "FEJL",
+          { ...WORKFLOW_TRIGGER, note: run.error },
+          { research_summary: `Workflow fejlede: ${run.error}` }
+        );
       } catch {
         // ignore
       }
@@ -909,6 +832,8 @@ export async function processProperty(
     });
   }
 
+  storeRun(run);
+
   // Persist log to Supabase (non-blocking, best-effort)
   saveResearchLog(run).catch(() => {});
 
@@ -948,9 +873,11 @@ export function getAllRawResearch() {
  * Process a staged property through the research pipeline.
  * Research results are written back to Supabase staging, NOT HubSpot.
  */
-export interface ProcessStagedOptions {
+export interface ProcessStagedOptions extends CheckpointOptions {
   /** When true, only run research and mark as "researched"; do not generate email draft. User approves in Staging, then draft is generated. */
   skipEmailDraft?: boolean;
+  /** Bypass the research source cache for these sources (or all). */
+  refreshSources?: RefreshSources;
 }
 
 export async function processStagedProperty(
@@ -982,6 +909,17 @@ export async function processStagedProperty(
     status: "running",
     steps: [],
   };
+  const state: ResearchCheckpoint = { ...options?.resume };
+  const isDone = (key: string) => !!state.done?.includes(key);
+  const markDone = async (key: string) => {
+    if (!isDone(key)) state.done = [...(state.done || []), key];
+    await options?.onCheckpoint?.(run, state);
+  };
+  const checkpoint = async (step: WorkflowStepLog) => {
+    completeStep(step);
+    if (step.status === "completed") await markDone(step.stepId);
+    else await options?.onCheckpoint?.(run, state);
+  };
 
   try {
     // ── Step 1: Mark as researching in staging ──
@@ -997,7 +935,7 @@ export async function processStagedProperty(
       stage: "researching",
       researchStartedAt: new Date().toISOString(),
     });
-    completeStep(step1);
+    await checkpoint(step1);
 
     // ── Step 2: Deep research ──
     const step2 = startStep("research_property", "Dyb research (OIS → CVR → BBR → web)");
@@ -1010,14 +948,22 @@ export async function processStagedProperty(
       progress: 10,
     });
 
-    const researchData = await researchProperty(property, (event) => {
+    if (state.researchData) {
+      emit({
+        phase: "research_step",
+        step: "research_property",
+        message: "Genoptager fra checkpoint – genbruger research fra forrige forsøg",
+      });
+    }
+    const researchData = state.researchData ?? await researchProperty(property, (event) => {
       emit({
         phase: "research_step",
         step: event.step,
         message: event.message,
         detail: event.detail,
       });
-    });
+    }, { refreshSources: options?.refreshSources });
+    state.researchData = researchData;
 
     step2.details = [
       `OIS: ${researchData.oisData ? `✓ Ejer: ${researchData.oisData.owners.map(o => o.name).join(", ") || "?"}` : "✗"}`,
@@ -1026,7 +972,7 @@ export async function processStagedProperty(
       `Søgninger: ${researchData.companySearchResults.length} resultater`,
       `Emails: ${researchData.websiteContent?.emails.length || 0} fundet`,
     ].join(" | ");
-    completeStep(step2);
+    await checkpoint(step2);
 
     // Verbose: data sources summary
     emit({
@@ -1041,6 +987,7 @@ export async function processStagedProperty(
         researchData.websiteContent?.emails.length ? `Emails: ${researchData.websiteContent.emails.join(", ")}` : "Ingen emails fra web",
       ].join("\n"),
       progress: 45,
+      sources: researchData.provenance,
     });
 
     // Verbose: OIS link
@@ -1072,106 +1019,140 @@ export async function processStagedProperty(
       return run;
     }
 
-    // ── Step 3: LLM analysis ──
-    const step3 = startStep("llm_summarize", "AI analyse (ejer + kontakt-ranking)");
-    run.steps.push(step3);
-    emit({
-      phase: "llm_start",
-      step: "llm_summarize",
-      message: "AI Phase 1: Vurderer ejer + datakvalitet...",
-      progress: 50,
-    });
-
-    let analysis = await summarizeResearch(property, researchData);
-
-    // ── Step 3.5: Post-LLM validation ──
-    const stepValidate = startStep("validate_llm", "Post-LLM validering");
-    run.steps.push(stepValidate);
-    const { cleaned, corrections } = validateAnalysis(analysis, researchData, property.address);
-    analysis = cleaned;
-
-    if (corrections.length > 0) {
+    // ── Analysis + email hunt, or the result of an earlier attempt ──
+    let analysis: ResearchAnalysis;
+    let corrections: string[];
+    if (state.analysis) {
+      analysis = state.analysis;
+      corrections = state.corrections || [];
+      const stepResumed = startStep("llm_summarize", "AI analyse (ejer + kontakt-ranking)");
+      stepResumed.details = "Genoptaget fra checkpoint – AI-analyse og email-jagt genbrugt";
+      run.steps.push(stepResumed);
+      completeStep(stepResumed);
       emit({
-        phase: "validation_corrections",
-        step: "validate_llm",
-        message: `⚠️ Validator: ${corrections.length} korrektioner`,
-        detail: corrections.join("\n"),
-        progress: 57,
+        phase: "llm_done",
+        step: "llm_summarize",
+        message: "Genoptager fra checkpoint – genbruger AI-analyse og email-jagt fra forrige forsøg",
+        progress: 65,
       });
     } else {
+      // ── Step 3: LLM analysis ──
+      const step3 = startStep("llm_summarize", "AI analyse (ejer + kontakt-ranking)");
+      run.steps.push(step3);
       emit({
-        phase: "validation_clean",
-        step: "validate_llm",
-        message: "✓ Validering OK",
-        progress: 57,
+        phase: "llm_start",
+        step: "llm_summarize",
+        message: "AI Phase 1: Vurderer ejer + datakvalitet...",
+        progress: 50,
+      });
+
+      analysis = await summarizeResearch(property, researchData);
+
+      // ── Step 3.5: Post-LLM validation ──
+      const stepValidate = startStep("validate_llm", "Post-LLM validering");
+      run.steps.push(stepValidate);
+      const validated = validateAnalysis(analysis, researchData, property.address);
+      analysis = validated.cleaned;
+      corrections = validated.corrections;
+
+      if (corrections.length > 0) {
+        emit({
+          phase: "validation_corrections",
+          step: "validate_llm",
+          message: `⚠️ Validator: ${corrections.length} korrektioner`,
+          detail: corrections.join("\n"),
+          progress: 57,
+        });
+      } else {
+        emit({
+          phase: "validation_clean",
+          step: "validate_llm",
+          message: "✓ Validering OK",
+          progress: 57,
+        });
+      }
+      await checkpoint(stepValidate);
+
+      // Verbose: contact ranking result
+      const topContacts = analysis.recommendedContacts.slice(0, 5);
+      topContacts.forEach((c, i) => {
+        emit({
+          phase: i === 0 ? "contact_chosen" : "contact_ranked",
+          step: "llm_summarize",
+          message: `${i === 0 ? "⭐ Valgt" : `  #${i + 1}`}: ${c.fullName || "Ukendt"} (${c.role || "?"}) ${c.email ? `→ ${c.email}` : "→ ingen email"} [${Math.round((c.confidence || 0) * 100)}%]`,
+          detail: c.relevanceReason || c.source || undefined,
+          progress: undefined,
+        });
       });
-    }
-    completeStep(stepValidate);
 
-    // Verbose: contact ranking result
-    const topContacts = analysis.recommendedContacts.slice(0, 5);
-    topContacts.forEach((c, i) => {
       emit({
-        phase: i === 0 ? "contact_chosen" : "contact_ranked",
+        phase: "llm_done",
         step: "llm_summarize",
-        message: `${i === 0 ? "⭐ Valgt" : `  #${i + 1}`}: ${c.fullName || "Ukendt"} (${c.role || "?"}) ${c.email ? `→ ${c.email}` : "→ ingen email"} [${Math.round((c.confidence || 0) * 100)}%]`,
-        detail: c.relevanceReason || c.source || undefined,
-        progress: undefined,
+        message: `AI færdig: ${analysis.ownerCompanyName} · Kvalitet: ${analysis.dataQuality.toUpperCase()} · ${analysis.recommendedContacts.length} kontakter`,
+        progress: 58,
       });
-    });
+      await checkpoint(step3);
 
-    emit({
-      phase: "llm_done",
-      step: "llm_summarize",
-      message: `AI færdig: ${analysis.ownerCompanyName} · Kvalitet: ${analysis.dataQuality.toUpperCase()} · ${analysis.recommendedContacts.length} kontakter`,
-      progress: 58,
-    });
-    completeStep(step3);
-
-    // ── Email hunt for ALL top contacts missing email ──
-    if (analysis.ownerCompanyName) {
-      const knownEmails = researchData.websiteContent?.emails || [];
-      const domain = extractCompanyDomain(
-        knownEmails,
-        analysis.ownerCompanyName,
-        researchData.websiteContent?.url
-      );
-      if (domain) {
-        const mxValid = await checkMxRecord(domain);
-        if (mxValid) {
-          const contactsToEnrich = analysis.recommendedContacts
-            .slice(0, 5)
-            .filter(c => !c.email && c.fullName);
-
-          if (contactsToEnrich.length > 0) {
-            emit({
-              phase: "email_hunt",
-              message: `Søger emails for ${contactsToEnrich.length} kontakter...`,
-              detail: contactsToEnrich.map(c => c.fullName).join(", "),
-              progress: 62,
-            });
-          }
+      // ── Known emails from the administrator directory ──
+      const directoryEmails = fillEmailsFromAdministratorDirectory(analysis, researchData);
+      if (directoryEmails.length > 0) {
+        emit({
+          phase: "email_found",
+          step: "email_hunt",
+          message: `📒 Email fra administrator-katalog: ${directoryEmails.join(", ")}`,
+          progress: 59,
+        });
+      }
 
-          for (const contact of contactsToEnrich) {
-            if (checkCancelled()) break;
-            const result = await findEmailForPerson({
-              personName: contact.fullName!,
-              companyName: analysis.ownerCompanyName,
-              companyDomain: domain,
-              knownEmails,
-            });
-            if (result.email) {
-              contact.email = result.email;
-              contact.confidence = Math.max(contact.confidence, 0.65);
+      // ── Email hunt for ALL top contacts missing email ──
+      if (analysis.ownerCompanyName) {
+        const knownEmails = researchData.websiteContent?.emails || [];
+        const domain = extractCompanyDomain(
+          knownEmails,
+          analysis.ownerCompanyName,
+          researchData.websiteContent?.url
+        );
+        if (domain) {
+          const mxValid = await checkMxRecord(domain);
+          if (mxValid) {
+            const contactsToEnrich = analysis.recommendedContacts
+              .slice(0, 5)
+              .filter(c => !c.email && c.fullName);
+
+            if (contactsToEnrich.length > 0) {
               emit({
-                phase: "email_found",
-                message: `Email fundet: ${contact.fullName} → ${result.email}`,
-                progress: 65,
+                phase: "email_hunt",
+                message: `Søger emails for ${contactsToEnrich.length} kontakter...`,
+                detail: contactsToEnrich.map(c => c.fullName).join(", "),
+                progress: 62,
+              });
+            }
+
+            for (const contact of contactsToEnrich) {
+              if (checkCancelled()) break;
+              const result = await findEmailForPerson({
+                personName: contact.fullName!,
+                companyName: analysis.ownerCompanyName,
+                companyDomain: domain,
+                knownEmails,
               });
+              if (result.email) {
+                contact.email = result.email;
+                contact.confidence = Math.max(contact.confidence, 0.65);
+                emit({
+                  phase: "email_found",
+                  message: `Email fundet: ${contact.fullName} → ${result.email}`,
+                  progress: 65,
+                });
+              }
             }
           }
         }
       }
+
+      state.analysis = analysis;
+      state.corrections = corrections;
+      await options?.onCheckpoint?.(run, state);
     }
 
     // ── Step 4: Write research results back to STAGING (not HubSpot) ──
@@ -1219,7 +1200,7 @@ export async function processStagedProperty(
       detail: `Ejer: ${analysis.ownerCompanyName} | Kontakt: ${bestContact?.fullName || "ingen"} | Email: ${bestContact?.email || "ingen"}`,
       progress: 75,
     });
-    completeStep(step4);
+    await checkpoint(step4);
 
     // ── Step 5: Generate email draft (store in staging) – skipped when skipEmailDraft (e.g. Gade-Agent: user approves after research, then draft in Staging) ──
     if (!skipEmailDraft) {
@@ -1234,7 +1215,9 @@ export async function processStagedProperty(
           progress: 82,
         });
 
-        const draft = await generateEmailDraft(property, bestContact, analysis);
+        const ab = state.draft ? null : await assignVariant("property", bestContact.email);
+        const draft = state.draft ?? await generateEmailDraft(property, bestContact, analysis, { promptHint: ab?.variant.promptHint });
+        state.draft = draft;
 
         await updateStagedProperty(staged.id, {
           emailDraftSubject: draft.subject,
@@ -1252,7 +1235,7 @@ export async function processStagedProperty(
         step5.details = "Ingen kontaktperson med email fundet";
         step5.status = "skipped";
       }
-      completeStep(step5);
+      await checkpoint(step5);
 
       if (checkCancelled()) {
         run.status = "failed";
@@ -1291,12 +1274,17 @@ export async function processStagedProperty(
         : "Ejendom markeret som \"researched\" – afventer godkendelse i staging queue",
       progress: 96,
     });
-    completeStep(step6);
+    await checkpoint(step6);
 
     // ── Store raw research data ──
     try {
       storeRawResearch(staged.id, researchData, corrections);
     } catch { /* non-fatal */ }
+    await learnAdministratorFromResearch(
+      { ref: `staged:${staged.id}`, address: staged.address, city: staged.city },
+      researchData,
+      analysis
+    );
 
     // ── Done ──
     run.status = "completed";
@@ -1351,6 +1339,26 @@ function completeStep(step: WorkflowStepLog): void {
   step.completedAt = new Date().toISOString();
 }
 
+/**
+ * Recommended contacts without an email get the one the administrator
+ * directory knows for the same person. Returns "name → email" per fill.
+ */
+function fillEmailsFromAdministratorDirectory(analysis: ResearchAnalysis, research: ResearchData): string[] {
+  const known = (research.administrator?.contacts || []).filter((c) => c.email);
+  const filled: string[] = [];
+  for (const contact of analysis.recommendedContacts) {
+    if (contact.email || !contact.fullName) continue;
+    const hit = known.find((k) => k.name.toLowerCase() === contact.fullName!.toLowerCase());
+    if (!hit) continue;
+    contact.email = hit.email;
+    contact.phone = contact.phone || hit.phone;
+    contact.source = `${contact.source} + Administrator-katalog`;
+    if (hit.verified) contact.confidence = Math.max(contact.confidence, 0.85);
+    filled.push(`${contact.fullName} → ${hit.email}`);
+  }
+  return filled;
+}
+
 function storeRun(run: WorkflowRunLog): void {
   recentRuns.push(run);
   if (recentRuns.length > MAX_STORED_RUNS) {
@@ -0,0 +1,262 @@
+// ============================================================
+// Research Job Store – durable queue of per-property research
+//
+// Persisted in Supabase (research_jobs) with an in-memory
+// fallback for local dev. A job holds the workflow step log and
+// the checkpoint of its latest attempt; a lease marks the
+// invocation currently running it, so an expired lease means
+// the run was cut off and any cron may pick the job up again.
+// ============================================================
+
+import { supabase, HAS_SUPABASE } from "../supabase";
+import { logger } from "../logger";
+import type { RefreshSources } from "../research/source-cache";
+import type { ResearchCheckpoint } from "./engine";
+import type { WorkflowStepLog } from "@/types";
+
+export type ResearchJobStatus = "queued" | "running" | "completed" | "failed" | "cancelled";
+export type ResearchJobTarget = "hubspot" | "staged";
+
+export interface ResearchJobOptions {
+  refreshSources?: RefreshSources;
+  skipEmailDraft?: boolean;
+}
+
+export interface ResearchJob {
+  id: string;
+  targetType: ResearchJobTarget;
+  targetId: string;
+  label: string;
+  status: ResearchJobStatus;
+  attempts: number;
+  nextRunAt: string;
+  leaseUntil: string | null;
+  progress: number;
+  lastMessage: string | null;
+  steps: WorkflowStepLog[];
+  checkpoint: ResearchCheckpoint;
+  options: ResearchJobOptions;
+  error: string | null;
+  createdAt: string;
+  updatedAt: string;
+  completedAt: string | null;
+}
+
+const OPEN_STATUSES: ResearchJobStatus[] = ["queued", "running"];
+/** Everything but the (large) checkpoint, for lists – never save a listed job. */
+const LIST_COLUMNS =
+  "id, target_type, target_id, label, status, attempts, next_run_at, lease_until, progress, last_message, steps, options, error, created_at, updated_at, completed_at";
+
+// ── In-memory fallback (used when Supabase is unavailable) ──
+
+const memJobs = new Map<string, ResearchJob>();
+
+function rowToJob(row: Record<string, unknown>): ResearchJob {
+  const str = (v: unknown) => (v ? String(v) : null);
+  return {
+    id: String(row.id),
+    targetType: row.target_type === "staged" ? "staged" : "hubspot",
+    targetId: String(row.target_id || ""),
+    label: String(row.label || ""),
+    status: String(row.status || "queued") as ResearchJobStatus,
+    attempts: Number(row.attempts) || 0,
+    nextRunAt: String(row.next_run_at || row.created_at || new Date().toISOString()),
+    leaseUntil: str(row.lease_until),
+    progress: Number(row.progress) || 0,
+    lastMessage: str(row.last_message),
+    steps: Array.isArray(row.steps) ? (row.steps as WorkflowStepLog[]) : [],
+    checkpoint: (row.checkpoint as ResearchCheckpoint) || {},
+    options: (row.options as ResearchJobOptions) || {},
+    error: str(row.error),
+    createdAt: String(row.created_at || new Date().toISOString()),
+    updatedAt: String(row.updated_at || new Date().toISOString()),
+    completedAt: str(row.completed_at),
+  };
+}
+
+function jobToRow(job: ResearchJob): Record<string, unknown> {
+  return {
+    id: job.id,
+    target_type: job.targetType,
+    target_id: job.targetId,
+    label: job.label,
+    status: job.status,
+    attempts: job.attempts,
+    next_run_at: job.nextRunAt,
+    lease_until: job.leaseUntil,
+    progress: job.progress,
+    last_message: job.lastMessage,
+    steps: job.steps,
+    checkpoint: job.checkpoint,
+    options: job.options,
+    error: job.error,
+    created_at: job.createdAt,
+    updated_at: job.updatedAt,
+    completed_at: job.completedAt,
+  };
+}
+
+export async function createResearchJob(input: {
+  targetType: ResearchJobTarget;
+  targetId: string;
+  label: string;
+  options?: ResearchJobOptions;
+}): Promise<ResearchJob> {
+  const now = new Date().toISOString();
+  const job: ResearchJob = {
+    id: `rjob-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+    targetType: input.targetType,
+    targetId: input.targetId,
+    label: input.label,
+    status: "queued",
+    attempts: 0,
+    nextRunAt: now,
+    leaseUntil: null,
+    progress: 0,
+    lastMessage: null,
+    steps: [],
+    checkpoint: {},
+    options: input.options || {},
+    error: null,
+    createdAt: now,
+    updatedAt: now,
+    completedAt: null,
+  };
+  await saveResearchJob(job);
+  return job;
+}
+
+/** Persist the job as-is (checkpoints, progress, final status). */
+export async function saveResearchJob(job: ResearchJob): Promise<void> {
+  job.updatedAt = new Date().toISOString();
+  if (!HAS_SUPABASE || !supabase) {
+    memJobs.set(job.id, job);
+    return;
+  }
+  const { error } = await supabase.from("research_jobs").upsert(jobToRow(job), { onConflict: "id" });
+  if (error) logger.warn(`[research-job-store] save ${job.id} error: ${error.message}`, { service: "research-jobs" });
+}
+
+export async function getResearchJob(id: string): Promise<ResearchJob | null> {
+  if (!HAS_SUPABASE || !supabase) return memJobs.get(id) || null;
+  const { data, error } = await supabase.from("research_jobs").select("*").eq("id", id).maybeSingle();
+  if (error) {
+    logger.error(`[research-job-store] get error: ${error.message}`);
+    return null;
+  }
+  return data ? rowToJob(data) : null;
+}
+
+/** The queued or running job for a property, if any. */
+export async function findOpenResearchJob(targetType: ResearchJobTarget, targetId: string): Promise<ResearchJob | null> {
+  if (!HAS_SUPABASE || !supabase) {
+    return [...memJobs.values()].find(
+      (j) => j.targetType === targetType && j.targetId === targetId && OPEN_STATUSES.includes(j.status)
+    ) || null;
+  }
+  const { data, error } = await supabase
+    .from("research_jobs")
+    .select("*")
+    .eq("target_type", targetType)
+    .eq("target_id", targetId)
+    .in("status", OPEN_STATUSES)
+    .limit(1);
+  if (error) {
+    logger.error(`[research-job-store] find open error: ${error.message}`);
+    return null;
+  }
+  return data && data.length > 0 ? rowToJob(data[0] as Record<string, unknown>) : null;
+}
+
+/** Newest first, without checkpoints. */
+export async function listResearchJobs(limit = 50): Promise<ResearchJob[]> {
+  if (!HAS_SUPABASE || !supabase) {
+    return [...memJobs.values()]
+      .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))
+      .slice(0, limit)
+      .map((j) => ({ ...j, checkpoint: {} }));
+  }
+  const { data, error } = await supabase
+    .from("research_jobs")
+    .select(LIST_COLUMNS)
+    .order("updated_at", { ascending: false })
+    .limit(limit);
+  if (error) {
+    logger.error(`[research-job-store] list error: ${error.message}`);
+    return [];
+  }
+  return (data || []).map((r) => rowToJob(r as Record<string, unknown>));
+}
+
+export async function countOpenResearchJobs(): Promise<{ queued: number; running: number }> {
+  if (!HAS_SUPABASE || !supabase) {
+    const jobs = [...memJobs.values()];
+    return {
+      queued: jobs.filter((j) => j.status === "queued").length,
+      running: jobs.filter((j) => j.status === "running").length,
+    };
+  }
+  const counts = { queued: 0, running: 0 };
+  for (const status of ["queued", "running"] as const) {
+    const { count, error } = await supabase
+      .from("research_jobs")
+      .select("id", { count: "exact", head: true })
+      .eq("status", status);
+    if (!error && count != null) counts[status] = count;
+  }
+  return counts;
+}
+
+/**
+ * Take the next due job: queued and past its backoff, or running
+ * with an expired lease (its invocation was cut off). The update
+ * is conditional on updated_at, so two invocations never claim
+ * the same job.
+ */
+export async function claimResearchJob(leaseMs: number, onlyId?: string): Promise<ResearchJob | null> {
+  const now = new Date();
+  const nowIso = now.toISOString();
+  const leaseUntil = new Date(now.getTime() + leaseMs).toISOString();
+
+  if (!HAS_SUPABASE || !supabase) {
+    const due = [...memJobs.values()]
+      .filter((j) => !onlyId || j.id === onlyId)
+      .filter((j) =>
+        (j.status === "queued" && j.nextRunAt <= nowIso) ||
+        (j.status === "running" && (!j.leaseUntil || j.leaseUntil < nowIso))
+      )
+      .sort((a, b) => a.nextRunAt.localeCompare(b.nextRunAt))[0];
+    if (!due) return null;
+    Object.assign(due, { status: "running", leaseUntil, attempts: due.attempts + 1, updatedAt: nowIso });
+    return due;
+  }
+
+  let query = supabase
+    .from("research_jobs")
+    .select("*")
+    .or(`and(status.eq.queued,next_run_at.lte."${nowIso}"),and(status.eq.running,lease_until.lt."${nowIso}")`)
+    .order("next_run_at", { ascending: true })
+    .limit(5);
+  if (onlyId) query = query.eq("id", onlyId);
+  const { data, error } = await query;
+  if (error) {
+    logger.error(`[research-job-store] claim error: ${error.message}`);
+    return null;
+  }
+
+  for (const row of data || []) {
+    const job = rowToJob(row);
+    const { data: claimed, error: claimError } = await supabase
+      .from("research_jobs")
+      .update({ status: "running", lease_until: leaseUntil, attempts: job.attempts + 1, updated_at: nowIso })
+      .eq("id", job.id)
+      .eq("updated_at", row.updated_at)
+      .select("*");
+    if (claimError) {
+      logger.warn(`[research-job-store] claim ${job.id} error: ${claimError.message}`, { service: "research-jobs" });
+      continue;
+    }
+    if (claimed && claimed.length > 0) return rowToJob(claimed[0]);
+  }
+  return null;
+}
@@ -0,0 +1,328 @@
+// ============================================================
+// Research Jobs – durable, resumable research runner
+//
+// Each property's research is a job in research_jobs. Any
+// invocation (cron, run-research endpoint) claims due jobs and
+// runs them through the workflow engine within its time budget.
+// The job is checkpointed after every workflow step; when an
+// invocation is cut off by maxDuration the lease expires and the
+// next one resumes from the checkpoint (research data is reused,
+// the source cache covers the rest). Transient failures are
+// retried with backoff, others fail the job.
+// ============================================================
+
+import { fetchEjendommeByStatus, fetchEjendomById } from "../hubspot";
+import { getStagedProperty, listStagedProperties } from "../staging/store";
+import { autonomyAllows } from "../outreach/autonomy-store";
+import { isSupportedLocation, SUPPORTED_CITIES } from "../supported-cities";
+import { config } from "../config";
+import { logger } from "../logger";
+import {
+  processProperty,
+  processStagedProperty,
+  resetBatchContactTracker,
+  type CheckpointOptions,
+  type WorkflowProgressCallback,
+} from "./engine";
+import {
+  claimResearchJob,
+  countOpenResearchJobs,
+  createResearchJob,
+  findOpenResearchJob,
+  saveResearchJob,
+  type ResearchJob,
+  type ResearchJobOptions,
+  type ResearchJobTarget,
+} from "./research-job-store";
+import type { WorkflowRunLog } from "@/types";
+
+/** Attempts including the first; cut-off runs count as attempts too. */
+const MAX_ATTEMPTS = 4;
+const BACKOFF_MINUTES = [2, 10, 30];
+/** Lease per claim, extended at every checkpoint. */
+const LEASE_MS = 6 * 60_000;
+/** Don't start a job with less time than this left in the budget. */
+const MIN_JOB_MS = 60_000;
+/** Live progress is written to the job at most this often. */
+const PROGRESS_WRITE_MS = 4_000;
+
+const CANCELLED_ERROR = "Stoppet af bruger";
+
+const TRANSIENT_PATTERN =
+  /timeout|timed out|aborted|ECONNRESET|ECONNREFUSED|ETIMEDOUT|ENOTFOUND|EAI_AGAIN|fetch failed|socket|network|rate limit|too many requests|\b429\b|\b50[0234]\b|overloaded|unavailable|temporar/i;
+
+/** Network/timeouts/rate limits – worth another attempt later. */
+export function isTransientResearchError(message: string): boolean {
+  return TRANSIENT_PATTERN.test(message);
+}
+
+/**
+ * Queue research for one property. Returns the already open job
+ * when the property is queued or running; `runNow` pulls a queued
+ * job waiting for its backoff forward (a user asked for it).
+ */
+export async function enqueueResearchJob(input: {
+  targetType: ResearchJobTarget;
+  targetId: string;
+  label: string;
+  options?: ResearchJobOptions;
+  runNow?: boolean;
+}): Promise<{ job: ResearchJob; created: boolean }> {
+  const open = await findOpenResearchJob(input.targetType, input.targetId);
+  if (open) {
+    if (input.runNow && open.status === "queued") {
+      open.nextRunAt = new Date().toISOString();
+      open.options = { ...open.options, ...input.options };
+      await saveResearchJob(open);
+    }
+    return { job: open, created: false };
+  }
+  const job = await createResearchJob(input);
+  return { job, created: true };
+}
+
+/**
+ * Queue every property awaiting research: HubSpot properties in
+ * NY_KRAEVER_RESEARCH and staged properties with stage "new", in
+ * supported cities. `automatic` runs (cron) respect the autonomy
+ * level for HubSpot properties; held ones are logged for approval.
+ */
+export async function enqueuePendingResearch(
+  onProgress?: WorkflowProgressCallback,
+  options?: { automatic?: boolean }
+): Promise<{ enqueued: number; alreadyQueued: number; skipped: number; held: number }> {
+  const emit = onProgress || (() => {});
+  const result = { enqueued: 0, alreadyQueued: 0, skipped: 0, held: 0 };
+
+  if (config.researchSafeMode) {
+    emit({
+      phase: "safe_mode",
+      message: "⚠️ SAFE MODE AKTIV: Research kører men HubSpot opdateres IKKE",
+      detail: "Sæt RESEARCH_SAFE_MODE=false i .env for at aktivere HubSpot-skrivning",
+      progress: 0,
+    });
+  }
+
+  const supported = (p: { address: string; city?: string; postalCode?: string }) => {
+    const check = isSupportedLocation(p.city || "", p.postalCode || "");
+    if (!check.supported) {
+      result.skipped++;
+      emit({ phase: "city_skip", message: `⚠️ Springer over: ${p.address}, ${p.city || "ukendt by"}`, detail: check.reason });
+    }
+    return check.supported;
+  };
+
+  const count = (created: boolean) => (created ? result.enqueued++ : result.alreadyQueued++);
+
+  const hubspot = (await fetchEjendommeByStatus("NY_KRAEVER_RESEARCH", 50)).filter(supported);
+  for (const property of hubspot) {
+    if (options?.automatic) {
+      const allowed = await autonomyAllows("start_research", {
+        source: "run-research",
+        targetId: property.id,
+        label: property.name || property.address,
+      });
+      if (!allowed) {
+        result.held++;
+        emit({
+          phase: "held",
+          message: `⏸️ Afventer godkendelse: ${property.name || property.address}`,
+          detail: "Autonomi-niveauet tillader ikke automatisk research",
+        });
+        continue;
+      }
+    }
+    const { created } = await enqueueResearchJob({
+      targetType: "hubspot",
+      targetId: property.id,
+      label: property.name || property.address,
+    });
+    count(created);
+  }
+
+  const staged = (await listStagedProperties({ stage: "new" })).filter(supported);
+  for (const sp of staged) {
+    const { created } = await enqueueResearchJob({
+      targetType: "staged",
+      targetId: sp.id,
+      label: sp.name || sp.address,
+    });
+    count(created);
+  }
+
+  emit({
+    phase: "fetch_done",
+    message: `${result.enqueued} ejendomme sat i research-køen${result.alreadyQueued > 0 ? ` (${result.alreadyQueued} lå der allerede)` : ""}${result.skipped > 0 ? ` – ${result.skipped} sprunget over` : ""}`,
+    detail: result.skipped > 0 ? `Understøttede byer: ${SUPPORTED_CITIES.map(c => c.name).join(", ")}` : undefined,
+    progress: 5,
+  });
+
+  return result;
+}
+
+export interface ResearchJobsSummary {
+  completed: number;
+  failed: number;
+  retrying: number;
+  runs: WorkflowRunLog[];
+  /** Jobs still queued or running (in other invocations) afterwards. */
+  remaining: number;
+}
+
+/**
+ * Claim and run due jobs until the budget is spent, the queue is
+ * empty or the caller cancels. With `jobId` only that job is run.
+ */
+export async function runResearchJobs(opts: {
+  budgetMs: number;
+  jobId?: string;
+  onProgress?: WorkflowProgressCallback;
+  isCancelled?: () => boolean;
+}): Promise<ResearchJobsSummary> {
+  const emit = opts.onProgress || (() => {});
+  const checkCancelled = opts.isCancelled || (() => false);
+  const deadline = Date.now() + opts.budgetMs;
+  const summary: ResearchJobsSummary = { completed: 0, failed: 0, retrying: 0, runs: [], remaining: 0 };
+
+  resetBatchContactTracker();
+
+  while (!checkCancelled() && deadline - Date.now() >= MIN_JOB_MS) {
+    const job = await claimResearchJob(LEASE_MS, opts.jobId);
+    if (!job) break;
+
+    emit({
+      phase: "property_start",
+      message: `Researcher ${job.label}${job.attempts > 1 ? ` (forsøg ${job.attempts}/${MAX_ATTEMPTS})` : ""}`,
+      detail: job.steps.some(s => s.status === "completed")
+        ? `Genoptager efter: ${job.steps.filter(s => s.status === "completed").map(s => s.stepName).join(", ")}`
+        : undefined,
+    });
+
+    const run = await runJob(job, emit, checkCancelled);
+    if (run) summary.runs.push(run);
+    if (job.status === "completed") summary.completed++;
+    else if (job.status === "failed") summary.failed++;
+    else if (job.status === "queued" && job.error) summary.retrying++;
+
+    emit({
+      phase: "property_done",
+      message: `${job.label}: ${
+        job.status === "completed" ? "Fuldført" : job.status === "failed" ? "Fejlet" : "Sat i kø igen"
+      }`,
+      detail: job.error || `${job.steps.filter(s => s.status === "completed").length} trin gennemført`,
+    });
+
+    if (opts.jobId) break;
+  }
+
+  const open = await countOpenResearchJobs();
+  summary.remaining = open.queued + open.running;
+  return summary;
+}
+
+/** Run one claimed job and settle its status (completed, failed or queued for retry). */
+async function runJob(
+  job: ResearchJob,
+  emit: WorkflowProgressCallback,
+  checkCancelled: () => boolean
+): Promise<WorkflowRunLog | null> {
+  if (job.attempts > MAX_ATTEMPTS) {
+    await finish(job, "failed", `Opgivet efter ${MAX_ATTEMPTS} forsøg (afbrudt undervejs)`);
+    return null;
+  }
+
+  let lastWrite = 0;
+  const onProgress: WorkflowProgressCallback = (event) => {
+    emit(event);
+    if (event.progress !== undefined) job.progress = event.progress;
+    job.lastMessage = event.message;
+    if (Date.now() - lastWrite >= PROGRESS_WRITE_MS) {
+      lastWrite = Date.now();
+      saveResearchJob(job).catch(() => {});
+    }
+  };
+  const checkpointing: CheckpointOptions = {
+    resume: job.checkpoint,
+    onCheckpoint: async (run, state) => {
+      job.steps = run.steps.map(s => ({ ...s }));
+      job.checkpoint = state;
+      job.leaseUntil = new Date(Date.now() + LEASE_MS).toISOString();
+      lastWrite = Date.now();
+      await saveResearchJob(job);
+    },
+  };
+
+  let run: WorkflowRunLog;
+  try {
+    if (job.targetType === "staged") {
+      const staged = await getStagedProperty(job.targetId);
+      if (!staged) {
+        await finish(job, "failed", "Staged ejendom findes ikke længere");
+        return null;
+      }
+      run = await processStagedProperty(staged, onProgress, checkCancelled, {
+        ...checkpointing,
+        skipEmailDraft: job.options.skipEmailDraft,
+        refreshSources: job.options.refreshSources,
+      });
+    } else {
+      const property = await fetchEjendomById(job.targetId);
+      run = await processProperty(property, onProgress, checkCancelled, {
+        ...checkpointing,
+        refreshSources: job.options.refreshSources,
+      });
+    }
+  } catch (e) {
+    // Loading the property failed (HubSpot down, deleted …)
+    await settleFailure(job, e instanceof Error ? e.message : String(e));
+    return null;
+  }
+
+  job.steps = run.steps;
+  if (run.status === "completed") {
+    await finish(job, "completed", null);
+    return run;
+  }
+  if (run.error === CANCELLED_ERROR) {
+    // Caller went away – hand the job back without using an attempt
+    job.status = "queued";
+    job.attempts = Math.max(0, job.attempts - 1);
+    job.leaseUntil = null;
+    await saveResearchJob(job);
+    return run;
+  }
+  await settleFailure(job, run.error || "Ukendt fejl");
+  return run;
+}
+
+async function settleFailure(job: ResearchJob, error: string): Promise<void> {
+  if (isTransientResearchError(error) && job.attempts < MAX_ATTEMPTS) {
+    const minutes = BACKOFF_MINUTES[Math.min(job.attempts - 1, BACKOFF_MINUTES.length - 1)];
+    job.status = "queued";
+    job.error = error;
+    job.leaseUntil = null;
+    job.nextRunAt = new Date(Date.now() + minutes * 60_000).toISOString();
+    job.lastMessage = `Forbigående fejl – prøver igen om ${minutes} min`;
+    logger.warn(`Research job ${job.id} failed (attempt ${job.attempts}/${MAX_ATTEMPTS}), retrying in ${minutes}m: ${error}`, {
+      service: "research-jobs",
+    });
+    await saveResearchJob(job);
+    return;
+  }
+  await finish(job, "failed", error);
+}
+
+async function finish(job: ResearchJob, status: "completed" | "failed", error: string | null): Promise<void> {
+  job.status = status;
+  job.error = error;
+  job.leaseUntil = null;
+  job.completedAt = new Date().toISOString();
+  if (status === "completed") {
+    job.progress = 100;
+    // Research data lives on in the property/staging row; keep the job row small
+    job.checkpoint = {};
+  } else {
+    logger.error(`Research job ${job.id} (${job.label}) failed: ${error}`, { service: "research-jobs" });
+  }
+  await saveResearchJob(job);
+}
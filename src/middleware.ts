@@ -10,6 +10,7 @@ const PUBLIC_PREFIXES = [
   "/api/auth/",
   "/api/health",
   "/api/ooh/track/",
+  "/api/public/",
   "/api/status",
 ];
 
@@ -93,6 +93,32 @@ export interface ResearchData {
   websiteContent: WebsiteContent | null;
   /** Leadership data from Proff.dk */
   proffLeadership?: CompanyPerson[];
+  /** Which source responses were used and whether they came from cache */
+  provenance?: ResearchSourceProvenance[];
+  /** Administrator directory entry for the OIS administrator, when known */
+  administrator?: AdministratorDirectoryHit;
+}
+
+/** Administrator directory entry as consulted during research (usable contacts only) */
+export interface AdministratorDirectoryHit {
+  id: string;
+  name: string;
+  cvr: string | null;
+  domain: string | null;
+  contacts: { name: string; role: string | null; email: string | null; phone: string | null; verified: boolean }[];
+  propertyCount: number;
+}
+
+/** External research source whose responses are cached between runs */
+export type ResearchSource = "dawa" | "ois" | "bbr" | "cvr" | "web_search";
+
+export interface ResearchSourceProvenance {
+  source: ResearchSource;
+  /** Cache key, e.g. bfe:123456, cvr:12345678, addr:…, q:… */
+  key: string;
+  sourceUrl: string | null;
+  fetchedAt: string;
+  fromCache: boolean;
 }
 
 /** A person with a role in a company (from CVR/Proff/website) */
@@ -0,0 +1,11 @@
+-- ============================================================
+-- Booking-kalender — tilbud kobles til en placering, så
+-- belægning kan afledes af finale tilbud + case-salg.
+-- Cases har allerede placement_id (011_cases.sql).
+-- ============================================================
+
+ALTER TABLE tilbud
+  ADD COLUMN IF NOT EXISTS placement_id TEXT DEFAULT '';
+
+CREATE INDEX IF NOT EXISTS idx_tilbud_placement_id ON tilbud(placement_id);
+CREATE INDEX IF NOT EXISTS idx_cases_placement_id ON cases(placement_id);
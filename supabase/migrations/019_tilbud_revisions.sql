@@ -0,0 +1,18 @@
+-- ============================================================
+-- Tilbud-revisioner — et uforanderligt snapshot pr. gemning,
+-- så vi kan se hvad kunden fik tilbudt i version 1 vs. 3.
+-- Rækker indsættes kun; de opdateres eller slettes aldrig.
+-- ============================================================
+
+CREATE TABLE IF NOT EXISTS tilbud_revisions (
+  id TEXT PRIMARY KEY,                 -- <tilbud_id>-r<revision>
+  tilbud_id TEXT NOT NULL,
+  revision INTEGER NOT NULL,
+  status TEXT NOT NULL DEFAULT 'draft',
+  snapshot JSONB NOT NULL,             -- hele Tilbud-objektet (linjer, faste omk., rabatter)
+  totals JSONB NOT NULL DEFAULT '{}'::jsonb,  -- calcTilbudTotals() på gemmetidspunktet
+  created_at TIMESTAMPTZ DEFAULT now(),
+  UNIQUE (tilbud_id, revision)
+);
+
+CREATE INDEX IF NOT EXISTS idx_tilbud_revisions_tilbud ON tilbud_revisions(tilbud_id, revision DESC);
@@ -0,0 +1,20 @@
+-- ============================================================
+-- Kundens accept/afvisning af et tilbud via det signerede link.
+-- Ét svar pr. tilbud (UNIQUE) — kun case_id udfyldes bagefter.
+-- ============================================================
+
+CREATE TABLE IF NOT EXISTS tilbud_acceptances (
+  id TEXT PRIMARY KEY,
+  tilbud_id TEXT NOT NULL UNIQUE,
+  revision INTEGER NOT NULL DEFAULT 0,   -- tilbud_revisions.revision kunden så
+  decision TEXT NOT NULL,                -- accepted | rejected
+  signer_name TEXT NOT NULL,
+  signer_title TEXT DEFAULT '',
+  comment TEXT DEFAULT '',
+  ip TEXT DEFAULT '',
+  user_agent TEXT DEFAULT '',
+  case_id TEXT DEFAULT '',               -- case oprettet ved accept
+  created_at TIMESTAMPTZ DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_tilbud_acceptances_tilbud ON tilbud_acceptances(tilbud_id, created_at DESC);
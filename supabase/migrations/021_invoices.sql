@@ -0,0 +1,33 @@
+-- ============================================================
+-- Udgående fakturaer genereret fra cases. Linjer og beløb er
+-- låst ved udstedelse; kun status/betalt beløb opdateres.
+-- OIOUBL-XML gemmes som udstedt, PDF genereres fra rækken.
+-- ============================================================
+
+CREATE TABLE IF NOT EXISTS invoices (
+  id TEXT PRIMARY KEY,
+  invoice_number TEXT NOT NULL UNIQUE,   -- fortløbende pr. år: 20260001, 20260002 …
+  case_id TEXT NOT NULL,
+  case_number TEXT DEFAULT '',
+  customer JSONB NOT NULL DEFAULT '{}'::jsonb,
+  issue_date DATE NOT NULL,
+  due_date DATE NOT NULL,
+  payment_terms_days INTEGER NOT NULL DEFAULT 14,
+  payment_reference TEXT NOT NULL DEFAULT '',
+  currency TEXT NOT NULL DEFAULT 'DKK',
+  moms_pct NUMERIC NOT NULL DEFAULT 25,
+  lines JSONB NOT NULL DEFAULT '[]'::jsonb,
+  subtotal NUMERIC NOT NULL DEFAULT 0,
+  vat_amount NUMERIC NOT NULL DEFAULT 0,
+  total NUMERIC NOT NULL DEFAULT 0,
+  paid_amount NUMERIC NOT NULL DEFAULT 0,
+  status TEXT NOT NULL DEFAULT 'udstedt'
+    CHECK (status IN ('udstedt','delvist_betalt','betalt','annulleret')),
+  notes TEXT DEFAULT '',
+  oioubl_xml TEXT DEFAULT '',
+  created_at TIMESTAMPTZ DEFAULT now(),
+  updated_at TIMESTAMPTZ DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_invoices_case ON invoices(case_id);
+CREATE INDEX IF NOT EXISTS idx_invoices_status_due ON invoices(status, due_date);
@@ -0,0 +1,22 @@
+-- ============================================================
+-- Indbetalinger registreret mod udgående fakturaer — auto-matchet
+-- fra bank_transactions (fakturanr./beløb) eller indtastet manuelt.
+-- invoices.paid_amount er summen af rækkerne her.
+-- ============================================================
+
+CREATE TABLE IF NOT EXISTS invoice_payments (
+  id TEXT PRIMARY KEY,
+  invoice_id TEXT NOT NULL REFERENCES invoices(id) ON DELETE CASCADE,
+  transaction_id TEXT,                   -- bank_transactions.id (NULL ved manuel)
+  posted_date DATE NOT NULL,
+  amount NUMERIC NOT NULL CHECK (amount > 0),
+  matched_by TEXT NOT NULL DEFAULT 'manual'
+    CHECK (matched_by IN ('auto_number','auto_amount','manual')),
+  note TEXT DEFAULT '',
+  created_at TIMESTAMPTZ DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_invoice_payments_invoice ON invoice_payments(invoice_id);
+-- Samme banktransaktion kan kun allokeres én gang pr. faktura
+CREATE UNIQUE INDEX IF NOT EXISTS idx_invoice_payments_tx
+  ON invoice_payments(transaction_id, invoice_id);
@@ -0,0 +1,34 @@
+-- ============================================================
+-- Brugerdefinerede kategoriseringsregler for bank-transaktioner.
+-- Prøves i prioritetsorden før de indbyggede regex-regler.
+-- category_source på transaktionen: auto | rule | manual —
+-- manuelle valg røres ikke ved gen-kategorisering.
+-- ============================================================
+
+CREATE TABLE IF NOT EXISTS bank_category_rules (
+  id TEXT PRIMARY KEY,
+  name TEXT DEFAULT '',
+  pattern TEXT NOT NULL,
+  match_type TEXT NOT NULL DEFAULT 'contains'
+    CHECK (match_type IN ('contains','regex')),
+  sign TEXT NOT NULL DEFAULT 'any'
+    CHECK (sign IN ('any','in','out')),
+  min_amount NUMERIC,                    -- absolut beløb
+  max_amount NUMERIC,
+  account TEXT DEFAULT '',               -- tom = alle konti
+  category TEXT NOT NULL
+    CHECK (category IN ('indtaegt','leverandoer','software','loen','skat_moms','overfoersel','andet')),
+  priority INTEGER NOT NULL DEFAULT 100,
+  enabled BOOLEAN NOT NULL DEFAULT true,
+  hit_count INTEGER NOT NULL DEFAULT 0,
+  last_hit_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT now(),
+  updated_at TIMESTAMPTZ DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_bank_rules_priority ON bank_category_rules(priority, created_at);
+
+ALTER TABLE bank_transactions
+  ADD COLUMN IF NOT EXISTS category_source TEXT NOT NULL DEFAULT 'auto'
+    CHECK (category_source IN ('auto','rule','manual')),
+  ADD COLUMN IF NOT EXISTS category_rule_id TEXT;
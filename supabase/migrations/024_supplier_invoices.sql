@@ -0,0 +1,22 @@
+-- ============================================================
+-- Scannede leverandørfakturaer. Gemmes ved hver scanning, så
+-- momsrapporten kan bruge den faktiske købsmoms i stedet for et
+-- estimat fra kontoudtoget. Samme faktura scannet igen opdaterer
+-- rækken (id er en hash af leverandør/fakturanr./dato/beløb).
+-- ============================================================
+
+CREATE TABLE IF NOT EXISTS supplier_invoices (
+  id TEXT PRIMARY KEY,
+  vendor TEXT NOT NULL DEFAULT '',
+  invoice_number TEXT NOT NULL DEFAULT '',
+  invoice_date DATE,
+  currency TEXT NOT NULL DEFAULT 'DKK',
+  total_net NUMERIC NOT NULL DEFAULT 0,
+  total_vat NUMERIC NOT NULL DEFAULT 0,
+  total_gross NUMERIC NOT NULL DEFAULT 0,
+  case_id TEXT,
+  file_name TEXT DEFAULT '',
+  created_at TIMESTAMPTZ DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_supplier_invoices_date ON supplier_invoices(invoice_date);
@@ -0,0 +1,19 @@
+-- ============================================================
+-- Navngivne what-if-scenarier til likviditetsprognosen. Hvert
+-- scenarie overstyrer case-statusser, betalingsforsinkelse og
+-- udgiftslinjer; beregningen sker i klienten mod basis-prognosen.
+-- ============================================================
+
+CREATE TABLE IF NOT EXISTS liquidity_scenarios (
+  id TEXT PRIMARY KEY,
+  name TEXT NOT NULL,
+  description TEXT DEFAULT '',
+  case_status_overrides JSONB NOT NULL DEFAULT '[]'::jsonb,  -- [{caseId, status}]
+  lose_largest_pending INTEGER NOT NULL DEFAULT 0,
+  income_delay_days INTEGER NOT NULL DEFAULT 0,
+  expense_overrides JSONB NOT NULL DEFAULT '[]'::jsonb,      -- [{expenseId, amountPerMonth?, enabled?}]
+  extra_expenses JSONB NOT NULL DEFAULT '[]'::jsonb,         -- [{label, amountPerMonth, fromMonth, toMonth}]
+  one_offs JSONB NOT NULL DEFAULT '[]'::jsonb,               -- [{label, direction, amount, date}]
+  created_at TIMESTAMPTZ DEFAULT now(),
+  updated_at TIMESTAMPTZ DEFAULT now()
+);
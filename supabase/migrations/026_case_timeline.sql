@@ -0,0 +1,20 @@
+-- ============================================================
+-- Case-tidslinje: statusskift logges ved hver gemning, og bank-
+-- transaktioner kan knyttes til en case, så de reelle omkostninger
+-- kan sammenlignes med budgettet pr. stillads.
+-- ============================================================
+
+CREATE TABLE IF NOT EXISTS case_status_events (
+  id TEXT PRIMARY KEY,
+  case_id TEXT NOT NULL REFERENCES cases(id) ON DELETE CASCADE,
+  from_status TEXT,                      -- NULL ved oprettelse
+  to_status TEXT NOT NULL,
+  changed_at TIMESTAMPTZ DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_case_status_events_case ON case_status_events(case_id, changed_at);
+
+ALTER TABLE bank_transactions
+  ADD COLUMN IF NOT EXISTS case_id TEXT;   -- manuelt knyttet til en case
+
+CREATE INDEX IF NOT EXISTS idx_bank_tx_case ON bank_transactions(case_id) WHERE case_id IS NOT NULL;
@@ -0,0 +1,20 @@
+-- ============================================================
+-- Statusskift for ejendomme (outreach_status i HubSpot).
+-- Alle skift går gennem transition-servicen, som validerer mod
+-- state-maskinen og logger hvem/hvad der udløste skiftet.
+-- ============================================================
+
+CREATE TABLE IF NOT EXISTS property_status_transitions (
+  id TEXT PRIMARY KEY,
+  property_id TEXT NOT NULL,             -- HubSpot ejendoms-id
+  from_status TEXT NOT NULL,
+  to_status TEXT NOT NULL,
+  action TEXT NOT NULL,                  -- fx send_first_email, reply_received
+  actor TEXT NOT NULL DEFAULT 'system',  -- user | system
+  source TEXT NOT NULL,                  -- fx workflow, email-queue, mail-sync, properties-api
+  note TEXT,
+  created_at TIMESTAMPTZ DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_property_transitions_property
+  ON property_status_transitions(property_id, created_at DESC);
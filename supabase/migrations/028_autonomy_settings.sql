@@ -0,0 +1,28 @@
+-- ============================================================
+-- Autonomi-niveau og auto-research regler (tidligere kun i
+-- browserens localStorage), samt en log over automatiske
+-- handlinger der blev holdt tilbage til manuel godkendelse.
+-- ============================================================
+
+CREATE TABLE IF NOT EXISTS autonomy_settings (
+  id TEXT PRIMARY KEY DEFAULT 'default',
+  level INTEGER NOT NULL DEFAULT 0 CHECK (level BETWEEN 0 AND 3),
+  auto_rules JSONB NOT NULL DEFAULT '[]',   -- AutoResearchRule[]
+  updated_at TIMESTAMPTZ DEFAULT now()
+);
+
+-- Én række pr. (handling, mål) – gentagne forsøg tæller op i stedet for at fylde loggen.
+CREATE TABLE IF NOT EXISTS autonomy_held_actions (
+  id TEXT PRIMARY KEY,
+  action TEXT NOT NULL,                 -- start_research | send_first_email | send_followup
+  source TEXT NOT NULL,                 -- auto-research, run-research, ooh-followup, ...
+  target_id TEXT NOT NULL,              -- ejendoms-id eller OOH send-id
+  label TEXT,
+  level INTEGER NOT NULL,               -- autonomi-niveau da handlingen blev holdt tilbage
+  detail JSONB,
+  hold_count INTEGER NOT NULL DEFAULT 1,
+  first_held_at TIMESTAMPTZ DEFAULT now(),
+  last_held_at TIMESTAMPTZ DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_autonomy_held_last ON autonomy_held_actions(last_held_at DESC);
@@ -0,0 +1,34 @@
+-- ============================================================
+-- Svar-intelligens: hvert indkommende svar klassificeres én gang
+-- (regler + LLM-fallback) og de udførte handlinger gemmes.
+-- Afmeldinger lægges på en central suppression-liste.
+-- ============================================================
+
+CREATE TABLE IF NOT EXISTS mail_reply_classifications (
+  message_id TEXT PRIMARY KEY,           -- Gmail message id
+  thread_id TEXT NOT NULL,
+  property_id TEXT,
+  from_email TEXT NOT NULL,
+  intent TEXT NOT NULL,                  -- interested | meeting_request | not_interested | unsubscribe | wrong_person | out_of_office | unknown
+  confidence NUMERIC NOT NULL DEFAULT 0,
+  method TEXT NOT NULL,                  -- rules | llm
+  referral JSONB,                        -- { name, email } ved "forkert person"
+  return_date DATE,                      -- ved autosvar/fravær
+  summary TEXT,
+  actions TEXT[] NOT NULL DEFAULT '{}',
+  received_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_reply_class_property ON mail_reply_classifications(property_id, received_at DESC);
+CREATE INDEX IF NOT EXISTS idx_reply_class_from ON mail_reply_classifications(from_email);
+
+CREATE TABLE IF NOT EXISTS email_suppressions (
+  id TEXT PRIMARY KEY,
+  value TEXT NOT NULL UNIQUE,            -- email eller domæne, lowercase
+  kind TEXT NOT NULL DEFAULT 'email',    -- email | domain
+  reason TEXT NOT NULL,                  -- unsubscribe | manual | bounce | ...
+  source TEXT NOT NULL,
+  note TEXT,
+  created_at TIMESTAMPTZ DEFAULT now()
+);
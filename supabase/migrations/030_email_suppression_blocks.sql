@@ -0,0 +1,19 @@
+-- ============================================================
+-- Suppression-liste på tværs af alle udsendelseskanaler:
+-- log over forsøg på at sende til afmeldte adresser/domæner,
+-- så det kan ses hvilken kanal der blev stoppet.
+-- (Selve listen email_suppressions ligger i 029.)
+-- ============================================================
+
+CREATE TABLE IF NOT EXISTS email_suppression_blocks (
+  id TEXT PRIMARY KEY,
+  email TEXT NOT NULL,
+  matched_value TEXT NOT NULL,          -- email eller domæne der matchede
+  reason TEXT NOT NULL,                 -- suppression-årsagen på tidspunktet
+  source TEXT NOT NULL,                 -- email-queue | ooh-proposal | send-campaign | ooh-followup | ...
+  ref_id TEXT,                          -- ejendom, send-id, forslag-id ...
+  created_at TIMESTAMPTZ DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_suppression_blocks_created ON email_suppression_blocks(created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_email_suppressions_kind ON email_suppressions(kind);
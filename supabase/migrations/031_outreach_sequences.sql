@@ -0,0 +1,63 @@
+-- ============================================================
+-- Outreach-sekvenser: genbrugelige flertrins-forløb (skabeloner,
+-- forsinkelse i hverdage, stop-betingelser, AI-personalisering)
+-- der kan knyttes til en ejendom eller en OOH-kontakt.
+-- Trinnene sendes via mail-køen og rapporteres pr. trin.
+-- ============================================================
+
+CREATE TABLE IF NOT EXISTS outreach_sequences (
+  id TEXT PRIMARY KEY,
+  name TEXT NOT NULL,
+  description TEXT,
+  target TEXT NOT NULL DEFAULT 'property',   -- property | ooh_contact
+  steps JSONB NOT NULL DEFAULT '[]',         -- SequenceStep[]
+  stop_on TEXT[] NOT NULL DEFAULT '{reply,bounce,unsubscribe}',
+  active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMPTZ DEFAULT now(),
+  updated_at TIMESTAMPTZ DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS sequence_enrollments (
+  id TEXT PRIMARY KEY,
+  sequence_id TEXT NOT NULL REFERENCES outreach_sequences(id) ON DELETE CASCADE,
+  target_type TEXT NOT NULL,                 -- property | ooh_contact
+  target_id TEXT NOT NULL,
+  email TEXT NOT NULL,
+  contact_name TEXT,
+  label TEXT,                                -- adresse / virksomhed til visning
+  current_step INTEGER NOT NULL DEFAULT 0,   -- næste trin der skal sendes
+  status TEXT NOT NULL DEFAULT 'active',     -- active | completed | stopped
+  stop_reason TEXT,                          -- reply | bounce | unsubscribe | manual | send_failed | status
+  next_run_at TIMESTAMPTZ,                   -- NULL mens et trin ligger i køen
+  enrolled_at TIMESTAMPTZ DEFAULT now(),
+  updated_at TIMESTAMPTZ DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_seq_enroll_due ON sequence_enrollments(status, next_run_at);
+CREATE INDEX IF NOT EXISTS idx_seq_enroll_target ON sequence_enrollments(target_type, target_id);
+CREATE INDEX IF NOT EXISTS idx_seq_enroll_email ON sequence_enrollments(email);
+
+-- Én række pr. afsendt trin – grundlaget for åbne/klik/svar-rater pr. trin.
+CREATE TABLE IF NOT EXISTS sequence_step_sends (
+  id TEXT PRIMARY KEY,
+  enrollment_id TEXT NOT NULL REFERENCES sequence_enrollments(id) ON DELETE CASCADE,
+  sequence_id TEXT NOT NULL,
+  step_index INTEGER NOT NULL,
+  queue_id TEXT,
+  status TEXT NOT NULL DEFAULT 'queued',     -- queued | sent | failed
+  subject TEXT,
+  message_id TEXT,
+  thread_id TEXT,
+  error TEXT,
+  queued_at TIMESTAMPTZ DEFAULT now(),
+  sent_at TIMESTAMPTZ,
+  opened_at TIMESTAMPTZ,
+  clicked_at TIMESTAMPTZ,
+  replied_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_seq_sends_sequence ON sequence_step_sends(sequence_id, step_index);
+CREATE INDEX IF NOT EXISTS idx_seq_sends_enrollment ON sequence_step_sends(enrollment_id);
+
+-- Mail-køen kender det trin en mail hører til
+ALTER TABLE email_queue ADD COLUMN IF NOT EXISTS sequence_send_id TEXT;
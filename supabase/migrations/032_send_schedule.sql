@@ -0,0 +1,34 @@
+-- ============================================================
+-- Afsendelsesplan for mail-køen: sendevindue (danske hverdage
+-- i arbejdstiden), dagligt loft pr. Gmail-konto med opvarmning,
+-- og hvilken konto hver mail/tråd blev sendt fra (round-robin).
+-- ============================================================
+
+CREATE TABLE IF NOT EXISTS email_send_settings (
+  id TEXT PRIMARY KEY DEFAULT 'default',
+  window_start_minute INTEGER NOT NULL DEFAULT 510,   -- minutter efter midnat, dansk tid (08:30)
+  window_end_minute INTEGER NOT NULL DEFAULT 960,     -- 16:00
+  min_gap_minutes INTEGER NOT NULL DEFAULT 2,         -- mindste pause mellem to mails fra samme konto
+  updated_at TIMESTAMPTZ DEFAULT now()
+);
+
+-- Én række pr. afsenderkonto – indstillinger + seneste afsendelse.
+CREATE TABLE IF NOT EXISTS mailbox_send_settings (
+  email TEXT PRIMARY KEY,
+  daily_cap INTEGER NOT NULL DEFAULT 40,
+  warmup_enabled BOOLEAN NOT NULL DEFAULT true,
+  warmup_start_cap INTEGER NOT NULL DEFAULT 5,
+  warmup_increment INTEGER NOT NULL DEFAULT 3,        -- ekstra mails pr. hverdag under opvarmning
+  warmup_started_on DATE,                             -- sættes ved første afsendelse
+  paused BOOLEAN NOT NULL DEFAULT false,
+  last_sent_at TIMESTAMPTZ,
+  next_send_at TIMESTAMPTZ,                           -- tilfældig spredning efter hver mail
+  updated_at TIMESTAMPTZ DEFAULT now()
+);
+
+ALTER TABLE email_queue ADD COLUMN IF NOT EXISTS from_account TEXT;
+CREATE INDEX IF NOT EXISTS idx_email_queue_account_sent ON email_queue(from_account, sent_at);
+
+-- Tråd-id'er er pr. postkasse – mail-sync skal vide hvilken konto den skal læse
+ALTER TABLE mail_thread_property ADD COLUMN IF NOT EXISTS account_email TEXT;
+ALTER TABLE sequence_step_sends ADD COLUMN IF NOT EXISTS from_account TEXT;
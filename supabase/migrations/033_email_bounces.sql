@@ -0,0 +1,25 @@
+-- ============================================================
+-- Bounces: leveringsfejl (mailer-daemon / postmaster) fundet af
+-- mail-sync, koblet til den mail der bounced. Hårde bounces
+-- blokerer adressen (email_suppressions, reason 'bounce') og
+-- sender ejendommen tilbage til kontakt-research.
+-- ============================================================
+
+CREATE TABLE IF NOT EXISTS email_bounces (
+  message_id TEXT PRIMARY KEY,           -- Gmail id på bounce-beskeden
+  thread_id TEXT NOT NULL,
+  account TEXT,                          -- postkassen den landede i
+  recipient TEXT,                        -- adressen der ikke kunne leveres til
+  kind TEXT NOT NULL,                    -- hard | soft
+  status_code TEXT,                      -- fx 5.1.1
+  diagnostic TEXT,
+  queue_id TEXT,                         -- email_queue.id
+  ooh_send_id TEXT,
+  property_id TEXT,
+  actions TEXT[] NOT NULL DEFAULT '{}',
+  received_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_email_bounces_recipient ON email_bounces(recipient);
+CREATE INDEX IF NOT EXISTS idx_email_queue_message ON email_queue(message_id);
@@ -0,0 +1,49 @@
+-- ============================================================
+-- A/B-eksperimenter på emnelinjer, brødtekst og AI-prompts.
+-- Modtagere tildeles tilfældigt en variant (og beholder den);
+-- afsendelse, åbning, klik og svar registreres pr. tildeling,
+-- så resultaterne kan sammenlignes med signifikanstest.
+-- ============================================================
+
+CREATE TABLE IF NOT EXISTS email_experiments (
+  id TEXT PRIMARY KEY,
+  name TEXT NOT NULL,
+  description TEXT,
+  channel TEXT NOT NULL DEFAULT 'property',   -- property | ooh | lead
+  metric TEXT NOT NULL DEFAULT 'reply',       -- open | click | reply
+  variants JSONB NOT NULL DEFAULT '[]',       -- ExperimentVariant[]
+  auto_promote BOOLEAN NOT NULL DEFAULT false,
+  min_sample_per_variant INTEGER NOT NULL DEFAULT 50,
+  status TEXT NOT NULL DEFAULT 'draft',       -- draft | running | stopped | promoted
+  winner_variant_id TEXT,
+  started_at TIMESTAMPTZ,
+  ended_at TIMESTAMPTZ,                       -- resultaterne tæller kun tildelinger før dette
+  created_at TIMESTAMPTZ DEFAULT now(),
+  updated_at TIMESTAMPTZ DEFAULT now()
+);
+
+-- Højst ét kørende (eller forfremmet) eksperiment pr. kanal
+CREATE UNIQUE INDEX IF NOT EXISTS idx_experiments_active_channel
+  ON email_experiments(channel) WHERE status IN ('running', 'promoted');
+
+CREATE TABLE IF NOT EXISTS experiment_assignments (
+  id TEXT PRIMARY KEY,                        -- abx-… (bruges som sendId i tracking)
+  experiment_id TEXT NOT NULL REFERENCES email_experiments(id) ON DELETE CASCADE,
+  variant_id TEXT NOT NULL,
+  channel TEXT NOT NULL,
+  recipient TEXT NOT NULL,
+  ref_id TEXT,                                -- kø-element / OOH-send / lead
+  status TEXT NOT NULL DEFAULT 'assigned',    -- assigned | sent | failed
+  assigned_at TIMESTAMPTZ DEFAULT now(),
+  sent_at TIMESTAMPTZ,
+  opened_at TIMESTAMPTZ,
+  clicked_at TIMESTAMPTZ,
+  replied_at TIMESTAMPTZ,
+  UNIQUE (experiment_id, recipient)
+);
+
+CREATE INDEX IF NOT EXISTS idx_exp_assign_recipient ON experiment_assignments(recipient);
+CREATE INDEX IF NOT EXISTS idx_exp_assign_ref ON experiment_assignments(ref_id);
+
+-- Mail-køen kender den tildeling en førstemail er skrevet til
+ALTER TABLE email_queue ADD COLUMN IF NOT EXISTS experiment_assignment_id TEXT;
@@ -0,0 +1,30 @@
+-- ============================================================
+-- Mailskabeloner med flettefelter og versionshistorik.
+-- Hver gemning af emne/tekst giver en ny version; de gamle
+-- versioner gemmes, så de kan ses og gendannes.
+-- ============================================================
+
+CREATE TABLE IF NOT EXISTS email_templates (
+  id TEXT PRIMARY KEY,                        -- tpl-…
+  name TEXT NOT NULL,
+  description TEXT,
+  subject TEXT NOT NULL,
+  body TEXT NOT NULL,
+  version INTEGER NOT NULL DEFAULT 1,         -- nuværende version
+  archived BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMPTZ DEFAULT now(),
+  updated_at TIMESTAMPTZ DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS email_template_versions (
+  id BIGSERIAL PRIMARY KEY,
+  template_id TEXT NOT NULL REFERENCES email_templates(id) ON DELETE CASCADE,
+  version INTEGER NOT NULL,
+  subject TEXT NOT NULL,
+  body TEXT NOT NULL,
+  note TEXT,                                  -- fx "kortere indledning" / "Gendannet fra v2"
+  created_at TIMESTAMPTZ DEFAULT now(),
+  UNIQUE (template_id, version)
+);
+
+CREATE INDEX IF NOT EXISTS idx_email_templates_archived ON email_templates(archived);
@@ -0,0 +1,26 @@
+-- ============================================================
+-- Samlet engagement-strøm pr. kontakt og virksomhed.
+-- Hvert delsystem skriver en hændelse, når noget sker (mail
+-- sendt/åbnet/klikket/besvaret, forslag, tilbud, case, opkald),
+-- så tidslinjen og opfølgnings-scoringen ikke skal hente alt fra
+-- Gmail og HubSpot hver gang.
+-- ============================================================
+
+CREATE TABLE IF NOT EXISTS engagement_events (
+  id TEXT PRIMARY KEY,                        -- eng-…
+  kind TEXT NOT NULL,                         -- email_sent | email_opened | … | call_note
+  contact_email TEXT,                         -- små bogstaver
+  company_key TEXT,                           -- cvr:12345678 | domain:firma.dk
+  property_id TEXT,
+  source TEXT NOT NULL,                       -- email-queue | ooh-campaign | hubspot | manual …
+  ref_id TEXT,
+  dedupe_key TEXT UNIQUE,                     -- kind:source:ref_id – samme hændelse skrives kun én gang
+  summary TEXT NOT NULL DEFAULT '',
+  occurred_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  metadata JSONB NOT NULL DEFAULT '{}',
+  created_at TIMESTAMPTZ DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_engagement_contact ON engagement_events(contact_email, occurred_at DESC);
+CREATE INDEX IF NOT EXISTS idx_engagement_company ON engagement_events(company_key, occurred_at DESC);
+CREATE INDEX IF NOT EXISTS idx_engagement_property ON engagement_events(property_id, occurred_at DESC);
@@ -0,0 +1,18 @@
+-- ============================================================
+-- Research-cache: rå svar fra DAWA, OIS, BBR, CVR og websøgning.
+-- Nøglet pr. kilde på BFE / CVR / adresse / søgestreng, så en
+-- ny research af samme ejendom ikke bruger kvote på data, der
+-- kun ændrer sig sjældent. Levetiden (TTL) pr. kilde styres i
+-- koden ud fra fetched_at.
+-- ============================================================
+
+CREATE TABLE IF NOT EXISTS research_artifacts (
+  source TEXT NOT NULL,                       -- dawa | ois | bbr | cvr | web_search
+  cache_key TEXT NOT NULL,                    -- bfe:123 | cvr:12345678 | addr:… | q:…
+  value JSONB NOT NULL,
+  source_url TEXT,                            -- hvor data blev hentet (proveniens)
+  fetched_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  PRIMARY KEY (source, cache_key)
+);
+
+CREATE INDEX IF NOT EXISTS idx_research_artifacts_fetched ON research_artifacts(fetched_at);
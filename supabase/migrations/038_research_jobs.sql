@@ -0,0 +1,30 @@
+-- ============================================================
+-- Research-jobkø: én række pr. ejendom, der skal researches.
+-- Jobbet checkpointes efter hvert workflow-trin (steps +
+-- checkpoint), så en cron-kørsel, der rammer maxDuration, kan
+-- genoptages af den næste. Forbigående fejl prøves igen med
+-- backoff (next_run_at); lease_until markerer hvem der kører.
+-- ============================================================
+
+CREATE TABLE IF NOT EXISTS research_jobs (
+  id TEXT PRIMARY KEY,                        -- rjob-…
+  target_type TEXT NOT NULL,                  -- hubspot | staged
+  target_id TEXT NOT NULL,
+  label TEXT NOT NULL DEFAULT '',
+  status TEXT NOT NULL DEFAULT 'queued',      -- queued | running | completed | failed | cancelled
+  attempts INT NOT NULL DEFAULT 0,
+  next_run_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  lease_until TIMESTAMPTZ,
+  progress INT NOT NULL DEFAULT 0,
+  last_message TEXT,
+  steps JSONB NOT NULL DEFAULT '[]',          -- WorkflowStepLog[] fra seneste forsøg
+  checkpoint JSONB NOT NULL DEFAULT '{}',     -- { researchData } til genoptagelse
+  options JSONB NOT NULL DEFAULT '{}',        -- { refreshSources, skipEmailDraft }
+  error TEXT,
+  created_at TIMESTAMPTZ DEFAULT now(),
+  updated_at TIMESTAMPTZ DEFAULT now(),
+  completed_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_research_jobs_due ON research_jobs(status, next_run_at);
+CREATE INDEX IF NOT EXISTS idx_research_jobs_target ON research_jobs(target_type, target_id);
@@ -0,0 +1,37 @@
+-- ============================================================
+-- Ejerporteføljer: ejendomme grupperet efter ejerselskab og
+-- ultimativt moderselskab.
+-- owner_companies gemmer den opløste koncernkæde pr. ejer-CVR
+-- (fra ejeren og op, via CVR-ejerdata), så porteføljelisten
+-- ikke skal slå kæden op igen ved hver visning.
+-- portfolio_outreach gemmer samlede udkast, der dækker alle
+-- koncernens ejendomme i én mail.
+-- ============================================================
+
+CREATE TABLE IF NOT EXISTS owner_companies (
+  cvr TEXT PRIMARY KEY,
+  name TEXT NOT NULL DEFAULT '',
+  chain JSONB NOT NULL DEFAULT '[]',          -- [{ cvr, name }] fra ejeren op til toppen
+  ultimate_parent_cvr TEXT NOT NULL,
+  ultimate_parent_name TEXT NOT NULL DEFAULT '',
+  stop_reason TEXT NOT NULL,                  -- person_owner | no_owner_data | multiple_company_owners | …
+  unmatched_owners JSONB NOT NULL DEFAULT '[]', -- ejernavne over toppen, der ikke blev fulgt
+  resolved_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_owner_companies_parent ON owner_companies(ultimate_parent_cvr);
+
+CREATE TABLE IF NOT EXISTS portfolio_outreach (
+  id TEXT PRIMARY KEY,                        -- pout-…
+  portfolio_key TEXT NOT NULL,                -- CVR på ultimativt moderselskab
+  parent_name TEXT NOT NULL DEFAULT '',
+  to_email TEXT,
+  to_name TEXT,
+  subject TEXT NOT NULL,
+  body TEXT NOT NULL,
+  note TEXT,
+  property_refs JSONB NOT NULL DEFAULT '[]',  -- ["hubspot:123", "staged:abc", …]
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_portfolio_outreach_key ON portfolio_outreach(portfolio_key, created_at DESC);
@@ -0,0 +1,26 @@
+-- ============================================================
+-- Administratorkatalog: ejendomsadministratorer (DEAS,
+-- Cobblestone, Newsec …) med CVR, domæne, kontaktpersoner og
+-- hvilke ejendomme de administrerer. Lærer af hver research,
+-- kan redigeres i UI'et og slås op først, når OIS peger på en
+-- administrator – så kontakterne ikke skal findes igen.
+-- ============================================================
+
+CREATE TABLE IF NOT EXISTS property_administrators (
+  id TEXT PRIMARY KEY,                        -- adm-…
+  name TEXT NOT NULL,
+  aliases JSONB NOT NULL DEFAULT '[]',        -- andre navne (fx som de står i OIS)
+  cvr TEXT,
+  domain TEXT,
+  website TEXT,
+  phone TEXT,
+  notes TEXT,
+  contacts JSONB NOT NULL DEFAULT '[]',       -- [{ id, name, role, email, phone, verified, rejected, bouncedAt, source, confidence, lastSeenAt }]
+  properties JSONB NOT NULL DEFAULT '[]',     -- [{ ref: "hubspot:…" | "staged:…", address, city, seenAt }]
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  last_seen_at TIMESTAMPTZ                    -- seneste research der pegede på administratoren
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_property_administrators_cvr ON property_administrators(cvr) WHERE cvr IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_property_administrators_name ON property_administrators(lower(name));
@@ -0,0 +1,43 @@
+-- ============================================================
+-- Dubletter på tværs af pipelines (HubSpot, staging, OOH-rammer).
+-- property_bfe_index gemmer BFE-nummeret fra DAWA pr. post, så
+-- samme ejendom genkendes uanset stavemåde af adressen.
+-- property_merges logger hver fletning med et øjebliksbillede af
+-- de fjernede poster; property_redirects peger fra de fjernede
+-- id'er til den overlevende, så gamle links stadig kan slås op.
+-- Fletningen og henvisningerne gemmes før dubletterne fjernes; en
+-- afbrudt fletning står som 'pending' og genoptages ved næste forsøg.
+-- ============================================================
+
+CREATE TABLE IF NOT EXISTS property_bfe_index (
+  record_ref TEXT PRIMARY KEY,                -- hubspot:123 | staged:abc | frame:xyz
+  address_key TEXT NOT NULL,                  -- normaliseret adresse; ændres den, slås BFE op igen
+  bfe BIGINT,                                 -- NULL = DAWA fandt intet BFE
+  kommune TEXT,
+  resolved_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_property_bfe_index_bfe ON property_bfe_index(bfe) WHERE bfe IS NOT NULL;
+
+CREATE TABLE IF NOT EXISTS property_merges (
+  id TEXT PRIMARY KEY,                        -- merge-…
+  survivor_ref TEXT NOT NULL,
+  removed_refs JSONB NOT NULL DEFAULT '[]',
+  bfe BIGINT,
+  actions JSONB NOT NULL DEFAULT '[]',        -- hvad der blev flyttet/udfyldt
+  status TEXT NOT NULL DEFAULT 'pending',     -- pending | completed
+  done_refs JSONB NOT NULL DEFAULT '[]',      -- fjernede poster der allerede er arkiveret/slettet
+  snapshot JSONB NOT NULL DEFAULT '[]',       -- de fjernede poster, som de så ud før fletningen
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_property_merges_created ON property_merges(created_at DESC);
+
+CREATE TABLE IF NOT EXISTS property_redirects (
+  from_ref TEXT PRIMARY KEY,
+  to_ref TEXT NOT NULL,
+  merge_id TEXT NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_property_redirects_to ON property_redirects(to_ref);